@@ -10,6 +10,9 @@ export const ADMIN_EMAILS: readonly string[] = [
   "sal.scrudato@gmail.com",
 ] as const;
 
+/** Email addresses allowed to label article relevance (admins are editors too) */
+export const EDITOR_EMAILS: readonly string[] = [] as const;
+
 /**
  * Check if an email is in the admin allowlist
  */
@@ -18,3 +21,11 @@ export function isAdminEmail(email: string | undefined | null): boolean {
   return ADMIN_EMAILS.includes(email.toLowerCase());
 }
 
+/**
+ * Check if an email may submit editorial feedback (editors and admins)
+ */
+export function isEditorEmail(email: string | undefined | null): email is string {
+  if (!email) return false;
+  return isAdminEmail(email) || EDITOR_EMAILS.includes(email.toLowerCase());
+}
+
@@ -0,0 +1,67 @@
+/**
+ * Email Configuration
+ *
+ * Where brief and digest emails are sent from and how. Read from the
+ * environment (functions/.env, or .env.local for the emulator) so a deploy
+ * without SMTP settings still succeeds; sends are skipped until configured.
+ */
+
+/** Public web app; links in emails point here */
+export const DEFAULT_APP_URL = "https://insurance-news-ai.web.app";
+
+/** Functions base URL; the unsubscribe endpoint lives under it */
+export const DEFAULT_FUNCTIONS_URL = "https://us-central1-insurance-news-ai.cloudfunctions.net";
+
+/** Local outbox for EMAIL_TRANSPORT=file (relative to the functions directory) */
+export const DEFAULT_EMAIL_OUTBOX_DIR = "outbox";
+
+export type EmailTransportName = "smtp" | "file";
+
+export interface SmtpConfig {
+  host: string;
+  /** 465 connects over TLS; anything else upgrades with STARTTLS when offered */
+  port: number;
+  user: string | null;
+  password: string | null;
+}
+
+/** Sender address, e.g. "The Brief <brief@example.com>" (EMAIL_FROM) */
+export function emailFromAddress(): string | null {
+  return process.env.EMAIL_FROM || null;
+}
+
+/**
+ * Transport for outgoing email. Set EMAIL_TRANSPORT=file to write .eml
+ * files to EMAIL_OUTBOX_DIR instead of sending; otherwise SMTP is used
+ * when SMTP_HOST is set.
+ */
+export function configuredEmailTransport(): EmailTransportName {
+  return process.env.EMAIL_TRANSPORT === "file" ? "file" : "smtp";
+}
+
+/** SMTP settings, or null when SMTP_HOST is unset */
+export function smtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+  const port = Number(process.env.SMTP_PORT);
+  return {
+    host,
+    port: Number.isInteger(port) && port > 0 ? port : 587,
+    user: process.env.SMTP_USER || null,
+    password: process.env.SMTP_PASSWORD || null,
+  };
+}
+
+export function emailOutboxDir(): string {
+  return process.env.EMAIL_OUTBOX_DIR || DEFAULT_EMAIL_OUTBOX_DIR;
+}
+
+/** APP_URL overrides the default web app URL */
+export function appUrl(): string {
+  return (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, "");
+}
+
+/** Public URL of the unsubscribeEmail function; FUNCTIONS_URL overrides the base */
+export function unsubscribeEndpointUrl(): string {
+  return `${(process.env.FUNCTIONS_URL || DEFAULT_FUNCTIONS_URL).replace(/\/+$/, "")}/unsubscribeEmail`;
+}
@@ -0,0 +1,84 @@
+/**
+ * LLM Configuration
+ *
+ * Which model each AI task runs on, and which provider serves them.
+ * Change a task's model here rather than at the call site.
+ */
+
+/** Cost-efficient model for high-volume operations (article summaries, chat) */
+export const AI_MODEL = "gpt-4o-mini";
+
+/** Higher-quality model for critical content (daily briefs, digests) */
+export const AI_MODEL_PREMIUM = "gpt-4o";
+
+/** Embedding model for article and question vectors */
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+/** Every AI call site, keyed by what it produces */
+export type LlmTask =
+  | "articleSummary"
+  | "dailyBrief"
+  | "personalBrief"
+  | "groundingRepair"
+  | "digest"
+  | "ragAnswer"
+  | "pulseSignals"
+  | "pulseNarrative"
+  | "earningsInsights"
+  | "filingRemarks";
+
+/** Model per task */
+export const TASK_MODELS: Readonly<Record<LlmTask, string>> = {
+  articleSummary: AI_MODEL,
+  dailyBrief: AI_MODEL_PREMIUM,
+  personalBrief: AI_MODEL_PREMIUM,
+  groundingRepair: AI_MODEL_PREMIUM,
+  digest: AI_MODEL_PREMIUM,
+  ragAnswer: AI_MODEL,
+  pulseSignals: AI_MODEL,
+  pulseNarrative: AI_MODEL,
+  earningsInsights: AI_MODEL,
+  filingRemarks: AI_MODEL,
+};
+
+/** What a usage ledger record is attributed to */
+export type AiUsageFeature = LlmTask | "embeddings";
+
+/** USD per million tokens; models not listed (e.g. the mock) cost nothing */
+export const MODEL_PRICING: Readonly<Record<string, { input: number; output: number }>> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+};
+
+/** Daily AI spend ceiling in USD (America/New_York day) */
+export const DEFAULT_DAILY_AI_BUDGET_USD = 25;
+
+/**
+ * Tasks that keep running past the ceiling: shared content every user
+ * reads, generated on a schedule. Per-user, on-demand tasks degrade to
+ * cached content instead.
+ */
+export const BUDGET_EXEMPT_TASKS: ReadonlySet<AiUsageFeature> = new Set<AiUsageFeature>([
+  "dailyBrief",
+  "groundingRepair",
+  "digest",
+  "pulseNarrative",
+  "embeddings",
+]);
+
+/** Daily ceiling; AI_DAILY_BUDGET_USD overrides the default */
+export function dailyAiBudgetUsd(): number {
+  const override = Number(process.env.AI_DAILY_BUDGET_USD);
+  return Number.isFinite(override) && override > 0 ? override : DEFAULT_DAILY_AI_BUDGET_USD;
+}
+
+export type LlmProviderName = "openai" | "mock";
+
+/**
+ * Provider for completions and embeddings. Set LLM_PROVIDER=mock (e.g. in
+ * functions/.env.local for the emulator) to run every pipeline offline.
+ */
+export function configuredLlmProvider(): LlmProviderName {
+  return process.env.LLM_PROVIDER === "mock" ? "mock" : "openai";
+}
@@ -6,14 +6,25 @@
  * Endpoints:
  * - apiHealth: Health check with version info
  * - adminSetSourceEnabled: Admin toggle for RSS sources
+ * - adminListUnhealthySources: Admin view of failing/quarantined feeds
+ * - adminUnquarantineSource: Admin release of quarantined feeds
  * - ingestRssFeeds: Scheduled RSS ingestion (hourly)
  * - adminBackfillLast7Days: Admin one-time backfill
  * - triggerIngestion: Manual ingestion trigger (API key protected)
+ * - adminGetIngestionRuns: Admin ingestion run history (list, diff, trends)
  * - adminBackfillMissingImages: Admin image backfill
+ * - submitRelevanceFeedback: Editor relevance/category labels (classifier training data)
  * - getOrCreateArticleAI: AI summary generation (rate-limited)
+ * - adminGetAiUsage: Admin AI spend report (by day, feature, model, top users)
  * - generateDailyBrief: Scheduled brief generation (daily)
  * - triggerDailyBrief: Manual brief trigger (API key protected)
  * - getTodayBrief: Get daily brief with articles
+ * - getBriefArchive: Past brief dates with headline previews, or any past brief with prev/next dates
+ * - getMyBrief: Get the signed-in user's personal brief (auth required)
+ * - generatePersonalBriefs: Scheduled personal briefs (daily, 12:30 AM ET)
+ * - generateWeeklyDigest / generateMonthlyDigest: Scheduled roll-up digests
+ * - triggerDigest: Manual digest trigger (API key protected)
+ * - getDigest: Get weekly/monthly digest with articles
  * - getArticles: Paginated article feed with filters
  * - backfillEmbeddingsLast30Days: Admin embedding backfill
  * - runEmbeddingsBackfill: Scheduled embedding backfill
@@ -25,6 +36,8 @@
  * - getPulseTopicDetail: Topic drilldown with driver articles (callable)
  * - toggleWatchlistTopic: Pin/unpin a pulse topic (callable, auth required)
  * - getWatchlistTopics: Enriched watchlist retrieval (callable, auth required)
+ * - exportContent: Brief or bookmarks as Markdown, HTML or PDF (callable, auth required)
+ * - unsubscribeEmail: Brief/digest email unsubscribe link (token, one-click)
  * - deleteAccount: Account + data deletion (App Store 5.1.1(v))
  */
 
@@ -33,41 +46,108 @@ import { onSchedule } from "firebase-functions/v2/scheduler";
 import { initializeApp, getApps } from "firebase-admin/app";
 import { getAuth } from "firebase-admin/auth";
 import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
-import { isAdminEmail } from "./config/admin.js";
-import { ingestAllEnabledSources, fetchOgImage } from "./lib/ingestion/index.js";
+import { isAdminEmail, isEditorEmail } from "./config/admin.js";
+import { dailyAiBudgetUsd } from "./config/llm.js";
+import {
+  ingestAllEnabledSources,
+  fetchOgImage,
+  isFeedUnhealthy,
+  releaseFeedHealth,
+  listIngestionRuns,
+  getIngestionRun,
+  getIngestionRunsSince,
+  diffIngestionRuns,
+  computeSourceTrends,
+  MAX_ARTICLE_REVISIONS,
+  type RunForAnalysis,
+} from "./lib/ingestion/index.js";
 import {
   ensureArticleVector,
   EMBEDDING_MODEL,
   DEFAULT_EMBEDDING_DIMS,
 } from "./lib/embeddings/index.js";
 import {
-  getOpenAIClient,
   openaiApiKey,
-  AI_MODEL,
-  AI_MODEL_PREMIUM,
   ARTICLE_AI_SCHEMA,
   DAILY_BRIEF_SCHEMA,
-  ARTICLE_SUMMARIZE_SYSTEM,
-  DAILY_BRIEF_SYSTEM,
+  DIGEST_SCHEMA,
+  GROUNDING_REPAIR_SCHEMA,
+  activePrompt,
+  promptTag,
   buildArticleSummarizePrompt,
   buildDailyBriefPrompt,
+  buildDigestPrompt,
+  buildGroundingRepairPrompt,
   checkRateLimit,
   selectArticlesForBrief,
   logSelectionMetrics,
+  MIN_PERSONAL_BRIEF_ARTICLES,
+  toBriefProfile,
+  isUnconstrainedProfile,
+  briefProfileKey,
+  groupUsersByProfile,
+  applyBriefProfile,
+  type BriefProfile,
   type ArticleAIResponse,
   type DailyBriefResponse,
+  type DigestResponse,
+  verifyBriefGrounding,
+  partsWithClaimIssues,
+  removeUnknownReferences,
+  applyGroundingRepairs,
+  dropUnsupportedClaims,
+  type BriefSectionKey,
+  type GroundingIssue,
+  type GroundingRepair,
+  type GroundingRepairResponse,
+  type GroundingSource,
 } from "./lib/ai/index.js";
 import {
+  MAX_SCOPE_SOURCES,
   answerQuestion,
+  loadBookmarkedArticleIds,
   performRetrieval,
+  ragScopeError,
+  resolveScopeTopics,
   streamRagAnswer,
   type RagScope,
+  type RagTimeWindow,
   type ChatMessage,
 } from "./lib/rag/index.js";
+import { getLlmProvider } from "./lib/llm/index.js";
+import { buildVectorIndex } from "./lib/vectors/index.js";
+import {
+  countSearchFacets,
+  highlightFragment,
+  highlightText,
+  matchesFacetFilters,
+  parseSearchQuery,
+  searchArticleIndex,
+} from "./lib/search/index.js";
+import { isThreadId, saveThreadExchange, startThreadReply, threadExists, type ThreadReply } from "./lib/chat/index.js";
+import { checkAiBudget, getAiUsageReport, usageDateKey } from "./lib/usage/index.js";
 import {
   sendNotificationToOptedInUsers,
   formatDateForNotification,
 } from "./lib/notifications/index.js";
+import { runBreakingNewsAlerts } from "./lib/breaking/index.js";
+import {
+  isEmailPreference,
+  buildUnsubscribeUrl,
+  renderUnsubscribePage,
+  sendBriefEmails,
+  sendDigestEmails,
+  unsubscribeByToken,
+} from "./lib/email/index.js";
+import { EXPORT_FORMATS, exportBookmarks, exportBrief, isExportFormat } from "./lib/export/index.js";
+import {
+  DIGEST_PERIODS,
+  digestWindowFor,
+  previousDigestWindow,
+  rankDigestArticleIds,
+  toMomentumTopics,
+  type DigestWindow,
+} from "./lib/digests/index.js";
 import {
   computeSignals,
   dateRange,
@@ -77,7 +157,35 @@ import {
   type BriefTopicsInput,
   type BriefInput,
 } from "./lib/signals/index.js";
-import type { Article, Brief, PulseSnapshotDoc, PulseNarrativeDoc } from "./types/firestore.js";
+import {
+  collapseByCluster,
+  getClustersByIds,
+  otherSourceNames,
+} from "./lib/clustering/index.js";
+import { applyRelevanceFeedback } from "./lib/classifier/index.js";
+import { resolveEntityKey, topicEntityKeys } from "./lib/entities/index.js";
+import { MAX_GEO_FILTER_KEYS, isGeoKey, isStateCode } from "./lib/geo/index.js";
+import { getFullText } from "./lib/fulltext/index.js";
+import type {
+  Article,
+  ArticleEntity,
+  ArticleGeo,
+  ArticleRevision,
+  ArticleRevisionSnapshot,
+  EntityType,
+  Brief,
+  BriefVerification,
+  Digest,
+  DigestPeriod,
+  Source,
+  SourceCategory,
+  SourceFeedHealth,
+  UserPreferences,
+  IngestionRunDoc,
+  IngestionTrigger,
+  PulseSnapshotDoc,
+  PulseNarrativeDoc,
+} from "./types/firestore.js";
 import {
   // Alpha Vantage (secondary/enrichment)
   avSearchCompanies,
@@ -211,6 +319,32 @@ async function withRetry<T>(
   throw new Error(`${label}: All ${maxRetries + 1} attempts failed`);
 }
 
+/**
+ * Check an optional list of gazetteer entity keys (RAG scope).
+ * Returns an error message, or null when valid.
+ */
+function entityKeysError(entities: unknown): string | null {
+  if (entities === undefined || entities === null) return null;
+  if (!Array.isArray(entities) || entities.length > 10) {
+    return "entities must be an array of at most 10 entity keys.";
+  }
+  const unknown = entities.find((key) => typeof key !== "string" || !resolveEntityKey(key));
+  return unknown !== undefined ? `Unknown entity key: "${String(unknown)}"` : null;
+}
+
+/**
+ * Validate an optional list of geography keys ("state:FL", "country:GB",
+ * "region:europe"). Returns an error message, or null if valid.
+ */
+function geoKeysError(geo: unknown): string | null {
+  if (geo === undefined || geo === null) return null;
+  if (!Array.isArray(geo) || geo.length > MAX_GEO_FILTER_KEYS) {
+    return `geo must be an array of at most ${MAX_GEO_FILTER_KEYS} geography keys.`;
+  }
+  const unknown = geo.find((key) => !isGeoKey(key));
+  return unknown !== undefined ? `Unknown geography key: "${String(unknown)}"` : null;
+}
+
 /**
  * Health check endpoint with version info and diagnostics.
  * Returns { ok, ts, version, region, uptime }
@@ -307,6 +441,178 @@ export const adminSetSourceEnabled = onCall<AdminSetSourceEnabledData>(
   }
 );
 
+interface AdminUnquarantineSourceData {
+  sourceId: string;
+  feedKey?: string;
+}
+
+/**
+ * Serialize a feed health record for callable responses (ISO dates).
+ */
+function serializeFeedHealth(feedKey: string, health: SourceFeedHealth) {
+  return {
+    feedKey,
+    url: health.url,
+    consecutiveFailures: health.consecutiveFailures,
+    totalRuns: health.totalRuns,
+    avgItemsPerRun: health.avgItemsPerRun,
+    lastSuccessAt: health.lastSuccessAt?.toDate().toISOString() ?? null,
+    lastFailureAt: health.lastFailureAt?.toDate().toISOString() ?? null,
+    lastError: health.lastError,
+    lastErrorClass: health.lastErrorClass,
+    errorCounts: health.errorCounts,
+    nextAttemptAt: health.nextAttemptAt?.toDate().toISOString() ?? null,
+    quarantined: health.quarantined,
+    quarantinedAt: health.quarantinedAt?.toDate().toISOString() ?? null,
+  };
+}
+
+/**
+ * Admin-only callable to list sources with failing or quarantined feeds.
+ *
+ * A feed is unhealthy when it has failed since its last success or has been
+ * quarantined. Sources are sorted with quarantined feeds first, then by
+ * consecutive failures.
+ */
+export const adminListUnhealthySources = onCall(
+  async (request) => {
+    // Check authentication
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "You must be logged in to perform this action."
+      );
+    }
+
+    // Check admin privileges
+    const userEmail = request.auth.token.email;
+    if (!isAdminEmail(userEmail)) {
+      throw new HttpsError(
+        "permission-denied",
+        "You do not have permission to perform this action."
+      );
+    }
+
+    const sourcesSnap = await db.collection("sources").get();
+
+    const sources = sourcesSnap.docs
+      .map((doc) => {
+        const data = doc.data() as Source;
+        const feeds = Object.entries(data.feedHealth ?? {})
+          .filter(([, health]) => isFeedUnhealthy(health))
+          .map(([feedKey, health]) => serializeFeedHealth(feedKey, health));
+
+        return {
+          sourceId: doc.id,
+          name: data.name,
+          enabled: data.enabled,
+          quarantinedFeeds: feeds.filter((f) => f.quarantined).length,
+          maxConsecutiveFailures: Math.max(0, ...feeds.map((f) => f.consecutiveFailures)),
+          feeds,
+        };
+      })
+      .filter((s) => s.feeds.length > 0)
+      .sort(
+        (a, b) =>
+          b.quarantinedFeeds - a.quarantinedFeeds ||
+          b.maxConsecutiveFailures - a.maxConsecutiveFailures
+      );
+
+    console.log(
+      `[adminListUnhealthySources] ${userEmail}: ${sources.length} unhealthy of ${sourcesSnap.size} sources`
+    );
+
+    return {
+      sources,
+      totalSources: sourcesSnap.size,
+    };
+  }
+);
+
+/**
+ * Admin-only callable to release quarantined feeds.
+ *
+ * Clears quarantine, backoff and the failure streak so the feed is fetched
+ * on the next ingestion run. Lifetime counters are preserved.
+ *
+ * @param sourceId - The source document ID
+ * @param feedKey - Optional feed key (from adminListUnhealthySources); all feeds if omitted
+ */
+export const adminUnquarantineSource = onCall<AdminUnquarantineSourceData>(
+  async (request) => {
+    // Check authentication
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "You must be logged in to perform this action."
+      );
+    }
+
+    // Check admin privileges
+    const userEmail = request.auth.token.email;
+    if (!isAdminEmail(userEmail)) {
+      throw new HttpsError(
+        "permission-denied",
+        "You do not have permission to perform this action."
+      );
+    }
+
+    // Validate input
+    const { sourceId, feedKey } = request.data || {};
+
+    if (typeof sourceId !== "string" || sourceId.trim() === "") {
+      throw new HttpsError(
+        "invalid-argument",
+        "sourceId must be a non-empty string."
+      );
+    }
+
+    if (feedKey !== undefined && (typeof feedKey !== "string" || feedKey.trim() === "")) {
+      throw new HttpsError(
+        "invalid-argument",
+        "feedKey must be a non-empty string when provided."
+      );
+    }
+
+    const sourceRef = db.collection("sources").doc(sourceId);
+    const sourceDoc = await sourceRef.get();
+
+    if (!sourceDoc.exists) {
+      throw new HttpsError("not-found", `Source "${sourceId}" not found.`);
+    }
+
+    const feedHealth = (sourceDoc.data() as Source).feedHealth ?? {};
+
+    if (feedKey && !feedHealth[feedKey]) {
+      throw new HttpsError(
+        "not-found",
+        `Feed "${feedKey}" has no health record on source "${sourceId}".`
+      );
+    }
+
+    const keys = feedKey ? [feedKey] : Object.keys(feedHealth);
+    const updates: Record<string, unknown> = {
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    for (const key of keys) {
+      updates[`feedHealth.${key}`] = releaseFeedHealth(feedHealth[key]);
+    }
+
+    await sourceRef.update(updates);
+
+    console.log(
+      `[Admin] ${userEmail} released ${keys.length} feed(s) on source "${sourceId}"`
+    );
+
+    return {
+      success: true,
+      sourceId,
+      releasedFeedKeys: keys,
+      updatedBy: userEmail,
+    };
+  }
+);
+
 // ============================================================================
 // Scheduled RSS Ingestion
 // ============================================================================
@@ -318,6 +624,7 @@ export const adminSetSourceEnabled = onCall<AdminSetSourceEnabledData>(
  * - Uses conditional GET (ETag/Last-Modified) to minimize bandwidth
  * - Parses items, filters for P&C relevance, deduplicates
  * - Stores articles in Firestore
+ * - Pushes newly breaking stories to users opted in to breaking news
  */
 export const ingestRssFeeds = onSchedule(
   {
@@ -330,7 +637,7 @@ export const ingestRssFeeds = onSchedule(
     console.log("[ingestRssFeeds] Starting scheduled ingestion...");
 
     try {
-      const summary = await ingestAllEnabledSources();
+      const summary = await ingestAllEnabledSources({ trigger: "scheduled" });
 
       // Log individual source errors
       const failedSources = summary.results.filter((r) => !r.success);
@@ -363,6 +670,19 @@ export const ingestRssFeeds = onSchedule(
       );
       throw error; // Re-throw so Cloud Functions marks the execution as failed
     }
+
+    // Push breaking stories to opted-in users (don't fail ingestion if this fails)
+    try {
+      const alerts = await runBreakingNewsAlerts();
+      if (alerts.flagged > 0) {
+        console.log(
+          `[ingestRssFeeds] Breaking news: ${alerts.flagged} flagged, ` +
+            `${alerts.alerts.length} pushed, ${alerts.alreadyAlerted} already alerted`
+        );
+      }
+    } catch (error) {
+      console.error("[ingestRssFeeds] Breaking news alerts error:", error);
+    }
   }
 );
 
@@ -401,6 +721,8 @@ export const adminBackfillLast7Days = onCall(
     const summary = await ingestAllEnabledSources({
       maxAgeDays: 7,
       forceRefresh: true,
+      trigger: "backfill",
+      triggeredBy: userEmail ?? null,
     });
 
     console.log(
@@ -414,6 +736,7 @@ export const adminBackfillLast7Days = onCall(
       startedAt: summary.startedAt.toISOString(),
       completedAt: summary.completedAt.toISOString(),
       durationMs: summary.durationMs,
+      runId: summary.runId ?? null,
       sourcesProcessed: summary.sourcesProcessed,
       totalItemsFetched: summary.totalItemsFetched,
       totalItemsIngested: summary.totalItemsIngested,
@@ -460,10 +783,15 @@ export const triggerIngestion = onRequest(
     const maxAgeDays = Math.max(1, Math.min(parseInt(req.query.days as string) || 7, 30));
 
     try {
-      const summary = await ingestAllEnabledSources({ maxAgeDays });
+      const summary = await ingestAllEnabledSources({
+        maxAgeDays,
+        trigger: "manual",
+        triggeredBy: "triggerIngestion",
+      });
 
       res.json({
         success: true,
+        runId: summary.runId ?? null,
         durationMs: summary.durationMs,
         sourcesProcessed: summary.sourcesProcessed,
         totalItemsFetched: summary.totalItemsFetched,
@@ -480,6 +808,172 @@ export const triggerIngestion = onRequest(
   }
 );
 
+interface AdminGetIngestionRunsData {
+  action: "list" | "diff" | "trends";
+  /** list: page size (default 20, max 100) */
+  limit?: number;
+  /** list: ID of the last run on the previous page */
+  startAfterRunId?: string;
+  /** list: only runs with this trigger */
+  trigger?: IngestionTrigger;
+  /** diff: the two runs to compare */
+  baseRunId?: string;
+  compareRunId?: string;
+  /** trends: lookback window in days (default 14, max 90) */
+  days?: number;
+  /** trends: restrict to one source */
+  sourceId?: string;
+}
+
+const INGESTION_TRIGGERS: IngestionTrigger[] = ["scheduled", "manual", "backfill", "script"];
+
+/**
+ * Serialize an ingestion run for callable responses (ISO dates).
+ */
+function serializeIngestionRun(run: IngestionRunDoc, options?: { includeResults?: boolean }) {
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    triggeredBy: run.triggeredBy,
+    startedAt: run.startedAt.toDate().toISOString(),
+    completedAt: run.completedAt.toDate().toISOString(),
+    durationMs: run.durationMs,
+    maxAgeDays: run.maxAgeDays,
+    forceRefresh: run.forceRefresh,
+    sourcesProcessed: run.sourcesProcessed,
+    successCount: run.successCount,
+    failureCount: run.failureCount,
+    totalItemsFetched: run.totalItemsFetched,
+    totalItemsIngested: run.totalItemsIngested,
+    totalItemsSkipped: run.totalItemsSkipped,
+    totalItemsDuplicate: run.totalItemsDuplicate,
+    ...(options?.includeResults ? { results: run.results } : {}),
+  };
+}
+
+function toRunForAnalysis(run: IngestionRunDoc): RunForAnalysis {
+  return {
+    id: run.id,
+    startedAtMs: run.startedAt.toMillis(),
+    results: run.results,
+  };
+}
+
+/**
+ * Admin-only callable to inspect stored ingestion runs.
+ *
+ * Actions:
+ * - "list": page through runs, newest first (cursor = startAfterRunId)
+ * - "diff": compare two runs source by source
+ * - "trends": per-source daily items ingested, skip ratio and duplicate ratio
+ */
+export const adminGetIngestionRuns = onCall<AdminGetIngestionRunsData>(
+  {
+    memory: "512MiB",
+  },
+  async (request) => {
+    // Check authentication
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "You must be logged in to perform this action."
+      );
+    }
+
+    // Check admin privileges
+    const userEmail = request.auth.token.email;
+    if (!isAdminEmail(userEmail)) {
+      throw new HttpsError(
+        "permission-denied",
+        "You do not have permission to perform this action."
+      );
+    }
+
+    const data = request.data || ({} as AdminGetIngestionRunsData);
+
+    if (data.action === "list") {
+      const limit = Math.max(1, Math.min(Number(data.limit) || 20, 100));
+
+      if (data.trigger !== undefined && !INGESTION_TRIGGERS.includes(data.trigger)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `trigger must be one of: ${INGESTION_TRIGGERS.join(", ")}.`
+        );
+      }
+
+      const { runs, hasMore } = await listIngestionRuns({
+        limit,
+        startAfterRunId: data.startAfterRunId || undefined,
+        trigger: data.trigger,
+      });
+
+      return {
+        runs: runs.map((run) => serializeIngestionRun(run)),
+        hasMore,
+        nextCursor: hasMore && runs.length > 0 ? runs[runs.length - 1].id : null,
+      };
+    }
+
+    if (data.action === "diff") {
+      const { baseRunId, compareRunId } = data;
+      if (
+        typeof baseRunId !== "string" || baseRunId.trim() === "" ||
+        typeof compareRunId !== "string" || compareRunId.trim() === ""
+      ) {
+        throw new HttpsError(
+          "invalid-argument",
+          "baseRunId and compareRunId must be non-empty strings."
+        );
+      }
+
+      const [base, compare] = await Promise.all([
+        getIngestionRun(baseRunId),
+        getIngestionRun(compareRunId),
+      ]);
+
+      if (!base) {
+        throw new HttpsError("not-found", `Run "${baseRunId}" not found.`);
+      }
+      if (!compare) {
+        throw new HttpsError("not-found", `Run "${compareRunId}" not found.`);
+      }
+
+      return {
+        base: serializeIngestionRun(base),
+        compare: serializeIngestionRun(compare),
+        diff: diffIngestionRuns(toRunForAnalysis(base), toRunForAnalysis(compare)),
+      };
+    }
+
+    if (data.action === "trends") {
+      const days = Math.max(1, Math.min(Number(data.days) || 14, 90));
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const runs = await getIngestionRunsSince(since);
+      let trends = computeSourceTrends(runs.map(toRunForAnalysis));
+      if (data.sourceId) {
+        trends = trends.filter((t) => t.sourceId === data.sourceId);
+      }
+
+      console.log(
+        `[adminGetIngestionRuns] ${userEmail}: trends over ${runs.length} runs (${days}d)`
+      );
+
+      return {
+        days,
+        since: since.toISOString(),
+        runsAnalyzed: runs.length,
+        sources: trends,
+      };
+    }
+
+    throw new HttpsError(
+      "invalid-argument",
+      "action must be one of: list, diff, trends."
+    );
+  }
+);
+
 /**
  * Admin-only callable function to backfill missing images for existing articles.
  *
@@ -567,41 +1061,49 @@ export const adminBackfillMissingImages = onCall(
 );
 
 // ============================================================================
-// AI Functions
+// Relevance Feedback
 // ============================================================================
 
-interface GetOrCreateArticleAIData {
+interface SubmitRelevanceFeedbackData {
   articleId: string;
+  isRelevant?: boolean;
+  categories?: SourceCategory[];
 }
 
 /**
- * Generate or retrieve cached AI summary for an article.
+ * Editor-only callable to mark an article relevant/irrelevant and/or
+ * recategorize it.
  *
- * Requires authentication. Rate limited per user.
- * Uses OpenAI gpt-4o-mini with structured output.
+ * The article is updated immediately (relevanceModel becomes "editor") and
+ * the judgement is stored in relevanceLabels/{articleId} as training data
+ * for the relevance classifier (see scripts/train-relevance-model.ts).
  *
  * @param articleId - The article document ID
- * @returns AI-generated content (tldr, whyItMatters, topics, category)
+ * @param isRelevant - Optional relevance judgement
+ * @param categories - Optional replacement categories (1-3)
  */
-export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
-  {
-    secrets: [openaiApiKey],
-    memory: "256MiB",
-    timeoutSeconds: 60,
-  },
+export const submitRelevanceFeedback = onCall<SubmitRelevanceFeedbackData>(
   async (request) => {
-    // Require authentication
+    // Check authentication
     if (!request.auth) {
       throw new HttpsError(
         "unauthenticated",
-        "You must be logged in to use this feature."
+        "You must be logged in to perform this action."
       );
     }
 
-    const uid = request.auth.uid;
-    const { articleId } = request.data;
+    // Check editor privileges
+    const userEmail = request.auth.token.email;
+    if (!isEditorEmail(userEmail)) {
+      throw new HttpsError(
+        "permission-denied",
+        "You do not have permission to perform this action."
+      );
+    }
 
     // Validate input
+    const { articleId, isRelevant, categories } = request.data || {};
+
     if (typeof articleId !== "string" || articleId.trim() === "") {
       throw new HttpsError(
         "invalid-argument",
@@ -609,27 +1111,122 @@ export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
       );
     }
 
-    // Check rate limit
-    const rateLimit = await checkRateLimit(uid, "articleAI");
-    if (!rateLimit.isAllowed) {
+    if (isRelevant !== undefined && typeof isRelevant !== "boolean") {
       throw new HttpsError(
-        "resource-exhausted",
-        `Daily limit reached. Try again tomorrow. (${rateLimit.limit} requests/day)`
+        "invalid-argument",
+        "isRelevant must be a boolean when provided."
       );
     }
 
-    // Fetch article
-    const articleDoc = await db.collection("articles").doc(articleId).get();
-    if (!articleDoc.exists) {
-      throw new HttpsError("not-found", `Article "${articleId}" not found.`);
+    if (categories !== undefined) {
+      const validCategories = VALID_CATEGORIES.filter((c) => c !== "all") as readonly string[];
+      if (
+        !Array.isArray(categories) ||
+        categories.length === 0 ||
+        categories.length > 3 ||
+        !categories.every((c) => validCategories.includes(c))
+      ) {
+        throw new HttpsError(
+          "invalid-argument",
+          `categories must be 1-3 of: ${validCategories.join(", ")}.`
+        );
+      }
     }
 
-    const article = articleDoc.data() as Article;
-
-    // Return cached AI if exists
-    if (article.ai) {
-      console.log(`[getOrCreateArticleAI] Returning cached AI for ${articleId}`);
-      return {
+    if (isRelevant === undefined && categories === undefined) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Provide isRelevant and/or categories."
+      );
+    }
+
+    const result = await applyRelevanceFeedback({
+      articleId,
+      isRelevant,
+      categories: categories ? [...new Set(categories)] : undefined,
+      labeledBy: userEmail,
+    });
+    if (!result) {
+      throw new HttpsError("not-found", `Article "${articleId}" not found.`);
+    }
+
+    console.log(
+      `[submitRelevanceFeedback] ${userEmail} labeled ${articleId}: ` +
+        `relevant=${result.isRelevant}, categories=${result.categories.join(",")}`
+    );
+
+    return {
+      success: true,
+      articleId,
+      ...result,
+    };
+  }
+);
+
+// ============================================================================
+// AI Functions
+// ============================================================================
+
+interface GetOrCreateArticleAIData {
+  articleId: string;
+}
+
+/**
+ * Generate or retrieve cached AI summary for an article.
+ *
+ * Requires authentication. Rate limited per user.
+ * Uses OpenAI gpt-4o-mini with structured output.
+ *
+ * @param articleId - The article document ID
+ * @returns AI-generated content (tldr, whyItMatters, topics, category)
+ */
+export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
+  {
+    secrets: [openaiApiKey],
+    memory: "256MiB",
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    // Require authentication
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "You must be logged in to use this feature."
+      );
+    }
+
+    const uid = request.auth.uid;
+    const { articleId } = request.data;
+
+    // Validate input
+    if (typeof articleId !== "string" || articleId.trim() === "") {
+      throw new HttpsError(
+        "invalid-argument",
+        "articleId must be a non-empty string."
+      );
+    }
+
+    // Check rate limit
+    const rateLimit = await checkRateLimit(uid, "articleAI");
+    if (!rateLimit.isAllowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Daily limit reached. Try again tomorrow. (${rateLimit.limit} requests/day)`
+      );
+    }
+
+    // Fetch article
+    const articleDoc = await db.collection("articles").doc(articleId).get();
+    if (!articleDoc.exists) {
+      throw new HttpsError("not-found", `Article "${articleId}" not found.`);
+    }
+
+    const article = articleDoc.data() as Article;
+
+    // Return cached AI if exists (stale AI predates a publisher revision)
+    if (article.ai && !article.aiStale) {
+      console.log(`[getOrCreateArticleAI] Returning cached AI for ${articleId}`);
+      return {
         cached: true,
         ai: {
           tldr: article.ai.tldr,
@@ -643,10 +1240,20 @@ export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
       };
     }
 
+    // Past the daily AI ceiling only cached summaries are served
+    const budget = await checkAiBudget("articleSummary");
+    if (!budget.isAllowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        "AI summaries are paused for today. Please try again tomorrow."
+      );
+    }
+
     // Generate AI summary
     console.log(`[getOrCreateArticleAI] Generating AI for ${articleId}`);
 
-    const openai = getOpenAIClient();
+    // Private body text (allowFullText sources) gives a richer summary than the snippet
+    const fullText = article.hasFullText ? await getFullText(articleId) : null;
 
     const prompt = buildArticleSummarizePrompt({
       title: article.title,
@@ -654,37 +1261,32 @@ export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
       sourceName: article.sourceName,
       publishedAt: article.publishedAt?.toDate?.()?.toISOString()?.split("T")[0] ?? "unknown",
       url: article.url,
+      fullText,
     });
 
+    const systemPrompt = activePrompt("articleSummary");
     let response;
     try {
       response = await withRetry(
         () =>
-          openai.responses.create({
-            model: AI_MODEL,
-            max_output_tokens: 800,
-            input: [
-              { role: "system", content: ARTICLE_SUMMARIZE_SYSTEM },
-              { role: "user", content: prompt },
-            ],
-            text: {
-              format: {
-                type: "json_schema",
-                name: "article_ai",
-                schema: ARTICLE_AI_SCHEMA,
-                strict: true,
-              },
-            },
+          getLlmProvider().completeJson({
+            task: "articleSummary",
+            uid,
+            system: systemPrompt.system,
+            user: prompt,
+            schemaName: "article_ai",
+            schema: ARTICLE_AI_SCHEMA,
+            maxOutputTokens: 800,
           }),
-        { maxRetries: 2, baseDelayMs: 1000, label: "getOrCreateArticleAI/OpenAI" }
+        { maxRetries: 2, baseDelayMs: 1000, label: "getOrCreateArticleAI/AI" }
       );
     } catch (openaiError) {
-      console.error("[getOrCreateArticleAI] OpenAI API error:", openaiError instanceof Error ? openaiError.message : "Unknown error");
+      console.error("[getOrCreateArticleAI] AI provider error:", openaiError instanceof Error ? openaiError.message : "Unknown error");
       throw new HttpsError("internal", "AI service is temporarily unavailable. Please try again.");
     }
 
     // Parse structured output
-    const outputText = response.output_text;
+    const outputText = response.outputText;
     let aiResult: ArticleAIResponse;
     try {
       aiResult = JSON.parse(outputText) as ArticleAIResponse;
@@ -708,8 +1310,10 @@ export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
         topics: aiResult.topics,
         category: aiResult.category,
         generatedAt: now,
-        model: AI_MODEL,
+        model: response.model,
+        promptVersion: promptTag(systemPrompt),
       },
+      aiStale: FieldValue.delete(),
     });
 
     console.log(`[getOrCreateArticleAI] Saved AI for ${articleId}`);
@@ -722,13 +1326,74 @@ export const getOrCreateArticleAI = onCall<GetOrCreateArticleAIData>(
         topics: aiResult.topics,
         category: aiResult.category,
         generatedAt: now.toDate().toISOString(),
-        model: AI_MODEL,
+        model: response.model,
+        promptVersion: promptTag(systemPrompt),
       },
       remaining: rateLimit.remaining,
     };
   }
 );
 
+// ============================================================================
+// AI Usage Ledger
+// ============================================================================
+
+interface AdminGetAiUsageData {
+  /** Lookback window in days, ending today (default 7, max 90) */
+  days?: number;
+  /** Users to list by spend (default 10, max 50) */
+  topUsers?: number;
+}
+
+/**
+ * Admin report of estimated AI spend by day, feature, model and top users,
+ * from the aiUsageDaily aggregates, plus today's spend against the budget.
+ */
+export const adminGetAiUsage = onCall<AdminGetAiUsageData>(
+  {
+    memory: "256MiB",
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError(
+        "unauthenticated",
+        "You must be logged in to perform this action."
+      );
+    }
+
+    const userEmail = request.auth.token.email;
+    if (!isAdminEmail(userEmail)) {
+      throw new HttpsError(
+        "permission-denied",
+        "You do not have permission to perform this action."
+      );
+    }
+
+    const days = Math.max(1, Math.min(Number(request.data?.days) || 7, 90));
+    const topUsers = Math.max(1, Math.min(Number(request.data?.topUsers) || 10, 50));
+    const today = usageDateKey();
+
+    const report = await getAiUsageReport(dateRange(today, days), topUsers);
+    const spentUsd = report.byDay[report.byDay.length - 1]?.costUsd ?? 0;
+    const budgetUsd = dailyAiBudgetUsd();
+
+    console.log(
+      `[adminGetAiUsage] ${days}d: $${report.totals.costUsd.toFixed(2)} over ${report.totals.calls} calls; ` +
+        `today $${spentUsd.toFixed(2)} of $${budgetUsd}`
+    );
+
+    return {
+      ...report,
+      budget: {
+        date: today,
+        spentUsd,
+        budgetUsd,
+        exceeded: spentUsd >= budgetUsd,
+      },
+    };
+  }
+);
+
 // ============================================================================
 // Daily Brief Functions
 // ============================================================================
@@ -747,6 +1412,152 @@ function getTodayDateET(): string {
   return formatter.format(now); // returns yyyy-mm-dd
 }
 
+// ============================================================================
+// Brief Grounding Verification
+// ============================================================================
+
+function describeGroundingIssue(issue: GroundingIssue): string {
+  return issue.type === "unsupported_number"
+    ? `"${issue.value}" does not appear in the cited articles`
+    : `${issue.value} is not named in the cited articles`;
+}
+
+function groundingIssueKey(issue: GroundingIssue): string {
+  return `${issue.type}|${issue.part}|${issue.index}|${issue.value}`;
+}
+
+/**
+ * Ask the model to rewrite the parts with unsupported claims, using only
+ * the selected articles.
+ */
+async function requestGroundingRepairs(
+  briefData: DailyBriefResponse,
+  issues: GroundingIssue[],
+  sources: GroundingSource[]
+): Promise<GroundingRepair[]> {
+  const parts = new Map<string, { part: string; index: number; current: string; problems: string[] }>();
+  for (const issue of issues) {
+    if (issue.type === "unknown_article") continue;
+    const id = issue.part === "topStories" ? `topStories:${issue.index}` : issue.part;
+    let entry = parts.get(id);
+    if (!entry) {
+      let current: string;
+      if (issue.part === "executiveSummary") {
+        current = briefData.executiveSummary.map((b) => `- ${b}`).join("\n");
+      } else if (issue.part === "topStories") {
+        const story = briefData.topStories[issue.index];
+        current = `[${story.articleId}] ${story.headline}\n${story.whyItMatters}`;
+      } else {
+        current = briefData.sections[issue.part as BriefSectionKey].bullets.map((b) => `- ${b}`).join("\n");
+      }
+      entry = {
+        part: issue.part,
+        index: issue.part === "topStories" ? issue.index : -1,
+        current,
+        problems: [],
+      };
+      parts.set(id, entry);
+    }
+    entry.problems.push(describeGroundingIssue(issue));
+  }
+
+  const response = await withRetry(
+    () =>
+      getLlmProvider().completeJson({
+        task: "groundingRepair",
+        system: activePrompt("groundingRepair").system,
+        user: buildGroundingRepairPrompt([...parts.values()], sources),
+        schemaName: "grounding_repair",
+        schema: GROUNDING_REPAIR_SCHEMA,
+        maxOutputTokens: 2500,
+      }),
+    { maxRetries: 1, baseDelayMs: 2000, label: "verifyBrief/AI" }
+  );
+
+  return (JSON.parse(response.outputText) as GroundingRepairResponse).repairs;
+}
+
+/**
+ * Grounding stage of the brief pipeline. Verifies the model's output
+ * against the selected articles, strips references to articles that
+ * weren't selected, rewrites parts with unsupported numbers or entities in
+ * one repair pass, and drops bullets or top stories that still fail.
+ *
+ * @returns The brief content to save and its verification report
+ */
+async function verifyAndRepairBrief(
+  briefData: DailyBriefResponse,
+  sources: GroundingSource[]
+): Promise<{ briefData: DailyBriefResponse; verification: BriefVerification }> {
+  const sourceIds = new Set(sources.map((s) => s.id));
+  const initialIssues = verifyBriefGrounding(briefData, sources);
+  const verification: BriefVerification = {
+    checkedAt: Timestamp.now(),
+    passed: initialIssues.length === 0,
+    articlesChecked: sources.length,
+    issues: [],
+    regeneratedParts: [],
+    unresolved: 0,
+  };
+  if (initialIssues.length === 0) {
+    return { briefData, verification };
+  }
+
+  // 1. Unknown article IDs: strip them (top stories citing one are dropped)
+  let repaired = removeUnknownReferences(briefData, sourceIds);
+  for (const issue of initialIssues) {
+    if (issue.type !== "unknown_article") continue;
+    verification.issues.push({
+      ...issue,
+      resolution: issue.part === "topStories" ? "dropped" : "removed_reference",
+    });
+  }
+
+  // 2. Unsupported claims: one repair pass over the failing parts
+  const claimIssues = verifyBriefGrounding(repaired, sources);
+  if (partsWithClaimIssues(claimIssues).length > 0) {
+    try {
+      const repairs = await requestGroundingRepairs(repaired, claimIssues, sources);
+      const applied = applyGroundingRepairs(repaired, repairs, sourceIds);
+      repaired = applied.brief;
+      verification.regeneratedParts = applied.regeneratedParts;
+      verification.repairPromptVersion = promptTag(activePrompt("groundingRepair"));
+    } catch (error) {
+      console.error(
+        "[verifyBrief] Repair pass failed, dropping unsupported claims:",
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  // 3. Whatever still fails is dropped (or kept if that would empty the part)
+  const remainingIssues = verifyBriefGrounding(repaired, sources);
+  const remainingKeys = new Set(remainingIssues.map(groundingIssueKey));
+  for (const issue of claimIssues) {
+    if (!remainingKeys.has(groundingIssueKey(issue))) {
+      verification.issues.push({ ...issue, resolution: "regenerated" });
+    }
+  }
+
+  const { brief: final, kept } = dropUnsupportedClaims(repaired, remainingIssues);
+  const keptKeys = new Set(kept.map(groundingIssueKey));
+  for (const issue of remainingIssues) {
+    verification.issues.push({
+      ...issue,
+      resolution: keptKeys.has(groundingIssueKey(issue)) ? "kept" : "dropped",
+    });
+  }
+  verification.unresolved = kept.length;
+
+  console.log(
+    `[verifyBrief] ${initialIssues.length} issues in generated brief; ` +
+      `regenerated [${verification.regeneratedParts.join(", ")}], ` +
+      `${remainingIssues.length - kept.length} dropped, ${kept.length} unresolved`
+  );
+
+  return { briefData: final, verification };
+}
+
 // ============================================================================
 // Shared Brief Generation Logic (DRY)
 // ============================================================================
@@ -758,14 +1569,14 @@ interface BriefGenerationResult {
 }
 
 /**
- * Core brief generation logic shared between scheduled and manual triggers.
- * Extracts common code to avoid duplication.
- *
- * @param dateKey - Date key in yyyy-mm-dd format
- * @returns Brief document and generation metrics
- * @throws Error if no articles or AI generation fails
+ * Relevant articles from the last 36 hours a brief is built from. With a
+ * `profile`, a wider pool limited to the profile's sources and categories,
+ * with pinned-topic matches boosted.
  */
-async function generateBriefForDate(dateKey: string): Promise<BriefGenerationResult> {
+async function loadBriefCandidates(
+  dateKey: string,
+  profile?: BriefProfile
+): Promise<Array<Article & { id: string }>> {
   // Fetch articles from last 36 hours (get more candidates for filtering)
   const cutoffTime = new Date(Date.now() - 36 * 60 * 60 * 1000);
   const articlesSnap = await db
@@ -773,22 +1584,55 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
     .where("isRelevant", "==", true)
     .where("publishedAt", ">=", Timestamp.fromDate(cutoffTime))
     .orderBy("publishedAt", "desc")
-    .limit(100)
+    .limit(profile ? 300 : 100)
     .get();
 
-  if (articlesSnap.empty) {
-    throw new Error(`No relevant articles found for ${dateKey}`);
-  }
-
   console.log(`[generateBrief] Found ${articlesSnap.size} candidate articles for ${dateKey}`);
 
-  // Apply relevance gate: prioritize by score, ensure diversity
   const rawArticles = articlesSnap.docs.map((doc) => {
     const data = doc.data() as Article;
     return { ...data, id: doc.id };
   });
+  return profile ? applyBriefProfile(rawArticles, profile) : rawArticles;
+}
+
+/**
+ * Core brief generation logic shared between scheduled and manual triggers.
+ * Extracts common code to avoid duplication.
+ *
+ * With a `profile`, builds a personal brief: candidates are limited to the
+ * profile's sources and categories (from a wider pool) and pinned-topic
+ * matches are boosted before the relevance gate.
+ *
+ * @param dateKey - Date key in yyyy-mm-dd format
+ * @param profile - Optional personal brief profile
+ * @param uid - User an on-demand personal brief is built for (usage ledger)
+ * @param candidates - Articles already loaded with loadBriefCandidates
+ * @returns Brief document and generation metrics
+ * @throws Error if no articles or AI generation fails
+ */
+async function generateBriefForDate(
+  dateKey: string,
+  profile?: BriefProfile,
+  uid?: string,
+  candidates?: Array<Article & { id: string }>
+): Promise<BriefGenerationResult> {
+  const rawArticles = candidates ?? (await loadBriefCandidates(dateKey, profile));
+
+  if (rawArticles.length === 0) {
+    throw new Error(`No relevant articles found for ${dateKey}`);
+  }
+
+  if (profile && rawArticles.length < MIN_PERSONAL_BRIEF_ARTICLES) {
+    throw new Error(
+      `Only ${rawArticles.length} articles match profile ${briefProfileKey(profile)} for ${dateKey}`
+    );
+  }
 
-  const { articles: selectedArticles, metrics } = selectArticlesForBrief(rawArticles);
+  // Apply relevance gate: prioritize by score, ensure diversity
+  const { articles: selectedArticles, metrics } = selectArticlesForBrief(rawArticles, {
+    collapseClusters: true,
+  });
   logSelectionMetrics("generateBrief", metrics);
 
   if (selectedArticles.length === 0) {
@@ -802,6 +1646,7 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
     sourceName: a.sourceName,
     sourceId: a.sourceId,
     snippet: a.snippet,
+    alsoCoveredBy: a.alsoCoveredBy,
   }));
 
   // Build sources used map
@@ -812,35 +1657,28 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
     }
   });
 
-  // Generate brief using OpenAI (with retry for transient failures)
-  const openai = getOpenAIClient();
+  // Generate brief with the LLM provider (with retry for transient failures)
   const prompt = buildDailyBriefPrompt(dateKey, articles);
+  const systemPrompt = activePrompt("dailyBrief");
 
-  console.log("[generateBrief] Calling OpenAI with premium model...");
+  console.log(`[generateBrief] Calling ${getLlmProvider().name} with the dailyBrief model...`);
 
   const response = await withRetry(
     () =>
-      openai.responses.create({
-        model: AI_MODEL_PREMIUM,
-        max_output_tokens: 4000,
-        input: [
-          { role: "system", content: DAILY_BRIEF_SYSTEM },
-          { role: "user", content: prompt },
-        ],
-        text: {
-          format: {
-            type: "json_schema",
-            name: "daily_brief",
-            schema: DAILY_BRIEF_SCHEMA,
-            strict: true,
-          },
-        },
+      getLlmProvider().completeJson({
+        task: profile ? "personalBrief" : "dailyBrief",
+        uid,
+        system: systemPrompt.system,
+        user: prompt,
+        schemaName: "daily_brief",
+        schema: DAILY_BRIEF_SCHEMA,
+        maxOutputTokens: 4000,
       }),
-    { maxRetries: 2, baseDelayMs: 2000, label: "generateBrief/OpenAI" }
+    { maxRetries: 2, baseDelayMs: 2000, label: "generateBrief/AI" }
   );
 
   // Parse structured output
-  const outputText = response.output_text;
+  const outputText = response.outputText;
   let briefData: DailyBriefResponse;
   try {
     briefData = JSON.parse(outputText) as DailyBriefResponse;
@@ -854,6 +1692,19 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
     throw new Error("Failed to parse AI response for daily brief");
   }
 
+  // Verify the output is grounded in the selected articles
+  const tldrById = new Map(rawArticles.map((a) => [a.id, a.ai?.tldr ?? null]));
+  const verified = await verifyAndRepairBrief(
+    briefData,
+    selectedArticles.map((a) => ({
+      id: a.id,
+      title: a.title,
+      snippet: a.snippet,
+      tldr: tldrById.get(a.id) ?? null,
+    }))
+  );
+  briefData = verified.briefData;
+
   // Build the brief document
   const brief: Brief = {
     date: dateKey,
@@ -867,12 +1718,100 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
       name,
     })),
     sourceArticleIds: articles.map((a) => a.id),
-    model: AI_MODEL_PREMIUM,
+    model: response.model,
+    promptVersion: promptTag(systemPrompt),
+    verification: verified.verification,
   };
+  if (profile) {
+    brief.profileKey = briefProfileKey(profile);
+  }
 
   return { brief, metrics, articlesUsed: articles.length };
 }
 
+// ============================================================================
+// Personal Briefs ("My Brief")
+// ============================================================================
+
+/**
+ * Load a user's personal brief settings: prefs (read unless passed in)
+ * plus pinned watchlist topics.
+ */
+async function loadUserBriefProfile(
+  uid: string,
+  prefs?: UserPreferences | null
+): Promise<{ optedIn: boolean; profile: BriefProfile }> {
+  let userPrefs = prefs ?? null;
+  if (prefs === undefined) {
+    const prefsDoc = await db.doc(`users/${uid}/prefs/main`).get();
+    userPrefs = prefsDoc.exists ? (prefsDoc.data() as UserPreferences) : null;
+  }
+  const watchlistSnap = await db.collection("users").doc(uid).collection("watchlist").get();
+
+  const topicKeys = [
+    ...(userPrefs?.watchlistTopics ?? []),
+    ...watchlistSnap.docs.map((doc) => doc.id),
+  ];
+  return {
+    optedIn: userPrefs?.personalBrief === true,
+    profile: toBriefProfile(userPrefs, topicKeys),
+  };
+}
+
+/**
+ * Outcome of building a profile's brief. Without a brief, `fallback` says
+ * why: too few matching articles (final for the day), the daily AI budget
+ * is spent, or generation failed (both worth retrying later).
+ */
+type BriefVariantResult =
+  | { brief: Brief }
+  | { fallback: "too_few" | "budget" | "error" };
+
+/**
+ * Brief for a profile on a date. Unconstrained profiles get the shared
+ * brief; others are generated once per profile per day and cached in
+ * briefVariants/{date}_{profileKey} for every user with the same settings.
+ */
+async function getOrCreateBriefVariant(
+  dateKey: string,
+  profile: BriefProfile,
+  uid?: string
+): Promise<BriefVariantResult> {
+  if (isUnconstrainedProfile(profile)) {
+    const sharedDoc = await db.collection("briefs").doc(dateKey).get();
+    return sharedDoc.exists ? { brief: sharedDoc.data() as Brief } : { fallback: "error" };
+  }
+
+  const variantRef = db.collection("briefVariants").doc(`${dateKey}_${briefProfileKey(profile)}`);
+  const existing = await variantRef.get();
+  if (existing.exists) {
+    return { brief: existing.data() as Brief };
+  }
+
+  // Past the daily AI ceiling, users without a variant get the shared brief
+  const budget = await checkAiBudget("personalBrief");
+  if (!budget.isAllowed) {
+    return { fallback: "budget" };
+  }
+
+  try {
+    const candidates = await loadBriefCandidates(dateKey, profile);
+    if (candidates.length < MIN_PERSONAL_BRIEF_ARTICLES) {
+      console.log(`[personalBrief] Only ${candidates.length} articles match ${variantRef.id}`);
+      return { fallback: "too_few" };
+    }
+    const { brief } = await generateBriefForDate(dateKey, profile, uid, candidates);
+    await variantRef.set(brief);
+    return { brief };
+  } catch (error) {
+    console.warn(
+      `[personalBrief] Could not build variant ${variantRef.id}:`,
+      error instanceof Error ? error.message : error
+    );
+    return { fallback: "error" };
+  }
+}
+
 /**
  * Scheduled function to generate daily brief at midnight ET
  *
@@ -880,7 +1819,7 @@ async function generateBriefForDate(dateKey: string): Promise<BriefGenerationRes
  * - Uses OpenAI to synthesize a brief
  * - Stores in briefs/{yyyy-mm-dd}
  * - Safe regeneration: skips if brief already exists
- * - Sends push notifications on success
+ * - Sends push notifications and opted-in emails on success
  */
 export const generateDailyBrief = onSchedule(
   {
@@ -928,11 +1867,24 @@ export const generateDailyBrief = onSchedule(
         notificationInfo = " Notifications: failed to send.";
       }
 
+      // Email the brief to users who opted in
+      let emailInfo = "";
+      try {
+        const emailResult = await sendBriefEmails(brief);
+        emailInfo = emailResult.configured
+          ? ` Emails: ${emailResult.sent} sent, ${emailResult.failed} failed.`
+          : " Emails: not configured.";
+      } catch (error) {
+        // Don't fail the function if emails fail
+        console.error("[generateDailyBrief] Email send error:", error);
+        emailInfo = " Emails: failed to send.";
+      }
+
       console.log(
         `[generateDailyBrief] ✓ SUCCESS for ${dateKey}: ` +
           `${brief.executiveSummary.length} summary items, ` +
           `${brief.topStories.length} top stories, ` +
-          `${brief.topics.length} topics.${notificationInfo}`
+          `${brief.topics.length} topics.${notificationInfo}${emailInfo}`
       );
     } catch (error) {
       console.error(
@@ -1024,99 +1976,845 @@ export const triggerDailyBrief = onRequest(
 
 interface GetTodayBriefData {
   date?: string;
+  states?: string[]; // User's "my states" (USPS codes) for territory stories
 }
 
+/** Max "In your states" stories returned alongside the brief */
+const MAX_TERRITORY_STORIES = 5;
+
 /**
- * Callable function to get today's brief with article cards.
- * Uses batch fetch (getAll) for top story articles for efficiency.
- *
- * @param date - Optional date in yyyy-mm-dd format (defaults to today ET)
- * @returns Brief with topStories populated with full article data
+ * Attach article cards to brief or digest top stories
+ * (article is null when it has since been deleted).
  */
-export const getTodayBrief = onCall<GetTodayBriefData>(
-  {
-    memory: "256MiB",
-    timeoutSeconds: 30,
-  },
-  async (request) => {
-    const { date } = request.data || {};
+async function withTopStoryArticles(topStories: Brief["topStories"]) {
+  // Batch fetch all top story articles using getAll (single round-trip)
+  const articleRefs = topStories.map((s) =>
+    db.collection("articles").doc(s.articleId)
+  );
+
+  // Use getAll for efficient batch fetch (single Firestore call)
+  const articleDocs =
+    articleRefs.length > 0 ? await db.getAll(...articleRefs) : [];
+
+  // Build ID → doc map for fast lookup
+  const articleMap = new Map(
+    articleDocs
+      .filter((doc) => doc.exists)
+      .map((doc) => [doc.id, doc.data() as Article])
+  );
+
+  return topStories.map((story) => {
+    const article = articleMap.get(story.articleId);
+    if (!article) {
+      return { ...story, article: null };
+    }
+
+    return {
+      ...story,
+      article: {
+        id: story.articleId,
+        title: article.title,
+        url: article.url,
+        sourceName: article.sourceName,
+        sourceId: article.sourceId,
+        publishedAt:
+          article.publishedAt?.toDate?.()?.toISOString() ?? null,
+        snippet: article.snippet,
+        imageUrl: article.imageUrl || null,
+      },
+    };
+  });
+}
+
+/**
+ * Shape a stored brief for the client: top stories with their article
+ * cards and, when `states` is given, "In your states" stories from the
+ * brief's 36-hour window (excluding top stories).
+ */
+async function buildBriefResponse(dateKey: string, brief: Brief, states?: string[]) {
+  const topStoryIds = brief.topStories.map((s) => s.articleId);
+  const topStoriesWithArticles = await withTopStoryArticles(brief.topStories);
+
+  // "In your states": same 36h window the brief was generated from
+  let territoryStories: Array<(typeof topStoriesWithArticles)[number]> = [];
+  if (states && states.length > 0) {
+    const briefTime = brief.createdAt?.toDate?.() ?? new Date();
+    const windowStart = new Date(briefTime.getTime() - 36 * 60 * 60 * 1000);
+    const windowEnd = new Date(briefTime.getTime() + 24 * 60 * 60 * 1000);
+    const topStoryIdSet = new Set(topStoryIds);
+
+    const territorySnap = await db
+      .collection("articles")
+      .where("isRelevant", "==", true)
+      .where("geoKeys", "array-contains-any", states.map((code) => `state:${code}`))
+      .where("publishedAt", ">=", Timestamp.fromDate(windowStart))
+      .where("publishedAt", "<", Timestamp.fromDate(windowEnd))
+      .orderBy("publishedAt", "desc")
+      .limit(MAX_TERRITORY_STORIES + topStoryIds.length)
+      .get();
+
+    territoryStories = territorySnap.docs
+      .filter((doc) => !topStoryIdSet.has(doc.id))
+      .slice(0, MAX_TERRITORY_STORIES)
+      .map((doc) => {
+        const article = doc.data() as Article;
+        return {
+          articleId: doc.id,
+          headline: article.title,
+          whyItMatters: article.ai?.whyItMatters ?? article.snippet,
+          article: {
+            id: doc.id,
+            title: article.title,
+            url: article.url,
+            sourceName: article.sourceName,
+            sourceId: article.sourceId,
+            publishedAt:
+              article.publishedAt?.toDate?.()?.toISOString() ?? null,
+            snippet: article.snippet,
+            imageUrl: article.imageUrl || null,
+          },
+        };
+      });
+
+    console.log(`[briefResponse] ${territoryStories.length} territory stories for ${states.join(",")}`);
+  }
+
+  return {
+    found: true,
+    date: dateKey,
+    brief: {
+      ...brief,
+      createdAt:
+        brief.createdAt?.toDate?.()?.toISOString() ??
+        new Date().toISOString(),
+    },
+    topStoriesWithArticles,
+    territoryStories,
+  };
+}
+
+/**
+ * Callable function to get today's brief with article cards.
+ * Uses batch fetch (getAll) for top story articles for efficiency.
+ *
+ * The brief itself is shared by all users. When `states` is provided, the
+ * response also carries `territoryStories`: relevant articles from the
+ * brief's 36-hour window tagged with those states, excluding top stories.
+ *
+ * @param date - Optional date in yyyy-mm-dd format (defaults to today ET)
+ * @param states - Optional USPS codes (max 10) to lean toward
+ * @returns Brief with topStories populated with full article data
+ */
+export const getTodayBrief = onCall<GetTodayBriefData>(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const { date, states } = request.data || {};
+
+    // Get date key (default to today in ET)
+    const dateKey = date || getTodayDateET();
+
+    // Validate date format (if provided)
+    if (date && !DATE_REGEX.test(date)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "date must be in yyyy-mm-dd format."
+      );
+    }
+
+    // Validate states (if provided)
+    if (states !== undefined && states !== null) {
+      if (!Array.isArray(states) || states.length > MAX_GEO_FILTER_KEYS || !states.every(isStateCode)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `states must be an array of at most ${MAX_GEO_FILTER_KEYS} US state codes.`
+        );
+      }
+    }
+
+    console.log(`[getTodayBrief] Fetching brief for ${dateKey}`);
+
+    // Fetch brief
+    const briefDoc = await db.collection("briefs").doc(dateKey).get();
+
+    if (!briefDoc.exists) {
+      return {
+        found: false,
+        date: dateKey,
+        brief: null,
+        topStoriesWithArticles: [],
+        territoryStories: [],
+      };
+    }
+
+    return buildBriefResponse(dateKey, briefDoc.data() as Brief, states);
+  }
+);
+
+interface GetBriefArchiveData {
+  action: "list" | "get";
+  /** list: only briefs before this date (yyyy-mm-dd), for paging */
+  before?: string;
+  /** list: page size (default 30, max 90) */
+  limit?: number;
+  /** get: the brief's date (yyyy-mm-dd) */
+  date?: string;
+}
+
+/**
+ * Archive preview line: the lead of the first executive summary bullet
+ * ("Headline — detail"), else the first top story's headline.
+ */
+function briefPreviewHeadline(brief: Pick<Brief, "executiveSummary" | "topStories">): string {
+  const first = (brief.executiveSummary?.[0] ?? "").replace(/\s*\[[a-f0-9]{10,}\]/gi, "").trim();
+  const lead = first.split(/ [\u2014\u2013] /)[0].trim();
+  return lead || brief.topStories?.[0]?.headline || "";
+}
+
+/**
+ * Callable for the brief archive.
+ *
+ * - list: brief dates, newest first, with a headline preview and top story
+ *   count. Page with `before` (the last date of the previous page).
+ * - get: any date's brief in getTodayBrief's response shape, plus the
+ *   nearest earlier and later brief dates (`prevDate` / `nextDate`) for
+ *   navigation. Both are returned even when the date has no brief.
+ */
+export const getBriefArchive = onCall<GetBriefArchiveData>(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const data = request.data || ({} as GetBriefArchiveData);
+
+    if (data.action === "list") {
+      const limit = Math.max(1, Math.min(Number(data.limit) || 30, 90));
+      if (data.before !== undefined && (typeof data.before !== "string" || !DATE_REGEX.test(data.before))) {
+        throw new HttpsError("invalid-argument", "before must be in yyyy-mm-dd format.");
+      }
+
+      let query = db.collection("briefs").orderBy("date", "desc");
+      if (data.before) {
+        query = query.where("date", "<", data.before);
+      }
+      const snap = await query.select("date", "executiveSummary", "topStories").limit(limit + 1).get();
+
+      const docs = snap.docs.slice(0, limit);
+      const briefs = docs.map((doc) => {
+        const brief = doc.data() as Pick<Brief, "date" | "executiveSummary" | "topStories">;
+        return {
+          date: brief.date,
+          headline: briefPreviewHeadline(brief),
+          topStoryCount: brief.topStories?.length ?? 0,
+        };
+      });
+
+      console.log(`[getBriefArchive] list: ${briefs.length} briefs before ${data.before ?? "now"}`);
+
+      return {
+        briefs,
+        nextBefore: snap.docs.length > limit ? briefs[briefs.length - 1].date : null,
+      };
+    }
+
+    if (data.action === "get") {
+      const dateKey = data.date;
+      if (typeof dateKey !== "string" || !DATE_REGEX.test(dateKey)) {
+        throw new HttpsError("invalid-argument", "date must be in yyyy-mm-dd format.");
+      }
+
+      const briefs = db.collection("briefs");
+      const [briefDoc, prevSnap, nextSnap] = await Promise.all([
+        briefs.doc(dateKey).get(),
+        briefs.where("date", "<", dateKey).orderBy("date", "desc").select("date").limit(1).get(),
+        briefs.where("date", ">", dateKey).orderBy("date", "asc").select("date").limit(1).get(),
+      ]);
+      const navigation = {
+        prevDate: prevSnap.empty ? null : (prevSnap.docs[0].get("date") as string),
+        nextDate: nextSnap.empty ? null : (nextSnap.docs[0].get("date") as string),
+      };
+
+      console.log(`[getBriefArchive] get ${dateKey}: ${briefDoc.exists ? "found" : "not found"}`);
+
+      if (!briefDoc.exists) {
+        return {
+          found: false,
+          date: dateKey,
+          brief: null,
+          topStoriesWithArticles: [],
+          territoryStories: [],
+          ...navigation,
+        };
+      }
+
+      return {
+        ...(await buildBriefResponse(dateKey, briefDoc.data() as Brief)),
+        ...navigation,
+      };
+    }
+
+    throw new HttpsError(
+      "invalid-argument",
+      "action must be one of: list, get."
+    );
+  }
+);
+
+interface GetMyBriefData {
+  date?: string;
+  states?: string[];
+}
+
+/**
+ * Callable returning the signed-in user's "My Brief" in getTodayBrief's
+ * response shape, plus `personalized`.
+ *
+ * Reads users/{uid}/briefs/{date}. For today's date, a user who opted in
+ * (prefs.personalBrief) but has no brief yet gets one built on demand
+ * (shared per preference profile; rate limited). Anyone else, or when too
+ * few articles match their settings, gets the shared brief with
+ * `personalized: false` (a stored brief without profileKey is the shared
+ * one).
+ */
+export const getMyBrief = onCall<GetMyBriefData>(
+  {
+    secrets: [openaiApiKey],
+    memory: "512MiB",
+    timeoutSeconds: 120,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication required.");
+    }
+
+    const uid = request.auth.uid;
+    const { date, states } = request.data || {};
+    const dateKey = date || getTodayDateET();
+
+    if (date && !DATE_REGEX.test(date)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "date must be in yyyy-mm-dd format."
+      );
+    }
+    if (states !== undefined && states !== null) {
+      if (!Array.isArray(states) || states.length > MAX_GEO_FILTER_KEYS || !states.every(isStateCode)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `states must be an array of at most ${MAX_GEO_FILTER_KEYS} US state codes.`
+        );
+      }
+    }
+
+    const userBriefRef = db.collection("users").doc(uid).collection("briefs").doc(dateKey);
+    const userBriefDoc = await userBriefRef.get();
+    let brief = userBriefDoc.exists ? (userBriefDoc.data() as Brief) : null;
+
+    const sharedDoc = await db.collection("briefs").doc(dateKey).get();
+    const sharedBrief = sharedDoc.exists ? (sharedDoc.data() as Brief) : null;
+
+    if (!brief && sharedBrief && dateKey === getTodayDateET()) {
+      const { optedIn, profile } = await loadUserBriefProfile(uid);
+      if (optedIn && !isUnconstrainedProfile(profile)) {
+        const cached = await db
+          .collection("briefVariants")
+          .doc(`${dateKey}_${briefProfileKey(profile)}`)
+          .get();
+        const rateLimit = cached.exists
+          ? null
+          : await checkRateLimit(uid, "personalBrief");
+        if (!rateLimit || rateLimit.isAllowed) {
+          const variant = await getOrCreateBriefVariant(dateKey, profile, uid);
+          if ("brief" in variant) {
+            brief = variant.brief;
+            await userBriefRef.set(brief);
+            console.log(`[getMyBrief] Built profile ${brief.profileKey} for uid=${uid} on ${dateKey}`);
+          } else if (variant.fallback === "too_few") {
+            // Too few matching articles: keep the shared brief for today so we don't retry
+            brief = sharedBrief;
+            await userBriefRef.set(brief);
+            console.log(`[getMyBrief] Too few articles for uid=${uid}'s profile, shared brief on ${dateKey}`);
+          } else {
+            // Budget spent or generation failed: not stored, so a later call retries
+            console.log(`[getMyBrief] No personal brief for uid=${uid} (${variant.fallback}), using shared brief`);
+          }
+        } else {
+          console.log(`[getMyBrief] Rate limit reached for uid=${uid}, using shared brief`);
+        }
+      }
+    }
+
+    if (brief) {
+      return {
+        ...(await buildBriefResponse(dateKey, brief, states)),
+        personalized: !!brief.profileKey,
+      };
+    }
+
+    // Fall back to the shared brief
+    if (!sharedBrief) {
+      return {
+        found: false,
+        date: dateKey,
+        brief: null,
+        topStoriesWithArticles: [],
+        territoryStories: [],
+        personalized: false,
+      };
+    }
+    return {
+      ...(await buildBriefResponse(dateKey, sharedBrief, states)),
+      personalized: false,
+    };
+  }
+);
+
+/**
+ * Scheduled function building "My Brief" for every opted-in user after the
+ * shared brief (12:30 AM ET).
+ *
+ * Users are grouped by preference profile so each distinct set of sources,
+ * categories and pinned topics costs one AI call; users whose settings
+ * don't narrow anything, or whose profile matches too few articles, get
+ * the shared brief.
+ */
+export const generatePersonalBriefs = onSchedule(
+  {
+    schedule: "30 0 * * *",
+    timeZone: "America/New_York",
+    secrets: [openaiApiKey],
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const dateKey = getTodayDateET();
+    console.log(`[generatePersonalBriefs] Starting for ${dateKey}`);
+
+    const sharedDoc = await db.collection("briefs").doc(dateKey).get();
+    if (!sharedDoc.exists) {
+      console.error(`[generatePersonalBriefs] No shared brief for ${dateKey}, skipping`);
+      return;
+    }
+    const sharedBrief = sharedDoc.data() as Brief;
+
+    // Opted-in users and their profiles
+    const prefsSnap = await db.collectionGroup("prefs").get();
+    const users: { uid: string; profile: BriefProfile }[] = [];
+    for (const prefDoc of prefsSnap.docs) {
+      const prefs = prefDoc.data() as UserPreferences;
+      const uid = prefDoc.ref.parent.parent?.id;
+      if (!uid || prefs.personalBrief !== true) continue;
+      const { profile } = await loadUserBriefProfile(uid, prefs);
+      users.push({ uid, profile });
+    }
+
+    const groups = groupUsersByProfile(users);
+    let generated = 0;
+    let shared = 0;
+    let deferred = 0;
+
+    for (const [profileKey, { profile, uids }] of groups) {
+      const variant: BriefVariantResult = isUnconstrainedProfile(profile)
+        ? { brief: sharedBrief }
+        : await getOrCreateBriefVariant(dateKey, profile);
+      if ("fallback" in variant && variant.fallback !== "too_few") {
+        // Left unwritten so getMyBrief can build it later in the day
+        deferred += uids.length;
+        console.log(`[generatePersonalBriefs] Profile ${profileKey}: deferred (${variant.fallback})`);
+        continue;
+      }
+      const brief = "brief" in variant ? variant.brief : sharedBrief;
+      if (brief.profileKey) {
+        generated++;
+      } else {
+        shared += uids.length;
+      }
+
+      for (let i = 0; i < uids.length; i += 400) {
+        const batch = db.batch();
+        for (const uid of uids.slice(i, i + 400)) {
+          batch.set(db.collection("users").doc(uid).collection("briefs").doc(dateKey), brief);
+        }
+        await batch.commit();
+      }
+      console.log(`[generatePersonalBriefs] Profile ${profileKey}: ${uids.length} users`);
+    }
+
+    console.log(
+      `[generatePersonalBriefs] ✓ ${users.length} users, ${groups.size} profiles, ` +
+        `${generated} personal briefs, ${shared} users on the shared brief, ${deferred} deferred`
+    );
+  }
+);
+
+// ============================================================================
+// Weekly / Monthly Digests
+// ============================================================================
+
+/** Articles behind the period's daily briefs given to the digest model */
+const MAX_DIGEST_ARTICLES = 60;
+
+/**
+ * Generate a roll-up digest for one window from its daily briefs.
+ *
+ * Reads the window's briefs plus an equally long prior window, computes
+ * pulse momentum between the two (what changed versus last week/month),
+ * loads the articles the dailies relied on most, and asks the premium
+ * model for a longer-horizon narrative.
+ *
+ * @throws Error if the window has no daily briefs or AI generation fails
+ */
+async function generateDigest(window: DigestWindow): Promise<Digest> {
+  const windowDays = window.dates.length;
+  const allDates = dateRange(window.endDate, windowDays * 2);
+  const inWindow = new Set(window.dates);
+
+  // Daily briefs for both windows (full docs are only needed for this one)
+  const briefs: Brief[] = [];
+  const briefInputs: BriefInput[] = [];
+  for (let i = 0; i < allDates.length; i += 30) {
+    const refs = allDates.slice(i, i + 30).map((d) => db.collection("briefs").doc(d));
+    const docs = await db.getAll(...refs);
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const data = doc.data() as Brief;
+      briefInputs.push({
+        date: doc.id,
+        topics: data.topics || [],
+        sourceIds: (data.sourcesUsed || []).map((s) => s.sourceId),
+      });
+      if (inWindow.has(doc.id)) {
+        briefs.push({ ...data, date: doc.id });
+      }
+    }
+  }
+
+  if (briefs.length === 0) {
+    throw new Error(`No daily briefs between ${window.startDate} and ${window.endDate}`);
+  }
+
+  console.log(
+    `[generateDigest] ${window.id}: ${briefs.length} daily briefs, ` +
+      `${briefInputs.length - briefs.length} in prior window`
+  );
+
+  // Momentum versus the prior equivalent window
+  const pulse = computePulseSnapshot(briefInputs, window.endDate, windowDays);
+  const rising = toMomentumTopics(pulse.rising);
+  const falling = toMomentumTopics(pulse.falling);
+
+  // Articles the dailies leaned on most
+  const articleIds = rankDigestArticleIds(briefs, MAX_DIGEST_ARTICLES);
+  const articles: Array<{ id: string; title: string; sourceName: string; snippet: string }> = [];
+  for (let i = 0; i < articleIds.length; i += 100) {
+    const refs = articleIds.slice(i, i + 100).map((id) => db.collection("articles").doc(id));
+    const docs = await db.getAll(...refs, { fieldMask: ["title", "sourceName", "snippet"] });
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const data = doc.data() as Pick<Article, "title" | "sourceName" | "snippet">;
+      articles.push({ id: doc.id, title: data.title, sourceName: data.sourceName, snippet: data.snippet });
+    }
+  }
+
+  const prompt = buildDigestPrompt(
+    window.period,
+    window.startDate,
+    window.endDate,
+    briefs,
+    articles,
+    { rising, falling }
+  );
+  const systemPrompt = activePrompt("digest");
+
+  console.log(
+    `[generateDigest] Calling ${getLlmProvider().name} with the digest model (${articles.length} articles)...`
+  );
+
+  const response = await withRetry(
+    () =>
+      getLlmProvider().completeJson({
+        task: "digest",
+        system: systemPrompt.system,
+        user: prompt,
+        schemaName: "digest",
+        schema: DIGEST_SCHEMA,
+        maxOutputTokens: 5000,
+      }),
+    { maxRetries: 2, baseDelayMs: 2000, label: "generateDigest/AI" }
+  );
+
+  const outputText = response.outputText;
+  let digestData: DigestResponse;
+  try {
+    digestData = JSON.parse(outputText) as DigestResponse;
+  } catch (parseError) {
+    const truncatedOutput = outputText?.slice(0, 500) ?? "(empty response)";
+    console.error(
+      "[generateDigest] Failed to parse AI response.",
+      `Parse error: ${parseError instanceof Error ? parseError.message : "unknown"}`,
+      `Raw response (first 500 chars): ${truncatedOutput}`
+    );
+    throw new Error(`Failed to parse AI response for digest ${window.id}`);
+  }
+
+  // Sources across all of the period's daily briefs
+  const sourceMap = new Map<string, string>();
+  for (const brief of briefs) {
+    for (const source of brief.sourcesUsed || []) {
+      if (!sourceMap.has(source.sourceId)) {
+        sourceMap.set(source.sourceId, source.name);
+      }
+    }
+  }
+
+  return {
+    id: window.id,
+    period: window.period,
+    periodKey: window.periodKey,
+    startDate: window.startDate,
+    endDate: window.endDate,
+    createdAt: Timestamp.now(),
+    executiveSummary: digestData.executiveSummary,
+    topStories: digestData.topStories,
+    whatChanged: digestData.whatChanged,
+    rising,
+    falling,
+    sections: digestData.sections,
+    topics: digestData.topics,
+    briefDates: briefs.map((b) => b.date),
+    sourcesUsed: Array.from(sourceMap.entries()).map(([sourceId, name]) => ({
+      sourceId,
+      name,
+    })),
+    sourceArticleIds: articles.map((a) => a.id),
+    model: response.model,
+    promptVersion: promptTag(systemPrompt),
+  };
+}
+
+/**
+ * Shared body of the scheduled digests: skip if already generated,
+ * otherwise generate and save. Weekly digests are then emailed to users
+ * who opted in.
+ */
+async function runScheduledDigest(window: DigestWindow, label: string): Promise<void> {
+  console.log(`[${label}] Starting ${window.id} (${window.startDate} to ${window.endDate})`);
+
+  const digestRef = db.collection("digests").doc(window.id);
+  const existing = await digestRef.get();
+  if (existing.exists) {
+    console.log(`[${label}] ${window.id} already exists, skipping`);
+    return;
+  }
+
+  try {
+    const digest = await generateDigest(window);
+    await digestRef.set(digest);
+
+    let emailInfo = "";
+    if (digest.period === "weekly") {
+      try {
+        const emailResult = await sendDigestEmails(digest);
+        emailInfo = emailResult.configured
+          ? ` Emails: ${emailResult.sent} sent, ${emailResult.failed} failed.`
+          : " Emails: not configured.";
+      } catch (error) {
+        // Don't fail the function if emails fail
+        console.error(`[${label}] Email send error:`, error);
+        emailInfo = " Emails: failed to send.";
+      }
+    }
+
+    console.log(
+      `[${label}] ✓ SUCCESS for ${window.id}: ` +
+        `${digest.briefDates.length} briefs, ${digest.topStories.length} top stories, ` +
+        `${digest.rising.length} rising / ${digest.falling.length} falling topics.${emailInfo}`
+    );
+  } catch (error) {
+    console.error(
+      `[${label}] ✗ FAILURE for ${window.id}:`,
+      error instanceof Error ? error.message : error
+    );
+    throw error; // Re-throw so Cloud Functions marks execution as failed
+  }
+}
+
+/**
+ * Scheduled weekly digest (Mondays, 3:00 AM ET) for the Monday-Sunday week
+ * that just ended. Runs after the daily brief and pulse snapshots.
+ */
+export const generateWeeklyDigest = onSchedule(
+  {
+    schedule: "0 3 * * 1",
+    timeZone: "America/New_York",
+    secrets: [openaiApiKey],
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const window = previousDigestWindow("weekly", getTodayDateET());
+    await runScheduledDigest(window, "generateWeeklyDigest");
+  }
+);
+
+/**
+ * Scheduled monthly digest (1st of the month, 3:30 AM ET) for the calendar
+ * month that just ended.
+ */
+export const generateMonthlyDigest = onSchedule(
+  {
+    schedule: "30 3 1 * *",
+    timeZone: "America/New_York",
+    secrets: [openaiApiKey],
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const window = previousDigestWindow("monthly", getTodayDateET());
+    await runScheduledDigest(window, "generateMonthlyDigest");
+  }
+);
+
+/**
+ * HTTP trigger to manually generate (or regenerate) a digest.
+ * Protected by API key.
+ *
+ * Query: period=weekly|monthly, periodKey (Monday yyyy-mm-dd or yyyy-mm,
+ * defaults to the last complete period), force=true to overwrite.
+ */
+export const triggerDigest = onRequest(
+  {
+    secrets: [openaiApiKey],
+    memory: "512MiB",
+    timeoutSeconds: 300,
+    cors: true,
+  },
+  async (req, res) => {
+    if (req.method !== "GET" && req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
 
-    // Get date key (default to today in ET)
-    const dateKey = date || getTodayDateET();
+    const apiKey = req.query.key;
+    if (apiKey !== process.env.INGESTION_API_KEY && !process.env.FUNCTIONS_EMULATOR) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
 
-    // Validate date format (if provided)
-    if (date && !DATE_REGEX.test(date)) {
-      throw new HttpsError(
-        "invalid-argument",
-        "date must be in yyyy-mm-dd format."
-      );
+    const period = req.query.period as DigestPeriod;
+    if (!DIGEST_PERIODS.includes(period)) {
+      res.status(400).json({ error: "period must be weekly or monthly." });
+      return;
     }
 
-    console.log(`[getTodayBrief] Fetching brief for ${dateKey}`);
+    const periodKey = req.query.periodKey as string | undefined;
+    const window = periodKey
+      ? digestWindowFor(period, periodKey)
+      : previousDigestWindow(period, getTodayDateET());
+    if (!window) {
+      res.status(400).json({
+        error: "Invalid periodKey. Expected a Monday (yyyy-mm-dd) for weekly or yyyy-mm for monthly.",
+      });
+      return;
+    }
 
-    // Fetch brief
-    const briefDoc = await db.collection("briefs").doc(dateKey).get();
+    console.log(`[triggerDigest] Manual trigger for ${window.id}`);
 
-    if (!briefDoc.exists) {
-      return {
-        found: false,
-        date: dateKey,
-        brief: null,
-        topStoriesWithArticles: [],
-      };
+    const digestRef = db.collection("digests").doc(window.id);
+    if (req.query.force !== "true" && (await digestRef.get()).exists) {
+      res.json({ ok: false, message: `Digest already exists for ${window.id}`, id: window.id });
+      return;
     }
 
-    const brief = briefDoc.data() as Brief;
+    try {
+      const digest = await generateDigest(window);
+      await digestRef.set(digest);
+      res.json({
+        ok: true,
+        message: `Digest created for ${window.id}`,
+        id: window.id,
+        stats: {
+          briefs: digest.briefDates.length,
+          topStories: digest.topStories.length,
+          articlesUsed: digest.sourceArticleIds.length,
+          rising: digest.rising.length,
+          falling: digest.falling.length,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[triggerDigest] ✗ FAILURE for ${window.id}:`, message);
+      res.status(500).json({ ok: false, message, id: window.id });
+    }
+  }
+);
 
-    // Batch fetch all top story articles using getAll (single round-trip)
-    const topStoryIds = brief.topStories.map((s) => s.articleId);
-    const articleRefs = topStoryIds.map((id) =>
-      db.collection("articles").doc(id)
-    );
+interface GetDigestData {
+  period: DigestPeriod;
+  periodKey?: string; // Monday yyyy-mm-dd (weekly) or yyyy-mm (monthly)
+}
 
-    // Use getAll for efficient batch fetch (single Firestore call)
-    const articleDocs =
-      articleRefs.length > 0 ? await db.getAll(...articleRefs) : [];
+/**
+ * Callable function to get a weekly or monthly digest with article cards.
+ *
+ * Without `periodKey`, returns the last complete period's digest, or the
+ * one before it while the new one is still being generated.
+ */
+export const getDigest = onCall<GetDigestData>(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const { period, periodKey } = request.data || {};
 
-    // Build ID → doc map for fast lookup
-    const articleMap = new Map(
-      articleDocs
-        .filter((doc) => doc.exists)
-        .map((doc) => [doc.id, doc.data() as Article])
-    );
+    if (!DIGEST_PERIODS.includes(period)) {
+      throw new HttpsError("invalid-argument", "period must be weekly or monthly.");
+    }
 
-    const topStoriesWithArticles = brief.topStories.map((story) => {
-      const article = articleMap.get(story.articleId);
-      if (!article) {
-        return { ...story, article: null };
+    let candidates: DigestWindow[];
+    if (periodKey) {
+      const window = digestWindowFor(period, periodKey);
+      if (!window) {
+        throw new HttpsError(
+          "invalid-argument",
+          "periodKey must be a Monday (yyyy-mm-dd) for weekly or yyyy-mm for monthly."
+        );
       }
+      candidates = [window];
+    } else {
+      const latest = previousDigestWindow(period, getTodayDateET());
+      candidates = [latest, previousDigestWindow(period, latest.startDate)];
+    }
+
+    for (const window of candidates) {
+      const doc = await db.collection("digests").doc(window.id).get();
+      if (!doc.exists) continue;
 
+      const digest = doc.data() as Digest;
       return {
-        ...story,
-        article: {
-          id: story.articleId,
-          title: article.title,
-          url: article.url,
-          sourceName: article.sourceName,
-          sourceId: article.sourceId,
-          publishedAt:
-            article.publishedAt?.toDate?.()?.toISOString() ?? null,
-          snippet: article.snippet,
-          imageUrl: article.imageUrl || null,
+        found: true,
+        period,
+        periodKey: window.periodKey,
+        digest: {
+          ...digest,
+          createdAt:
+            digest.createdAt?.toDate?.()?.toISOString() ??
+            new Date().toISOString(),
         },
+        topStoriesWithArticles: await withTopStoryArticles(digest.topStories),
       };
-    });
+    }
 
     return {
-      found: true,
-      date: dateKey,
-      brief: {
-        ...brief,
-        createdAt:
-          brief.createdAt?.toDate?.()?.toISOString() ??
-          new Date().toISOString(),
-      },
-      topStoriesWithArticles,
+      found: false,
+      period,
+      periodKey: candidates[0].periodKey,
+      digest: null,
+      topStoriesWithArticles: [],
     };
   }
 );
@@ -1133,6 +2831,65 @@ interface GetArticlesData {
   startAfterPublishedAt?: string; // ISO date string for pagination
   topicKey?: string; // Canonical topic key for deep-link filtering
   windowDays?: number; // Pulse window for topic resolution (default: 7, used only with topicKey)
+  collapseClusters?: boolean; // One slot per cross-source story cluster
+  entity?: string; // Gazetteer entity key, e.g. "company:travelers" or "state:FL"
+  geo?: string[]; // Geography keys, e.g. ["state:FL", "state:GA"] or ["region:europe"]
+}
+
+/**
+ * Annotate articles with the other sources covering the same story and,
+ * when collapsing, keep only the first article of each story cluster.
+ */
+async function applyStoryClusters<T extends { sourceId: string; id: string; clusterId: string | null }>(
+  articles: T[],
+  collapse: boolean
+): Promise<Array<T & { alsoCoveredBy: string[] }>> {
+  const kept = collapse ? collapseByCluster(articles).map((c) => c.item) : articles;
+
+  const clusterIds = kept
+    .map((a) => a.clusterId)
+    .filter((id): id is string => !!id);
+  const clusters = clusterIds.length > 0
+    ? await getClustersByIds(clusterIds)
+    : new Map<string, never>();
+
+  return kept.map((a) => {
+    const cluster = a.clusterId ? clusters.get(a.clusterId) : undefined;
+    return {
+      ...a,
+      alsoCoveredBy: cluster ? otherSourceNames(cluster.members, a.sourceId) : [],
+    };
+  });
+}
+
+/**
+ * Serialize an article document for the client (ISO dates, defaults for
+ * fields older articles lack)
+ */
+function toArticleResponse(id: string, data: Article) {
+  return {
+    id,
+    sourceId: data.sourceId,
+    sourceName: data.sourceName,
+    title: data.title,
+    snippet: data.snippet,
+    url: data.url,
+    canonicalUrl: data.canonicalUrl,
+    guid: data.guid,
+    imageUrl: data.imageUrl || null,
+    categories: data.categories || [],
+    publishedAt: data.publishedAt?.toDate?.()?.toISOString() || null,
+    ingestedAt: data.ingestedAt?.toDate?.()?.toISOString() || null,
+    relevanceScore: data.relevanceScore,
+    isRelevant: data.isRelevant,
+    ai: data.ai || null,
+    clusterId: data.clusterId ?? null,
+    entities: data.entities ?? [],
+    geo: data.geo ?? null,
+    revisionCount: data.revisionCount ?? 0,
+    lastRevisedAt: data.lastRevisedAt?.toDate?.()?.toISOString() ?? null,
+    aiStale: data.aiStale ?? false,
+  };
 }
 
 /**
@@ -1146,6 +2903,12 @@ interface GetArticlesData {
  * @param sourceIds - Up to 10 source IDs to filter by
  * @param limit - Max articles to return (1-50, default: 20)
  * @param startAfterPublishedAt - ISO date string for cursor pagination
+ * @param collapseClusters - Show one article per cross-source story (default: false)
+ * @param entity - Gazetteer entity key; cannot be combined with category
+ *   (Firestore allows one array-contains per query)
+ * @param geo - Up to 10 geography keys (articles tagged with any); cannot be
+ *   combined with category or entity. Source filtering is applied in-memory
+ *   (Firestore can't mix 'in' with array-contains-any at this size)
  */
 export const getArticles = onCall<GetArticlesData>(
   {
@@ -1161,6 +2924,9 @@ export const getArticles = onCall<GetArticlesData>(
       startAfterPublishedAt,
       topicKey,
       windowDays: rawWindow,
+      collapseClusters = false,
+      entity,
+      geo,
     } = request.data || {};
 
     // Validate timeWindow
@@ -1179,6 +2945,35 @@ export const getArticles = onCall<GetArticlesData>(
       );
     }
 
+    // Validate entity (must be a known gazetteer key)
+    if (entity !== undefined && entity !== null) {
+      if (typeof entity !== "string" || !resolveEntityKey(entity)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `entity must be a known entity key (e.g. "company:travelers", "state:FL"). Received: "${entity}"`
+        );
+      }
+      if (category && category !== "all") {
+        throw new HttpsError(
+          "invalid-argument",
+          "entity cannot be combined with category. Filter by one or the other."
+        );
+      }
+    }
+
+    // Validate geography (known keys; one array filter per query)
+    const geoError = geoKeysError(geo);
+    if (geoError) {
+      throw new HttpsError("invalid-argument", geoError);
+    }
+    const geoFilter = geo && geo.length > 0 ? geo : null;
+    if (geoFilter && ((category && category !== "all") || entity)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "geo cannot be combined with category or entity. Filter by one at a time."
+      );
+    }
+
     // Validate limit
     if (typeof requestLimit !== "number" || requestLimit < 1) {
       throw new HttpsError(
@@ -1319,6 +3114,13 @@ export const getArticles = onCall<GetArticlesData>(
         relevanceScore: number;
         isRelevant: boolean;
         ai: Article["ai"] | null;
+        clusterId: string | null;
+        entities: ArticleEntity[];
+        geo: ArticleGeo | null;
+        geoKeys: string[];
+        revisionCount: number;
+        lastRevisedAt: string | null;
+        aiStale: boolean;
         _publishedAtMs: number; // internal for sorting/filtering
       };
 
@@ -1351,6 +3153,13 @@ export const getArticles = onCall<GetArticlesData>(
             relevanceScore: data.relevanceScore,
             isRelevant: data.isRelevant,
             ai: data.ai || null,
+            clusterId: data.clusterId ?? null,
+            entities: data.entities ?? [],
+            geo: data.geo ?? null,
+            geoKeys: data.geoKeys ?? [],
+            revisionCount: data.revisionCount ?? 0,
+            lastRevisedAt: data.lastRevisedAt?.toDate?.()?.toISOString() ?? null,
+            aiStale: data.aiStale ?? false,
             _publishedAtMs: pubDate?.getTime() ?? 0,
           });
         }
@@ -1374,6 +3183,16 @@ export const getArticles = onCall<GetArticlesData>(
         filtered = filtered.filter((a) => a.categories.includes(category));
       }
 
+      // Entity filter
+      if (entity) {
+        filtered = filtered.filter((a) => a.entities.some((e) => e.key === entity));
+      }
+
+      // Geography filter
+      if (geoFilter) {
+        filtered = filtered.filter((a) => a.geoKeys.some((k) => geoFilter.includes(k)));
+      }
+
       // Source filter
       if (sourceIds && sourceIds.length > 0) {
         const validSourceIds = new Set(
@@ -1387,6 +3206,11 @@ export const getArticles = onCall<GetArticlesData>(
       // Sort by publishedAt desc
       filtered.sort((a, b) => b._publishedAtMs - a._publishedAtMs);
 
+      // One slot per story (newest member represents the cluster)
+      if (collapseClusters) {
+        filtered = collapseByCluster(filtered).map((c) => c.item);
+      }
+
       // Pagination cursor
       if (startAfterPublishedAt) {
         const cursorMs = new Date(startAfterPublishedAt).getTime();
@@ -1397,98 +3221,454 @@ export const getArticles = onCall<GetArticlesData>(
       // Apply limit
       const page = filtered.slice(0, safeLimit);
 
-      // Strip internal sort field
+      // Strip internal sort/filter fields
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const articles = page.map(({ _publishedAtMs, ...rest }) => rest);
+      const articles = await applyStoryClusters(page.map(({ _publishedAtMs, geoKeys, ...rest }) => rest), false);
 
       console.log(
         `[getArticles] Topic "${normalizedKey}": returning ${articles.length} articles (${allArticles.length} resolved, ${filtered.length} after filters)`
       );
 
       return {
-        articles,
-        hasMore: filtered.length > safeLimit,
-        topicKey: normalizedKey,
+        articles,
+        hasMore: filtered.length > safeLimit,
+        nextCursor: articles.length > 0 ? articles[articles.length - 1].publishedAt : null,
+        topicKey: normalizedKey,
+      };
+    }
+
+    // ================================================================
+    // Standard path: Firestore index-backed query (no topic filter)
+    // ================================================================
+
+    console.log("[getArticles] Fetching articles", {
+      category,
+      timeWindow,
+      sourceCount: sourceIds?.length ?? "all",
+      limit: safeLimit,
+      hasCursor: !!startAfterPublishedAt,
+      collapseClusters,
+      entity: entity ?? null,
+      geo: geoFilter,
+    });
+
+    // Build query
+    let query = db.collection("articles").orderBy("publishedAt", "desc");
+
+    // Time window filter
+    if (timeWindow !== "all") {
+      const now = new Date();
+      const cutoff =
+        timeWindow === "24h"
+          ? new Date(now.getTime() - 24 * 60 * 60 * 1000)
+          : new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+      query = query.where("publishedAt", ">=", Timestamp.fromDate(cutoff));
+    }
+
+    // Category filter
+    if (category && category !== "all") {
+      query = query.where("categories", "array-contains", category);
+    }
+
+    // Entity filter (mutually exclusive with category, validated above)
+    if (entity) {
+      query = query.where("entityKeys", "array-contains", entity);
+    }
+
+    // Geography filter (mutually exclusive with category/entity, validated above)
+    if (geoFilter) {
+      query = query.where("geoKeys", "array-contains-any", geoFilter);
+    }
+
+    // Source filter (max 10 for Firestore 'in' query; in-memory with geo)
+    const validSourceIds = (sourceIds ?? []).filter(
+      (id) => typeof id === "string" && id.trim() !== ""
+    );
+    if (validSourceIds.length > 0 && !geoFilter) {
+      query = query.where("sourceId", "in", validSourceIds);
+    }
+
+    // Pagination
+    if (startAfterPublishedAt) {
+      const startAfterDate = new Date(startAfterPublishedAt);
+      query = query.startAfter(Timestamp.fromDate(startAfterDate));
+    }
+
+    query = query.limit(safeLimit);
+
+    const snapshot = await query.get();
+
+    const rawDocs = geoFilter && validSourceIds.length > 0
+      ? snapshot.docs.filter((doc) => validSourceIds.includes(doc.get("sourceId")))
+      : snapshot.docs;
+
+    const pageArticles = rawDocs.map((doc) => toArticleResponse(doc.id, doc.data() as Article));
+
+    const articles = await applyStoryClusters(pageArticles, collapseClusters);
+
+    // Collapsing (or in-memory source filtering) can drop the page's last
+    // article, so paginate from the raw query page
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    const nextCursor = lastDoc
+      ? (lastDoc.get("publishedAt") as Timestamp | undefined)?.toDate?.()?.toISOString() ?? null
+      : null;
+
+    console.log(
+      `[getArticles] Returning ${articles.length} articles` +
+      (collapseClusters ? ` (${pageArticles.length - articles.length} folded into story clusters)` : "")
+    );
+
+    return {
+      articles,
+      hasMore: snapshot.docs.length === safeLimit,
+      nextCursor,
+    };
+  }
+);
+
+interface SearchArticlesData {
+  query: string;
+  timeWindow?: string;
+  category?: string;
+  sourceIds?: string[];
+  entity?: string; // Gazetteer entity key
+  geo?: string[]; // Geography keys (articles tagged with any)
+  limit?: number;
+  offset?: number; // Results to skip (from the previous page's nextOffset)
+}
+
+/** Longest query accepted by searchArticles */
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/** How far back searches reach (month buckets read per term) */
+const SEARCH_WINDOW_DAYS = 3 * 365;
+
+/** Best-ranked matches that are filtered, faceted and paged */
+const SEARCH_CANDIDATE_LIMIT = 200;
+
+/** Extra matches taken when filters (checked after the search) apply */
+const SEARCH_FILTER_OVERSAMPLE = 4;
+
+/** Fields read for every candidate (full documents only for the page) */
+const SEARCH_FACET_FIELDS = ["sourceId", "sourceName", "categories", "isRelevant", "clusterId", "entityKeys", "geoKeys"];
+
+/**
+ * Callable function for Feed search over the BM25 search index.
+ * Supports quoted phrases ("excess & surplus") and prefixes (reinsur*);
+ * the last word is matched as a prefix while the user types. Results are
+ * ranked by relevance blended with recency, one per story cluster, with
+ * highlighted title and snippet fragments.
+ *
+ * Rate limited per user (per IP for guests, as Feed search runs signed
+ * out too).
+ *
+ * The best 200 matches of the last 3 years (800 when any filter is set)
+ * are filtered, faceted and paged: facets count results per source,
+ * category and time window, each with the other filters applied. When
+ * there are more matches than that, `truncated` is set and total and
+ * facets only cover the best ones.
+ *
+ * @param query - Search text (1-200 characters)
+ * @param timeWindow - "24h", "7d", or "all" (default: "all")
+ * @param category - "all" or a valid SourceCategory
+ * @param sourceIds - Up to 10 source IDs to filter by
+ * @param entity - Gazetteer entity key
+ * @param geo - Up to 10 geography keys
+ * @param limit - Max articles to return (1-50, default: 20)
+ * @param offset - Results to skip (default: 0)
+ */
+export const searchArticles = onCall<SearchArticlesData>(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const {
+      query,
+      timeWindow = "all",
+      category,
+      sourceIds,
+      entity,
+      geo,
+      limit: requestLimit = 20,
+      offset = 0,
+    } = request.data || {};
+
+    if (typeof query !== "string" || query.trim() === "" || query.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new HttpsError(
+        "invalid-argument",
+        `query must be a non-empty string of at most ${MAX_SEARCH_QUERY_LENGTH} characters.`
+      );
+    }
+
+    if (!VALID_TIME_WINDOWS.includes(timeWindow as TimeWindow)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `timeWindow must be one of: ${VALID_TIME_WINDOWS.join(", ")}. Received: "${timeWindow}"`
+      );
+    }
+
+    if (category && category !== "all" && !VALID_CATEGORIES.includes(category as (typeof VALID_CATEGORIES)[number])) {
+      throw new HttpsError(
+        "invalid-argument",
+        `category must be one of: ${VALID_CATEGORIES.join(", ")}. Received: "${category}"`
+      );
+    }
+
+    if (sourceIds !== undefined && (!Array.isArray(sourceIds) || sourceIds.length > 10)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "sourceIds must be an array of at most 10 items."
+      );
+    }
+
+    if (entity !== undefined && entity !== null && (typeof entity !== "string" || !resolveEntityKey(entity))) {
+      throw new HttpsError(
+        "invalid-argument",
+        `entity must be a known entity key (e.g. "company:travelers", "state:FL"). Received: "${entity}"`
+      );
+    }
+
+    const geoError = geoKeysError(geo);
+    if (geoError) {
+      throw new HttpsError("invalid-argument", geoError);
+    }
+
+    if (typeof requestLimit !== "number" || requestLimit < 1) {
+      throw new HttpsError(
+        "invalid-argument",
+        "limit must be a positive number."
+      );
+    }
+
+    if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+      throw new HttpsError(
+        "invalid-argument",
+        "offset must be a non-negative integer."
+      );
+    }
+
+    // Guests are rate limited by IP, like Ask
+    let uid: string;
+    if (request.auth) {
+      uid = request.auth.uid;
+    } else {
+      const rawIp = request.rawRequest?.headers?.["x-forwarded-for"] ||
+                    request.rawRequest?.ip ||
+                    "unknown";
+      const clientIp = Array.isArray(rawIp) ? rawIp[0] ?? "unknown" : rawIp.split(",")[0]?.trim() ?? "unknown";
+      uid = `guest_${clientIp}`;
+    }
+    const rateLimit = await checkRateLimit(uid, "search");
+    if (!rateLimit.isAllowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Daily search limit reached. Try again tomorrow. (${rateLimit.limit} requests/day)`
+      );
+    }
+
+    const safeLimit = Math.max(1, Math.min(requestLimit, 50));
+    const nowMs = Date.now();
+    const parsed = parseSearchQuery(query, { prefixLast: true });
+
+    // Only unindexed words ("the", "of"): nothing to look up
+    if (parsed.terms.length === 0) {
+      return {
+        articles: [],
+        total: 0,
+        facets: { sources: [], categories: {}, timeWindows: { "24h": 0, "7d": 0, all: 0 } },
+        hasMore: false,
+        nextOffset: null,
+        truncated: false,
+        tooCommon: true,
       };
     }
+    const geoFilter = geo && geo.length > 0 ? geo : null;
+    const validSourceIds = (sourceIds ?? []).filter((id) => typeof id === "string" && id.trim() !== "");
+    const filters = {
+      sourceIds: validSourceIds.length > 0 ? validSourceIds : null,
+      category: category && category !== "all" ? category : null,
+      timeWindow: timeWindow as TimeWindow,
+    };
+    const filtered = Boolean(entity || geoFilter || filters.sourceIds || filters.category || filters.timeWindow !== "all");
+    const candidateLimit = filtered ? SEARCH_CANDIDATE_LIMIT * SEARCH_FILTER_OVERSAMPLE : SEARCH_CANDIDATE_LIMIT;
+
+    const result = await searchArticleIndex(query, {
+      startMs: nowMs - SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      limit: candidateLimit,
+      prefixLast: true,
+      recency: true,
+    });
 
-    // ================================================================
-    // Standard path: Firestore index-backed query (no topic filter)
-    // ================================================================
+    // ---- Candidates: facet fields only, in rank order ----
+    const refs = result.hits.map((hit) => db.collection("articles").doc(hit.id));
+    const chunks: Array<typeof refs> = [];
+    for (let i = 0; i < refs.length; i += 100) chunks.push(refs.slice(i, i + 100));
+    const facetDocs = (await Promise.all(
+      chunks.map((chunk) => db.getAll(...chunk, { fieldMask: SEARCH_FACET_FIELDS }))
+    )).flat();
+
+    const publishedAtMs = new Map(result.hits.map((hit) => [hit.id, hit.publishedAtMs]));
+    const candidates = facetDocs
+      .filter((doc) => doc.exists)
+      .map((doc) => {
+        const data = doc.data() as Pick<
+          Article,
+          "sourceId" | "sourceName" | "categories" | "isRelevant" | "clusterId" | "entityKeys" | "geoKeys"
+        >;
+        return {
+          id: doc.id,
+          sourceId: data.sourceId,
+          sourceName: data.sourceName,
+          categories: data.categories ?? [],
+          isRelevant: data.isRelevant,
+          clusterId: data.clusterId ?? null,
+          entityKeys: data.entityKeys ?? [],
+          geoKeys: data.geoKeys ?? [],
+          publishedAtMs: publishedAtMs.get(doc.id) ?? 0,
+        };
+      })
+      .filter((a) =>
+        a.isRelevant &&
+        (!entity || a.entityKeys.includes(entity)) &&
+        (!geoFilter || a.geoKeys.some((k) => geoFilter.includes(k)))
+      );
 
-    console.log("[getArticles] Fetching articles", {
-      category,
+    // One result per story (the best-ranked member)
+    const items = collapseByCluster(candidates).map((c) => c.item);
+
+    // ---- Facets, filters and page ----
+    const facets = countSearchFacets(items, filters, nowMs);
+    const matching = items.filter((item) => matchesFacetFilters(item, filters, nowMs));
+    const pageItems = matching.slice(offset, offset + safeLimit);
+
+    const pageRefs = pageItems.map((item) => db.collection("articles").doc(item.id));
+    const pageDocs = pageRefs.length > 0 ? await db.getAll(...pageRefs) : [];
+    const pageArticles = pageDocs
+      .filter((doc) => doc.exists)
+      .map((doc) => {
+        const data = doc.data() as Article;
+        return {
+          ...toArticleResponse(doc.id, data),
+          highlights: {
+            title: highlightText(data.title, parsed.terms),
+            snippet: highlightFragment(data.snippet, parsed.terms),
+          },
+        };
+      });
+    const articles = await applyStoryClusters(pageArticles, false);
+
+    const hasMore = offset + safeLimit < matching.length;
+
+    console.log("[searchArticles] Searched", {
       timeWindow,
-      sourceCount: sourceIds?.length ?? "all",
-      limit: safeLimit,
-      hasCursor: !!startAfterPublishedAt,
+      category: filters.category,
+      sourceCount: validSourceIds.length || "all",
+      matches: result.total,
+      candidateLimit,
+      candidates: items.length,
+      results: matching.length,
+      offset,
+      returned: articles.length,
+      bucketsRead: result.bucketsRead,
     });
 
-    // Build query
-    let query = db.collection("articles").orderBy("publishedAt", "desc");
+    return {
+      articles,
+      total: matching.length,
+      facets,
+      hasMore,
+      nextOffset: hasMore ? offset + safeLimit : null,
+      // More matches exist beyond the candidates that were faceted
+      truncated: result.total > candidateLimit,
+      tooCommon: false,
+    };
+  }
+);
 
-    // Time window filter
-    if (timeWindow !== "all") {
-      const now = new Date();
-      const cutoff =
-        timeWindow === "24h"
-          ? new Date(now.getTime() - 24 * 60 * 60 * 1000)
-          : new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      query = query.where("publishedAt", ">=", Timestamp.fromDate(cutoff));
-    }
+interface GetArticleData {
+  articleId: string;
+}
 
-    // Category filter
-    if (category && category !== "all") {
-      query = query.where("categories", "array-contains", category);
+/**
+ * Callable function to get one article by ID (e.g. a notification's lead
+ * article). Public like the feed.
+ *
+ * @param articleId - The article document ID
+ * @returns The article, or null if it doesn't exist
+ */
+export const getArticle = onCall<GetArticleData>(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const { articleId } = request.data || {};
+
+    if (typeof articleId !== "string" || articleId.trim() === "") {
+      throw new HttpsError("invalid-argument", "articleId must be a non-empty string.");
     }
 
-    // Source filter (max 10 for Firestore 'in' query)
-    if (sourceIds && sourceIds.length > 0) {
-      const validSourceIds = sourceIds.filter(
-        (id) => typeof id === "string" && id.trim() !== ""
-      );
-      if (validSourceIds.length > 0) {
-        query = query.where("sourceId", "in", validSourceIds);
-      }
+    const doc = await db.collection("articles").doc(articleId).get();
+    if (!doc.exists) {
+      console.log(`[getArticle] Article ${articleId} not found`);
+      return { article: null };
     }
 
-    // Pagination
-    if (startAfterPublishedAt) {
-      const startAfterDate = new Date(startAfterPublishedAt);
-      query = query.startAfter(Timestamp.fromDate(startAfterDate));
+    return { article: toArticleResponse(doc.id, doc.data() as Article) };
+  }
+);
+
+interface GetArticleRevisionsData {
+  articleId: string;
+}
+
+/**
+ * Callable function to get an article's publisher revisions, newest first.
+ * Public like the article itself; revisions only hold title/snippet/date.
+ *
+ * @param articleId - The article document ID
+ */
+export const getArticleRevisions = onCall<GetArticleRevisionsData>(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (request) => {
+    const { articleId } = request.data || {};
+
+    if (typeof articleId !== "string" || articleId.trim() === "") {
+      throw new HttpsError("invalid-argument", "articleId must be a non-empty string.");
     }
 
-    query = query.limit(safeLimit);
+    const snapshot = await db
+      .collection("articles")
+      .doc(articleId)
+      .collection("revisions")
+      .orderBy("detectedAt", "desc")
+      .limit(MAX_ARTICLE_REVISIONS)
+      .get();
 
-    const snapshot = await query.get();
+    const toSnapshot = (version: ArticleRevisionSnapshot) => ({
+      title: version.title,
+      snippet: version.snippet,
+      publishedAt: version.publishedAt?.toDate?.()?.toISOString() ?? null,
+    });
 
-    const articles = snapshot.docs.map((doc) => {
-      const data = doc.data() as Article;
+    const revisions = snapshot.docs.map((doc) => {
+      const revision = doc.data() as ArticleRevision;
       return {
         id: doc.id,
-        sourceId: data.sourceId,
-        sourceName: data.sourceName,
-        title: data.title,
-        snippet: data.snippet,
-        url: data.url,
-        canonicalUrl: data.canonicalUrl,
-        guid: data.guid,
-        imageUrl: data.imageUrl || null,
-        categories: data.categories || [],
-        publishedAt: data.publishedAt?.toDate?.()?.toISOString() || null,
-        ingestedAt: data.ingestedAt?.toDate?.()?.toISOString() || null,
-        relevanceScore: data.relevanceScore,
-        isRelevant: data.isRelevant,
-        ai: data.ai || null,
+        detectedAt: revision.detectedAt?.toDate?.()?.toISOString() ?? null,
+        changedFields: revision.changedFields,
+        previous: toSnapshot(revision.previous),
+        current: toSnapshot(revision.current),
       };
     });
 
-    console.log(`[getArticles] Returning ${articles.length} articles`);
+    console.log(`[getArticleRevisions] Returning ${revisions.length} revisions for ${articleId}`);
 
-    return {
-      articles,
-      hasMore: articles.length === safeLimit,
-    };
+    return { revisions };
   }
 );
 
@@ -1690,16 +3870,103 @@ export const runEmbeddingsBackfill = onSchedule(
   }
 );
 
+/**
+ * Scheduled function to rebuild the vector index over all article
+ * embeddings. Runs nightly after the embeddings backfill has caught up;
+ * Ask loads the new index within its cache window.
+ */
+export const buildVectorIndexNightly = onSchedule(
+  {
+    schedule: "30 4 * * *",
+    timeZone: "America/New_York",
+    memory: "2GiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    console.log("[buildVectorIndexNightly] Starting vector index build");
+
+    try {
+      const summary = await buildVectorIndex();
+      console.log("[buildVectorIndexNightly] Completed", summary);
+    } catch (error) {
+      console.error("[buildVectorIndexNightly] Error", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw error;
+    }
+  }
+);
+
 // ============================================================================
 // RAG Chat Functions
 // ============================================================================
 
-interface AnswerQuestionRagData {
-  question: string;
-  scope: "today" | "7d" | "30d";
+/** Scope fields shared by both Ask endpoints */
+interface RagScopeRequest {
+  scope: RagTimeWindow;
+  dateFrom?: string | null;
+  dateTo?: string | null;
   category: string;
   sourceIds: string[] | null;
+  entities?: string[] | null;
+  geo?: string[] | null;
+  topics?: string[] | null;
+  bookmarksOnly?: boolean;
+}
+
+interface AnswerQuestionRagData extends RagScopeRequest {
+  question: string;
   history: Array<{ role: "user" | "assistant"; content: string }>;
+  threadId?: string | null;
+}
+
+/**
+ * Validate the scope of an Ask request. Returns an error message, or null
+ * if valid. "only my bookmarks" additionally needs a signed-in user.
+ */
+function ragScopeRequestError(data: Partial<Record<keyof RagScopeRequest, unknown>>): string | null {
+  const scopeError = ragScopeError(data);
+  if (scopeError) return scopeError;
+
+  if (data.category != null && !VALID_CATEGORIES.includes(data.category as (typeof VALID_CATEGORIES)[number])) {
+    return `category must be one of: ${VALID_CATEGORIES.join(", ")}.`;
+  }
+
+  if (
+    data.sourceIds &&
+    (!Array.isArray(data.sourceIds) ||
+      data.sourceIds.length > MAX_SCOPE_SOURCES ||
+      data.sourceIds.some((id) => typeof id !== "string"))
+  ) {
+    return `sourceIds must be an array of at most ${MAX_SCOPE_SOURCES} source IDs.`;
+  }
+
+  if (data.bookmarksOnly != null && typeof data.bookmarksOnly !== "boolean") {
+    return "bookmarksOnly must be a boolean.";
+  }
+
+  return entityKeysError(data.entities) ?? geoKeysError(data.geo);
+}
+
+/**
+ * Build the retrieval scope of a validated Ask request. Pulse topics join
+ * the entity filter through the gazetteer (up to 10 keys in all); topics
+ * naming no entity become lexical terms.
+ */
+async function buildRagScope(data: RagScopeRequest, uid: string): Promise<RagScope> {
+  const topics = resolveScopeTopics(data.topics ?? []);
+  const entityKeys = [...new Set([...(data.entities ?? []), ...topics.entityKeys])].slice(0, 10);
+  return {
+    timeWindow: data.scope,
+    dateFrom: data.scope === "custom" ? data.dateFrom : null,
+    dateTo: data.scope === "custom" ? data.dateTo : null,
+    category: data.category || "all",
+    sourceIds: data.sourceIds && data.sourceIds.length > 0 ? data.sourceIds : null,
+    entityKeys: entityKeys.length > 0 ? entityKeys : null,
+    geoKeys: data.geo && data.geo.length > 0 ? data.geo : null,
+    topicTerms: topics.terms.length > 0 ? topics.terms : null,
+    articleIds: data.bookmarksOnly ? await loadBookmarkedArticleIds(uid) : null,
+  };
 }
 
 /**
@@ -1712,10 +3979,17 @@ interface AnswerQuestionRagData {
  * Requires authentication. Rate limited per user.
  *
  * @param question - The user's question
- * @param scope - Time window: "today" (36h), "7d", or "30d"
+ * @param scope - Time window: "today" (36h), "7d", "30d", "90d", "1y", or "custom"
+ * @param dateFrom - First day of a custom window (yyyy-mm-dd, ET)
+ * @param dateTo - Last day of a custom window, inclusive (yyyy-mm-dd, ET)
  * @param category - Category filter: "all" or specific category
- * @param sourceIds - Optional array of source IDs to filter by
+ * @param sourceIds - Optional array of source IDs to filter by (max 30)
+ * @param entities - Optional gazetteer entity keys (articles mentioning any)
+ * @param geo - Optional geography keys (articles tagged with any)
+ * @param topics - Optional Pulse topic keys (resolved to entities)
+ * @param bookmarksOnly - Only search the user's bookmarks (requires auth)
  * @param history - Chat history (last N messages, N<=8)
+ * @param threadId - Optional chat thread (users/{uid}/chatThreads) to save the exchange to
  * @returns Grounded answer with citations and follow-ups
  */
 export const answerQuestionRag = onCall<AnswerQuestionRagData>(
@@ -1740,7 +4014,7 @@ export const answerQuestionRag = onCall<AnswerQuestionRagData>(
       uid = `guest_${clientIp}`;
     }
 
-    const { question, scope, category, sourceIds, history } = request.data;
+    const { question, scope, category, sourceIds, history, threadId } = request.data;
 
     // Validate input
     if (typeof question !== "string" || question.trim() === "") {
@@ -1757,19 +4031,27 @@ export const answerQuestionRag = onCall<AnswerQuestionRagData>(
       );
     }
 
-    if (!["today", "7d", "30d"].includes(scope)) {
-      throw new HttpsError(
-        "invalid-argument",
-        "scope must be 'today', '7d', or '30d'."
-      );
+    // Validate scope (time window, category, sources, entities, geography, topics)
+    const scopeError = ragScopeRequestError(request.data);
+    if (scopeError) {
+      throw new HttpsError("invalid-argument", scopeError);
     }
 
-    // Validate sourceIds
-    if (sourceIds && (!Array.isArray(sourceIds) || sourceIds.length > 10)) {
-      throw new HttpsError(
-        "invalid-argument",
-        "sourceIds must be an array of at most 10 source IDs."
-      );
+    if (request.data.bookmarksOnly && !request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication required to search bookmarks.");
+    }
+
+    // Validate thread (the exchange is saved to it)
+    if (threadId != null) {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Authentication required to save to a thread.");
+      }
+      if (!isThreadId(threadId)) {
+        throw new HttpsError("invalid-argument", "threadId must be a chat thread ID.");
+      }
+      if (!(await threadExists(uid, threadId))) {
+        throw new HttpsError("not-found", "Chat thread not found.");
+      }
     }
 
     // Check rate limit
@@ -1785,18 +4067,20 @@ export const answerQuestionRag = onCall<AnswerQuestionRagData>(
       uid,
       questionLength: question.length,
       scope,
+      dateFrom: request.data.dateFrom ?? null,
+      dateTo: request.data.dateTo ?? null,
       category,
       sourceCount: sourceIds?.length ?? "all",
+      entities: request.data.entities ?? [],
+      geo: request.data.geo ?? [],
+      topics: request.data.topics ?? [],
+      bookmarksOnly: request.data.bookmarksOnly ?? false,
       historyLength: history?.length ?? 0,
+      threadId: threadId ?? null,
     });
 
     try {
-      // Build scope object
-      const ragScope: RagScope = {
-        timeWindow: scope,
-        category: category || "all",
-        sourceIds: sourceIds || null,
-      };
+      const ragScope = await buildRagScope(request.data, uid);
 
       // Sanitize history — truncate individual messages to prevent token abuse
       const MAX_HISTORY_MSG_LENGTH = 4000;
@@ -1819,6 +4103,10 @@ export const answerQuestionRag = onCall<AnswerQuestionRagData>(
       // Generate answer with userId for caching
       const answer = await answerQuestion(question, ragScope, chatHistory, uid);
 
+      if (threadId) {
+        await saveThreadExchange(uid, threadId, question, answer);
+      }
+
       console.log("[answerQuestionRag] Success", {
         answerLength: answer.answerMarkdown.length,
         citationCount: answer.citations.length,
@@ -1857,13 +4145,25 @@ export const answerQuestionRag = onCall<AnswerQuestionRagData>(
  * 3. Streams OpenAI response tokens as SSE events
  * 4. Sends a final "done" event with citations, takeaways, and followUps
  *
+ * With a threadId, the question and answer are also written to
+ * users/{uid}/chatThreads/{threadId}/messages as the answer streams (see
+ * lib/chat), so the thread holds the full answer even if the client
+ * disconnects before the "done" event.
+ *
  * Client sends POST with JSON body:
  * {
  *   question: string,
- *   scope: "today" | "7d" | "30d",
+ *   scope: "today" | "7d" | "30d" | "90d" | "1y" | "custom",
+ *   dateFrom?: string | null,
+ *   dateTo?: string | null,
  *   category: string,
  *   sourceIds: string[] | null,
- *   history: Array<{ role: "user" | "assistant"; content: string }>
+ *   entities?: string[] | null,
+ *   geo?: string[] | null,
+ *   topics?: string[] | null,
+ *   bookmarksOnly?: boolean,
+ *   history: Array<{ role: "user" | "assistant"; content: string }>,
+ *   threadId?: string | null
  * }
  *
  * SSE events:
@@ -1901,12 +4201,14 @@ export const answerQuestionRagStream = onRequest(
     // Verify Firebase Auth token (optional for Capacitor guest mode)
     const authHeader = req.headers.authorization;
     let uid: string;
+    let authenticated = false;
 
     if (authHeader?.startsWith("Bearer ")) {
       const token = authHeader.substring(7);
       try {
         const decodedToken = await getAuth().verifyIdToken(token);
         uid = decodedToken.uid;
+        authenticated = true;
       } catch (error) {
         console.error("[answerQuestionRagStream] Token verification failed:", error);
         res.status(401).json({ error: "Invalid authentication token" });
@@ -1921,7 +4223,8 @@ export const answerQuestionRagStream = onRequest(
     }
 
     // Parse request body
-    const { question, scope, category, sourceIds, history } = req.body || {};
+    const body = req.body || {};
+    const { question, scope, category, sourceIds, history, threadId } = body;
 
     // Validate input
     if (typeof question !== "string" || question.trim() === "") {
@@ -1934,16 +4237,32 @@ export const answerQuestionRagStream = onRequest(
       return;
     }
 
-    if (!["today", "7d", "30d"].includes(scope)) {
-      res.status(400).json({ error: "scope must be 'today', '7d', or '30d'" });
+    const scopeError = ragScopeRequestError(body);
+    if (scopeError) {
+      res.status(400).json({ error: scopeError });
       return;
     }
 
-    if (sourceIds && (!Array.isArray(sourceIds) || sourceIds.length > 10)) {
-      res.status(400).json({ error: "sourceIds must be an array of at most 10 source IDs." });
+    if (body.bookmarksOnly && !authenticated) {
+      res.status(401).json({ error: "Authentication required to search bookmarks" });
       return;
     }
 
+    if (threadId != null) {
+      if (!authenticated) {
+        res.status(401).json({ error: "Authentication required to save to a thread" });
+        return;
+      }
+      if (!isThreadId(threadId)) {
+        res.status(400).json({ error: "threadId must be a chat thread ID" });
+        return;
+      }
+      if (!(await threadExists(uid, threadId))) {
+        res.status(404).json({ error: "Chat thread not found" });
+        return;
+      }
+    }
+
     // Check rate limit
     const rateLimit = await checkRateLimit(uid, "answerRag");
     if (!rateLimit.isAllowed) {
@@ -1957,18 +4276,22 @@ export const answerQuestionRagStream = onRequest(
       uid,
       questionLength: question.length,
       scope,
+      dateFrom: body.dateFrom ?? null,
+      dateTo: body.dateTo ?? null,
       category,
       sourceCount: sourceIds?.length ?? "all",
+      entities: body.entities ?? [],
+      geo: body.geo ?? [],
+      topics: body.topics ?? [],
+      bookmarksOnly: body.bookmarksOnly ?? false,
       historyLength: history?.length ?? 0,
+      threadId: threadId ?? null,
     });
 
+    let reply: ThreadReply | null = null;
+
     try {
-      // Build scope object
-      const ragScope: RagScope = {
-        timeWindow: scope,
-        category: category || "all",
-        sourceIds: sourceIds || null,
-      };
+      const ragScope = await buildRagScope(body, uid);
 
       // Sanitize history — truncate individual messages to prevent token abuse
       const MAX_STREAM_HISTORY_MSG_LENGTH = 4000;
@@ -2014,6 +4337,9 @@ export const answerQuestionRagStream = onRequest(
             answerMarkdown: response.answerMarkdown,
             refused: retrieval.refused || false,
           })}\n\n`);
+          if (threadId) {
+            await saveThreadExchange(uid, threadId, question, response);
+          }
         }
         console.log("[answerQuestionRagStream] Refused/NoResults", {
           refused: retrieval.refused,
@@ -2023,8 +4349,19 @@ export const answerQuestionRagStream = onRequest(
         return;
       }
 
-      // Stream the answer
-      await streamRagAnswer(res, question, retrieval.context, chatHistory);
+      // Stream the answer (into the thread as well, when given)
+      if (threadId) {
+        reply = await startThreadReply(uid, threadId, question);
+      }
+      const answer = await streamRagAnswer(
+        res,
+        question,
+        retrieval.context,
+        chatHistory,
+        uid,
+        reply?.append
+      );
+      await reply?.complete(answer);
 
       console.log("[answerQuestionRagStream] Success", {
         contextArticles: retrieval.context.length,
@@ -2035,6 +4372,7 @@ export const answerQuestionRagStream = onRequest(
         error: error instanceof Error ? error.message : "Unknown error",
         stack: error instanceof Error ? error.stack : undefined,
       });
+      await reply?.fail();
 
       // If headers haven't been sent yet, send error as JSON
       if (!res.headersSent) {
@@ -2217,7 +4555,10 @@ export const getPulseSignals = onCall<GetPulseSignalsData>(
 
     let narrative = "";
 
-    if (allTopSignals.length > 0) {
+    // Past the daily AI ceiling, signals go out without insights and uncached
+    const budget = allTopSignals.length > 0 ? await checkAiBudget("pulseSignals") : null;
+
+    if (budget?.isAllowed) {
       try {
         // Build compact context from recent briefs (executiveSummary + topics only)
         const recentDates = dateRange(dateKey, Math.min(windowDays, 7));
@@ -2255,16 +4596,11 @@ export const getPulseSignals = onCall<GetPulseSignalsData>(
         if (fallingStr) topicPromptParts += `FALLING: ${fallingStr}\n`;
         if (persistentStr) topicPromptParts += `PERSISTENT: ${persistentStr}\n`;
 
-        const openai = getOpenAIClient();
         const aiResponse = await withRetry(
           () =>
-            openai.responses.create({
-              model: AI_MODEL,
-              max_output_tokens: 2000,
-              input: [
-                {
-                  role: "system",
-                  content: `You are a senior P&C insurance market analyst producing a signal intelligence report for CROs and VP-level underwriting leadership.
+            getLlmProvider().completeJson({
+              task: "pulseSignals",
+              system: `You are a senior P&C insurance market analyst producing a signal intelligence report for CROs and VP-level underwriting leadership.
 
 Rules:
 - "narrative": 2-3 sentences, executive tone. Reference the most significant market shifts by name. No preamble like "This week...".
@@ -2274,25 +4610,15 @@ Rules:
   - "severity": critical (immediate pricing/portfolio action needed), high (significant shift, active monitoring required), medium (notable, track it), low (emerging, worth noting).
 - Match each topic name EXACTLY as provided.
 - Use standard P&C terminology: combined ratio, loss development, rate adequacy, CAT loading, etc.`,
-                },
-                {
-                  role: "user",
-                  content: `Recent daily brief context (${windowDays}D window):\n${contextStr}\n\nSignal topics to analyze:\n${topicPromptParts}\nProvide the narrative and insights.`,
-                },
-              ],
-              text: {
-                format: {
-                  type: "json_schema",
-                  name: "signal_insights",
-                  schema: SIGNAL_INSIGHTS_SCHEMA,
-                  strict: true,
-                },
-              },
+              user: `Recent daily brief context (${windowDays}D window):\n${contextStr}\n\nSignal topics to analyze:\n${topicPromptParts}\nProvide the narrative and insights.`,
+              schemaName: "signal_insights",
+              schema: SIGNAL_INSIGHTS_SCHEMA,
+              maxOutputTokens: 2000,
             }),
           { maxRetries: 2, baseDelayMs: 1000, label: "getPulseSignals/AI" }
         );
 
-        const parsed: SignalInsightsResponse = JSON.parse(aiResponse.output_text);
+        const parsed: SignalInsightsResponse = JSON.parse(aiResponse.outputText);
 
         // Store narrative
         narrative = parsed.narrative || "";
@@ -2342,6 +4668,10 @@ Rules:
       meta: signals.meta,
     };
 
+    if (budget && !budget.isAllowed) {
+      return { cached: false, ...responsePayload };
+    }
+
     try {
       await cacheRef.set({
         ...responsePayload,
@@ -2444,15 +4774,6 @@ const PULSE_NARRATIVE_SCHEMA = {
   additionalProperties: false,
 };
 
-const PULSE_NARRATIVE_SYSTEM = `You are a senior P&C insurance market analyst producing a structured signal intelligence brief for CROs and VP-level underwriting leadership.
-
-Rules:
-- "headline": 1 sentence, ≤120 characters. Name the most significant market shift. No date preamble ("This week…").
-- "bullets": 3–5 items. Each MUST cite a concrete driver — a specific carrier, event, ruling, loss figure, or regulatory action. Never say "various factors", "ongoing trends", or "market dynamics". Use P&C terminology: combined ratio, loss development, rate adequacy, CAT loading, attachment point, etc.
-- "themes": 2–4 short labels (2–4 words each). These are the overarching patterns, not individual topics.
-- "drivers": 3–6 references to real articles or reports that support your bullets. Use the source names and titles from the context provided. Only cite sources that appear in the input.
-- Keep total output under 600 tokens.`;
-
 /** Response shape from OpenAI structured output */
 interface PulseNarrativeAIResponse {
   headline: string;
@@ -2530,33 +4851,23 @@ async function generatePulseNarrative(
     for (const s of b.sources) allSourceNames.add(s);
   }
 
+  const systemPrompt = activePrompt("pulseNarrative");
+
   try {
-    const openai = getOpenAIClient();
     const aiResponse = await withRetry(
       () =>
-        openai.responses.create({
-          model: AI_MODEL,
-          max_output_tokens: 800,
-          input: [
-            { role: "system", content: PULSE_NARRATIVE_SYSTEM },
-            {
-              role: "user",
-              content: `Window: ${windowDays}D ending ${dateKey}\n\nRecent brief context:\n${contextStr}\n\nPulse signals:\n${signalBlock}\nGenerate the structured narrative.`,
-            },
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "pulse_narrative",
-              schema: PULSE_NARRATIVE_SCHEMA,
-              strict: true,
-            },
-          },
+        getLlmProvider().completeJson({
+          task: "pulseNarrative",
+          system: systemPrompt.system,
+          user: `Window: ${windowDays}D ending ${dateKey}\n\nRecent brief context:\n${contextStr}\n\nPulse signals:\n${signalBlock}\nGenerate the structured narrative.`,
+          schemaName: "pulse_narrative",
+          schema: PULSE_NARRATIVE_SCHEMA,
+          maxOutputTokens: 800,
         }),
       { maxRetries: 2, baseDelayMs: 1000, label: `${label}/narrative` }
     );
 
-    const parsed: PulseNarrativeAIResponse = JSON.parse(aiResponse.output_text);
+    const parsed: PulseNarrativeAIResponse = JSON.parse(aiResponse.outputText);
 
     const narrative: PulseNarrativeDoc = {
       headline: parsed.headline,
@@ -2568,6 +4879,7 @@ async function generatePulseNarrative(
         url: d.url || "",
       })),
       sourcesUsed: allSourceNames.size,
+      promptVersion: promptTag(systemPrompt),
     };
 
     console.log(
@@ -2711,6 +5023,7 @@ async function generatePulseSnapshotForWindow(
     daysPresent: t.daysPresent,
     uniqueSources: t.uniqueSources,
     trendSeries: t.trendSeries,
+    entityKeys: t.entityKeys,
   });
 
   // ---- Build snapshot doc (without narrative first for the AI call) ----
@@ -2838,6 +5151,29 @@ export const runDailyPulseSnapshots = onSchedule(
 
 interface GetPulseSnapshotData {
   windowDays?: number;
+  entity?: string; // Only topics referring to this entity key
+  entityType?: EntityType; // Only topics referring to an entity of this type
+}
+
+const VALID_ENTITY_TYPES: EntityType[] = ["company", "regulator", "state", "country", "peril", "line"];
+
+/**
+ * Narrow pulse topic lists to an entity or entity type.
+ * Topics from snapshots written before entity tagging are tagged on the fly.
+ */
+function filterPulseTopicsByEntity<T extends PulseSnapshotDoc["rising"][number]>(
+  topics: T[],
+  filter: { entity?: string; entityType?: EntityType }
+): T[] {
+  const tagged = topics.map((t) => ({ ...t, entityKeys: t.entityKeys ?? topicEntityKeys(t) }));
+  if (filter.entity) {
+    return tagged.filter((t) => t.entityKeys.includes(filter.entity!));
+  }
+  if (filter.entityType) {
+    const prefix = `${filter.entityType}:`;
+    return tagged.filter((t) => t.entityKeys.some((k) => k.startsWith(prefix)));
+  }
+  return tagged;
 }
 
 /**
@@ -2860,12 +5196,24 @@ export const getPulseSnapshot = onCall<GetPulseSnapshotData>(
   },
   async (request) => {
     const startMs = Date.now();
-    const { windowDays: rawWindow } = request.data || {};
+    const { windowDays: rawWindow, entity, entityType } = request.data || {};
 
     // Validate & default windowDays
     const windowDays = Math.max(1, Math.min(Number(rawWindow) || 7, 30));
 
-    console.log(`[getPulseSnapshot] windowDays=${windowDays}`);
+    // Validate entity filters
+    if (entity !== undefined && entity !== null && (typeof entity !== "string" || !resolveEntityKey(entity))) {
+      throw new HttpsError("invalid-argument", `Unknown entity key: "${entity}"`);
+    }
+    if (entityType !== undefined && entityType !== null && !VALID_ENTITY_TYPES.includes(entityType)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `entityType must be one of: ${VALID_ENTITY_TYPES.join(", ")}. Received: "${entityType}"`
+      );
+    }
+    const entityFilter = { entity: entity ?? undefined, entityType: entityType ?? undefined };
+
+    console.log(`[getPulseSnapshot] windowDays=${windowDays}`, entity || entityType ? entityFilter : "");
 
     // ---- Check for a recent cached snapshot (single Firestore read) ----
     const snapshotDocId = String(windowDays);
@@ -2901,9 +5249,9 @@ export const getPulseSnapshot = onCall<GetPulseSnapshotData>(
             existing.generatedAt?.toDate?.()?.toISOString() ??
             new Date().toISOString(),
           totalTopics: existing.totalTopics,
-          rising: existing.rising,
-          falling: existing.falling,
-          stable: existing.stable,
+          rising: filterPulseTopicsByEntity(existing.rising, entityFilter),
+          falling: filterPulseTopicsByEntity(existing.falling, entityFilter),
+          stable: filterPulseTopicsByEntity(existing.stable, entityFilter),
           narrative: existing.narrative || null,
         };
       }
@@ -2931,7 +5279,12 @@ export const getPulseSnapshot = onCall<GetPulseSnapshotData>(
         "[getPulseSnapshot] Computed fresh snapshot",
         JSON.stringify({ windowDays, dateKey, totalMs: Date.now() - startMs })
       );
-      return result;
+      return {
+        ...result,
+        rising: filterPulseTopicsByEntity(result.rising, entityFilter),
+        falling: filterPulseTopicsByEntity(result.falling, entityFilter),
+        stable: filterPulseTopicsByEntity(result.stable, entityFilter),
+      };
     } catch (error) {
       console.error(
         "[getPulseSnapshot] Computation failed:",
@@ -3358,6 +5711,122 @@ export const getWatchlistTopics = onCall<GetWatchlistTopicsData>(
   }
 );
 
+// ============================================================================
+// Exports
+// ============================================================================
+
+interface ExportContentData {
+  source: "brief" | "bookmarks";
+  format: string;
+  /** Brief date (yyyy-mm-dd); defaults to today ET */
+  date?: string;
+  /** Brief: export the caller's "My Brief" when there is one */
+  personal?: boolean;
+}
+
+/**
+ * Render the daily brief or the caller's bookmarks as a downloadable file.
+ * Returns the filename, MIME type and base64 body so every platform saves
+ * byte-identical output.
+ */
+export const exportContent = onCall<ExportContentData>(
+  {
+    memory: "512MiB",
+    timeoutSeconds: 60,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication required.");
+    }
+
+    const { source, format, date, personal } = request.data || {};
+    if (!isExportFormat(format)) {
+      throw new HttpsError("invalid-argument", `format must be one of: ${EXPORT_FORMATS.join(", ")}.`);
+    }
+
+    try {
+      if (source === "brief") {
+        if (date && !DATE_REGEX.test(date)) {
+          throw new HttpsError("invalid-argument", "date must be in yyyy-mm-dd format.");
+        }
+        const dateKey = date || getTodayDateET();
+        const file = await exportBrief(dateKey, format, personal === true ? request.auth.uid : undefined);
+        if (!file) {
+          throw new HttpsError("not-found", `No brief for ${dateKey}.`);
+        }
+        console.log(`[exportContent] brief ${dateKey} as ${format} (${file.body.length} bytes)`);
+        return { filename: file.filename, mimeType: file.mimeType, data: file.body.toString("base64") };
+      }
+
+      if (source === "bookmarks") {
+        const file = await exportBookmarks(request.auth.uid, format, getTodayDateET());
+        if (!file) {
+          throw new HttpsError("not-found", "No saved articles to export.");
+        }
+        console.log(`[exportContent] bookmarks as ${format} (${file.body.length} bytes)`);
+        return { filename: file.filename, mimeType: file.mimeType, data: file.body.toString("base64") };
+      }
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      console.error("[exportContent] Error:", error instanceof Error ? error.message : error);
+      throw new HttpsError("internal", "Failed to export.");
+    }
+
+    throw new HttpsError("invalid-argument", "source must be one of: brief, bookmarks");
+  }
+);
+
+// ============================================================================
+// Email Unsubscribe
+// ============================================================================
+
+/**
+ * Unsubscribe link in brief and digest emails.
+ * Query: token (the recipient's unsubscribe token), list (dailyBriefEmail
+ * or weeklyDigestEmail).
+ *
+ * GET shows a confirmation page; POST (the page's button, or a mail
+ * client's one-click List-Unsubscribe-Post) turns the list off.
+ */
+export const unsubscribeEmail = onRequest(
+  {
+    memory: "256MiB",
+    timeoutSeconds: 30,
+  },
+  async (req, res) => {
+    if (req.method !== "GET" && req.method !== "POST") {
+      res.status(405).send("Method not allowed");
+      return;
+    }
+
+    const token = req.query.token;
+    const list = req.query.list;
+    res.set("Cache-Control", "no-store");
+
+    if (typeof token !== "string" || !isEmailPreference(list)) {
+      res.status(400).type("html").send(renderUnsubscribePage("invalid", null));
+      return;
+    }
+
+    if (req.method === "GET") {
+      res.type("html").send(renderUnsubscribePage("confirm", list, buildUnsubscribeUrl("", token, list)));
+      return;
+    }
+
+    try {
+      const unsubscribed = await unsubscribeByToken(token, list);
+      console.log(`[unsubscribeEmail] ${list}: ${unsubscribed ? "unsubscribed" : "token not recognized"}`);
+      res
+        .status(unsubscribed ? 200 : 404)
+        .type("html")
+        .send(renderUnsubscribePage(unsubscribed ? "done" : "invalid", list));
+    } catch (error) {
+      console.error("[unsubscribeEmail] Error:", error instanceof Error ? error.message : error);
+      res.status(500).send("Something went wrong. Please try again.");
+    }
+  }
+);
+
 // ============================================================================
 // Account Deletion (App Store Guideline 5.1.1(v))
 // ============================================================================
@@ -3374,6 +5843,8 @@ export const getWatchlistTopics = onCall<GetWatchlistTopicsData>(
  *    - users/{uid}/chatThreads/* and subcollection messages
  *    - users/{uid}/rateLimits/*
  *    - users/{uid}/watchlist/*
+ *    - users/{uid}/notificationState/*
+ *    - users/{uid}/briefs/*
  *    - users/{uid} document itself
  * 3. Deletes the user from Firebase Auth
  *
@@ -3453,7 +5924,16 @@ export const deleteAccount = onCall(
 
     try {
       // Delete all user subcollections in parallel for speed
-      const [prefsResult, bookmarksResult, pushTokensResult, chatThreadsResult, rateLimitsResult, watchlistResult] =
+      const [
+        prefsResult,
+        bookmarksResult,
+        pushTokensResult,
+        chatThreadsResult,
+        rateLimitsResult,
+        watchlistResult,
+        notificationStateResult,
+        briefsResult,
+      ] =
         await Promise.all([
           deleteCollectionBatched(`users/${uid}/prefs`),
           deleteCollectionBatched(`users/${uid}/bookmarks`),
@@ -3461,6 +5941,8 @@ export const deleteAccount = onCall(
           deleteCollectionBatched(`users/${uid}/chatThreads`, ["messages"]),
           deleteCollectionBatched(`users/${uid}/rateLimits`),
           deleteCollectionBatched(`users/${uid}/watchlist`),
+          deleteCollectionBatched(`users/${uid}/notificationState`),
+          deleteCollectionBatched(`users/${uid}/briefs`),
         ]);
 
       deletionResults["prefs"] = prefsResult;
@@ -3469,6 +5951,8 @@ export const deleteAccount = onCall(
       deletionResults["chatThreads"] = chatThreadsResult;
       deletionResults["rateLimits"] = rateLimitsResult;
       deletionResults["watchlist"] = watchlistResult;
+      deletionResults["notificationState"] = notificationStateResult;
+      deletionResults["briefs"] = briefsResult;
 
       // Delete user profile document
       try {
@@ -3958,6 +6442,11 @@ export const getEarningsAIInsights = onCall<{ ticker: string; periodKey: string
       return cached;
     }
 
+    const budget = await checkAiBudget("earningsInsights");
+    if (!budget.isAllowed) {
+      throw new HttpsError("resource-exhausted", "AI insights are paused for today. Please try again tomorrow.");
+    }
+
     console.log(`[getEarningsAIInsights] Generating for ${sym}:${periodKey}`);
 
     // Use cached data from prior bundle calls (don't re-fetch from AV)
@@ -4002,22 +6491,19 @@ export const getEarningsAIInsights = onCall<{ ticker: string; periodKey: string
     }
 
     try {
-      const openai = getOpenAIClient();
       const response = await withRetry(
-        () => openai.responses.create({
-          model: AI_MODEL,
-          input: [
-            { role: "system", content: EARNINGS_AI_SYSTEM },
-            { role: "user", content: `Analyze ${sym} for period ${periodKey}:\n\n${contextParts.join("\n")}\n\nProvide structured earnings insights.` },
-          ],
-          text: {
-            format: { type: "json_schema", name: "earnings_insights", schema: EARNINGS_AI_SCHEMA, strict: true },
-          },
+        () => getLlmProvider().completeJson({
+          task: "earningsInsights",
+          uid: request.auth?.uid ?? null,
+          system: EARNINGS_AI_SYSTEM,
+          user: `Analyze ${sym} for period ${periodKey}:\n\n${contextParts.join("\n")}\n\nProvide structured earnings insights.`,
+          schemaName: "earnings_insights",
+          schema: EARNINGS_AI_SCHEMA,
         }),
         { maxRetries: 2, label: "AI Insights" }
       );
 
-      const parsed = JSON.parse(response.output_text) as Omit<EarningsAIInsights, "generatedAt" | "periodKey">;
+      const parsed = JSON.parse(response.outputText) as Omit<EarningsAIInsights, "generatedAt" | "periodKey">;
       if (sourceUrls.length > 0 && (!parsed.sources || parsed.sources.length === 0)) {
         parsed.sources = sourceUrls;
       }
@@ -4085,6 +6571,11 @@ export const getFilingRemarks = onCall<{ ticker: string; accessionNumber: string
       return cached;
     }
 
+    const budget = await checkAiBudget("filingRemarks");
+    if (!budget.isAllowed) {
+      throw new HttpsError("resource-exhausted", "Filing highlights are paused for today. Please try again tomorrow.");
+    }
+
     const excerptCacheKey = `filing-excerpt:${sym}:${accessionNumber}`;
     const excerpt = await getOrFetch(excerptCacheKey, CACHE_TTL.filingExcerpt, () =>
       getFilingDocumentText(sym, accessionNumber, 25000)
@@ -4099,19 +6590,16 @@ export const getFilingRemarks = onCall<{ ticker: string; accessionNumber: string
     const sourceUrl = filing?.url ?? "";
 
     try {
-      const openai = getOpenAIClient();
-      const response = await openai.responses.create({
-        model: AI_MODEL,
-        input: [
-          { role: "system", content: FILING_REMARKS_SYSTEM },
-          { role: "user", content: `Extract highlights from this SEC filing for ${sym} (period: ${periodKey}).\n\nFiling URL: ${sourceUrl}\n\n--- FILING TEXT ---\n${excerpt}\n--- END ---` },
-        ],
-        text: {
-          format: { type: "json_schema", name: "filing_remarks", schema: FILING_REMARKS_SCHEMA, strict: true },
-        },
+      const response = await getLlmProvider().completeJson({
+        task: "filingRemarks",
+        uid: request.auth?.uid ?? null,
+        system: FILING_REMARKS_SYSTEM,
+        user: `Extract highlights from this SEC filing for ${sym} (period: ${periodKey}).\n\nFiling URL: ${sourceUrl}\n\n--- FILING TEXT ---\n${excerpt}\n--- END ---`,
+        schemaName: "filing_remarks",
+        schema: FILING_REMARKS_SCHEMA,
       });
 
-      const parsed = JSON.parse(response.output_text) as Omit<FilingRemarks, "generatedAt">;
+      const parsed = JSON.parse(response.outputText) as Omit<FilingRemarks, "generatedAt">;
       if (sourceUrl && (!parsed.sources || parsed.sources.length === 0)) {
         parsed.sources = [{ label: filing?.form ?? "Filing", url: sourceUrl }];
       }
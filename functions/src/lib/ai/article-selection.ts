@@ -5,6 +5,7 @@
  * 1. Relevance score (higher = more relevant to P&C)
  * 2. Category diversity (ensure coverage across P&C topics, avoid market over-weighting)
  * 3. Source diversity (avoid over-representation from one source)
+ * 4. Story uniqueness (optionally one slot per cross-source story cluster)
  *
  * Also provides logging/metrics for debugging relevance drift.
  */
@@ -48,6 +49,10 @@ interface ArticleWithMeta {
   snippet: string;
   relevanceScore: number;
   categories: SourceCategory[];
+  /** Story cluster ID (null if unclustered) */
+  clusterId: string | null;
+  /** Other sources covering the same story (populated when collapsing clusters) */
+  alsoCoveredBy: string[];
 }
 
 /**
@@ -58,6 +63,7 @@ export interface SelectionMetrics {
   filteredByScore: number;
   filteredByCategory: number;
   filteredBySource: number;
+  filteredByCluster: number;
   selectedCount: number;
   categoryDistribution: Record<string, number>;
   sourceDistribution: Record<string, number>;
@@ -68,6 +74,7 @@ export interface SelectionMetrics {
     minScore: number;
     maxPerSource: number;
     maxTotal: number;
+    collapseClusters: boolean;
   };
 }
 
@@ -95,13 +102,19 @@ function wouldExceedCategoryCap(
  * Select and prioritize articles for daily brief generation.
  *
  * Applies relevance gate and ensures diversity across categories and sources.
+ * With `collapseClusters`, only the highest-scoring article of each story
+ * cluster is kept and the other covering sources are listed on it.
  *
  * @param rawArticles - Articles fetched from Firestore
+ * @param options - Selection options
  * @returns Selected articles for brief generation and metrics for logging
  */
 export function selectArticlesForBrief(
-  rawArticles: Article[]
+  rawArticles: Article[],
+  options?: { collapseClusters?: boolean }
 ): { articles: ArticleWithMeta[]; metrics: SelectionMetrics } {
+  const collapseClusters = options?.collapseClusters ?? false;
+
   // Convert to selection format
   const candidates: ArticleWithMeta[] = rawArticles.map((a) => ({
     id: a.id,
@@ -111,6 +124,8 @@ export function selectArticlesForBrief(
     snippet: a.snippet,
     relevanceScore: a.relevanceScore,
     categories: a.categories,
+    clusterId: a.clusterId ?? null,
+    alsoCoveredBy: [],
   }));
 
   const totalCandidates = candidates.length;
@@ -130,10 +145,27 @@ export function selectArticlesForBrief(
   const sourceCount: Record<string, number> = {};
   let filteredByCategory = 0;
   let filteredBySource = 0;
+  let filteredByCluster = 0;
+  const selectedByCluster = new Map<string, ArticleWithMeta>();
 
   for (const article of highRelevance) {
     if (selected.length >= MAX_TOTAL_ARTICLES) break;
 
+    // Check story cluster (one slot per story; record the extra coverage)
+    const clusterLead = collapseClusters && article.clusterId
+      ? selectedByCluster.get(article.clusterId)
+      : undefined;
+    if (clusterLead) {
+      if (
+        article.sourceId !== clusterLead.sourceId &&
+        !clusterLead.alsoCoveredBy.includes(article.sourceName)
+      ) {
+        clusterLead.alsoCoveredBy.push(article.sourceName);
+      }
+      filteredByCluster++;
+      continue;
+    }
+
     // Check source limit
     const srcCount = sourceCount[article.sourceId] || 0;
     if (srcCount >= MAX_PER_SOURCE) {
@@ -150,6 +182,9 @@ export function selectArticlesForBrief(
     // Add article
     selected.push(article);
     sourceCount[article.sourceId] = srcCount + 1;
+    if (collapseClusters && article.clusterId) {
+      selectedByCluster.set(article.clusterId, article);
+    }
 
     // Track category distribution (primary category only for caps)
     const primary = getPrimaryCategory(article.categories);
@@ -167,6 +202,7 @@ export function selectArticlesForBrief(
     filteredByScore,
     filteredByCategory,
     filteredBySource,
+    filteredByCluster,
     selectedCount: selected.length,
     categoryDistribution: categoryCount,
     sourceDistribution: sourceCount,
@@ -177,6 +213,7 @@ export function selectArticlesForBrief(
       minScore: MIN_BRIEF_RELEVANCE_SCORE,
       maxPerSource: MAX_PER_SOURCE,
       maxTotal: MAX_TOTAL_ARTICLES,
+      collapseClusters,
     },
   };
 
@@ -188,8 +225,8 @@ export function selectArticlesForBrief(
  */
 export function logSelectionMetrics(prefix: string, metrics: SelectionMetrics): void {
   console.log(`[${prefix}] Article selection metrics:`);
-  console.log(`  Config: minScore=${metrics.configUsed.minScore}, maxPerSource=${metrics.configUsed.maxPerSource}, maxTotal=${metrics.configUsed.maxTotal}`);
-  console.log(`  Pipeline: ${metrics.totalCandidates} candidates → ${metrics.filteredByScore} filtered (score) → ${metrics.filteredByCategory} filtered (category cap) → ${metrics.filteredBySource} filtered (source cap) → ${metrics.selectedCount} selected`);
+  console.log(`  Config: minScore=${metrics.configUsed.minScore}, maxPerSource=${metrics.configUsed.maxPerSource}, maxTotal=${metrics.configUsed.maxTotal}, collapseClusters=${metrics.configUsed.collapseClusters}`);
+  console.log(`  Pipeline: ${metrics.totalCandidates} candidates → ${metrics.filteredByScore} filtered (score) → ${metrics.filteredByCategory} filtered (category cap) → ${metrics.filteredBySource} filtered (source cap) → ${metrics.filteredByCluster} folded (story cluster) → ${metrics.selectedCount} selected`);
   console.log(`  Relevance: avg=${metrics.avgRelevanceScore}, min=${metrics.minRelevanceScore}, max=${metrics.maxRelevanceScore}`);
   console.log(`  Categories: ${JSON.stringify(metrics.categoryDistribution)}`);
   console.log(`  Sources: ${JSON.stringify(metrics.sourceDistribution)}`);
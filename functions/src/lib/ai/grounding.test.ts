@@ -0,0 +1,179 @@
+/**
+ * Unit tests for brief grounding verification
+ *
+ * Run: npx tsx --test functions/src/lib/ai/grounding.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DailyBriefResponse } from "./openai-client.js";
+import {
+  applyGroundingRepairs,
+  dropUnsupportedClaims,
+  extractNumericClaims,
+  removeUnknownReferences,
+  verifyBriefGrounding,
+  type GroundingSource,
+} from "./grounding.js";
+
+const SOURCES: GroundingSource[] = [
+  {
+    id: "aaaaaaaaaaaa1111",
+    title: "Allstate posts 95.2% combined ratio",
+    snippet: "Catastrophe losses of $1.23bn weighed on the quarter.",
+    tldr: null,
+  },
+  {
+    id: "bbbbbbbbbbbb2222",
+    title: "Florida OIR approves rate cuts",
+    snippet: "Average homeowners rates fall 8.4 percent across 250,000 policies.",
+    tldr: "Regulator approves reductions for 2026.",
+  },
+];
+
+function emptySection() {
+  return { bullets: [] as string[], articleIds: [] as string[] };
+}
+
+function brief(overrides: Partial<DailyBriefResponse> = {}): DailyBriefResponse {
+  return {
+    executiveSummary: ["Allstate posts 95.2% combined ratio — Cat losses of $1.2 billion."],
+    topStories: [
+      { articleId: "aaaaaaaaaaaa1111", headline: "Allstate margin holds", whyItMatters: "95.2% combined ratio." },
+    ],
+    sections: {
+      propertyCat: emptySection(),
+      casualtyLiability: emptySection(),
+      regulation: {
+        bullets: ["Florida rates fall 8% on 250K policies [bbbbbbbbbbbb2222]"],
+        articleIds: ["bbbbbbbbbbbb2222"],
+      },
+      claims: emptySection(),
+      reinsurance: emptySection(),
+      insurtech: emptySection(),
+      market: emptySection(),
+    },
+    topics: [],
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// extractNumericClaims
+// ============================================================================
+
+describe("extractNumericClaims", () => {
+  it("scales units and skips counts, years and quarters", () => {
+    const claims = extractNumericClaims("Q4 2026: 3 carriers lost $1.2 billion, 8% and 250K policies, $5m");
+    assert.deepEqual(
+      claims.map((c) => [c.value, c.percent]),
+      [[1.2e9, false], [8, true], [250_000, false], [5e6, false]]
+    );
+  });
+});
+
+// ============================================================================
+// verifyBriefGrounding
+// ============================================================================
+
+describe("verifyBriefGrounding", () => {
+  it("accepts rounded numbers and implied entities from the cited articles", () => {
+    assert.deepEqual(verifyBriefGrounding(brief(), SOURCES), []);
+  });
+
+  it("flags unknown article IDs in top stories, sections and inline citations", () => {
+    const issues = verifyBriefGrounding(
+      brief({
+        topStories: [{ articleId: "cccccccccccc3333", headline: "Made up", whyItMatters: "" }],
+        sections: {
+          ...brief().sections,
+          market: { bullets: ["Allstate margin [dddddddddddd4444]"], articleIds: ["eeeeeeeeeeee5555"] },
+        },
+      }),
+      SOURCES
+    );
+    assert.deepEqual(
+      issues.map((i) => [i.type, i.part, i.value]),
+      [
+        ["unknown_article", "topStories", "cccccccccccc3333"],
+        ["unknown_article", "market", "eeeeeeeeeeee5555"],
+        ["unknown_article", "market", "dddddddddddd4444"],
+      ]
+    );
+  });
+
+  it("checks claims only against the cited article", () => {
+    const issues = verifyBriefGrounding(
+      brief({
+        topStories: [
+          {
+            articleId: "aaaaaaaaaaaa1111",
+            headline: "Allstate exits Florida",
+            whyItMatters: "Travelers takes 12% share.",
+          },
+        ],
+      }),
+      SOURCES
+    );
+    assert.deepEqual(
+      issues.map((i) => [i.type, i.value]),
+      [
+        ["unsupported_number", "12%"],
+        ["unsupported_entity", "Florida"],
+        ["unsupported_entity", "Travelers"],
+      ]
+    );
+  });
+});
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+describe("repair", () => {
+  const sourceIds = new Set(SOURCES.map((s) => s.id));
+
+  it("strips unknown references without touching valid ones", () => {
+    const repaired = removeUnknownReferences(
+      brief({
+        sections: {
+          ...brief().sections,
+          regulation: {
+            bullets: ["Rates fall [bbbbbbbbbbbb2222] [zzzzzzzzzzzz9999]"],
+            articleIds: ["bbbbbbbbbbbb2222", "zzzzzzzzzzzz9999"],
+          },
+        },
+      }),
+      sourceIds
+    );
+    assert.deepEqual(repaired.sections.regulation, {
+      bullets: ["Rates fall [bbbbbbbbbbbb2222]"],
+      articleIds: ["bbbbbbbbbbbb2222"],
+    });
+  });
+
+  it("applies rewrites and ignores ones pointing at unselected articles", () => {
+    const { brief: repaired, regeneratedParts } = applyGroundingRepairs(
+      brief(),
+      [
+        { part: "topStories", index: 0, bullets: [], articleIds: ["zzzzzzzzzzzz9999"], headline: "New", whyItMatters: "Why" },
+        { part: "regulation", index: -1, bullets: ["Rewritten"], articleIds: ["bbbbbbbbbbbb2222", "zzzzzzzzzzzz9999"], headline: "", whyItMatters: "" },
+      ],
+      sourceIds
+    );
+    assert.deepEqual(regeneratedParts, ["topStories", "regulation"]);
+    assert.equal(repaired.topStories[0].articleId, "aaaaaaaaaaaa1111");
+    assert.equal(repaired.topStories[0].headline, "New");
+    assert.deepEqual(repaired.sections.regulation.articleIds, ["bbbbbbbbbbbb2222"]);
+  });
+
+  it("drops failing section bullets but keeps the last top story", () => {
+    const { brief: repaired, kept } = dropUnsupportedClaims(brief(), [
+      { type: "unsupported_number", part: "regulation", index: 0, value: "8%" },
+      { type: "unsupported_entity", part: "topStories", index: 0, value: "Travelers" },
+    ]);
+    assert.deepEqual(repaired.sections.regulation, { bullets: [], articleIds: [] });
+    assert.equal(repaired.topStories.length, 1);
+    assert.deepEqual(kept.map((i) => i.part), ["topStories"]);
+  });
+});
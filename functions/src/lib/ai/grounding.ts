@@ -0,0 +1,352 @@
+/**
+ * Brief Grounding Verification
+ *
+ * Checks a generated daily brief against the articles it was generated
+ * from: every top-story and section article ID must be one of the selected
+ * articles, and every number and named company, regulator, state or
+ * country in a claim must appear in the title, snippet or TL;DR of the
+ * articles that claim cites.
+ *
+ * What a claim cites:
+ *   top story          its articleId
+ *   section bullet     inline [articleId] citations, else the section's articleIds
+ *   executive summary  all selected articles (bullets carry no citations)
+ *
+ * Numbers match within half a unit of the claim's last digit at the same
+ * scale, so "$1.2 billion" is supported by "$1.23bn" and "8%" by "8.4 percent".
+ * Bare counts and years ("3 carriers", "2026") aren't checked.
+ */
+
+import type { BriefVerificationIssueType, EntityType } from "../../types/firestore.js";
+import { extractEntities } from "../entities/index.js";
+import type { DailyBriefResponse } from "./openai-client.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An article a brief was generated from */
+export interface GroundingSource {
+  id: string;
+  title: string;
+  snippet: string;
+  tldr?: string | null;
+}
+
+export type BriefSectionKey = keyof DailyBriefResponse["sections"];
+
+/** A verification finding (before any resolution) */
+export interface GroundingIssue {
+  type: BriefVerificationIssueType;
+  /** "executiveSummary", "topStories" or a section key */
+  part: string;
+  index: number;
+  value: string;
+}
+
+/** A numeric claim normalized to an absolute value */
+export interface NumericClaim {
+  raw: string;
+  value: number;
+  percent: boolean;
+  /** Half a unit of the last written digit, at the claim's scale */
+  tolerance: number;
+}
+
+/** A rewritten part from the repair pass */
+export interface GroundingRepair {
+  /** "executiveSummary", "topStories" or a section key */
+  part: string;
+  /** Top-story index (ignored for other parts) */
+  index: number;
+  bullets: string[];
+  articleIds: string[];
+  headline: string;
+  whyItMatters: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BRIEF_SECTION_KEYS: BriefSectionKey[] = [
+  "propertyCat",
+  "casualtyLiability",
+  "regulation",
+  "claims",
+  "reinsurance",
+  "insurtech",
+  "market",
+];
+
+/** Named entities a claim must not introduce (perils and lines are framing) */
+const CHECKED_ENTITY_TYPES: EntityType[] = ["company", "regulator", "state", "country"];
+
+const NUMBER_PATTERN =
+  /(?<![\p{L}\p{N}.,/])(\$)?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(%|percent\b|pct\b|billion\b|bn\b|million\b|mn\b|mm\b|thousand\b|k\b|b\b|m\b))?/giu;
+
+const UNIT_SCALES: Record<string, number> = {
+  billion: 1e9,
+  bn: 1e9,
+  b: 1e9,
+  million: 1e6,
+  mn: 1e6,
+  mm: 1e6,
+  m: 1e6,
+  thousand: 1e3,
+  k: 1e3,
+};
+
+const CITATION_PATTERN = /\[([a-z0-9]{10,})\]/gi;
+
+// ============================================================================
+// Claim Extraction
+// ============================================================================
+
+/**
+ * Numbers in text, scaled to absolute values. Bare integers under 100 and
+ * bare years are skipped; a lone "b"/"m" only counts as a unit after "$".
+ */
+export function extractNumericClaims(text: string): NumericClaim[] {
+  const claims: NumericClaim[] = [];
+  NUMBER_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = NUMBER_PATTERN.exec(text)) !== null) {
+    const [raw, dollar, whole, fraction = "", rawUnit = ""] = match;
+    let unit = rawUnit.toLowerCase();
+    if ((unit === "b" || unit === "m") && !dollar) unit = "";
+
+    const percent = unit === "%" || unit === "percent" || unit === "pct";
+    const scale = UNIT_SCALES[unit] ?? 1;
+    const base = Number(`${whole.replace(/,/g, "")}.${fraction || "0"}`);
+
+    if (!dollar && !unit && !fraction && (base < 100 || (base >= 1900 && base <= 2100))) {
+      continue;
+    }
+
+    claims.push({
+      raw: raw.trim(),
+      value: base * scale,
+      percent,
+      tolerance: 0.5 * Math.pow(10, -fraction.length) * scale,
+    });
+  }
+  return claims;
+}
+
+/** Whether any number in the source text supports the claim */
+function isNumberSupported(claim: NumericClaim, sourceNumbers: NumericClaim[]): boolean {
+  return sourceNumbers.some(
+    (n) => n.percent === claim.percent && Math.abs(n.value - claim.value) <= claim.tolerance + 1e-9
+  );
+}
+
+/** Checked entities named in text */
+function namedEntities(text: string): { key: string; name: string }[] {
+  return extractEntities(text)
+    .filter((e) => CHECKED_ENTITY_TYPES.includes(e.type))
+    .map((e) => ({ key: e.key, name: e.name }));
+}
+
+/** Article IDs cited inline as [articleId] */
+export function inlineCitations(text: string): string[] {
+  return [...text.matchAll(CITATION_PATTERN)].map((m) => m[1]);
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+function sourceText(source: GroundingSource): string {
+  return `${source.title}\n${source.snippet}\n${source.tldr ?? ""}`;
+}
+
+/**
+ * Check a brief's article references and claims against its sources.
+ */
+export function verifyBriefGrounding(
+  brief: DailyBriefResponse,
+  sources: GroundingSource[]
+): GroundingIssue[] {
+  const byId = new Map(sources.map((s) => [s.id, s]));
+  const issues: GroundingIssue[] = [];
+
+  // Cache per set of cited sources (the "all sources" set is reused heavily)
+  const evidenceCache = new Map<string, { numbers: NumericClaim[]; entityKeys: Set<string> }>();
+  const evidenceFor = (ids: string[]) => {
+    const cacheKey = ids.join(",");
+    let evidence = evidenceCache.get(cacheKey);
+    if (!evidence) {
+      const text = ids.map((id) => sourceText(byId.get(id)!)).join("\n");
+      evidence = {
+        numbers: extractNumericClaims(text),
+        entityKeys: new Set(namedEntities(text).map((e) => e.key)),
+      };
+      evidenceCache.set(cacheKey, evidence);
+    }
+    return evidence;
+  };
+
+  const checkClaims = (part: string, index: number, rawText: string, citedIds: string[]) => {
+    const evidence = evidenceFor(citedIds.length > 0 ? citedIds : [...byId.keys()]);
+    const text = rawText.replace(CITATION_PATTERN, "");
+    for (const claim of extractNumericClaims(text)) {
+      if (!isNumberSupported(claim, evidence.numbers)) {
+        issues.push({ type: "unsupported_number", part, index, value: claim.raw });
+      }
+    }
+    for (const entity of namedEntities(text)) {
+      if (!evidence.entityKeys.has(entity.key)) {
+        issues.push({ type: "unsupported_entity", part, index, value: entity.name });
+      }
+    }
+  };
+
+  brief.executiveSummary.forEach((bullet, index) => {
+    checkClaims("executiveSummary", index, bullet, []);
+  });
+
+  brief.topStories.forEach((story, index) => {
+    if (!byId.has(story.articleId)) {
+      issues.push({ type: "unknown_article", part: "topStories", index, value: story.articleId });
+      return;
+    }
+    checkClaims("topStories", index, `${story.headline}\n${story.whyItMatters}`, [story.articleId]);
+  });
+
+  for (const key of BRIEF_SECTION_KEYS) {
+    const section = brief.sections[key];
+    const sectionIds = section.articleIds.filter((id) => byId.has(id));
+
+    for (const id of section.articleIds) {
+      if (!byId.has(id)) {
+        issues.push({ type: "unknown_article", part: key, index: -1, value: id });
+      }
+    }
+
+    section.bullets.forEach((bullet, index) => {
+      const citations = inlineCitations(bullet);
+      for (const id of citations) {
+        if (!byId.has(id)) {
+          issues.push({ type: "unknown_article", part: key, index, value: id });
+        }
+      }
+      const known = citations.filter((id) => byId.has(id));
+      checkClaims(key, index, bullet, known.length > 0 ? known : sectionIds);
+    });
+  }
+
+  return issues;
+}
+
+/** Parts with unsupported claims (candidates for the repair pass) */
+export function partsWithClaimIssues(issues: GroundingIssue[]): string[] {
+  return [...new Set(issues.filter((i) => i.type !== "unknown_article").map((i) => i.part))];
+}
+
+// ============================================================================
+// Repair
+// ============================================================================
+
+function cloneBrief(brief: DailyBriefResponse): DailyBriefResponse {
+  return JSON.parse(JSON.stringify(brief)) as DailyBriefResponse;
+}
+
+/**
+ * Strip references to articles that weren't selected: top stories citing
+ * one are dropped, section article IDs and inline citations are removed.
+ */
+export function removeUnknownReferences(
+  brief: DailyBriefResponse,
+  sourceIds: Set<string>
+): DailyBriefResponse {
+  const repaired = cloneBrief(brief);
+  repaired.topStories = repaired.topStories.filter((s) => sourceIds.has(s.articleId));
+  for (const key of BRIEF_SECTION_KEYS) {
+    const section = repaired.sections[key];
+    section.articleIds = section.articleIds.filter((id) => sourceIds.has(id));
+    section.bullets = section.bullets.map((bullet) =>
+      bullet.replace(CITATION_PATTERN, (citation, id: string) => (sourceIds.has(id) ? citation : "")).replace(/\s+$/, "")
+    );
+  }
+  return repaired;
+}
+
+/**
+ * Apply rewritten parts from the repair pass. Empty rewrites and top-story
+ * rewrites pointing at unselected articles are ignored.
+ */
+export function applyGroundingRepairs(
+  brief: DailyBriefResponse,
+  repairs: GroundingRepair[],
+  sourceIds: Set<string>
+): { brief: DailyBriefResponse; regeneratedParts: string[] } {
+  const repaired = cloneBrief(brief);
+  const regenerated = new Set<string>();
+
+  for (const repair of repairs) {
+    if (repair.part === "executiveSummary") {
+      if (repair.bullets.length === 0) continue;
+      repaired.executiveSummary = repair.bullets;
+    } else if (repair.part === "topStories") {
+      const story = repaired.topStories[repair.index];
+      if (!story || !repair.headline || !repair.whyItMatters) continue;
+      repaired.topStories[repair.index] = {
+        articleId: sourceIds.has(repair.articleIds[0]) ? repair.articleIds[0] : story.articleId,
+        headline: repair.headline,
+        whyItMatters: repair.whyItMatters,
+      };
+    } else if ((BRIEF_SECTION_KEYS as string[]).includes(repair.part)) {
+      repaired.sections[repair.part as BriefSectionKey] = {
+        bullets: repair.bullets,
+        articleIds: repair.articleIds.filter((id) => sourceIds.has(id)),
+      };
+    } else {
+      continue;
+    }
+    regenerated.add(repair.part);
+  }
+
+  return { brief: repaired, regeneratedParts: [...regenerated] };
+}
+
+/**
+ * Remove bullets and top stories that still carry claim issues. Returns the
+ * issues that were left in place because removing them would empty the
+ * executive summary or top stories.
+ */
+export function dropUnsupportedClaims(
+  brief: DailyBriefResponse,
+  issues: GroundingIssue[]
+): { brief: DailyBriefResponse; kept: GroundingIssue[] } {
+  const repaired = cloneBrief(brief);
+  const flagged = new Map<string, Set<number>>();
+  for (const issue of issues) {
+    if (issue.type === "unknown_article") continue;
+    if (!flagged.has(issue.part)) flagged.set(issue.part, new Set());
+    flagged.get(issue.part)!.add(issue.index);
+  }
+
+  const kept: GroundingIssue[] = [];
+  const keep = <T>(items: T[], part: string, allowEmpty: boolean): T[] => {
+    const indexes = flagged.get(part);
+    if (!indexes) return items;
+    const remaining = items.filter((_, i) => !indexes.has(i));
+    if (remaining.length === 0 && !allowEmpty) {
+      kept.push(...issues.filter((i) => i.part === part && i.type !== "unknown_article"));
+      return items;
+    }
+    return remaining;
+  };
+
+  repaired.executiveSummary = keep(repaired.executiveSummary, "executiveSummary", false);
+  repaired.topStories = keep(repaired.topStories, "topStories", false);
+  for (const key of BRIEF_SECTION_KEYS) {
+    const section = repaired.sections[key];
+    section.bullets = keep(section.bullets, key, true);
+    if (section.bullets.length === 0) section.articleIds = [];
+  }
+
+  return { brief: repaired, kept };
+}
@@ -9,9 +9,13 @@ export {
   AI_MODEL_PREMIUM,
   ARTICLE_AI_SCHEMA,
   DAILY_BRIEF_SCHEMA,
+  DIGEST_SCHEMA,
+  GROUNDING_REPAIR_SCHEMA,
   RAG_ANSWER_SCHEMA,
   type ArticleAIResponse,
   type DailyBriefResponse,
+  type DigestResponse,
+  type GroundingRepairResponse,
   type RagAnswerResponse,
   type RagCitation,
 } from "./openai-client.js";
@@ -19,10 +23,29 @@ export {
 export {
   ARTICLE_SUMMARIZE_SYSTEM,
   DAILY_BRIEF_SYSTEM,
+  DIGEST_SYSTEM,
+  GROUNDING_REPAIR_SYSTEM,
+  PULSE_NARRATIVE_SYSTEM,
+  RAG_ANSWER_SYSTEM,
+  RAG_STREAMING_SYSTEM,
   buildArticleSummarizePrompt,
   buildDailyBriefPrompt,
+  buildDigestPrompt,
+  buildGroundingRepairPrompt,
 } from "./prompts.js";
 
+export {
+  PROMPT_IDS,
+  listPromptVersions,
+  activePrompt,
+  findPromptVersion,
+  isPromptId,
+  promptTag,
+  promptFingerprint,
+  type PromptId,
+  type PromptVersion,
+} from "./prompt-versions.js";
+
 export {
   RATE_LIMITS,
   checkRateLimit,
@@ -34,3 +57,31 @@ export {
   logSelectionMetrics,
   type SelectionMetrics,
 } from "./article-selection.js";
+
+export {
+  ALL_BRIEF_CATEGORIES,
+  MIN_PERSONAL_BRIEF_ARTICLES,
+  toBriefProfile,
+  isUnconstrainedProfile,
+  briefProfileKey,
+  groupUsersByProfile,
+  matchesPinnedTopic,
+  applyBriefProfile,
+  type BriefProfile,
+} from "./personal-brief.js";
+
+export {
+  BRIEF_SECTION_KEYS,
+  extractNumericClaims,
+  inlineCitations,
+  verifyBriefGrounding,
+  partsWithClaimIssues,
+  removeUnknownReferences,
+  applyGroundingRepairs,
+  dropUnsupportedClaims,
+  type BriefSectionKey,
+  type GroundingSource,
+  type GroundingIssue,
+  type GroundingRepair,
+  type NumericClaim,
+} from "./grounding.js";
@@ -4,6 +4,9 @@
  * Uses the official OpenAI SDK with Responses API for:
  * - Article summarization and classification
  * - Grounded Q&A using daily brief context
+ *
+ * Pipelines don't call the client directly; they go through the provider
+ * layer in lib/llm, which uses it for the OpenAI provider.
  */
 
 import OpenAI from "openai";
@@ -31,12 +34,11 @@ export function getOpenAIClient(): OpenAI {
 }
 
 /**
- * Model configuration for AI operations.
+ * Model configuration for AI operations (per-task models live in config/llm.ts).
  * - gpt-4o: Higher quality for critical content (daily briefs)
  * - gpt-4o-mini: Cost-efficient for high-volume operations (article summaries)
  */
-export const AI_MODEL = "gpt-4o-mini";
-export const AI_MODEL_PREMIUM = "gpt-4o";
+export { AI_MODEL, AI_MODEL_PREMIUM } from "../../config/llm.js";
 
 /**
  * Article AI response structure
@@ -166,6 +168,123 @@ export const DAILY_BRIEF_SCHEMA = {
   additionalProperties: false,
 };
 
+// ============================================================================
+// Grounding Repair Types and Schema
+// ============================================================================
+
+/**
+ * Rewritten brief parts from the grounding repair pass
+ */
+export interface GroundingRepairResponse {
+  repairs: Array<{
+    part: string;
+    index: number;
+    bullets: string[];
+    articleIds: string[];
+    headline: string;
+    whyItMatters: string;
+  }>;
+}
+
+/**
+ * JSON schema for grounding repair structured output
+ */
+export const GROUNDING_REPAIR_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    repairs: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          part: {
+            type: "string",
+            enum: [
+              "executiveSummary",
+              "topStories",
+              "propertyCat",
+              "casualtyLiability",
+              "regulation",
+              "claims",
+              "reinsurance",
+              "insurtech",
+              "market",
+            ],
+            description: "The part being rewritten",
+          },
+          index: {
+            type: "integer",
+            description: "Top story index for topStories; -1 otherwise",
+          },
+          bullets: {
+            type: "array",
+            items: { type: "string" },
+            description: "Rewritten bullets (executiveSummary and sections); empty for topStories",
+          },
+          articleIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Section article IDs, or the top story's article ID as the only item",
+          },
+          headline: { type: "string", description: "Rewritten top story headline; empty otherwise" },
+          whyItMatters: { type: "string", description: "Rewritten top story why-it-matters; empty otherwise" },
+        },
+        required: ["part", "index", "bullets", "articleIds", "headline", "whyItMatters"],
+        additionalProperties: false,
+      },
+      description: "One entry per flagged part (one per flagged top story)",
+    },
+  },
+  required: ["repairs"],
+  additionalProperties: false,
+};
+
+// ============================================================================
+// Digest Types and Schema
+// ============================================================================
+
+/**
+ * Weekly/monthly digest response structure
+ */
+export interface DigestResponse {
+  executiveSummary: string[];
+  topStories: DailyBriefResponse["topStories"];
+  whatChanged: string[];
+  sections: DailyBriefResponse["sections"];
+  topics: string[];
+}
+
+/**
+ * JSON schema for weekly/monthly digest structured output
+ */
+export const DIGEST_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    executiveSummary: {
+      type: "array",
+      items: { type: "string" },
+      description: "4-6 bullet points on the period's defining developments",
+    },
+    topStories: {
+      ...DAILY_BRIEF_SCHEMA.properties.topStories,
+      description: "5-8 top stories of the period",
+    },
+    whatChanged: {
+      type: "array",
+      items: { type: "string" },
+      description: "3-5 bullets on what changed versus the prior period",
+    },
+    sections: DAILY_BRIEF_SCHEMA.properties.sections,
+    topics: {
+      type: "array",
+      items: { type: "string" },
+      description: "5-10 key topics of the period",
+    },
+  },
+  required: ["executiveSummary", "topStories", "whatChanged", "sections", "topics"],
+  additionalProperties: false,
+};
+
 // ============================================================================
 // RAG Answer Types and Schema
 // ============================================================================
@@ -189,6 +308,8 @@ export interface RagAnswerResponse {
   takeaways: string[];
   citations: RagCitation[];
   followUps: string[];
+  /** Prompt version tag of a generated answer (absent on refusals and canned replies) */
+  promptVersion?: string;
 }
 
 /**
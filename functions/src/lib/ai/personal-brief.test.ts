@@ -0,0 +1,122 @@
+/**
+ * Unit tests for personal brief profiles
+ *
+ * Run: npx tsx --test functions/src/lib/ai/personal-brief.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Article, SourceCategory } from "../../types/firestore.js";
+import {
+  ALL_BRIEF_CATEGORIES,
+  applyBriefProfile,
+  briefProfileKey,
+  groupUsersByProfile,
+  isUnconstrainedProfile,
+  matchesPinnedTopic,
+  toBriefProfile,
+} from "./personal-brief.js";
+
+function article(
+  id: string,
+  sourceId: string,
+  categories: SourceCategory[],
+  title = "Carrier reports third-quarter results",
+  relevanceScore = 0.5
+): Article {
+  return {
+    id,
+    sourceId,
+    categories,
+    title,
+    snippet: "",
+    relevanceScore,
+  } as Partial<Article> as Article;
+}
+
+// ============================================================================
+// toBriefProfile
+// ============================================================================
+
+describe("toBriefProfile", () => {
+  it("sorts and dedupes so equal settings share a key", () => {
+    const a = toBriefProfile(
+      { enabledSourceIds: ["b", "a", "a"], enabledCategories: ["regulation", "claims"] },
+      ["Florida Reform", "cyber"]
+    );
+    const b = toBriefProfile(
+      { enabledSourceIds: ["a", "b"], enabledCategories: ["claims", "regulation"] },
+      ["cyber", " florida reform "]
+    );
+    assert.deepEqual(a, b);
+    assert.equal(briefProfileKey(a), briefProfileKey(b));
+    assert.equal(briefProfileKey(a).length, 16);
+  });
+
+  it("treats default preferences as the shared brief", () => {
+    const profile = toBriefProfile(
+      { enabledSourceIds: [], enabledCategories: [...ALL_BRIEF_CATEGORIES] },
+      []
+    );
+    assert.deepEqual(profile.categories, []);
+    assert.ok(isUnconstrainedProfile(profile));
+    assert.ok(isUnconstrainedProfile(toBriefProfile(null, [])));
+    assert.ok(!isUnconstrainedProfile(toBriefProfile(null, ["cyber"])));
+  });
+});
+
+// ============================================================================
+// groupUsersByProfile
+// ============================================================================
+
+describe("groupUsersByProfile", () => {
+  it("generates each distinct profile once", () => {
+    const cyber = toBriefProfile(null, ["cyber"]);
+    const claims = toBriefProfile({ enabledCategories: ["claims"] }, []);
+    const groups = groupUsersByProfile([
+      { uid: "u1", profile: cyber },
+      { uid: "u2", profile: claims },
+      { uid: "u3", profile: toBriefProfile(null, ["Cyber"]) },
+    ]);
+    assert.equal(groups.size, 2);
+    assert.deepEqual(groups.get(briefProfileKey(cyber))?.uids, ["u1", "u3"]);
+    assert.deepEqual(groups.get(briefProfileKey(claims))?.uids, ["u2"]);
+  });
+});
+
+// ============================================================================
+// Article Filtering
+// ============================================================================
+
+describe("matchesPinnedTopic", () => {
+  it("matches whole phrases only", () => {
+    const a = article("1", "s", ["claims"], "Florida tort reform cuts litigation");
+    assert.ok(matchesPinnedTopic(a, "tort reform"));
+    assert.ok(matchesPinnedTopic(a, "Florida"));
+    assert.ok(!matchesPinnedTopic(a, "tort reforms"));
+    assert.ok(!matchesPinnedTopic(a, "flor"));
+    assert.ok(!matchesPinnedTopic(a, ""));
+  });
+});
+
+describe("applyBriefProfile", () => {
+  const articles = [
+    article("1", "ij", ["property_cat"], "Hurricane losses mount"),
+    article("2", "ij", ["regulation"], "Cyber rules tighten", 0.9),
+    article("3", "am-best", ["regulation"]),
+  ];
+
+  it("keeps only enabled sources and categories", () => {
+    const profile = toBriefProfile(
+      { enabledSourceIds: ["ij"], enabledCategories: ["regulation"] },
+      []
+    );
+    assert.deepEqual(applyBriefProfile(articles, profile).map((a) => a.id), ["2"]);
+  });
+
+  it("boosts pinned topics without excluding other articles", () => {
+    const result = applyBriefProfile(articles, toBriefProfile(null, ["hurricane", "cyber"]));
+    assert.deepEqual(result.map((a) => a.relevanceScore), [0.7, 1, 0.5]);
+    assert.equal(articles[0].relevanceScore, 0.5);
+  });
+});
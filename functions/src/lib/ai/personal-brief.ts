@@ -0,0 +1,137 @@
+/**
+ * Personal Brief Profiles
+ *
+ * A "My Brief" is the daily brief rebuilt from one user's enabled sources,
+ * enabled categories and pinned watchlist topics. Users with identical
+ * settings share a profile key, so the brief is generated once per distinct
+ * profile rather than once per user; a profile with no constraints is just
+ * the shared brief and needs no generation at all.
+ *
+ * Sources and categories filter the candidate articles; pinned topics don't
+ * exclude anything, they boost matching articles so they win the relevance
+ * gate in selectArticlesForBrief.
+ */
+
+import type { Article, SourceCategory, UserPreferences } from "../../types/firestore.js";
+import { sha256Hash } from "../ingestion/url-utils.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ALL_BRIEF_CATEGORIES: SourceCategory[] = [
+  "property_cat",
+  "casualty_liability",
+  "regulation",
+  "claims",
+  "reinsurance",
+  "insurtech",
+];
+
+/** Relevance added to articles matching a pinned topic (capped at 1) */
+const PINNED_TOPIC_BOOST = 0.2;
+
+/** Fewer candidates than this after filtering and the profile falls back to the shared brief */
+export const MIN_PERSONAL_BRIEF_ARTICLES = 8;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Normalized brief-relevant preferences (empty list = no constraint) */
+export interface BriefProfile {
+  sourceIds: string[];
+  categories: SourceCategory[];
+  topicKeys: string[];
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+function uniqueSorted<T extends string>(values: T[]): T[] {
+  return [...new Set(values)].sort();
+}
+
+/**
+ * Build a user's profile from their prefs and watchlist topic keys.
+ * All categories enabled is the same as no category constraint.
+ */
+export function toBriefProfile(
+  prefs: Partial<Pick<UserPreferences, "enabledSourceIds" | "enabledCategories">> | null,
+  topicKeys: string[]
+): BriefProfile {
+  const categories = uniqueSorted(
+    (prefs?.enabledCategories ?? []).filter((c) => ALL_BRIEF_CATEGORIES.includes(c))
+  );
+  return {
+    sourceIds: uniqueSorted(prefs?.enabledSourceIds ?? []),
+    categories: categories.length === ALL_BRIEF_CATEGORIES.length ? [] : categories,
+    topicKeys: uniqueSorted(topicKeys.map((k) => k.trim().toLowerCase()).filter(Boolean)),
+  };
+}
+
+/** Whether the profile is the shared brief (nothing to personalize) */
+export function isUnconstrainedProfile(profile: BriefProfile): boolean {
+  return (
+    profile.sourceIds.length === 0 &&
+    profile.categories.length === 0 &&
+    profile.topicKeys.length === 0
+  );
+}
+
+/** Stable key shared by users with identical brief settings */
+export function briefProfileKey(profile: BriefProfile): string {
+  return sha256Hash(JSON.stringify(profile)).slice(0, 16);
+}
+
+/**
+ * Group users by profile key, so each distinct profile is generated once.
+ */
+export function groupUsersByProfile(
+  users: { uid: string; profile: BriefProfile }[]
+): Map<string, { profile: BriefProfile; uids: string[] }> {
+  const groups = new Map<string, { profile: BriefProfile; uids: string[] }>();
+  for (const { uid, profile } of users) {
+    const key = briefProfileKey(profile);
+    const group = groups.get(key);
+    if (group) {
+      group.uids.push(uid);
+    } else {
+      groups.set(key, { profile, uids: [uid] });
+    }
+  }
+  return groups;
+}
+
+// ============================================================================
+// Article Filtering
+// ============================================================================
+
+/** Whether the article's headline or snippet mentions the topic */
+export function matchesPinnedTopic(
+  article: Pick<Article, "title" | "snippet">,
+  topicKey: string
+): boolean {
+  const text = ` ${`${article.title} ${article.snippet}`.toLowerCase().replace(/[^a-z0-9&]+/g, " ")} `;
+  const phrase = topicKey.toLowerCase().replace(/[^a-z0-9&]+/g, " ").trim();
+  return phrase.length > 0 && text.includes(` ${phrase} `);
+}
+
+/**
+ * Candidate articles for a profile: only enabled sources and categories,
+ * with pinned-topic matches boosted.
+ */
+export function applyBriefProfile<T extends Article>(articles: T[], profile: BriefProfile): T[] {
+  const sources = new Set(profile.sourceIds);
+  const categories = new Set(profile.categories);
+
+  return articles
+    .filter((a) => sources.size === 0 || sources.has(a.sourceId))
+    .filter((a) => categories.size === 0 || a.categories.some((c) => categories.has(c)))
+    .map((a) =>
+      profile.topicKeys.some((key) => matchesPinnedTopic(a, key))
+        ? { ...a, relevanceScore: Math.min(1, a.relevanceScore + PINNED_TOPIC_BOOST) }
+        : a
+    );
+}
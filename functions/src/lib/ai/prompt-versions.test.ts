@@ -0,0 +1,62 @@
+/**
+ * Unit tests for prompt versioning
+ *
+ * Run: npx tsx --test functions/src/lib/ai/prompt-versions.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PROMPT_IDS,
+  activePrompt,
+  findPromptVersion,
+  listPromptVersions,
+  promptFingerprint,
+  promptTag,
+} from "./prompt-versions.js";
+
+/**
+ * Fingerprints of released prompt versions. A failure here means a released
+ * prompt's text changed: restore it and add the edit as a new version
+ * instead (then add the new version's fingerprint below).
+ */
+const RELEASED_FINGERPRINTS: Record<string, string> = {
+  "articleSummary@v1": "588cf5173135",
+  "dailyBrief@v1": "cc48013c248e",
+  "groundingRepair@v1": "c9a98b44f541",
+  "digest@v1": "ed7ebec87fe9",
+  "ragAnswer@v1": "a6cebd189ed2",
+  "ragStreaming@v1": "5a29a8c27c34",
+  "pulseNarrative@v1": "8c396e650e90",
+};
+
+describe("prompt versions", () => {
+  it("never changes the text of a released version", () => {
+    for (const id of PROMPT_IDS) {
+      for (const prompt of listPromptVersions(id)) {
+        const tag = promptTag(prompt);
+        assert.equal(promptFingerprint(prompt), RELEASED_FINGERPRINTS[tag], tag);
+      }
+    }
+  });
+
+  it("numbers versions in order with distinct text", () => {
+    for (const id of PROMPT_IDS) {
+      const versions = listPromptVersions(id);
+      versions.forEach((prompt, i) => {
+        assert.equal(prompt.id, id);
+        assert.equal(prompt.version, `v${i + 1}`);
+        assert.ok(prompt.changes.length > 0, `${promptTag(prompt)} needs a change note`);
+      });
+      assert.equal(new Set(versions.map(promptFingerprint)).size, versions.length, id);
+    }
+  });
+
+  it("serves the latest version and finds earlier ones", () => {
+    const versions = listPromptVersions("dailyBrief");
+    assert.equal(activePrompt("dailyBrief"), versions[versions.length - 1]);
+    assert.equal(findPromptVersion("dailyBrief", "v1"), versions[0]);
+    assert.equal(findPromptVersion("dailyBrief", "v99"), null);
+    assert.equal(promptTag(versions[0]), "dailyBrief@v1");
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Prompt Versions
+ *
+ * Every system prompt the pipelines send is a versioned artifact. The last
+ * version listed for a prompt is the one in production, and its tag (e.g.
+ * "dailyBrief@v1") is stamped on what it produces: briefs, article AI,
+ * digests, pulse narratives and Ask answers. Earlier versions stay listed
+ * so stamped output can be traced back to its prompt and so
+ * `npm run eval-prompts` can replay the golden set through both sides of a
+ * change.
+ *
+ * To change a prompt, add the new text to prompts.ts as a new constant and
+ * append a version here; never edit a released version's text
+ * (prompt-versions.test.ts pins each version's fingerprint). User-prompt
+ * builders are shared by every version of a prompt.
+ */
+
+import { sha256Hash } from "../ingestion/url-utils.js";
+import {
+  ARTICLE_SUMMARIZE_SYSTEM,
+  DAILY_BRIEF_SYSTEM,
+  DIGEST_SYSTEM,
+  GROUNDING_REPAIR_SYSTEM,
+  PULSE_NARRATIVE_SYSTEM,
+  RAG_ANSWER_SYSTEM,
+  RAG_STREAMING_SYSTEM,
+} from "./prompts.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromptId =
+  | "articleSummary"
+  | "dailyBrief"
+  | "groundingRepair"
+  | "digest"
+  | "ragAnswer"
+  | "ragStreaming"
+  | "pulseNarrative";
+
+export interface PromptVersion {
+  id: PromptId;
+  /** "v1", "v2", ... in release order */
+  version: string;
+  system: string;
+  /** What changed from the previous version */
+  changes: string;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const INITIAL = "First versioned release (text as shipped before versioning)";
+
+const PROMPT_VERSIONS: { readonly [K in PromptId]: readonly PromptVersion[] } = {
+  articleSummary: [
+    { id: "articleSummary", version: "v1", system: ARTICLE_SUMMARIZE_SYSTEM, changes: INITIAL },
+  ],
+  dailyBrief: [
+    { id: "dailyBrief", version: "v1", system: DAILY_BRIEF_SYSTEM, changes: INITIAL },
+  ],
+  groundingRepair: [
+    { id: "groundingRepair", version: "v1", system: GROUNDING_REPAIR_SYSTEM, changes: INITIAL },
+  ],
+  digest: [
+    { id: "digest", version: "v1", system: DIGEST_SYSTEM, changes: INITIAL },
+  ],
+  ragAnswer: [
+    { id: "ragAnswer", version: "v1", system: RAG_ANSWER_SYSTEM, changes: INITIAL },
+  ],
+  ragStreaming: [
+    { id: "ragStreaming", version: "v1", system: RAG_STREAMING_SYSTEM, changes: INITIAL },
+  ],
+  pulseNarrative: [
+    { id: "pulseNarrative", version: "v1", system: PULSE_NARRATIVE_SYSTEM, changes: INITIAL },
+  ],
+};
+
+export const PROMPT_IDS = Object.keys(PROMPT_VERSIONS) as PromptId[];
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/** Every released version of a prompt, oldest first */
+export function listPromptVersions(id: PromptId): readonly PromptVersion[] {
+  return PROMPT_VERSIONS[id];
+}
+
+/** The version in production */
+export function activePrompt(id: PromptId): PromptVersion {
+  const versions = PROMPT_VERSIONS[id];
+  return versions[versions.length - 1];
+}
+
+export function findPromptVersion(id: PromptId, version: string): PromptVersion | null {
+  return PROMPT_VERSIONS[id].find((p) => p.version === version) ?? null;
+}
+
+export function isPromptId(value: string): value is PromptId {
+  return (PROMPT_IDS as string[]).includes(value);
+}
+
+/** Stamp stored on generated content, e.g. "dailyBrief@v1" */
+export function promptTag(prompt: PromptVersion): string {
+  return `${prompt.id}@${prompt.version}`;
+}
+
+/** First 12 hex characters of a SHA-256 over the system prompt text */
+export function promptFingerprint(prompt: PromptVersion): string {
+  return sha256Hash(prompt.system).slice(0, 12);
+}
@@ -17,6 +17,10 @@ export const RATE_LIMITS = {
   askToday: 30,
   /** Max RAG chat requests per user per day */
   answerRag: 30,
+  /** Max on-demand "My Brief" generations per user per day */
+  personalBrief: 3,
+  /** Max Feed search requests (typing pauses and pages) per user per day */
+  search: 500,
 } as const;
 
 type RateLimitType = keyof typeof RATE_LIMITS;
@@ -0,0 +1,228 @@
+/**
+ * Breaking News Alerts
+ *
+ * Runs after each scheduled ingestion pass: scores recently updated story
+ * clusters, claims breakingAlerts/{clusterId} for each breaking story (so a
+ * story alerts at most once, even across overlapping runs), and pushes it
+ * to users who opted in to breaking news and are under their daily cap.
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type {
+  BreakingAlert,
+  BreakingNewsNotificationState,
+  StoryCluster,
+} from "../../types/firestore.js";
+import { getOptedInUsers, sendNotificationToUsers } from "../notifications/index.js";
+import { toDateKeyET } from "../ingestion/index.js";
+import {
+  BREAKING_MAX_AGE_HOURS,
+  MAX_ALERTS_PER_RUN,
+  detectBreakingStories,
+  remainingDailyAlerts,
+  type BreakingCandidate,
+  type BreakingSignal,
+} from "./detector.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BreakingAlertRunResult {
+  candidates: number;
+  flagged: number;
+  /** Flagged stories that had already alerted */
+  alreadyAlerted: number;
+  alerts: Pick<BreakingAlert, "id" | "title" | "score" | "recipients" | "sent">[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Firestore gRPC code for create() on an existing document */
+const ALREADY_EXISTS = 6;
+
+/** Max document refs per getAll() call */
+const GET_ALL_BATCH_SIZE = 100;
+
+/** Stay under Firestore's 500 writes per batch */
+const WRITE_BATCH_SIZE = 400;
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+function toCandidate(cluster: StoryCluster): BreakingCandidate {
+  const lead = cluster.members.find((m) => m.articleId === cluster.leadArticleId) ?? cluster.members[0];
+  return {
+    clusterId: cluster.id,
+    leadArticleId: lead.articleId,
+    leadTitle: lead.title,
+    members: cluster.members.map((m) => ({
+      sourceId: m.sourceId,
+      sourceName: m.sourceName,
+      title: m.title,
+      publishedAt: m.publishedAt.toDate(),
+      relevanceScore: m.relevanceScore,
+    })),
+  };
+}
+
+/**
+ * Multi-source clusters with coverage inside the breaking window.
+ */
+async function loadBreakingCandidates(now: Date): Promise<BreakingCandidate[]> {
+  const db = getFirestore();
+  const cutoff = new Date(now.getTime() - BREAKING_MAX_AGE_HOURS * 60 * 60 * 1000);
+
+  const snap = await db
+    .collection("storyClusters")
+    .where("lastPublishedAt", ">=", Timestamp.fromDate(cutoff))
+    .get();
+
+  return snap.docs
+    .map((doc) => ({ ...(doc.data() as StoryCluster), id: doc.id }))
+    .filter((cluster) => cluster.sourceCount >= 2 && cluster.members.length > 0)
+    .map(toCandidate);
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * Claim the alert for a story. Returns false when it was already claimed.
+ */
+async function claimAlert(signal: BreakingSignal, now: Date): Promise<boolean> {
+  const alert: BreakingAlert = {
+    id: signal.candidate.clusterId,
+    leadArticleId: signal.candidate.leadArticleId,
+    title: signal.candidate.leadTitle,
+    sourceNames: signal.velocitySources,
+    score: signal.score,
+    reasons: signal.reasons,
+    matchedKeywords: signal.matchedKeywords,
+    detectedAt: Timestamp.fromDate(now),
+    recipients: 0,
+    cappedUsers: 0,
+    sent: 0,
+    failed: 0,
+  };
+  try {
+    await getFirestore().collection("breakingAlerts").doc(alert.id).create(alert);
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code === ALREADY_EXISTS) return false;
+    throw error;
+  }
+}
+
+function formatSourceList(names: string[]): string {
+  if (names.length <= 2) return names.join(" and ");
+  return `${names.slice(0, 2).join(", ")} and ${names.length - 2} more`;
+}
+
+/**
+ * Push one story to opted-in users under their daily cap and record the
+ * outcome on the alert document.
+ */
+async function sendBreakingAlert(
+  signal: BreakingSignal,
+  now: Date
+): Promise<BreakingAlertRunResult["alerts"][number]> {
+  const db = getFirestore();
+  const todayKey = toDateKeyET(now.getTime());
+
+  const users = await getOptedInUsers("breakingNews");
+  const stateRefs = users.map((u) => db.doc(`users/${u.uid}/notificationState/breakingNews`));
+  const states: (BreakingNewsNotificationState | null)[] = [];
+  for (let i = 0; i < stateRefs.length; i += GET_ALL_BATCH_SIZE) {
+    const docs = await db.getAll(...stateRefs.slice(i, i + GET_ALL_BATCH_SIZE));
+    states.push(...docs.map((doc) => (doc.exists ? (doc.data() as BreakingNewsNotificationState) : null)));
+  }
+
+  const eligible = users
+    .map((user, i) => ({ user, ref: stateRefs[i], state: states[i] }))
+    .filter(({ state }) => remainingDailyAlerts(state, todayKey) > 0);
+  const result = await sendNotificationToUsers(
+    eligible.map(({ user }) => user),
+    {
+      title: `Breaking: ${signal.candidate.leadTitle}`,
+      body: `Reported by ${formatSourceList(signal.velocitySources)}`,
+      data: {
+        type: "breaking_news",
+        articleId: signal.candidate.leadArticleId,
+        clusterId: signal.candidate.clusterId,
+      },
+    }
+  );
+
+  // Count the push against each recipient's daily cap
+  for (let i = 0; i < eligible.length; i += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    for (const { ref, state } of eligible.slice(i, i + WRITE_BATCH_SIZE)) {
+      const next: BreakingNewsNotificationState = {
+        dateKey: todayKey,
+        count: (state?.dateKey === todayKey ? state.count : 0) + 1,
+        lastSentAt: Timestamp.fromDate(now),
+      };
+      batch.set(ref, next);
+    }
+    await batch.commit();
+  }
+
+  await db.collection("breakingAlerts").doc(signal.candidate.clusterId).update({
+    recipients: eligible.length,
+    cappedUsers: users.length - eligible.length,
+    sent: result.sent,
+    failed: result.failed,
+  });
+
+  return {
+    id: signal.candidate.clusterId,
+    title: signal.candidate.leadTitle,
+    score: signal.score,
+    recipients: eligible.length,
+    sent: result.sent,
+  };
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+/**
+ * Detect breaking stories among recent clusters and push the new ones
+ * (at most MAX_ALERTS_PER_RUN per pass).
+ */
+export async function runBreakingNewsAlerts(now: Date = new Date()): Promise<BreakingAlertRunResult> {
+  const candidates = await loadBreakingCandidates(now);
+  const signals = detectBreakingStories(candidates, now);
+
+  const result: BreakingAlertRunResult = {
+    candidates: candidates.length,
+    flagged: signals.length,
+    alreadyAlerted: 0,
+    alerts: [],
+  };
+
+  for (const signal of signals) {
+    if (result.alerts.length >= MAX_ALERTS_PER_RUN) break;
+    if (!(await claimAlert(signal, now))) {
+      result.alreadyAlerted++;
+      continue;
+    }
+    logger.info("Breaking story flagged", {
+      clusterId: signal.candidate.clusterId,
+      score: signal.score,
+      reasons: signal.reasons,
+      matchedKeywords: signal.matchedKeywords,
+      sources: signal.velocitySources,
+    });
+    result.alerts.push(await sendBreakingAlert(signal, now));
+  }
+
+  return result;
+}
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for breaking news detection
+ *
+ * Run: npx tsx --test functions/src/lib/breaking/detector.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  detectBreakingStories,
+  remainingDailyAlerts,
+  scoreBreakingCandidate,
+  velocitySources,
+  MAX_BREAKING_ALERTS_PER_DAY,
+  type BreakingCandidate,
+  type BreakingCandidateMember,
+} from "./detector.js";
+
+const NOW = new Date("2026-10-10T18:00:00Z");
+
+function member(
+  sourceId: string,
+  minutesAgo: number,
+  title = "Carrier reports third-quarter results",
+  relevanceScore = 0.6
+): BreakingCandidateMember {
+  return {
+    sourceId,
+    sourceName: sourceId.toUpperCase(),
+    title,
+    publishedAt: new Date(NOW.getTime() - minutesAgo * 60 * 1000),
+    relevanceScore,
+  };
+}
+
+function candidate(clusterId: string, members: BreakingCandidateMember[]): BreakingCandidate {
+  return { clusterId, leadArticleId: `${clusterId}-lead`, leadTitle: members[0].title, members };
+}
+
+// ============================================================================
+// velocitySources
+// ============================================================================
+
+describe("velocitySources", () => {
+  it("counts unique sources within the window of the first report", () => {
+    const members = [member("a", 120), member("b", 90), member("a", 60), member("c", 400)];
+    // c published first; a and b are more than 3h later
+    assert.deepEqual(velocitySources(members), ["C"]);
+    assert.deepEqual(velocitySources(members.slice(0, 3)), ["A", "B"]);
+  });
+});
+
+// ============================================================================
+// scoreBreakingCandidate
+// ============================================================================
+
+describe("scoreBreakingCandidate", () => {
+  it("requires cross-source velocity", () => {
+    const signal = scoreBreakingCandidate(
+      candidate("x", [member("a", 30, "Hurricane Milton makes landfall near Tampa", 0.95)]),
+      NOW
+    );
+    assert.equal(signal.score, 0);
+  });
+
+  it("combines velocity, relevance and keywords", () => {
+    const signal = scoreBreakingCandidate(
+      candidate("x", [
+        member("a", 50, "Hurricane Milton makes landfall near Tampa", 0.9),
+        member("b", 40, "Milton landfall: insurers brace for losses"),
+        member("c", 20, "Florida regulator issues emergency order after Milton"),
+      ]),
+      NOW
+    );
+    assert.equal(signal.score, 1);
+    assert.deepEqual(signal.reasons, ["velocity", "high_relevance", "catastrophe", "regulatory"]);
+    assert.deepEqual(signal.matchedKeywords, ["hurricane", "landfall", "emergency order"]);
+    assert.deepEqual(signal.velocitySources, ["A", "B", "C"]);
+  });
+
+  it("ignores stories first reported outside the breaking window", () => {
+    const signal = scoreBreakingCandidate(
+      candidate("x", [
+        member("a", 7 * 60, "Insurer placed in receivership", 0.9),
+        member("b", 30, "Insurer placed in receivership"),
+        member("c", 20, "Insurer placed in receivership"),
+      ]),
+      NOW
+    );
+    assert.equal(signal.score, 0);
+  });
+});
+
+// ============================================================================
+// detectBreakingStories
+// ============================================================================
+
+describe("detectBreakingStories", () => {
+  it("keeps stories over the threshold, best first", () => {
+    const routine = candidate("routine", [member("a", 30), member("b", 20)]);
+    const fast = candidate("fast", [member("a", 30, undefined, 0.9), member("b", 20), member("c", 10)]);
+    const cat = candidate("cat", [
+      member("a", 30, "Wildfire forces evacuations in Sonoma County", 0.85),
+      member("b", 20, "Sonoma wildfire grows overnight"),
+    ]);
+
+    const signals = detectBreakingStories([routine, fast, cat], NOW);
+    assert.deepEqual(signals.map((s) => s.candidate.clusterId), ["cat", "fast"]);
+  });
+});
+
+// ============================================================================
+// remainingDailyAlerts
+// ============================================================================
+
+describe("remainingDailyAlerts", () => {
+  it("resets on a new day and never goes negative", () => {
+    assert.equal(remainingDailyAlerts(null, "2026-10-10"), MAX_BREAKING_ALERTS_PER_DAY);
+    assert.equal(remainingDailyAlerts({ dateKey: "2026-10-10", count: 1 }, "2026-10-10"), MAX_BREAKING_ALERTS_PER_DAY - 1);
+    assert.equal(remainingDailyAlerts({ dateKey: "2026-10-09", count: 9 }, "2026-10-10"), MAX_BREAKING_ALERTS_PER_DAY);
+    assert.equal(remainingDailyAlerts({ dateKey: "2026-10-10", count: 9 }, "2026-10-10"), 0);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Breaking News Detection
+ *
+ * Scores recent story clusters for breaking-news pushes. A story is
+ * breaking when several sources pick it up within a short window
+ * (velocity), its coverage is highly relevant, and/or its headlines carry
+ * catastrophe or regulatory-action keywords. Velocity is required: a single
+ * source can't trigger a push however alarming its headline.
+ */
+
+import type { BreakingReason } from "../../types/firestore.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Stories first published longer ago than this are no longer "breaking" */
+export const BREAKING_MAX_AGE_HOURS = 6;
+
+/** Sources must publish within this long of the first report to count */
+export const VELOCITY_WINDOW_HOURS = 3;
+
+/** Minimum score for a push */
+export const BREAKING_SCORE_THRESHOLD = 0.7;
+
+/** Pushes per detection pass, so a busy hour doesn't become a flood */
+export const MAX_ALERTS_PER_RUN = 2;
+
+/** Breaking-news pushes per user per day (America/New_York) */
+export const MAX_BREAKING_ALERTS_PER_DAY = 3;
+
+const HIGH_RELEVANCE_SCORE = 0.8;
+
+const CATASTROPHE_KEYWORDS = [
+  "hurricane",
+  "tropical storm",
+  "typhoon",
+  "cyclone",
+  "landfall",
+  "earthquake",
+  "wildfire",
+  "tornado",
+  "hailstorm",
+  "flooding",
+  "flash flood",
+  "derecho",
+  "explosion",
+  "cyberattack",
+  "cyber attack",
+  "ransomware",
+];
+
+const REGULATORY_KEYWORDS = [
+  "emergency order",
+  "emergency rule",
+  "moratorium",
+  "insolvent",
+  "insolvency",
+  "receivership",
+  "liquidation",
+  "rehabilitation order",
+  "cease and desist",
+  "consent order",
+  "downgrade",
+  "downgraded",
+  "stops writing",
+  "pulls out",
+  "exits the state",
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BreakingCandidateMember {
+  sourceId: string;
+  sourceName: string;
+  title: string;
+  publishedAt: Date;
+  relevanceScore: number;
+}
+
+/** A story cluster considered for a push */
+export interface BreakingCandidate {
+  clusterId: string;
+  leadArticleId: string;
+  leadTitle: string;
+  members: BreakingCandidateMember[];
+}
+
+export interface BreakingSignal {
+  candidate: BreakingCandidate;
+  score: number;
+  reasons: BreakingReason[];
+  matchedKeywords: string[];
+  /** Unique sources that published within the velocity window */
+  velocitySources: string[];
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function matchKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter((keyword) => new RegExp(`\\b${keyword}\\b`).test(text));
+}
+
+/**
+ * Unique source names that reported within VELOCITY_WINDOW_HOURS of the
+ * first report, in order of publication.
+ */
+export function velocitySources(members: BreakingCandidateMember[]): string[] {
+  if (members.length === 0) return [];
+  const sorted = [...members].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  const windowEnd = sorted[0].publishedAt.getTime() + VELOCITY_WINDOW_HOURS * 60 * 60 * 1000;
+
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const member of sorted) {
+    if (member.publishedAt.getTime() > windowEnd) break;
+    if (seen.has(member.sourceId)) continue;
+    seen.add(member.sourceId);
+    names.push(member.sourceName);
+  }
+  return names;
+}
+
+/**
+ * Score one candidate. Returns score 0 for stories that are too old or
+ * lack cross-source velocity.
+ *
+ *   3+ sources in window  0.5   (2 sources: 0.25)
+ *   top relevance >= 0.8  0.2
+ *   catastrophe keyword   0.3
+ *   regulatory keyword    0.3
+ *
+ * capped at 1. With the 0.7 threshold, three fast sources need high
+ * relevance or a keyword; two need high relevance and a keyword.
+ */
+export function scoreBreakingCandidate(candidate: BreakingCandidate, now: Date): BreakingSignal {
+  const empty: BreakingSignal = {
+    candidate,
+    score: 0,
+    reasons: [],
+    matchedKeywords: [],
+    velocitySources: [],
+  };
+
+  const firstMs = Math.min(...candidate.members.map((m) => m.publishedAt.getTime()));
+  if (!Number.isFinite(firstMs) || now.getTime() - firstMs > BREAKING_MAX_AGE_HOURS * 60 * 60 * 1000) {
+    return empty;
+  }
+
+  const sources = velocitySources(candidate.members);
+  if (sources.length < 2) {
+    return { ...empty, velocitySources: sources };
+  }
+
+  const reasons: BreakingReason[] = ["velocity"];
+  let score = sources.length >= 3 ? 0.5 : 0.25;
+
+  const topRelevance = Math.max(...candidate.members.map((m) => m.relevanceScore));
+  if (topRelevance >= HIGH_RELEVANCE_SCORE) {
+    reasons.push("high_relevance");
+    score += 0.2;
+  }
+
+  const text = candidate.members.map((m) => m.title).join("\n").toLowerCase();
+  const catastrophe = matchKeywords(text, CATASTROPHE_KEYWORDS);
+  const regulatory = matchKeywords(text, REGULATORY_KEYWORDS);
+  if (catastrophe.length > 0) {
+    reasons.push("catastrophe");
+    score += 0.3;
+  }
+  if (regulatory.length > 0) {
+    reasons.push("regulatory");
+    score += 0.3;
+  }
+
+  return {
+    candidate,
+    score: Math.min(1, Math.round(score * 100) / 100),
+    reasons,
+    matchedKeywords: [...catastrophe, ...regulatory],
+    velocitySources: sources,
+  };
+}
+
+/**
+ * Candidates scoring at or above the threshold, best first.
+ */
+export function detectBreakingStories(candidates: BreakingCandidate[], now: Date): BreakingSignal[] {
+  return candidates
+    .map((candidate) => scoreBreakingCandidate(candidate, now))
+    .filter((signal) => signal.score >= BREAKING_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score || b.velocitySources.length - a.velocitySources.length);
+}
+
+// ============================================================================
+// Daily Cap
+// ============================================================================
+
+/**
+ * Pushes a user has left today given their stored count (a count from an
+ * earlier day no longer applies).
+ */
+export function remainingDailyAlerts(
+  state: { dateKey: string; count: number } | null,
+  todayKey: string
+): number {
+  const used = state && state.dateKey === todayKey ? state.count : 0;
+  return Math.max(0, MAX_BREAKING_ALERTS_PER_DAY - used);
+}
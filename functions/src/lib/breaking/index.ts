@@ -0,0 +1,23 @@
+/**
+ * Breaking News Module Exports
+ */
+
+export {
+  BREAKING_MAX_AGE_HOURS,
+  VELOCITY_WINDOW_HOURS,
+  BREAKING_SCORE_THRESHOLD,
+  MAX_ALERTS_PER_RUN,
+  MAX_BREAKING_ALERTS_PER_DAY,
+  velocitySources,
+  scoreBreakingCandidate,
+  detectBreakingStories,
+  remainingDailyAlerts,
+  type BreakingCandidate,
+  type BreakingCandidateMember,
+  type BreakingSignal,
+} from "./detector.js";
+
+export {
+  runBreakingNewsAlerts,
+  type BreakingAlertRunResult,
+} from "./alert-store.js";
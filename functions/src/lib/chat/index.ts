@@ -0,0 +1,19 @@
+/**
+ * Chat module — server-side persistence for Ask threads
+ */
+
+export {
+  MAX_THREAD_MESSAGE_LENGTH,
+  PARTIAL_WRITE_INTERVAL_MS,
+  isThreadId,
+  clipThreadMessage,
+  shouldWritePartial,
+} from "./messages.js";
+
+export {
+  threadExists,
+  saveThreadExchange,
+  startThreadReply,
+  type ThreadAnswer,
+  type ThreadReply,
+} from "./threads.js";
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for chat thread message rules
+ *
+ * Run: npx tsx --test functions/src/lib/chat/messages.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_THREAD_MESSAGE_LENGTH,
+  PARTIAL_WRITE_INTERVAL_MS,
+  clipThreadMessage,
+  isThreadId,
+  shouldWritePartial,
+} from "./messages.js";
+
+// ============================================================================
+// isThreadId
+// ============================================================================
+
+describe("isThreadId", () => {
+  it("accepts Firestore auto IDs and migrated local IDs", () => {
+    assert.equal(isThreadId("Xf3kQ9aLm2PzR8tYv1Wc"), true);
+    assert.equal(isThreadId("local-lq2x9k4abc12"), true);
+  });
+
+  it("rejects paths, empty strings and non-strings", () => {
+    assert.equal(isThreadId(""), false);
+    assert.equal(isThreadId("abc/messages"), false);
+    assert.equal(isThreadId("../other"), false);
+    assert.equal(isThreadId("a".repeat(129)), false);
+    assert.equal(isThreadId(42), false);
+    assert.equal(isThreadId(null), false);
+  });
+});
+
+// ============================================================================
+// clipThreadMessage
+// ============================================================================
+
+describe("clipThreadMessage", () => {
+  it("keeps content within the stored limit", () => {
+    assert.equal(clipThreadMessage("short answer"), "short answer");
+    assert.equal(clipThreadMessage("x".repeat(MAX_THREAD_MESSAGE_LENGTH + 10)).length, MAX_THREAD_MESSAGE_LENGTH);
+  });
+});
+
+// ============================================================================
+// shouldWritePartial
+// ============================================================================
+
+describe("shouldWritePartial", () => {
+  it("writes once new text has waited the interval", () => {
+    assert.equal(shouldWritePartial(40, PARTIAL_WRITE_INTERVAL_MS), true);
+    assert.equal(shouldWritePartial(40, PARTIAL_WRITE_INTERVAL_MS + 500), true);
+  });
+
+  it("waits while the last write is recent", () => {
+    assert.equal(shouldWritePartial(4000, PARTIAL_WRITE_INTERVAL_MS - 1), false);
+  });
+
+  it("skips when nothing new arrived", () => {
+    assert.equal(shouldWritePartial(0, PARTIAL_WRITE_INTERVAL_MS * 10), false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Chat Thread Messages
+ *
+ * Rules for what the answer endpoints write to users/{uid}/chatThreads:
+ * which thread IDs are accepted, how long a stored message may be, and how
+ * often a streaming answer's partial text is written so an interrupted
+ * client can pick it up from the thread.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest stored message (matches the messages create rule in firestore.rules) */
+export const MAX_THREAD_MESSAGE_LENGTH = 50000;
+
+/** Minimum gap between partial-answer writes while streaming */
+export const PARTIAL_WRITE_INTERVAL_MS = 1500;
+
+/** Firestore document IDs the client can generate (auto IDs, migrated "local-" IDs) */
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isThreadId(value: unknown): value is string {
+  return typeof value === "string" && THREAD_ID_PATTERN.test(value);
+}
+
+/** Trim content to what the thread can store */
+export function clipThreadMessage(content: string): string {
+  return content.length > MAX_THREAD_MESSAGE_LENGTH ? content.slice(0, MAX_THREAD_MESSAGE_LENGTH) : content;
+}
+
+/**
+ * Whether a streaming answer should write its partial text now: only when
+ * something new arrived and the last write is at least
+ * PARTIAL_WRITE_INTERVAL_MS old, so a long answer costs a write every
+ * couple of seconds rather than one per token.
+ */
+export function shouldWritePartial(pendingChars: number, msSinceWrite: number): boolean {
+  return pendingChars > 0 && msSinceWrite >= PARTIAL_WRITE_INTERVAL_MS;
+}
@@ -0,0 +1,183 @@
+/**
+ * Chat Thread Writer
+ *
+ * Server-side persistence for Ask conversations in
+ * users/{uid}/chatThreads/{threadId}/messages. The answer endpoints write
+ * both sides of each exchange, so a thread is complete on every device even
+ * when the asking client was backgrounded mid-answer: a streaming answer is
+ * written as a "streaming" message whose content is refreshed as text
+ * arrives, then finalized with citations and takeaways.
+ */
+
+import { getFirestore, FieldValue, Timestamp, type DocumentReference } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { ChatCitation, ChatMessage } from "../../types/firestore.js";
+import { clipThreadMessage, shouldWritePartial } from "./messages.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Final assistant message for a thread */
+export interface ThreadAnswer {
+  answerMarkdown: string;
+  citations: ChatCitation[];
+  takeaways: string[];
+}
+
+/** Assistant message being streamed into a thread */
+export interface ThreadReply {
+  /** Add streamed text; the partial answer is written every couple of seconds */
+  append(text: string): void;
+  /** Write the final answer */
+  complete(answer: ThreadAnswer): Promise<void>;
+  /** Keep whatever text arrived and mark the message as failed */
+  fail(): Promise<void>;
+}
+
+type ThreadMessageDoc = Omit<ChatMessage, "id">;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function threadRef(uid: string, threadId: string) {
+  return getFirestore().collection("users").doc(uid).collection("chatThreads").doc(threadId);
+}
+
+/**
+ * Whether the user owns a thread with this ID. Threads are created by the
+ * client (firestore.rules validates their scope and filters).
+ */
+export async function threadExists(uid: string, threadId: string): Promise<boolean> {
+  const snap = await threadRef(uid, threadId).get();
+  return snap.exists;
+}
+
+/**
+ * Write the question and the opening assistant message in one batch and
+ * bump the thread. The assistant message sorts after the question even when
+ * both land in the same millisecond.
+ */
+async function writeExchange(
+  uid: string,
+  threadId: string,
+  question: string,
+  assistant: Omit<ThreadMessageDoc, "role" | "createdAt">
+): Promise<DocumentReference> {
+  const thread = threadRef(uid, threadId);
+  const now = Date.now();
+  const userMessage: ThreadMessageDoc = {
+    role: "user",
+    content: clipThreadMessage(question),
+    createdAt: Timestamp.fromMillis(now),
+  };
+  const assistantMessage: ThreadMessageDoc = {
+    ...assistant,
+    role: "assistant",
+    createdAt: Timestamp.fromMillis(now + 1),
+  };
+  const assistantRef = thread.collection("messages").doc();
+
+  const batch = getFirestore().batch();
+  batch.set(thread.collection("messages").doc(), userMessage);
+  batch.set(assistantRef, assistantMessage);
+  batch.update(thread, {
+    updatedAt: Timestamp.fromMillis(now),
+    messageCount: FieldValue.increment(2),
+  });
+  await batch.commit();
+  return assistantRef;
+}
+
+// ============================================================================
+// Writers
+// ============================================================================
+
+/**
+ * Save a finished exchange (non-streaming answers, refusals). Never throws:
+ * the answer has already been produced and is returned either way.
+ */
+export async function saveThreadExchange(
+  uid: string,
+  threadId: string,
+  question: string,
+  answer: ThreadAnswer
+): Promise<void> {
+  try {
+    await writeExchange(uid, threadId, question, {
+      content: clipThreadMessage(answer.answerMarkdown),
+      citations: answer.citations,
+      takeaways: answer.takeaways,
+      status: "complete",
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    logger.warn("Failed to save chat exchange", {
+      uid,
+      threadId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Start streaming an answer into a thread: writes the question and an empty
+ * "streaming" assistant message, then returns a writer for the answer.
+ * Partial writes are chained so they land in order, and a write that fails
+ * is logged and skipped rather than interrupting the stream.
+ */
+export async function startThreadReply(uid: string, threadId: string, question: string): Promise<ThreadReply> {
+  const messageRef = await writeExchange(uid, threadId, question, {
+    content: "",
+    status: "streaming",
+    updatedAt: Timestamp.now(),
+  });
+
+  let content = "";
+  let pendingChars = 0;
+  let lastWriteAt = Date.now();
+  let writes: Promise<void> = Promise.resolve();
+
+  const write = (data: Partial<ThreadMessageDoc>) => {
+    writes = writes.then(() =>
+      messageRef.update({ ...data, updatedAt: Timestamp.now() }).then(
+        () => undefined,
+        (error: unknown) => {
+          logger.warn("Failed to write chat message", {
+            uid,
+            threadId,
+            messageId: messageRef.id,
+            status: data.status ?? "streaming",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      )
+    );
+    return writes;
+  };
+
+  return {
+    append(text: string) {
+      content += text;
+      pendingChars += text.length;
+      if (!shouldWritePartial(pendingChars, Date.now() - lastWriteAt)) return;
+      pendingChars = 0;
+      lastWriteAt = Date.now();
+      void write({ content: clipThreadMessage(content) });
+    },
+
+    complete(answer: ThreadAnswer) {
+      return write({
+        content: clipThreadMessage(answer.answerMarkdown),
+        citations: answer.citations,
+        takeaways: answer.takeaways,
+        status: "complete",
+      });
+    },
+
+    fail() {
+      return write({ content: clipThreadMessage(content), status: "error" });
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Article Relevance Classification
+ *
+ * Single entry point for ingestion: scores with the active trained model
+ * when there is one, otherwise with the keyword heuristic, and reports
+ * which one was used so it can be stored on the article.
+ */
+
+import type { SourceCategory } from "../../types/firestore.js";
+import {
+  calculateRelevance,
+  classifyCategories,
+  HEURISTIC_RELEVANCE_MODEL,
+} from "../ingestion/relevance.js";
+import { scoreWithModel, type ScoringModel } from "./model.js";
+import { getActiveRelevanceModel } from "./model-store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ArticleClassification {
+  score: number;
+  isRelevant: boolean;
+  categories: SourceCategory[];
+  /** Stored as Article.relevanceModel */
+  relevanceModel: string;
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Classify with an explicit model (null = heuristic). Pure.
+ * Categories fall back to the keyword classifier when no model head fires.
+ */
+export function classifyWithModel(
+  model: ScoringModel | null,
+  input: {
+    title: string;
+    snippet: string;
+    sourceTags: SourceCategory[];
+    vector?: number[] | null;
+  }
+): ArticleClassification {
+  if (!model) {
+    const relevance = calculateRelevance(input.title, input.snippet, input.sourceTags);
+    return {
+      score: relevance.score,
+      isRelevant: relevance.isRelevant,
+      categories: classifyCategories(input.title, input.snippet, input.sourceTags),
+      relevanceModel: HEURISTIC_RELEVANCE_MODEL,
+    };
+  }
+
+  const result = scoreWithModel(model, input);
+  return {
+    score: result.score,
+    isRelevant: result.isRelevant,
+    categories: result.categories ?? classifyCategories(input.title, input.snippet, input.sourceTags),
+    relevanceModel: model.version,
+  };
+}
+
+/**
+ * Classify with the currently active model (cached).
+ */
+export async function classifyArticle(input: {
+  title: string;
+  snippet: string;
+  sourceTags: SourceCategory[];
+  vector?: number[] | null;
+}): Promise<ArticleClassification> {
+  return classifyWithModel(await getActiveRelevanceModel(), input);
+}
@@ -0,0 +1,140 @@
+/**
+ * Relevance Classifier Features
+ *
+ * Hashes title/snippet unigrams, title-only unigrams, bigrams and source
+ * tags into a fixed-size sparse vector, optionally followed by the
+ * article's embedding. Hashing keeps the model a fixed size no matter how
+ * large the vocabulary grows, so it fits in a single Firestore document.
+ */
+
+import type { SourceCategory } from "../../types/firestore.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default size of the hashed token feature space */
+export const DEFAULT_HASH_DIMS = 4096;
+
+/** Function words that carry no relevance signal */
+const FEATURE_STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "into", "its",
+  "are", "was", "has", "have", "been", "will", "may", "could", "but",
+  "not", "you", "your", "our", "their", "they", "his", "her", "who",
+  "what", "when", "where", "how", "why", "can", "all", "any", "also",
+  "of", "to", "in", "on", "at", "by", "as", "is", "it", "be", "or", "an",
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Classifier input for one article */
+export interface FeatureInput {
+  title: string;
+  snippet: string;
+  sourceTags?: SourceCategory[];
+  /** Article embedding, used only when the model has embeddingDims > 0 */
+  vector?: number[] | null;
+}
+
+/** Sparse feature vector (indices ascending, L2-normalized token part) */
+export interface SparseFeatures {
+  indices: number[];
+  values: number[];
+}
+
+export interface FeatureSpace {
+  hashDims: number;
+  embeddingDims: number;
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Lowercase word tokens. Short tokens such as "ai" or "d&o" are kept so
+ * the model can learn how much (or how little) they mean.
+ */
+export function tokenizeForFeatures(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']s\b/g, "")
+    .split(/[^a-z0-9&]+/)
+    .filter((t) => t.length >= 2 && !FEATURE_STOPWORDS.has(t));
+}
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ============================================================================
+// Featurization
+// ============================================================================
+
+/**
+ * Named (pre-hash) features for an article. Exposed for debugging and tests.
+ */
+export function featureNames(input: FeatureInput): string[] {
+  const titleTokens = tokenizeForFeatures(input.title);
+  const textTokens = [...titleTokens, ...tokenizeForFeatures(input.snippet)];
+
+  const names = new Set<string>();
+  for (const token of textTokens) names.add(`w:${token}`);
+  for (const token of titleTokens) names.add(`t:${token}`);
+  for (let i = 0; i < textTokens.length - 1; i++) {
+    names.add(`b:${textTokens[i]}_${textTokens[i + 1]}`);
+  }
+  for (const tag of input.sourceTags ?? []) names.add(`src:${tag}`);
+
+  return [...names];
+}
+
+/**
+ * Build the sparse feature vector for an article.
+ * Token features are binary and L2-normalized; embedding values follow at
+ * indices [hashDims, hashDims + embeddingDims) when enabled and present.
+ */
+export function featurize(input: FeatureInput, space: FeatureSpace): SparseFeatures {
+  const counts = new Map<number, number>();
+  for (const name of featureNames(input)) {
+    const index = fnv1a(name) % space.hashDims;
+    counts.set(index, (counts.get(index) ?? 0) + 1);
+  }
+
+  const norm = Math.sqrt([...counts.values()].reduce((sum, v) => sum + v * v, 0)) || 1;
+  const entries = [...counts.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, count]) => [index, count / norm] as const);
+
+  const indices = entries.map(([index]) => index);
+  const values = entries.map(([, value]) => value);
+
+  const vector = input.vector;
+  if (space.embeddingDims > 0 && vector && vector.length === space.embeddingDims) {
+    for (let i = 0; i < vector.length; i++) {
+      if (vector[i] !== 0) {
+        indices.push(space.hashDims + i);
+        values.push(vector[i]);
+      }
+    }
+  }
+
+  return { indices, values };
+}
+
+/**
+ * Total weight vector length for a feature space.
+ */
+export function featureDims(space: FeatureSpace): number {
+  return space.hashDims + space.embeddingDims;
+}
@@ -0,0 +1,52 @@
+/**
+ * Relevance Classifier Module Exports
+ */
+
+export {
+  DEFAULT_HASH_DIMS,
+  tokenizeForFeatures,
+  featureNames,
+  featurize,
+  featureDims,
+  type FeatureInput,
+  type SparseFeatures,
+  type FeatureSpace,
+} from "./features.js";
+
+export {
+  predictProbability,
+  trainLogistic,
+  computeMetrics,
+  type LabeledFeatures,
+  type TrainOptions,
+} from "./logistic.js";
+
+export {
+  EDITOR_RELEVANCE_MODEL,
+  MIN_TRAINING_EXAMPLES,
+  MIN_CATEGORY_POSITIVES,
+  generateModelVersion,
+  isEvalExample,
+  trainRelevanceModel,
+  modelActivationError,
+  scoreWithModel,
+  type TrainingExample,
+  type TrainedRelevanceModel,
+  type ScoringModel,
+  type ModelScore,
+} from "./model.js";
+
+export {
+  getActiveRelevanceModel,
+  clearRelevanceModelCache,
+  saveRelevanceModel,
+  activateRelevanceModel,
+  loadTrainingExamples,
+  applyRelevanceFeedback,
+} from "./model-store.js";
+
+export {
+  classifyWithModel,
+  classifyArticle,
+  type ArticleClassification,
+} from "./classify.js";
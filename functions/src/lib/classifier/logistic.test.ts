@@ -0,0 +1,82 @@
+/**
+ * Unit tests for sparse logistic regression training and metrics
+ *
+ * Run: npx tsx --test functions/src/lib/classifier/logistic.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { trainLogistic, predictProbability, computeMetrics } from "./logistic.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** One-hot style sparse vector over the given indices */
+function sparse(...indices: number[]) {
+  return { indices, values: indices.map(() => 1 / Math.sqrt(indices.length)) };
+}
+
+// ============================================================================
+// trainLogistic / predictProbability
+// ============================================================================
+
+describe("trainLogistic", () => {
+  // Feature 0 signals positive, feature 1 negative, feature 2 is noise
+  const examples = [
+    ...Array.from({ length: 10 }, () => ({ features: sparse(0, 2), label: true })),
+    ...Array.from({ length: 30 }, () => ({ features: sparse(1, 2), label: false })),
+  ];
+
+  it("separates linearly separable classes", () => {
+    const head = trainLogistic(examples, { dims: 3 });
+    assert.ok(predictProbability(head, sparse(0, 2)) > 0.8);
+    assert.ok(predictProbability(head, sparse(1, 2)) < 0.2);
+    assert.ok(head.weights[0] > 0);
+    assert.ok(head.weights[1] < 0);
+  });
+
+  it("is deterministic for a seed", () => {
+    const a = trainLogistic(examples, { dims: 3, seed: 7 });
+    const b = trainLogistic(examples, { dims: 3, seed: 7 });
+    assert.deepEqual(a, b);
+  });
+
+  it("predicts the only class seen when labels are one-sided", () => {
+    const head = trainLogistic([{ features: sparse(0), label: false }], { dims: 1 });
+    assert.ok(predictProbability(head, sparse(0)) < 0.05);
+  });
+
+  it("ignores feature indices outside the weight vector", () => {
+    const head = { weights: [1], bias: 0 };
+    assert.equal(predictProbability(head, sparse(5)), 0.5);
+  });
+});
+
+// ============================================================================
+// computeMetrics
+// ============================================================================
+
+describe("computeMetrics", () => {
+  it("computes confusion counts and ratios", () => {
+    const m = computeMetrics(
+      [true, true, false, false, true],
+      [true, false, false, true, true]
+    );
+    assert.equal(m.truePositives, 2);
+    assert.equal(m.falsePositives, 1);
+    assert.equal(m.trueNegatives, 1);
+    assert.equal(m.falseNegatives, 1);
+    assert.equal(m.precision, 0.667);
+    assert.equal(m.recall, 0.667);
+    assert.equal(m.accuracy, 0.6);
+  });
+
+  it("reports zeros instead of NaN", () => {
+    const m = computeMetrics([false], [false]);
+    assert.equal(m.precision, 0);
+    assert.equal(m.recall, 0);
+    assert.equal(m.f1, 0);
+    assert.equal(m.accuracy, 1);
+  });
+});
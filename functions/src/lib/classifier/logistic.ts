@@ -0,0 +1,169 @@
+/**
+ * Logistic Regression over Sparse Features
+ *
+ * Small, dependency-free SGD trainer with L2 regularization and balanced
+ * class weights. Training is deterministic for a given seed so retraining
+ * on the same labels reproduces the same model.
+ */
+
+import type { LogisticHead, ClassifierMetrics } from "../../types/firestore.js";
+import type { SparseFeatures } from "./features.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LabeledFeatures {
+  features: SparseFeatures;
+  label: boolean;
+}
+
+export interface TrainOptions {
+  /** Length of the weight vector */
+  dims: number;
+  epochs?: number;
+  learningRate?: number;
+  /** L2 regularization strength */
+  l2?: number;
+  /** Seed for example shuffling */
+  seed?: number;
+}
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+function sigmoid(z: number): number {
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+/**
+ * Probability that the features belong to the positive class.
+ * Indices beyond the head's weights are ignored.
+ */
+export function predictProbability(head: LogisticHead, features: SparseFeatures): number {
+  let z = head.bias;
+  for (let i = 0; i < features.indices.length; i++) {
+    const weight = head.weights[features.indices[i]];
+    if (weight !== undefined) z += weight * features.values[i];
+  }
+  return sigmoid(z);
+}
+
+// ============================================================================
+// Training
+// ============================================================================
+
+/**
+ * Deterministic PRNG (mulberry32) for shuffling.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Train a binary logistic regression head with SGD.
+ * Positive and negative examples are weighted so both classes contribute
+ * equally, which matters because irrelevant labels usually dominate.
+ */
+export function trainLogistic(examples: LabeledFeatures[], options: TrainOptions): LogisticHead {
+  const epochs = options.epochs ?? 25;
+  const baseRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 1e-4;
+  const random = createRandom(options.seed ?? 42);
+
+  const weights = new Float64Array(options.dims);
+  let bias = 0;
+
+  const positives = examples.filter((e) => e.label).length;
+  const negatives = examples.length - positives;
+  if (positives === 0 || negatives === 0) {
+    // Degenerate: predict the only class seen
+    return { weights: Array.from(weights), bias: positives > 0 ? 4 : -4 };
+  }
+  const positiveWeight = examples.length / (2 * positives);
+  const negativeWeight = examples.length / (2 * negatives);
+
+  const order = examples.map((_, i) => i);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    // Fisher-Yates shuffle
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const rate = baseRate / Math.sqrt(1 + epoch);
+
+    for (const index of order) {
+      const { features, label } = examples[index];
+
+      let z = bias;
+      for (let k = 0; k < features.indices.length; k++) {
+        z += weights[features.indices[k]] * features.values[k];
+      }
+
+      const classWeight = label ? positiveWeight : negativeWeight;
+      const gradient = (sigmoid(z) - (label ? 1 : 0)) * classWeight;
+
+      for (let k = 0; k < features.indices.length; k++) {
+        const i = features.indices[k];
+        // L2 applied to touched weights only (sparse approximation)
+        weights[i] -= rate * (gradient * features.values[k] + l2 * weights[i]);
+      }
+      bias -= rate * gradient;
+    }
+  }
+
+  return { weights: Array.from(weights), bias };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Confusion counts and precision/recall/F1/accuracy.
+ * Ratios with a zero denominator are reported as 0.
+ */
+export function computeMetrics(predicted: boolean[], actual: boolean[]): ClassifierMetrics {
+  let tp = 0;
+  let fp = 0;
+  let tn = 0;
+  let fn = 0;
+
+  for (let i = 0; i < actual.length; i++) {
+    if (predicted[i] && actual[i]) tp++;
+    else if (predicted[i] && !actual[i]) fp++;
+    else if (!predicted[i] && !actual[i]) tn++;
+    else fn++;
+  }
+
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    precision: round3(precision),
+    recall: round3(recall),
+    f1: round3(f1),
+    accuracy: actual.length > 0 ? round3((tp + tn) / actual.length) : 0,
+    truePositives: tp,
+    falsePositives: fp,
+    trueNegatives: tn,
+    falseNegatives: fn,
+  };
+}
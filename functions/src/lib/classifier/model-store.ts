@@ -0,0 +1,292 @@
+/**
+ * Relevance Model and Label Persistence
+ *
+ * - relevanceModels/{version}: trained models; at most one has status "active"
+ * - relevanceLabels/{articleId}: editor feedback used as training data
+ *
+ * The active model is cached in memory so ingestion loads it at most once
+ * per cache window rather than once per article.
+ */
+
+import { getFirestore, Timestamp, FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type {
+  Article,
+  RelevanceLabel,
+  RelevanceModelDoc,
+  SourceCategory,
+  Source,
+} from "../../types/firestore.js";
+import { generateSearchTokens } from "../embeddings/index.js";
+import { indexArticle, unindexArticle } from "../search/index.js";
+import {
+  EDITOR_RELEVANCE_MODEL,
+  modelActivationError,
+  type ScoringModel,
+  type TrainedRelevanceModel,
+  type TrainingExample,
+} from "./model.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long the active model is reused before re-reading Firestore */
+const MODEL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Firestore getAll() batch size when loading label embeddings */
+const EMBEDDING_BATCH_SIZE = 100;
+
+// ============================================================================
+// Active Model Cache
+// ============================================================================
+
+let cachedModel: { model: ScoringModel | null; loadedAt: number } | null = null;
+
+/**
+ * Get the active model, or null when none is active (heuristic scoring).
+ * Load failures are logged and treated as "no model" so ingestion never
+ * stops because of the classifier.
+ */
+export async function getActiveRelevanceModel(): Promise<ScoringModel | null> {
+  if (cachedModel && Date.now() - cachedModel.loadedAt < MODEL_CACHE_TTL_MS) {
+    return cachedModel.model;
+  }
+
+  let model: ScoringModel | null = null;
+  try {
+    const snap = await getFirestore()
+      .collection("relevanceModels")
+      .where("status", "==", "active")
+      .limit(1)
+      .get();
+    model = snap.empty ? null : (snap.docs[0].data() as RelevanceModelDoc);
+    const activationError = model ? modelActivationError(model) : null;
+    if (activationError) {
+      logger.warn("Active relevance model can't score at ingest, using heuristic", { error: activationError });
+      model = null;
+    }
+  } catch (error) {
+    logger.warn("Failed to load relevance model, using heuristic", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  cachedModel = { model, loadedAt: Date.now() };
+  return model;
+}
+
+/**
+ * Drop the cached model (after activation changes in this process).
+ */
+export function clearRelevanceModelCache(): void {
+  cachedModel = null;
+}
+
+// ============================================================================
+// Models
+// ============================================================================
+
+/**
+ * Store a trained model as inactive, optionally activating it.
+ */
+export async function saveRelevanceModel(
+  trained: TrainedRelevanceModel,
+  options?: { activate?: boolean }
+): Promise<void> {
+  const doc: RelevanceModelDoc = {
+    ...trained,
+    status: "inactive",
+    createdAt: Timestamp.now(),
+    activatedAt: null,
+  };
+
+  await getFirestore().collection("relevanceModels").doc(trained.version).set(doc);
+
+  if (options?.activate) {
+    await activateRelevanceModel(trained.version);
+  }
+}
+
+/**
+ * Make a model the only active one. Pass null to deactivate all models and
+ * fall back to the keyword heuristic.
+ *
+ * @throws If the model doesn't exist or was trained with embedding features
+ */
+export async function activateRelevanceModel(version: string | null): Promise<void> {
+  const db = getFirestore();
+  const modelsRef = db.collection("relevanceModels");
+
+  await db.runTransaction(async (tx) => {
+    const activeSnap = await tx.get(modelsRef.where("status", "==", "active"));
+
+    if (version) {
+      const target = await tx.get(modelsRef.doc(version));
+      if (!target.exists) {
+        throw new Error(`Relevance model "${version}" not found`);
+      }
+      const activationError = modelActivationError(target.data() as RelevanceModelDoc);
+      if (activationError) {
+        throw new Error(activationError);
+      }
+    }
+
+    for (const doc of activeSnap.docs) {
+      if (doc.id !== version) {
+        tx.update(doc.ref, { status: "inactive" });
+      }
+    }
+
+    if (version) {
+      tx.update(modelsRef.doc(version), {
+        status: "active",
+        activatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  clearRelevanceModelCache();
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+/**
+ * Load every editor label as a training example.
+ *
+ * @param options.withEmbeddings - Attach article embeddings where available
+ */
+export async function loadTrainingExamples(options?: {
+  withEmbeddings?: boolean;
+}): Promise<TrainingExample[]> {
+  const db = getFirestore();
+  const labelsSnap = await db.collection("relevanceLabels").get();
+
+  const examples: TrainingExample[] = labelsSnap.docs.map((doc) => {
+    const label = doc.data() as RelevanceLabel;
+    return {
+      id: doc.id,
+      title: label.title,
+      snippet: label.snippet,
+      sourceTags: label.sourceTags,
+      isRelevant: label.isRelevant,
+      categories: label.categories,
+      vector: null,
+    };
+  });
+
+  if (options?.withEmbeddings && examples.length > 0) {
+    const byId = new Map(examples.map((e) => [e.id, e]));
+    const ids = [...byId.keys()];
+
+    for (let i = 0; i < ids.length; i += EMBEDDING_BATCH_SIZE) {
+      const refs = ids
+        .slice(i, i + EMBEDDING_BATCH_SIZE)
+        .map((id) => db.collection("articles").doc(id));
+      const docs = await db.getAll(...refs, { fieldMask: ["embedding"] });
+      for (const doc of docs) {
+        const vector = (doc.data() as Pick<Article, "embedding"> | undefined)?.embedding?.vector;
+        const example = byId.get(doc.id);
+        if (example && vector) example.vector = vector;
+      }
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Apply editor feedback to an article and record it as a training label.
+ *
+ * Omitted fields keep their current value (e.g. recategorize without
+ * changing relevance). Repeat feedback on the same article overwrites the
+ * label but keeps the original `previous` snapshot and createdAt.
+ *
+ * @returns The article's new relevance and categories, or null if the
+ *   article does not exist
+ */
+export async function applyRelevanceFeedback(input: {
+  articleId: string;
+  isRelevant?: boolean;
+  categories?: SourceCategory[];
+  labeledBy: string;
+}): Promise<{ isRelevant: boolean; categories: SourceCategory[] } | null> {
+  const db = getFirestore();
+  const articleRef = db.collection("articles").doc(input.articleId);
+  const labelRef = db.collection("relevanceLabels").doc(input.articleId);
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const [articleDoc, labelDoc] = await Promise.all([tx.get(articleRef), tx.get(labelRef)]);
+    if (!articleDoc.exists) {
+      return null;
+    }
+
+    const article = articleDoc.data() as Article;
+    const existingLabel = labelDoc.exists ? (labelDoc.data() as RelevanceLabel) : null;
+
+    const isRelevant = input.isRelevant ?? existingLabel?.isRelevant ?? article.isRelevant;
+    const labeledCategories = input.categories ?? existingLabel?.categories ?? null;
+    const categories = labeledCategories ?? article.categories;
+
+    // Source tags are training features; read them outside the article
+    const sourceDoc = await tx.get(db.collection("sources").doc(article.sourceId));
+    const sourceTags = sourceDoc.exists ? (sourceDoc.data() as Source).tags ?? [] : [];
+
+    const now = Timestamp.now();
+    const label: RelevanceLabel = {
+      articleId: input.articleId,
+      isRelevant,
+      categories: labeledCategories,
+      title: article.title,
+      snippet: article.snippet,
+      sourceId: article.sourceId,
+      sourceTags,
+      previous: existingLabel?.previous ?? {
+        isRelevant: article.isRelevant,
+        relevanceScore: article.relevanceScore,
+        relevanceModel: article.relevanceModel ?? null,
+        categories: article.categories,
+      },
+      labeledBy: input.labeledBy,
+      createdAt: existingLabel?.createdAt ?? now,
+      updatedAt: now,
+    };
+    tx.set(labelRef, label);
+
+    const articleUpdates: Record<string, unknown> = {
+      isRelevant,
+      categories,
+      relevanceScore: isRelevant ? 1 : 0,
+      relevanceModel: EDITOR_RELEVANCE_MODEL,
+    };
+    // Newly relevant articles need searchTokens to appear in lexical search
+    if (isRelevant && (!article.searchTokens || article.searchTokens.length === 0)) {
+      articleUpdates.searchTokens = generateSearchTokens(article);
+    }
+    tx.update(articleRef, articleUpdates);
+
+    return { isRelevant, categories, article };
+  });
+
+  if (!outcome) {
+    return null;
+  }
+
+  // Keep feed search in step with relevance (non-fatal: rebuildSearchIndex repairs)
+  const { article, isRelevant, categories } = outcome;
+  if (isRelevant !== article.isRelevant) {
+    try {
+      const indexed = { ...article, id: input.articleId };
+      await (isRelevant ? indexArticle(indexed) : unindexArticle(indexed));
+    } catch (error) {
+      logger.warn("Search index update failed", {
+        articleId: input.articleId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { isRelevant, categories };
+}
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for relevance features, model training and scoring
+ *
+ * Run: npx tsx --test functions/src/lib/classifier/model.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SourceCategory } from "../../types/firestore.js";
+import { tokenizeForFeatures, featureNames, featurize } from "./features.js";
+import {
+  MIN_TRAINING_EXAMPLES,
+  generateModelVersion,
+  isEvalExample,
+  modelActivationError,
+  trainRelevanceModel,
+  scoreWithModel,
+  type TrainingExample,
+} from "./model.js";
+import { classifyWithModel } from "./classify.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const RELEVANT_TITLES = [
+  "Carrier files homeowners rate increase after hail losses",
+  "Reinsurers tighten terms at renewals as cat losses mount",
+  "Commercial auto liability verdicts push reserve strengthening",
+  "Florida property insurer placed into receivership",
+  "Workers comp claims frequency declines for third year",
+];
+
+const IRRELEVANT_TITLES = [
+  "Tech platform launches AI chatbot for retail shoppers",
+  "Retro sneaker brand raises funding from startup investors",
+  "Streaming platform adds new AI recommendation tech",
+  "Health plan enrollment rises under Medicare expansion",
+  "Life insurance sales climb as annuity demand grows",
+];
+
+function makeExamples(count: number): TrainingExample[] {
+  const examples: TrainingExample[] = [];
+  for (let i = 0; i < count; i++) {
+    const relevant = i % 2 === 0;
+    const titles = relevant ? RELEVANT_TITLES : IRRELEVANT_TITLES;
+    const categories: SourceCategory[] | null = relevant
+      ? [i % 4 === 0 ? "property_cat" : "casualty_liability"]
+      : null;
+    examples.push({
+      id: `article-${i}`,
+      title: titles[i % titles.length],
+      snippet: "",
+      sourceTags: [],
+      isRelevant: relevant,
+      categories,
+    });
+  }
+  return examples;
+}
+
+// ============================================================================
+// Features
+// ============================================================================
+
+describe("tokenizeForFeatures", () => {
+  it("keeps short domain tokens and drops stopwords", () => {
+    assert.deepEqual(tokenizeForFeatures("The AI of D&O and the Insurer's book"), [
+      "ai", "d&o", "insurer", "book",
+    ]);
+  });
+});
+
+describe("featurize", () => {
+  it("produces title, word, bigram and source tag features", () => {
+    const names = featureNames({ title: "Cat bond", snippet: "issuance", sourceTags: ["reinsurance"] });
+    assert.ok(names.includes("t:cat"));
+    assert.ok(names.includes("w:issuance"));
+    assert.ok(names.includes("b:cat_bond"));
+    assert.ok(names.includes("src:reinsurance"));
+  });
+
+  it("normalizes token features and appends embeddings when enabled", () => {
+    const space = { hashDims: 64, embeddingDims: 2 };
+    const f = featurize({ title: "hail losses", snippet: "", vector: [0.5, -0.5] }, space);
+    const tokenNorm = Math.sqrt(
+      f.values.filter((_, i) => f.indices[i] < 64).reduce((s, v) => s + v * v, 0)
+    );
+    assert.ok(Math.abs(tokenNorm - 1) < 1e-9);
+    assert.deepEqual(f.indices.slice(-2), [64, 65]);
+
+    const noEmbedding = featurize({ title: "hail losses", snippet: "", vector: [0.5, -0.5] }, { hashDims: 64, embeddingDims: 0 });
+    assert.ok(noEmbedding.indices.every((i) => i < 64));
+  });
+});
+
+// ============================================================================
+// Training
+// ============================================================================
+
+describe("trainRelevanceModel", () => {
+  it("refuses to train on too few or one-sided labels", () => {
+    assert.throws(() => trainRelevanceModel(makeExamples(10), { version: "v" }), /at least/);
+    const oneSided = makeExamples(MIN_TRAINING_EXAMPLES).map((e) => ({ ...e, isRelevant: true }));
+    assert.throws(() => trainRelevanceModel(oneSided, { version: "v" }), /both/);
+  });
+
+  it("learns the labels and reports metrics for model and heuristic", () => {
+    const model = trainRelevanceModel(makeExamples(120), { version: "lr-test", hashDims: 512 });
+    assert.equal(model.version, "lr-test");
+    assert.equal(model.relevance.weights.length, 512);
+    assert.equal(model.trainingExamples + model.evalExamples, 120);
+    assert.ok(model.evalExamples > 0);
+    assert.ok(model.metrics.model.f1 >= 0.9);
+    assert.ok(model.metrics.heuristic.precision >= 0);
+    assert.ok(model.categories.property_cat);
+    assert.ok(model.categories.casualty_liability);
+    assert.equal(model.categories.reinsurance, undefined);
+  });
+});
+
+describe("scoreWithModel / classifyWithModel", () => {
+  const trained = trainRelevanceModel(makeExamples(120), { version: "lr-test", hashDims: 512 });
+
+  it("scores with the trained model and records its version", () => {
+    const result = classifyWithModel(trained, {
+      title: "Homeowners rate increase follows hail losses",
+      snippet: "",
+      sourceTags: [],
+    });
+    assert.equal(result.relevanceModel, "lr-test");
+    assert.equal(result.isRelevant, true);
+
+    const noise = scoreWithModel(trained, { title: "Streaming platform launches AI tech", snippet: "" });
+    assert.equal(noise.isRelevant, false);
+  });
+
+  it("falls back to the heuristic when no model is active", () => {
+    const result = classifyWithModel(null, {
+      title: "Reinsurance renewals see rate declines",
+      snippet: "",
+      sourceTags: ["reinsurance"],
+    });
+    assert.equal(result.relevanceModel, "heuristic-v1");
+    assert.ok(result.categories.includes("reinsurance"));
+  });
+});
+
+describe("embedding-trained models", () => {
+  const withVectors = makeExamples(120).map((e) => ({ ...e, vector: e.isRelevant ? [1, 0] : [0, 1] }));
+  const trained = trainRelevanceModel(withVectors, { version: "lr-emb", hashDims: 512, useEmbeddings: true });
+  const input = { title: "Quarterly market update", snippet: "" };
+
+  it("scores differently without the vector it was trained on", () => {
+    assert.equal(trained.embeddingDims, 2);
+    const withVector = scoreWithModel(trained, { ...input, vector: [1, 0] });
+    const withoutVector = scoreWithModel(trained, input);
+    assert.ok(withVector.score > withoutVector.score);
+  });
+
+  it("can't be activated for ingest, unlike a text-only model", () => {
+    assert.match(modelActivationError(trained) ?? "", /embedding features/);
+    const textOnly = trainRelevanceModel(makeExamples(120), { version: "lr-text", hashDims: 512 });
+    assert.equal(modelActivationError(textOnly), null);
+  });
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+describe("generateModelVersion", () => {
+  it("formats the UTC training time", () => {
+    assert.equal(generateModelVersion(new Date(Date.UTC(2026, 9, 19, 14, 5))), "lr-20261019-1405");
+  });
+});
+
+describe("isEvalExample", () => {
+  it("is stable per ID and holds out roughly the requested share", () => {
+    assert.equal(isEvalExample("abc"), isEvalExample("abc"));
+    const held = Array.from({ length: 1000 }, (_, i) => isEvalExample(`id-${i}`)).filter(Boolean).length;
+    assert.ok(held > 120 && held < 280);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Relevance Model Training and Scoring
+ *
+ * Trains a relevance head plus one-vs-rest category heads from editor
+ * labels, evaluates both the model and the keyword heuristic on the same
+ * held-out labels, and scores new articles with a stored model. Saving,
+ * activating and loading models is model-store.ts's job.
+ */
+
+import type {
+  SourceCategory,
+  LogisticHead,
+  RelevanceModelDoc,
+} from "../../types/firestore.js";
+import { calculateRelevance } from "../ingestion/relevance.js";
+import {
+  featurize,
+  featureDims,
+  DEFAULT_HASH_DIMS,
+  type FeatureInput,
+  type FeatureSpace,
+} from "./features.js";
+import { trainLogistic, predictProbability, computeMetrics } from "./logistic.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** relevanceModel value for articles labeled by an editor */
+export const EDITOR_RELEVANCE_MODEL = "editor";
+
+/** Minimum labels (with both classes present) before a model is trained */
+export const MIN_TRAINING_EXAMPLES = 50;
+
+/** Minimum positive labels before a category head is trained */
+export const MIN_CATEGORY_POSITIVES = 8;
+
+/** Share of labels held out for evaluation */
+const EVAL_FRACTION = 0.2;
+
+/** Category probability needed to assign a category */
+const CATEGORY_THRESHOLD = 0.5;
+
+/** Maximum categories per article (matches classifyCategories) */
+const MAX_CATEGORIES = 3;
+
+const ALL_CATEGORIES: SourceCategory[] = [
+  "property_cat",
+  "casualty_liability",
+  "regulation",
+  "claims",
+  "reinsurance",
+  "insurtech",
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One labeled article */
+export interface TrainingExample extends FeatureInput {
+  id: string;
+  isRelevant: boolean;
+  /** Editor categories, or null when only relevance was labeled */
+  categories: SourceCategory[] | null;
+}
+
+/** A trained model before it is stored */
+export type TrainedRelevanceModel = Omit<RelevanceModelDoc, "status" | "createdAt" | "activatedAt">;
+
+/** Stored model fields needed for scoring */
+export type ScoringModel = Pick<
+  RelevanceModelDoc,
+  "version" | "hashDims" | "embeddingDims" | "threshold" | "relevance" | "categories"
+>;
+
+export interface ModelScore {
+  /** Relevance probability (0-1, 2 decimals) */
+  score: number;
+  isRelevant: boolean;
+  /** Predicted categories, or null if no category head cleared the threshold */
+  categories: SourceCategory[] | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Model version from its training time, e.g. "lr-20261019-1405" (UTC).
+ */
+export function generateModelVersion(date: Date): string {
+  const iso = date.toISOString();
+  return `lr-${iso.slice(0, 10).replace(/-/g, "")}-${iso.slice(11, 16).replace(":", "")}`;
+}
+
+/**
+ * Deterministic train/eval split by article ID, so the same label always
+ * lands on the same side across retrains.
+ */
+export function isEvalExample(id: string, evalFraction = EVAL_FRACTION): boolean {
+  // FNV-1a plus a final avalanche so sequential IDs spread evenly
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return ((hash >>> 0) % 1000) / 1000 < evalFraction;
+}
+
+/**
+ * Round weights to keep the stored model document small.
+ */
+function compactHead(head: LogisticHead): LogisticHead {
+  return {
+    weights: head.weights.map((w) => Math.round(w * 1e5) / 1e5),
+    bias: Math.round(head.bias * 1e5) / 1e5,
+  };
+}
+
+// ============================================================================
+// Training
+// ============================================================================
+
+/**
+ * Train and evaluate a model.
+ *
+ * @throws If there are too few labels or only one class is present
+ */
+export function trainRelevanceModel(
+  examples: TrainingExample[],
+  options: {
+    version: string;
+    hashDims?: number;
+    useEmbeddings?: boolean;
+    threshold?: number;
+    seed?: number;
+  }
+): TrainedRelevanceModel {
+  const positives = examples.filter((e) => e.isRelevant).length;
+  if (examples.length < MIN_TRAINING_EXAMPLES || positives === 0 || positives === examples.length) {
+    throw new Error(
+      `Need at least ${MIN_TRAINING_EXAMPLES} labels with both relevant and irrelevant examples ` +
+        `(have ${examples.length}, ${positives} relevant)`
+    );
+  }
+
+  // Embedding size is taken from the examples; articles without one get zeros
+  const embeddingDims = options.useEmbeddings
+    ? examples.find((e) => e.vector && e.vector.length > 0)?.vector?.length ?? 0
+    : 0;
+  const space: FeatureSpace = { hashDims: options.hashDims ?? DEFAULT_HASH_DIMS, embeddingDims };
+  const dims = featureDims(space);
+  const threshold = options.threshold ?? 0.5;
+
+  const featurized = examples.map((e) => ({ example: e, features: featurize(e, space) }));
+  const train = featurized.filter((f) => !isEvalExample(f.example.id));
+  const evaluation = featurized.filter((f) => isEvalExample(f.example.id));
+
+  const relevance = trainLogistic(
+    train.map((f) => ({ features: f.features, label: f.example.isRelevant })),
+    { dims, seed: options.seed }
+  );
+
+  // Category heads only learn from labels where an editor set categories
+  const categories: Partial<Record<SourceCategory, LogisticHead>> = {};
+  const categorized = train.filter((f) => f.example.categories !== null);
+  for (const category of ALL_CATEGORIES) {
+    const categoryPositives = categorized.filter((f) => f.example.categories!.includes(category)).length;
+    if (categoryPositives < MIN_CATEGORY_POSITIVES || categoryPositives === categorized.length) continue;
+
+    categories[category] = compactHead(
+      trainLogistic(
+        categorized.map((f) => ({
+          features: f.features,
+          label: f.example.categories!.includes(category),
+        })),
+        { dims, seed: options.seed }
+      )
+    );
+  }
+
+  const actual = evaluation.map((f) => f.example.isRelevant);
+  const modelPredicted = evaluation.map((f) => predictProbability(relevance, f.features) >= threshold);
+  const heuristicPredicted = evaluation.map(
+    (f) => calculateRelevance(f.example.title, f.example.snippet, f.example.sourceTags).isRelevant
+  );
+
+  return {
+    version: options.version,
+    hashDims: space.hashDims,
+    embeddingDims,
+    threshold,
+    relevance: compactHead(relevance),
+    categories,
+    trainingExamples: train.length,
+    evalExamples: evaluation.length,
+    metrics: {
+      model: computeMetrics(modelPredicted, actual),
+      heuristic: computeMetrics(heuristicPredicted, actual),
+    },
+  };
+}
+
+/**
+ * Why a model can't be used at ingest, or null if it can. Ingest scores
+ * articles before they are embedded, so a model trained with embedding
+ * features would see zeros there and score differently than it was
+ * evaluated.
+ */
+export function modelActivationError(model: Pick<ScoringModel, "version" | "embeddingDims">): string | null {
+  if (model.embeddingDims > 0) {
+    return (
+      `Relevance model "${model.version}" was trained with embedding features, ` +
+      "which ingest does not have when it scores articles; retrain without --embeddings to activate"
+    );
+  }
+  return null;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score an article with a stored model.
+ */
+export function scoreWithModel(model: ScoringModel, input: FeatureInput): ModelScore {
+  const features = featurize(input, {
+    hashDims: model.hashDims,
+    embeddingDims: model.embeddingDims,
+  });
+
+  const probability = predictProbability(model.relevance, features);
+
+  const categories = Object.entries(model.categories)
+    .map(([category, head]) => ({
+      category: category as SourceCategory,
+      probability: predictProbability(head as LogisticHead, features),
+    }))
+    .filter((c) => c.probability >= CATEGORY_THRESHOLD)
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, MAX_CATEGORIES)
+    .map((c) => c.category);
+
+  return {
+    score: Math.round(probability * 100) / 100,
+    isRelevant: probability >= model.threshold,
+    categories: categories.length > 0 ? categories : null,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Story Cluster Persistence
+ *
+ * Assigns newly ingested articles to storyClusters/{clusterId} documents.
+ * An in-memory index of recent articles is loaded once per ingestion run so
+ * each new item is matched without additional queries.
+ */
+
+import { getFirestore, Timestamp, FieldValue } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { Article, StoryCluster, StoryClusterMember } from "../../types/firestore.js";
+import {
+  buildClusterCandidate,
+  findBestClusterMatch,
+  pickLeadMember,
+  CLUSTER_WINDOW_HOURS,
+  type ClusterCandidate,
+} from "./similarity.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Recent articles available for matching during an ingestion run */
+export interface ClusterIndex {
+  candidates: ClusterCandidate[];
+}
+
+/** Article fields needed to join (or seed) a cluster */
+export type ClusterableArticle = Pick<
+  Article,
+  "id" | "sourceId" | "sourceName" | "title" | "snippet" | "url" | "publishedAt" | "relevanceScore"
+> & {
+  clusterId?: string | null;
+  embedding?: Article["embedding"];
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum recent articles held in the matching index */
+const MAX_INDEX_ARTICLES = 300;
+
+/** Max document refs per getAll() call */
+const GET_ALL_BATCH_SIZE = 100;
+
+// ============================================================================
+// Index Loading
+// ============================================================================
+
+/**
+ * Load recent relevant articles into a matching index.
+ * Only the fields needed for similarity are read.
+ */
+export async function loadClusterIndex(): Promise<ClusterIndex> {
+  const db = getFirestore();
+  const cutoff = new Date(Date.now() - CLUSTER_WINDOW_HOURS * 60 * 60 * 1000);
+
+  const snap = await db
+    .collection("articles")
+    .where("isRelevant", "==", true)
+    .where("publishedAt", ">=", Timestamp.fromDate(cutoff))
+    .orderBy("publishedAt", "desc")
+    .limit(MAX_INDEX_ARTICLES)
+    .select("sourceId", "title", "snippet", "publishedAt", "clusterId", "embedding")
+    .get();
+
+  const candidates = snap.docs.map((doc) => {
+    const data = doc.data() as Partial<Article>;
+    return buildClusterCandidate({
+      id: doc.id,
+      sourceId: data.sourceId ?? "",
+      title: data.title ?? "",
+      snippet: data.snippet ?? "",
+      publishedAtMs: data.publishedAt?.toMillis() ?? 0,
+      clusterId: data.clusterId ?? null,
+      vector: data.embedding?.vector ?? null,
+    });
+  });
+
+  logger.debug("Loaded cluster index", { articles: candidates.length });
+
+  return { candidates };
+}
+
+// ============================================================================
+// Cluster Assignment
+// ============================================================================
+
+/**
+ * Build the denormalized member entry for a cluster.
+ */
+function toClusterMember(article: ClusterableArticle): StoryClusterMember {
+  return {
+    articleId: article.id,
+    sourceId: article.sourceId,
+    sourceName: article.sourceName,
+    title: article.title,
+    url: article.url,
+    publishedAt: article.publishedAt,
+    relevanceScore: article.relevanceScore,
+  };
+}
+
+/**
+ * Recompute the derived cluster fields from its member list.
+ */
+function summarizeMembers(
+  members: StoryClusterMember[]
+): Pick<StoryCluster, "leadArticleId" | "memberArticleIds" | "sourceIds" | "sourceCount" | "firstPublishedAt" | "lastPublishedAt"> {
+  const lead = pickLeadMember(
+    members.map((m) => ({
+      articleId: m.articleId,
+      relevanceScore: m.relevanceScore,
+      publishedAtMs: m.publishedAt.toMillis(),
+    }))
+  );
+  const sorted = [...members].sort((a, b) => a.publishedAt.toMillis() - b.publishedAt.toMillis());
+  const sourceIds = [...new Set(members.map((m) => m.sourceId))];
+
+  return {
+    leadArticleId: lead?.articleId ?? members[0].articleId,
+    memberArticleIds: members.map((m) => m.articleId),
+    sourceIds,
+    sourceCount: sourceIds.length,
+    firstPublishedAt: sorted[0].publishedAt,
+    lastPublishedAt: sorted[sorted.length - 1].publishedAt,
+  };
+}
+
+/**
+ * Match a freshly stored article against the index and attach it to a story
+ * cluster. Creates the cluster when the best match is not yet clustered.
+ *
+ * The article document must already exist. The index is updated in place so
+ * later items in the same run can join the cluster.
+ *
+ * @returns The cluster ID, or null if the article stands alone
+ */
+export async function assignArticleToCluster(
+  index: ClusterIndex,
+  article: ClusterableArticle
+): Promise<string | null> {
+  const target = buildClusterCandidate({
+    id: article.id,
+    sourceId: article.sourceId,
+    title: article.title,
+    snippet: article.snippet,
+    publishedAtMs: article.publishedAt.toMillis(),
+    clusterId: article.clusterId ?? null,
+    vector: article.embedding?.vector ?? null,
+  });
+
+  const match = findBestClusterMatch(target, index.candidates);
+  if (!match) {
+    index.candidates.push(target);
+    return null;
+  }
+
+  const db = getFirestore();
+  const matched = match.candidate;
+  // Seeded clusters are keyed by the first article so re-runs are idempotent
+  const clusterId = matched.clusterId ?? `story_${matched.id}`;
+  const clusterRef = db.collection("storyClusters").doc(clusterId);
+
+  await db.runTransaction(async (tx) => {
+    const clusterDoc = await tx.get(clusterRef);
+    let members: StoryClusterMember[];
+
+    if (clusterDoc.exists) {
+      members = (clusterDoc.data() as StoryCluster).members ?? [];
+    } else {
+      const matchedDoc = await tx.get(db.collection("articles").doc(matched.id));
+      if (!matchedDoc.exists) {
+        throw new Error(`Matched article ${matched.id} no longer exists`);
+      }
+      members = [toClusterMember({ ...(matchedDoc.data() as Article), id: matched.id })];
+      tx.update(matchedDoc.ref, { clusterId });
+    }
+
+    if (!members.some((m) => m.articleId === article.id)) {
+      members.push(toClusterMember(article));
+    }
+
+    tx.set(
+      clusterRef,
+      {
+        id: clusterId,
+        members,
+        ...summarizeMembers(members),
+        ...(clusterDoc.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    tx.update(db.collection("articles").doc(article.id), { clusterId });
+  });
+
+  matched.clusterId = clusterId;
+  target.clusterId = clusterId;
+  index.candidates.push(target);
+
+  logger.debug("Article clustered", {
+    articleId: article.id,
+    clusterId,
+    matchedArticleId: matched.id,
+    score: Math.round(match.score * 100) / 100,
+  });
+
+  return clusterId;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Batch-fetch story clusters by ID. Missing clusters are omitted.
+ */
+export async function getClustersByIds(
+  clusterIds: string[]
+): Promise<Map<string, StoryCluster>> {
+  const db = getFirestore();
+  const unique = [...new Set(clusterIds.filter(Boolean))];
+  const clusters = new Map<string, StoryCluster>();
+
+  for (let i = 0; i < unique.length; i += GET_ALL_BATCH_SIZE) {
+    const refs = unique
+      .slice(i, i + GET_ALL_BATCH_SIZE)
+      .map((id) => db.collection("storyClusters").doc(id));
+    if (refs.length === 0) continue;
+
+    const docs = await db.getAll(...refs);
+    for (const doc of docs) {
+      if (doc.exists) {
+        clusters.set(doc.id, { ...(doc.data() as StoryCluster), id: doc.id });
+      }
+    }
+  }
+
+  return clusters;
+}
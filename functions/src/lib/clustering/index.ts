@@ -0,0 +1,28 @@
+/**
+ * Story Clustering Module Exports
+ */
+
+export {
+  CLUSTER_SIMILARITY_THRESHOLD,
+  CLUSTER_WINDOW_HOURS,
+  tokenizeForClustering,
+  buildClusterCandidate,
+  diceCoefficient,
+  storySimilarity,
+  findBestClusterMatch,
+  pickLeadMember,
+  otherSourceNames,
+  collapseByCluster,
+  type ClusterCandidate,
+  type ClusterMatch,
+  type ClusterableItem,
+  type CollapsedItem,
+} from "./similarity.js";
+
+export {
+  loadClusterIndex,
+  assignArticleToCluster,
+  getClustersByIds,
+  type ClusterIndex,
+  type ClusterableArticle,
+} from "./cluster-store.js";
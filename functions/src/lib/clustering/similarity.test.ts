@@ -0,0 +1,193 @@
+/**
+ * Unit tests for cross-source story similarity and cluster collapsing
+ *
+ * Run: npx tsx --test functions/src/lib/clustering/similarity.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  tokenizeForClustering,
+  buildClusterCandidate,
+  diceCoefficient,
+  storySimilarity,
+  findBestClusterMatch,
+  pickLeadMember,
+  otherSourceNames,
+  collapseByCluster,
+} from "./similarity.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASE_MS = Date.UTC(2026, 1, 10, 12, 0, 0);
+
+function makeCandidate(
+  id: string,
+  sourceId: string,
+  title: string,
+  options?: { snippet?: string; hoursOffset?: number; vector?: number[]; clusterId?: string }
+) {
+  return buildClusterCandidate({
+    id,
+    sourceId,
+    title,
+    snippet: options?.snippet ?? "",
+    publishedAtMs: BASE_MS + (options?.hoursOffset ?? 0) * HOUR_MS,
+    clusterId: options?.clusterId ?? null,
+    vector: options?.vector ?? null,
+  });
+}
+
+// ============================================================================
+// tokenizeForClustering
+// ============================================================================
+
+describe("tokenizeForClustering", () => {
+  it("lowercases, strips punctuation and stopwords", () => {
+    const tokens = tokenizeForClustering("State Farm's Rate Hike: What It Means for Insurers");
+    assert.ok(tokens.has("state"));
+    assert.ok(tokens.has("farm"));
+    assert.ok(tokens.has("rate"));
+    assert.ok(tokens.has("hike"));
+    assert.ok(!tokens.has("what"));
+    assert.ok(!tokens.has("insurers"));
+  });
+
+  it("keeps short numeric tokens", () => {
+    const tokens = tokenizeForClustering("Carrier seeks 30% increase");
+    assert.ok(tokens.has("30"));
+  });
+});
+
+// ============================================================================
+// diceCoefficient
+// ============================================================================
+
+describe("diceCoefficient", () => {
+  it("returns 1 for identical sets", () => {
+    assert.equal(diceCoefficient(new Set(["a", "b"]), new Set(["a", "b"])), 1);
+  });
+
+  it("returns 0 when either set is empty", () => {
+    assert.equal(diceCoefficient(new Set(), new Set(["a"])), 0);
+  });
+
+  it("computes partial overlap", () => {
+    assert.equal(diceCoefficient(new Set(["a", "b"]), new Set(["b", "c"])), 0.5);
+  });
+});
+
+// ============================================================================
+// storySimilarity / findBestClusterMatch
+// ============================================================================
+
+describe("storySimilarity", () => {
+  it("scores reworded headlines about the same event highly", () => {
+    const a = makeCandidate("a1", "insurance-journal", "State Farm requests 30% homeowners rate hike in California");
+    const b = makeCandidate("b1", "claims-journal", "State Farm seeks 30% California homeowners rate increase");
+    assert.ok(storySimilarity(a, b) >= 0.55);
+  });
+
+  it("scores unrelated headlines low", () => {
+    const a = makeCandidate("a1", "insurance-journal", "State Farm requests 30% homeowners rate hike in California");
+    const b = makeCandidate("b1", "artemis", "New catastrophe bond sponsored by Swiss Re prices above guidance");
+    assert.ok(storySimilarity(a, b) < 0.2);
+  });
+
+  it("blends in embedding similarity when both vectors exist", () => {
+    const a = makeCandidate("a1", "s1", "Carrier exits Florida", { vector: [1, 0] });
+    const same = makeCandidate("b1", "s2", "Florida withdrawal announced", { vector: [1, 0] });
+    const different = makeCandidate("c1", "s3", "Florida withdrawal announced", { vector: [0, 1] });
+    assert.ok(storySimilarity(a, same) > storySimilarity(a, different));
+  });
+});
+
+describe("findBestClusterMatch", () => {
+  const target = makeCandidate("t1", "insurance-journal", "Travelers to acquire regional carrier in $2 billion deal");
+
+  it("matches the closest article from another source", () => {
+    const match = findBestClusterMatch(target, [
+      makeCandidate("c1", "business-insurance", "Travelers agrees to acquire regional carrier for $2 billion"),
+      makeCandidate("c2", "artemis", "Cat bond market hits record issuance"),
+    ]);
+    assert.equal(match?.candidate.id, "c1");
+  });
+
+  it("ignores articles from the same source", () => {
+    const match = findBestClusterMatch(target, [
+      makeCandidate("c1", "insurance-journal", "Travelers to acquire regional carrier in $2 billion deal"),
+    ]);
+    assert.equal(match, null);
+  });
+
+  it("ignores articles outside the publication window", () => {
+    const match = findBestClusterMatch(target, [
+      makeCandidate("c1", "business-insurance", "Travelers to acquire regional carrier in $2 billion deal", {
+        hoursOffset: -72,
+      }),
+    ]);
+    assert.equal(match, null);
+  });
+
+  it("returns null when nothing clears the threshold", () => {
+    const match = findBestClusterMatch(target, [
+      makeCandidate("c1", "claims-journal", "Hail season losses mount in Texas"),
+    ]);
+    assert.equal(match, null);
+  });
+});
+
+// ============================================================================
+// Cluster helpers
+// ============================================================================
+
+describe("pickLeadMember", () => {
+  it("prefers highest relevance, then earliest publication", () => {
+    const lead = pickLeadMember([
+      { articleId: "a", relevanceScore: 0.6, publishedAtMs: 2 },
+      { articleId: "b", relevanceScore: 0.9, publishedAtMs: 3 },
+      { articleId: "c", relevanceScore: 0.9, publishedAtMs: 1 },
+    ]);
+    assert.equal(lead?.articleId, "c");
+  });
+
+  it("returns null for an empty cluster", () => {
+    assert.equal(pickLeadMember([]), null);
+  });
+});
+
+describe("otherSourceNames", () => {
+  it("excludes the given source and de-duplicates", () => {
+    const names = otherSourceNames(
+      [
+        { sourceId: "ij", sourceName: "Insurance Journal" },
+        { sourceId: "cj", sourceName: "Claims Journal" },
+        { sourceId: "cj", sourceName: "Claims Journal" },
+        { sourceId: "bi", sourceName: "Business Insurance" },
+      ],
+      "ij"
+    );
+    assert.deepEqual(names, ["Claims Journal", "Business Insurance"]);
+  });
+});
+
+describe("collapseByCluster", () => {
+  it("keeps the first item per cluster and preserves order", () => {
+    const collapsed = collapseByCluster([
+      { id: "1", clusterId: "x" },
+      { id: "2", clusterId: null },
+      { id: "3", clusterId: "x" },
+      { id: "4", clusterId: "y" },
+    ]);
+    assert.deepEqual(collapsed.map((c) => c.item.id), ["1", "2", "4"]);
+    assert.deepEqual(collapsed[0].duplicates.map((d) => d.id), ["3"]);
+  });
+
+  it("passes unclustered items through", () => {
+    const collapsed = collapseByCluster([{ id: "1" }, { id: "2" }]);
+    assert.equal(collapsed.length, 2);
+  });
+});
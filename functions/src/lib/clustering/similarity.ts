@@ -0,0 +1,264 @@
+/**
+ * Story Similarity for Cross-Source Clustering
+ *
+ * Decides whether two articles from different sources cover the same event.
+ * Combines title/snippet token overlap with embedding cosine similarity
+ * when both articles already have vectors.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Minimum combined similarity to treat two articles as the same story */
+export const CLUSTER_SIMILARITY_THRESHOLD = 0.55;
+
+/** Maximum publication gap between two articles in the same story */
+export const CLUSTER_WINDOW_HOURS = 48;
+
+/** Weight of title overlap vs. title+snippet overlap in the lexical score */
+const TITLE_WEIGHT = 0.6;
+
+/** Weight of the embedding score when both vectors are available */
+const VECTOR_WEIGHT = 0.5;
+
+/** Tokens that carry no signal for "same event" matching */
+const CLUSTER_STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "into", "its",
+  "are", "was", "has", "have", "been", "will", "may", "could", "after",
+  "over", "amid", "about", "than", "more", "new", "says", "said", "report",
+  "reports", "insurance", "insurer", "insurers", "industry", "market",
+  "news", "update", "what", "why", "how", "who",
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Precomputed matching features for one article */
+export interface ClusterCandidate {
+  id: string;
+  sourceId: string;
+  publishedAtMs: number;
+  clusterId: string | null;
+  titleTokens: Set<string>;
+  textTokens: Set<string>;
+  vector: number[] | null;
+}
+
+export interface ClusterMatch {
+  candidate: ClusterCandidate;
+  score: number;
+}
+
+/** Minimal shape needed to pick a cluster lead */
+export interface LeadCandidate {
+  articleId: string;
+  relevanceScore: number;
+  publishedAtMs: number;
+}
+
+/** Minimal shape needed to collapse a list by cluster */
+export interface ClusterableItem {
+  id: string;
+  clusterId?: string | null;
+}
+
+export interface CollapsedItem<T> {
+  /** First occurrence of the story in the input order */
+  item: T;
+  /** Later items from the same cluster that were folded into `item` */
+  duplicates: T[];
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Tokenize text for story matching.
+ * Lowercases, strips punctuation, drops stopwords and 1-2 char tokens
+ * (numbers are kept since figures like "30" are strong event signals).
+ */
+export function tokenizeForClustering(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((t) => (t.length > 2 || /^\d+$/.test(t)) && !CLUSTER_STOPWORDS.has(t));
+  return new Set(tokens);
+}
+
+/**
+ * Build matching features for an article.
+ */
+export function buildClusterCandidate(input: {
+  id: string;
+  sourceId: string;
+  title: string;
+  snippet: string;
+  publishedAtMs: number;
+  clusterId?: string | null;
+  vector?: number[] | null;
+}): ClusterCandidate {
+  const titleTokens = tokenizeForClustering(input.title);
+  const textTokens = tokenizeForClustering(`${input.title} ${input.snippet}`);
+  return {
+    id: input.id,
+    sourceId: input.sourceId,
+    publishedAtMs: input.publishedAtMs,
+    clusterId: input.clusterId ?? null,
+    titleTokens,
+    textTokens,
+    vector: input.vector ?? null,
+  };
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Dice coefficient between two token sets (0-1).
+ * Preferred over Jaccard because headlines differ in length across publishers.
+ */
+export function diceCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return (2 * intersection) / (a.size + b.size);
+}
+
+/**
+ * Cosine similarity between two vectors of equal length (0 if mismatched).
+ */
+export function vectorSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dot / magnitude;
+}
+
+/**
+ * Combined story similarity (0-1).
+ * Lexical overlap always counts; embeddings are blended in only when
+ * both articles have vectors of the same dimensionality.
+ */
+export function storySimilarity(a: ClusterCandidate, b: ClusterCandidate): number {
+  const lexical =
+    TITLE_WEIGHT * diceCoefficient(a.titleTokens, b.titleTokens) +
+    (1 - TITLE_WEIGHT) * diceCoefficient(a.textTokens, b.textTokens);
+
+  if (a.vector && b.vector && a.vector.length === b.vector.length) {
+    const semantic = Math.max(0, vectorSimilarity(a.vector, b.vector));
+    return (1 - VECTOR_WEIGHT) * lexical + VECTOR_WEIGHT * semantic;
+  }
+
+  return lexical;
+}
+
+/**
+ * Find the most similar article from a different source within the
+ * publication window. Returns null when nothing clears the threshold.
+ */
+export function findBestClusterMatch(
+  target: ClusterCandidate,
+  candidates: ClusterCandidate[],
+  options?: { threshold?: number; windowHours?: number }
+): ClusterMatch | null {
+  const threshold = options?.threshold ?? CLUSTER_SIMILARITY_THRESHOLD;
+  const windowMs = (options?.windowHours ?? CLUSTER_WINDOW_HOURS) * 60 * 60 * 1000;
+
+  let best: ClusterMatch | null = null;
+
+  for (const candidate of candidates) {
+    if (candidate.id === target.id) continue;
+    if (candidate.sourceId === target.sourceId) continue;
+    if (Math.abs(candidate.publishedAtMs - target.publishedAtMs) > windowMs) continue;
+
+    const score = storySimilarity(target, candidate);
+    if (score < threshold) continue;
+
+    if (!best || score > best.score) {
+      best = { candidate, score };
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// Cluster helpers
+// ============================================================================
+
+/**
+ * Pick the lead article for a cluster.
+ * Highest relevance wins; ties go to the earliest report, then article ID
+ * for determinism.
+ */
+export function pickLeadMember<T extends LeadCandidate>(members: T[]): T | null {
+  if (members.length === 0) return null;
+  return [...members].sort(
+    (a, b) =>
+      b.relevanceScore - a.relevanceScore ||
+      a.publishedAtMs - b.publishedAtMs ||
+      a.articleId.localeCompare(b.articleId)
+  )[0];
+}
+
+/**
+ * Names of the other sources covering a story, excluding the given source.
+ * Unique and in member order.
+ */
+export function otherSourceNames(
+  members: Array<{ sourceId: string; sourceName: string }>,
+  excludeSourceId: string
+): string[] {
+  const seen = new Set<string>([excludeSourceId]);
+  const names: string[] = [];
+  for (const m of members) {
+    if (seen.has(m.sourceId)) continue;
+    seen.add(m.sourceId);
+    names.push(m.sourceName);
+  }
+  return names;
+}
+
+/**
+ * Collapse a list so each story cluster occupies one slot.
+ * Preserves input order; the first item seen for a cluster is kept and later
+ * members are attached as duplicates. Unclustered items pass through.
+ */
+export function collapseByCluster<T extends ClusterableItem>(items: T[]): CollapsedItem<T>[] {
+  const result: CollapsedItem<T>[] = [];
+  const byCluster = new Map<string, CollapsedItem<T>>();
+
+  for (const item of items) {
+    const clusterId = item.clusterId;
+    if (!clusterId) {
+      result.push({ item, duplicates: [] });
+      continue;
+    }
+
+    const existing = byCluster.get(clusterId);
+    if (existing) {
+      existing.duplicates.push(item);
+      continue;
+    }
+
+    const entry: CollapsedItem<T> = { item, duplicates: [] };
+    byCluster.set(clusterId, entry);
+    result.push(entry);
+  }
+
+  return result;
+}
@@ -0,0 +1,14 @@
+/**
+ * Digests module — weekly and monthly roll-up briefs
+ */
+
+export {
+  DIGEST_PERIODS,
+  MAX_MOMENTUM_TOPICS,
+  digestId,
+  digestWindowFor,
+  previousDigestWindow,
+  rankDigestArticleIds,
+  toMomentumTopics,
+  type DigestWindow,
+} from "./period.js";
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for digest periods and inputs
+ *
+ * Run: npx tsx --test functions/src/lib/digests/period.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BriefSection } from "../../types/firestore.js";
+import {
+  digestWindowFor,
+  previousDigestWindow,
+  rankDigestArticleIds,
+} from "./period.js";
+
+function sections(articleIds: string[] = []) {
+  const empty: BriefSection = { bullets: [], articleIds: [] };
+  return {
+    propertyCat: { bullets: [], articleIds },
+    casualtyLiability: empty,
+    regulation: empty,
+    claims: empty,
+    reinsurance: empty,
+    insurtech: empty,
+    market: empty,
+  };
+}
+
+function story(articleId: string) {
+  return { articleId, headline: "", whyItMatters: "" };
+}
+
+// ============================================================================
+// Windows
+// ============================================================================
+
+describe("previousDigestWindow", () => {
+  it("covers last Monday through Sunday", () => {
+    // 2026-10-19 is a Monday
+    for (const today of ["2026-10-19", "2026-10-21", "2026-10-25"]) {
+      const window = previousDigestWindow("weekly", today);
+      assert.equal(window.id, "weekly_2026-10-12");
+      assert.equal(window.startDate, "2026-10-12");
+      assert.equal(window.endDate, "2026-10-18");
+      assert.equal(window.dates.length, 7);
+    }
+  });
+
+  it("covers the previous calendar month, across a year boundary", () => {
+    const window = previousDigestWindow("monthly", "2026-01-01");
+    assert.equal(window.id, "monthly_2025-12");
+    assert.equal(window.startDate, "2025-12-01");
+    assert.equal(window.endDate, "2025-12-31");
+    assert.equal(window.dates.length, 31);
+    assert.equal(previousDigestWindow("monthly", "2028-03-15").dates.length, 29);
+  });
+});
+
+describe("digestWindowFor", () => {
+  it("rejects weekly keys that aren't Mondays and malformed keys", () => {
+    assert.equal(digestWindowFor("weekly", "2026-10-13"), null);
+    assert.equal(digestWindowFor("weekly", "2026-02-30"), null);
+    assert.equal(digestWindowFor("monthly", "2026-13"), null);
+    assert.equal(digestWindowFor("monthly", "2026-10-01"), null);
+    assert.equal(digestWindowFor("weekly", "2026-10-12")?.endDate, "2026-10-18");
+  });
+});
+
+// ============================================================================
+// rankDigestArticleIds
+// ============================================================================
+
+describe("rankDigestArticleIds", () => {
+  it("ranks top stories above section citations, ties by first appearance", () => {
+    const ranked = rankDigestArticleIds(
+      [
+        { topStories: [story("a")], sections: sections(["b", "c"]) },
+        { topStories: [story("d")], sections: sections(["c", "a"]) },
+      ],
+      10
+    );
+    // a: 3 + 1, d: 3, c: 2, b: 1
+    assert.deepEqual(ranked, ["a", "d", "c", "b"]);
+  });
+
+  it("respects the limit", () => {
+    const ranked = rankDigestArticleIds(
+      [{ topStories: [story("a"), story("b")], sections: sections(["c"]) }],
+      2
+    );
+    assert.deepEqual(ranked, ["a", "b"]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Digest Periods and Inputs
+ *
+ * Weekly digests cover Monday through Sunday and are keyed by the Monday;
+ * monthly digests cover a calendar month and are keyed yyyy-mm. Both are
+ * generated the morning after the period closes, so the scheduled run
+ * always builds the previous complete period.
+ *
+ * Also ranks the articles behind a period's daily briefs, so the digest
+ * prompt gets the stories the dailies leaned on most rather than every
+ * article any brief touched.
+ */
+
+import type { Brief, DigestMomentumTopic, DigestPeriod } from "../../types/firestore.js";
+import { dateRange, type PulseTopic } from "../signals/index.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DIGEST_PERIODS: DigestPeriod[] = ["weekly", "monthly"];
+
+/** Rising/falling topics kept on the digest */
+export const MAX_MOMENTUM_TOPICS = 8;
+
+const WEEK_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_KEY_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** Ranking weight for an article a daily brief led with */
+const TOP_STORY_WEIGHT = 3;
+
+/** Ranking weight for an article cited in a daily brief section */
+const SECTION_WEIGHT = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The days one digest covers */
+export interface DigestWindow {
+  /** Document ID in digests/ */
+  id: string;
+  period: DigestPeriod;
+  /** Week start (Monday, yyyy-mm-dd) or month (yyyy-mm) */
+  periodKey: string;
+  startDate: string;
+  /** Inclusive */
+  endDate: string;
+  /** Every date key in the window, oldest first */
+  dates: string[];
+}
+
+// ============================================================================
+// Windows
+// ============================================================================
+
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDateKey(date: Date): string {
+  const yyyy = date.getUTCFullYear();
+  const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(date.getUTCDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function addDays(dateKey: string, days: number): string {
+  return formatDateKey(new Date(parseDateKey(dateKey).getTime() + days * 86_400_000));
+}
+
+export function digestId(period: DigestPeriod, periodKey: string): string {
+  return `${period}_${periodKey}`;
+}
+
+/**
+ * The window for a period key, or null when the key is malformed (or, for
+ * weekly, not a Monday).
+ */
+export function digestWindowFor(period: DigestPeriod, periodKey: string): DigestWindow | null {
+  let startDate: string;
+  let endDate: string;
+
+  if (period === "weekly") {
+    if (!WEEK_KEY_REGEX.test(periodKey)) return null;
+    const start = parseDateKey(periodKey);
+    if (Number.isNaN(start.getTime()) || formatDateKey(start) !== periodKey || start.getUTCDay() !== 1) {
+      return null;
+    }
+    startDate = periodKey;
+    endDate = addDays(periodKey, 6);
+  } else {
+    if (!MONTH_KEY_REGEX.test(periodKey)) return null;
+    const [year, month] = periodKey.split("-").map(Number);
+    startDate = formatDateKey(new Date(Date.UTC(year, month - 1, 1)));
+    endDate = formatDateKey(new Date(Date.UTC(year, month, 0)));
+  }
+
+  const days = Math.round((parseDateKey(endDate).getTime() - parseDateKey(startDate).getTime()) / 86_400_000) + 1;
+  return {
+    id: digestId(period, periodKey),
+    period,
+    periodKey,
+    startDate,
+    endDate,
+    dates: dateRange(endDate, days),
+  };
+}
+
+/**
+ * The most recent complete period as of `todayKey`: last Monday-Sunday
+ * week, or last calendar month.
+ */
+export function previousDigestWindow(period: DigestPeriod, todayKey: string): DigestWindow {
+  const today = parseDateKey(todayKey);
+  let periodKey: string;
+
+  if (period === "weekly") {
+    const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+    periodKey = addDays(todayKey, -daysSinceMonday - 7);
+  } else {
+    const lastMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+    periodKey = formatDateKey(lastMonth).slice(0, 7);
+  }
+
+  return digestWindowFor(period, periodKey)!;
+}
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+/**
+ * Article IDs behind a period's daily briefs, most relied-on first: each
+ * top-story slot counts 3, each section citation 1; ties keep the order
+ * the articles first appeared in (oldest brief first).
+ */
+export function rankDigestArticleIds(
+  briefs: Pick<Brief, "topStories" | "sections">[],
+  limit: number
+): string[] {
+  const scores = new Map<string, number>();
+  const add = (articleId: string, weight: number) => {
+    scores.set(articleId, (scores.get(articleId) ?? 0) + weight);
+  };
+
+  for (const brief of briefs) {
+    for (const story of brief.topStories) {
+      add(story.articleId, TOP_STORY_WEIGHT);
+    }
+    for (const section of Object.values(brief.sections)) {
+      for (const articleId of section.articleIds) {
+        add(articleId, SECTION_WEIGHT);
+      }
+    }
+  }
+
+  // Map iteration order is first-appearance order, and sort is stable
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([articleId]) => articleId);
+}
+
+/** Pulse topics trimmed to what the digest stores */
+export function toMomentumTopics(topics: PulseTopic[]): DigestMomentumTopic[] {
+  return topics.slice(0, MAX_MOMENTUM_TOPICS).map((t) => ({
+    key: t.key,
+    displayName: t.displayName,
+    mentions: t.mentions,
+    baselineMentions: t.baselineMentions,
+    momentum: t.momentum,
+  }));
+}
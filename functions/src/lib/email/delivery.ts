@@ -0,0 +1,214 @@
+/**
+ * Brief and Digest Email Delivery
+ *
+ * Emails the daily brief and the weekly digest to users who opted in
+ * (notifications.dailyBriefEmail / weeklyDigestEmail in prefs/main), at
+ * the address on their sign-in account. Each message carries the
+ * recipient's unsubscribe link; unsubscribeByToken turns the list off.
+ *
+ * Sends are best effort: a failed recipient is counted and logged and the
+ * rest still go out. Callers catch anything else, so email can't fail the
+ * brief or digest it follows.
+ */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { appUrl, emailFromAddress, unsubscribeEndpointUrl } from "../../config/email.js";
+import type { Article, Brief, Digest, EmailNotificationState } from "../../types/firestore.js";
+import {
+  renderBriefEmail,
+  renderDigestEmail,
+  type EmailArticleLink,
+  type EmailContent,
+  type EmailLinks,
+} from "./template.js";
+import {
+  buildUnsubscribeUrl,
+  formatUnsubscribeToken,
+  parseUnsubscribeToken,
+  type EmailPreference,
+} from "./unsubscribe.js";
+import { getEmailTransport, sendEmail } from "./transport.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EmailRecipient {
+  uid: string;
+  email: string;
+}
+
+export interface EmailSendResult {
+  /** False when no transport or sender is configured (nothing was attempted) */
+  configured: boolean;
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** getAll / getUsers batch size (getUsers accepts at most 100 identifiers) */
+const LOOKUP_BATCH_SIZE = 100;
+
+// ============================================================================
+// Recipients
+// ============================================================================
+
+/**
+ * Users opted in to the given email, with the address on their account.
+ * Users without an address (guests) are skipped.
+ */
+export async function getEmailRecipients(preference: EmailPreference): Promise<EmailRecipient[]> {
+  const prefsSnap = await getFirestore().collectionGroup("prefs").get();
+  const uids: string[] = [];
+  for (const prefDoc of prefsSnap.docs) {
+    if (prefDoc.data().notifications?.[preference] !== true) continue;
+    // users/{uid}/prefs/main
+    const uid = prefDoc.ref.parent.parent?.id;
+    if (uid) uids.push(uid);
+  }
+
+  const recipients: EmailRecipient[] = [];
+  for (let i = 0; i < uids.length; i += LOOKUP_BATCH_SIZE) {
+    const { users } = await getAuth().getUsers(uids.slice(i, i + LOOKUP_BATCH_SIZE).map((uid) => ({ uid })));
+    for (const user of users) {
+      if (user.email && !user.disabled) recipients.push({ uid: user.uid, email: user.email });
+    }
+  }
+  return recipients;
+}
+
+// ============================================================================
+// Unsubscribe Tokens
+// ============================================================================
+
+function emailStateRef(uid: string) {
+  return getFirestore().doc(`users/${uid}/notificationState/email`);
+}
+
+/**
+ * The user's unsubscribe token, created on first send.
+ */
+async function getUnsubscribeToken(uid: string): Promise<string> {
+  const ref = emailStateRef(uid);
+  const snap = await ref.get();
+  const existing = snap.exists ? (snap.data() as EmailNotificationState).unsubscribeToken : null;
+  if (existing) return existing;
+
+  const state: EmailNotificationState = {
+    unsubscribeToken: formatUnsubscribeToken(uid, randomBytes(24).toString("base64url")),
+    createdAt: Timestamp.now(),
+  };
+  await ref.set(state);
+  return state.unsubscribeToken;
+}
+
+/**
+ * Turn the list off for the token's user. Returns false when the token is
+ * malformed or doesn't match the user's current token.
+ */
+export async function unsubscribeByToken(token: unknown, preference: EmailPreference): Promise<boolean> {
+  const parsed = parseUnsubscribeToken(token);
+  if (!parsed) return false;
+
+  const snap = await emailStateRef(parsed.uid).get();
+  const expected = snap.exists ? (snap.data() as EmailNotificationState).unsubscribeToken : null;
+  const given = Buffer.from(String(token));
+  if (!expected || expected.length !== given.length || !timingSafeEqual(Buffer.from(expected), given)) {
+    return false;
+  }
+
+  await getFirestore()
+    .doc(`users/${parsed.uid}/prefs/main`)
+    .set({ notifications: { [preference]: false }, updatedAt: Timestamp.now() }, { merge: true });
+  logger.info("Email unsubscribe", { uid: parsed.uid, preference });
+  return true;
+}
+
+// ============================================================================
+// Send
+// ============================================================================
+
+async function loadArticleLinks(ids: string[]): Promise<Map<string, EmailArticleLink>> {
+  const db = getFirestore();
+  const links = new Map<string, EmailArticleLink>();
+  const unique = [...new Set(ids)];
+  for (let i = 0; i < unique.length; i += LOOKUP_BATCH_SIZE) {
+    const docs = await db.getAll(...unique.slice(i, i + LOOKUP_BATCH_SIZE).map((id) => db.collection("articles").doc(id)));
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const article = doc.data() as Article;
+      links.set(doc.id, { id: doc.id, title: article.title, sourceName: article.sourceName, url: article.url });
+    }
+  }
+  return links;
+}
+
+/**
+ * Render and send one email per opted-in recipient.
+ */
+async function sendToRecipients(
+  preference: EmailPreference,
+  articleIds: string[],
+  render: (articles: Map<string, EmailArticleLink>, links: EmailLinks) => EmailContent
+): Promise<EmailSendResult> {
+  const transport = getEmailTransport();
+  const from = emailFromAddress();
+  if (!transport || !from) {
+    logger.warn("Email not configured; skipping send", { preference });
+    return { configured: false, recipients: 0, sent: 0, failed: 0 };
+  }
+
+  const articles = await loadArticleLinks(articleIds);
+  const recipients = await getEmailRecipients(preference);
+  let sent = 0;
+  let failed = 0;
+  for (const recipient of recipients) {
+    try {
+      const token = await getUnsubscribeToken(recipient.uid);
+      const unsubscribeUrl = buildUnsubscribeUrl(unsubscribeEndpointUrl(), token, preference);
+      const content = render(articles, { appUrl: appUrl(), unsubscribeUrl });
+      await sendEmail(transport, { from, to: recipient.email, unsubscribeUrl, ...content });
+      sent++;
+    } catch (error) {
+      failed++;
+      logger.warn("Email send failed", {
+        preference,
+        uid: recipient.uid,
+        transport: transport.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info("Email send complete", { preference, transport: transport.name, recipients: recipients.length, sent, failed });
+  return { configured: true, recipients: recipients.length, sent, failed };
+}
+
+/**
+ * Email the shared daily brief to users opted in to Daily Brief emails.
+ */
+export async function sendBriefEmails(brief: Brief): Promise<EmailSendResult> {
+  return sendToRecipients(
+    "dailyBriefEmail",
+    brief.topStories.map((s) => s.articleId),
+    (articles, links) => renderBriefEmail(brief, articles, links)
+  );
+}
+
+/**
+ * Email a weekly digest to users opted in to Weekly Digest emails.
+ */
+export async function sendDigestEmails(digest: Digest): Promise<EmailSendResult> {
+  return sendToRecipients(
+    "weeklyDigestEmail",
+    digest.topStories.map((s) => s.articleId),
+    (articles, links) => renderDigestEmail(digest, articles, links)
+  );
+}
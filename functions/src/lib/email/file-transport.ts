@@ -0,0 +1,25 @@
+/**
+ * File Transport
+ *
+ * Writes each message to <outbox>/<timestamp>-<recipient>.eml instead of
+ * sending it (EMAIL_TRANSPORT=file). Open the files in a mail client to
+ * check rendering, or inspect them in tests and the emulator.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EmailTransport } from "./transport.js";
+
+export function fileTransport(outboxDir: string): EmailTransport {
+  let sequence = 0;
+  return {
+    name: "file",
+    async send(message, mime) {
+      await mkdir(outboxDir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const recipient = message.to.replace(/[^A-Za-z0-9@._-]/g, "_");
+      sequence += 1;
+      await writeFile(join(outboxDir, `${stamp}-${sequence}-${recipient}.eml`), mime, "utf8");
+    },
+  };
+}
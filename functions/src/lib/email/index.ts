@@ -0,0 +1,54 @@
+/**
+ * Email module — brief and digest emails, transports and unsubscribe links
+ */
+
+export {
+  escapeHtml,
+  renderBriefEmail,
+  renderDigestEmail,
+  type EmailArticleLink,
+  type EmailLinks,
+  type EmailContent,
+  type EmailBrief,
+  type EmailDigest,
+} from "./template.js";
+
+export {
+  buildMimeMessage,
+  encodeHeaderValue,
+  addressOf,
+  domainOf,
+  dotStuff,
+  type EmailMessage,
+  type MimeOptions,
+} from "./mime.js";
+
+export {
+  EMAIL_PREFERENCES,
+  isEmailPreference,
+  formatUnsubscribeToken,
+  parseUnsubscribeToken,
+  buildUnsubscribeUrl,
+  renderUnsubscribePage,
+  type EmailPreference,
+  type UnsubscribePageState,
+} from "./unsubscribe.js";
+
+export {
+  getEmailTransport,
+  setEmailTransport,
+  sendEmail,
+  type EmailTransport,
+} from "./transport.js";
+
+export { smtpTransport } from "./smtp-transport.js";
+export { fileTransport } from "./file-transport.js";
+
+export {
+  getEmailRecipients,
+  unsubscribeByToken,
+  sendBriefEmails,
+  sendDigestEmails,
+  type EmailRecipient,
+  type EmailSendResult,
+} from "./delivery.js";
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for MIME messages and unsubscribe tokens
+ *
+ * Run: npx tsx --test functions/src/lib/email/mime.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { addressOf, buildMimeMessage, dotStuff, encodeHeaderValue } from "./mime.js";
+import { buildUnsubscribeUrl, parseUnsubscribeToken, renderUnsubscribePage } from "./unsubscribe.js";
+
+function decodePart(mime: string, contentType: string): string {
+  const start = mime.indexOf(`Content-Type: ${contentType}`);
+  const body = mime.slice(mime.indexOf("\r\n\r\n", start) + 4, mime.indexOf("\r\n--", start));
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+describe("buildMimeMessage", () => {
+  const mime = buildMimeMessage(
+    {
+      from: "The Brief <brief@example.com>",
+      to: "reader@example.com",
+      subject: "Weekly Digest: Oct 12 – Oct 18",
+      html: "<p>Hello</p>",
+      text: "Hello ".repeat(40),
+      unsubscribeUrl: "https://example.com/unsubscribeEmail?token=t&list=weeklyDigestEmail",
+    },
+    { messageId: "abc@example.com", date: new Date("2026-10-19T12:00:00Z"), boundary: "=_b" }
+  );
+
+  it("writes headers, one-click unsubscribe and a multipart body", () => {
+    assert.match(mime, /^From: The Brief <brief@example\.com>\r\nTo: reader@example\.com\r\n/);
+    assert.match(mime, /\r\nDate: Mon, 19 Oct 2026 12:00:00 GMT\r\nMessage-ID: <abc@example\.com>\r\n/);
+    assert.match(mime, /\r\nList-Unsubscribe: <https:\/\/example\.com\/unsubscribeEmail\?token=t&list=weeklyDigestEmail>\r\n/);
+    assert.match(mime, /\r\nList-Unsubscribe-Post: List-Unsubscribe=One-Click\r\n/);
+    assert.match(mime, /Content-Type: multipart\/alternative; boundary="=_b"\r\n\r\n--=_b\r\n/);
+    assert.ok(mime.endsWith("\r\n--=_b--\r\n"));
+  });
+
+  it("base64-encodes both parts in short lines", () => {
+    assert.equal(decodePart(mime, "text/plain"), "Hello ".repeat(40));
+    assert.equal(decodePart(mime, "text/html"), "<p>Hello</p>");
+    assert.ok(mime.split("\r\n").every((line) => line.length <= 998));
+    assert.ok(mime.split("\r\n").filter((line) => /^[A-Za-z0-9+/=]+$/.test(line)).every((line) => line.length <= 76));
+  });
+});
+
+describe("encodeHeaderValue", () => {
+  it("keeps ASCII and encodes anything else as UTF-8 words", () => {
+    assert.equal(encodeHeaderValue("Daily Brief"), "Daily Brief");
+    const encoded = encodeHeaderValue("Weekly Digest: Oct 12 – Oct 18 ".repeat(3));
+    const words = encoded.split("\r\n ");
+    assert.ok(words.length > 1);
+    assert.ok(words.every((word) => /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/.test(word) && word.length <= 75));
+    const decoded = words.map((word) => Buffer.from(word.slice(10, -2), "base64").toString("utf8")).join("");
+    assert.equal(decoded, "Weekly Digest: Oct 12 – Oct 18 ".repeat(3));
+  });
+});
+
+describe("SMTP helpers", () => {
+  it("extracts bare addresses", () => {
+    assert.equal(addressOf("The Brief <brief@example.com>"), "brief@example.com");
+    assert.equal(addressOf("reader@example.com"), "reader@example.com");
+  });
+
+  it("dot-stuffs lines and normalizes line endings", () => {
+    assert.equal(dotStuff("a\n.b\r\n..c"), "a\r\n..b\r\n...c");
+  });
+});
+
+describe("unsubscribe tokens", () => {
+  const secret = "AbCdEfGhIjKlMnOpQrStUvWxYz012345";
+
+  it("splits a token into user and secret", () => {
+    assert.deepEqual(parseUnsubscribeToken(`uid123.${secret}`), { uid: "uid123", secret });
+  });
+
+  it("rejects malformed tokens", () => {
+    assert.equal(parseUnsubscribeToken(undefined), null);
+    assert.equal(parseUnsubscribeToken(secret), null);
+    assert.equal(parseUnsubscribeToken("uid123.short"), null);
+    assert.equal(parseUnsubscribeToken(`users/x.${secret}`), null);
+  });
+
+  it("builds list links and a confirmation form posting back to them", () => {
+    const url = buildUnsubscribeUrl("https://example.com/unsubscribeEmail", `u+1.${secret}`, "dailyBriefEmail");
+    assert.equal(url, `https://example.com/unsubscribeEmail?token=u%2B1.${secret}&list=dailyBriefEmail`);
+    const page = renderUnsubscribePage("confirm", "dailyBriefEmail", "?token=t&list=dailyBriefEmail");
+    assert.match(page, /Unsubscribe from Daily Brief emails\?/);
+    assert.match(page, /<form method="post" action="\?token=t&amp;list=dailyBriefEmail"/);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * MIME Message Builder
+ *
+ * Builds the RFC 5322 message an email transport sends: multipart/
+ * alternative with plain-text and HTML parts (base64, so long lines and
+ * non-ASCII survive any relay), RFC 2047 encoded subjects, and one-click
+ * List-Unsubscribe headers (RFC 8058) so mail clients show an unsubscribe
+ * button.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A rendered email addressed to one recipient */
+export interface EmailMessage {
+  /** Sender, e.g. "The Brief <brief@example.com>" */
+  from: string;
+  /** Recipient address */
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** One-click unsubscribe URL (adds List-Unsubscribe headers) */
+  unsubscribeUrl?: string;
+}
+
+export interface MimeOptions {
+  /** Message-ID without angle brackets, e.g. "abc123@example.com" */
+  messageId: string;
+  date: Date;
+  /** multipart boundary (must not appear in the body) */
+  boundary: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CRLF = "\r\n";
+
+/** Base64 line length (RFC 2045 caps lines at 76 characters) */
+const BASE64_LINE_LENGTH = 76;
+
+function base64Lines(value: string): string {
+  const encoded = Buffer.from(value, "utf8").toString("base64");
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+/**
+ * Header value safe for any relay: printable ASCII is kept as is, anything
+ * else becomes RFC 2047 base64 encoded-words (split on character
+ * boundaries so no word exceeds the 75-character limit).
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    // "=?UTF-8?B?" + "?=" is 12 characters; 45 bytes encode to 60
+    if (Buffer.byteLength(chunk + char, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, "utf8").toString("base64")}?=`).join(`${CRLF} `);
+}
+
+/** Bare address from "Name <address>" (or the value itself) */
+export function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/** Domain of an address, for Message-IDs */
+export function domainOf(mailbox: string): string {
+  const address = addressOf(mailbox);
+  return address.slice(address.lastIndexOf("@") + 1) || "localhost";
+}
+
+/**
+ * SMTP DATA transparency (RFC 5321 4.5.2): normalize line endings to CRLF
+ * and double any leading dot.
+ */
+export function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, CRLF)
+    .split(CRLF)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join(CRLF);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the full message (headers and body) with CRLF line endings.
+ */
+export function buildMimeMessage(message: EmailMessage, options: MimeOptions): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${options.date.toUTCString()}`,
+    `Message-ID: <${options.messageId}>`,
+    "MIME-Version: 1.0",
+  ];
+  if (message.unsubscribeUrl) {
+    headers.push(
+      `List-Unsubscribe: <${message.unsubscribeUrl}>`,
+      "List-Unsubscribe-Post: List-Unsubscribe=One-Click"
+    );
+  }
+  headers.push(`Content-Type: multipart/alternative; boundary="${options.boundary}"`);
+
+  const part = (contentType: string, body: string) =>
+    [
+      `--${options.boundary}`,
+      `Content-Type: ${contentType}; charset=UTF-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(body),
+    ].join(CRLF);
+
+  return [
+    ...headers,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${options.boundary}--`,
+    "",
+  ].join(CRLF);
+}
@@ -0,0 +1,171 @@
+/**
+ * SMTP Transport
+ *
+ * Minimal SMTP client (RFC 5321) over node:net / node:tls: EHLO, STARTTLS
+ * when the server offers it (or implicit TLS on port 465), AUTH PLAIN,
+ * then one message per connection. Credentials are only ever sent over
+ * TLS. Volumes are small (one message per opted-in user per send), so
+ * there is no pooling or pipelining.
+ */
+
+import { once } from "node:events";
+import { hostname } from "node:os";
+import { connect as netConnect, type Socket } from "node:net";
+import { connect as tlsConnect, TLSSocket } from "node:tls";
+import type { SmtpConfig } from "../../config/email.js";
+import { addressOf, dotStuff } from "./mime.js";
+import type { EmailTransport } from "./transport.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Idle time before a connection is abandoned */
+const SOCKET_TIMEOUT_MS = 30 * 1000;
+
+// ============================================================================
+// Reply Reader
+// ============================================================================
+
+interface SmtpReply {
+  code: number;
+  /** Reply text, one entry per line, without the code */
+  lines: string[];
+}
+
+interface ReplyReader {
+  next(): Promise<SmtpReply>;
+  /** Stop reading (before the socket is handed to TLS) */
+  detach(): void;
+}
+
+/**
+ * Parse replies off the socket. A reply ends with a "ddd " (or bare
+ * "ddd") line; "ddd-" lines continue it.
+ */
+function readReplies(socket: Socket): ReplyReader {
+  let buffer = "";
+  let pendingLines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, "");
+      buffer = buffer.slice(end + 1);
+      pendingLines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: pendingLines };
+        pendingLines = [];
+        const waiter = waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  const onEnd = (error?: Error) => {
+    failure = error ?? new Error("SMTP connection closed");
+    for (const waiter of waiters.splice(0)) waiter.reject(failure);
+  };
+  const onError = (error: Error) => onEnd(error);
+  const onClose = () => onEnd();
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next() {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+async function expectReply(reader: ReplyReader, expected: number[], context: string): Promise<SmtpReply> {
+  const reply = await reader.next();
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP ${context} failed: ${reply.code} ${reply.lines.join(" ")}`);
+  }
+  return reply;
+}
+
+// ============================================================================
+// Session
+// ============================================================================
+
+/**
+ * Deliver one message: `data` is the full MIME message.
+ */
+async function sendOverSmtp(config: SmtpConfig, from: string, to: string, data: string): Promise<void> {
+  const implicitTls = config.port === 465;
+  let socket: Socket = implicitTls
+    ? tlsConnect({ host: config.host, port: config.port, servername: config.host })
+    : netConnect({ host: config.host, port: config.port });
+  socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+
+  try {
+    await once(socket, implicitTls ? "secureConnect" : "connect");
+    let reader = readReplies(socket);
+
+    const command = async (line: string, expected: number[], context: string) => {
+      socket.write(`${line}\r\n`);
+      return expectReply(reader, expected, context);
+    };
+
+    await expectReply(reader, [220], "greeting");
+    const ehlo = await command(`EHLO ${hostname() || "localhost"}`, [250], "EHLO");
+
+    if (!implicitTls && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await command("STARTTLS", [220], "STARTTLS");
+      reader.detach();
+      const plain = socket;
+      socket = tlsConnect({ socket: plain, servername: config.host });
+      socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+      await once(socket, "secureConnect");
+      reader = readReplies(socket);
+      await command(`EHLO ${hostname() || "localhost"}`, [250], "EHLO");
+    }
+
+    if (config.user && config.password) {
+      if (!(socket instanceof TLSSocket)) {
+        throw new Error("SMTP server does not offer STARTTLS; not sending credentials in clear text");
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await command(`MAIL FROM:<${addressOf(from)}>`, [250], "MAIL FROM");
+    await command(`RCPT TO:<${addressOf(to)}>`, [250, 251], "RCPT TO");
+    await command("DATA", [354], "DATA");
+    await command(`${dotStuff(data).replace(/\r\n$/, "")}\r\n.`, [250], "message");
+
+    // The message is accepted; a failed QUIT changes nothing
+    await command("QUIT", [221], "QUIT").catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function smtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message, mime) {
+      await sendOverSmtp(config, message.from, message.to, mime);
+    },
+  };
+}
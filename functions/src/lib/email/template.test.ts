@@ -0,0 +1,115 @@
+/**
+ * Unit tests for brief and digest email templates
+ *
+ * Run: npx tsx --test functions/src/lib/email/template.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  escapeHtml,
+  renderBriefEmail,
+  renderDigestEmail,
+  type EmailArticleLink,
+  type EmailBrief,
+  type EmailDigest,
+} from "./template.js";
+
+const A = "aaaaaaaaaaaa1111";
+const B = "bbbbbbbbbbbb2222";
+
+const links = {
+  appUrl: "https://insurance-news-ai.web.app",
+  unsubscribeUrl: "https://example.com/unsubscribeEmail?token=u1.secret&list=dailyBriefEmail",
+};
+
+const articles = new Map<string, EmailArticleLink>([
+  [A, { id: A, title: "Florida rates fall", sourceName: "Insurance Journal", url: "https://example.com/a?x=1&y=2" }],
+]);
+
+function emptySections(): EmailBrief["sections"] {
+  const section = () => ({ bullets: [] as string[], articleIds: [] as string[] });
+  return {
+    propertyCat: section(),
+    casualtyLiability: section(),
+    regulation: section(),
+    claims: section(),
+    reinsurance: section(),
+    insurtech: section(),
+    market: section(),
+  };
+}
+
+function brief(): EmailBrief {
+  const sections = emptySections();
+  sections.regulation = { bullets: [`Florida OIR approves <filing> [${A}]`], articleIds: [A] };
+  return {
+    date: "2026-10-19",
+    executiveSummary: ["Cat pricing softens — capacity returns.", "Reserves hold."],
+    topStories: [
+      { articleId: A, headline: "Florida homeowners rates fall", whyItMatters: "First decline since 2019." },
+      { articleId: B, headline: "Lloyd's names new CEO", whyItMatters: "Leadership change." },
+    ],
+    sections,
+  };
+}
+
+describe("escapeHtml", () => {
+  it("escapes markup and attribute quotes", () => {
+    assert.equal(escapeHtml("<a href=\"x\">Tom's & co</a>"), "&lt;a href=&quot;x&quot;&gt;Tom&#39;s &amp; co&lt;/a&gt;");
+  });
+});
+
+describe("renderBriefEmail", () => {
+  const email = renderBriefEmail(brief(), articles, links);
+
+  it("dates the subject", () => {
+    assert.equal(email.subject, "Daily Brief: Monday, October 19, 2026");
+  });
+
+  it("links top stories to their article and escapes content", () => {
+    assert.match(email.html, /<a href="https:\/\/example\.com\/a\?x=1&amp;y=2"[^>]*>Florida homeowners rates fall<\/a>/);
+    assert.match(email.html, /Florida OIR approves &lt;filing&gt;/);
+    assert.ok(!email.html.includes(A), "citations are stripped");
+    // A story whose article is missing still renders, unlinked
+    assert.match(email.html, /Lloyd&#39;s names new CEO/);
+  });
+
+  it("renders only non-empty sections", () => {
+    assert.match(email.html, /Regulation/);
+    assert.ok(!email.html.includes("Property &amp; Cat"));
+  });
+
+  it("carries the unsubscribe link and deep-links to the brief's date", () => {
+    assert.ok(email.html.includes(escapeHtml(links.unsubscribeUrl)));
+    assert.ok(email.html.includes(`href="${links.appUrl}/brief/2026-10-19"`));
+    assert.match(email.text, /Open in The Brief: https:\/\/insurance-news-ai\.web\.app\/brief\/2026-10-19\n/);
+  });
+
+  it("has a plain-text alternative with the same content", () => {
+    assert.match(email.text, /^Daily Brief\nMonday, October 19, 2026\n/);
+    assert.match(email.text, /EXECUTIVE SUMMARY\n\n- Cat pricing softens — capacity returns\.\n- Reserves hold\./);
+    assert.match(email.text, /1\. Florida homeowners rates fall\n {3}First decline since 2019\.\n {3}Insurance Journal: https:\/\/example\.com\/a\?x=1&y=2/);
+    assert.match(email.text, /REGULATION\n\n- Florida OIR approves <filing>\n/);
+    assert.match(email.text, /Unsubscribe: https:\/\/example\.com\/unsubscribeEmail\?token=u1\.secret&list=dailyBriefEmail\n$/);
+  });
+});
+
+describe("renderDigestEmail", () => {
+  const digest: EmailDigest = {
+    ...brief(),
+    period: "weekly",
+    startDate: "2026-10-12",
+    endDate: "2026-10-18",
+    whatChanged: [`Cat talk faded [${A}]`],
+    rising: [{ key: "cyber", displayName: "Cyber", mentions: 9, baselineMentions: 3, momentum: 6 }],
+  };
+
+  it("renders the period, what changed and rising topics", () => {
+    const email = renderDigestEmail(digest, articles, links);
+    assert.equal(email.subject, "Weekly Digest: Oct 12 – Oct 18");
+    assert.match(email.text, /WHAT CHANGED\n\n- Cat talk faded\n/);
+    assert.match(email.text, /RISING TOPICS\n\n- Cyber \(9 mentions, \+6\)\n/);
+    assert.match(email.html, /Weekly Digest emails/);
+  });
+});
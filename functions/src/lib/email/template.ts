@@ -0,0 +1,320 @@
+/**
+ * Email Templates
+ *
+ * Renders the daily brief and the weekly digest as a responsive HTML email
+ * (single 600px column, table layout and inline styles for Outlook and
+ * Gmail) with a plain-text alternative. Top stories link to the source
+ * article; inline [articleId] citations are stripped from bullets.
+ */
+
+import type { Brief, Digest } from "../../types/firestore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Article fields a top story links to */
+export interface EmailArticleLink {
+  id: string;
+  title: string;
+  sourceName: string;
+  url: string;
+}
+
+export interface EmailLinks {
+  /** Web app URL ("Open in The Brief") */
+  appUrl: string;
+  /** This recipient's unsubscribe link */
+  unsubscribeUrl: string;
+}
+
+/** Rendered email body */
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type EmailBrief = Pick<Brief, "date" | "executiveSummary" | "topStories" | "sections">;
+
+export type EmailDigest = Pick<
+  Digest,
+  "period" | "startDate" | "endDate" | "executiveSummary" | "topStories" | "whatChanged" | "rising" | "sections"
+>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Section display names, in brief order (matches the app's BriefSections) */
+export const SECTION_LABELS: Record<keyof Brief["sections"], string> = {
+  propertyCat: "Property & Cat",
+  casualtyLiability: "Casualty & Liability",
+  regulation: "Regulation",
+  claims: "Claims",
+  reinsurance: "Reinsurance",
+  insurtech: "InsurTech",
+  market: "Market & M&A",
+};
+
+const CITATION_PATTERN = /\s*\[[a-f0-9]{10,}\]/gi;
+
+const FONT_STACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif";
+const COLOR_TEXT = "#1c1c1e";
+const COLOR_SECONDARY = "#6e6e73";
+const COLOR_ACCENT = "#007aff";
+const COLOR_RULE = "#e5e5ea";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, "").trim();
+}
+
+/** "Monday, October 19, 2026" for a yyyy-mm-dd key */
+function formatLongDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** "Oct 12 – Oct 18" for a yyyy-mm-dd range */
+function formatDateRange(startDate: string, endDate: string): string {
+  const format = (dateKey: string) => {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  };
+  return `${format(startDate)} – ${format(endDate)}`;
+}
+
+interface RenderedStory {
+  headline: string;
+  whyItMatters: string;
+  article: EmailArticleLink | null;
+}
+
+function resolveStories(
+  stories: EmailBrief["topStories"],
+  articles: ReadonlyMap<string, EmailArticleLink>
+): RenderedStory[] {
+  return stories.map((story) => ({
+    headline: stripCitations(story.headline),
+    whyItMatters: stripCitations(story.whyItMatters),
+    article: articles.get(story.articleId) ?? null,
+  }));
+}
+
+function nonEmptySections(sections: Brief["sections"]): { label: string; bullets: string[] }[] {
+  return (Object.keys(SECTION_LABELS) as (keyof Brief["sections"])[])
+    .map((key) => ({
+      label: SECTION_LABELS[key],
+      bullets: (sections[key]?.bullets ?? []).map(stripCitations).filter(Boolean),
+    }))
+    .filter((section) => section.bullets.length > 0);
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function htmlHeading(text: string): string {
+  return (
+    `<tr><td style="padding:24px 0 8px 0;font-family:${FONT_STACK};font-size:13px;font-weight:600;` +
+    `letter-spacing:0.04em;text-transform:uppercase;color:${COLOR_SECONDARY};">${escapeHtml(text)}</td></tr>`
+  );
+}
+
+function htmlBullets(bullets: string[]): string {
+  const items = bullets
+    .map(
+      (bullet) =>
+        `<tr><td valign="top" style="padding:0 8px 8px 0;font-family:${FONT_STACK};font-size:15px;line-height:22px;color:${COLOR_SECONDARY};">&bull;</td>` +
+        `<td style="padding:0 0 8px 0;font-family:${FONT_STACK};font-size:15px;line-height:22px;color:${COLOR_TEXT};">${escapeHtml(bullet)}</td></tr>`
+    )
+    .join("");
+  return `<tr><td><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">${items}</table></td></tr>`;
+}
+
+function htmlStories(stories: RenderedStory[]): string {
+  return stories
+    .map((story) => {
+      const headline = story.article
+        ? `<a href="${escapeHtml(story.article.url)}" style="color:${COLOR_TEXT};text-decoration:none;">${escapeHtml(story.headline)}</a>`
+        : escapeHtml(story.headline);
+      const source = story.article
+        ? "<div style=\"padding-top:4px;font-size:13px;line-height:18px;\">" +
+          `<a href="${escapeHtml(story.article.url)}" style="color:${COLOR_ACCENT};text-decoration:none;">` +
+          `${escapeHtml(story.article.sourceName)} &rsaquo;</a></div>`
+        : "";
+      return (
+        `<tr><td style="padding:0 0 16px 0;font-family:${FONT_STACK};">` +
+        `<div style="font-size:17px;line-height:23px;font-weight:600;color:${COLOR_TEXT};">${headline}</div>` +
+        `<div style="padding-top:4px;font-size:15px;line-height:22px;color:${COLOR_SECONDARY};">${escapeHtml(story.whyItMatters)}</div>` +
+        `${source}</td></tr>`
+      );
+    })
+    .join("");
+}
+
+function htmlDocument(title: string, subtitle: string, body: string, links: EmailLinks, footerNote: string): string {
+  return (
+    "<!DOCTYPE html>" +
+    "<html lang=\"en\"><head><meta charset=\"utf-8\">" +
+    "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">" +
+    `<meta name="x-apple-disable-message-reformatting"><title>${escapeHtml(title)}</title></head>` +
+    "<body style=\"margin:0;padding:0;background-color:#f2f2f7;\">" +
+    "<table role=\"presentation\" width=\"100%\" cellpadding=\"0\" cellspacing=\"0\" border=\"0\" style=\"background-color:#f2f2f7;\">" +
+    "<tr><td align=\"center\" style=\"padding:24px 12px;\">" +
+    "<table role=\"presentation\" width=\"100%\" cellpadding=\"0\" cellspacing=\"0\" border=\"0\" " +
+    "style=\"max-width:600px;background-color:#ffffff;border-radius:12px;\">" +
+    "<tr><td style=\"padding:28px 24px 8px 24px;\">" +
+    "<table role=\"presentation\" width=\"100%\" cellpadding=\"0\" cellspacing=\"0\" border=\"0\">" +
+    `<tr><td style="font-family:${FONT_STACK};font-size:13px;color:${COLOR_SECONDARY};">${escapeHtml(subtitle)}</td></tr>` +
+    `<tr><td style="padding-top:4px;font-family:${FONT_STACK};font-size:28px;line-height:34px;font-weight:700;color:${COLOR_TEXT};">${escapeHtml(title)}</td></tr>` +
+    body +
+    `<tr><td style="padding:24px 0 8px 0;font-family:${FONT_STACK};font-size:15px;">` +
+    `<a href="${escapeHtml(links.appUrl)}" style="color:${COLOR_ACCENT};text-decoration:none;font-weight:600;">Open in The Brief &rsaquo;</a></td></tr>` +
+    "</table></td></tr>" +
+    `<tr><td style="padding:16px 24px 24px 24px;border-top:1px solid ${COLOR_RULE};font-family:${FONT_STACK};` +
+    `font-size:12px;line-height:18px;color:${COLOR_SECONDARY};">${escapeHtml(footerNote)} ` +
+    `<a href="${escapeHtml(links.unsubscribeUrl)}" style="color:${COLOR_SECONDARY};">Unsubscribe</a></td></tr>` +
+    "</table></td></tr></table></body></html>"
+  );
+}
+
+// ============================================================================
+// Plain text
+// ============================================================================
+
+function textSection(heading: string, lines: string[]): string {
+  return `${heading.toUpperCase()}\n\n${lines.join("\n")}\n`;
+}
+
+function textStories(stories: RenderedStory[]): string[] {
+  return stories.map((story, i) => {
+    const lines = [`${i + 1}. ${story.headline}`, `   ${story.whyItMatters}`];
+    if (story.article) lines.push(`   ${story.article.sourceName}: ${story.article.url}`);
+    return lines.join("\n") + "\n";
+  });
+}
+
+function textDocument(title: string, subtitle: string, parts: string[], links: EmailLinks, footerNote: string): string {
+  return [
+    `${title}\n${subtitle}\n`,
+    ...parts,
+    `Open in The Brief: ${links.appUrl}\n`,
+    `--\n${footerNote}\nUnsubscribe: ${links.unsubscribeUrl}\n`,
+  ].join("\n");
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Render the daily brief: executive summary, top stories with links to
+ * their articles, then the non-empty category sections.
+ */
+export function renderBriefEmail(
+  brief: EmailBrief,
+  articles: ReadonlyMap<string, EmailArticleLink>,
+  links: EmailLinks
+): EmailContent {
+  const title = "Daily Brief";
+  const subtitle = formatLongDate(brief.date);
+  const summary = brief.executiveSummary.map(stripCitations).filter(Boolean);
+  const stories = resolveStories(brief.topStories, articles);
+  const sections = nonEmptySections(brief.sections);
+  const footerNote = "You're receiving this because you turned on Daily Brief emails in The Brief.";
+  // Open this date's brief (the archive route), not whatever is on Today
+  const briefLinks = { ...links, appUrl: `${links.appUrl}/brief/${brief.date}` };
+
+  let html = "";
+  const text: string[] = [];
+  if (summary.length > 0) {
+    html += htmlHeading("Executive Summary") + htmlBullets(summary);
+    text.push(textSection("Executive Summary", summary.map((b) => `- ${b}`)));
+  }
+  if (stories.length > 0) {
+    html += htmlHeading("Top Stories") + htmlStories(stories);
+    text.push(textSection("Top Stories", textStories(stories)));
+  }
+  for (const section of sections) {
+    html += htmlHeading(section.label) + htmlBullets(section.bullets);
+    text.push(textSection(section.label, section.bullets.map((b) => `- ${b}`)));
+  }
+
+  return {
+    subject: `Daily Brief: ${subtitle}`,
+    html: htmlDocument(title, subtitle, html, briefLinks, footerNote),
+    text: textDocument(title, subtitle, text, briefLinks, footerNote),
+  };
+}
+
+/**
+ * Render a roll-up digest: executive summary, top stories, what changed,
+ * rising topics, then the non-empty category sections.
+ */
+export function renderDigestEmail(
+  digest: EmailDigest,
+  articles: ReadonlyMap<string, EmailArticleLink>,
+  links: EmailLinks
+): EmailContent {
+  const title = digest.period === "weekly" ? "Weekly Digest" : "Monthly Digest";
+  const subtitle = formatDateRange(digest.startDate, digest.endDate);
+  const summary = digest.executiveSummary.map(stripCitations).filter(Boolean);
+  const stories = resolveStories(digest.topStories, articles);
+  const changed = digest.whatChanged.map(stripCitations).filter(Boolean);
+  const rising = digest.rising.map((topic) => `${topic.displayName} (${topic.mentions} mentions, +${topic.momentum})`);
+  const sections = nonEmptySections(digest.sections);
+  const footerNote = `You're receiving this because you turned on ${title} emails in The Brief.`;
+
+  let html = "";
+  const text: string[] = [];
+  if (summary.length > 0) {
+    html += htmlHeading("Executive Summary") + htmlBullets(summary);
+    text.push(textSection("Executive Summary", summary.map((b) => `- ${b}`)));
+  }
+  if (stories.length > 0) {
+    html += htmlHeading("Top Stories") + htmlStories(stories);
+    text.push(textSection("Top Stories", textStories(stories)));
+  }
+  if (changed.length > 0) {
+    html += htmlHeading("What Changed") + htmlBullets(changed);
+    text.push(textSection("What Changed", changed.map((b) => `- ${b}`)));
+  }
+  if (rising.length > 0) {
+    html += htmlHeading("Rising Topics") + htmlBullets(rising);
+    text.push(textSection("Rising Topics", rising.map((b) => `- ${b}`)));
+  }
+  for (const section of sections) {
+    html += htmlHeading(section.label) + htmlBullets(section.bullets);
+    text.push(textSection(section.label, section.bullets.map((b) => `- ${b}`)));
+  }
+
+  return {
+    subject: `${title}: ${subtitle}`,
+    html: htmlDocument(title, subtitle, html, links, footerNote),
+    text: textDocument(title, subtitle, text, links, footerNote),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Active Email Transport
+ *
+ * Delivery code calls sendEmail() instead of a transport directly. The
+ * transport comes from EMAIL_TRANSPORT (config/email.ts): SMTP, or .eml
+ * files in a local outbox; tests can swap in their own with
+ * setEmailTransport.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  configuredEmailTransport,
+  emailOutboxDir,
+  smtpConfig,
+} from "../../config/email.js";
+import { buildMimeMessage, domainOf, type EmailMessage } from "./mime.js";
+import { fileTransport } from "./file-transport.js";
+import { smtpTransport } from "./smtp-transport.js";
+
+export interface EmailTransport {
+  name: string;
+  /** Deliver one message; `mime` is the built RFC 5322 message */
+  send(message: EmailMessage, mime: string): Promise<void>;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+let transportOverride: EmailTransport | null = null;
+
+/**
+ * The configured transport, or null when SMTP is selected but SMTP_HOST
+ * is unset (email is not configured in this environment).
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (transportOverride) return transportOverride;
+  if (configuredEmailTransport() === "file") return fileTransport(emailOutboxDir());
+  const config = smtpConfig();
+  return config ? smtpTransport(config) : null;
+}
+
+/**
+ * Replace the transport for this process; null restores the configured one.
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transportOverride = next;
+}
+
+// ============================================================================
+// Send
+// ============================================================================
+
+/**
+ * Build the MIME message and hand it to the transport.
+ */
+export async function sendEmail(transport: EmailTransport, message: EmailMessage): Promise<void> {
+  const mime = buildMimeMessage(message, {
+    messageId: `${randomBytes(12).toString("hex")}@${domainOf(message.from)}`,
+    date: new Date(),
+    boundary: `=_brief_${randomBytes(12).toString("hex")}`,
+  });
+  await transport.send(message, mime);
+}
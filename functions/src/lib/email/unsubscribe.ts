@@ -0,0 +1,109 @@
+/**
+ * Email Unsubscribe Links
+ *
+ * Each recipient has one unsubscribe token, "<uid>.<secret>", kept in
+ * users/{uid}/notificationState/email. Links name the list they turn off;
+ * GET shows a confirmation page (so link scanners can't unsubscribe
+ * anyone) and POST, from that page or a mail client's one-click button,
+ * turns the list off.
+ */
+
+import { escapeHtml } from "./template.js";
+
+// ============================================================================
+// Lists
+// ============================================================================
+
+/** Email opt-ins (users/{uid}/prefs/main notifications.*); both default off */
+export type EmailPreference = "dailyBriefEmail" | "weeklyDigestEmail";
+
+export const EMAIL_PREFERENCES: readonly EmailPreference[] = ["dailyBriefEmail", "weeklyDigestEmail"];
+
+const EMAIL_PREFERENCE_LABELS: Record<EmailPreference, string> = {
+  dailyBriefEmail: "Daily Brief",
+  weeklyDigestEmail: "Weekly Digest",
+};
+
+export function isEmailPreference(value: unknown): value is EmailPreference {
+  return typeof value === "string" && (EMAIL_PREFERENCES as string[]).includes(value);
+}
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+/** Shape of the random part (base64url) */
+const SECRET_PATTERN = /^[A-Za-z0-9_-]{20,}$/;
+
+export function formatUnsubscribeToken(uid: string, secret: string): string {
+  return `${uid}.${secret}`;
+}
+
+/** Split a token into its user and secret, or null when malformed */
+export function parseUnsubscribeToken(token: unknown): { uid: string; secret: string } | null {
+  if (typeof token !== "string") return null;
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const uid = token.slice(0, dot);
+  const secret = token.slice(dot + 1);
+  if (uid.includes("/") || !SECRET_PATTERN.test(secret)) return null;
+  return { uid, secret };
+}
+
+export function buildUnsubscribeUrl(endpoint: string, token: string, preference: EmailPreference): string {
+  return `${endpoint}?token=${encodeURIComponent(token)}&list=${preference}`;
+}
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+export type UnsubscribePageState = "confirm" | "done" | "invalid";
+
+function page(title: string, body: string): string {
+  return (
+    "<!DOCTYPE html>" +
+    "<html lang=\"en\"><head><meta charset=\"utf-8\">" +
+    `<meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>` +
+    "<body style=\"margin:0;padding:48px 16px;background-color:#f2f2f7;" +
+    "font-family:-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;color:#1c1c1e;\">" +
+    "<div style=\"max-width:420px;margin:0 auto;padding:28px 24px;background-color:#ffffff;border-radius:12px;text-align:center;\">" +
+    `<h1 style="margin:0 0 12px 0;font-size:22px;">${escapeHtml(title)}</h1>${body}</div></body></html>`
+  );
+}
+
+/**
+ * Page served by the unsubscribe endpoint. `actionUrl` (the link itself)
+ * is where the confirm button posts.
+ */
+export function renderUnsubscribePage(
+  state: UnsubscribePageState,
+  preference: EmailPreference | null,
+  actionUrl = ""
+): string {
+  const label = preference ? EMAIL_PREFERENCE_LABELS[preference] : "these";
+  const muted = "margin:0;font-size:15px;line-height:22px;color:#6e6e73;";
+
+  switch (state) {
+    case "confirm":
+      return page(
+        `Unsubscribe from ${label} emails?`,
+        `<p style="${muted}">You can turn them back on in Settings in The Brief.</p>` +
+          `<form method="post" action="${escapeHtml(actionUrl)}" style="margin:20px 0 0 0;">` +
+          "<button type=\"submit\" style=\"padding:12px 24px;border:0;border-radius:10px;background-color:#007aff;" +
+          "color:#ffffff;font-size:15px;font-weight:600;\">Unsubscribe</button></form>"
+      );
+    case "done":
+      return page(
+        "You're unsubscribed",
+        `<p style="${muted}">You won't receive ${escapeHtml(label)} emails anymore. ` +
+          "You can turn them back on in Settings in The Brief.</p>"
+      );
+    case "invalid":
+      return page(
+        "Link not recognized",
+        `<p style="${muted}">This unsubscribe link is invalid or has expired. ` +
+          "You can turn emails off in Settings in The Brief.</p>"
+      );
+  }
+}
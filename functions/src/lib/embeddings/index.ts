@@ -1,25 +1,30 @@
 /**
  * Embeddings Module
  *
- * Provides vector embeddings for articles using OpenAI's text-embedding-3-small model.
+ * Provides vector embeddings for articles through the active embedding
+ * provider (OpenAI's text-embedding-3-small, or the offline mock).
  * Uses reduced dimensions (256) to keep Firestore document sizes small.
  */
 
 import { getFirestore, Timestamp } from "firebase-admin/firestore";
 import * as logger from "firebase-functions/logger";
-import { getOpenAIClient } from "../ai/openai-client.js";
+import { getEmbeddingProvider } from "../llm/index.js";
 import type { Article, ArticleEmbedding } from "../../types/firestore.js";
+import { getFullTextExcerpts } from "../fulltext/index.js";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 /** Default embedding model */
-export const EMBEDDING_MODEL = "text-embedding-3-small";
+export { EMBEDDING_MODEL } from "../../config/llm.js";
 
 /** Default embedding dimensions (reduced from 1536 default to save storage) */
 export const DEFAULT_EMBEDDING_DIMS = 256;
 
+/** Lead of the private full text added to the embedded text (allowFullText sources) */
+const EMBEDDING_FULL_TEXT_CHARS = 1500;
+
 /** Stopwords to filter from search tokens */
 const STOPWORDS = new Set([
   "a", "an", "and", "are", "as", "at", "be", "by", "for", "from",
@@ -40,7 +45,22 @@ const STOPWORDS = new Set([
 // ============================================================================
 
 /**
- * Generate an embedding for the given text using OpenAI's embedding API.
+ * Generate an embedding for the given text with the active embedding provider.
+ *
+ * @param text - The text to embed
+ * @param dims - Number of dimensions for the embedding (default: 256)
+ * @returns The embedding vector and the model that produced it
+ */
+export async function embedTextWithModel(
+  text: string,
+  dims: number = DEFAULT_EMBEDDING_DIMS
+): Promise<{ vector: number[]; model: string }> {
+  const result = await getEmbeddingProvider().embed([text], dims);
+  return { vector: result.vectors[0], model: result.model };
+}
+
+/**
+ * Generate an embedding for the given text with the active embedding provider.
  *
  * @param text - The text to embed
  * @param dims - Number of dimensions for the embedding (default: 256)
@@ -50,15 +70,7 @@ export async function embedText(
   text: string,
   dims: number = DEFAULT_EMBEDDING_DIMS
 ): Promise<number[]> {
-  const openai = getOpenAIClient();
-
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-    dimensions: dims,
-  });
-
-  return response.data[0].embedding;
+  return (await embedTextWithModel(text, dims)).vector;
 }
 
 /**
@@ -140,13 +152,17 @@ export async function ensureArticleVector(articleId: string): Promise<{
 
   // Compute embedding if missing
   if (!article.embedding) {
-    const textToEmbed = `${article.title}\n${article.snippet}`;
-    const vector = await embedText(textToEmbed, DEFAULT_EMBEDDING_DIMS);
+    let textToEmbed = `${article.title}\n${article.snippet}`;
+    if (article.hasFullText) {
+      const lead = (await getFullTextExcerpts([articleId], EMBEDDING_FULL_TEXT_CHARS)).get(articleId);
+      if (lead) textToEmbed += `\n${lead}`;
+    }
+    const { vector, model } = await embedTextWithModel(textToEmbed, DEFAULT_EMBEDDING_DIMS);
 
     const embedding: ArticleEmbedding = {
       dims: DEFAULT_EMBEDDING_DIMS,
       vector,
-      model: EMBEDDING_MODEL,
+      model,
       updatedAt: Timestamp.now(),
     };
 
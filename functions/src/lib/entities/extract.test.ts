@@ -0,0 +1,115 @@
+/**
+ * Unit tests for gazetteer entity extraction
+ *
+ * Run: npx tsx --test functions/src/lib/entities/extract.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractEntities, topicEntityKeys, resolveEntityKey } from "./extract.js";
+import { GAZETTEER, entityKey, type GazetteerEntry } from "./gazetteer.js";
+
+function keys(text: string): string[] {
+  return extractEntities(text).map((e) => e.key);
+}
+
+// ============================================================================
+// extractEntities
+// ============================================================================
+
+describe("extractEntities", () => {
+  it("tags companies with role, ticker and CIK", () => {
+    const [travelers] = extractEntities("Travelers posts record quarter");
+    assert.deepEqual(travelers, {
+      key: "company:travelers",
+      type: "company",
+      name: "Travelers",
+      role: "carrier",
+      ticker: "TRV",
+      cik: "86312",
+    });
+  });
+
+  it("returns unique entities in order of first mention", () => {
+    assert.deepEqual(
+      keys("Hail hits Texas; Chubb and Aon respond as more hail is forecast for Texas"),
+      ["peril:hail", "state:TX", "company:chubb", "company:aon"]
+    );
+  });
+
+  it("prefers the longest overlapping alias", () => {
+    assert.deepEqual(keys("New Mexico wildfire"), ["state:NM", "peril:wildfire"]);
+    assert.deepEqual(keys("Swiss Re sees higher losses"), ["company:swiss-re"]);
+    assert.deepEqual(keys("flood insurance take-up after flooding"), ["line:flood-insurance", "peril:flood"]);
+  });
+
+  it("matches whole words and possessives only", () => {
+    assert.deepEqual(keys("Chubb's D&O book"), ["company:chubb", "line:d-and-o"]);
+    assert.deepEqual(keys("Arkansas storms"), ["state:AR"]);
+    assert.deepEqual(keys("Chubbuck Aonian"), []);
+  });
+
+  it("matches capitalized aliases case-sensitively and lowercase ones case-insensitively", () => {
+    assert.deepEqual(keys("progressive reforms in washington"), []);
+    assert.deepEqual(keys("HURRICANE season"), ["peril:hurricane"]);
+  });
+
+  it("adds entities implied by a match", () => {
+    assert.deepEqual(
+      keys("California Department of Insurance approves rate hike"),
+      ["regulator:ca-cdi", "state:CA"]
+    );
+  });
+
+  it("reuses Pulse synonym phrases as aliases", () => {
+    assert.deepEqual(keys("Workers compensation reform"), ["line:workers-comp"]);
+    assert.deepEqual(keys("Directors and officers pricing"), ["line:d-and-o"]);
+    assert.deepEqual(keys("excess and surplus lines growth"), ["line:excess-surplus"]);
+  });
+
+  it("handles empty text and custom gazetteers", () => {
+    assert.deepEqual(extractEntities("   "), []);
+    const custom: GazetteerEntry[] = [
+      { id: "acme", type: "company", role: "carrier", name: "Acme Mutual", aliases: ["Acme"] },
+    ];
+    assert.deepEqual(extractEntities("Acme and Chubb", custom).map((e) => e.key), ["company:acme"]);
+  });
+});
+
+// ============================================================================
+// Pulse topics
+// ============================================================================
+
+describe("topicEntityKeys", () => {
+  it("maps canonical topic keys and display names to entities", () => {
+    assert.deepEqual(topicEntityKeys({ key: "workers comp", displayName: "Workers Comp" }), ["line:workers-comp"]);
+    assert.deepEqual(topicEntityKeys({ key: "lloyds", displayName: "Lloyds" }), ["company:lloyds"]);
+    assert.deepEqual(
+      topicEntityKeys({ key: "florida homeowners", displayName: "Florida homeowners" }),
+      ["state:FL", "line:homeowners"]
+    );
+    assert.deepEqual(topicEntityKeys({ key: "rate adequacy", displayName: "Rate adequacy" }), []);
+  });
+});
+
+// ============================================================================
+// Gazetteer integrity
+// ============================================================================
+
+describe("gazetteer", () => {
+  it("has unique keys and resolvable implied keys", () => {
+    const allKeys = GAZETTEER.map(entityKey);
+    assert.equal(new Set(allKeys).size, allKeys.length);
+    for (const entry of GAZETTEER) {
+      for (const implied of entry.implies ?? []) {
+        assert.ok(resolveEntityKey(implied), `${entityKey(entry)} implies unknown ${implied}`);
+      }
+      if (entry.role) assert.equal(entry.type, "company");
+    }
+  });
+
+  it("resolves stored keys", () => {
+    assert.equal(resolveEntityKey("state:FL")?.name, "Florida");
+    assert.equal(resolveEntityKey("company:nope"), null);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Entity Extraction
+ *
+ * Tags text with gazetteer entities using whole-word alias matching.
+ * Overlapping matches resolve longest-first, so "New Mexico" is a state
+ * rather than "Mexico", and "Swiss Re" is a reinsurer rather than "Swiss".
+ */
+
+import type { ArticleEntity } from "../../types/firestore.js";
+import {
+  GAZETTEER,
+  entityKey,
+  getGazetteerEntry,
+  type GazetteerEntry,
+} from "./gazetteer.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Upper bound on entities stored per article */
+export const MAX_ENTITIES_PER_ARTICLE = 25;
+
+// ============================================================================
+// Matchers
+// ============================================================================
+
+interface AliasMatcher {
+  entry: GazetteerEntry;
+  pattern: RegExp;
+}
+
+interface Match {
+  entry: GazetteerEntry;
+  start: number;
+  end: number;
+}
+
+const matcherCache = new WeakMap<readonly GazetteerEntry[], AliasMatcher[]>();
+
+/**
+ * Compile one regex per alias. Word boundaries are Unicode-aware and a
+ * trailing possessive ("Chubb's", "insurers'") is allowed.
+ */
+function buildMatchers(gazetteer: readonly GazetteerEntry[]): AliasMatcher[] {
+  const cached = matcherCache.get(gazetteer);
+  if (cached) return cached;
+
+  const matchers: AliasMatcher[] = [];
+  for (const entry of gazetteer) {
+    for (const alias of entry.aliases) {
+      const escaped = alias
+        .trim()
+        .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\s+/g, "\\s+")
+        .replace(/['’]/g, "['’]");
+      const flags = alias === alias.toLowerCase() ? "giu" : "gu";
+      matchers.push({
+        entry,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}&])${escaped}(?:['’]s|['’])?(?![\\p{L}\\p{N}&])`, flags),
+      });
+    }
+  }
+
+  matcherCache.set(gazetteer, matchers);
+  return matchers;
+}
+
+/** Convert a gazetteer entry to the shape stored on articles (no undefined fields) */
+export function toArticleEntity(entry: GazetteerEntry): ArticleEntity {
+  const entity: ArticleEntity = {
+    key: entityKey(entry),
+    type: entry.type,
+    name: entry.name,
+  };
+  if (entry.role) entity.role = entry.role;
+  if (entry.ticker) entity.ticker = entry.ticker;
+  if (entry.cik) entity.cik = entry.cik;
+  return entity;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Find gazetteer entities mentioned in text.
+ *
+ * Returns unique entities in order of first mention; entities implied by a
+ * match (a state regulator's state) follow the entity that implied them.
+ */
+export function extractEntities(
+  text: string,
+  gazetteer: readonly GazetteerEntry[] = GAZETTEER
+): ArticleEntity[] {
+  if (!text || text.trim().length === 0) return [];
+
+  const matches: Match[] = [];
+  for (const { entry, pattern } of buildMatchers(gazetteer)) {
+    pattern.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text)) !== null) {
+      matches.push({ entry, start: m.index, end: m.index + m[0].length });
+    }
+  }
+
+  // Longest match wins overlaps; ties go to the earlier mention
+  matches.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+  const accepted: Match[] = [];
+  for (const match of matches) {
+    const overlaps = accepted.some((a) => match.start < a.end && a.start < match.end);
+    if (!overlaps) accepted.push(match);
+  }
+  accepted.sort((a, b) => a.start - b.start);
+
+  const byKey = new Map(gazetteer.map((entry) => [entityKey(entry), entry]));
+  const entities: ArticleEntity[] = [];
+  const seen = new Set<string>();
+  const add = (entry: GazetteerEntry) => {
+    const key = entityKey(entry);
+    if (seen.has(key)) return;
+    seen.add(key);
+    entities.push(toArticleEntity(entry));
+  };
+
+  for (const { entry } of accepted) {
+    add(entry);
+    for (const implied of entry.implies ?? []) {
+      const impliedEntry = byKey.get(implied);
+      if (impliedEntry) add(impliedEntry);
+    }
+  }
+
+  return entities.slice(0, MAX_ENTITIES_PER_ARTICLE);
+}
+
+/**
+ * Entity keys for a Pulse topic: entities named in its display name or key,
+ * plus any entity whose gazetteer topicKey is this canonical key.
+ */
+export function topicEntityKeys(
+  topic: { key: string; displayName: string },
+  gazetteer: readonly GazetteerEntry[] = GAZETTEER
+): string[] {
+  const keys = new Set<string>();
+  for (const entry of gazetteer) {
+    if (entry.topicKey === topic.key) keys.add(entityKey(entry));
+  }
+  for (const entity of extractEntities(`${topic.displayName}\n${topic.key}`, gazetteer)) {
+    keys.add(entity.key);
+  }
+  return [...keys];
+}
+
+/**
+ * Resolve a stored entity key to its current gazetteer entity, or null if
+ * the key is unknown.
+ */
+export function resolveEntityKey(key: string): ArticleEntity | null {
+  const entry = getGazetteerEntry(key);
+  return entry ? toArticleEntity(entry) : null;
+}
@@ -0,0 +1,275 @@
+/**
+ * Entity Gazetteer
+ *
+ * Maintained list of the named entities we tag on articles: P&C companies
+ * (with ticker/CIK where listed), regulators, US states, countries, perils
+ * and lines of business.
+ *
+ * Alias rules:
+ * - Aliases containing an uppercase letter match case-sensitively
+ *   ("Travelers", "SCOR"); all-lowercase aliases match case-insensitively.
+ * - Entries with a `topicKey` also match every phrase the Pulse synonym map
+ *   (topic-normalization.ts) normalizes to that key, so both layers agree.
+ *
+ * To add an entity: append an entry below. Keys ("{type}:{id}") are stored
+ * on articles, so never rename an existing id.
+ */
+
+import type { CompanyRole, EntityType } from "../../types/firestore.js";
+import { topicSynonyms } from "../signals/topic-normalization.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GazetteerEntry {
+  /** ID within its type; the stored key is `${type}:${id}` */
+  id: string;
+  type: EntityType;
+  name: string;
+  aliases: string[];
+  role?: CompanyRole;
+  ticker?: string;
+  cik?: string;
+  /** Canonical Pulse topic key this entity corresponds to */
+  topicKey?: string;
+  /** Other entity keys implied by a match (e.g. a state regulator → its state) */
+  implies?: string[];
+}
+
+// ============================================================================
+// Companies
+// ============================================================================
+
+const CARRIERS: GazetteerEntry[] = [
+  { id: "travelers", type: "company", role: "carrier", name: "Travelers", ticker: "TRV", cik: "86312", aliases: ["Travelers", "Travelers Cos", "Travelers Companies"] },
+  { id: "chubb", type: "company", role: "carrier", name: "Chubb", ticker: "CB", cik: "896159", aliases: ["Chubb"] },
+  { id: "allstate", type: "company", role: "carrier", name: "Allstate", ticker: "ALL", cik: "899051", aliases: ["Allstate"] },
+  { id: "progressive", type: "company", role: "carrier", name: "Progressive", ticker: "PGR", cik: "80661", aliases: ["Progressive", "Progressive Corp"] },
+  { id: "aig", type: "company", role: "carrier", name: "AIG", ticker: "AIG", cik: "5272", aliases: ["AIG", "American International Group"] },
+  { id: "the-hartford", type: "company", role: "carrier", name: "The Hartford", ticker: "HIG", cik: "874766", aliases: ["The Hartford", "Hartford Financial", "Hartford Insurance"] },
+  { id: "berkshire-hathaway", type: "company", role: "carrier", name: "Berkshire Hathaway", ticker: "BRK.B", cik: "1067983", aliases: ["Berkshire Hathaway", "Berkshire"] },
+  { id: "geico", type: "company", role: "carrier", name: "GEICO", aliases: ["GEICO", "Geico"] },
+  { id: "state-farm", type: "company", role: "carrier", name: "State Farm", aliases: ["State Farm"] },
+  { id: "liberty-mutual", type: "company", role: "carrier", name: "Liberty Mutual", aliases: ["Liberty Mutual"] },
+  { id: "nationwide", type: "company", role: "carrier", name: "Nationwide", aliases: ["Nationwide Mutual", "Nationwide Insurance"] },
+  { id: "usaa", type: "company", role: "carrier", name: "USAA", aliases: ["USAA"] },
+  { id: "farmers", type: "company", role: "carrier", name: "Farmers Insurance", aliases: ["Farmers Insurance", "Farmers Group"] },
+  { id: "american-family", type: "company", role: "carrier", name: "American Family Insurance", aliases: ["American Family Insurance", "AmFam"] },
+  { id: "erie", type: "company", role: "carrier", name: "Erie Insurance", ticker: "ERIE", cik: "922621", aliases: ["Erie Insurance", "Erie Indemnity"] },
+  { id: "auto-owners", type: "company", role: "carrier", name: "Auto-Owners Insurance", aliases: ["Auto-Owners"] },
+  { id: "citizens-florida", type: "company", role: "carrier", name: "Citizens Property Insurance", aliases: ["Citizens Property Insurance", "Florida Citizens"], implies: ["state:FL"] },
+  { id: "zurich", type: "company", role: "carrier", name: "Zurich", ticker: "ZURN", aliases: ["Zurich Insurance", "Zurich North America", "Zurich American"] },
+  { id: "allianz", type: "company", role: "carrier", name: "Allianz", ticker: "ALV", aliases: ["Allianz"] },
+  { id: "axa", type: "company", role: "carrier", name: "AXA", ticker: "CS", aliases: ["AXA", "AXA XL"] },
+  { id: "markel", type: "company", role: "carrier", name: "Markel", ticker: "MKL", cik: "1096343", aliases: ["Markel"] },
+  { id: "wr-berkley", type: "company", role: "carrier", name: "W. R. Berkley", ticker: "WRB", cik: "11544", aliases: ["W. R. Berkley", "W.R. Berkley", "WR Berkley", "Berkley"] },
+  { id: "cincinnati-financial", type: "company", role: "carrier", name: "Cincinnati Financial", ticker: "CINF", cik: "20286", aliases: ["Cincinnati Financial", "Cincinnati Insurance"] },
+  { id: "cna", type: "company", role: "carrier", name: "CNA", ticker: "CNA", aliases: ["CNA Financial", "CNA"] },
+  { id: "rli", type: "company", role: "carrier", name: "RLI", ticker: "RLI", cik: "84246", aliases: ["RLI"] },
+  { id: "kinsale", type: "company", role: "carrier", name: "Kinsale Capital", ticker: "KNSL", cik: "1669162", aliases: ["Kinsale"] },
+  { id: "fairfax", type: "company", role: "carrier", name: "Fairfax Financial", ticker: "FFH", aliases: ["Fairfax Financial", "Fairfax"] },
+  { id: "selective", type: "company", role: "carrier", name: "Selective Insurance", ticker: "SIGI", aliases: ["Selective Insurance"] },
+  { id: "the-hanover", type: "company", role: "carrier", name: "The Hanover", ticker: "THG", aliases: ["The Hanover", "Hanover Insurance"] },
+  { id: "mercury", type: "company", role: "carrier", name: "Mercury Insurance", ticker: "MCY", aliases: ["Mercury General", "Mercury Insurance"] },
+  { id: "kemper", type: "company", role: "carrier", name: "Kemper", ticker: "KMPR", aliases: ["Kemper"] },
+  { id: "assurant", type: "company", role: "carrier", name: "Assurant", ticker: "AIZ", aliases: ["Assurant"] },
+  { id: "american-financial", type: "company", role: "carrier", name: "American Financial Group", ticker: "AFG", aliases: ["American Financial Group"] },
+  { id: "old-republic", type: "company", role: "carrier", name: "Old Republic", ticker: "ORI", aliases: ["Old Republic"] },
+  { id: "universal-insurance", type: "company", role: "carrier", name: "Universal Insurance Holdings", ticker: "UVE", aliases: ["Universal Insurance Holdings", "Universal Property & Casualty"] },
+  { id: "hci", type: "company", role: "carrier", name: "HCI Group", ticker: "HCI", aliases: ["HCI Group"] },
+  { id: "heritage", type: "company", role: "carrier", name: "Heritage Insurance", ticker: "HRTG", aliases: ["Heritage Insurance"] },
+  { id: "palomar", type: "company", role: "carrier", name: "Palomar", ticker: "PLMR", aliases: ["Palomar"] },
+  { id: "skyward", type: "company", role: "carrier", name: "Skyward Specialty", ticker: "SKWD", aliases: ["Skyward Specialty"] },
+  { id: "lemonade", type: "company", role: "carrier", name: "Lemonade", ticker: "LMND", aliases: ["Lemonade"] },
+  { id: "root", type: "company", role: "carrier", name: "Root Insurance", ticker: "ROOT", aliases: ["Root Insurance", "Root Inc"] },
+  { id: "hippo", type: "company", role: "carrier", name: "Hippo", ticker: "HIPO", aliases: ["Hippo Insurance", "Hippo Holdings"] },
+  { id: "lloyds", type: "company", role: "carrier", name: "Lloyd's", aliases: ["Lloyd's", "Lloyd’s"], topicKey: "lloyds", implies: ["country:GB"] },
+];
+
+const BROKERS: GazetteerEntry[] = [
+  { id: "marsh-mclennan", type: "company", role: "broker", name: "Marsh McLennan", ticker: "MMC", cik: "62709", aliases: ["Marsh McLennan", "Marsh & McLennan", "Marsh"] },
+  { id: "aon", type: "company", role: "broker", name: "Aon", ticker: "AON", cik: "315293", aliases: ["Aon"] },
+  { id: "gallagher", type: "company", role: "broker", name: "Gallagher", ticker: "AJG", cik: "354190", aliases: ["Arthur J. Gallagher", "Gallagher", "AJG"] },
+  { id: "wtw", type: "company", role: "broker", name: "WTW", ticker: "WTW", cik: "1140536", aliases: ["WTW", "Willis Towers Watson", "Willis"] },
+  { id: "brown-and-brown", type: "company", role: "broker", name: "Brown & Brown", ticker: "BRO", cik: "79282", aliases: ["Brown & Brown"] },
+  { id: "ryan-specialty", type: "company", role: "broker", name: "Ryan Specialty", ticker: "RYAN", cik: "1849253", aliases: ["Ryan Specialty"] },
+  { id: "lockton", type: "company", role: "broker", name: "Lockton", aliases: ["Lockton"] },
+  { id: "hub-international", type: "company", role: "broker", name: "HUB International", aliases: ["HUB International", "Hub International"] },
+  { id: "alliant", type: "company", role: "broker", name: "Alliant Insurance Services", aliases: ["Alliant Insurance Services", "Alliant"] },
+  { id: "acrisure", type: "company", role: "broker", name: "Acrisure", aliases: ["Acrisure"] },
+  { id: "amwins", type: "company", role: "broker", name: "Amwins", aliases: ["Amwins", "AmWINS"] },
+  { id: "usi", type: "company", role: "broker", name: "USI Insurance Services", aliases: ["USI Insurance Services"] },
+];
+
+const REINSURERS: GazetteerEntry[] = [
+  { id: "munich-re", type: "company", role: "reinsurer", name: "Munich Re", ticker: "MUV2", aliases: ["Munich Re"] },
+  { id: "swiss-re", type: "company", role: "reinsurer", name: "Swiss Re", ticker: "SREN", aliases: ["Swiss Re"] },
+  { id: "hannover-re", type: "company", role: "reinsurer", name: "Hannover Re", ticker: "HNR1", aliases: ["Hannover Re"] },
+  { id: "scor", type: "company", role: "reinsurer", name: "SCOR", ticker: "SCR", aliases: ["SCOR"] },
+  { id: "everest", type: "company", role: "reinsurer", name: "Everest Group", ticker: "EG", cik: "1095073", aliases: ["Everest Group", "Everest Re", "Everest"] },
+  { id: "renaissancere", type: "company", role: "reinsurer", name: "RenaissanceRe", ticker: "RNR", cik: "913144", aliases: ["RenaissanceRe", "RenRe"] },
+  { id: "arch", type: "company", role: "reinsurer", name: "Arch Capital", ticker: "ACGL", cik: "947484", aliases: ["Arch Capital", "Arch Re", "Arch Insurance"] },
+  { id: "axis", type: "company", role: "reinsurer", name: "AXIS Capital", ticker: "AXS", cik: "1214816", aliases: ["AXIS Capital", "Axis Capital", "AXIS Re"] },
+  { id: "gen-re", type: "company", role: "reinsurer", name: "Gen Re", aliases: ["Gen Re", "General Reinsurance"] },
+  { id: "partnerre", type: "company", role: "reinsurer", name: "PartnerRe", aliases: ["PartnerRe"] },
+  { id: "transre", type: "company", role: "reinsurer", name: "TransRe", aliases: ["TransRe", "Transatlantic Reinsurance"] },
+  { id: "hamilton", type: "company", role: "reinsurer", name: "Hamilton Insurance Group", ticker: "HG", aliases: ["Hamilton Insurance Group", "Hamilton Re"] },
+  { id: "fidelis", type: "company", role: "reinsurer", name: "Fidelis Insurance", ticker: "FIHL", aliases: ["Fidelis Insurance", "Fidelis"] },
+];
+
+// ============================================================================
+// Regulators
+// ============================================================================
+
+const REGULATORS: GazetteerEntry[] = [
+  { id: "naic", type: "regulator", name: "NAIC", aliases: ["NAIC", "National Association of Insurance Commissioners"] },
+  { id: "fio", type: "regulator", name: "Federal Insurance Office", aliases: ["Federal Insurance Office"] },
+  { id: "fema", type: "regulator", name: "FEMA", aliases: ["FEMA", "Federal Emergency Management Agency", "NFIP", "National Flood Insurance Program"] },
+  { id: "sec", type: "regulator", name: "SEC", aliases: ["SEC", "Securities and Exchange Commission"] },
+  { id: "ca-cdi", type: "regulator", name: "California Department of Insurance", aliases: ["California Department of Insurance", "CDI"], implies: ["state:CA"] },
+  { id: "fl-oir", type: "regulator", name: "Florida Office of Insurance Regulation", aliases: ["Florida Office of Insurance Regulation", "Florida OIR", "OIR"], implies: ["state:FL"] },
+  { id: "tx-tdi", type: "regulator", name: "Texas Department of Insurance", aliases: ["Texas Department of Insurance", "TDI"], implies: ["state:TX"] },
+  { id: "ny-dfs", type: "regulator", name: "New York Department of Financial Services", aliases: ["New York Department of Financial Services", "NYDFS", "DFS"], implies: ["state:NY"] },
+  { id: "pra", type: "regulator", name: "Prudential Regulation Authority", aliases: ["Prudential Regulation Authority", "PRA"], implies: ["country:GB"] },
+  { id: "fca", type: "regulator", name: "Financial Conduct Authority", aliases: ["Financial Conduct Authority"], implies: ["country:GB"] },
+  { id: "eiopa", type: "regulator", name: "EIOPA", aliases: ["EIOPA"] },
+  { id: "iais", type: "regulator", name: "IAIS", aliases: ["IAIS", "International Association of Insurance Supervisors"] },
+  { id: "bma", type: "regulator", name: "Bermuda Monetary Authority", aliases: ["Bermuda Monetary Authority", "BMA"], implies: ["country:BM"] },
+];
+
+// ============================================================================
+// Geography
+// ============================================================================
+
+/** US states, DC and Puerto Rico by USPS code. Names match case-sensitively. */
+const US_STATES: Array<[code: string, name: string, extraAliases?: string[]]> = [
+  ["AL", "Alabama"], ["AK", "Alaska"], ["AZ", "Arizona"], ["AR", "Arkansas"],
+  ["CA", "California"], ["CO", "Colorado"], ["CT", "Connecticut"], ["DE", "Delaware"],
+  ["FL", "Florida"], ["GA", "Georgia"], ["HI", "Hawaii"], ["ID", "Idaho"],
+  ["IL", "Illinois"], ["IN", "Indiana"], ["IA", "Iowa"], ["KS", "Kansas"],
+  ["KY", "Kentucky"], ["LA", "Louisiana"], ["ME", "Maine"], ["MD", "Maryland"],
+  ["MA", "Massachusetts"], ["MI", "Michigan"], ["MN", "Minnesota"], ["MS", "Mississippi"],
+  ["MO", "Missouri"], ["MT", "Montana"], ["NE", "Nebraska"], ["NV", "Nevada"],
+  ["NH", "New Hampshire"], ["NJ", "New Jersey"], ["NM", "New Mexico"], ["NY", "New York"],
+  ["NC", "North Carolina"], ["ND", "North Dakota"], ["OH", "Ohio"], ["OK", "Oklahoma"],
+  ["OR", "Oregon"], ["PA", "Pennsylvania"], ["RI", "Rhode Island"], ["SC", "South Carolina"],
+  ["SD", "South Dakota"], ["TN", "Tennessee"], ["TX", "Texas"], ["UT", "Utah"],
+  ["VT", "Vermont"], ["VA", "Virginia"], ["WV", "West Virginia"], ["WI", "Wisconsin"],
+  ["WY", "Wyoming"],
+  // "Washington" alone usually means the federal government
+  ["WA", "Washington", ["Washington State", "Washington state"]],
+  ["DC", "District of Columbia", ["Washington, D.C."]],
+  ["PR", "Puerto Rico"],
+];
+
+const STATES: GazetteerEntry[] = US_STATES.map(([code, name, extraAliases]) => ({
+  id: code,
+  type: "state",
+  name,
+  aliases: extraAliases ?? [name],
+}));
+
+const COUNTRIES: GazetteerEntry[] = [
+  { id: "GB", type: "country", name: "United Kingdom", aliases: ["United Kingdom", "U.K.", "UK", "Britain"] },
+  { id: "CA", type: "country", name: "Canada", aliases: ["Canada", "Canadian"] },
+  { id: "MX", type: "country", name: "Mexico", aliases: ["Mexico", "Mexican"] },
+  { id: "BM", type: "country", name: "Bermuda", aliases: ["Bermuda"] },
+  { id: "KY", type: "country", name: "Cayman Islands", aliases: ["Cayman Islands", "Cayman"] },
+  { id: "JP", type: "country", name: "Japan", aliases: ["Japan", "Japanese"] },
+  { id: "CN", type: "country", name: "China", aliases: ["China", "Chinese"] },
+  { id: "IN", type: "country", name: "India", aliases: ["India"] },
+  { id: "SG", type: "country", name: "Singapore", aliases: ["Singapore"] },
+  { id: "PH", type: "country", name: "Philippines", aliases: ["Philippines"] },
+  { id: "AU", type: "country", name: "Australia", aliases: ["Australia", "Australian"] },
+  { id: "NZ", type: "country", name: "New Zealand", aliases: ["New Zealand"] },
+  { id: "DE", type: "country", name: "Germany", aliases: ["Germany", "German"] },
+  { id: "FR", type: "country", name: "France", aliases: ["France", "French"] },
+  { id: "CH", type: "country", name: "Switzerland", aliases: ["Switzerland", "Swiss"] },
+  { id: "IE", type: "country", name: "Ireland", aliases: ["Ireland", "Irish"] },
+  { id: "IT", type: "country", name: "Italy", aliases: ["Italy", "Italian"] },
+  { id: "ES", type: "country", name: "Spain", aliases: ["Spain", "Spanish"] },
+  { id: "BR", type: "country", name: "Brazil", aliases: ["Brazil", "Brazilian"] },
+  { id: "CL", type: "country", name: "Chile", aliases: ["Chile"] },
+  { id: "TR", type: "country", name: "Türkiye", aliases: ["Türkiye", "Turkey"] },
+  { id: "UA", type: "country", name: "Ukraine", aliases: ["Ukraine", "Ukrainian"] },
+  { id: "IL", type: "country", name: "Israel", aliases: ["Israel", "Israeli"] },
+];
+
+// ============================================================================
+// Perils & Lines of Business
+// ============================================================================
+
+const PERILS: GazetteerEntry[] = [
+  { id: "nat-cat", type: "peril", name: "Natural Catastrophe", aliases: ["natural catastrophe", "natural catastrophes", "nat cat", "cat losses"], topicKey: "cat losses" },
+  { id: "hurricane", type: "peril", name: "Hurricane", aliases: ["hurricane", "hurricanes", "tropical storm", "tropical storms", "typhoon", "typhoons"], topicKey: "hurricane losses" },
+  { id: "wildfire", type: "peril", name: "Wildfire", aliases: ["wildfire", "wildfires", "bushfire", "bushfires"], topicKey: "wildfire losses" },
+  { id: "flood", type: "peril", name: "Flood", aliases: ["flood", "floods", "flooding", "flash flood", "storm surge"] },
+  { id: "severe-convective-storm", type: "peril", name: "Severe Convective Storm", aliases: ["severe convective storm", "severe convective storms", "convective storm", "convective storms", "SCS", "derecho", "severe weather", "severe storms"] },
+  { id: "hail", type: "peril", name: "Hail", aliases: ["hail", "hailstorm", "hailstorms", "hail storm"] },
+  { id: "tornado", type: "peril", name: "Tornado", aliases: ["tornado", "tornadoes", "tornados"] },
+  { id: "earthquake", type: "peril", name: "Earthquake", aliases: ["earthquake", "earthquakes", "quake", "seismic"] },
+  { id: "winter-storm", type: "peril", name: "Winter Storm", aliases: ["winter storm", "ice storm", "blizzard", "deep freeze", "polar vortex"], topicKey: "winter storm losses" },
+  { id: "drought", type: "peril", name: "Drought", aliases: ["drought"] },
+  { id: "cyber-attack", type: "peril", name: "Cyber Attack", aliases: ["cyberattack", "cyberattacks", "cyber attack", "cyber attacks", "ransomware", "data breach", "data breaches"] },
+  { id: "terrorism", type: "peril", name: "Terrorism", aliases: ["terrorism", "terrorist attack"] },
+  { id: "pandemic", type: "peril", name: "Pandemic", aliases: ["pandemic", "COVID-19", "COVID"] },
+];
+
+const LINES: GazetteerEntry[] = [
+  { id: "homeowners", type: "line", name: "Homeowners", aliases: ["homeowners", "homeowners insurance", "home insurance"] },
+  { id: "personal-auto", type: "line", name: "Personal Auto", aliases: ["personal auto", "private passenger auto", "auto insurance", "car insurance"] },
+  { id: "commercial-auto", type: "line", name: "Commercial Auto", aliases: ["commercial auto", "trucking insurance"], topicKey: "commercial auto" },
+  { id: "commercial-property", type: "line", name: "Commercial Property", aliases: ["commercial property"] },
+  { id: "general-liability", type: "line", name: "General Liability", aliases: ["general liability"] },
+  { id: "professional-liability", type: "line", name: "Professional Liability", aliases: ["professional liability"] },
+  { id: "d-and-o", type: "line", name: "Directors & Officers", aliases: ["d&o"], topicKey: "d&o" },
+  { id: "e-and-o", type: "line", name: "Errors & Omissions", aliases: ["e&o"], topicKey: "e&o" },
+  { id: "cyber", type: "line", name: "Cyber", aliases: ["cyber insurance", "cyber liability", "cyber coverage"], topicKey: "cyber liability" },
+  { id: "workers-comp", type: "line", name: "Workers' Compensation", aliases: ["workers comp", "workers' comp", "workers' compensation"], topicKey: "workers comp" },
+  { id: "medical-malpractice", type: "line", name: "Medical Malpractice", aliases: ["medical malpractice", "med mal", "medical professional liability"] },
+  { id: "umbrella-excess", type: "line", name: "Umbrella & Excess", aliases: ["umbrella", "excess liability", "excess casualty"] },
+  { id: "marine", type: "line", name: "Marine", aliases: ["marine insurance", "ocean marine", "inland marine", "marine cargo", "marine hull"] },
+  { id: "aviation", type: "line", name: "Aviation", aliases: ["aviation insurance", "aviation"] },
+  { id: "surety", type: "line", name: "Surety", aliases: ["surety"] },
+  { id: "crop", type: "line", name: "Crop", aliases: ["crop insurance"] },
+  { id: "pet", type: "line", name: "Pet", aliases: ["pet insurance"] },
+  { id: "flood-insurance", type: "line", name: "Flood Insurance", aliases: ["flood insurance", "flood coverage", "flood policies"] },
+  { id: "title", type: "line", name: "Title", aliases: ["title insurance"] },
+  { id: "renters", type: "line", name: "Renters", aliases: ["renters insurance"] },
+  { id: "trade-credit", type: "line", name: "Trade Credit", aliases: ["trade credit"] },
+  { id: "excess-surplus", type: "line", name: "Excess & Surplus Lines", aliases: ["e&s"], topicKey: "e&s" },
+];
+
+// ============================================================================
+// Gazetteer
+// ============================================================================
+
+/** Every entry, with Pulse synonym phrases merged into the aliases */
+export const GAZETTEER: readonly GazetteerEntry[] = [
+  ...CARRIERS,
+  ...BROKERS,
+  ...REINSURERS,
+  ...REGULATORS,
+  ...STATES,
+  ...COUNTRIES,
+  ...PERILS,
+  ...LINES,
+].map((entry) => ({
+  ...entry,
+  aliases: entry.topicKey
+    ? [...new Set([...entry.aliases, ...topicSynonyms(entry.topicKey)])]
+    : entry.aliases,
+}));
+
+const BY_KEY = new Map(GAZETTEER.map((entry) => [entityKey(entry), entry]));
+
+/** Stored key for an entry, e.g. "company:travelers" */
+export function entityKey(entry: Pick<GazetteerEntry, "type" | "id">): string {
+  return `${entry.type}:${entry.id}`;
+}
+
+/** Look up a gazetteer entry by its stored key */
+export function getGazetteerEntry(key: string): GazetteerEntry | null {
+  return BY_KEY.get(key) ?? null;
+}
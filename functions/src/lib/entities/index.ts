@@ -0,0 +1,18 @@
+/**
+ * Entity Extraction Module Exports
+ */
+
+export {
+  GAZETTEER,
+  entityKey,
+  getGazetteerEntry,
+  type GazetteerEntry,
+} from "./gazetteer.js";
+
+export {
+  MAX_ENTITIES_PER_ARTICLE,
+  toArticleEntity,
+  extractEntities,
+  topicEntityKeys,
+  resolveEntityKey,
+} from "./extract.js";
@@ -0,0 +1,86 @@
+/**
+ * Prompt Eval Golden Set
+ *
+ * A golden set is a frozen sample of real inputs (articles, the article
+ * sets behind recent daily briefs, and Ask questions with their retrieved
+ * context) recorded once by `npm run record-eval-set`. Replaying it through
+ * two prompt versions isolates the effect of the prompt: inputs, retrieval
+ * and article selection are identical on both sides.
+ */
+
+import type { PromptId } from "../ai/prompt-versions.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Prompts the golden set has inputs for */
+export type EvalPromptId = Extract<PromptId, "articleSummary" | "dailyBrief" | "ragAnswer" | "ragStreaming">;
+
+export const EVAL_PROMPT_IDS: EvalPromptId[] = ["articleSummary", "dailyBrief", "ragAnswer", "ragStreaming"];
+
+export interface EvalArticle {
+  id: string;
+  title: string;
+  sourceName: string;
+  url: string;
+  /** yyyy-mm-dd */
+  publishedAt: string;
+  snippet: string;
+  tldr: string | null;
+}
+
+export interface EvalGoldenSet {
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+  articles: EvalArticle[];
+  /** Articles to summarize (article summary cases) */
+  summaryArticleIds: string[];
+  /** Article sets behind daily briefs (brief cases) */
+  briefs: Array<{ date: string; articleIds: string[] }>;
+  /** Questions with their retrieved context, in context order (Ask cases) */
+  questions: Array<{ question: string; articleIds: string[] }>;
+}
+
+/** One input replayed through both prompt versions */
+export interface EvalCase {
+  /** Stable label used in the report, e.g. "brief 2026-10-16" */
+  id: string;
+  /** Inputs in prompt order; citations are checked against these */
+  articles: EvalArticle[];
+  /** Brief date (brief cases) */
+  date?: string;
+  /** Question (Ask cases) */
+  question?: string;
+}
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+/**
+ * Cases for a prompt. Article IDs missing from the set's articles are
+ * skipped; cases left with no articles are dropped.
+ */
+export function buildEvalCases(promptId: EvalPromptId, golden: EvalGoldenSet): EvalCase[] {
+  const byId = new Map(golden.articles.map((a) => [a.id, a]));
+  const resolve = (ids: string[]) =>
+    ids.map((id) => byId.get(id)).filter((a): a is EvalArticle => a !== undefined);
+
+  switch (promptId) {
+    case "articleSummary":
+      return resolve(golden.summaryArticleIds).map((article) => ({
+        id: `article ${article.id}`,
+        articles: [article],
+      }));
+    case "dailyBrief":
+      return golden.briefs
+        .map((brief) => ({ id: `brief ${brief.date}`, articles: resolve(brief.articleIds), date: brief.date }))
+        .filter((c) => c.articles.length > 0);
+    case "ragAnswer":
+    case "ragStreaming":
+      return golden.questions
+        .map((q, i) => ({ id: `question ${i + 1}`, articles: resolve(q.articleIds), question: q.question }))
+        .filter((c) => c.articles.length > 0);
+  }
+}
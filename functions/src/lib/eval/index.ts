@@ -0,0 +1,48 @@
+/**
+ * Eval Module Exports (prompts and retrieval)
+ */
+
+export {
+  EVAL_PROMPT_IDS,
+  buildEvalCases,
+  type EvalPromptId,
+  type EvalArticle,
+  type EvalGoldenSet,
+  type EvalCase,
+} from "./golden.js";
+
+export {
+  BANNED_PHRASES,
+  jsonSchemaErrors,
+  countWords,
+  findBannedPhrases,
+  scoreEvalOutput,
+  type EvalScore,
+} from "./score.js";
+
+export {
+  summarizeEvalRuns,
+  compareEvalRuns,
+  formatEvalReport,
+  formatEvalSummary,
+  type EvalRun,
+  type EvalCaseResult,
+  type EvalSummary,
+  type EvalComparison,
+} from "./report.js";
+
+export {
+  cosine,
+  exactTopK,
+  recallAtK,
+  percentile,
+  summarizeRetrievalRuns,
+  compareRetrievalRuns,
+  formatRetrievalReport,
+  formatRetrievalSummary,
+  type ScoredId,
+  type RetrievalRun,
+  type RetrievalCase,
+  type RetrievalSummary,
+  type RetrievalComparison,
+} from "./retrieval.js";
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for prompt eval summaries and reports
+ *
+ * Run: npx tsx --test functions/src/lib/eval/report.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compareEvalRuns, formatEvalReport, summarizeEvalRuns, type EvalRun } from "./report.js";
+import type { EvalScore } from "./score.js";
+
+function run(overrides: Partial<EvalScore> = {}, error?: string): EvalRun {
+  return {
+    outputText: "{\"answerMarkdown\":\"Rates rose [1].\"}",
+    score: {
+      schemaValid: true,
+      schemaErrors: [],
+      citationCoverage: 1,
+      unknownCitations: [],
+      words: 100,
+      lengthViolations: [],
+      bannedPhrases: [],
+      ...overrides,
+    },
+    ...(error ? { error } : {}),
+  };
+}
+
+describe("summarizeEvalRuns", () => {
+  it("averages coverage only over cases that cite", () => {
+    const summary = summarizeEvalRuns([
+      run({ citationCoverage: 0.5, words: 50 }),
+      run({ citationCoverage: null, words: 150, bannedPhrases: ["delve"] }),
+      run({ schemaValid: false, citationCoverage: null, words: 0 }, "timeout"),
+    ]);
+
+    assert.equal(summary.cases, 3);
+    assert.equal(summary.schemaValid, 2);
+    assert.equal(summary.meanCitationCoverage, 0.5);
+    assert.equal(summary.meanWords, 67);
+    assert.equal(summary.bannedPhrases, 1);
+    assert.equal(summary.errors, 1);
+  });
+});
+
+describe("compareEvalRuns", () => {
+  const params = {
+    baseTag: "ragAnswer@v1",
+    candidateTag: "ragAnswer@v2",
+    model: "gpt-4o-mini",
+    goldenRecordedAt: "2026-10-17T12:00:00.000Z",
+  };
+
+  it("flags metrics where the candidate is worse", () => {
+    const comparison = compareEvalRuns({
+      ...params,
+      cases: [
+        { caseId: "question 1", base: run(), candidate: run({ citationCoverage: 0.5, bannedPhrases: ["delve"] }) },
+        { caseId: "question 2", base: run(), candidate: run({ schemaValid: false, schemaErrors: ["$: not an object"] }) },
+      ],
+    });
+
+    assert.deepEqual(comparison.regressions, [
+      "Schema-valid outputs fell from 2 to 1",
+      "Citation coverage fell from 100% to 75%",
+      "Banned phrases rose from 0 to 1",
+    ]);
+  });
+
+  it("tolerates small coverage dips and reports improvements as clean", () => {
+    const comparison = compareEvalRuns({
+      ...params,
+      cases: [
+        { caseId: "question 1", base: run({ words: 300 }), candidate: run({ citationCoverage: 0.96, words: 200 }) },
+      ],
+    });
+    assert.deepEqual(comparison.regressions, []);
+  });
+
+  it("formats a side-by-side report with findings and outputs", () => {
+    const report = formatEvalReport(
+      compareEvalRuns({
+        ...params,
+        cases: [{ caseId: "question 1", base: run(), candidate: run({ bannedPhrases: ["delve"] }) }],
+      })
+    );
+
+    assert.match(report, /^# Prompt eval: ragAnswer@v1 vs ragAnswer@v2/);
+    assert.match(report, /\| Schema-valid \| 1\/1 \| 1\/1 \|/);
+    assert.match(report, /\*\*Regressions:\*\*\n- Banned phrases rose from 0 to 1/);
+    assert.match(report, /### question 1/);
+    assert.match(report, /- ragAnswer@v2: banned phrase: "delve"/);
+    assert.match(report, /```json\n\{\n {2}"answerMarkdown": "Rates rose \[1\]\."\n\}\n```/);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Prompt Eval Report
+ *
+ * Rolls per-case scores for a base and a candidate prompt version into
+ * summary metrics, flags regressions, and formats the side-by-side
+ * markdown report reviewed alongside the prompt change.
+ */
+
+import type { EvalScore } from "./score.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One case run through one prompt version */
+export interface EvalRun {
+  outputText: string;
+  score: EvalScore;
+  /** Provider error (the output is then empty) */
+  error?: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  base: EvalRun;
+  candidate: EvalRun;
+}
+
+export interface EvalSummary {
+  cases: number;
+  schemaValid: number;
+  /** Mean over cases with citable parts; null when none had any */
+  meanCitationCoverage: number | null;
+  unknownCitations: number;
+  meanWords: number;
+  lengthViolations: number;
+  bannedPhrases: number;
+  errors: number;
+}
+
+export interface EvalComparison {
+  /** Prompt version tags, e.g. "dailyBrief@v1" */
+  baseTag: string;
+  candidateTag: string;
+  /** Provider model that produced the outputs */
+  model: string;
+  goldenRecordedAt: string;
+  cases: EvalCaseResult[];
+  base: EvalSummary;
+  candidate: EvalSummary;
+  /** Metrics where the candidate is worse than the base */
+  regressions: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Drop in mean citation coverage that counts as a regression */
+const COVERAGE_TOLERANCE = 0.05;
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+export function summarizeEvalRuns(runs: EvalRun[]): EvalSummary {
+  const coverages = runs
+    .map((r) => r.score.citationCoverage)
+    .filter((c): c is number => c !== null);
+  const sum = (f: (r: EvalRun) => number) => runs.reduce((total, r) => total + f(r), 0);
+
+  return {
+    cases: runs.length,
+    schemaValid: runs.filter((r) => r.score.schemaValid).length,
+    meanCitationCoverage:
+      coverages.length > 0 ? coverages.reduce((a, b) => a + b, 0) / coverages.length : null,
+    unknownCitations: sum((r) => r.score.unknownCitations.length),
+    meanWords: runs.length > 0 ? Math.round(sum((r) => r.score.words) / runs.length) : 0,
+    lengthViolations: sum((r) => r.score.lengthViolations.length),
+    bannedPhrases: sum((r) => r.score.bannedPhrases.length),
+    errors: runs.filter((r) => r.error).length,
+  };
+}
+
+function findRegressions(base: EvalSummary, candidate: EvalSummary): string[] {
+  const regressions: string[] = [];
+  if (candidate.schemaValid < base.schemaValid) {
+    regressions.push(`Schema-valid outputs fell from ${base.schemaValid} to ${candidate.schemaValid}`);
+  }
+  if (
+    base.meanCitationCoverage !== null &&
+    (candidate.meanCitationCoverage ?? 0) < base.meanCitationCoverage - COVERAGE_TOLERANCE
+  ) {
+    regressions.push(
+      `Citation coverage fell from ${formatPercent(base.meanCitationCoverage)} to ${formatPercent(candidate.meanCitationCoverage)}`
+    );
+  }
+  if (candidate.unknownCitations > base.unknownCitations) {
+    regressions.push(`Unknown citations rose from ${base.unknownCitations} to ${candidate.unknownCitations}`);
+  }
+  if (candidate.lengthViolations > base.lengthViolations) {
+    regressions.push(`Length violations rose from ${base.lengthViolations} to ${candidate.lengthViolations}`);
+  }
+  if (candidate.bannedPhrases > base.bannedPhrases) {
+    regressions.push(`Banned phrases rose from ${base.bannedPhrases} to ${candidate.bannedPhrases}`);
+  }
+  if (candidate.errors > base.errors) {
+    regressions.push(`Provider errors rose from ${base.errors} to ${candidate.errors}`);
+  }
+  return regressions;
+}
+
+export function compareEvalRuns(params: {
+  baseTag: string;
+  candidateTag: string;
+  model: string;
+  goldenRecordedAt: string;
+  cases: EvalCaseResult[];
+}): EvalComparison {
+  const base = summarizeEvalRuns(params.cases.map((c) => c.base));
+  const candidate = summarizeEvalRuns(params.cases.map((c) => c.candidate));
+  return { ...params, base, candidate, regressions: findRegressions(base, candidate) };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatPercent(value: number | null): string {
+  return value === null ? "n/a" : `${Math.round(value * 100)}%`;
+}
+
+function formatRunCell(run: EvalRun): string {
+  if (run.error) return "error";
+  const s = run.score;
+  return [
+    s.schemaValid ? "valid" : "invalid",
+    `cites ${formatPercent(s.citationCoverage)}`,
+    `${s.words} words`,
+    s.lengthViolations.length > 0 ? `${s.lengthViolations.length} over limit` : null,
+    s.bannedPhrases.length > 0 ? `${s.bannedPhrases.length} banned` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function formatFindings(tag: string, run: EvalRun): string[] {
+  const findings = [
+    ...(run.error ? [`error: ${run.error}`] : []),
+    ...run.score.schemaErrors.map((e) => `schema: ${e}`),
+    ...run.score.unknownCitations.map((c) => `unknown citation: ${c}`),
+    ...run.score.lengthViolations.map((v) => `length: ${v}`),
+    ...run.score.bannedPhrases.map((p) => `banned phrase: "${p}"`),
+  ];
+  return findings.map((f) => `- ${tag}: ${f}`);
+}
+
+function formatOutput(text: string): string {
+  if (!text) return "_(no output)_";
+  try {
+    return "```json\n" + JSON.stringify(JSON.parse(text), null, 2) + "\n```";
+  } catch {
+    return "```markdown\n" + text + "\n```";
+  }
+}
+
+/**
+ * Markdown report: summary table, regressions, then each case with both
+ * versions' scores, findings and raw outputs.
+ */
+export function formatEvalReport(comparison: EvalComparison): string {
+  const { baseTag, candidateTag, base, candidate } = comparison;
+  const row = (label: string, a: string | number, b: string | number) => `| ${label} | ${a} | ${b} |`;
+
+  const lines = [
+    `# Prompt eval: ${baseTag} vs ${candidateTag}`,
+    "",
+    `Golden set recorded ${comparison.goldenRecordedAt}; ${comparison.cases.length} cases; model ${comparison.model}.`,
+    "",
+    "## Summary",
+    "",
+    `| Metric | ${baseTag} | ${candidateTag} |`,
+    "| --- | --- | --- |",
+    row("Schema-valid", `${base.schemaValid}/${base.cases}`, `${candidate.schemaValid}/${candidate.cases}`),
+    row("Citation coverage", formatPercent(base.meanCitationCoverage), formatPercent(candidate.meanCitationCoverage)),
+    row("Unknown citations", base.unknownCitations, candidate.unknownCitations),
+    row("Mean words", base.meanWords, candidate.meanWords),
+    row("Length violations", base.lengthViolations, candidate.lengthViolations),
+    row("Banned phrases", base.bannedPhrases, candidate.bannedPhrases),
+    row("Errors", base.errors, candidate.errors),
+    "",
+    comparison.regressions.length > 0
+      ? ["**Regressions:**", ...comparison.regressions.map((r) => `- ${r}`)].join("\n")
+      : "No regressions.",
+    "",
+    "## Cases",
+  ];
+
+  for (const result of comparison.cases) {
+    const findings = [
+      ...formatFindings(baseTag, result.base),
+      ...formatFindings(candidateTag, result.candidate),
+    ];
+    lines.push(
+      "",
+      `### ${result.caseId}`,
+      "",
+      `| ${baseTag} | ${candidateTag} |`,
+      "| --- | --- |",
+      `| ${formatRunCell(result.base)} | ${formatRunCell(result.candidate)} |`,
+      "",
+      ...(findings.length > 0 ? [...findings, ""] : []),
+      "<details><summary>Outputs</summary>",
+      "",
+      `**${baseTag}**`,
+      "",
+      formatOutput(result.base.outputText),
+      "",
+      `**${candidateTag}**`,
+      "",
+      formatOutput(result.candidate.outputText),
+      "",
+      "</details>"
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** Console summary printed by the eval script */
+export function formatEvalSummary(comparison: EvalComparison): string {
+  const { base, candidate } = comparison;
+  const pad = (s: string) => s.padEnd(20);
+  return [
+    `   ${pad("")}${pad(comparison.baseTag)}${comparison.candidateTag}`,
+    `   ${pad("Schema-valid")}${pad(`${base.schemaValid}/${base.cases}`)}${candidate.schemaValid}/${candidate.cases}`,
+    `   ${pad("Citation coverage")}${pad(formatPercent(base.meanCitationCoverage))}${formatPercent(candidate.meanCitationCoverage)}`,
+    `   ${pad("Unknown citations")}${pad(String(base.unknownCitations))}${candidate.unknownCitations}`,
+    `   ${pad("Mean words")}${pad(String(base.meanWords))}${candidate.meanWords}`,
+    `   ${pad("Length violations")}${pad(String(base.lengthViolations))}${candidate.lengthViolations}`,
+    `   ${pad("Banned phrases")}${pad(String(base.bannedPhrases))}${candidate.bannedPhrases}`,
+    `   ${pad("Errors")}${pad(String(base.errors))}${candidate.errors}`,
+  ].join("\n");
+}
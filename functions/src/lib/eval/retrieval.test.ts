@@ -0,0 +1,101 @@
+/**
+ * Unit tests for retrieval eval metrics and reports
+ *
+ * Run: npx tsx --test functions/src/lib/eval/retrieval.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  compareRetrievalRuns,
+  exactTopK,
+  formatRetrievalReport,
+  percentile,
+  recallAtK,
+  type RetrievalCase,
+} from "./retrieval.js";
+
+describe("exactTopK", () => {
+  it("ranks by cosine similarity and breaks ties by ID", () => {
+    const entries = [
+      { id: "b", vector: [1, 0] },
+      { id: "a", vector: [2, 0] },
+      { id: "c", vector: [0, 1] },
+      { id: "d", vector: [1, 1] },
+    ];
+    assert.deepEqual(exactTopK([1, 0], entries, 3).map((h) => h.id), ["a", "b", "d"]);
+  });
+});
+
+describe("recallAtK", () => {
+  const exact = [{ id: "a", score: 0.9 }, { id: "b", score: 0.8 }, { id: "c", score: 0.7 }, { id: "d", score: 0.6 }];
+
+  it("counts the exact top k among the returned IDs", () => {
+    assert.equal(recallAtK(["c", "a", "x", "b"], exact, 4), 0.75);
+    assert.equal(recallAtK(["c", "a", "x", "b"], exact, 2), 0.5);
+  });
+
+  it("is perfect when there is nothing to find", () => {
+    assert.equal(recallAtK([], [], 10), 1);
+  });
+});
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [50, 10, 40, 20, 30];
+    assert.equal(percentile(values, 0.5), 30);
+    assert.equal(percentile(values, 0.95), 50);
+    assert.equal(percentile([], 0.5), 0);
+  });
+});
+
+describe("compareRetrievalRuns", () => {
+  const cases: RetrievalCase[] = [
+    {
+      question: "Cat pricing?",
+      scope: "7d",
+      searchSpace: 120,
+      exact: [{ id: "a", score: 0.9 }, { id: "b", score: 0.8 }],
+      base: { ids: ["a", "x"], latencyMs: 100 },
+      candidate: { ids: ["a", "b"], latencyMs: 140 },
+    },
+    {
+      question: "Reserve charges?",
+      scope: "1y",
+      searchSpace: 9000,
+      exact: [{ id: "c", score: 0.7 }, { id: "d", score: 0.6 }],
+      base: { ids: ["y", "z"], latencyMs: 300 },
+      candidate: { ids: ["d", "c"], latencyMs: 200 },
+    },
+  ];
+  const similarity: Record<string, number> = { a: 0.9, b: 0.8, c: 0.7, d: 0.6, x: 0.5, y: 0.4, z: 0.3 };
+  const comparison = compareRetrievalRuns({
+    baseLabel: "candidates",
+    candidateLabel: "index",
+    k: 2,
+    goldenRecordedAt: "2026-10-19T00:00:00.000Z",
+    model: "text-embedding-3-small",
+    indexNote: "ivf-20261019-0430",
+    cases,
+    similarityOf: (_c, id) => similarity[id],
+  });
+
+  it("summarizes recall, similarity and latency for each path", () => {
+    assert.equal(comparison.base.meanRecall, 0.25);
+    assert.equal(comparison.candidate.meanRecall, 1);
+    assert.ok(Math.abs(comparison.candidate.meanSimilarity - 0.75) < 1e-9);
+    assert.equal(comparison.base.p95LatencyMs, 300);
+  });
+
+  it("breaks results down by scope", () => {
+    assert.deepEqual(comparison.byScope.map((s) => s.scope), ["7d", "1y"]);
+    assert.equal(comparison.byScope[1].base.meanRecall, 0);
+  });
+
+  it("formats a markdown report", () => {
+    const report = formatRetrievalReport(comparison);
+    assert.match(report, /^# Retrieval eval: candidates vs index/);
+    assert.match(report, /\| index \| 100% \| 0\.750 \| 140 ms \| 200 ms \|/);
+    assert.match(report, /\| Reserve charges\? \| 1y \| 9000 \| 0% \| 100% \| 300 \| 200 \|/);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Retrieval Eval
+ *
+ * Compares two retrieval paths for Ask on the golden questions: each path's
+ * top articles are scored against the exact nearest neighbours (brute-force
+ * cosine over every in-scope embedding) for recall@k and mean similarity,
+ * alongside per-question latency. Formats the markdown report written by
+ * npm run eval-retrieval.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScoredId {
+  id: string;
+  score: number;
+}
+
+/** One question run through one retrieval path */
+export interface RetrievalRun {
+  /** Ranked article IDs (top k) */
+  ids: string[];
+  latencyMs: number;
+}
+
+export interface RetrievalCase {
+  question: string;
+  /** Scope label, e.g. "90d" */
+  scope: string;
+  /** In-scope articles with embeddings (the exact search space) */
+  searchSpace: number;
+  /** Exact top k by cosine similarity */
+  exact: ScoredId[];
+  base: RetrievalRun;
+  candidate: RetrievalRun;
+}
+
+export interface RetrievalSummary {
+  cases: number;
+  /** Mean recall@k against the exact top k */
+  meanRecall: number;
+  /** Mean cosine similarity of the returned articles */
+  meanSimilarity: number;
+  medianLatencyMs: number;
+  p95LatencyMs: number;
+}
+
+export interface RetrievalComparison {
+  baseLabel: string;
+  candidateLabel: string;
+  k: number;
+  goldenRecordedAt: string;
+  /** Embedding model of the questions and the exact search */
+  model: string;
+  /** e.g. "ivf-20261019-0430, 12,400 articles, loaded in 850 ms" */
+  indexNote: string;
+  cases: RetrievalCase[];
+  base: RetrievalSummary;
+  candidate: RetrievalSummary;
+  /** Summaries per scope label */
+  byScope: Array<{ scope: string; base: RetrievalSummary; candidate: RetrievalSummary }>;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const norm = Math.sqrt(normA) * Math.sqrt(normB);
+  return norm === 0 ? 0 : dot / norm;
+}
+
+/** Exact top k by cosine similarity (ties broken by ID for stable runs) */
+export function exactTopK(
+  query: ArrayLike<number>,
+  entries: Array<{ id: string; vector: ArrayLike<number> }>,
+  k: number
+): ScoredId[] {
+  return entries
+    .map((e) => ({ id: e.id, score: cosine(query, e.vector) }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, k);
+}
+
+/** Share of the exact top k found in the returned IDs (1 when the exact set is empty) */
+export function recallAtK(ids: string[], exact: ScoredId[], k: number): number {
+  const expected = exact.slice(0, k);
+  if (expected.length === 0) return 1;
+  const returned = new Set(ids.slice(0, k));
+  return expected.filter((e) => returned.has(e.id)).length / expected.length;
+}
+
+/** Nearest-rank percentile (p in [0, 1]); 0 for no values */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * @param similarityOf - Cosine similarity of an article to the case's question
+ */
+export function summarizeRetrievalRuns(
+  cases: RetrievalCase[],
+  pick: (c: RetrievalCase) => RetrievalRun,
+  k: number,
+  similarityOf: (c: RetrievalCase, id: string) => number
+): RetrievalSummary {
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  const latencies = cases.map((c) => pick(c).latencyMs);
+  return {
+    cases: cases.length,
+    meanRecall: mean(cases.map((c) => recallAtK(pick(c).ids, c.exact, k))),
+    meanSimilarity: mean(cases.flatMap((c) => pick(c).ids.slice(0, k).map((id) => similarityOf(c, id)))),
+    medianLatencyMs: percentile(latencies, 0.5),
+    p95LatencyMs: percentile(latencies, 0.95),
+  };
+}
+
+export function compareRetrievalRuns(params: {
+  baseLabel: string;
+  candidateLabel: string;
+  k: number;
+  goldenRecordedAt: string;
+  model: string;
+  indexNote: string;
+  cases: RetrievalCase[];
+  similarityOf: (c: RetrievalCase, id: string) => number;
+}): RetrievalComparison {
+  const { similarityOf, ...rest } = params;
+  const summarize = (cases: RetrievalCase[]) => ({
+    base: summarizeRetrievalRuns(cases, (c) => c.base, params.k, similarityOf),
+    candidate: summarizeRetrievalRuns(cases, (c) => c.candidate, params.k, similarityOf),
+  });
+  const scopes = [...new Set(params.cases.map((c) => c.scope))];
+  return {
+    ...rest,
+    ...summarize(params.cases),
+    byScope: scopes.map((scope) => ({ scope, ...summarize(params.cases.filter((c) => c.scope === scope)) })),
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatMs(value: number): string {
+  return `${Math.round(value)} ms`;
+}
+
+function summaryRows(label: string, s: RetrievalSummary): string {
+  return `| ${label} | ${formatPercent(s.meanRecall)} | ${s.meanSimilarity.toFixed(3)} | ${formatMs(s.medianLatencyMs)} | ${formatMs(s.p95LatencyMs)} |`;
+}
+
+/**
+ * Markdown report: overall and per-scope tables, then each question with
+ * both paths' recall and latency.
+ */
+export function formatRetrievalReport(comparison: RetrievalComparison): string {
+  const { baseLabel, candidateLabel, k } = comparison;
+  const header = [`| Path | Recall@${k} | Mean cosine | Median latency | p95 latency |`, "| --- | --- | --- | --- | --- |"];
+
+  const lines = [
+    `# Retrieval eval: ${baseLabel} vs ${candidateLabel}`,
+    "",
+    `Golden set recorded ${comparison.goldenRecordedAt}; ${comparison.cases.length} cases; model ${comparison.model}.`,
+    `Index: ${comparison.indexNote}.`,
+    "",
+    "## Summary",
+    "",
+    ...header,
+    summaryRows(baseLabel, comparison.base),
+    summaryRows(candidateLabel, comparison.candidate),
+  ];
+
+  for (const scope of comparison.byScope) {
+    lines.push(
+      "",
+      `### ${scope.scope}`,
+      "",
+      ...header,
+      summaryRows(baseLabel, scope.base),
+      summaryRows(candidateLabel, scope.candidate)
+    );
+  }
+
+  lines.push(
+    "",
+    "## Cases",
+    "",
+    `| Question | Scope | Searched | ${baseLabel} recall | ${candidateLabel} recall | ${baseLabel} ms | ${candidateLabel} ms |`,
+    "| --- | --- | --- | --- | --- | --- | --- |"
+  );
+  for (const c of comparison.cases) {
+    lines.push(
+      `| ${c.question.replace(/\|/g, "\\|")} | ${c.scope} | ${c.searchSpace} | ` +
+        `${formatPercent(recallAtK(c.base.ids, c.exact, k))} | ${formatPercent(recallAtK(c.candidate.ids, c.exact, k))} | ` +
+        `${Math.round(c.base.latencyMs)} | ${Math.round(c.candidate.latencyMs)} |`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** Console summary printed by the eval script */
+export function formatRetrievalSummary(comparison: RetrievalComparison): string {
+  const pad = (s: string) => s.padEnd(20);
+  const row = (label: string, f: (s: RetrievalSummary) => string) =>
+    `   ${pad(label)}${pad(f(comparison.base))}${f(comparison.candidate)}`;
+  return [
+    `   ${pad("")}${pad(comparison.baseLabel)}${comparison.candidateLabel}`,
+    row(`Recall@${comparison.k}`, (s) => formatPercent(s.meanRecall)),
+    row("Mean cosine", (s) => s.meanSimilarity.toFixed(3)),
+    row("Median latency", (s) => formatMs(s.medianLatencyMs)),
+    row("p95 latency", (s) => formatMs(s.p95LatencyMs)),
+  ].join("\n");
+}
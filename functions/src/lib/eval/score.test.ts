@@ -0,0 +1,176 @@
+/**
+ * Unit tests for prompt eval cases and scoring
+ *
+ * Run: npx tsx --test functions/src/lib/eval/score.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ARTICLE_AI_SCHEMA, DAILY_BRIEF_SCHEMA, RAG_ANSWER_SCHEMA } from "../ai/openai-client.js";
+import { buildEvalCases, type EvalArticle, type EvalCase, type EvalGoldenSet } from "./golden.js";
+import { countWords, jsonSchemaErrors, scoreEvalOutput } from "./score.js";
+
+function article(id: string): EvalArticle {
+  return {
+    id,
+    title: `Title ${id}`,
+    sourceName: "Insurance Journal",
+    url: `https://example.com/${id}`,
+    publishedAt: "2026-10-16",
+    snippet: "Snippet",
+    tldr: null,
+  };
+}
+
+const A = "aaaaaaaaaaaa1111";
+const B = "bbbbbbbbbbbb2222";
+const UNKNOWN = "zzzzzzzzzzzz9999";
+
+const twoArticles: EvalCase = { id: "case", articles: [article(A), article(B)] };
+
+function emptySections() {
+  const section = { bullets: [] as string[], articleIds: [] as string[] };
+  return {
+    propertyCat: section,
+    casualtyLiability: section,
+    regulation: section,
+    claims: section,
+    reinsurance: section,
+    insurtech: section,
+    market: section,
+  };
+}
+
+// ============================================================================
+// buildEvalCases
+// ============================================================================
+
+describe("buildEvalCases", () => {
+  const golden: EvalGoldenSet = {
+    recordedAt: "2026-10-17T12:00:00.000Z",
+    articles: [article(A), article(B)],
+    summaryArticleIds: [A, UNKNOWN],
+    briefs: [{ date: "2026-10-16", articleIds: [A, B] }, { date: "2026-10-15", articleIds: [UNKNOWN] }],
+    questions: [{ question: "What moved cat pricing?", articleIds: [B, A] }],
+  };
+
+  it("resolves article IDs and drops cases with no known articles", () => {
+    assert.deepEqual(buildEvalCases("articleSummary", golden).map((c) => c.id), [`article ${A}`]);
+    assert.deepEqual(buildEvalCases("dailyBrief", golden).map((c) => c.date), ["2026-10-16"]);
+  });
+
+  it("keeps question context in recorded order", () => {
+    const [c] = buildEvalCases("ragStreaming", golden);
+    assert.equal(c.question, "What moved cat pricing?");
+    assert.deepEqual(c.articles.map((a) => a.id), [B, A]);
+  });
+});
+
+// ============================================================================
+// Schema and text helpers
+// ============================================================================
+
+describe("jsonSchemaErrors", () => {
+  it("reports missing, extra and mistyped fields", () => {
+    const errors = jsonSchemaErrors(
+      { tldr: 1, topics: [], category: "weather", extra: true },
+      ARTICLE_AI_SCHEMA as unknown as Record<string, unknown>
+    );
+    assert.deepEqual(errors.sort(), [
+      "$.category: not in enum",
+      "$.extra: not allowed",
+      "$.tldr: not a string",
+      "$.whyItMatters: missing",
+    ]);
+  });
+
+  it("checks array bounds", () => {
+    const schema = { type: "array", items: { type: "string" }, minItems: 2, maxItems: 3 };
+    assert.deepEqual(jsonSchemaErrors(["a"], schema), ["$: fewer than 2 items"]);
+    assert.deepEqual(jsonSchemaErrors(["a", "b"], schema), []);
+  });
+});
+
+describe("countWords", () => {
+  it("ignores inline citations", () => {
+    assert.equal(countWords(`Rates rose 8% at 1/1 [1] [${A}]`), 5);
+  });
+});
+
+// ============================================================================
+// scoreEvalOutput
+// ============================================================================
+
+describe("scoreEvalOutput", () => {
+  it("flags invalid JSON", () => {
+    const score = scoreEvalOutput("articleSummary", "not json", twoArticles, ARTICLE_AI_SCHEMA);
+    assert.equal(score.schemaValid, false);
+    assert.deepEqual(score.schemaErrors, ["not valid JSON"]);
+  });
+
+  it("checks article summary length limits and banned phrases", () => {
+    const output = JSON.stringify({
+      tldr: "Word ".repeat(90).trim(),
+      whyItMatters: "It is important to note that carriers face market dynamics.",
+      topics: ["hurricane"],
+      category: "property",
+    });
+    const score = scoreEvalOutput("articleSummary", output, twoArticles, ARTICLE_AI_SCHEMA);
+
+    assert.equal(score.schemaValid, true);
+    assert.equal(score.citationCoverage, null);
+    assert.deepEqual(score.lengthViolations, [
+      "tldr: 90 words (max 80)",
+      "topics: 1 items (expected 2-4)",
+    ]);
+    assert.deepEqual(score.bannedPhrases, ["it is important to note", "market dynamics"]);
+  });
+
+  it("scores brief citation coverage against the case's articles", () => {
+    const sections = emptySections();
+    sections.propertyCat = {
+      bullets: [`Cat losses rose [${A}]`, "Uncited bullet", `Ghost source [${UNKNOWN}]`],
+      articleIds: [A],
+    };
+    const output = JSON.stringify({
+      executiveSummary: ["One — two.", "Three — four.", "Five — six."],
+      topStories: [
+        { articleId: A, headline: "Headline", whyItMatters: "Matters." },
+        { articleId: B, headline: "Headline", whyItMatters: "Matters." },
+        { articleId: UNKNOWN, headline: "Headline", whyItMatters: "Matters." },
+      ],
+      sections,
+      topics: ["hurricane"],
+    });
+    const score = scoreEvalOutput("dailyBrief", output, twoArticles, DAILY_BRIEF_SCHEMA);
+
+    assert.equal(score.schemaValid, true, score.schemaErrors.join("; "));
+    // 2 of 3 top stories and 1 of 3 bullets cite a known article
+    assert.equal(score.citationCoverage, 3 / 6);
+    assert.deepEqual(score.unknownCitations, [UNKNOWN]);
+  });
+
+  it("scores [n] citations in Ask answers", () => {
+    const output = JSON.stringify({
+      answerMarkdown: "## Summary\nRates rose [1].\n\nReserves held [3].\n\nKey points:\n- Capacity eased [2]",
+      takeaways: ["a", "b", "c"],
+      citations: [{ articleId: A, title: "", sourceName: "", url: "", publishedAt: "" }],
+      followUps: ["x", "y", "z"],
+    });
+    const score = scoreEvalOutput("ragAnswer", output, twoArticles, RAG_ANSWER_SCHEMA);
+
+    assert.equal(score.schemaValid, true, score.schemaErrors.join("; "));
+    assert.equal(score.citationCoverage, 2 / 3);
+    assert.deepEqual(score.unknownCitations, ["[3]"]);
+    assert.deepEqual(score.lengthViolations, []);
+  });
+
+  it("treats streamed answers as markdown", () => {
+    assert.equal(scoreEvalOutput("ragStreaming", "", twoArticles, null).schemaValid, false);
+
+    const score = scoreEvalOutput("ragStreaming", "Rates rose [1].\nCapacity eased [2].", twoArticles, null);
+    assert.equal(score.schemaValid, true);
+    assert.equal(score.citationCoverage, 1);
+    assert.equal(score.words, 4);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Prompt Eval Scoring
+ *
+ * Scores one model output from an eval case on four axes:
+ * - schema validity: the output parses and matches the prompt's JSON schema
+ * - citation coverage: share of citable parts (top stories, section
+ *   bullets, answer paragraphs) citing an input article
+ * - length: the word and item limits each prompt asks for
+ * - banned phrases: filler the prompts tell the model to avoid
+ */
+
+import { inlineCitations } from "../ai/grounding.js";
+import type { EvalCase, EvalPromptId } from "./golden.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Filler and hedging the prompts rule out (matched case-insensitively) */
+export const BANNED_PHRASES = [
+  "as an ai",
+  "it is important to note",
+  "it's important to note",
+  "in today's fast-paced",
+  "in conclusion",
+  "delve",
+  "game-changer",
+  "only time will tell",
+  "various factors",
+  "ongoing trends",
+  "market dynamics",
+  "navigate the landscape",
+  "could shift market dynamics",
+];
+
+type Schema = Record<string, unknown>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvalScore {
+  /** Output parsed and matched the schema (streamed answers: non-empty text) */
+  schemaValid: boolean;
+  schemaErrors: string[];
+  /** Cited share of citable parts, 0-1; null for prompts that don't cite */
+  citationCoverage: number | null;
+  /** Cited article IDs or [n] indices that aren't among the case's inputs */
+  unknownCitations: string[];
+  /** Words across every text field (inline citations excluded) */
+  words: number;
+  lengthViolations: string[];
+  /** Banned phrases found, each listed once */
+  bannedPhrases: string[];
+}
+
+// ============================================================================
+// Schema Validity
+// ============================================================================
+
+/** Violations of a strict JSON schema (the subset the repo's schemas use) */
+export function jsonSchemaErrors(value: unknown, schema: Schema, path = "$"): string[] {
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [`${path}: not in enum`];
+  }
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return [`${path}: not an object`];
+      const properties = (schema.properties ?? {}) as Record<string, Schema>;
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of (schema.required ?? []) as string[]) {
+        if (!(key in record)) errors.push(`${path}.${key}: missing`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        if (!properties[key]) errors.push(`${path}.${key}: not allowed`);
+        else errors.push(...jsonSchemaErrors(child, properties[key], `${path}.${key}`));
+      }
+      return errors;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: not an array`];
+      const errors: string[] = [];
+      if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+        errors.push(`${path}: fewer than ${schema.minItems} items`);
+      }
+      if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+        errors.push(`${path}: more than ${schema.maxItems} items`);
+      }
+      return errors.concat(value.flatMap((item, i) => jsonSchemaErrors(item, schema.items as Schema, `${path}[${i}]`)));
+    }
+    case "string":
+      return typeof value === "string" ? [] : [`${path}: not a string`];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path}: not an integer`];
+    case "number":
+      return typeof value === "number" ? [] : [`${path}: not a number`];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: not a boolean`];
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// Text Helpers
+// ============================================================================
+
+/** Word count, ignoring inline citations like [1] or [articleId] */
+export function countWords(text: string): number {
+  return text.replace(/\[[^\]\s]+\]/g, " ").split(/\s+/).filter((w) => /\w/.test(w)).length;
+}
+
+function allStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(allStrings);
+  if (value && typeof value === "object") return Object.values(value).flatMap(allStrings);
+  return [];
+}
+
+export function findBannedPhrases(texts: string[]): string[] {
+  const haystack = texts.join("\n").toLowerCase();
+  return BANNED_PHRASES.filter((phrase) => haystack.includes(phrase));
+}
+
+/** Lines of a markdown answer that make claims (headings and lead-ins excluded) */
+function claimLines(markdown: string): string[] {
+  return markdown
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#") && !line.endsWith(":"));
+}
+
+// ============================================================================
+// Length Limits
+// ============================================================================
+
+function checkWords(violations: string[], label: string, text: string, max: number): void {
+  const words = countWords(text);
+  if (words > max) violations.push(`${label}: ${words} words (max ${max})`);
+}
+
+function checkItems(violations: string[], label: string, items: unknown[], min: number, max: number): void {
+  if (items.length < min || items.length > max) {
+    violations.push(`${label}: ${items.length} items (expected ${min}-${max})`);
+  }
+}
+
+/** Limits each prompt states, applied to a schema-valid output */
+function lengthViolations(promptId: EvalPromptId, output: unknown): string[] {
+  const violations: string[] = [];
+  switch (promptId) {
+    case "articleSummary": {
+      const o = output as { tldr: string; whyItMatters: string; topics: string[] };
+      checkWords(violations, "tldr", o.tldr, 80);
+      checkWords(violations, "whyItMatters", o.whyItMatters, 60);
+      checkItems(violations, "topics", o.topics, 2, 4);
+      break;
+    }
+    case "dailyBrief": {
+      const o = output as {
+        executiveSummary: string[];
+        topStories: Array<{ headline: string; whyItMatters: string }>;
+        sections: Record<string, { bullets: string[] }>;
+      };
+      checkItems(violations, "executiveSummary", o.executiveSummary, 3, 5);
+      o.executiveSummary.forEach((b, i) => checkWords(violations, `executiveSummary[${i}]`, b, 45));
+      checkItems(violations, "topStories", o.topStories, 3, 5);
+      o.topStories.forEach((s, i) => {
+        checkWords(violations, `topStories[${i}].headline`, s.headline, 12);
+        checkWords(violations, `topStories[${i}].whyItMatters`, s.whyItMatters, 35);
+      });
+      for (const [key, section] of Object.entries(o.sections)) {
+        if (section.bullets.length > 4) checkItems(violations, `sections.${key}`, section.bullets, 0, 4);
+        section.bullets.forEach((b, i) => checkWords(violations, `sections.${key}[${i}]`, b, 40));
+      }
+      break;
+    }
+    case "ragAnswer": {
+      const o = output as { answerMarkdown: string; takeaways: string[]; followUps: string[] };
+      checkWords(violations, "answerMarkdown", o.answerMarkdown, 400);
+      checkItems(violations, "takeaways", o.takeaways, 3, 5);
+      checkItems(violations, "followUps", o.followUps, 3, 3);
+      break;
+    }
+    case "ragStreaming":
+      checkWords(violations, "answer", output as string, 400);
+      break;
+  }
+  return violations;
+}
+
+// ============================================================================
+// Citation Coverage
+// ============================================================================
+
+function briefCitations(
+  output: unknown,
+  inputIds: Set<string>
+): { coverage: number | null; unknown: string[] } {
+  const o = output as {
+    topStories: Array<{ articleId: string }>;
+    sections: Record<string, { bullets: string[]; articleIds: string[] }>;
+  };
+  const unknown = new Set<string>();
+  let parts = 0;
+  let cited = 0;
+
+  for (const story of o.topStories) {
+    parts++;
+    if (inputIds.has(story.articleId)) cited++;
+    else unknown.add(story.articleId);
+  }
+  for (const section of Object.values(o.sections)) {
+    for (const bullet of section.bullets) {
+      parts++;
+      const ids = inlineCitations(bullet);
+      for (const id of ids) if (!inputIds.has(id)) unknown.add(id);
+      if (ids.some((id) => inputIds.has(id))) cited++;
+    }
+    for (const id of section.articleIds) if (!inputIds.has(id)) unknown.add(id);
+  }
+
+  return { coverage: parts > 0 ? cited / parts : null, unknown: [...unknown] };
+}
+
+/** [n] citations in an answer, valid when 1 <= n <= the number of context articles */
+function answerCitations(
+  markdown: string,
+  contextCount: number
+): { coverage: number | null; unknown: string[] } {
+  const lines = claimLines(markdown);
+  const unknown = new Set<string>();
+  let cited = 0;
+
+  for (const line of lines) {
+    const indices = [...line.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1]));
+    for (const n of indices) if (n < 1 || n > contextCount) unknown.add(`[${n}]`);
+    if (indices.some((n) => n >= 1 && n <= contextCount)) cited++;
+  }
+
+  return { coverage: lines.length > 0 ? cited / lines.length : null, unknown: [...unknown] };
+}
+
+// ============================================================================
+// Score
+// ============================================================================
+
+/**
+ * Score one output. `schema` is the prompt's response schema (unused for
+ * streamed answers, which are plain markdown).
+ */
+export function scoreEvalOutput(
+  promptId: EvalPromptId,
+  outputText: string,
+  evalCase: EvalCase,
+  schema: Schema | null
+): EvalScore {
+  const inputIds = new Set(evalCase.articles.map((a) => a.id));
+
+  if (promptId === "ragStreaming") {
+    const citations = answerCitations(outputText, evalCase.articles.length);
+    return {
+      schemaValid: outputText.trim().length > 0,
+      schemaErrors: outputText.trim().length > 0 ? [] : ["empty answer"],
+      citationCoverage: citations.coverage,
+      unknownCitations: citations.unknown,
+      words: countWords(outputText),
+      lengthViolations: lengthViolations(promptId, outputText),
+      bannedPhrases: findBannedPhrases([outputText]),
+    };
+  }
+
+  let output: unknown;
+  try {
+    output = JSON.parse(outputText);
+  } catch {
+    return {
+      schemaValid: false,
+      schemaErrors: ["not valid JSON"],
+      citationCoverage: null,
+      unknownCitations: [],
+      words: countWords(outputText),
+      lengthViolations: [],
+      bannedPhrases: findBannedPhrases([outputText]),
+    };
+  }
+
+  const schemaErrors = schema ? jsonSchemaErrors(output, schema) : [];
+  const texts = allStrings(output);
+  const score: EvalScore = {
+    schemaValid: schemaErrors.length === 0,
+    schemaErrors,
+    citationCoverage: null,
+    unknownCitations: [],
+    words: texts.reduce((sum, t) => sum + countWords(t), 0),
+    lengthViolations: [],
+    bannedPhrases: findBannedPhrases(texts),
+  };
+  // Field-level checks assume the schema's shape
+  if (!score.schemaValid) return score;
+
+  score.lengthViolations = lengthViolations(promptId, output);
+  if (promptId === "dailyBrief") {
+    const citations = briefCitations(output, inputIds);
+    score.citationCoverage = citations.coverage;
+    score.unknownCitations = citations.unknown;
+  } else if (promptId === "ragAnswer") {
+    const o = output as { answerMarkdown: string; citations: Array<{ articleId: string }> };
+    const citations = answerCitations(o.answerMarkdown, evalCase.articles.length);
+    score.citationCoverage = citations.coverage;
+    score.unknownCitations = [
+      ...citations.unknown,
+      ...o.citations.map((c) => c.articleId).filter((id) => !inputIds.has(id)),
+    ];
+  }
+  return score;
+}
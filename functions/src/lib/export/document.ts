@@ -0,0 +1,212 @@
+/**
+ * Export Documents
+ *
+ * Turns a daily brief or a bookmark collection into one neutral document
+ * (title, sections of bulleted or numbered items with source links) that
+ * the Markdown, HTML and PDF renderers all lay out, so the three formats
+ * carry the same content. Inline [articleId] citations become links to the
+ * cited article; top stories link to their own article.
+ */
+
+import type { Bookmark, Brief } from "../../types/firestore.js";
+import { SECTION_LABELS } from "../email/template.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "markdown" | "html" | "pdf";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["markdown", "html", "pdf"];
+
+export interface ExportLink {
+  label: string;
+  url: string;
+}
+
+export interface ExportItem {
+  text: string;
+  /** Secondary line (a top story's "why it matters") */
+  detail?: string;
+  links: ExportLink[];
+}
+
+export interface ExportSection {
+  heading: string;
+  numbered: boolean;
+  items: ExportItem[];
+  /** Articles the section draws on that no item cites */
+  sources: ExportLink[];
+}
+
+export interface ExportDocument {
+  title: string;
+  subtitle: string;
+  sections: ExportSection[];
+  /** Closing link back to the app */
+  footer: ExportLink | null;
+}
+
+/** Article fields an export links to */
+export interface ExportArticle {
+  id: string;
+  title: string;
+  sourceName: string;
+  url: string;
+}
+
+export type ExportBrief = Pick<Brief, "date" | "executiveSummary" | "topStories" | "sections" | "profileKey">;
+
+export type ExportBookmark = Pick<Bookmark, "articleId" | "title" | "sourceName" | "url"> & {
+  bookmarkedAt: Date | null;
+};
+
+/** MIME type and file extension per format */
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  markdown: { mimeType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { mimeType: "text/html; charset=utf-8", extension: "html" },
+  pdf: { mimeType: "application/pdf", extension: "pdf" },
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CITATION_PATTERN = /\s*\[([a-f0-9]{10,})\]/gi;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/** Article IDs cited inline, in order of first appearance */
+export function citedArticleIds(text: string): string[] {
+  return [...new Set([...text.matchAll(CITATION_PATTERN)].map((match) => match[1]))];
+}
+
+function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, "").trim();
+}
+
+function articleLinks(ids: string[], articles: ReadonlyMap<string, ExportArticle>): ExportLink[] {
+  const links: ExportLink[] = [];
+  for (const id of ids) {
+    const article = articles.get(id);
+    if (article) links.push({ label: article.sourceName, url: article.url });
+  }
+  return links;
+}
+
+function citedItem(text: string, articles: ReadonlyMap<string, ExportArticle>): ExportItem {
+  return { text: stripCitations(text), links: articleLinks(citedArticleIds(text), articles) };
+}
+
+/** "Monday, October 19, 2026" for a yyyy-mm-dd key */
+function formatLongDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Every article a brief links to (top stories, citations, section sources) */
+export function briefArticleIds(brief: ExportBrief): string[] {
+  const ids = brief.topStories.map((story) => story.articleId);
+  for (const bullet of brief.executiveSummary) ids.push(...citedArticleIds(bullet));
+  for (const section of Object.values(brief.sections)) {
+    for (const bullet of section?.bullets ?? []) ids.push(...citedArticleIds(bullet));
+    ids.push(...(section?.articleIds ?? []));
+  }
+  return [...new Set(ids)];
+}
+
+/** "the-brief-2026-10-19.pdf" */
+export function exportFilename(base: string, format: ExportFormat): string {
+  return `${base}.${EXPORT_FILE_TYPES[format].extension}`;
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * Daily brief (shared or "My Brief"): executive summary, top stories, then
+ * non-empty sections in app order. `appUrl` is where the footer links (the
+ * brief's archive page).
+ */
+export function briefExportDocument(
+  brief: ExportBrief,
+  articles: ReadonlyMap<string, ExportArticle>,
+  appUrl: string
+): ExportDocument {
+  const sections: ExportSection[] = [];
+
+  const summary = brief.executiveSummary.map((bullet) => citedItem(bullet, articles)).filter((item) => item.text);
+  if (summary.length > 0) {
+    sections.push({ heading: "Executive Summary", numbered: false, items: summary, sources: [] });
+  }
+
+  if (brief.topStories.length > 0) {
+    sections.push({
+      heading: "Top Stories",
+      numbered: true,
+      items: brief.topStories.map((story) => ({
+        text: stripCitations(story.headline),
+        detail: stripCitations(story.whyItMatters) || undefined,
+        links: articleLinks([story.articleId], articles),
+      })),
+      sources: [],
+    });
+  }
+
+  for (const key of Object.keys(SECTION_LABELS) as (keyof Brief["sections"])[]) {
+    const section = brief.sections[key];
+    const items = (section?.bullets ?? []).map((bullet) => citedItem(bullet, articles)).filter((item) => item.text);
+    if (items.length === 0) continue;
+    const cited = new Set(items.flatMap((item) => item.links.map((link) => link.url)));
+    const sources = articleLinks(section?.articleIds ?? [], articles).filter((link) => !cited.has(link.url));
+    sections.push({ heading: SECTION_LABELS[key], numbered: false, items, sources });
+  }
+
+  return {
+    title: brief.profileKey ? "My Daily Brief" : "Daily Brief",
+    subtitle: formatLongDate(brief.date),
+    sections,
+    footer: { label: "Open in The Brief", url: appUrl },
+  };
+}
+
+/**
+ * Bookmark collection, newest first as given. `exportedOn` is a yyyy-mm-dd
+ * key for the subtitle.
+ */
+export function bookmarksExportDocument(bookmarks: ExportBookmark[], exportedOn: string): ExportDocument {
+  const count = bookmarks.length === 1 ? "1 article" : `${bookmarks.length} articles`;
+  return {
+    title: "Saved Articles",
+    subtitle: `${count} · Exported ${formatLongDate(exportedOn)}`,
+    sections: [
+      {
+        heading: "Articles",
+        numbered: false,
+        items: bookmarks.map((bookmark) => ({
+          text: bookmark.title,
+          detail: bookmark.bookmarkedAt
+            ? `Saved ${bookmark.bookmarkedAt.toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+              year: "numeric",
+              timeZone: "America/New_York",
+            })}`
+            : undefined,
+          links: [{ label: bookmark.sourceName, url: bookmark.url }],
+        })),
+        sources: [],
+      },
+    ],
+    footer: null,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for export documents and the Markdown and HTML renderers
+ *
+ * Run: npx tsx --test functions/src/lib/export/export.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  bookmarksExportDocument,
+  briefArticleIds,
+  briefExportDocument,
+  type ExportArticle,
+  type ExportBrief,
+} from "./document.js";
+import { escapeMarkdown, renderMarkdown } from "./markdown.js";
+import { renderHtml } from "./html.js";
+import { renderExport } from "./render.js";
+
+const A = "aaaaaaaaaaaa1111";
+const B = "bbbbbbbbbbbb2222";
+const C = "cccccccccccc3333";
+
+const articles = new Map<string, ExportArticle>([
+  [A, { id: A, title: "Florida rates fall", sourceName: "Insurance Journal", url: "https://example.com/a?x=1&y=2" }],
+  [C, { id: C, title: "Cyber capacity grows", sourceName: "Artemis", url: "https://example.com/(c)" }],
+]);
+
+function brief(): ExportBrief {
+  const section = () => ({ bullets: [] as string[], articleIds: [] as string[] });
+  return {
+    date: "2026-10-19",
+    executiveSummary: [`Cat pricing softens — capacity returns [${A}]`, "Reserves hold."],
+    topStories: [
+      { articleId: A, headline: "Florida homeowners rates fall", whyItMatters: "First decline since 2019." },
+      { articleId: B, headline: "Lloyd's names new CEO", whyItMatters: "Leadership change." },
+    ],
+    sections: {
+      propertyCat: section(),
+      casualtyLiability: section(),
+      regulation: { bullets: [`Florida OIR approves <filing> [${A}]`], articleIds: [A, C] },
+      claims: section(),
+      reinsurance: section(),
+      insurtech: section(),
+      market: section(),
+    },
+  };
+}
+
+const appUrl = "https://insurance-news-ai.web.app/brief/2026-10-19";
+
+describe("briefExportDocument", () => {
+  const doc = briefExportDocument(brief(), articles, appUrl);
+
+  it("collects every linked article once", () => {
+    assert.deepEqual(briefArticleIds(brief()), [A, B, C]);
+  });
+
+  it("orders sections like the app and skips empty ones", () => {
+    assert.equal(doc.subtitle, "Monday, October 19, 2026");
+    assert.deepEqual(doc.sections.map((s) => s.heading), ["Executive Summary", "Top Stories", "Regulation"]);
+  });
+
+  it("turns citations into source links", () => {
+    const [summary, stories, regulation] = doc.sections;
+    assert.deepEqual(summary.items[0], {
+      text: "Cat pricing softens — capacity returns",
+      links: [{ label: "Insurance Journal", url: "https://example.com/a?x=1&y=2" }],
+    });
+    assert.deepEqual(summary.items[1].links, []);
+    assert.equal(stories.numbered, true);
+    assert.equal(stories.items[0].detail, "First decline since 2019.");
+    // A story whose article is missing keeps its text, unlinked
+    assert.deepEqual(stories.items[1].links, []);
+    // Section articles nobody cited are listed as sources
+    assert.deepEqual(regulation.sources, [{ label: "Artemis", url: "https://example.com/(c)" }]);
+  });
+});
+
+describe("renderMarkdown", () => {
+  const markdown = renderMarkdown(briefExportDocument(brief(), articles, appUrl));
+
+  it("writes headings, lists and inline links", () => {
+    assert.match(markdown, /^# Daily Brief\n\n_Monday, October 19, 2026_\n\n## Executive Summary\n\n/);
+    assert.match(markdown, /- Cat pricing softens — capacity returns \(\[Insurance Journal\]\(https:\/\/example\.com\/a\?x=1&y=2\)\)\n- Reserves hold\.\n/);
+    assert.match(markdown, /1\. \*\*Florida homeowners rates fall\*\* \(\[Insurance Journal\]\([^)]+\)\) {2}\n {3}First decline since 2019\.\n/);
+    assert.match(markdown, /- Florida OIR approves \\<filing\\> /);
+    assert.match(markdown, /Sources: \[Artemis\]\(https:\/\/example\.com\/%28c%29\)/);
+    assert.ok(markdown.endsWith(`---\n\n[Open in The Brief](${appUrl})\n`));
+  });
+
+  it("escapes characters that would become formatting", () => {
+    assert.equal(escapeMarkdown("*P&C* [Q3] #1_up"), "\\*P&C\\* \\[Q3\\] \\#1\\_up");
+  });
+});
+
+describe("renderHtml", () => {
+  const html = renderHtml(briefExportDocument(brief(), articles, appUrl));
+
+  it("is a standalone, escaped page", () => {
+    assert.match(html, /^<!DOCTYPE html>\n<html lang="en"><head><meta charset="utf-8">/);
+    assert.ok(!/<script|<link /.test(html), "no scripts or remote assets");
+    assert.match(html, /<h1>Daily Brief<\/h1>/);
+    assert.match(html, /<ol><li><strong>Florida homeowners rates fall<\/strong>/);
+    assert.match(html, /<a href="https:\/\/example\.com\/a\?x=1&amp;y=2">Insurance Journal<\/a>/);
+    assert.match(html, /Florida OIR approves &lt;filing&gt;/);
+    assert.ok(!html.includes(A), "citations are stripped");
+  });
+});
+
+describe("bookmarksExportDocument", () => {
+  it("lists bookmarks with their source and save date", () => {
+    const doc = bookmarksExportDocument(
+      [
+        {
+          articleId: A,
+          title: "Florida rates fall",
+          sourceName: "Insurance Journal",
+          url: "https://example.com/a",
+          bookmarkedAt: new Date("2026-10-18T15:00:00Z"),
+        },
+      ],
+      "2026-10-19"
+    );
+    assert.equal(doc.title, "Saved Articles");
+    assert.equal(doc.subtitle, "1 article · Exported Monday, October 19, 2026");
+    assert.deepEqual(doc.sections[0].items[0], {
+      text: "Florida rates fall",
+      detail: "Saved Oct 18, 2026",
+      links: [{ label: "Insurance Journal", url: "https://example.com/a" }],
+    });
+    assert.equal(doc.footer, null);
+  });
+});
+
+describe("renderExport", () => {
+  it("names files and sets MIME types per format", () => {
+    const doc = briefExportDocument(brief(), articles, appUrl);
+    const at = new Date("2026-10-19T12:00:00Z");
+    const markdown = renderExport(doc, "markdown", "the-brief-2026-10-19", at);
+    assert.equal(markdown.filename, "the-brief-2026-10-19.md");
+    assert.equal(markdown.mimeType, "text/markdown; charset=utf-8");
+    assert.equal(markdown.body.toString("utf8"), renderMarkdown(doc));
+    assert.equal(renderExport(doc, "html", "b", at).filename, "b.html");
+    assert.equal(renderExport(doc, "pdf", "b", at).mimeType, "application/pdf");
+  });
+});
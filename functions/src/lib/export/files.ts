@@ -0,0 +1,108 @@
+/**
+ * Brief and Bookmark Exports
+ *
+ * Loads a daily brief (with the articles it links to) or a user's
+ * bookmarks and renders them as Markdown, HTML or PDF. Rendering happens
+ * here rather than in the app so every platform gets the same file.
+ */
+
+import { getFirestore } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import { appUrl } from "../../config/email.js";
+import type { Article, Bookmark, Brief } from "../../types/firestore.js";
+import {
+  bookmarksExportDocument,
+  briefArticleIds,
+  briefExportDocument,
+  type ExportArticle,
+  type ExportFormat,
+} from "./document.js";
+import { renderExport, type ExportFile } from "./render.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** getAll batch size */
+const LOOKUP_BATCH_SIZE = 100;
+
+/** Most recent bookmarks included in one export */
+const MAX_EXPORT_BOOKMARKS = 500;
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+async function loadExportArticles(ids: string[]): Promise<Map<string, ExportArticle>> {
+  const db = getFirestore();
+  const articles = new Map<string, ExportArticle>();
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+    const docs = await db.getAll(...ids.slice(i, i + LOOKUP_BATCH_SIZE).map((id) => db.collection("articles").doc(id)));
+    for (const doc of docs) {
+      if (!doc.exists) continue;
+      const article = doc.data() as Article;
+      articles.set(doc.id, { id: doc.id, title: article.title, sourceName: article.sourceName, url: article.url });
+    }
+  }
+  return articles;
+}
+
+/**
+ * Render the brief for a date, or null when there is none. With `personalUid`
+ * the user's "My Brief" for that date is used when it exists.
+ */
+export async function exportBrief(
+  dateKey: string,
+  format: ExportFormat,
+  personalUid?: string
+): Promise<ExportFile | null> {
+  const db = getFirestore();
+  let snap = personalUid
+    ? await db.collection("users").doc(personalUid).collection("briefs").doc(dateKey).get()
+    : null;
+  if (!snap?.exists) snap = await db.collection("briefs").doc(dateKey).get();
+  if (!snap.exists) return null;
+
+  const brief = snap.data() as Brief;
+  const articles = await loadExportArticles(briefArticleIds(brief));
+  const doc = briefExportDocument(brief, articles, `${appUrl()}/brief/${dateKey}`);
+  const file = renderExport(doc, format, `the-brief-${dateKey}`, new Date());
+
+  logger.info("Brief exported", { date: dateKey, format, personal: !!brief.profileKey, bytes: file.body.length });
+  return file;
+}
+
+/**
+ * Render a user's bookmarks (newest first), or null when they have none.
+ * `exportedOn` (yyyy-mm-dd) dates the file.
+ */
+export async function exportBookmarks(
+  uid: string,
+  format: ExportFormat,
+  exportedOn: string
+): Promise<ExportFile | null> {
+  const snap = await getFirestore()
+    .collection("users")
+    .doc(uid)
+    .collection("bookmarks")
+    .orderBy("bookmarkedAt", "desc")
+    .limit(MAX_EXPORT_BOOKMARKS)
+    .get();
+  if (snap.empty) return null;
+
+  const bookmarks = snap.docs.map((doc) => {
+    const bookmark = doc.data() as Bookmark;
+    return {
+      articleId: bookmark.articleId ?? doc.id,
+      title: bookmark.title,
+      sourceName: bookmark.sourceName,
+      url: bookmark.url,
+      bookmarkedAt: bookmark.bookmarkedAt?.toDate?.() ?? null,
+    };
+  });
+  const doc = bookmarksExportDocument(bookmarks, exportedOn);
+  const file = renderExport(doc, format, `the-brief-saved-articles-${exportedOn}`, new Date());
+
+  logger.info("Bookmarks exported", { uid, format, count: bookmarks.length, bytes: file.body.length });
+  return file;
+}
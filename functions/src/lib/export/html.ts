@@ -0,0 +1,59 @@
+/**
+ * HTML Export
+ *
+ * A standalone page (inline stylesheet, no scripts or remote assets) that
+ * opens in any browser, prints on Letter or A4, and keeps its formatting
+ * when pasted into an email or a slide.
+ */
+
+import { escapeHtml } from "../email/template.js";
+import type { ExportDocument, ExportItem, ExportLink, ExportSection } from "./document.js";
+
+const STYLESHEET =
+  "body{margin:0;padding:40px 20px;background:#ffffff;color:#1c1c1e;" +
+  "font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;font-size:15px;line-height:1.5;}" +
+  "main{max-width:680px;margin:0 auto;}" +
+  ".subtitle{margin:0;color:#6e6e73;font-size:14px;}" +
+  "h1{margin:4px 0 8px 0;font-size:28px;line-height:1.2;}" +
+  "h2{margin:28px 0 10px 0;padding-bottom:6px;border-bottom:1px solid #e5e5ea;font-size:13px;" +
+  "letter-spacing:0.04em;text-transform:uppercase;color:#6e6e73;}" +
+  "ul,ol{margin:0;padding-left:22px;}" +
+  "li{margin:0 0 10px 0;}" +
+  ".detail{display:block;color:#3a3a3c;}" +
+  ".links,.sources{font-size:13px;}" +
+  ".sources{margin:4px 0 0 0;color:#6e6e73;}" +
+  "a{color:#007aff;text-decoration:none;}" +
+  "footer{margin-top:32px;padding-top:12px;border-top:1px solid #e5e5ea;font-size:14px;}" +
+  "@media print{body{padding:0;}a{color:#1c1c1e;}h2{break-after:avoid;}li{break-inside:avoid;}}";
+
+function htmlLinks(links: ExportLink[]): string {
+  return links.map((link) => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a>`).join(" · ");
+}
+
+function htmlItem(item: ExportItem): string {
+  const text = item.detail === undefined ? escapeHtml(item.text) : `<strong>${escapeHtml(item.text)}</strong>`;
+  const links = item.links.length > 0 ? ` <span class="links">(${htmlLinks(item.links)})</span>` : "";
+  const detail = item.detail === undefined ? "" : `<span class="detail">${escapeHtml(item.detail)}</span>`;
+  return `<li>${text}${links}${detail}</li>`;
+}
+
+function htmlSection(section: ExportSection): string {
+  const tag = section.numbered ? "ol" : "ul";
+  const sources = section.sources.length > 0 ? `<p class="sources">Sources: ${htmlLinks(section.sources)}</p>` : "";
+  return (
+    `<section><h2>${escapeHtml(section.heading)}</h2>` +
+    `<${tag}>${section.items.map(htmlItem).join("")}</${tag}>${sources}</section>`
+  );
+}
+
+export function renderHtml(doc: ExportDocument): string {
+  const footer = doc.footer ? `<footer><a href="${escapeHtml(doc.footer.url)}">${escapeHtml(doc.footer.label)}</a></footer>` : "";
+  return (
+    "<!DOCTYPE html>\n" +
+    "<html lang=\"en\"><head><meta charset=\"utf-8\">" +
+    "<meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">" +
+    `<title>${escapeHtml(`${doc.title} – ${doc.subtitle}`)}</title><style>${STYLESHEET}</style></head>` +
+    `<body><main><p class="subtitle">${escapeHtml(doc.subtitle)}</p><h1>${escapeHtml(doc.title)}</h1>` +
+    `${doc.sections.map(htmlSection).join("")}${footer}</main></body></html>\n`
+  );
+}
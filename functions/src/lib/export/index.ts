@@ -0,0 +1,28 @@
+/**
+ * Export module — briefs and bookmark collections as Markdown, HTML and PDF
+ */
+
+export {
+  EXPORT_FORMATS,
+  EXPORT_FILE_TYPES,
+  isExportFormat,
+  citedArticleIds,
+  briefArticleIds,
+  exportFilename,
+  briefExportDocument,
+  bookmarksExportDocument,
+  type ExportFormat,
+  type ExportLink,
+  type ExportItem,
+  type ExportSection,
+  type ExportDocument,
+  type ExportArticle,
+  type ExportBrief,
+  type ExportBookmark,
+} from "./document.js";
+
+export { renderMarkdown, escapeMarkdown } from "./markdown.js";
+export { renderHtml } from "./html.js";
+export { renderPdf, encodeWinAnsi, textWidth, wrapText, type PdfOptions } from "./pdf.js";
+export { renderExport, type ExportFile } from "./render.js";
+export { exportBrief, exportBookmarks } from "./files.js";
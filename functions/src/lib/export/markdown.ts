@@ -0,0 +1,47 @@
+/**
+ * Markdown Export
+ *
+ * CommonMark that pastes cleanly into email clients, docs and slides:
+ * one heading per section, "-" or "1." lists, source links inline after
+ * each item.
+ */
+
+import type { ExportDocument, ExportItem, ExportLink, ExportSection } from "./document.js";
+
+/** Backslash-escape characters that would start emphasis, links or HTML */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+}
+
+/** Parentheses and spaces would end the link destination early */
+function markdownUrl(url: string): string {
+  return url.replace(/\(/g, "%28").replace(/\)/g, "%29").replace(/ /g, "%20");
+}
+
+function markdownLinks(links: ExportLink[]): string {
+  return links.map((link) => `[${escapeMarkdown(link.label)}](${markdownUrl(link.url)})`).join(" · ");
+}
+
+function markdownItem(item: ExportItem, marker: string): string {
+  const links = item.links.length > 0 ? ` (${markdownLinks(item.links)})` : "";
+  if (item.detail === undefined) {
+    return `${marker} ${escapeMarkdown(item.text)}${links}`;
+  }
+  // Continuation line indented under the list marker
+  const indent = " ".repeat(marker.length + 1);
+  return `${marker} **${escapeMarkdown(item.text)}**${links}  \n${indent}${escapeMarkdown(item.detail)}`;
+}
+
+function markdownSection(section: ExportSection): string {
+  const items = section.items.map((item, index) => markdownItem(item, section.numbered ? `${index + 1}.` : "-"));
+  const sources = section.sources.length > 0 ? `\n\nSources: ${markdownLinks(section.sources)}` : "";
+  return `## ${escapeMarkdown(section.heading)}\n\n${items.join("\n")}${sources}`;
+}
+
+export function renderMarkdown(doc: ExportDocument): string {
+  const parts = [`# ${escapeMarkdown(doc.title)}`, `_${escapeMarkdown(doc.subtitle)}_`, ...doc.sections.map(markdownSection)];
+  if (doc.footer) {
+    parts.push(`---\n\n[${escapeMarkdown(doc.footer.label)}](${markdownUrl(doc.footer.url)})`);
+  }
+  return `${parts.join("\n\n")}\n`;
+}
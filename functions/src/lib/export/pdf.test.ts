@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the PDF writer
+ *
+ * Run: npx tsx --test functions/src/lib/export/pdf.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ExportDocument } from "./document.js";
+import { encodeWinAnsi, renderPdf, textWidth, wrapText } from "./pdf.js";
+
+function doc(items: number): ExportDocument {
+  return {
+    title: "Daily Brief",
+    subtitle: "Monday, October 19, 2026",
+    sections: [
+      {
+        heading: "Top Stories",
+        numbered: true,
+        items: Array.from({ length: items }, (_, i) => ({
+          text: `Story (${i + 1}) — carriers re\\price “cat” layers`,
+          detail: "Why it matters. ".repeat(12),
+          links: [{ label: "Insurance Journal", url: `https://example.com/a/${i}?q=é` }],
+        })),
+        sources: [],
+      },
+    ],
+    footer: { label: "Open in The Brief", url: "https://insurance-news-ai.web.app/brief/2026-10-19" },
+  };
+}
+
+const createdAt = new Date("2026-10-19T12:00:00Z");
+
+describe("text metrics", () => {
+  it("maps typography to WinAnsi and unknown characters to ?", () => {
+    assert.deepEqual(encodeWinAnsi("a—’é✓"), [97, 0x97, 0x92, 0xe9, 63]);
+  });
+
+  it("measures with Helvetica widths", () => {
+    assert.equal(textWidth("Hi", "regular", 10), 9.44);
+    assert.ok(textWidth("Hi", "bold", 10) > textWidth("Hi", "regular", 10));
+  });
+
+  it("wraps on words and breaks words longer than a line", () => {
+    const lines = wrapText("one two three four five six", "regular", 10, 60);
+    assert.ok(lines.length > 1);
+    assert.ok(lines.every((line) => textWidth(line, "regular", 10) <= 60));
+    assert.equal(lines.join(" "), "one two three four five six");
+    const url = wrapText("x".repeat(100), "regular", 10, 100);
+    assert.equal(url.join(""), "x".repeat(100));
+    assert.ok(url.length > 1);
+  });
+});
+
+describe("renderPdf", () => {
+  const pdf = renderPdf(doc(3), { createdAt }).toString("latin1");
+
+  it("writes a well-formed file with a valid cross-reference table", () => {
+    assert.match(pdf, /^%PDF-1\.4\n/);
+    assert.ok(pdf.endsWith("%%EOF\n"));
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n/)?.[1]);
+    assert.ok(pdf.startsWith("xref\n", startxref));
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, index) => assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset)));
+    const length = Number(pdf.match(/\/Length (\d+) >>\nstream\n/)?.[1]);
+    const start = pdf.indexOf("stream\n") + 7;
+    assert.equal(pdf.indexOf("\nendstream", start), start + length);
+  });
+
+  it("escapes text and encodes it as WinAnsi", () => {
+    assert.ok(pdf.includes("(1.) Tj"));
+    assert.ok(pdf.includes("(Story \\(1\\) \\227 carriers re\\\\price \\223cat\\224 layers) Tj"));
+    assert.ok(pdf.includes("/Title (Daily Brief \\226 Monday, October 19, 2026)"));
+    assert.ok(pdf.includes("/CreationDate (D:20261019120000Z)"));
+  });
+
+  it("links sources with ASCII-only URIs", () => {
+    assert.ok(pdf.includes("/URI (https://example.com/a/0?q=%C3%A9)"));
+    assert.ok(pdf.includes("/URI (https://insurance-news-ai.web.app/brief/2026-10-19)"));
+    assert.equal(pdf.match(/\/Subtype \/Link/g)?.length, 4);
+  });
+
+  it("paginates long documents and numbers the pages", () => {
+    const long = renderPdf(doc(40), { createdAt }).toString("latin1");
+    const count = Number(long.match(/\/Count (\d+)/)?.[1]);
+    assert.ok(count > 1);
+    assert.equal(long.match(/\/Type \/Page /g)?.length, count);
+    assert.ok(long.includes(`(${count} / ${count}) Tj`));
+    // Everything but the running footer (y = 30) stays inside the bottom margin
+    const bodyYs = [...long.matchAll(/1 0 0 1 [\d.]+ ([\d.]+) Tm/g)].map((m) => Number(m[1])).filter((y) => y !== 30);
+    assert.ok(Math.min(...bodyYs) >= 54);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * PDF Export
+ *
+ * A minimal PDF 1.4 writer for export documents: US Letter pages, the
+ * built-in Helvetica faces (WinAnsi encoding, so nothing is embedded),
+ * word-wrapped text measured with the standard Helvetica metrics, clickable
+ * source links, and a running footer with page numbers. Characters outside
+ * WinAnsi print as "?".
+ */
+
+import type { ExportDocument, ExportItem, ExportLink } from "./document.js";
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+type FontKey = "regular" | "bold";
+
+/** Advance widths (1/1000 em) for codes 32-126 */
+const ASCII_WIDTHS: Record<FontKey, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+    278, 278, 584, 584, 584, 556, 1015,
+    667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    278, 278, 278, 469, 556, 333,
+    556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833,
+    556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500,
+    334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+    333, 333, 584, 584, 584, 611, 975,
+    722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    333, 278, 333, 584, 556, 333,
+    556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889,
+    611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500,
+    389, 280, 389, 584,
+  ],
+};
+
+/** WinAnsi codes for common typography outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "›": 0x9b,
+};
+
+const EXTRA_WIDTHS: Record<FontKey, Record<number, number>> = {
+  regular: { 0x80: 556, 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0x99: 1000, 0x9b: 333 },
+  bold: { 0x80: 556, 0x85: 1000, 0x91: 278, 0x92: 278, 0x93: 500, 0x94: 500, 0x95: 350, 0x96: 556, 0x97: 1000, 0x99: 1000, 0x9b: 333 },
+};
+
+/** Text as WinAnsi byte codes */
+export function encodeWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      codes.push(code);
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      codes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (char === "\t" || char === "\n" || char === "\r") {
+      codes.push(32);
+    } else {
+      codes.push(63);
+    }
+  }
+  return codes;
+}
+
+function codeWidth(code: number, font: FontKey): number {
+  if (code >= 32 && code <= 126) return ASCII_WIDTHS[font][code - 32];
+  if (code === 160 || code === 183) return 278;
+  return EXTRA_WIDTHS[font][code] ?? 556;
+}
+
+/** Rendered width in points */
+export function textWidth(text: string, font: FontKey, size: number): number {
+  return encodeWinAnsi(text).reduce((sum, code) => sum + codeWidth(code, font), 0) * size / 1000;
+}
+
+/** Greedy word wrap; words wider than a line are broken by character */
+export function wrapText(text: string, font: FontKey, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    let rest = word;
+    while (textWidth(rest, font, size) > maxWidth) {
+      let cut = rest.length - 1;
+      while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 30;
+const ITEM_INDENT = 18;
+
+type Rgb = [number, number, number];
+
+const COLOR_TEXT: Rgb = [0.11, 0.11, 0.12];
+const COLOR_DETAIL: Rgb = [0.23, 0.23, 0.24];
+const COLOR_SECONDARY: Rgb = [0.43, 0.43, 0.45];
+const COLOR_ACCENT: Rgb = [0, 0.48, 1];
+const COLOR_RULE: Rgb = [0.9, 0.9, 0.92];
+
+interface TextStyle {
+  font: FontKey;
+  size: number;
+  color: Rgb;
+}
+
+const STYLES = {
+  subtitle: { font: "regular", size: 10, color: COLOR_SECONDARY },
+  title: { font: "bold", size: 22, color: COLOR_TEXT },
+  heading: { font: "bold", size: 9.5, color: COLOR_SECONDARY },
+  item: { font: "regular", size: 11, color: COLOR_TEXT },
+  itemTitle: { font: "bold", size: 11, color: COLOR_TEXT },
+  detail: { font: "regular", size: 10.5, color: COLOR_DETAIL },
+  link: { font: "regular", size: 9.5, color: COLOR_ACCENT },
+  caption: { font: "regular", size: 9.5, color: COLOR_SECONDARY },
+  footer: { font: "regular", size: 8, color: COLOR_SECONDARY },
+} satisfies Record<string, TextStyle>;
+
+type Drawable =
+  | { kind: "text"; x: number; y: number; text: string; style: TextStyle; url?: string }
+  | { kind: "rule"; y: number };
+
+function leading(style: TextStyle): number {
+  return style.size * 1.4;
+}
+
+/** Place a document's lines onto pages (y is each line's baseline, counting down from the top margin) */
+function layout(doc: ExportDocument): Drawable[][] {
+  const pages: Drawable[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const bottom = MARGIN + 12;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < bottom) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  const draw = (drawable: Drawable) => pages[pages.length - 1].push(drawable);
+
+  const addText = (text: string, style: TextStyle, indent = 0, url?: string) => {
+    for (const line of wrapText(text, style.font, style.size, CONTENT_WIDTH - indent)) {
+      ensureSpace(leading(style));
+      y -= leading(style);
+      draw({ kind: "text", x: MARGIN + indent, y, text: line, style, url });
+    }
+  };
+
+  const addLinks = (links: ExportLink[], indent: number) => {
+    for (const link of links) addText(link.label, STYLES.link, indent, link.url);
+  };
+
+  const addItem = (item: ExportItem, marker: string) => {
+    const style = item.detail === undefined ? STYLES.item : STYLES.itemTitle;
+    ensureSpace(leading(style) * 2);
+    draw({ kind: "text", x: MARGIN, y: y - leading(style), text: marker, style: { ...style, color: COLOR_SECONDARY } });
+    addText(item.text, style, ITEM_INDENT);
+    if (item.detail !== undefined) addText(item.detail, STYLES.detail, ITEM_INDENT);
+    addLinks(item.links, ITEM_INDENT);
+    y -= 6;
+  };
+
+  addText(doc.subtitle, STYLES.subtitle);
+  addText(doc.title, STYLES.title);
+
+  for (const section of doc.sections) {
+    // Keep a heading with its first item
+    ensureSpace(64);
+    y -= 16;
+    addText(section.heading.toUpperCase(), STYLES.heading);
+    y -= 4;
+    draw({ kind: "rule", y });
+    y -= 4;
+    section.items.forEach((item, index) => addItem(item, section.numbered ? `${index + 1}.` : "•"));
+    if (section.sources.length > 0) {
+      addText("Sources", STYLES.caption, ITEM_INDENT);
+      addLinks(section.sources, ITEM_INDENT);
+    }
+  }
+
+  if (doc.footer) {
+    ensureSpace(40);
+    y -= 16;
+    draw({ kind: "rule", y });
+    y -= 4;
+    addText(doc.footer.label, { ...STYLES.link, size: 11 }, 0, doc.footer.url);
+  }
+
+  return pages;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function pdfNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pdfColor(color: Rgb): string {
+  return color.map(pdfNumber).join(" ");
+}
+
+/** Literal string: delimiters escaped, non-ASCII bytes as octal */
+function pdfString(codes: number[]): string {
+  let out = "(";
+  for (const code of codes) {
+    if (code === 40 || code === 41 || code === 92) out += `\\${String.fromCharCode(code)}`;
+    else if (code < 32 || code > 126) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+}
+
+function pdfText(text: string): string {
+  return pdfString(encodeWinAnsi(text));
+}
+
+/** URIs must be 7-bit ASCII */
+function pdfUri(url: string): string {
+  const ascii = url.replace(/[^\x21-\x7e]/g, (char) => encodeURIComponent(char));
+  return pdfString([...ascii].map((char) => char.charCodeAt(0)));
+}
+
+/** "D:20261019120000Z" */
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+function contentStream(drawables: Drawable[], footerLeft: string, footerRight: string): string {
+  const ops: string[] = [];
+  const fontName = (font: FontKey) => (font === "bold" ? "/F2" : "/F1");
+  const text = (x: number, y: number, value: string, style: TextStyle) =>
+    `BT ${fontName(style.font)} ${pdfNumber(style.size)} Tf ${pdfColor(style.color)} rg ` +
+    `1 0 0 1 ${pdfNumber(x)} ${pdfNumber(y)} Tm ${pdfText(value)} Tj ET`;
+
+  for (const drawable of drawables) {
+    if (drawable.kind === "rule") {
+      ops.push(`${pdfColor(COLOR_RULE)} RG 0.75 w ${MARGIN} ${pdfNumber(drawable.y)} m ${PAGE_WIDTH - MARGIN} ${pdfNumber(drawable.y)} l S`);
+    } else {
+      ops.push(text(drawable.x, drawable.y, drawable.text, drawable.style));
+    }
+  }
+  ops.push(text(MARGIN, FOOTER_Y, footerLeft, STYLES.footer));
+  ops.push(text(PAGE_WIDTH - MARGIN - textWidth(footerRight, "regular", STYLES.footer.size), FOOTER_Y, footerRight, STYLES.footer));
+  return ops.join("\n");
+}
+
+export interface PdfOptions {
+  /** Stamped as the document's creation date */
+  createdAt: Date;
+}
+
+export function renderPdf(doc: ExportDocument, options: PdfOptions): Buffer {
+  const pages = layout(doc);
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = add("");
+  const pagesId = add("");
+  const regularId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const boldId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const infoId = add(
+    `<< /Title ${pdfText(`${doc.title} – ${doc.subtitle}`)} /Producer (The Brief) ` +
+    `/CreationDate (${pdfDate(options.createdAt)}) >>`
+  );
+
+  const footerLeft = `The Brief · ${doc.title} · ${doc.subtitle}`;
+  const pageIds = pages.map((drawables, index) => {
+    const annotIds = drawables
+      .filter((drawable) => drawable.kind === "text" && drawable.url)
+      .map((drawable) => {
+        const link = drawable as Extract<Drawable, { kind: "text" }>;
+        const width = textWidth(link.text, link.style.font, link.style.size);
+        const rect = [link.x, link.y - 2, link.x + width, link.y + link.style.size].map(pdfNumber).join(" ");
+        return add(`<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /A << /S /URI /URI ${pdfUri(link.url ?? "")} >> >>`);
+      });
+    const stream = contentStream(drawables, footerLeft, `${index + 1} / ${pages.length}`);
+    const contentId = add(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+    const annots = annotIds.length > 0 ? ` /Annots [${annotIds.map((id) => `${id} 0 R`).join(" ")}]` : "";
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R${annots} >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Binary comment marks the file as 8-bit for transfer tools
+  let out = "%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
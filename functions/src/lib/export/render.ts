@@ -0,0 +1,31 @@
+/**
+ * Export Rendering
+ *
+ * One entry point from a document and format to file bytes, so callers
+ * never branch on format themselves.
+ */
+
+import { EXPORT_FILE_TYPES, exportFilename, type ExportDocument, type ExportFormat } from "./document.js";
+import { renderHtml } from "./html.js";
+import { renderMarkdown } from "./markdown.js";
+import { renderPdf } from "./pdf.js";
+
+/** A rendered export, ready to download */
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  body: Buffer;
+}
+
+export function renderExport(
+  doc: ExportDocument,
+  format: ExportFormat,
+  basename: string,
+  createdAt: Date
+): ExportFile {
+  const body =
+    format === "pdf"
+      ? renderPdf(doc, { createdAt })
+      : Buffer.from(format === "html" ? renderHtml(doc) : renderMarkdown(doc), "utf8");
+  return { filename: exportFilename(basename, format), mimeType: EXPORT_FILE_TYPES[format].mimeType, body };
+}
@@ -0,0 +1,19 @@
+/**
+ * Full Text Module Exports
+ */
+
+export {
+  FULL_TEXT_EXTRACTOR,
+  MAX_FULL_TEXT_CHARS,
+  MIN_FULL_TEXT_CHARS,
+  extractReadableText,
+  leadExcerpt,
+  type ReadableText,
+} from "./readability.js";
+
+export {
+  fetchFullText,
+  captureFullText,
+  getFullText,
+  getFullTextExcerpts,
+} from "./store.js";
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for readability-style article body extraction
+ *
+ * Run: npx tsx --test functions/src/lib/fulltext/readability.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractReadableText, leadExcerpt, MAX_FULL_TEXT_CHARS } from "./readability.js";
+
+const PARAGRAPHS = [
+  "Florida regulators approved a 12% average rate decrease for the state's largest homeowners carrier, citing reinsurance savings and reduced litigation after the 2022 reforms.",
+  "The carrier, which writes more than 400,000 policies, said the decrease reflects lower attorney involvement, fewer assignment-of-benefits claims, and a softer property catastrophe market at the June 1 renewals.",
+  "Analysts said other domestic carriers are likely to follow, although reinsurance costs remain elevated compared with 2020 and hurricane season forecasts call for above-average activity.",
+  "The Office of Insurance Regulation said it would continue monitoring rate adequacy, surplus levels, and reinsurance programs ahead of the peak of the season.",
+];
+
+function page(body: string): string {
+  return `<!doctype html>
+<html><head><title>Rates fall</title><script>var ads = "<p>not text</p>";</script></head>
+<body>
+  <header class="site-header"><nav><a href="/">Home</a> <a href="/news">News</a></nav></header>
+  ${body}
+  <aside class="sidebar"><p>Most read: Ten carriers exit California, Reinsurers brace for renewals, and more</p></aside>
+  <footer><p>Copyright 2026 Publisher, Inc. All rights reserved, including text and data mining.</p></footer>
+</body></html>`;
+}
+
+// ============================================================================
+// extractReadableText
+// ============================================================================
+
+describe("extractReadableText", () => {
+  it("returns the article body without page chrome", () => {
+    const html = page(`<div class="content"><article>
+      <h1>Florida rates fall</h1>
+      ${PARAGRAPHS.map((p) => `<p>${p}</p>`).join("\n")}
+      <div class="share-bar"><p>Share this story on Facebook, X, LinkedIn, or by email with colleagues</p></div>
+    </article></div>`);
+
+    const result = extractReadableText(html);
+    assert.ok(result);
+    assert.equal(result.text, PARAGRAPHS.join("\n\n"));
+    assert.equal(result.wordCount, result.text.split(/\s+/).length);
+    assert.ok(!result.text.includes("Most read"));
+    assert.ok(!result.text.includes("Share this story"));
+    assert.ok(!result.text.includes("not text"));
+  });
+
+  it("finds the densest container without article markup", () => {
+    const html = page(`<div id="wrapper">
+      <div class="promo-rail"><p><a href="/a">Subscribe to our newsletter for daily updates on the market</a></p></div>
+      <div class="story-body">${PARAGRAPHS.map((p) => `<p>${p}</p>`).join("")}</div>
+    </div>`);
+
+    assert.equal(extractReadableText(html)?.text, PARAGRAPHS.join("\n\n"));
+  });
+
+  it("keeps subheads and list items, drops link-only lists", () => {
+    const html = page(`<article>
+      <p>${PARAGRAPHS[0]}</p>
+      <h2>What changes</h2>
+      <ul><li>Rates fall 12% on average.</li><li>New business resumes in Miami-Dade.</li></ul>
+      <p>${PARAGRAPHS[1]}</p>
+      <p>${PARAGRAPHS[2]}</p>
+      <ul><li><a href="/x">Related: Citizens depopulation continues</a></li></ul>
+    </article>`);
+
+    const text = extractReadableText(html)?.text ?? "";
+    assert.ok(text.includes("\n\nWhat changes\n\nRates fall 12% on average.\n\nNew business resumes"));
+    assert.ok(!text.includes("Related:"));
+  });
+
+  it("returns null for teasers and pages without a body", () => {
+    assert.equal(extractReadableText(page(`<article><p>${PARAGRAPHS[0]}</p><p>Subscribe to keep reading.</p></article>`)), null);
+    assert.equal(extractReadableText(page("<div>Video</div>")), null);
+    assert.equal(extractReadableText(""), null);
+  });
+
+  it("caps long bodies at a paragraph boundary", () => {
+    const many = Array.from({ length: 200 }, (_, i) => `<p>${PARAGRAPHS[i % PARAGRAPHS.length]}</p>`).join("");
+    const text = extractReadableText(page(`<article>${many}</article>`))?.text ?? "";
+    assert.ok(text.length <= MAX_FULL_TEXT_CHARS);
+    assert.ok(PARAGRAPHS.some((p) => text.endsWith(p)));
+  });
+});
+
+// ============================================================================
+// leadExcerpt
+// ============================================================================
+
+describe("leadExcerpt", () => {
+  it("returns short text unchanged", () => {
+    assert.equal(leadExcerpt("Short body.", 100), "Short body.");
+  });
+
+  it("prefers paragraph, then sentence, then word boundaries", () => {
+    const text = PARAGRAPHS.join("\n\n");
+    assert.equal(leadExcerpt(text, PARAGRAPHS[0].length + 40), PARAGRAPHS[0]);
+    assert.equal(
+      leadExcerpt("First sentence here. Second sentence runs on and on", 36),
+      "First sentence here."
+    );
+    assert.equal(leadExcerpt("one two three four five six seven", 20), "one two three four…");
+  });
+});
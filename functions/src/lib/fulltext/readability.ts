@@ -0,0 +1,223 @@
+/**
+ * Readability-style Article Body Extraction
+ *
+ * Finds the main text of a publisher article page:
+ *   1. Strips page chrome (nav, header, footer, aside, forms, scripts) and
+ *      blocks whose class/id look like comments, share bars or promos
+ *   2. Scores the parent (and, at half weight, grandparent) of every
+ *      substantial paragraph by length and comma count, adjusted by
+ *      class/id hints and link density
+ *   3. Takes the best candidate plus any strongly scored siblings and
+ *      joins their paragraphs, headings and list items
+ *
+ * Pages that yield too little text (paywalls, teasers, video pages) return
+ * null so callers fall back to the feed snippet.
+ */
+
+import {
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  type HtmlElement,
+} from "../ingestion/html-dom.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FULL_TEXT_EXTRACTOR = "readability-v1";
+
+/** Upper bound on stored body text (long-reads are cut at a paragraph) */
+export const MAX_FULL_TEXT_CHARS = 20000;
+
+/** Below this the page is treated as a teaser/paywall and ignored */
+export const MIN_FULL_TEXT_CHARS = 500;
+
+/** Paragraphs shorter than this don't vote for a container */
+const MIN_PARAGRAPH_CHARS = 25;
+
+/** Elements that are never article body */
+const CHROME_TAGS = new Set([
+  "script", "style", "noscript", "template", "svg", "iframe", "nav",
+  "header", "footer", "aside", "form", "button", "select", "figure",
+]);
+
+const UNLIKELY_HINT =
+  /comment|share|social|related|promo|newsletter|subscribe|advert|sponsor|cookie|sidebar|footer|menu|breadcrumb|popup|modal|byline|caption|tags/i;
+
+const POSITIVE_HINT = /article|body|content|entry|main|post|story|text/i;
+
+const NEGATIVE_HINT = /comment|meta|footer|footnote|promo|related|share|sidebar|widget|ad-/i;
+
+/** Block elements whose text makes up the extracted body */
+const BODY_BLOCKS = "p, h2, h3, li, blockquote, pre";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReadableText {
+  /** Body text, paragraphs separated by blank lines */
+  text: string;
+  wordCount: number;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract the readable body of an article page, or null when none is found.
+ */
+export function extractReadableText(html: string): ReadableText | null {
+  if (!html) return null;
+  const root = parseHtml(html);
+  stripChrome(root);
+
+  // Publisher markup, when present, narrows the search
+  const scope =
+    querySelector(root, "[itemprop=articleBody]") ??
+    querySelector(root, "article") ??
+    querySelector(root, "main") ??
+    root;
+
+  const containers = topCandidates(scope);
+  if (!containers) return null;
+
+  const blocks = collectBlocks(containers);
+  const text = capAtParagraph(blocks.join("\n\n"), MAX_FULL_TEXT_CHARS);
+  if (text.length < MIN_FULL_TEXT_CHARS) return null;
+
+  return { text, wordCount: text.split(/\s+/).filter(Boolean).length };
+}
+
+/**
+ * Leading excerpt of body text, cut at a paragraph, sentence or word
+ * boundary (in that order of preference).
+ */
+export function leadExcerpt(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const head = text.slice(0, maxChars);
+  const floor = maxChars * 0.5;
+  const paragraph = head.lastIndexOf("\n\n");
+  if (paragraph >= floor) return head.slice(0, paragraph);
+  const sentence = Math.max(head.lastIndexOf(". "), head.lastIndexOf(".\n"));
+  if (sentence >= floor) return head.slice(0, sentence + 1);
+  const word = head.lastIndexOf(" ");
+  return `${head.slice(0, word > 0 ? word : maxChars)}…`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hints(el: HtmlElement): string {
+  return `${el.attrs.class ?? ""} ${el.attrs.id ?? ""}`;
+}
+
+/** Remove chrome and unlikely blocks in place */
+function stripChrome(el: HtmlElement): void {
+  el.children = el.children.filter((child) => {
+    if (child.type === "text") return true;
+    if (CHROME_TAGS.has(child.tag)) return false;
+    const hint = hints(child);
+    if (UNLIKELY_HINT.test(hint) && !POSITIVE_HINT.test(hint) && child.tag !== "body") {
+      return false;
+    }
+    stripChrome(child);
+    return true;
+  });
+}
+
+function classWeight(el: HtmlElement): number {
+  const hint = hints(el);
+  let weight = 0;
+  if (POSITIVE_HINT.test(hint)) weight += 25;
+  if (NEGATIVE_HINT.test(hint)) weight -= 25;
+  return weight;
+}
+
+/** Share of an element's text that sits inside links */
+function linkDensity(el: HtmlElement): number {
+  const length = textContent(el).length;
+  if (length === 0) return 0;
+  const linked = querySelectorAll(el, "a").reduce((sum, a) => sum + textContent(a).length, 0);
+  return linked / length;
+}
+
+/**
+ * Highest-scoring paragraph container within `scope`, merged with strongly
+ * scored siblings into a list of elements to read from.
+ */
+function topCandidates(scope: HtmlElement): HtmlElement[] | null {
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (el: HtmlElement | null, points: number) => {
+    if (!el) return;
+    scores.set(el, (scores.get(el) ?? classWeight(el)) + points);
+  };
+
+  for (const p of querySelectorAll(scope, "p")) {
+    const text = textContent(p);
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+    const commas = text.split(",").length - 1;
+    const points = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    addScore(p.parent, points);
+    addScore(p.parent?.parent ?? null, points / 2);
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    scores.set(el, adjusted);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) return null;
+
+  // Bodies split across sibling containers (e.g. around an inline ad slot)
+  const siblings = best.parent?.children ?? [best];
+  const threshold = Math.max(10, bestScore * 0.2);
+  return siblings.filter(
+    (child): child is HtmlElement =>
+      child.type === "element" && (child === best || (scores.get(child) ?? 0) >= threshold)
+  );
+}
+
+/** Text of outermost body blocks, in document order */
+function collectBlocks(containers: HtmlElement[]): string[] {
+  const blocks: string[] = [];
+  for (const container of containers) {
+    const elements = querySelectorAll(container, BODY_BLOCKS);
+    const included = new Set(elements);
+    for (const el of elements) {
+      // Nested blocks (a <p> inside a <blockquote>) are read with their parent
+      let ancestor = el.parent;
+      let nested = false;
+      while (ancestor && ancestor !== container) {
+        if (included.has(ancestor)) {
+          nested = true;
+          break;
+        }
+        ancestor = ancestor.parent;
+      }
+      if (nested) continue;
+
+      const text = textContent(el);
+      if (!text) continue;
+      // Link lists ("Related: ...") inside the body
+      if (el.tag === "li" && linkDensity(el) > 0.5) continue;
+      blocks.push(text);
+    }
+  }
+  return blocks;
+}
+
+function capAtParagraph(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.lastIndexOf("\n\n", maxChars);
+  return cut > 0 ? text.slice(0, cut) : text.slice(0, maxChars);
+}
@@ -0,0 +1,162 @@
+/**
+ * Article Full Text Storage
+ *
+ * Fetches and extracts article bodies for sources whose terms allow it
+ * (Source.allowFullText) and keeps them in a server-only subcollection:
+ *
+ *   articles/{articleId}/private/fullText
+ *
+ * Security rules deny all client access to `private`, and no callable
+ * returns this text; it only feeds article AI, embeddings and Ask context.
+ * Public reads keep serving the ≤200 char snippet.
+ */
+
+import { getFirestore, Timestamp, type DocumentReference } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { ArticleFullText } from "../../types/firestore.js";
+import { httpFetch } from "../ingestion/http-transport.js";
+import { extractReadableText, leadExcerpt, FULL_TEXT_EXTRACTOR } from "./readability.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Article pages are slower than feeds; don't hold ingestion up for long */
+const FULL_TEXT_FETCH_TIMEOUT_MS = 10000;
+
+/** Stop reading pages past this size (bodies sit well inside it) */
+const FULL_TEXT_MAX_BYTES = 1_500_000;
+
+const FETCH_USER_AGENT = "InsuranceNewsAI/1.0 (+https://insurance-news-ai.web.app)";
+
+// ============================================================================
+// Fetch & Extract
+// ============================================================================
+
+/**
+ * Fetch an article page as HTML. Returns null on any error, non-HTML
+ * response or timeout (never throws).
+ */
+async function fetchArticleHtml(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FULL_TEXT_FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await httpFetch(url, {
+      method: "GET",
+      headers: {
+        "User-Agent": FETCH_USER_AGENT,
+        "Accept": "text/html,application/xhtml+xml",
+      },
+      redirect: "follow",
+      signal: controller.signal,
+    });
+
+    if (!response.ok) return null;
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType && !contentType.includes("html")) return null;
+
+    const reader = response.body?.getReader();
+    if (!reader) return null;
+
+    const decoder = new TextDecoder();
+    let html = "";
+    let bytesRead = 0;
+    while (bytesRead < FULL_TEXT_MAX_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      html += decoder.decode(value, { stream: true });
+      bytesRead += value.length;
+    }
+    reader.cancel().catch(() => {});
+
+    return html;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch an article page and extract its body. Returns null when the page
+ * can't be fetched or has no readable body (paywall, teaser, video).
+ */
+export async function fetchFullText(url: string): Promise<ArticleFullText | null> {
+  const html = await fetchArticleHtml(url);
+  if (!html) return null;
+
+  const readable = extractReadableText(html);
+  if (!readable) return null;
+
+  return {
+    text: readable.text,
+    wordCount: readable.wordCount,
+    url,
+    extractor: FULL_TEXT_EXTRACTOR,
+    extractedAt: Timestamp.now(),
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function fullTextRef(articleId: string): DocumentReference {
+  return getFirestore()
+    .collection("articles")
+    .doc(articleId)
+    .collection("private")
+    .doc("fullText");
+}
+
+/**
+ * Fetch, extract and store an article's body, flagging the article with
+ * `hasFullText`. Returns whether text was stored. Errors are logged, not
+ * thrown: the snippet remains the fallback.
+ */
+export async function captureFullText(articleId: string, url: string): Promise<boolean> {
+  try {
+    const fullText = await fetchFullText(url);
+    if (!fullText) return false;
+
+    await fullTextRef(articleId).set(fullText);
+    await getFirestore().collection("articles").doc(articleId).update({ hasFullText: true });
+    return true;
+  } catch (error) {
+    logger.warn("Full text capture failed", {
+      articleId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Stored body text for one article, or null.
+ */
+export async function getFullText(articleId: string): Promise<string | null> {
+  const doc = await fullTextRef(articleId).get();
+  if (!doc.exists) return null;
+  return (doc.data() as ArticleFullText).text || null;
+}
+
+/**
+ * Leading excerpts of stored body text for several articles, keyed by
+ * article ID. Articles without full text are absent from the map.
+ */
+export async function getFullTextExcerpts(
+  articleIds: string[],
+  maxChars: number
+): Promise<Map<string, string>> {
+  const excerpts = new Map<string, string>();
+  if (articleIds.length === 0) return excerpts;
+
+  // getAll returns documents in the order requested
+  const docs = await getFirestore().getAll(...articleIds.map(fullTextRef));
+  docs.forEach((doc, i) => {
+    const text = doc.exists ? (doc.data() as ArticleFullText).text : "";
+    if (text) excerpts.set(articleIds[i], leadExcerpt(text, maxChars));
+  });
+  return excerpts;
+}
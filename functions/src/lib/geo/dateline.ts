@@ -0,0 +1,145 @@
+/**
+ * Dateline Parsing
+ *
+ * Recognizes wire-style datelines at the start of a headline or snippet:
+ *
+ *   "TALLAHASSEE, Fla. — ..."            → FL
+ *   "NEW YORK (AP) — ..."                → NY
+ *   "LONDON, Oct 3 (Reuters) - ..."      → GB
+ *   "HAMILTON, Bermuda -- ..."           → BM
+ *
+ * The place must be written in capitals. A qualifier after the comma (AP
+ * state abbreviation, state name, province or country) wins over the city
+ * table, so "PORTLAND, Maine" is not read as Oregon.
+ */
+
+import { GAZETTEER } from "../entities/gazetteer.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Dateline {
+  /** Place as written, e.g. "TALLAHASSEE, Fla." */
+  place: string;
+  /** USPS code when the dateline is in the US */
+  state: string | null;
+  /** ISO 3166-1 alpha-2 code */
+  country: string;
+}
+
+// ============================================================================
+// Lookup tables
+// ============================================================================
+
+/** AP style state abbreviations (states AP spells out are matched by name) */
+const AP_STATE_ABBREVIATIONS: Record<string, string> = {
+  "Ala.": "AL", "Ariz.": "AZ", "Ark.": "AR", "Calif.": "CA", "Colo.": "CO",
+  "Conn.": "CT", "Del.": "DE", "D.C.": "DC", "Fla.": "FL", "Ga.": "GA",
+  "Ill.": "IL", "Ind.": "IN", "Kan.": "KS", "Ky.": "KY", "La.": "LA",
+  "Md.": "MD", "Mass.": "MA", "Mich.": "MI", "Minn.": "MN", "Miss.": "MS",
+  "Mo.": "MO", "Mont.": "MT", "Neb.": "NE", "Nev.": "NV", "N.H.": "NH",
+  "N.J.": "NJ", "N.M.": "NM", "N.Y.": "NY", "N.C.": "NC", "N.D.": "ND",
+  "Okla.": "OK", "Ore.": "OR", "Pa.": "PA", "R.I.": "RI", "S.C.": "SC",
+  "S.D.": "SD", "Tenn.": "TN", "Vt.": "VT", "Va.": "VA", "Wash.": "WA",
+  "W.Va.": "WV", "Wis.": "WI", "Wyo.": "WY",
+};
+
+/** Canadian province qualifiers (AP abbreviations and names) */
+const CANADIAN_PROVINCES = new Set([
+  "Alta.", "Alberta", "B.C.", "British Columbia", "Man.", "Manitoba",
+  "N.B.", "New Brunswick", "N.S.", "Nova Scotia", "Ont.", "Ontario",
+  "Que.", "Quebec", "Sask.", "Saskatchewan", "Nfld.", "Newfoundland",
+]);
+
+/** Constituent countries that resolve to the United Kingdom */
+const UK_NATIONS = new Set(["England", "Scotland", "Wales", "Northern Ireland"]);
+
+/**
+ * Cities that stand alone in datelines (AP list plus insurance hubs),
+ * mapped to [country, state].
+ */
+const DATELINE_CITIES: Record<string, [country: string, state: string | null]> = {
+  "ATLANTA": ["US", "GA"], "AUSTIN": ["US", "TX"], "BALTIMORE": ["US", "MD"],
+  "BOSTON": ["US", "MA"], "CHICAGO": ["US", "IL"], "CINCINNATI": ["US", "OH"],
+  "CLEVELAND": ["US", "OH"], "DALLAS": ["US", "TX"], "DENVER": ["US", "CO"],
+  "DETROIT": ["US", "MI"], "HARTFORD": ["US", "CT"], "HONOLULU": ["US", "HI"],
+  "HOUSTON": ["US", "TX"], "INDIANAPOLIS": ["US", "IN"], "LAS VEGAS": ["US", "NV"],
+  "LOS ANGELES": ["US", "CA"], "MIAMI": ["US", "FL"], "MILWAUKEE": ["US", "WI"],
+  "MINNEAPOLIS": ["US", "MN"], "NEW ORLEANS": ["US", "LA"], "NEW YORK": ["US", "NY"],
+  "OKLAHOMA CITY": ["US", "OK"], "PHILADELPHIA": ["US", "PA"], "PHOENIX": ["US", "AZ"],
+  "PITTSBURGH": ["US", "PA"], "SACRAMENTO": ["US", "CA"], "ST. LOUIS": ["US", "MO"],
+  "SALT LAKE CITY": ["US", "UT"], "SAN ANTONIO": ["US", "TX"], "SAN DIEGO": ["US", "CA"],
+  "SAN FRANCISCO": ["US", "CA"], "SEATTLE": ["US", "WA"], "TALLAHASSEE": ["US", "FL"],
+  "WASHINGTON": ["US", "DC"],
+  "TORONTO": ["CA", null], "MONTREAL": ["CA", null], "OTTAWA": ["CA", null],
+  "VANCOUVER": ["CA", null], "CALGARY": ["CA", null], "MEXICO CITY": ["MX", null],
+  "HAMILTON": ["BM", null], "GEORGE TOWN": ["KY", null],
+  "SAO PAULO": ["BR", null], "SANTIAGO": ["CL", null],
+  "LONDON": ["GB", null], "EDINBURGH": ["GB", null], "DUBLIN": ["IE", null],
+  "PARIS": ["FR", null], "ZURICH": ["CH", null], "GENEVA": ["CH", null],
+  "MUNICH": ["DE", null], "FRANKFURT": ["DE", null], "BERLIN": ["DE", null],
+  "COLOGNE": ["DE", null], "HANNOVER": ["DE", null], "MILAN": ["IT", null],
+  "ROME": ["IT", null], "TRIESTE": ["IT", null], "MADRID": ["ES", null],
+  "ISTANBUL": ["TR", null], "KYIV": ["UA", null], "TEL AVIV": ["IL", null],
+  "JERUSALEM": ["IL", null], "TOKYO": ["JP", null], "BEIJING": ["CN", null],
+  "SHANGHAI": ["CN", null], "MUMBAI": ["IN", null], "NEW DELHI": ["IN", null],
+  "SINGAPORE": ["SG", null], "MANILA": ["PH", null], "SYDNEY": ["AU", null],
+  "MELBOURNE": ["AU", null], "WELLINGTON": ["NZ", null], "AUCKLAND": ["NZ", null],
+};
+
+/** State and country names from the gazetteer, e.g. "Texas" → state TX */
+const NAMED_PLACES = new Map<string, [country: string, state: string | null]>();
+for (const entry of GAZETTEER) {
+  if (entry.type === "state") {
+    NAMED_PLACES.set(entry.name, ["US", entry.id]);
+  } else if (entry.type === "country") {
+    for (const alias of entry.aliases) NAMED_PLACES.set(alias, [entry.id, null]);
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * PLACE[, Qualifier][, Mon D] [(Agency)] — text
+ *
+ * Place: capitals, spaces, periods, apostrophes and hyphens.
+ * Qualifier: a capitalized word or two ("Fla.", "Maine", "New Brunswick").
+ */
+const DATELINE_PATTERN =
+  /^\s*([A-Z][A-Z.'’ -]*[A-Z.])(?:,\s*([A-Z][A-Za-z.']*(?:\s[A-Z][A-Za-z.']*){0,2}))?(?:,\s*[A-Z][a-z]{2,8}\.?\s+\d{1,2})?\s*(?:\([^)]{1,40}\))?\s*(?:—|–|--|-)\s/;
+
+function resolveQualifier(qualifier: string): [country: string, state: string | null] | null {
+  const apState = AP_STATE_ABBREVIATIONS[qualifier];
+  if (apState) return ["US", apState];
+  const named = NAMED_PLACES.get(qualifier);
+  if (named) return named;
+  if (CANADIAN_PROVINCES.has(qualifier)) return ["CA", null];
+  if (UK_NATIONS.has(qualifier)) return ["GB", null];
+  return null;
+}
+
+/**
+ * Parse a leading dateline. Returns null when the text has none or the
+ * place can't be resolved.
+ */
+export function parseDateline(text: string): Dateline | null {
+  if (!text) return null;
+  const match = DATELINE_PATTERN.exec(text);
+  if (!match) return null;
+
+  const city = match[1].trim().replace(/\s+/g, " ");
+  const qualifier = match[2]?.trim();
+
+  const resolved = (qualifier ? resolveQualifier(qualifier) : null) ?? DATELINE_CITIES[city] ?? null;
+  if (!resolved) return null;
+
+  const [country, state] = resolved;
+  return {
+    place: qualifier ? `${city}, ${qualifier}` : city,
+    state,
+    country,
+  };
+}
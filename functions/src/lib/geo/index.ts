@@ -0,0 +1,16 @@
+/**
+ * Geography Module Exports
+ */
+
+export { parseDateline, type Dateline } from "./dateline.js";
+
+export {
+  MAX_GEO_STATES,
+  MAX_GEO_FILTER_KEYS,
+  GEO_REGIONS,
+  inferGeography,
+  geoKeysFor,
+  isStateCode,
+  isGeoKey,
+  type GeoInput,
+} from "./infer.js";
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for dateline parsing and article geography inference
+ *
+ * Run: npx tsx --test functions/src/lib/geo/infer.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseDateline } from "./dateline.js";
+import { inferGeography, geoKeysFor, isGeoKey, isStateCode } from "./infer.js";
+
+// ============================================================================
+// parseDateline
+// ============================================================================
+
+describe("parseDateline", () => {
+  it("reads AP state abbreviations and spelled-out states", () => {
+    assert.deepEqual(parseDateline("TALLAHASSEE, Fla. — Lawmakers passed"), {
+      place: "TALLAHASSEE, Fla.",
+      state: "FL",
+      country: "US",
+    });
+    assert.equal(parseDateline("AUSTIN, Texas (AP) — The TDI said")?.state, "TX");
+    assert.equal(parseDateline("PORTLAND, Maine — A storm")?.state, "ME");
+  });
+
+  it("reads standalone cities with agency and date segments", () => {
+    assert.equal(parseDateline("NEW YORK (AP) — Shares")?.state, "NY");
+    assert.deepEqual(parseDateline("LONDON, Oct 3 (Reuters) - Lloyd's said"), {
+      place: "LONDON",
+      state: null,
+      country: "GB",
+    });
+    assert.equal(parseDateline("WASHINGTON -- Congress")?.state, "DC");
+  });
+
+  it("lets the qualifier override the city table", () => {
+    assert.equal(parseDateline("HAMILTON, Ont. — Flooding")?.country, "CA");
+    assert.equal(parseDateline("HAMILTON, Bermuda -- Reinsurers")?.country, "BM");
+  });
+
+  it("returns null without a resolvable dateline", () => {
+    assert.equal(parseDateline("Travelers posts record quarter"), null);
+    assert.equal(parseDateline("UPDATE 2-Chubb beats estimates"), null);
+    assert.equal(parseDateline("SPRINGFIELD — Council votes"), null);
+    assert.equal(parseDateline(""), null);
+  });
+});
+
+// ============================================================================
+// inferGeography
+// ============================================================================
+
+describe("inferGeography", () => {
+  it("puts the dateline first and implies US from states", () => {
+    const geo = inferGeography({
+      title: "Georgia and Florida brace for hurricane",
+      snippet: "MIAMI (AP) — Forecasters warned",
+    });
+    assert.deepEqual(geo, {
+      states: ["FL", "GA"],
+      countries: ["US"],
+      regions: ["north-america"],
+      dateline: "MIAMI",
+    });
+  });
+
+  it("tags countries and rolls them up to regions", () => {
+    const geo = inferGeography({ title: "Flooding in Germany and Japan tests reinsurers", snippet: "" });
+    assert.deepEqual(geo.countries, ["DE", "JP"]);
+    assert.deepEqual(geo.regions, ["europe", "asia-pacific"]);
+    assert.deepEqual(geo.states, []);
+  });
+
+  it("recognizes explicit US mentions without a state", () => {
+    assert.deepEqual(inferGeography({ title: "U.S. commercial rates rise", snippet: "" }).countries, ["US"]);
+  });
+
+  it("falls back to the source region only when the text names nowhere", () => {
+    assert.deepEqual(
+      inferGeography({ title: "Insurer posts profit", snippet: "", sourceRegion: "Canada" }).countries,
+      ["CA"]
+    );
+    assert.deepEqual(
+      inferGeography({ title: "Texas hail losses mount", snippet: "", sourceRegion: "Canada" }).countries,
+      ["US"]
+    );
+    assert.deepEqual(inferGeography({ title: "Insurer posts profit", snippet: "" }).countries, []);
+  });
+
+  it("includes states implied by regulators", () => {
+    const geo = inferGeography({ title: "California Department of Insurance approves rate hike", snippet: "" });
+    assert.deepEqual(geo.states, ["CA"]);
+  });
+});
+
+// ============================================================================
+// Keys & validation
+// ============================================================================
+
+describe("geoKeysFor / isGeoKey", () => {
+  it("flattens states, countries and regions", () => {
+    assert.deepEqual(
+      geoKeysFor({ states: ["FL"], countries: ["US"], regions: ["north-america"], dateline: null }),
+      ["state:FL", "country:US", "region:north-america"]
+    );
+  });
+
+  it("validates filter keys and state codes", () => {
+    assert.ok(isGeoKey("state:FL"));
+    assert.ok(isGeoKey("country:GB"));
+    assert.ok(isGeoKey("region:europe"));
+    assert.ok(!isGeoKey("state:ZZ"));
+    assert.ok(!isGeoKey("company:travelers"));
+    assert.ok(!isGeoKey(42));
+    assert.ok(isStateCode("DC"));
+    assert.ok(!isStateCode("fl"));
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Article Geography Inference
+ *
+ * Combines three signals into per-article geography:
+ *   1. Dateline ("TALLAHASSEE, Fla. —") — the primary location, listed first
+ *   2. State and country entities named in the headline/snippet
+ *   3. The source's region (e.g. "Canada"), only when the text names nothing
+ *
+ * Any US state implies country US; countries roll up to broad regions.
+ * Results are flattened to `geoKeys` ("state:FL", "country:US",
+ * "region:north-america") for Firestore array-contains-any filtering.
+ */
+
+import type { ArticleEntity, ArticleGeo, GeoRegion } from "../../types/firestore.js";
+import { extractEntities } from "../entities/extract.js";
+import { GAZETTEER } from "../entities/gazetteer.js";
+import { parseDateline } from "./dateline.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Upper bound on states stored per article (wire round-ups can name dozens) */
+export const MAX_GEO_STATES = 10;
+
+/** Max keys in one geography filter (Firestore array-contains-any limit) */
+export const MAX_GEO_FILTER_KEYS = 10;
+
+export const GEO_REGIONS: readonly GeoRegion[] = [
+  "north-america",
+  "latin-america",
+  "europe",
+  "asia-pacific",
+  "middle-east-africa",
+];
+
+/** Region for each country we tag (Caribbean domiciles roll into latin-america) */
+const COUNTRY_REGIONS: Record<string, GeoRegion> = {
+  US: "north-america", CA: "north-america", MX: "north-america", BM: "north-america",
+  KY: "latin-america", BR: "latin-america", CL: "latin-america",
+  GB: "europe", IE: "europe", FR: "europe", DE: "europe", CH: "europe",
+  IT: "europe", ES: "europe", TR: "europe", UA: "europe",
+  IL: "middle-east-africa",
+  JP: "asia-pacific", CN: "asia-pacific", IN: "asia-pacific", SG: "asia-pacific",
+  PH: "asia-pacific", AU: "asia-pacific", NZ: "asia-pacific",
+};
+
+const STATE_CODES = new Set(
+  GAZETTEER.filter((e) => e.type === "state").map((e) => e.id)
+);
+
+/** Source.region values → country code */
+const SOURCE_REGION_COUNTRIES: Record<string, string> = {
+  "us": "US", "usa": "US", "united states": "US",
+  "canada": "CA", "uk": "GB", "united kingdom": "GB",
+  "bermuda": "BM", "australia": "AU", "ireland": "IE",
+};
+
+/** Explicit US mentions; the gazetteer has no US entry so "US" isn't tagged everywhere */
+const US_PATTERN = /(?<![\p{L}\p{N}])(?:U\.S\.(?:A\.)?|United States)(?![\p{L}\p{N}])/u;
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+export interface GeoInput {
+  title: string;
+  snippet: string;
+  /** Entities already extracted from title/snippet (extracted here when omitted) */
+  entities?: ArticleEntity[];
+  /** Source.region, e.g. "Canada" */
+  sourceRegion?: string;
+}
+
+/**
+ * Infer an article's geography from its dateline, text and source region.
+ */
+export function inferGeography(input: GeoInput): ArticleGeo {
+  const text = `${input.title}\n${input.snippet}`;
+  const entities = input.entities ?? extractEntities(text);
+  const dateline = parseDateline(input.snippet) ?? parseDateline(input.title);
+
+  const states: string[] = [];
+  const countries: string[] = [];
+  const addState = (code: string) => {
+    if (!states.includes(code)) states.push(code);
+  };
+  const addCountry = (code: string) => {
+    if (!countries.includes(code)) countries.push(code);
+  };
+
+  if (dateline) {
+    if (dateline.state) addState(dateline.state);
+    addCountry(dateline.country);
+  }
+
+  for (const entity of entities) {
+    if (entity.type === "state") addState(entity.key.slice("state:".length));
+  }
+  if (states.length > 0 || US_PATTERN.test(text)) addCountry("US");
+
+  for (const entity of entities) {
+    if (entity.type === "country") addCountry(entity.key.slice("country:".length));
+  }
+
+  if (countries.length === 0 && input.sourceRegion) {
+    const fallback = SOURCE_REGION_COUNTRIES[input.sourceRegion.trim().toLowerCase()];
+    if (fallback) addCountry(fallback);
+  }
+
+  const regions: GeoRegion[] = [];
+  for (const country of countries) {
+    const region = COUNTRY_REGIONS[country];
+    if (region && !regions.includes(region)) regions.push(region);
+  }
+
+  return {
+    states: states.slice(0, MAX_GEO_STATES),
+    countries,
+    regions,
+    dateline: dateline?.place ?? null,
+  };
+}
+
+/**
+ * Flatten geography to filter keys: states, then countries, then regions.
+ */
+export function geoKeysFor(geo: ArticleGeo): string[] {
+  return [
+    ...geo.states.map((s) => `state:${s}`),
+    ...geo.countries.map((c) => `country:${c}`),
+    ...geo.regions.map((r) => `region:${r}`),
+  ];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/** Whether a value is a US state/DC/PR code we tag, e.g. "FL" */
+export function isStateCode(code: unknown): code is string {
+  return typeof code === "string" && STATE_CODES.has(code);
+}
+
+/**
+ * Whether a key can appear in `geoKeys`: "state:FL", "country:GB",
+ * "region:europe".
+ */
+export function isGeoKey(key: unknown): key is string {
+  if (typeof key !== "string") return false;
+  const [kind, value] = key.split(":");
+  switch (kind) {
+    case "state":
+      return STATE_CODES.has(value);
+    case "country":
+      return value in COUNTRY_REGIONS;
+    case "region":
+      return (GEO_REGIONS as readonly string[]).includes(value);
+    default:
+      return false;
+  }
+}
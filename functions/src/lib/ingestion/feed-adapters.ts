@@ -0,0 +1,114 @@
+/**
+ * Feed Adapters
+ *
+ * A FeedAdapter turns a fetched response body into RssItems. The adapter
+ * for each feed URL is chosen in the Source document (`feedAdapters`);
+ * feeds without an entry use the RSS/Atom adapter.
+ *
+ * Fetching, conditional GET and caching are shared by all adapters
+ * (see fetchFeed in rss-fetcher.ts).
+ */
+
+import Parser from "rss-parser";
+import type { Source, FeedAdapterConfig, FeedAdapterType } from "../../types/firestore.js";
+import type { RssItem } from "./rss-fetcher.js";
+import { parseJsonFeed, parseNewsSitemap, parseHtmlListing } from "./feed-formats.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FeedParseContext {
+  feedUrl: string;
+  config: FeedAdapterConfig;
+  fetchedAt: Date;
+}
+
+export interface FeedAdapter {
+  type: FeedAdapterType;
+  /** Accept header sent with the request */
+  accept: string;
+  parse(body: string, context: FeedParseContext): Promise<RssItem[]>;
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+const rssParser = new Parser({
+  customFields: {
+    item: [
+      ["media:content", "media:content"],
+      ["media:thumbnail", "media:thumbnail"],
+    ],
+  },
+});
+
+const rssAdapter: FeedAdapter = {
+  type: "rss",
+  accept: "application/rss+xml, application/atom+xml, application/xml, text/xml",
+  async parse(body) {
+    const feed = await rssParser.parseString(body);
+    return feed.items as RssItem[];
+  },
+};
+
+const jsonFeedAdapter: FeedAdapter = {
+  type: "jsonfeed",
+  accept: "application/feed+json, application/json",
+  async parse(body, { feedUrl }) {
+    return parseJsonFeed(body, feedUrl);
+  },
+};
+
+const sitemapAdapter: FeedAdapter = {
+  type: "sitemap",
+  accept: "application/xml, text/xml",
+  async parse(body, { feedUrl }) {
+    return parseNewsSitemap(body, feedUrl);
+  },
+};
+
+const htmlAdapter: FeedAdapter = {
+  type: "html",
+  accept: "text/html, application/xhtml+xml",
+  async parse(body, { feedUrl, config, fetchedAt }) {
+    if (!config.html?.item) {
+      throw new Error("HTML adapter requires html.item selector rules");
+    }
+    return parseHtmlListing(body, feedUrl, config.html, fetchedAt);
+  },
+};
+
+const FEED_ADAPTERS: Record<FeedAdapterType, FeedAdapter> = {
+  rss: rssAdapter,
+  jsonfeed: jsonFeedAdapter,
+  sitemap: sitemapAdapter,
+  html: htmlAdapter,
+};
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Get the adapter for a type. Unknown types (e.g. a typo in the Source
+ * document) throw so the feed is reported as failing.
+ */
+export function getFeedAdapter(type: FeedAdapterType): FeedAdapter {
+  const adapter = FEED_ADAPTERS[type];
+  if (!adapter) {
+    throw new Error(`Unknown feed adapter "${type}"`);
+  }
+  return adapter;
+}
+
+/**
+ * Adapter config for one of a source's feed URLs (RSS/Atom by default).
+ */
+export function resolveFeedAdapterConfig(
+  source: Pick<Source, "feedAdapters">,
+  feedUrl: string
+): FeedAdapterConfig {
+  return source.feedAdapters?.find((f) => f.url === feedUrl) ?? { url: feedUrl, type: "rss" };
+}
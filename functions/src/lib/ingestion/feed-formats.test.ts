@@ -0,0 +1,188 @@
+/**
+ * Unit tests for JSON Feed, news sitemap and HTML listing parsers
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/feed-formats.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  resolveUrl,
+  parseJsonFeed,
+  parseNewsSitemap,
+  parseHtmlListing,
+} from "./feed-formats.js";
+import { extractImageUrl } from "./rss-fetcher.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const FETCHED_AT = new Date(Date.UTC(2026, 1, 10, 12, 0, 0));
+
+// ============================================================================
+// resolveUrl
+// ============================================================================
+
+describe("resolveUrl", () => {
+  it("resolves relative links against the page", () => {
+    assert.equal(resolveUrl("/news/1", "https://doi.example.gov/bulletins/"), "https://doi.example.gov/news/1");
+    assert.equal(resolveUrl("2.html", "https://doi.example.gov/bulletins/"), "https://doi.example.gov/bulletins/2.html");
+  });
+
+  it("rejects non-http links and fragments", () => {
+    assert.equal(resolveUrl("mailto:a@b.com", "https://x.com"), null);
+    assert.equal(resolveUrl("#top", "https://x.com"), null);
+    assert.equal(resolveUrl("", "https://x.com"), null);
+  });
+});
+
+// ============================================================================
+// parseJsonFeed
+// ============================================================================
+
+describe("parseJsonFeed", () => {
+  const body = JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: "Carrier Newsroom",
+    items: [
+      {
+        id: "42",
+        url: "https://carrier.example.com/news/42",
+        title: "Carrier reports Q3 results",
+        summary: "Combined ratio improved.",
+        content_html: "<p>Combined ratio improved.</p>",
+        date_published: "2026-02-09T14:00:00-05:00",
+        image: "https://carrier.example.com/img/42.jpg",
+        authors: [{ name: "Press Office" }],
+        tags: ["earnings"],
+      },
+      { id: "no-url", title: "Dropped" },
+    ],
+  });
+
+  it("maps items to RssItem fields", () => {
+    const [item, ...rest] = parseJsonFeed(body, "https://carrier.example.com/feed.json");
+    assert.equal(rest.length, 0);
+    assert.equal(item.title, "Carrier reports Q3 results");
+    assert.equal(item.link, "https://carrier.example.com/news/42");
+    assert.equal(item.guid, "42");
+    assert.equal(item.isoDate, "2026-02-09T19:00:00.000Z");
+    assert.equal(item.contentSnippet, "Combined ratio improved.");
+    assert.equal(item.creator, "Press Office");
+    assert.deepEqual(item.categories, ["earnings"]);
+    assert.equal(extractImageUrl(item), "https://carrier.example.com/img/42.jpg");
+  });
+
+  it("rejects documents without items", () => {
+    assert.throws(() => parseJsonFeed("{\"version\":\"1\"}", "https://x.com"), /JSON Feed/);
+    assert.throws(() => parseJsonFeed("<rss/>", "https://x.com"));
+  });
+});
+
+// ============================================================================
+// parseNewsSitemap
+// ============================================================================
+
+describe("parseNewsSitemap", () => {
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+    <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+            xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+            xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+      <url>
+        <loc>https://news.example.com/a?x=1&amp;y=2</loc>
+        <news:news>
+          <news:publication><news:name>Example</news:name><news:language>en</news:language></news:publication>
+          <news:publication_date>2026-02-09T10:00:00Z</news:publication_date>
+          <news:title><![CDATA[Insurer exits Florida & Louisiana]]></news:title>
+          <news:keywords>homeowners, Florida</news:keywords>
+        </news:news>
+        <image:image><image:loc>https://news.example.com/a.jpg</image:loc></image:image>
+      </url>
+      <url><loc>https://news.example.com/b</loc><lastmod>2026-02-08</lastmod></url>
+    </urlset>`;
+
+  it("extracts news title, date, keywords and image", () => {
+    const [a, b] = parseNewsSitemap(body, "https://news.example.com/news-sitemap.xml");
+    assert.equal(a.link, "https://news.example.com/a?x=1&y=2");
+    assert.equal(a.title, "Insurer exits Florida & Louisiana");
+    assert.equal(a.isoDate, "2026-02-09T10:00:00.000Z");
+    assert.deepEqual(a.categories, ["homeowners", "Florida"]);
+    assert.equal(extractImageUrl(a), "https://news.example.com/a.jpg");
+
+    // Plain sitemap entries have no headline
+    assert.equal(b.title, "");
+    assert.equal(b.isoDate, "2026-02-08T00:00:00.000Z");
+  });
+
+  it("rejects sitemap indexes and non-sitemaps", () => {
+    assert.throws(() => parseNewsSitemap("<sitemapindex></sitemapindex>", "https://x.com"), /index/);
+    assert.throws(() => parseNewsSitemap("<html></html>", "https://x.com"), /not recognized/);
+  });
+});
+
+// ============================================================================
+// parseHtmlListing
+// ============================================================================
+
+describe("parseHtmlListing", () => {
+  const page = `
+    <html><head><title>Bulletins</title></head><body>
+      <nav><a href="/home">Home</a></nav>
+      <ul class="bulletins">
+        <li>
+          <a href="/bulletins/2026-03.pdf">Bulletin 2026-03: Homeowners rate filings</a>
+          <span class="date">February 9, 2026</span>
+          <p class="desc">Guidance on &quot;use and file&quot; submissions.</p>
+          <img data-src="/img/b3.png">
+        </li>
+        <li>
+          <a href="/bulletins/2026-02.pdf">Bulletin 2026-02: Catastrophe reporting</a>
+          <time datetime="2026-01-20T09:00:00-05:00">Jan 20</time>
+        </li>
+        <li><a href="/bulletins/2026-01.pdf">Bulletin 2026-01: Undated</a></li>
+        <li><a href="/bulletins/2026-03.pdf">Duplicate link</a></li>
+      </ul>
+    </body></html>`;
+
+  it("extracts items with default link, title and time selectors", () => {
+    const items = parseHtmlListing(page, "https://doi.example.gov/bulletins", { item: "ul.bulletins > li" }, FETCHED_AT);
+    assert.equal(items.length, 3);
+    assert.equal(items[1].link, "https://doi.example.gov/bulletins/2026-02.pdf");
+    assert.equal(items[1].title, "Bulletin 2026-02: Catastrophe reporting");
+    assert.equal(items[1].isoDate, "2026-01-20T14:00:00.000Z");
+    assert.equal(items[2].isoDate, undefined);
+  });
+
+  it("applies custom field selectors", () => {
+    const [first] = parseHtmlListing(
+      page,
+      "https://doi.example.gov/bulletins",
+      { item: "ul.bulletins > li", date: ".date", summary: ".desc", image: "img" },
+      FETCHED_AT
+    );
+    assert.ok(first.isoDate?.startsWith("2026-02-09"));
+    assert.equal(first.contentSnippet, "Guidance on \"use and file\" submissions.");
+    assert.equal(extractImageUrl(first), "https://doi.example.gov/img/b3.png");
+  });
+
+  it("uses the fetch time for undated items when configured", () => {
+    const items = parseHtmlListing(
+      page,
+      "https://doi.example.gov/bulletins",
+      { item: "ul.bulletins > li", useFetchTimeWhenUndated: true },
+      FETCHED_AT
+    );
+    assert.equal(items[2].isoDate, FETCHED_AT.toISOString());
+  });
+
+  it("honours <base href> when resolving links", () => {
+    const items = parseHtmlListing(
+      "<base href=\"https://cdn.example.com/news/\"><div class=\"i\"><a href=\"x\">X</a></div>",
+      "https://example.com/listing",
+      { item: ".i" },
+      FETCHED_AT
+    );
+    assert.equal(items[0].link, "https://cdn.example.com/news/x");
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Non-RSS Feed Format Parsers
+ *
+ * Converts JSON Feed documents, Google News sitemaps and scraped HTML
+ * listing pages into the same RssItem shape rss-parser produces, so
+ * ingestSource() handles every adapter identically.
+ */
+
+import type { HtmlListingRules } from "../../types/firestore.js";
+import type { RssItem } from "./rss-fetcher.js";
+import {
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  decodeEntities,
+  type HtmlElement,
+} from "./html-dom.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve a possibly relative URL against the page it appeared on.
+ * Returns null for non-http(s) links (mailto:, javascript:, fragments).
+ */
+export function resolveUrl(href: string | undefined | null, baseUrl: string): string | null {
+  if (!href) return null;
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith("#")) return null;
+
+  try {
+    const url = new URL(trimmed, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a date string to ISO 8601, or null if unparseable.
+ */
+function toIsoDate(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ============================================================================
+// JSON Feed (https://jsonfeed.org, versions 1.0 and 1.1)
+// ============================================================================
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  tags?: string[];
+}
+
+/**
+ * Parse a JSON Feed document.
+ * Items without a URL are dropped; title-less items are kept and skipped
+ * downstream like any other incomplete RSS item.
+ */
+export function parseJsonFeed(body: string, feedUrl: string): RssItem[] {
+  const feed = JSON.parse(body) as { version?: string; items?: JsonFeedItem[] };
+
+  if (!feed || typeof feed !== "object" || !Array.isArray(feed.items)) {
+    throw new Error("Feed not recognized as JSON Feed (missing items array)");
+  }
+
+  const items: RssItem[] = [];
+  for (const entry of feed.items) {
+    const link = resolveUrl(entry.url ?? entry.external_url, feedUrl);
+    if (!link) continue;
+
+    const image = entry.image ?? entry.banner_image;
+    const creator = entry.authors?.[0]?.name ?? entry.author?.name;
+
+    items.push({
+      title: entry.title?.trim() ?? "",
+      link,
+      guid: entry.id !== undefined ? String(entry.id) : undefined,
+      isoDate: toIsoDate(entry.date_published ?? entry.date_modified) ?? undefined,
+      contentSnippet: entry.summary ?? entry.content_text,
+      content: entry.content_html,
+      creator,
+      categories: Array.isArray(entry.tags) ? entry.tags : undefined,
+      ...(image ? { "media:content": { $: { url: image } } } : {}),
+    });
+  }
+
+  return items;
+}
+
+// ============================================================================
+// News Sitemap (https://www.google.com/schemas/sitemap-news/0.9)
+// ============================================================================
+
+/**
+ * Text of the first <tag> child (namespace prefix included in `tag`),
+ * with CDATA unwrapped and entities decoded.
+ */
+function xmlChildText(xml: string, tag: string): string | null {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, "i"));
+  if (!match) return null;
+
+  const raw = match[1].trim();
+  const cdata = raw.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+  return decodeEntities(cdata ? cdata[1] : raw).trim();
+}
+
+/**
+ * Parse a news sitemap. Plain sitemaps are accepted too, but their
+ * entries carry no headline and are skipped at ingest unless the
+ * <news:title> extension is present.
+ */
+export function parseNewsSitemap(body: string, feedUrl: string): RssItem[] {
+  if (/<sitemapindex[\s>]/i.test(body)) {
+    throw new Error("Sitemap index not supported; configure a child news sitemap URL");
+  }
+  if (!/<urlset[\s>]/i.test(body)) {
+    throw new Error("Feed not recognized as sitemap (missing urlset)");
+  }
+
+  const items: RssItem[] = [];
+  for (const match of body.matchAll(/<url>([\s\S]*?)<\/url>/gi)) {
+    const entry = match[1];
+    const link = resolveUrl(xmlChildText(entry, "loc"), feedUrl);
+    if (!link) continue;
+
+    const date =
+      xmlChildText(entry, "news:publication_date") ?? xmlChildText(entry, "lastmod");
+    const keywords = xmlChildText(entry, "news:keywords");
+    const imageBlock = entry.match(/<image:image>([\s\S]*?)<\/image:image>/i);
+    const image = imageBlock ? xmlChildText(imageBlock[1], "image:loc") : null;
+
+    items.push({
+      title: xmlChildText(entry, "news:title") ?? "",
+      link,
+      guid: link,
+      isoDate: toIsoDate(date) ?? undefined,
+      categories: keywords
+        ? keywords.split(",").map((k) => k.trim()).filter(Boolean)
+        : undefined,
+      ...(image ? { "media:content": { $: { url: image } } } : {}),
+    });
+  }
+
+  return items;
+}
+
+// ============================================================================
+// HTML Listing Pages
+// ============================================================================
+
+/**
+ * Read a date from an element: datetime/content attributes first
+ * (<time datetime>, <meta content>), then its text.
+ */
+function elementDate(element: HtmlElement): string | null {
+  return (
+    toIsoDate(element.attrs.datetime) ??
+    toIsoDate(element.attrs.content) ??
+    toIsoDate(textContent(element))
+  );
+}
+
+/**
+ * Scrape a listing page using CSS-selector rules.
+ *
+ * @param fetchedAt - Used as the publication date for undated items
+ *   when rules.useFetchTimeWhenUndated is set
+ */
+export function parseHtmlListing(
+  body: string,
+  pageUrl: string,
+  rules: HtmlListingRules,
+  fetchedAt: Date
+): RssItem[] {
+  const document = parseHtml(body);
+  const baseHref = querySelector(document, "base[href]")?.attrs.href;
+  const baseUrl = resolveUrl(baseHref, pageUrl) ?? pageUrl;
+
+  const items: RssItem[] = [];
+  const seenLinks = new Set<string>();
+
+  for (const element of querySelectorAll(document, rules.item)) {
+    const linkElement = rules.link
+      ? querySelector(element, rules.link)
+      : element.tag === "a" && element.attrs.href
+        ? element
+        : querySelector(element, "a[href]");
+    const link = resolveUrl(linkElement?.attrs.href, baseUrl);
+    if (!link || seenLinks.has(link)) continue;
+    seenLinks.add(link);
+
+    const titleElement = rules.title ? querySelector(element, rules.title) : linkElement;
+    const title = titleElement ? textContent(titleElement) : "";
+
+    const dateElement = querySelector(element, rules.date ?? "time");
+    let isoDate = dateElement ? elementDate(dateElement) : null;
+    if (!isoDate && rules.useFetchTimeWhenUndated) {
+      isoDate = fetchedAt.toISOString();
+    }
+
+    const summaryElement = rules.summary ? querySelector(element, rules.summary) : null;
+    const imageElement = rules.image ? querySelector(element, rules.image) : null;
+    const image = resolveUrl(
+      imageElement?.attrs.src ?? imageElement?.attrs["data-src"],
+      baseUrl
+    );
+
+    items.push({
+      title,
+      link,
+      guid: link,
+      isoDate: isoDate ?? undefined,
+      contentSnippet: summaryElement ? textContent(summaryElement) : undefined,
+      ...(image ? { "media:content": { $: { url: image } } } : {}),
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,203 @@
+/**
+ * Ingestion Fixtures (Record / Replay)
+ *
+ * Snapshots what ingestion downloads (feed bodies, og:image pages) to a
+ * fixture directory so the pipeline can be re-run offline:
+ *
+ *   <dir>/manifest.json        sources + URL → response index
+ *   <dir>/responses/<hash>.*   raw bodies (feed XML/JSON, article HTML)
+ *   <dir>/golden.json          expected articles (written by the replay runner)
+ *
+ * The recording transport passes requests through to the network and keeps
+ * each body; the replay transport serves them back and answers 404 for
+ * anything that wasn't recorded, so replay never touches the network.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { Timestamp } from "firebase-admin/firestore";
+import type {
+  FeedAdapterConfig,
+  Source,
+  SourceCategory,
+  SourceTier,
+} from "../../types/firestore.js";
+import type { HttpFetch } from "./http-transport.js";
+import { sha256Hash } from "./url-utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** JSON-safe subset of a Source needed to replay its ingestion */
+export interface FixtureSource {
+  id: string;
+  name: string;
+  siteUrl: string;
+  rssUrl: string;
+  rssUrls?: string[];
+  tier: SourceTier;
+  tags: SourceCategory[];
+  region?: string;
+  feedAdapters?: FeedAdapterConfig[];
+  allowFullText?: boolean;
+}
+
+export interface FixtureResponse {
+  /** File under responses/ */
+  file: string;
+  status: number;
+  contentType: string | null;
+}
+
+export interface FixtureManifest {
+  version: 1;
+  /** ISO time of recording; replay pins the article age cutoff to it */
+  recordedAt: string;
+  sources: FixtureSource[];
+  /** Keyed by request URL */
+  responses: Record<string, FixtureResponse>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MANIFEST_FILE = "manifest.json";
+const RESPONSES_DIR = "responses";
+
+/** fetchOgImage only reads a page's <head>; keep those fixtures small */
+const MAX_RECORDED_OG_PAGE_BYTES = 65536;
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+export function toFixtureSource(source: Source): FixtureSource {
+  const fixture: FixtureSource = {
+    id: source.id,
+    name: source.name,
+    siteUrl: source.siteUrl,
+    rssUrl: source.rssUrl,
+    tier: source.tier,
+    tags: source.tags,
+  };
+  if (source.rssUrls?.length) fixture.rssUrls = source.rssUrls;
+  if (source.region) fixture.region = source.region;
+  if (source.feedAdapters?.length) fixture.feedAdapters = source.feedAdapters;
+  if (source.allowFullText) fixture.allowFullText = true;
+  return fixture;
+}
+
+/**
+ * Rebuild a Source for replay: enabled, no fetch history and no feed health,
+ * so every recorded feed is fetched in full.
+ */
+export function fromFixtureSource(fixture: FixtureSource): Source {
+  const now = Timestamp.now();
+  return {
+    ...fixture,
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+    fetchState: { etag: null, lastModified: null, lastFetchedAt: null, lastError: null },
+  };
+}
+
+export function readFixtureManifest(dir: string): FixtureManifest {
+  const path = join(dir, MANIFEST_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`No fixture manifest at ${path} (record one with npm run record-fixtures)`);
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as FixtureManifest;
+}
+
+function extensionFor(contentType: string | null): string {
+  if (!contentType) return "txt";
+  if (contentType.includes("json")) return "json";
+  if (contentType.includes("html")) return "html";
+  if (contentType.includes("xml") || contentType.includes("rss") || contentType.includes("atom")) return "xml";
+  return "txt";
+}
+
+/** Rebuild a Response (null-body statuses can't carry the recorded text) */
+function toResponse(body: string, status: number, contentType: string | null): Response {
+  const nullBody = status === 204 || status === 205 || status === 304;
+  return new Response(nullBody ? null : body, {
+    status,
+    headers: contentType ? { "content-type": contentType } : undefined,
+  });
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * Transport that fetches from the network and records every response.
+ * Call `save()` once recording is done to write the manifest.
+ */
+export function createRecordingTransport(
+  dir: string,
+  sources: Source[]
+): { fetch: HttpFetch; save: () => FixtureManifest } {
+  mkdirSync(join(dir, RESPONSES_DIR), { recursive: true });
+  const responses: Record<string, FixtureResponse> = {};
+
+  const recordingFetch: HttpFetch = async (url, init) => {
+    // Always record full bodies: never send conditional headers
+    const headers = new Headers(init?.headers);
+    headers.delete("If-None-Match");
+    headers.delete("If-Modified-Since");
+    const response = await fetch(url, { ...init, headers });
+
+    const contentType = response.headers.get("content-type");
+    let body = await response.text();
+    // og:image fetches are the only requests with a bare "text/html" Accept
+    if (headers.get("Accept") === "text/html" && body.length > MAX_RECORDED_OG_PAGE_BYTES) {
+      body = body.slice(0, MAX_RECORDED_OG_PAGE_BYTES);
+    }
+
+    const file = `${sha256Hash(url).slice(0, 16)}.${extensionFor(contentType)}`;
+    writeFileSync(join(dir, RESPONSES_DIR, file), body);
+    responses[url] = { file, status: response.status, contentType };
+
+    return toResponse(body, response.status, contentType);
+  };
+
+  const save = (): FixtureManifest => {
+    const manifest: FixtureManifest = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      sources: sources.map(toFixtureSource),
+      responses,
+    };
+    writeFileSync(join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n");
+    return manifest;
+  };
+
+  return { fetch: recordingFetch, save };
+}
+
+/**
+ * Transport that serves recorded responses and 404s everything else.
+ * `misses` lists URLs requested but not in the fixture.
+ */
+export function createReplayTransport(
+  dir: string,
+  manifest: FixtureManifest = readFixtureManifest(dir)
+): { fetch: HttpFetch; misses: string[] } {
+  const misses: string[] = [];
+
+  const replayFetch: HttpFetch = async (url) => {
+    const recorded = manifest.responses[url];
+    if (!recorded) {
+      misses.push(url);
+      return new Response("Not recorded", { status: 404, statusText: "Not Recorded" });
+    }
+    const body = readFileSync(join(dir, RESPONSES_DIR, recorded.file), "utf8");
+    return toResponse(body, recorded.status, recorded.contentType);
+  };
+
+  return { fetch: replayFetch, misses };
+}
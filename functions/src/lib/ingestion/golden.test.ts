@@ -0,0 +1,94 @@
+/**
+ * Unit tests for ingestion replay golden diffs
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/golden.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  diffGolden,
+  formatGoldenDiff,
+  isEmptyGoldenDiff,
+  type GoldenArticle,
+} from "./golden.js";
+
+function golden(id: string, overrides: Partial<GoldenArticle> = {}): GoldenArticle {
+  return {
+    id,
+    sourceId: "insurance-journal",
+    title: `Article ${id}`,
+    url: `https://example.com/news/${id}`,
+    canonicalUrl: `https://example.com/news/${id}`,
+    publishedAt: "2026-10-10T12:00:00.000Z",
+    isRelevant: true,
+    relevanceScore: 0.6,
+    relevanceModel: "heuristic-v1",
+    categories: ["property_cat"],
+    imageUrl: null,
+    entityKeys: [],
+    geoKeys: ["us-fl"],
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// diffGolden
+// ============================================================================
+
+describe("diffGolden", () => {
+  it("reports an empty diff for identical output", () => {
+    const articles = [golden("a"), golden("b")];
+    const diff = diffGolden(articles, [...articles].reverse());
+    assert.ok(isEmptyGoldenDiff(diff));
+    assert.equal(diff.unchanged, 2);
+  });
+
+  it("separates relevance flips from other field changes", () => {
+    const diff = diffGolden(
+      [golden("a"), golden("b")],
+      [
+        golden("a", { isRelevant: false, relevanceScore: 0.2 }),
+        golden("b", { categories: ["property_cat", "regulation"] }),
+      ]
+    );
+    assert.deepEqual(diff.changed.map((c) => c.fields), [
+      ["isRelevant", "relevanceScore"],
+      ["categories"],
+    ]);
+    assert.deepEqual(diff.relevanceFlips.map((c) => c.id), ["a"]);
+    assert.equal(diff.unchanged, 0);
+  });
+
+  it("treats a new ID for the same URL as a re-key", () => {
+    const diff = diffGolden(
+      [golden("a"), golden("old")],
+      [golden("a"), golden("new", { url: "https://example.com/news/old" }), golden("c")]
+    );
+    assert.deepEqual(diff.reKeyed, [
+      { url: "https://example.com/news/old", expectedId: "old", actualId: "new" },
+    ]);
+    assert.deepEqual(diff.added.map((a) => a.id), ["c"]);
+    assert.deepEqual(diff.removed, []);
+  });
+});
+
+// ============================================================================
+// formatGoldenDiff
+// ============================================================================
+
+describe("formatGoldenDiff", () => {
+  it("lists relevance flips first", () => {
+    const report = formatGoldenDiff(
+      diffGolden(
+        [golden("a"), golden("b")],
+        [golden("a", { isRelevant: false, relevanceScore: 0.2 })]
+      )
+    );
+    const lines = report.split("\n");
+    assert.equal(lines[0], "Relevance flips (1):");
+    assert.match(lines[1], /now irrelevant {2}0\.6 → 0\.2/);
+    assert.ok(report.includes("Removed (1):\n  - [insurance-journal] Article b"));
+    assert.ok(report.endsWith("Unchanged: 0"));
+  });
+});
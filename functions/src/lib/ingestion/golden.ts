@@ -0,0 +1,224 @@
+/**
+ * Golden Output for Ingestion Replay
+ *
+ * A replay of recorded fixtures produces a list of articles; the golden
+ * file is the list a previous replay produced. Diffing the two shows what a
+ * change to relevance scoring, URL normalization or parsing actually did:
+ * which articles appeared or disappeared, which were re-keyed (same URL, new
+ * ID), and which flipped relevance or changed fields.
+ */
+
+import type { Article } from "../../types/firestore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The parts of an article replay output is compared on */
+export interface GoldenArticle {
+  id: string;
+  sourceId: string;
+  title: string;
+  url: string;
+  canonicalUrl: string;
+  /** ISO string */
+  publishedAt: string;
+  isRelevant: boolean;
+  /** Rounded to 3 decimals so float noise doesn't show as a change */
+  relevanceScore: number;
+  relevanceModel: string | null;
+  categories: string[];
+  imageUrl: string | null;
+  entityKeys: string[];
+  geoKeys: string[];
+}
+
+export interface GoldenChange {
+  id: string;
+  title: string;
+  /** Fields whose values differ, in GoldenArticle order */
+  fields: (keyof GoldenArticle)[];
+  expected: GoldenArticle;
+  actual: GoldenArticle;
+}
+
+export interface GoldenDiff {
+  /** In actual output only */
+  added: GoldenArticle[];
+  /** In golden output only */
+  removed: GoldenArticle[];
+  /** Same URL under a different article ID */
+  reKeyed: { url: string; expectedId: string; actualId: string }[];
+  /** Same ID, different fields (includes relevance flips) */
+  changed: GoldenChange[];
+  /** Subset of `changed` where isRelevant flipped */
+  relevanceFlips: GoldenChange[];
+  unchanged: number;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+const COMPARED_FIELDS: (keyof GoldenArticle)[] = [
+  "sourceId",
+  "title",
+  "url",
+  "canonicalUrl",
+  "publishedAt",
+  "isRelevant",
+  "relevanceScore",
+  "relevanceModel",
+  "categories",
+  "imageUrl",
+  "entityKeys",
+  "geoKeys",
+];
+
+export function toGoldenArticle(article: Article): GoldenArticle {
+  return {
+    id: article.id,
+    sourceId: article.sourceId,
+    title: article.title,
+    url: article.url,
+    canonicalUrl: article.canonicalUrl,
+    publishedAt: article.publishedAt.toDate().toISOString(),
+    isRelevant: article.isRelevant,
+    relevanceScore: Math.round(article.relevanceScore * 1000) / 1000,
+    relevanceModel: article.relevanceModel ?? null,
+    categories: [...article.categories].sort(),
+    imageUrl: article.imageUrl,
+    entityKeys: [...(article.entityKeys ?? [])].sort(),
+    geoKeys: [...(article.geoKeys ?? [])].sort(),
+  };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare golden (expected) and replayed (actual) articles by ID.
+ * Lists are sorted by ID so diffs are stable across runs.
+ */
+export function diffGolden(expected: GoldenArticle[], actual: GoldenArticle[]): GoldenDiff {
+  const expectedById = new Map(expected.map((a) => [a.id, a]));
+  const actualById = new Map(actual.map((a) => [a.id, a]));
+
+  let added = actual.filter((a) => !expectedById.has(a.id));
+  let removed = expected.filter((a) => !actualById.has(a.id));
+
+  // An article that only changed ID (same URL) is a re-key, not add + remove
+  const removedByUrl = new Map(removed.map((a) => [a.url, a]));
+  const reKeyed: GoldenDiff["reKeyed"] = [];
+  for (const article of added) {
+    const previous = removedByUrl.get(article.url);
+    if (previous) {
+      reKeyed.push({ url: article.url, expectedId: previous.id, actualId: article.id });
+      removedByUrl.delete(article.url);
+    }
+  }
+  const reKeyedIds = new Set(reKeyed.flatMap((r) => [r.expectedId, r.actualId]));
+  added = added.filter((a) => !reKeyedIds.has(a.id));
+  removed = removed.filter((a) => !reKeyedIds.has(a.id));
+
+  const changed: GoldenChange[] = [];
+  let unchanged = 0;
+  for (const exp of expected) {
+    const act = actualById.get(exp.id);
+    if (!act) continue;
+    const fields = COMPARED_FIELDS.filter((field) => !sameValue(exp[field], act[field]));
+    if (fields.length === 0) {
+      unchanged++;
+    } else {
+      changed.push({ id: exp.id, title: act.title, fields, expected: exp, actual: act });
+    }
+  }
+
+  const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+  added.sort(byId);
+  removed.sort(byId);
+  changed.sort(byId);
+  reKeyed.sort((a, b) => a.url.localeCompare(b.url));
+
+  return {
+    added,
+    removed,
+    reKeyed,
+    changed,
+    relevanceFlips: changed.filter((c) => c.fields.includes("isRelevant")),
+    unchanged,
+  };
+}
+
+export function isEmptyGoldenDiff(diff: GoldenDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.reKeyed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? `[${value.join(", ")}]` : String(value);
+}
+
+/**
+ * Human-readable report, relevance flips first.
+ */
+export function formatGoldenDiff(diff: GoldenDiff): string {
+  const lines: string[] = [];
+
+  if (diff.relevanceFlips.length > 0) {
+    lines.push(`Relevance flips (${diff.relevanceFlips.length}):`);
+    for (const change of diff.relevanceFlips) {
+      const direction = change.actual.isRelevant ? "now relevant" : "now irrelevant";
+      lines.push(
+        `  ${direction}  ${change.expected.relevanceScore} → ${change.actual.relevanceScore}  ` +
+          `[${change.actual.sourceId}] ${change.title}`
+      );
+    }
+  }
+
+  const otherChanges = diff.changed.filter((c) => !c.fields.includes("isRelevant"));
+  if (otherChanges.length > 0) {
+    lines.push(`Changed (${otherChanges.length}):`);
+    for (const change of otherChanges) {
+      lines.push(`  [${change.actual.sourceId}] ${change.title}`);
+      for (const field of change.fields) {
+        lines.push(
+          `    ${field}: ${formatValue(change.expected[field])} → ${formatValue(change.actual[field])}`
+        );
+      }
+    }
+  }
+
+  if (diff.reKeyed.length > 0) {
+    lines.push(`Re-keyed (${diff.reKeyed.length}):`);
+    for (const r of diff.reKeyed) {
+      lines.push(`  ${r.expectedId} → ${r.actualId}  ${r.url}`);
+    }
+  }
+
+  if (diff.added.length > 0) {
+    lines.push(`Added (${diff.added.length}):`);
+    for (const a of diff.added) {
+      lines.push(`  + [${a.sourceId}] ${a.title}${a.isRelevant ? "" : " (irrelevant)"}`);
+    }
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push(`Removed (${diff.removed.length}):`);
+    for (const a of diff.removed) {
+      lines.push(`  - [${a.sourceId}] ${a.title}${a.isRelevant ? "" : " (irrelevant)"}`);
+    }
+  }
+
+  lines.push(`Unchanged: ${diff.unchanged}`);
+  return lines.join("\n");
+}
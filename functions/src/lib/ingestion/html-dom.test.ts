@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the minimal HTML parser and CSS selector matching
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/html-dom.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeEntities,
+  parseHtml,
+  parseSelector,
+  querySelector,
+  querySelectorAll,
+  textContent,
+} from "./html-dom.js";
+
+// ============================================================================
+// decodeEntities
+// ============================================================================
+
+describe("decodeEntities", () => {
+  it("decodes named and numeric references", () => {
+    assert.equal(decodeEntities("A&amp;B &lt;x&gt; &#8217; &#x2014;"), "A&B <x> ’ —");
+  });
+
+  it("leaves unknown references untouched", () => {
+    assert.equal(decodeEntities("&bogus; &"), "&bogus; &");
+  });
+});
+
+// ============================================================================
+// parseHtml
+// ============================================================================
+
+describe("parseHtml", () => {
+  it("builds a tree with attributes and text", () => {
+    const doc = parseHtml("<div id=\"main\" class='a b' hidden><p>Hello <b>world</b></p></div>");
+    const div = querySelector(doc, "div");
+    assert.equal(div?.attrs.id, "main");
+    assert.equal(div?.attrs.class, "a b");
+    assert.equal(div?.attrs.hidden, "");
+    assert.equal(textContent(div!), "Hello world");
+  });
+
+  it("implicitly closes unclosed list items and paragraphs", () => {
+    const doc = parseHtml("<ul><li>One<li>Two<li>Three</ul><p>A<p>B");
+    assert.deepEqual(querySelectorAll(doc, "ul > li").map(textContent), ["One", "Two", "Three"]);
+    assert.equal(querySelectorAll(doc, "p").length, 2);
+  });
+
+  it("keeps nested lists inside their parent item", () => {
+    const doc = parseHtml("<ul><li>Parent<ul><li>Child</li></ul></li><li>Next</li></ul>");
+    assert.equal(querySelectorAll(doc, "ul > li").length, 3);
+    assert.equal(querySelectorAll(doc, "li li").length, 1);
+  });
+
+  it("ignores comments, scripts and stray end tags", () => {
+    const doc = parseHtml("<!-- <a href='x'> --><script>if (a < b) {}</script></span><a href=\"/y\">Y</a>");
+    const links = querySelectorAll(doc, "a");
+    assert.equal(links.length, 1);
+    assert.equal(links[0].attrs.href, "/y");
+  });
+
+  it("handles void and self-closing elements", () => {
+    const doc = parseHtml("<div><img src=\"a.jpg\"><br/><span>After</span></div>");
+    assert.equal(querySelector(doc, "div > span")?.tag, "span");
+  });
+
+  it("allows > inside quoted attribute values", () => {
+    const doc = parseHtml("<a title=\"a > b\" href=\"/z\">Z</a>");
+    assert.equal(querySelector(doc, "a")?.attrs.href, "/z");
+  });
+});
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+describe("querySelectorAll", () => {
+  const doc = parseHtml(`
+    <section id="news">
+      <article class="post featured"><h2><a href="/1" data-kind="press-release">One</a></h2></article>
+      <article class="post"><h2><a href="/2">Two</a></h2></article>
+    </section>
+    <aside><article class="post"><a href="/3">Three</a></article></aside>
+  `);
+
+  it("matches type, id, class and combinators", () => {
+    assert.equal(querySelectorAll(doc, "article.post").length, 3);
+    assert.equal(querySelectorAll(doc, "#news article").length, 2);
+    assert.equal(querySelectorAll(doc, "article.post.featured").length, 1);
+    assert.equal(querySelectorAll(doc, "article > a").length, 1);
+    assert.equal(querySelectorAll(doc, "section h2 a").length, 2);
+  });
+
+  it("matches attribute conditions", () => {
+    assert.equal(querySelectorAll(doc, "a[data-kind]").length, 1);
+    assert.equal(querySelectorAll(doc, "a[href='/2']").length, 1);
+    assert.equal(querySelectorAll(doc, "a[data-kind^=press]").length, 1);
+    assert.equal(querySelectorAll(doc, "a[href$=\"3\"]").length, 1);
+    assert.equal(querySelectorAll(doc, "a[data-kind*=release]").length, 1);
+  });
+
+  it("supports selector lists in document order", () => {
+    const links = querySelectorAll(doc, "aside a, #news a");
+    assert.deepEqual(links.map((a) => a.attrs.href), ["/1", "/2", "/3"]);
+  });
+
+  it("scopes matching to the given element", () => {
+    const first = querySelector(doc, "article")!;
+    assert.equal(querySelectorAll(first, "a").length, 1);
+    // "section" is an ancestor of the scope, so it must not match
+    assert.equal(querySelectorAll(first, "section a").length, 0);
+  });
+});
+
+describe("parseSelector", () => {
+  it("rejects unsupported syntax", () => {
+    assert.throws(() => parseSelector("li:nth-child(2)"), /Unsupported selector/);
+    assert.throws(() => parseSelector("> li"), /Unsupported selector/);
+    assert.throws(() => parseSelector("ul >"), /Unsupported selector/);
+  });
+});
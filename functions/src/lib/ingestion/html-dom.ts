@@ -0,0 +1,457 @@
+/**
+ * Minimal HTML Parser and CSS Selector Matching
+ *
+ * Just enough DOM to scrape publisher listing pages without a parser
+ * dependency. Tolerates unclosed tags and stray end tags the way browsers
+ * commonly do for list/paragraph/table markup.
+ *
+ * Supported selectors: type, *, #id, .class, [attr], [attr=v], [attr~=v],
+ * [attr^=v], [attr$=v], [attr*=v], descendant (" ") and child (">")
+ * combinators, and selector lists (",").
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+/** Elements whose content is raw text (never parsed as markup) */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "noscript"]);
+
+/** Opening one of these implicitly closes an open element of the mapped tags */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+  p: ["p"],
+};
+
+/** Elements that stop the implicit-close search (a nested list starts a new scope) */
+const SCOPE_ELEMENTS = new Set(["ul", "ol", "dl", "table", "tbody", "thead", "select", "div"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Decode named and numeric character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X"
+        ? parseInt(ref.slice(2), 16)
+        : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const TAG_PATTERN = /^<\/?([a-zA-Z][a-zA-Z0-9:-]*)/;
+const ATTR_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Find the end of a tag starting at `start` ("<"), respecting quoted
+ * attribute values that may contain ">".
+ */
+function findTagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < html.length; i++) {
+    const ch = html[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "\"" || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function createElement(tag: string, attrs: Record<string, string>, parent: HtmlElement | null): HtmlElement {
+  return { type: "element", tag, attrs, children: [], parent };
+}
+
+/**
+ * Parse an HTML document into a tree rooted at a synthetic "#document" element.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root = createElement("#document", {}, null);
+  let current = root;
+  let pos = 0;
+
+  const appendText = (raw: string) => {
+    if (raw) current.children.push({ type: "text", text: decodeEntities(raw) });
+  };
+
+  while (pos < html.length) {
+    const lt = html.indexOf("<", pos);
+    if (lt === -1) {
+      appendText(html.slice(pos));
+      break;
+    }
+    appendText(html.slice(pos, lt));
+
+    // Comments
+    if (html.startsWith("<!--", lt)) {
+      const end = html.indexOf("-->", lt + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    // Doctype, CDATA, processing instructions
+    if (html[lt + 1] === "!" || html[lt + 1] === "?") {
+      const end = html.indexOf(">", lt);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = html.slice(lt, lt + 64).match(TAG_PATTERN);
+    if (!tagMatch) {
+      // A literal "<" in text
+      appendText("<");
+      pos = lt + 1;
+      continue;
+    }
+
+    const end = findTagEnd(html, lt);
+    if (end === -1) {
+      appendText(html.slice(lt));
+      break;
+    }
+
+    const tag = tagMatch[1].toLowerCase();
+    const isEndTag = html[lt + 1] === "/";
+    pos = end + 1;
+
+    if (isEndTag) {
+      // Close the nearest open element with this tag; ignore stray end tags
+      for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+        if (el.tag === tag) {
+          current = el.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const attrSource = html.slice(lt + tagMatch[0].length, end);
+    const selfClosing = attrSource.trimEnd().endsWith("/");
+
+    // Implicitly close e.g. an open <li> when the next <li> starts
+    const closes = IMPLICIT_CLOSE[tag];
+    if (closes) {
+      for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+        if (closes.includes(el.tag)) {
+          current = el.parent ?? root;
+          break;
+        }
+        if (SCOPE_ELEMENTS.has(el.tag)) break;
+      }
+    }
+
+    const element = createElement(tag, parseAttributes(attrSource.replace(/\/\s*$/, "")), current);
+    current.children.push(element);
+
+    if (VOID_ELEMENTS.has(tag) || selfClosing) {
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closePattern = new RegExp(`</${tag}`, "gi");
+      closePattern.lastIndex = pos;
+      const closeIndex = closePattern.exec(html)?.index ?? -1;
+      const rawEnd = closeIndex === -1 ? html.length : closeIndex;
+      const raw = html.slice(pos, rawEnd);
+      if (raw) element.children.push({ type: "text", text: tag === "title" ? decodeEntities(raw) : raw });
+      const closeEnd = closeIndex === -1 ? -1 : html.indexOf(">", closeIndex);
+      pos = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    current = element;
+  }
+
+  return root;
+}
+
+// ============================================================================
+// Node Helpers
+// ============================================================================
+
+/**
+ * Concatenated text of an element, whitespace-collapsed.
+ * Script and style contents are excluded.
+ */
+export function textContent(node: HtmlNode): string {
+  const parts: string[] = [];
+  const walk = (n: HtmlNode) => {
+    if (n.type === "text") {
+      parts.push(n.text);
+    } else if (n.tag !== "script" && n.tag !== "style") {
+      n.children.forEach(walk);
+    }
+  };
+  walk(node);
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * All descendant elements in document order.
+ */
+function descendants(element: HtmlElement): HtmlElement[] {
+  const result: HtmlElement[] = [];
+  const walk = (el: HtmlElement) => {
+    for (const child of el.children) {
+      if (child.type === "element") {
+        result.push(child);
+        walk(child);
+      }
+    }
+  };
+  walk(element);
+  return result;
+}
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+type AttrOperator = "exists" | "=" | "~=" | "^=" | "$=" | "*=";
+
+interface AttrCondition {
+  name: string;
+  operator: AttrOperator;
+  value: string;
+}
+
+interface CompoundSelector {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+  attrs: AttrCondition[];
+}
+
+interface ComplexSelector {
+  /** Right-most compound is last */
+  compounds: CompoundSelector[];
+  /** combinators[i] joins compounds[i] and compounds[i + 1] */
+  combinators: Array<" " | ">">;
+}
+
+const IDENT = "[a-zA-Z_\\-][a-zA-Z0-9_\\-]*";
+const COMPOUND_TOKEN = new RegExp(
+  `^(?:(\\*|${IDENT})|#(${IDENT})|\\.(${IDENT})|\\[\\s*(${IDENT})\\s*(?:([~^$*]?=)\\s*(?:"([^"]*)"|'([^']*)'|([^\\]\\s]+))\\s*)?\\])`
+);
+
+const selectorCache = new Map<string, ComplexSelector[]>();
+
+function parseCompound(source: string, fullSelector: string): CompoundSelector {
+  const compound: CompoundSelector = { tag: null, id: null, classes: [], attrs: [] };
+  let rest = source;
+
+  while (rest.length > 0) {
+    const match = rest.match(COMPOUND_TOKEN);
+    if (!match) {
+      throw new Error(`Unsupported selector "${fullSelector}" near "${rest}"`);
+    }
+    if (match[1]) {
+      compound.tag = match[1] === "*" ? null : match[1].toLowerCase();
+    } else if (match[2]) {
+      compound.id = match[2];
+    } else if (match[3]) {
+      compound.classes.push(match[3]);
+    } else if (match[4]) {
+      compound.attrs.push({
+        name: match[4].toLowerCase(),
+        operator: (match[5] as AttrOperator | undefined) ?? "exists",
+        value: match[6] ?? match[7] ?? match[8] ?? "",
+      });
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return compound;
+}
+
+/**
+ * Parse a selector list. Throws on unsupported syntax so a bad scraping
+ * rule surfaces as a feed error instead of silently matching nothing.
+ */
+export function parseSelector(selector: string): ComplexSelector[] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const list = selector.split(",").map((part) => {
+    const tokens = part
+      .trim()
+      .replace(/\s*>\s*/g, " > ")
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const complex: ComplexSelector = { compounds: [], combinators: [] };
+    let pendingChild = false;
+
+    for (const token of tokens) {
+      if (token === ">") {
+        if (complex.compounds.length === 0 || pendingChild) {
+          throw new Error(`Unsupported selector "${selector}"`);
+        }
+        pendingChild = true;
+        continue;
+      }
+      if (complex.compounds.length > 0) {
+        complex.combinators.push(pendingChild ? ">" : " ");
+      }
+      complex.compounds.push(parseCompound(token, selector));
+      pendingChild = false;
+    }
+
+    if (complex.compounds.length === 0 || pendingChild) {
+      throw new Error(`Unsupported selector "${selector}"`);
+    }
+    return complex;
+  });
+
+  selectorCache.set(selector, list);
+  return list;
+}
+
+function matchesAttr(element: HtmlElement, condition: AttrCondition): boolean {
+  const actual = element.attrs[condition.name];
+  if (actual === undefined) return false;
+
+  switch (condition.operator) {
+    case "exists":
+      return true;
+    case "=":
+      return actual === condition.value;
+    case "~=":
+      return actual.split(/\s+/).includes(condition.value);
+    case "^=":
+      return condition.value !== "" && actual.startsWith(condition.value);
+    case "$=":
+      return condition.value !== "" && actual.endsWith(condition.value);
+    case "*=":
+      return condition.value !== "" && actual.includes(condition.value);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attrs.id !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = (element.attrs.class ?? "").split(/\s+/);
+    if (!compound.classes.every((c) => classes.includes(c))) return false;
+  }
+  return compound.attrs.every((a) => matchesAttr(element, a));
+}
+
+/**
+ * Match right-to-left, never walking above `scope`.
+ */
+function matchesComplex(
+  element: HtmlElement,
+  selector: ComplexSelector,
+  index: number,
+  scope: HtmlElement
+): boolean {
+  if (!matchesCompound(element, selector.compounds[index])) return false;
+  if (index === 0) return true;
+
+  const combinator = selector.combinators[index - 1];
+  let ancestor = element.parent;
+
+  if (combinator === ">") {
+    return !!ancestor && ancestor !== scope &&
+      matchesComplex(ancestor, selector, index - 1, scope);
+  }
+
+  while (ancestor && ancestor !== scope) {
+    if (matchesComplex(ancestor, selector, index - 1, scope)) return true;
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+/**
+ * All descendants of `scope` matching the selector, in document order.
+ * Ancestors of `scope` are never considered when matching.
+ */
+export function querySelectorAll(scope: HtmlElement, selector: string): HtmlElement[] {
+  const list = parseSelector(selector);
+  return descendants(scope).filter((el) =>
+    list.some((complex) => matchesComplex(el, complex, complex.compounds.length - 1, scope))
+  );
+}
+
+/**
+ * First descendant of `scope` matching the selector, or null.
+ */
+export function querySelector(scope: HtmlElement, selector: string): HtmlElement | null {
+  return querySelectorAll(scope, selector)[0] ?? null;
+}
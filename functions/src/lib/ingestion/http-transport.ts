@@ -0,0 +1,26 @@
+/**
+ * HTTP Transport for Ingestion Fetches
+ *
+ * Feed, og:image and full-text fetches go through `httpFetch` instead of
+ * the global `fetch`, so the record/replay harness (fixtures.ts) can swap
+ * in a transport that snapshots responses to disk or serves them back.
+ * Production never calls setHttpTransport and uses global fetch.
+ */
+
+export type HttpFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+let transport: HttpFetch | null = null;
+
+/**
+ * Fetch through the active transport (global fetch by default).
+ */
+export function httpFetch(url: string, init?: RequestInit): Promise<Response> {
+  return transport ? transport(url, init) : fetch(url, init);
+}
+
+/**
+ * Replace the transport for this process; null restores global fetch.
+ */
+export function setHttpTransport(next: HttpFetch | null): void {
+  transport = next;
+}
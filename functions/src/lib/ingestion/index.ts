@@ -5,13 +5,116 @@
 export {
   ingestAllEnabledSources,
   ingestSource,
+  prepareRssItem,
+  buildArticle,
+  MAX_ARTICLE_AGE_DAYS,
+  type PreparedRssItem,
   type IngestionResult,
   type IngestionSummary,
 } from "./ingest.js";
 
-export { calculateRelevance, classifyCategories } from "./relevance.js";
+export {
+  calculateRelevance,
+  classifyCategories,
+  HEURISTIC_RELEVANCE_MODEL,
+} from "./relevance.js";
+
+export {
+  QUARANTINE_THRESHOLD,
+  classifyFetchError,
+  getDefaultFeedHealth,
+  backoffDelayMinutes,
+  recordFeedSuccess,
+  recordFeedFailure,
+  releaseFeedHealth,
+  shouldSkipFeed,
+  isFeedUnhealthy,
+  type FeedSkipReason,
+  type FeedSkipDecision,
+} from "./source-health.js";
+
+export {
+  recordIngestionRun,
+  listIngestionRuns,
+  getIngestionRun,
+  getIngestionRunsSince,
+  MAX_TREND_RUNS,
+} from "./run-history.js";
+
+export {
+  MAX_ARTICLE_REVISIONS,
+  detectRevision,
+  isContentRevision,
+  type ArticleVersion,
+} from "./revisions.js";
+
+export {
+  httpFetch,
+  setHttpTransport,
+  type HttpFetch,
+} from "./http-transport.js";
+
+export {
+  toFixtureSource,
+  fromFixtureSource,
+  readFixtureManifest,
+  createRecordingTransport,
+  createReplayTransport,
+  type FixtureSource,
+  type FixtureResponse,
+  type FixtureManifest,
+} from "./fixtures.js";
 
-export { fetchRssFeed, extractImageUrl, fetchOgImage, type RssItem } from "./rss-fetcher.js";
+export {
+  toGoldenArticle,
+  diffGolden,
+  formatGoldenDiff,
+  isEmptyGoldenDiff,
+  type GoldenArticle,
+  type GoldenChange,
+  type GoldenDiff,
+} from "./golden.js";
+
+export {
+  replayIngestionInMemory,
+  type ReplaySourceResult,
+  type ReplayResult,
+} from "./replay.js";
+
+export {
+  toRunSourceResult,
+  toDateKeyET,
+  diffIngestionRuns,
+  computeSourceTrends,
+  type RunForAnalysis,
+  type SourceRunChange,
+  type SourceRunDiff,
+  type IngestionRunDiff,
+  type SourceTrendDay,
+  type SourceTrend,
+} from "./run-analysis.js";
+
+export {
+  fetchFeed,
+  fetchRssFeed,
+  extractImageUrl,
+  fetchOgImage,
+  type RssItem,
+} from "./rss-fetcher.js";
+
+export {
+  getFeedAdapter,
+  resolveFeedAdapterConfig,
+  type FeedAdapter,
+  type FeedParseContext,
+} from "./feed-adapters.js";
+
+export {
+  parseJsonFeed,
+  parseNewsSitemap,
+  parseHtmlListing,
+  resolveUrl,
+} from "./feed-formats.js";
 
 export {
   normalizeUrl,
@@ -6,16 +6,46 @@
 
 import { getFirestore, Timestamp, FieldValue } from "firebase-admin/firestore";
 import * as logger from "firebase-functions/logger";
-import type { Source, Article, SourceFetchState } from "../../types/firestore.js";
-import { fetchRssFeed, extractImageUrl, fetchOgImage, type RssItem } from "./rss-fetcher.js";
+import type {
+  Source,
+  Article,
+  ArticleRevision,
+  SourceFetchState,
+  SourceFeedHealth,
+  IngestionTrigger,
+} from "../../types/firestore.js";
+import { fetchFeed, extractImageUrl, fetchOgImage, type RssItem } from "./rss-fetcher.js";
+import { resolveFeedAdapterConfig } from "./feed-adapters.js";
 import {
   normalizeUrl,
   generateArticleId,
   truncateText,
   stripHtml,
 } from "./url-utils.js";
-import { calculateRelevance, classifyCategories } from "./relevance.js";
+import {
+  getDefaultFeedHealth,
+  recordFeedSuccess,
+  recordFeedFailure,
+  shouldSkipFeed,
+} from "./source-health.js";
+import { recordIngestionRun } from "./run-history.js";
+import {
+  detectRevision,
+  isContentRevision,
+  MAX_ARTICLE_REVISIONS,
+  type ArticleVersion,
+} from "./revisions.js";
 import { generateSearchTokens } from "../embeddings/index.js";
+import {
+  loadClusterIndex,
+  assignArticleToCluster,
+  type ClusterIndex,
+} from "../clustering/index.js";
+import { classifyArticle, type ArticleClassification } from "../classifier/index.js";
+import { extractEntities } from "../entities/index.js";
+import { inferGeography, geoKeysFor } from "../geo/index.js";
+import { captureFullText } from "../fulltext/index.js";
+import { indexArticle, reindexArticle } from "../search/index.js";
 
 // ============================================================================
 // Types
@@ -30,10 +60,18 @@ export interface IngestionResult {
   itemsIngested: number;
   itemsSkipped: number;
   itemsDuplicate: number;
+  /** Number of ingested items attached to a cross-source story cluster */
+  itemsClustered?: number;
+  /** Number of duplicate items recorded as publisher revisions */
+  itemsUpdated?: number;
   /** Duration in milliseconds for this source */
   durationMs?: number;
   /** Number of feeds processed (for multi-feed sources) */
   feedsProcessed?: number;
+  /** Feeds not fetched this run because of backoff or quarantine */
+  feedsSkipped?: number;
+  /** Whether every feed of the source was skipped (backoff/quarantine) */
+  skipped?: boolean;
   /** Whether results came from cache */
   cached?: boolean;
   error?: string;
@@ -47,6 +85,8 @@ export interface IngestionSummary {
   totalItemsFetched: number;
   totalItemsIngested: number;
   results: IngestionResult[];
+  /** ID of the ingestionRuns/{runId} record, or null if it could not be written */
+  runId?: string | null;
 }
 
 // ============================================================================
@@ -54,7 +94,7 @@ export interface IngestionSummary {
 // ============================================================================
 
 const SNIPPET_MAX_LENGTH = 200;
-const MAX_ARTICLE_AGE_DAYS = 30; // Don't ingest articles older than 30 days
+export const MAX_ARTICLE_AGE_DAYS = 30; // Don't ingest articles older than 30 days
 
 // ============================================================================
 // Main Ingestion Function
@@ -62,6 +102,8 @@ const MAX_ARTICLE_AGE_DAYS = 30; // Don't ingest articles older than 30 days
 
 /**
  * Ingest articles from all enabled sources.
+ * Feeds in backoff are skipped unless `forceRefresh` is set; quarantined
+ * feeds are always skipped.
  *
  * @param options - Ingestion options
  * @returns Summary of ingestion results
@@ -69,6 +111,10 @@ const MAX_ARTICLE_AGE_DAYS = 30; // Don't ingest articles older than 30 days
 export async function ingestAllEnabledSources(options?: {
   maxAgeDays?: number;
   forceRefresh?: boolean;
+  /** What started this run (stored in ingestionRuns) */
+  trigger?: IngestionTrigger;
+  /** Admin email or function name that started the run */
+  triggeredBy?: string | null;
 }): Promise<IngestionSummary> {
   const startedAt = new Date();
   const db = getFirestore();
@@ -92,14 +138,27 @@ export async function ingestAllEnabledSources(options?: {
 
   const results: IngestionResult[] = [];
 
+  // Shared across sources so cross-source matches are found within one run
+  const clusterIndex = await loadClusterIndexSafe();
+
   for (const source of sources) {
     const sourceStartTime = Date.now();
-    const result = await ingestSource(source, { maxAgeDays });
+    const result = await ingestSource(source, {
+      maxAgeDays,
+      clusterIndex,
+      ignoreBackoff: options?.forceRefresh ?? false,
+    });
     result.durationMs = Date.now() - sourceStartTime;
     results.push(result);
 
     // Log progress with structured data
-    if (result.success) {
+    if (result.skipped) {
+      logger.info("Source skipped (backoff/quarantine)", {
+        sourceId: source.id,
+        sourceName: source.name,
+        feedsSkipped: result.feedsSkipped,
+      });
+    } else if (result.success) {
       if (result.notModified) {
         logger.debug("Source not modified", {
           sourceId: source.id,
@@ -113,6 +172,8 @@ export async function ingestAllEnabledSources(options?: {
           itemsIngested: result.itemsIngested,
           itemsSkipped: result.itemsSkipped,
           itemsDuplicate: result.itemsDuplicate,
+          itemsClustered: result.itemsClustered,
+          itemsUpdated: result.itemsUpdated,
           feedsProcessed: result.feedsProcessed,
           cached: result.cached,
           durationMs: result.durationMs,
@@ -150,20 +211,44 @@ export async function ingestAllEnabledSources(options?: {
     failureCount: results.filter((r) => !r.success).length,
   });
 
+  summary.runId = await recordIngestionRun(summary, {
+    trigger: options?.trigger ?? "manual",
+    triggeredBy: options?.triggeredBy,
+    maxAgeDays,
+    forceRefresh: options?.forceRefresh ?? false,
+  });
+
   return summary;
 }
 
 /**
  * Ingest articles from a single source.
- * Supports multiple RSS URLs per source.
+ * Supports multiple feed URLs per source, each parsed by the adapter
+ * configured in `source.feedAdapters` (RSS/Atom when not listed).
+ *
+ * Pass a shared `clusterIndex` when ingesting several sources in a row;
+ * otherwise one is loaded for this source alone.
+ *
+ * Each feed's health record is updated after its fetch. Feeds in backoff
+ * are skipped unless `ignoreBackoff` is set; quarantined feeds always are.
+ *
+ * `cutoffDate` overrides the age cutoff derived from `maxAgeDays` (the
+ * replay harness pins it to the fixture's recording time).
  */
 export async function ingestSource(
   source: Source,
-  options?: { maxAgeDays?: number }
+  options?: {
+    maxAgeDays?: number;
+    cutoffDate?: Date;
+    clusterIndex?: ClusterIndex;
+    ignoreBackoff?: boolean;
+  }
 ): Promise<IngestionResult> {
   const maxAgeDays = options?.maxAgeDays ?? MAX_ARTICLE_AGE_DAYS;
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - maxAgeDays);
+  const cutoffDate = options?.cutoffDate ?? new Date();
+  if (!options?.cutoffDate) {
+    cutoffDate.setDate(cutoffDate.getDate() - maxAgeDays);
+  }
 
   const result: IngestionResult = {
     sourceId: source.id,
@@ -174,7 +259,10 @@ export async function ingestSource(
     itemsIngested: 0,
     itemsSkipped: 0,
     itemsDuplicate: 0,
+    itemsClustered: 0,
+    itemsUpdated: 0,
     feedsProcessed: 0,
+    feedsSkipped: 0,
     cached: false,
   };
 
@@ -186,8 +274,11 @@ export async function ingestSource(
   let anySuccess = false;
   let anyCached = false;
   const feedErrors: string[] = [];
+  let feedsAttempted = 0;
 
   try {
+    const clusterIndex = options?.clusterIndex ?? (await loadClusterIndexSafe());
+
     for (const rssUrl of rssUrls) {
       // Get the fetch state for this specific URL
       // Note: For multi-feed sources, fetchStates is keyed by urlToSafeKey(rssUrl), not the raw URL
@@ -196,8 +287,27 @@ export async function ingestSource(
         ? source.fetchStates?.[safeKey] ?? getDefaultFetchState()
         : source.fetchState;
 
-      // Fetch the RSS feed
-      const fetchResult = await fetchRssFeed(rssUrl, fetchState);
+      // Skip feeds in backoff or quarantine
+      const health = source.feedHealth?.[safeKey];
+      const skipDecision = shouldSkipFeed(health, Timestamp.now(), {
+        ignoreBackoff: options?.ignoreBackoff,
+      });
+      if (skipDecision.skip) {
+        result.feedsSkipped = (result.feedsSkipped ?? 0) + 1;
+        logger.debug("Feed skipped", {
+          sourceId: source.id,
+          rssUrl,
+          reason: skipDecision.reason,
+          consecutiveFailures: health?.consecutiveFailures,
+        });
+        continue;
+      }
+      feedsAttempted++;
+
+      // Fetch the feed with its configured adapter (RSS/Atom by default)
+      const fetchResult = await fetchFeed(rssUrl, fetchState, {
+        adapter: resolveFeedAdapterConfig(source, rssUrl),
+      });
 
       if (!fetchResult.success) {
         feedErrors.push(`${rssUrl}: ${fetchResult.error}`);
@@ -207,6 +317,21 @@ export async function ingestSource(
         } else {
           await updateSourceFetchState(source.id, fetchResult.newFetchState);
         }
+        const failedHealth = recordFeedFailure(
+          health ?? getDefaultFeedHealth(rssUrl),
+          fetchResult.error ?? "Unknown error",
+          Timestamp.now()
+        );
+        if (failedHealth.quarantined && !health?.quarantined) {
+          logger.warn("Feed quarantined", {
+            sourceId: source.id,
+            rssUrl,
+            consecutiveFailures: failedHealth.consecutiveFailures,
+            lastErrorClass: failedHealth.lastErrorClass,
+            lastError: failedHealth.lastError,
+          });
+        }
+        await updateFeedHealth(source.id, safeKey, failedHealth);
         continue;
       }
 
@@ -226,32 +351,50 @@ export async function ingestSource(
 
       // Process each item
       for (const item of fetchResult.items) {
-        const itemResult = await processRssItem(item, source, cutoffDate);
+        const itemResult = await processRssItem(item, source, cutoffDate, clusterIndex);
 
-        if (itemResult === "ingested") result.itemsIngested++;
+        if (itemResult === "ingested" || itemResult === "clustered") result.itemsIngested++;
         else if (itemResult === "skipped") result.itemsSkipped++;
-        else if (itemResult === "duplicate") result.itemsDuplicate++;
+        else if (itemResult === "duplicate" || itemResult === "updated") result.itemsDuplicate++;
+        if (itemResult === "clustered") result.itemsClustered = (result.itemsClustered ?? 0) + 1;
+        if (itemResult === "updated") result.itemsUpdated = (result.itemsUpdated ?? 0) + 1;
       }
 
-      // Update fetch state for this URL (skip for cached results)
+      // Update fetch state and health for this URL (skip for cached results)
       if (!fetchResult.cached) {
         if (isMultiFeed) {
           await updateSourceFetchStateForUrl(source.id, rssUrl, fetchResult.newFetchState);
         } else {
           await updateSourceFetchState(source.id, fetchResult.newFetchState);
         }
+        await updateFeedHealth(
+          source.id,
+          safeKey,
+          recordFeedSuccess(
+            health ?? getDefaultFeedHealth(rssUrl),
+            fetchResult.notModified ? null : fetchResult.items.length,
+            Timestamp.now()
+          )
+        );
       }
     }
 
+    // Every feed skipped: nothing was attempted, so this is not a failure
+    if (feedsAttempted === 0) {
+      result.success = true;
+      result.skipped = true;
+      return result;
+    }
+
     // Determine overall result
     result.success = anySuccess;
     result.notModified = allNotModified && anySuccess;
     result.cached = anyCached;
 
-    if (feedErrors.length > 0 && feedErrors.length < rssUrls.length) {
+    if (feedErrors.length > 0 && feedErrors.length < feedsAttempted) {
       // Partial failure
       result.error = `Partial failure: ${feedErrors.join("; ")}`;
-    } else if (feedErrors.length === rssUrls.length) {
+    } else if (feedErrors.length === feedsAttempted) {
       // Complete failure
       result.success = false;
       result.error = feedErrors.join("; ");
@@ -280,59 +423,87 @@ function getDefaultFetchState(): SourceFetchState {
 // Helper Functions
 // ============================================================================
 
-type ProcessResult = "ingested" | "skipped" | "duplicate";
-
 /**
- * Process a single RSS item and store if relevant.
+ * Load the story cluster index, falling back to an empty index so a
+ * clustering problem never blocks ingestion.
  */
-async function processRssItem(
-  item: RssItem,
-  source: Source,
-  cutoffDate: Date
-): Promise<ProcessResult> {
-  const db = getFirestore();
+async function loadClusterIndexSafe(): Promise<ClusterIndex> {
+  try {
+    return await loadClusterIndex();
+  } catch (error) {
+    logger.warn("Failed to load story cluster index", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { candidates: [] };
+  }
+}
 
+type ProcessResult = "ingested" | "clustered" | "skipped" | "duplicate" | "updated";
+
+/** Feed item fields ingestion keys and filters on */
+export interface PreparedRssItem {
+  articleId: string;
+  canonicalUrl: string;
+  title: string;
+  snippet: string;
+  pubDate: Date;
+}
+
+/**
+ * Validate a feed item and derive its ID and snippet. Returns null when the
+ * item is skipped (missing link/title/date, or older than the cutoff).
+ */
+export function prepareRssItem(item: RssItem, cutoffDate: Date): PreparedRssItem | null {
   // Skip items without required fields
   if (!item.link || !item.title) {
-    return "skipped";
+    return null;
   }
 
   // Parse publication date
   const pubDateStr = item.isoDate || item.pubDate;
   if (!pubDateStr) {
-    return "skipped";
+    return null;
   }
 
   const pubDate = new Date(pubDateStr);
   if (isNaN(pubDate.getTime())) {
-    return "skipped";
+    return null;
   }
 
   // Skip articles older than cutoff
   if (pubDate < cutoffDate) {
-    return "skipped";
-  }
-
-  // Generate article ID from canonical URL
-  const canonicalUrl = normalizeUrl(item.link);
-  const articleId = generateArticleId(item.link);
-
-  // Check if article already exists
-  const existingDoc = await db.collection("articles").doc(articleId).get();
-  if (existingDoc.exists) {
-    return "duplicate";
+    return null;
   }
 
   // Extract and clean snippet
   const rawSnippet =
     item.contentSnippet || item.summary || item.description || item.content || "";
-  const snippet = truncateText(stripHtml(rawSnippet), SNIPPET_MAX_LENGTH);
 
-  // Calculate relevance
-  const relevance = calculateRelevance(item.title, snippet, source.tags);
+  return {
+    // Generate article ID from canonical URL
+    articleId: generateArticleId(item.link),
+    canonicalUrl: normalizeUrl(item.link),
+    title: item.title.trim(),
+    snippet: truncateText(stripHtml(rawSnippet), SNIPPET_MAX_LENGTH),
+    pubDate,
+  };
+}
+
+/**
+ * Build the stored article for a new item: entities, geography and image
+ * (feed image, else the page's og:image).
+ */
+export async function buildArticle(
+  item: RssItem,
+  prepared: PreparedRssItem,
+  source: Source,
+  relevance: ArticleClassification
+): Promise<Omit<Article, "id">> {
+  const { title, snippet } = prepared;
 
-  // Classify into categories (uses keyword matching, falls back to source tags)
-  const categories = classifyCategories(item.title, snippet, source.tags);
+  // Tag companies, regulators, geography, perils and lines of business
+  const entities = extractEntities(`${item.title}\n${snippet}`);
+  const geo = inferGeography({ title: item.title, snippet, entities, sourceRegion: source.region });
 
   // Extract image URL from RSS feed first
   let imageUrl = extractImageUrl(item);
@@ -342,23 +513,67 @@ async function processRssItem(
     imageUrl = await fetchOgImage(item.link);
   }
 
-  // Build article document
-  const article: Omit<Article, "id"> = {
+  return {
     sourceId: source.id,
     sourceName: source.name,
-    title: item.title.trim(),
+    title,
     snippet,
     url: item.link,
-    canonicalUrl,
+    canonicalUrl: prepared.canonicalUrl,
     guid: item.guid || null,
     imageUrl,
-    categories,
-    publishedAt: Timestamp.fromDate(pubDate),
+    categories: relevance.categories,
+    publishedAt: Timestamp.fromDate(prepared.pubDate),
     ingestedAt: Timestamp.now(),
     relevanceScore: relevance.score,
     isRelevant: relevance.isRelevant,
+    relevanceModel: relevance.relevanceModel,
     ai: null,
+    entities,
+    entityKeys: entities.map((e) => e.key),
+    geo,
+    geoKeys: geoKeysFor(geo),
   };
+}
+
+/**
+ * Process a single RSS item and store if relevant.
+ * Relevant articles are matched against recent coverage from other sources
+ * and attached to a story cluster when they report the same event.
+ */
+async function processRssItem(
+  item: RssItem,
+  source: Source,
+  cutoffDate: Date,
+  clusterIndex: ClusterIndex
+): Promise<ProcessResult> {
+  const db = getFirestore();
+
+  const prepared = prepareRssItem(item, cutoffDate);
+  if (!prepared) {
+    return "skipped";
+  }
+  const { articleId, snippet } = prepared;
+
+  // Existing articles: record publisher edits instead of dropping them
+  const existingDoc = await db.collection("articles").doc(articleId).get();
+  if (existingDoc.exists) {
+    const revised = await recordArticleRevision(existingDoc.data() as Article, source, {
+      title: prepared.title,
+      snippet,
+      publishedAt: prepared.pubDate,
+    });
+    return revised ? "updated" : "duplicate";
+  }
+
+  // Score relevance and categories (active trained model, else keyword heuristic)
+  const relevance = await classifyArticle({
+    title: item.title,
+    snippet,
+    sourceTags: source.tags,
+  });
+
+  const article = await buildArticle(item, prepared, source, relevance);
 
   // Generate searchTokens for relevant articles (no OpenAI call needed)
   const searchTokens = relevance.isRelevant
@@ -372,9 +587,139 @@ async function processRssItem(
     searchTokens,
   });
 
+  // Feed search and Ask's lexical retrieval (non-fatal: rebuildSearchIndex repairs)
+  if (relevance.isRelevant) {
+    try {
+      await indexArticle({ id: articleId, ...article });
+    } catch (error) {
+      logger.warn("Search indexing failed", {
+        articleId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Private full text for AI use where the publisher allows it (non-fatal)
+  if (relevance.isRelevant && source.allowFullText) {
+    await captureFullText(articleId, item.link);
+  }
+
+  // Cluster with other sources' coverage (non-fatal: article is already stored)
+  if (relevance.isRelevant) {
+    try {
+      const clusterId = await assignArticleToCluster(clusterIndex, {
+        id: articleId,
+        ...article,
+      });
+      if (clusterId) return "clustered";
+    } catch (error) {
+      logger.warn("Story clustering failed", {
+        articleId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   return "ingested";
 }
 
+/**
+ * Compare a re-fetched item with its stored article and, when the publisher
+ * changed it, store the new version and a revision record. Content changes
+ * re-tag the article, drop its embedding and mark its AI summary stale so
+ * both regenerate on next use. Returns whether a revision was recorded.
+ */
+async function recordArticleRevision(
+  stored: Article,
+  source: Source,
+  incoming: ArticleVersion
+): Promise<boolean> {
+  // Another source linking the same URL is not a publisher edit
+  if (stored.sourceId !== source.id) return false;
+  if ((stored.revisionCount ?? 0) >= MAX_ARTICLE_REVISIONS) return false;
+
+  const changedFields = detectRevision(
+    { title: stored.title, snippet: stored.snippet, publishedAt: stored.publishedAt.toDate() },
+    incoming
+  );
+  if (changedFields.length === 0) return false;
+
+  const db = getFirestore();
+  const articleRef = db.collection("articles").doc(stored.id);
+  const revisionRef = articleRef.collection("revisions").doc();
+  const now = Timestamp.now();
+
+  const current = {
+    title: changedFields.includes("title") ? incoming.title : stored.title,
+    snippet: changedFields.includes("snippet") ? incoming.snippet : stored.snippet,
+    publishedAt: changedFields.includes("publishedAt")
+      ? Timestamp.fromDate(incoming.publishedAt)
+      : stored.publishedAt,
+  };
+  const revision: ArticleRevision = {
+    id: revisionRef.id,
+    detectedAt: now,
+    changedFields,
+    previous: { title: stored.title, snippet: stored.snippet, publishedAt: stored.publishedAt },
+    current,
+  };
+
+  const updates: Record<string, unknown> = {
+    ...current,
+    revisionCount: FieldValue.increment(1),
+    lastRevisedAt: now,
+  };
+
+  const contentChanged = isContentRevision(changedFields);
+  if (contentChanged) {
+    const entities = extractEntities(`${current.title}\n${current.snippet}`);
+    const geo = inferGeography({
+      title: current.title,
+      snippet: current.snippet,
+      entities,
+      sourceRegion: source.region,
+    });
+    updates.entities = entities;
+    updates.entityKeys = entities.map((e) => e.key);
+    updates.geo = geo;
+    updates.geoKeys = geoKeysFor(geo);
+    if (stored.isRelevant) {
+      updates.searchTokens = generateSearchTokens(current);
+    }
+    updates.embedding = FieldValue.delete();
+    if (stored.ai) updates.aiStale = true;
+  }
+
+  const batch = db.batch();
+  batch.set(revisionRef, revision);
+  batch.update(articleRef, updates);
+  await batch.commit();
+
+  logger.info("Article revised", {
+    articleId: stored.id,
+    sourceId: source.id,
+    changedFields,
+  });
+
+  if (stored.isRelevant) {
+    try {
+      await reindexArticle(stored, { ...stored, ...current });
+    } catch (error) {
+      logger.warn("Search re-indexing failed", {
+        articleId: stored.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // The body changed too; refresh the private copy (non-fatal)
+  if (contentChanged && stored.hasFullText && source.allowFullText) {
+    await captureFullText(stored.id, stored.url);
+  }
+
+  return true;
+}
+
 /**
  * Update source fetch state in Firestore (single feed).
  */
@@ -401,6 +746,22 @@ async function updateSourceFetchState(
   await db.collection("sources").doc(sourceId).update(updates);
 }
 
+/**
+ * Persist the health record for one feed.
+ */
+async function updateFeedHealth(
+  sourceId: string,
+  feedKey: string,
+  health: SourceFeedHealth
+): Promise<void> {
+  const db = getFirestore();
+
+  await db.collection("sources").doc(sourceId).update({
+    [`feedHealth.${feedKey}`]: health,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
 /**
  * Create a safe key for a URL to use in Firestore field paths.
  * Uses a simple hash to avoid special characters.
@@ -8,6 +8,9 @@
 
 import type { SourceCategory } from "../../types/firestore.js";
 
+/** relevanceModel value recorded for articles scored by this heuristic */
+export const HEURISTIC_RELEVANCE_MODEL = "heuristic-v1";
+
 // ============================================================================
 // Category-Specific Keywords (for classification)
 // ============================================================================
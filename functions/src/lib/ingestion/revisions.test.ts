@@ -0,0 +1,80 @@
+/**
+ * Unit tests for article revision detection
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/revisions.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectRevision, isContentRevision, type ArticleVersion } from "./revisions.js";
+
+const STORED: ArticleVersion = {
+  title: "Hurricane Milton insured losses estimated at $30 billion",
+  snippet: "Catastrophe modelers put insured losses from Hurricane Milton at $30 billion, with Florida homeowners carriers bearing most of the...",
+  publishedAt: new Date("2026-10-10T12:00:00Z"),
+};
+
+function incoming(changes: Partial<ArticleVersion>): ArticleVersion {
+  return { ...STORED, ...changes };
+}
+
+// ============================================================================
+// detectRevision
+// ============================================================================
+
+describe("detectRevision", () => {
+  it("reports nothing for an identical item", () => {
+    assert.deepEqual(detectRevision(STORED, incoming({})), []);
+  });
+
+  it("detects headline and snippet edits", () => {
+    const updated = incoming({
+      title: "Hurricane Milton insured losses estimated at $35 billion",
+      snippet: "Catastrophe modelers raised their insured loss estimate for Hurricane Milton to $35 billion, citing higher flood claims.",
+    });
+    assert.deepEqual(detectRevision(STORED, updated), ["title", "snippet"]);
+  });
+
+  it("ignores whitespace, quote style and truncation differences", () => {
+    assert.deepEqual(
+      detectRevision(
+        { ...STORED, title: "Florida’s  carriers brace for claims" },
+        incoming({ title: " Florida's carriers brace for claims" })
+      ),
+      []
+    );
+    assert.deepEqual(
+      detectRevision(STORED, incoming({ snippet: "Catastrophe modelers put insured losses from Hurricane Milton at $30 billion…" })),
+      []
+    );
+    assert.deepEqual(detectRevision(STORED, incoming({ snippet: "" })), []);
+  });
+
+  it("counts published dates that move forward by at least a minute", () => {
+    assert.deepEqual(
+      detectRevision(STORED, incoming({ publishedAt: new Date("2026-10-10T15:30:00Z") })),
+      ["publishedAt"]
+    );
+    assert.deepEqual(
+      detectRevision(STORED, incoming({ publishedAt: new Date("2026-10-10T12:00:30Z") })),
+      []
+    );
+    assert.deepEqual(
+      detectRevision(STORED, incoming({ publishedAt: new Date("2026-10-09T12:00:00Z") })),
+      []
+    );
+  });
+});
+
+// ============================================================================
+// isContentRevision
+// ============================================================================
+
+describe("isContentRevision", () => {
+  it("is true only when title or snippet changed", () => {
+    assert.ok(isContentRevision(["title"]));
+    assert.ok(isContentRevision(["snippet", "publishedAt"]));
+    assert.ok(!isContentRevision(["publishedAt"]));
+    assert.ok(!isContentRevision([]));
+  });
+});
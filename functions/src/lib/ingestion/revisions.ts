@@ -0,0 +1,95 @@
+/**
+ * Article Revision Detection
+ *
+ * Publishers edit stories after first publication: loss estimates move,
+ * headlines get corrected, "UPDATE 2" items replace the original. When a
+ * feed item maps to an article we already store, this compares the stored
+ * title, snippet and published date with the incoming ones and reports
+ * which fields changed.
+ *
+ * Noise is ignored: whitespace and quote-style differences, an incoming
+ * snippet that is empty or only a longer/shorter cut of the stored one, and
+ * published dates that move backwards or by less than a minute.
+ */
+
+import type { ArticleRevisionField } from "../../types/firestore.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Stop recording revisions past this many; an article that keeps
+ * "changing" is almost always two feeds disagreeing, not a publisher edit.
+ */
+export const MAX_ARTICLE_REVISIONS = 20;
+
+/** Published-date moves smaller than this are feed jitter */
+const MIN_PUBLISHED_AT_SHIFT_MS = 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The fields of an article compared for revisions */
+export interface ArticleVersion {
+  title: string;
+  snippet: string;
+  publishedAt: Date;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+function normalize(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, "\"")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Strip a trailing ellipsis so "...loss estimate…" matches its longer cut */
+function withoutEllipsis(text: string): string {
+  return text.replace(/(?:\.\.\.|…)$/, "").trimEnd();
+}
+
+/**
+ * Fields that changed between the stored and incoming versions, in
+ * title/snippet/publishedAt order (empty when nothing meaningful changed).
+ */
+export function detectRevision(
+  stored: ArticleVersion,
+  incoming: ArticleVersion
+): ArticleRevisionField[] {
+  const changed: ArticleRevisionField[] = [];
+
+  const storedTitle = normalize(stored.title);
+  const incomingTitle = normalize(incoming.title);
+  if (incomingTitle && incomingTitle !== storedTitle) changed.push("title");
+
+  const storedSnippet = withoutEllipsis(normalize(stored.snippet));
+  const incomingSnippet = withoutEllipsis(normalize(incoming.snippet));
+  if (
+    incomingSnippet &&
+    incomingSnippet !== storedSnippet &&
+    !storedSnippet.startsWith(incomingSnippet) &&
+    !incomingSnippet.startsWith(storedSnippet)
+  ) {
+    changed.push("snippet");
+  }
+
+  const shift = incoming.publishedAt.getTime() - stored.publishedAt.getTime();
+  if (shift >= MIN_PUBLISHED_AT_SHIFT_MS) changed.push("publishedAt");
+
+  return changed;
+}
+
+/**
+ * Whether a revision changes what the article says (and so invalidates its
+ * AI summary and embedding), not just when it was published.
+ */
+export function isContentRevision(fields: ArticleRevisionField[]): boolean {
+  return fields.includes("title") || fields.includes("snippet");
+}
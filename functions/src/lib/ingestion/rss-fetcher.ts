@@ -1,12 +1,14 @@
 /**
- * RSS Feed Fetcher with Conditional GET Support and Caching
+ * Feed Fetcher with Conditional GET Support and Caching
  *
  * Uses ETag/Last-Modified headers to minimize bandwidth.
  * Implements in-memory caching to avoid redundant fetches.
+ * Response bodies are parsed by the feed's adapter (RSS/Atom by default).
  */
 
-import Parser from "rss-parser";
-import type { SourceFetchState } from "../../types/firestore.js";
+import type { SourceFetchState, FeedAdapterConfig } from "../../types/firestore.js";
+import { getFeedAdapter } from "./feed-adapters.js";
+import { httpFetch } from "./http-transport.js";
 
 // ============================================================================
 // Types
@@ -57,6 +59,8 @@ interface CachedFeed {
 
 // Cache TTL: 15 minutes (reduces redundant fetches within same ingestion run)
 const CACHE_TTL_MS = 15 * 60 * 1000;
+// Request timeout (the 30s the rss-parser instance was configured with)
+const FEED_FETCH_TIMEOUT_MS = 30000;
 const feedCache = new Map<string, CachedFeed>();
 
 /**
@@ -103,45 +107,33 @@ function setCachedFeed(url: string, items: RssItem[], fetchState: Partial<Source
   });
 }
 
-// ============================================================================
-// RSS Parser Instance
-// ============================================================================
-
-const parser = new Parser({
-  timeout: 30000, // 30 second timeout
-  headers: {
-    "User-Agent": "InsuranceNewsAI/1.0 (+https://insurance-news-ai.web.app)",
-    Accept: "application/rss+xml, application/xml, text/xml",
-  },
-  customFields: {
-    item: [
-      ["media:content", "media:content"],
-      ["media:thumbnail", "media:thumbnail"],
-    ],
-  },
-});
-
 // ============================================================================
 // Fetch Functions
 // ============================================================================
 
 /**
- * Fetch RSS feed with conditional GET support and caching.
+ * Fetch a feed with conditional GET support and caching, parsing the body
+ * with the configured adapter.
  *
- * @param feedUrl - The RSS feed URL
+ * @param feedUrl - The feed URL
  * @param fetchState - Previous fetch state with ETag/Last-Modified
- * @param options - Fetch options
+ * @param options - Fetch options; `adapter` defaults to RSS/Atom
  * @returns FetchResult with items and new fetch state
  */
-export async function fetchRssFeed(
+export async function fetchFeed(
   feedUrl: string,
   fetchState: SourceFetchState,
-  options?: { skipCache?: boolean }
+  options?: { skipCache?: boolean; adapter?: FeedAdapterConfig }
 ): Promise<FetchResult> {
+  const adapterConfig = options?.adapter ?? { url: feedUrl, type: "rss" };
+  const cacheKey = `${adapterConfig.type}:${feedUrl}`;
+
   try {
+    const adapter = getFeedAdapter(adapterConfig.type);
+
     // Check cache first (unless explicitly skipped)
     if (!options?.skipCache) {
-      const cached = getCachedFeed(feedUrl);
+      const cached = getCachedFeed(cacheKey);
       if (cached) {
         return {
           success: true,
@@ -156,7 +148,7 @@ export async function fetchRssFeed(
     // Build conditional request headers
     const headers: Record<string, string> = {
       "User-Agent": "InsuranceNewsAI/1.0 (+https://insurance-news-ai.web.app)",
-      Accept: "application/rss+xml, application/xml, text/xml",
+      Accept: adapter.accept,
     };
 
     if (fetchState.etag) {
@@ -167,9 +159,10 @@ export async function fetchRssFeed(
     }
 
     // Fetch the feed
-    const response = await fetch(feedUrl, {
+    const response = await httpFetch(feedUrl, {
       method: "GET",
       headers,
+      signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT_MS),
     });
 
     // Handle 304 Not Modified
@@ -192,7 +185,11 @@ export async function fetchRssFeed(
 
     // Parse the feed
     const feedText = await response.text();
-    const feed = await parser.parseString(feedText);
+    const items = await adapter.parse(feedText, {
+      feedUrl,
+      config: adapterConfig,
+      fetchedAt: new Date(),
+    });
 
     // Extract new fetch state from headers
     const newEtag = response.headers.get("etag");
@@ -205,10 +202,8 @@ export async function fetchRssFeed(
       lastError: null,
     };
 
-    const items = feed.items as RssItem[];
-
     // Cache the result
-    setCachedFeed(feedUrl, items, newFetchState);
+    setCachedFeed(cacheKey, items, newFetchState);
 
     return {
       success: true,
@@ -233,6 +228,17 @@ export async function fetchRssFeed(
   }
 }
 
+/**
+ * Fetch an RSS/Atom feed with conditional GET support and caching.
+ */
+export async function fetchRssFeed(
+  feedUrl: string,
+  fetchState: SourceFetchState,
+  options?: { skipCache?: boolean }
+): Promise<FetchResult> {
+  return fetchFeed(feedUrl, fetchState, options);
+}
+
 /**
  * Extract image URL from RSS item.
  * Checks multiple possible locations for image.
@@ -285,7 +291,7 @@ export async function fetchOgImage(articleUrl: string): Promise<string | null> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), OG_IMAGE_FETCH_TIMEOUT_MS);
 
-    const response = await fetch(articleUrl, {
+    const response = await httpFetch(articleUrl, {
       method: "GET",
       headers: {
         "User-Agent": "InsuranceNewsAI/1.0 (+https://insurance-news-ai.web.app)",
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for ingestion run diffing and per-source trends
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/run-analysis.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IngestionRunSourceResult } from "../../types/firestore.js";
+import {
+  toRunSourceResult,
+  toDateKeyET,
+  diffIngestionRuns,
+  computeSourceTrends,
+} from "./run-analysis.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+// 2026-02-10 12:00 ET
+const BASE_MS = Date.UTC(2026, 1, 10, 17, 0, 0);
+
+function makeResult(
+  sourceId: string,
+  counts: Partial<IngestionRunSourceResult> = {}
+): IngestionRunSourceResult {
+  return {
+    sourceId,
+    sourceName: sourceId.toUpperCase(),
+    success: true,
+    notModified: false,
+    skipped: false,
+    itemsFetched: 10,
+    itemsIngested: 5,
+    itemsSkipped: 3,
+    itemsDuplicate: 2,
+    itemsClustered: 0,
+    feedsProcessed: 1,
+    feedsSkipped: 0,
+    cached: false,
+    durationMs: 100,
+    error: null,
+    ...counts,
+  };
+}
+
+// ============================================================================
+// toRunSourceResult
+// ============================================================================
+
+describe("toRunSourceResult", () => {
+  it("replaces missing optional fields with zeros and nulls", () => {
+    const stored = toRunSourceResult({
+      sourceId: "ij",
+      sourceName: "Insurance Journal",
+      success: false,
+      notModified: false,
+      itemsFetched: 0,
+      itemsIngested: 0,
+      itemsSkipped: 0,
+      itemsDuplicate: 0,
+      error: "HTTP 500",
+    });
+    assert.equal(stored.itemsClustered, 0);
+    assert.equal(stored.itemsUpdated, 0);
+    assert.equal(stored.durationMs, null);
+    assert.equal(stored.skipped, false);
+    assert.equal(stored.error, "HTTP 500");
+    assert.ok(Object.values(stored).every((v) => v !== undefined));
+  });
+});
+
+// ============================================================================
+// toDateKeyET
+// ============================================================================
+
+describe("toDateKeyET", () => {
+  it("uses Eastern time day boundaries", () => {
+    // 2026-02-11 03:00 UTC is still 2026-02-10 in New York
+    assert.equal(toDateKeyET(Date.UTC(2026, 1, 11, 3, 0, 0)), "2026-02-10");
+    assert.equal(toDateKeyET(Date.UTC(2026, 1, 11, 6, 0, 0)), "2026-02-11");
+  });
+});
+
+// ============================================================================
+// diffIngestionRuns
+// ============================================================================
+
+describe("diffIngestionRuns", () => {
+  const base = {
+    id: "run_a",
+    startedAtMs: BASE_MS,
+    results: [
+      makeResult("ij", { itemsIngested: 5 }),
+      makeResult("cj", { success: false, itemsIngested: 0, error: "HTTP 503" }),
+      makeResult("old"),
+    ],
+  };
+  const compare = {
+    id: "run_b",
+    startedAtMs: BASE_MS + HOUR_MS,
+    results: [
+      makeResult("ij", { success: false, itemsIngested: 0, error: "fetch failed" }),
+      makeResult("cj", { itemsIngested: 8 }),
+      makeResult("new"),
+    ],
+  };
+
+  it("classifies per-source changes", () => {
+    const diff = diffIngestionRuns(base, compare);
+    const byId = Object.fromEntries(diff.sources.map((s) => [s.sourceId, s.change]));
+    assert.deepEqual(byId, {
+      ij: "regressed",
+      cj: "recovered",
+      old: "removed",
+      new: "added",
+    });
+  });
+
+  it("computes deltas and orders by largest ingest change", () => {
+    const diff = diffIngestionRuns(base, compare);
+    assert.equal(diff.sources[0].sourceId, "cj");
+    assert.equal(diff.sources[0].delta.itemsIngested, 8);
+    assert.equal(diff.totals.base.itemsIngested, 10);
+    assert.equal(diff.totals.compare.itemsIngested, 13);
+    assert.equal(diff.totals.delta.itemsIngested, 3);
+  });
+
+  it("reports unchanged sources", () => {
+    const diff = diffIngestionRuns(base, { ...base, id: "run_c" });
+    assert.ok(diff.sources.every((s) => s.change === "unchanged"));
+    assert.equal(diff.totals.delta.itemsFetched, 0);
+  });
+});
+
+// ============================================================================
+// computeSourceTrends
+// ============================================================================
+
+describe("computeSourceTrends", () => {
+  const runs = [
+    { id: "r1", startedAtMs: BASE_MS, results: [makeResult("ij"), makeResult("cj", { itemsIngested: 1 })] },
+    { id: "r2", startedAtMs: BASE_MS + HOUR_MS, results: [makeResult("ij", { success: false, itemsFetched: 0, itemsIngested: 0, itemsSkipped: 0, itemsDuplicate: 0 })] },
+    { id: "r3", startedAtMs: BASE_MS + 24 * HOUR_MS, results: [makeResult("ij", { itemsIngested: 9 })] },
+  ];
+
+  it("buckets runs per source per day", () => {
+    const [ij] = computeSourceTrends(runs);
+    assert.equal(ij.sourceId, "ij");
+    assert.deepEqual(ij.days.map((d) => d.date), ["2026-02-10", "2026-02-11"]);
+    assert.equal(ij.days[0].runs, 2);
+    assert.equal(ij.days[0].failures, 1);
+    assert.equal(ij.days[1].itemsIngested, 9);
+  });
+
+  it("computes per-day averages and ratios", () => {
+    const [ij] = computeSourceTrends(runs);
+    assert.equal(ij.totals.itemsIngested, 14);
+    assert.equal(ij.avgIngestedPerDay, 7);
+    assert.equal(ij.skipRatio, 0.3);
+    assert.equal(ij.duplicateRatio, 0.2);
+    assert.equal(ij.failureRate, 0.333);
+  });
+
+  it("orders sources by items ingested and handles empty input", () => {
+    assert.deepEqual(computeSourceTrends(runs).map((t) => t.sourceId), ["ij", "cj"]);
+    assert.deepEqual(computeSourceTrends([]), []);
+  });
+
+  it("reports zero ratios when nothing was fetched", () => {
+    const [t] = computeSourceTrends([
+      { id: "r", startedAtMs: BASE_MS, results: [makeResult("x", { itemsFetched: 0, itemsSkipped: 0, itemsDuplicate: 0 })] },
+    ]);
+    assert.equal(t.skipRatio, 0);
+    assert.equal(t.duplicateRatio, 0);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Ingestion Run Analysis
+ *
+ * Diffs two stored ingestion runs and computes per-source trends across
+ * many runs (items ingested per day, skip ratio, duplicate ratio).
+ */
+
+import type { IngestionRunSourceResult } from "../../types/firestore.js";
+import type { IngestionResult } from "./ingest.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimal run shape needed for analysis */
+export interface RunForAnalysis {
+  id: string;
+  startedAtMs: number;
+  results: IngestionRunSourceResult[];
+}
+
+/** How a source's outcome changed between two runs */
+export type SourceRunChange = "added" | "removed" | "recovered" | "regressed" | "unchanged";
+
+interface RunCounts {
+  itemsFetched: number;
+  itemsIngested: number;
+  itemsSkipped: number;
+  itemsDuplicate: number;
+}
+
+export interface SourceRunDiff {
+  sourceId: string;
+  sourceName: string;
+  change: SourceRunChange;
+  base: IngestionRunSourceResult | null;
+  compare: IngestionRunSourceResult | null;
+  /** compare - base (missing side counts as zero) */
+  delta: RunCounts;
+}
+
+export interface IngestionRunDiff {
+  baseRunId: string;
+  compareRunId: string;
+  totals: { base: RunCounts; compare: RunCounts; delta: RunCounts };
+  sources: SourceRunDiff[];
+}
+
+export interface SourceTrendDay extends RunCounts {
+  /** Date in yyyy-mm-dd (America/New_York) */
+  date: string;
+  runs: number;
+  failures: number;
+}
+
+export interface SourceTrend {
+  sourceId: string;
+  sourceName: string;
+  days: SourceTrendDay[];
+  totals: RunCounts & { runs: number; failures: number };
+  /** Mean items ingested per day over days with at least one run */
+  avgIngestedPerDay: number;
+  /** itemsSkipped / itemsFetched (0 when nothing fetched) */
+  skipRatio: number;
+  /** itemsDuplicate / itemsFetched (0 when nothing fetched) */
+  duplicateRatio: number;
+  /** Failed runs / total runs */
+  failureRate: number;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Convert an in-memory IngestionResult into its stored form.
+ * Optional fields become explicit zeros/nulls (Firestore rejects undefined).
+ */
+export function toRunSourceResult(result: IngestionResult): IngestionRunSourceResult {
+  return {
+    sourceId: result.sourceId,
+    sourceName: result.sourceName,
+    success: result.success,
+    notModified: result.notModified,
+    skipped: result.skipped ?? false,
+    itemsFetched: result.itemsFetched,
+    itemsIngested: result.itemsIngested,
+    itemsSkipped: result.itemsSkipped,
+    itemsDuplicate: result.itemsDuplicate,
+    itemsClustered: result.itemsClustered ?? 0,
+    itemsUpdated: result.itemsUpdated ?? 0,
+    feedsProcessed: result.feedsProcessed ?? 0,
+    feedsSkipped: result.feedsSkipped ?? 0,
+    cached: result.cached ?? false,
+    durationMs: result.durationMs ?? null,
+    error: result.error ?? null,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emptyCounts(): RunCounts {
+  return { itemsFetched: 0, itemsIngested: 0, itemsSkipped: 0, itemsDuplicate: 0 };
+}
+
+function addCounts(target: RunCounts, r: RunCounts): void {
+  target.itemsFetched += r.itemsFetched;
+  target.itemsIngested += r.itemsIngested;
+  target.itemsSkipped += r.itemsSkipped;
+  target.itemsDuplicate += r.itemsDuplicate;
+}
+
+function subtractCounts(a: RunCounts, b: RunCounts): RunCounts {
+  return {
+    itemsFetched: a.itemsFetched - b.itemsFetched,
+    itemsIngested: a.itemsIngested - b.itemsIngested,
+    itemsSkipped: a.itemsSkipped - b.itemsSkipped,
+    itemsDuplicate: a.itemsDuplicate - b.itemsDuplicate,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : 0;
+}
+
+/**
+ * Format epoch millis as yyyy-mm-dd in Eastern time (matches brief date keys).
+ */
+export function toDateKeyET(ms: number): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(ms));
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Compare two runs source by source.
+ * Sources are ordered by the absolute change in items ingested, largest first.
+ */
+export function diffIngestionRuns(base: RunForAnalysis, compare: RunForAnalysis): IngestionRunDiff {
+  const baseBySource = new Map(base.results.map((r) => [r.sourceId, r]));
+  const compareBySource = new Map(compare.results.map((r) => [r.sourceId, r]));
+  const sourceIds = new Set([...baseBySource.keys(), ...compareBySource.keys()]);
+
+  const sources: SourceRunDiff[] = [];
+  for (const sourceId of sourceIds) {
+    const b = baseBySource.get(sourceId) ?? null;
+    const c = compareBySource.get(sourceId) ?? null;
+
+    let change: SourceRunChange;
+    if (!b) change = "added";
+    else if (!c) change = "removed";
+    else if (!b.success && c.success) change = "recovered";
+    else if (b.success && !c.success) change = "regressed";
+    else change = "unchanged";
+
+    sources.push({
+      sourceId,
+      sourceName: c?.sourceName ?? b?.sourceName ?? sourceId,
+      change,
+      base: b,
+      compare: c,
+      delta: subtractCounts(c ?? emptyCounts(), b ?? emptyCounts()),
+    });
+  }
+
+  sources.sort(
+    (x, y) =>
+      Math.abs(y.delta.itemsIngested) - Math.abs(x.delta.itemsIngested) ||
+      x.sourceId.localeCompare(y.sourceId)
+  );
+
+  const baseTotals = emptyCounts();
+  base.results.forEach((r) => addCounts(baseTotals, r));
+  const compareTotals = emptyCounts();
+  compare.results.forEach((r) => addCounts(compareTotals, r));
+
+  return {
+    baseRunId: base.id,
+    compareRunId: compare.id,
+    totals: {
+      base: baseTotals,
+      compare: compareTotals,
+      delta: subtractCounts(compareTotals, baseTotals),
+    },
+    sources,
+  };
+}
+
+// ============================================================================
+// Trends
+// ============================================================================
+
+/**
+ * Aggregate runs into per-source daily trends.
+ * Days are ordered oldest first; sources by total items ingested, descending.
+ */
+export function computeSourceTrends(runs: RunForAnalysis[]): SourceTrend[] {
+  const bySource = new Map<string, { sourceName: string; days: Map<string, SourceTrendDay> }>();
+
+  for (const run of runs) {
+    const date = toDateKeyET(run.startedAtMs);
+
+    for (const r of run.results) {
+      let entry = bySource.get(r.sourceId);
+      if (!entry) {
+        entry = { sourceName: r.sourceName, days: new Map() };
+        bySource.set(r.sourceId, entry);
+      }
+
+      let day = entry.days.get(date);
+      if (!day) {
+        day = { date, runs: 0, failures: 0, ...emptyCounts() };
+        entry.days.set(date, day);
+      }
+
+      day.runs++;
+      if (!r.success) day.failures++;
+      addCounts(day, r);
+    }
+  }
+
+  const trends: SourceTrend[] = [];
+  for (const [sourceId, entry] of bySource) {
+    const days = [...entry.days.values()].sort((a, b) => a.date.localeCompare(b.date));
+    const totals = { runs: 0, failures: 0, ...emptyCounts() };
+    for (const day of days) {
+      totals.runs += day.runs;
+      totals.failures += day.failures;
+      addCounts(totals, day);
+    }
+
+    trends.push({
+      sourceId,
+      sourceName: entry.sourceName,
+      days,
+      totals,
+      avgIngestedPerDay: days.length > 0
+        ? Math.round((totals.itemsIngested / days.length) * 10) / 10
+        : 0,
+      skipRatio: ratio(totals.itemsSkipped, totals.itemsFetched),
+      duplicateRatio: ratio(totals.itemsDuplicate, totals.itemsFetched),
+      failureRate: ratio(totals.failures, totals.runs),
+    });
+  }
+
+  trends.sort(
+    (a, b) =>
+      b.totals.itemsIngested - a.totals.itemsIngested ||
+      a.sourceId.localeCompare(b.sourceId)
+  );
+
+  return trends;
+}
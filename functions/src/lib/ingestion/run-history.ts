@@ -0,0 +1,146 @@
+/**
+ * Ingestion Run History
+ *
+ * Persists every ingestAllEnabledSources() run to ingestionRuns/{runId}
+ * and reads them back for the admin query API.
+ */
+
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { IngestionRunDoc, IngestionTrigger } from "../../types/firestore.js";
+import type { IngestionSummary } from "./ingest.js";
+import { toRunSourceResult } from "./run-analysis.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long run records are kept (enforced by a Firestore TTL policy on expiresAt) */
+const RUN_RETENTION_DAYS = 90;
+
+/** Upper bound on runs loaded for trend analysis (~90 days of hourly runs) */
+export const MAX_TREND_RUNS = 2500;
+
+// ============================================================================
+// Write
+// ============================================================================
+
+/**
+ * Store a completed run. Never throws: history is diagnostic and must not
+ * fail the ingestion that produced it.
+ *
+ * @returns The run ID, or null if the write failed
+ */
+export async function recordIngestionRun(
+  summary: IngestionSummary,
+  meta: {
+    trigger: IngestionTrigger;
+    triggeredBy?: string | null;
+    maxAgeDays: number;
+    forceRefresh: boolean;
+  }
+): Promise<string | null> {
+  const db = getFirestore();
+  // Sortable, collision-resistant ID: start time + trigger
+  const runId = `${summary.startedAt.toISOString().replace(/[:.]/g, "-")}_${meta.trigger}`;
+
+  const results = summary.results.map(toRunSourceResult);
+  const successCount = results.filter((r) => r.success).length;
+
+  const doc: IngestionRunDoc = {
+    id: runId,
+    trigger: meta.trigger,
+    triggeredBy: meta.triggeredBy ?? null,
+    startedAt: Timestamp.fromDate(summary.startedAt),
+    completedAt: Timestamp.fromDate(summary.completedAt),
+    durationMs: summary.durationMs,
+    maxAgeDays: meta.maxAgeDays,
+    forceRefresh: meta.forceRefresh,
+    sourcesProcessed: summary.sourcesProcessed,
+    successCount,
+    failureCount: results.length - successCount,
+    totalItemsFetched: summary.totalItemsFetched,
+    totalItemsIngested: summary.totalItemsIngested,
+    totalItemsSkipped: results.reduce((sum, r) => sum + r.itemsSkipped, 0),
+    totalItemsDuplicate: results.reduce((sum, r) => sum + r.itemsDuplicate, 0),
+    results,
+    expiresAt: Timestamp.fromMillis(
+      summary.completedAt.getTime() + RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ),
+  };
+
+  try {
+    await db.collection("ingestionRuns").doc(runId).set(doc);
+    return runId;
+  } catch (error) {
+    logger.error("Failed to record ingestion run", {
+      runId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+// ============================================================================
+// Read
+// ============================================================================
+
+/**
+ * Page through runs, newest first.
+ *
+ * @param startAfterRunId - Cursor: ID of the last run on the previous page
+ */
+export async function listIngestionRuns(options: {
+  limit: number;
+  startAfterRunId?: string;
+  trigger?: IngestionTrigger;
+}): Promise<{ runs: IngestionRunDoc[]; hasMore: boolean }> {
+  const db = getFirestore();
+  let query = db.collection("ingestionRuns").orderBy("startedAt", "desc");
+
+  if (options.trigger) {
+    query = query.where("trigger", "==", options.trigger);
+  }
+
+  if (options.startAfterRunId) {
+    const cursorDoc = await db.collection("ingestionRuns").doc(options.startAfterRunId).get();
+    if (cursorDoc.exists) {
+      query = query.startAfter(cursorDoc);
+    }
+  }
+
+  // Fetch one extra to detect another page
+  const snap = await query.limit(options.limit + 1).get();
+  const runs = snap.docs
+    .slice(0, options.limit)
+    .map((doc) => ({ ...(doc.data() as IngestionRunDoc), id: doc.id }));
+
+  return { runs, hasMore: snap.size > options.limit };
+}
+
+/**
+ * Fetch a single run by ID.
+ */
+export async function getIngestionRun(runId: string): Promise<IngestionRunDoc | null> {
+  const db = getFirestore();
+  const doc = await db.collection("ingestionRuns").doc(runId).get();
+  return doc.exists ? { ...(doc.data() as IngestionRunDoc), id: doc.id } : null;
+}
+
+/**
+ * Load runs started since the cutoff (oldest first).
+ * When more than MAX_TREND_RUNS match, the most recent ones are kept.
+ */
+export async function getIngestionRunsSince(since: Date): Promise<IngestionRunDoc[]> {
+  const db = getFirestore();
+  const snap = await db
+    .collection("ingestionRuns")
+    .where("startedAt", ">=", Timestamp.fromDate(since))
+    .orderBy("startedAt", "desc")
+    .limit(MAX_TREND_RUNS)
+    .get();
+
+  return snap.docs
+    .map((doc) => ({ ...(doc.data() as IngestionRunDoc), id: doc.id }))
+    .reverse();
+}
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for feed health tracking, backoff and quarantine
+ *
+ * Run: npx tsx --test functions/src/lib/ingestion/source-health.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  QUARANTINE_THRESHOLD,
+  classifyFetchError,
+  getDefaultFeedHealth,
+  backoffDelayMinutes,
+  recordFeedSuccess,
+  recordFeedFailure,
+  releaseFeedHealth,
+  shouldSkipFeed,
+  isFeedUnhealthy,
+} from "./source-health.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const FEED_URL = "https://example.com/feed";
+const NOW = Timestamp.fromMillis(Date.UTC(2026, 1, 10, 12, 0, 0));
+const MINUTE_MS = 60 * 1000;
+
+function failTimes(count: number, message = "HTTP 404: Not Found") {
+  let health = getDefaultFeedHealth(FEED_URL);
+  for (let i = 0; i < count; i++) {
+    health = recordFeedFailure(health, message, NOW);
+  }
+  return health;
+}
+
+// ============================================================================
+// classifyFetchError
+// ============================================================================
+
+describe("classifyFetchError", () => {
+  it("classifies HTTP status codes", () => {
+    assert.equal(classifyFetchError("HTTP 404: Not Found"), "not_found");
+    assert.equal(classifyFetchError("HTTP 410: Gone"), "not_found");
+    assert.equal(classifyFetchError("HTTP 403: Forbidden"), "http_client");
+    assert.equal(classifyFetchError("HTTP 503: Service Unavailable"), "http_server");
+  });
+
+  it("classifies network, timeout and parse failures", () => {
+    assert.equal(classifyFetchError("fetch failed"), "network");
+    assert.equal(classifyFetchError("The operation was aborted due to timeout"), "timeout");
+    assert.equal(classifyFetchError("Non-whitespace before first tag.\nLine: 0"), "parse");
+  });
+
+  it("falls back to unknown", () => {
+    assert.equal(classifyFetchError("something odd"), "unknown");
+    assert.equal(classifyFetchError(null), "unknown");
+  });
+});
+
+// ============================================================================
+// Backoff
+// ============================================================================
+
+describe("backoffDelayMinutes", () => {
+  it("does not back off after a single failure", () => {
+    assert.equal(backoffDelayMinutes(1), 0);
+  });
+
+  it("doubles with each further failure", () => {
+    assert.equal(backoffDelayMinutes(2), 60);
+    assert.equal(backoffDelayMinutes(3), 120);
+    assert.equal(backoffDelayMinutes(4), 240);
+  });
+
+  it("caps at 24 hours", () => {
+    assert.equal(backoffDelayMinutes(20), 24 * 60);
+  });
+});
+
+// ============================================================================
+// Health updates
+// ============================================================================
+
+describe("recordFeedFailure", () => {
+  it("tracks streak, error class counts and next attempt", () => {
+    const health = failTimes(3);
+    assert.equal(health.consecutiveFailures, 3);
+    assert.equal(health.lastErrorClass, "not_found");
+    assert.equal(health.errorCounts.not_found, 3);
+    assert.equal(health.nextAttemptAt?.toMillis(), NOW.toMillis() + 120 * MINUTE_MS);
+    assert.equal(health.quarantined, false);
+  });
+
+  it("quarantines at the threshold", () => {
+    const health = failTimes(QUARANTINE_THRESHOLD);
+    assert.equal(health.quarantined, true);
+    assert.equal(health.quarantinedAt?.toMillis(), NOW.toMillis());
+  });
+});
+
+describe("recordFeedSuccess", () => {
+  it("resets the failure streak and averages item counts", () => {
+    let health = failTimes(3);
+    health = recordFeedSuccess(health, 10, NOW);
+    health = recordFeedSuccess(health, 20, NOW);
+    assert.equal(health.consecutiveFailures, 0);
+    assert.equal(health.nextAttemptAt, null);
+    assert.equal(health.lastError, null);
+    assert.equal(health.avgItemsPerRun, 15);
+    assert.equal(health.totalRuns, 5);
+  });
+
+  it("does not sample item counts for 304 Not Modified", () => {
+    let health = recordFeedSuccess(getDefaultFeedHealth(FEED_URL), 12, NOW);
+    health = recordFeedSuccess(health, null, NOW);
+    assert.equal(health.avgItemsPerRun, 12);
+    assert.equal(health.sampledRuns, 1);
+  });
+});
+
+describe("releaseFeedHealth", () => {
+  it("clears quarantine and backoff but keeps lifetime counters", () => {
+    const released = releaseFeedHealth(failTimes(QUARANTINE_THRESHOLD));
+    assert.equal(released.quarantined, false);
+    assert.equal(released.consecutiveFailures, 0);
+    assert.equal(released.nextAttemptAt, null);
+    assert.equal(released.errorCounts.not_found, QUARANTINE_THRESHOLD);
+  });
+});
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+describe("shouldSkipFeed", () => {
+  it("never skips untracked feeds", () => {
+    assert.deepEqual(shouldSkipFeed(undefined, NOW), { skip: false });
+  });
+
+  it("skips feeds in backoff unless ignored", () => {
+    const health = failTimes(2);
+    assert.deepEqual(shouldSkipFeed(health, NOW), { skip: true, reason: "backoff" });
+    assert.deepEqual(shouldSkipFeed(health, NOW, { ignoreBackoff: true }), { skip: false });
+  });
+
+  it("retries once the backoff window has passed", () => {
+    const later = Timestamp.fromMillis(NOW.toMillis() + 61 * MINUTE_MS);
+    assert.deepEqual(shouldSkipFeed(failTimes(2), later), { skip: false });
+  });
+
+  it("always skips quarantined feeds", () => {
+    const health = failTimes(QUARANTINE_THRESHOLD);
+    assert.deepEqual(
+      shouldSkipFeed(health, NOW, { ignoreBackoff: true }),
+      { skip: true, reason: "quarantined" }
+    );
+  });
+});
+
+describe("isFeedUnhealthy", () => {
+  it("flags failing and quarantined feeds only", () => {
+    assert.equal(isFeedUnhealthy(getDefaultFeedHealth(FEED_URL)), false);
+    assert.equal(isFeedUnhealthy(failTimes(1)), true);
+    assert.equal(isFeedUnhealthy(releaseFeedHealth(failTimes(QUARANTINE_THRESHOLD))), false);
+  });
+});
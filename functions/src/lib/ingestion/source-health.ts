@@ -0,0 +1,228 @@
+/**
+ * Source Health Tracking
+ *
+ * Maintains a rolling health record per feed URL, decides when a failing
+ * feed should be skipped (exponential backoff) and when it should be
+ * quarantined until an admin releases it.
+ *
+ * All functions are pure; persistence is handled by the ingestion engine.
+ */
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { SourceFeedHealth, SourceErrorClass } from "../../types/firestore.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Consecutive failures before backoff starts (first failure retries next run) */
+const BACKOFF_AFTER_FAILURES = 2;
+
+/** Base backoff delay (matches the hourly ingestion cadence) */
+const BACKOFF_BASE_MINUTES = 60;
+
+/** Upper bound on backoff delay */
+const BACKOFF_MAX_MINUTES = 24 * 60;
+
+/** Consecutive failures before a feed is quarantined (~5 days with backoff) */
+export const QUARANTINE_THRESHOLD = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FeedSkipReason = "quarantined" | "backoff";
+
+export interface FeedSkipDecision {
+  skip: boolean;
+  reason?: FeedSkipReason;
+}
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Map a fetch error message to a coarse error class.
+ * Messages come from fetchRssFeed ("HTTP 404: Not Found"), undici fetch
+ * failures, and rss-parser/xml2js parse errors.
+ */
+export function classifyFetchError(message: string | null | undefined): SourceErrorClass {
+  if (!message) return "unknown";
+
+  const httpMatch = message.match(/HTTP (\d{3})/);
+  if (httpMatch) {
+    const status = Number(httpMatch[1]);
+    if (status === 404 || status === 410) return "not_found";
+    if (status === 408) return "timeout";
+    if (status >= 400 && status < 500) return "http_client";
+    if (status >= 500) return "http_server";
+  }
+
+  const lower = message.toLowerCase();
+  if (lower.includes("timeout") || lower.includes("timed out") || lower.includes("aborted")) {
+    return "timeout";
+  }
+  if (
+    lower.includes("fetch failed") ||
+    lower.includes("enotfound") ||
+    lower.includes("econnrefused") ||
+    lower.includes("econnreset") ||
+    lower.includes("certificate")
+  ) {
+    return "network";
+  }
+  if (
+    lower.includes("non-whitespace") ||
+    lower.includes("unexpected") ||
+    lower.includes("not recognized as rss") ||
+    lower.includes("unclosed") ||
+    lower.includes("invalid character")
+  ) {
+    return "parse";
+  }
+
+  return "unknown";
+}
+
+// ============================================================================
+// Health Updates
+// ============================================================================
+
+/**
+ * Empty health record for a feed that has never been tracked.
+ */
+export function getDefaultFeedHealth(url: string): SourceFeedHealth {
+  return {
+    url,
+    consecutiveFailures: 0,
+    totalRuns: 0,
+    sampledRuns: 0,
+    avgItemsPerRun: 0,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    lastErrorClass: null,
+    errorCounts: {},
+    nextAttemptAt: null,
+    quarantined: false,
+    quarantinedAt: null,
+  };
+}
+
+/**
+ * Backoff delay after the given number of consecutive failures.
+ * Returns 0 while below the backoff threshold.
+ */
+export function backoffDelayMinutes(consecutiveFailures: number): number {
+  if (consecutiveFailures < BACKOFF_AFTER_FAILURES) return 0;
+  const exponent = consecutiveFailures - BACKOFF_AFTER_FAILURES;
+  return Math.min(BACKOFF_BASE_MINUTES * 2 ** exponent, BACKOFF_MAX_MINUTES);
+}
+
+/**
+ * Record a successful fetch.
+ *
+ * @param itemsFetched - Items in the feed, or null for 304 Not Modified
+ *   (which proves the feed is alive but says nothing about volume)
+ */
+export function recordFeedSuccess(
+  health: SourceFeedHealth,
+  itemsFetched: number | null,
+  now: Timestamp
+): SourceFeedHealth {
+  const sampledRuns = itemsFetched === null ? health.sampledRuns : health.sampledRuns + 1;
+  const avgItemsPerRun = itemsFetched === null
+    ? health.avgItemsPerRun
+    : health.avgItemsPerRun + (itemsFetched - health.avgItemsPerRun) / sampledRuns;
+
+  return {
+    ...health,
+    consecutiveFailures: 0,
+    totalRuns: health.totalRuns + 1,
+    sampledRuns,
+    avgItemsPerRun: Math.round(avgItemsPerRun * 100) / 100,
+    lastSuccessAt: now,
+    lastError: null,
+    lastErrorClass: null,
+    nextAttemptAt: null,
+  };
+}
+
+/**
+ * Record a failed fetch, scheduling backoff and quarantining at the threshold.
+ */
+export function recordFeedFailure(
+  health: SourceFeedHealth,
+  errorMessage: string,
+  now: Timestamp
+): SourceFeedHealth {
+  const errorClass = classifyFetchError(errorMessage);
+  const consecutiveFailures = health.consecutiveFailures + 1;
+  const delayMinutes = backoffDelayMinutes(consecutiveFailures);
+  const quarantine = !health.quarantined && consecutiveFailures >= QUARANTINE_THRESHOLD;
+
+  return {
+    ...health,
+    consecutiveFailures,
+    totalRuns: health.totalRuns + 1,
+    lastFailureAt: now,
+    lastError: errorMessage,
+    lastErrorClass: errorClass,
+    errorCounts: {
+      ...health.errorCounts,
+      [errorClass]: (health.errorCounts[errorClass] ?? 0) + 1,
+    },
+    nextAttemptAt: delayMinutes > 0
+      ? Timestamp.fromMillis(now.toMillis() + delayMinutes * 60 * 1000)
+      : null,
+    quarantined: health.quarantined || quarantine,
+    quarantinedAt: quarantine ? now : health.quarantinedAt,
+  };
+}
+
+/**
+ * Clear failure state so the feed is fetched on the next run.
+ * Keeps lifetime counters and averages for context.
+ */
+export function releaseFeedHealth(health: SourceFeedHealth): SourceFeedHealth {
+  return {
+    ...health,
+    consecutiveFailures: 0,
+    nextAttemptAt: null,
+    quarantined: false,
+    quarantinedAt: null,
+  };
+}
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+/**
+ * Decide whether a feed should be skipped this run.
+ * Quarantine always applies; backoff can be bypassed for manual backfills.
+ */
+export function shouldSkipFeed(
+  health: SourceFeedHealth | undefined,
+  now: Timestamp,
+  options?: { ignoreBackoff?: boolean }
+): FeedSkipDecision {
+  if (!health) return { skip: false };
+  if (health.quarantined) return { skip: true, reason: "quarantined" };
+  if (
+    !options?.ignoreBackoff &&
+    health.nextAttemptAt &&
+    health.nextAttemptAt.toMillis() > now.toMillis()
+  ) {
+    return { skip: true, reason: "backoff" };
+  }
+  return { skip: false };
+}
+
+/**
+ * Whether a feed needs attention (failing or quarantined).
+ */
+export function isFeedUnhealthy(health: SourceFeedHealth): boolean {
+  return health.quarantined || health.consecutiveFailures > 0;
+}
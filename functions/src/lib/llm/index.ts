@@ -0,0 +1,34 @@
+/**
+ * LLM module — provider-agnostic completions, streaming and embeddings
+ */
+
+export {
+  getLlmProvider,
+  getEmbeddingProvider,
+  setLlmProviders,
+} from "./provider.js";
+
+export { openAIProvider, openAIEmbeddingProvider } from "./openai-provider.js";
+
+export {
+  MOCK_MODEL,
+  MOCK_EMBEDDING_MODEL,
+  mockLlmProvider,
+  mockEmbeddingProvider,
+  mockJsonForSchema,
+  mockStreamAnswer,
+  mockEmbedding,
+  promptArticleIds,
+} from "./mock-provider.js";
+
+export type {
+  ChatTurn,
+  TokenUsage,
+  JsonCompletionRequest,
+  JsonCompletion,
+  TextStreamRequest,
+  TextStreamResult,
+  LlmProvider,
+  EmbeddingResult,
+  EmbeddingProvider,
+} from "./types.js";
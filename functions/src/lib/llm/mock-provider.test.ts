@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the deterministic mock LLM provider
+ *
+ * Run: npx tsx --test functions/src/lib/llm/mock-provider.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ARTICLE_AI_SCHEMA,
+  DAILY_BRIEF_SCHEMA,
+  DIGEST_SCHEMA,
+  GROUNDING_REPAIR_SCHEMA,
+  RAG_ANSWER_SCHEMA,
+  type DailyBriefResponse,
+} from "../ai/openai-client.js";
+import { verifyBriefGrounding } from "../ai/grounding.js";
+import { jsonSchemaErrors } from "../eval/score.js";
+import {
+  MOCK_MODEL,
+  mockEmbedding,
+  mockEmbeddingProvider,
+  mockLlmProvider,
+  promptArticleIds,
+} from "./mock-provider.js";
+
+type Schema = Record<string, unknown>;
+
+const BRIEF_PROMPT = [
+  "[aaaaaaaaaaaa1111] Allstate posts 95.2% combined ratio (Insurance Journal)",
+  "Catastrophe losses weighed on the quarter.",
+  "",
+  "[bbbbbbbbbbbb2222] Florida OIR approves rate cuts (Artemis)",
+  "Average homeowners rates fall.",
+].join("\n");
+
+function request(schemaName: string, schema: Schema, user = BRIEF_PROMPT) {
+  return { task: "dailyBrief" as const, system: "You are a test.", user, schemaName, schema };
+}
+
+// ============================================================================
+// Completions
+// ============================================================================
+
+describe("mockLlmProvider.completeJson", () => {
+  it("returns schema-valid JSON for every structured output", async () => {
+    const schemas: Array<[string, Schema]> = [
+      ["article_ai", ARTICLE_AI_SCHEMA],
+      ["daily_brief", DAILY_BRIEF_SCHEMA],
+      ["grounding_repair", GROUNDING_REPAIR_SCHEMA],
+      ["digest", DIGEST_SCHEMA],
+      ["rag_answer", RAG_ANSWER_SCHEMA],
+    ];
+    for (const [name, schema] of schemas) {
+      const { outputText, model } = await mockLlmProvider.completeJson(request(name, schema));
+      assert.equal(model, MOCK_MODEL);
+      assert.deepEqual(jsonSchemaErrors(JSON.parse(outputText), schema), [], name);
+    }
+  });
+
+  it("is deterministic per request and varies with the prompt", async () => {
+    const first = await mockLlmProvider.completeJson(request("article_ai", ARTICLE_AI_SCHEMA));
+    const again = await mockLlmProvider.completeJson(request("article_ai", ARTICLE_AI_SCHEMA));
+    const other = await mockLlmProvider.completeJson(request("article_ai", ARTICLE_AI_SCHEMA, "Another article"));
+    assert.equal(first.outputText, again.outputText);
+    assert.notEqual(first.outputText, other.outputText);
+  });
+
+  it("cites prompt articles, so a mock brief passes grounding", async () => {
+    const { outputText } = await mockLlmProvider.completeJson(request("daily_brief", DAILY_BRIEF_SCHEMA));
+    const brief = JSON.parse(outputText) as DailyBriefResponse;
+    const ids = ["aaaaaaaaaaaa1111", "bbbbbbbbbbbb2222"];
+
+    assert.ok(brief.topStories.every((s) => ids.includes(s.articleId)));
+    assert.deepEqual(brief.sections.regulation.articleIds, ids);
+    assert.deepEqual(
+      verifyBriefGrounding(brief, [
+        { id: ids[0], title: "Allstate posts 95.2% combined ratio", snippet: "" },
+        { id: ids[1], title: "Florida OIR approves rate cuts", snippet: "" },
+      ]),
+      []
+    );
+  });
+});
+
+describe("promptArticleIds", () => {
+  it("reads bracketed and RAG-style IDs, ignoring numbered sources", () => {
+    assert.deepEqual(
+      promptArticleIds("[1] ID:cccccccccccc3333\nTitle\n[aaaaaaaaaaaa1111] x [aaaaaaaaaaaa1111]"),
+      ["cccccccccccc3333", "aaaaaaaaaaaa1111"]
+    );
+  });
+});
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+describe("mockLlmProvider.streamText", () => {
+  it("streams a deterministic answer citing the first source", async () => {
+    const stream = async () => {
+      let text = "";
+      for await (const chunk of mockLlmProvider.streamText({
+        task: "ragAnswer",
+        system: "You are a test.",
+        user: "ARTICLES:\n[1] ID:cccccccccccc3333\n\nQUESTION: What moved?",
+      })) {
+        text += chunk;
+      }
+      return text;
+    };
+    const text = await stream();
+    assert.match(text, /\[1\]/);
+    assert.equal(await stream(), text);
+  });
+});
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+describe("mockEmbedding", () => {
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+  it("returns unit vectors of the requested size", async () => {
+    const { vectors } = await mockEmbeddingProvider.embed(["Florida homeowners rates", ""], 64);
+    for (const vector of vectors) {
+      assert.equal(vector.length, 64);
+      assert.ok(Math.abs(cosine(vector, vector) - 1) < 1e-9);
+    }
+  });
+
+  it("places texts sharing words closer than unrelated ones", () => {
+    const query = mockEmbedding("Florida homeowners rate filings", 256);
+    const related = mockEmbedding("Florida regulator approves homeowners rate cuts", 256);
+    const unrelated = mockEmbedding("Cyber reinsurance capacity expands at renewal", 256);
+    assert.ok(cosine(query, related) > cosine(query, unrelated));
+    assert.deepEqual(mockEmbedding("Florida", 256), mockEmbedding("florida", 256));
+  });
+});
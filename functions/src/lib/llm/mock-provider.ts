@@ -0,0 +1,240 @@
+/**
+ * Deterministic Mock Provider
+ *
+ * Offline stand-in for the OpenAI provider (LLM_PROVIDER=mock), so the
+ * brief, RAG, pulse narrative and earnings pipelines run in the emulator
+ * and in tests without network access.
+ *
+ * Completions are built from the request's JSON schema: every required
+ * property is filled, enums pick a member, and fields named articleId /
+ * articleIds reuse article IDs found in the prompt ("[id]" or "ID:id"), so
+ * grounding checks and citation mapping see real references. Text is made
+ * of plain words (no digits or names), which keeps mock briefs free of
+ * unsupported claims. Values are seeded by a hash of the request, so the
+ * same prompt always yields the same output.
+ *
+ * Embeddings hash each word into a signed bucket and L2-normalize, so texts
+ * sharing words are closer than unrelated ones. Usage is estimated at four
+ * characters per token.
+ */
+
+import type {
+  EmbeddingProvider,
+  EmbeddingResult,
+  JsonCompletion,
+  JsonCompletionRequest,
+  LlmProvider,
+  TextStreamRequest,
+  TextStreamResult,
+} from "./types.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MOCK_MODEL = "mock-llm";
+export const MOCK_EMBEDDING_MODEL = "mock-hash-embedding";
+
+/** Array length when the schema sets no bounds */
+const DEFAULT_ARRAY_LENGTH = 2;
+
+const MOCK_WORDS = [
+  "pricing", "capacity", "renewals", "reserves", "exposure", "retention",
+  "appetite", "underwriting", "claims", "severity", "frequency", "terms",
+  "conditions", "attachment", "placement", "adequacy", "momentum", "outlook",
+];
+
+const ARTICLE_ID_PATTERN = /(?:\[|ID:)([a-z0-9]{10,})/gi;
+
+const CHARS_PER_TOKEN = 4;
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// ============================================================================
+// Schema-driven Completions
+// ============================================================================
+
+type Schema = Record<string, unknown>;
+
+interface MockContext {
+  seed: string;
+  articleIds: string[];
+}
+
+/** Unique article IDs referenced in a prompt, in order of appearance */
+export function promptArticleIds(text: string): string[] {
+  return [...new Set([...text.matchAll(ARTICLE_ID_PATTERN)].map((m) => m[1]))];
+}
+
+function mockWords(path: string, ctx: MockContext, count: number): string {
+  const words: string[] = [];
+  for (let i = 0; i < count; i++) {
+    words.push(MOCK_WORDS[fnv1a(`${ctx.seed}|${path}|${i}`) % MOCK_WORDS.length]);
+  }
+  return words.join(" ");
+}
+
+function schemaType(schema: Schema): string | undefined {
+  const type = schema.type;
+  if (Array.isArray(type)) return type.find((t) => t !== "null") as string | undefined;
+  return type as string | undefined;
+}
+
+/** A value for `schema` at `path`; `key` is the nearest property name */
+function mockValue(schema: Schema, path: string, key: string, ctx: MockContext): unknown {
+  if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+    return mockValue(schema.anyOf[0] as Schema, path, key, ctx);
+  }
+
+  const hash = fnv1a(`${ctx.seed}|${path}`);
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[hash % schema.enum.length];
+  }
+
+  switch (schemaType(schema)) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, Schema>;
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(properties)) {
+        result[name] = mockValue(property, `${path}.${name}`, name, ctx);
+      }
+      return result;
+    }
+    case "array": {
+      const items = (schema.items ?? { type: "string" }) as Schema;
+      const min = typeof schema.minItems === "number" ? schema.minItems : 0;
+      const max = typeof schema.maxItems === "number" ? schema.maxItems : Infinity;
+      const length = Math.max(min, Math.min(max, DEFAULT_ARRAY_LENGTH));
+      if (key === "articleIds" && schemaType(items) === "string" && ctx.articleIds.length > 0) {
+        return ctx.articleIds.slice(0, length);
+      }
+      return Array.from({ length }, (_, i) => mockValue(items, `${path}[${i}]`, key, ctx));
+    }
+    case "string": {
+      if (key === "articleId" && ctx.articleIds.length > 0) {
+        return ctx.articleIds[hash % ctx.articleIds.length];
+      }
+      if (key === "url") return "";
+      return `Mock ${key}: ${mockWords(path, ctx, 4)}`;
+    }
+    case "integer":
+    case "number": {
+      const min = typeof schema.minimum === "number" ? schema.minimum : 0;
+      const max = typeof schema.maximum === "number" ? schema.maximum : min + 10;
+      return min + (hash % (Math.floor(max - min) + 1));
+    }
+    case "boolean":
+      return hash % 2 === 0;
+    default:
+      return null;
+  }
+}
+
+/**
+ * A deterministic value satisfying a strict JSON schema, seeded by `seed`
+ * and citing `articleIds` where the schema asks for article IDs.
+ */
+export function mockJsonForSchema(schema: Schema, seed: string, articleIds: string[] = []): unknown {
+  return mockValue(schema, "$", "", { seed, articleIds });
+}
+
+// ============================================================================
+// Streaming
+// ============================================================================
+
+/** A short markdown answer citing the first numbered source, if any */
+export function mockStreamAnswer(request: TextStreamRequest): string {
+  const ctx: MockContext = { seed: `${request.system}\n${request.user}`, articleIds: [] };
+  const citation = request.user.includes("[1]") ? " [1]" : "";
+  return [
+    `**Mock answer** — ${mockWords("$.answer", ctx, 8)}.${citation}`,
+    "",
+    `- ${mockWords("$.takeaway[0]", ctx, 5)}`,
+    `- ${mockWords("$.takeaway[1]", ctx, 5)}`,
+  ].join("\n");
+}
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+/**
+ * Signed feature-hashed bag of words, L2-normalized. Empty text maps to a
+ * fixed unit vector.
+ */
+export function mockEmbedding(text: string, dims: number): number[] {
+  const vector = new Array<number>(dims).fill(0);
+  const tokens = text.toLowerCase().split(/[^a-z0-9]+/).filter((t) => t.length >= 2);
+  for (const token of tokens) {
+    const hash = fnv1a(token);
+    vector[hash % dims] += (hash >>> 31) === 0 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export const mockLlmProvider: LlmProvider = {
+  name: "mock",
+
+  async completeJson(request: JsonCompletionRequest): Promise<JsonCompletion> {
+    const seed = `${request.schemaName}\n${request.system}\n${request.user}`;
+    const value = mockJsonForSchema(request.schema, seed, promptArticleIds(request.user));
+    const outputText = JSON.stringify(value);
+    return {
+      outputText,
+      model: MOCK_MODEL,
+      usage: { inputTokens: estimateTokens(request.system + request.user), outputTokens: estimateTokens(outputText) },
+    };
+  },
+
+  async *streamText(request: TextStreamRequest): AsyncGenerator<string, TextStreamResult> {
+    const answer = mockStreamAnswer(request);
+    for (const chunk of answer.split(/(?<= )/)) {
+      yield chunk;
+    }
+    return {
+      model: MOCK_MODEL,
+      usage: { inputTokens: estimateTokens(request.system + request.user), outputTokens: estimateTokens(answer) },
+    };
+  },
+};
+
+export const mockEmbeddingProvider: EmbeddingProvider = {
+  name: "mock",
+
+  async embed(texts: string[], dims: number): Promise<EmbeddingResult> {
+    return {
+      vectors: texts.map((t) => mockEmbedding(t, dims)),
+      model: MOCK_EMBEDDING_MODEL,
+      usage: { inputTokens: estimateTokens(texts.join("")), outputTokens: 0 },
+    };
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * OpenAI Provider
+ *
+ * Structured completions go through the Responses API with strict JSON
+ * schemas; streamed answers use Chat Completions streaming.
+ */
+
+import { getOpenAIClient } from "../ai/openai-client.js";
+import { EMBEDDING_MODEL, TASK_MODELS } from "../../config/llm.js";
+import type {
+  ChatTurn,
+  EmbeddingProvider,
+  EmbeddingResult,
+  JsonCompletion,
+  JsonCompletionRequest,
+  LlmProvider,
+  TextStreamRequest,
+  TextStreamResult,
+  TokenUsage,
+} from "./types.js";
+
+function messagesFor(
+  system: string,
+  history: ChatTurn[] | undefined,
+  user: string
+): Array<{ role: "system" | "user" | "assistant"; content: string }> {
+  return [
+    { role: "system", content: system },
+    ...(history ?? []).map((turn) => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: user },
+  ];
+}
+
+export const openAIProvider: LlmProvider = {
+  name: "openai",
+
+  async completeJson(request: JsonCompletionRequest): Promise<JsonCompletion> {
+    const model = TASK_MODELS[request.task];
+    const response = await getOpenAIClient().responses.create({
+      model,
+      max_output_tokens: request.maxOutputTokens,
+      temperature: request.temperature,
+      input: messagesFor(request.system, request.history, request.user),
+      text: {
+        format: {
+          type: "json_schema",
+          name: request.schemaName,
+          schema: request.schema,
+          strict: true,
+        },
+      },
+    });
+    const usage = response.usage
+      ? { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+      : null;
+    return { outputText: response.output_text, model, usage };
+  },
+
+  async *streamText(request: TextStreamRequest): AsyncGenerator<string, TextStreamResult> {
+    const model = TASK_MODELS[request.task];
+    const stream = await getOpenAIClient().chat.completions.create({
+      model,
+      messages: messagesFor(request.system, request.history, request.user),
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+    });
+
+    let usage: TokenUsage | null = null;
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
+      // The final chunk carries usage and no choices
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+    return { model, usage };
+  },
+};
+
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  name: "openai",
+
+  async embed(texts: string[], dims: number): Promise<EmbeddingResult> {
+    const response = await getOpenAIClient().embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts,
+      dimensions: dims,
+    });
+    // Sort by index so vectors line up with the inputs
+    const vectors = [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    return {
+      vectors,
+      model: EMBEDDING_MODEL,
+      usage: { inputTokens: response.usage.prompt_tokens, outputTokens: 0 },
+    };
+  },
+};
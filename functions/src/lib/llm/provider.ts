@@ -0,0 +1,120 @@
+/**
+ * Active LLM and Embedding Providers
+ *
+ * Pipelines call getLlmProvider() / getEmbeddingProvider() instead of the
+ * OpenAI client. The provider comes from LLM_PROVIDER (config/llm.ts);
+ * tests can swap in their own with setLlmProviders.
+ *
+ * Calls through the configured providers are timed and recorded in the AI
+ * usage ledger (lib/usage) with their task, model, tokens and caller.
+ */
+
+import { configuredLlmProvider } from "../../config/llm.js";
+import { recordAiUsage } from "../usage/index.js";
+import { mockEmbeddingProvider, mockLlmProvider } from "./mock-provider.js";
+import { openAIEmbeddingProvider, openAIProvider } from "./openai-provider.js";
+import type {
+  EmbeddingProvider,
+  EmbeddingResult,
+  JsonCompletion,
+  JsonCompletionRequest,
+  LlmProvider,
+  TextStreamRequest,
+  TextStreamResult,
+} from "./types.js";
+
+// ============================================================================
+// Usage Metering
+// ============================================================================
+
+/** Wrap a provider so each completion lands in the usage ledger */
+function meteredLlmProvider(provider: LlmProvider): LlmProvider {
+  return {
+    name: provider.name,
+
+    async completeJson(request: JsonCompletionRequest): Promise<JsonCompletion> {
+      const startedAt = Date.now();
+      const result = await provider.completeJson(request);
+      await recordAiUsage({
+        feature: request.task,
+        model: result.model,
+        uid: request.uid,
+        inputTokens: result.usage?.inputTokens ?? 0,
+        outputTokens: result.usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+      });
+      return result;
+    },
+
+    async *streamText(request: TextStreamRequest): AsyncGenerator<string, TextStreamResult> {
+      const startedAt = Date.now();
+      const result = yield* provider.streamText(request);
+      await recordAiUsage({
+        feature: request.task,
+        model: result.model,
+        uid: request.uid,
+        inputTokens: result.usage?.inputTokens ?? 0,
+        outputTokens: result.usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+      });
+      return result;
+    },
+  };
+}
+
+/** Wrap an embedding provider so each batch lands in the usage ledger */
+function meteredEmbeddingProvider(provider: EmbeddingProvider): EmbeddingProvider {
+  return {
+    name: provider.name,
+
+    async embed(texts: string[], dims: number): Promise<EmbeddingResult> {
+      const startedAt = Date.now();
+      const result = await provider.embed(texts, dims);
+      await recordAiUsage({
+        feature: "embeddings",
+        model: result.model,
+        inputTokens: result.usage?.inputTokens ?? 0,
+        outputTokens: 0,
+        latencyMs: Date.now() - startedAt,
+      });
+      return result;
+    },
+  };
+}
+
+const meteredProviders = {
+  openai: meteredLlmProvider(openAIProvider),
+  mock: meteredLlmProvider(mockLlmProvider),
+};
+
+const meteredEmbeddingProviders = {
+  openai: meteredEmbeddingProvider(openAIEmbeddingProvider),
+  mock: meteredEmbeddingProvider(mockEmbeddingProvider),
+};
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+let llmOverride: LlmProvider | null = null;
+let embeddingOverride: EmbeddingProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  return llmOverride ?? meteredProviders[configuredLlmProvider()];
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return embeddingOverride ?? meteredEmbeddingProviders[configuredLlmProvider()];
+}
+
+/**
+ * Replace the providers for this process (unmetered); null restores the
+ * configured one.
+ */
+export function setLlmProviders(next: {
+  llm?: LlmProvider | null;
+  embeddings?: EmbeddingProvider | null;
+}): void {
+  if (next.llm !== undefined) llmOverride = next.llm;
+  if (next.embeddings !== undefined) embeddingOverride = next.embeddings;
+}
@@ -0,0 +1,82 @@
+/**
+ * LLM Provider Interfaces
+ *
+ * Pipelines ask a provider for a structured JSON completion, a streamed
+ * text answer or embeddings, naming the task rather than a model; the
+ * provider resolves the model from config/llm.ts.
+ */
+
+import type { LlmTask } from "../../config/llm.js";
+
+/** An earlier turn of a conversation (RAG follow-ups) */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** Tokens billed for one call */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Request for output matching a strict JSON schema */
+export interface JsonCompletionRequest {
+  task: LlmTask;
+  /** User the call is made for (usage ledger attribution) */
+  uid?: string | null;
+  system: string;
+  /** Prior turns, sent between the system and user messages */
+  history?: ChatTurn[];
+  user: string;
+  /** Schema name reported to the model (e.g. "daily_brief") */
+  schemaName: string;
+  schema: Record<string, unknown>;
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+/** Raw JSON text from a completion; callers parse it */
+export interface JsonCompletion {
+  outputText: string;
+  /** Model that produced the output */
+  model: string;
+  /** Null when the provider didn't report usage */
+  usage: TokenUsage | null;
+}
+
+/** Request for a free-text answer streamed in chunks */
+export interface TextStreamRequest {
+  task: LlmTask;
+  uid?: string | null;
+  system: string;
+  history?: ChatTurn[];
+  user: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+/** Returned when a text stream ends */
+export interface TextStreamResult {
+  model: string;
+  usage: TokenUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  completeJson(request: JsonCompletionRequest): Promise<JsonCompletion>;
+  /** Yields text deltas in order */
+  streamText(request: TextStreamRequest): AsyncGenerator<string, TextStreamResult>;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input text, in input order */
+  vectors: number[][];
+  model: string;
+  usage: TokenUsage | null;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(texts: string[], dims: number): Promise<EmbeddingResult>;
+}
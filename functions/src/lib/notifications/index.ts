@@ -34,28 +34,47 @@ interface PushToken {
   platform: "ios" | "web";
 }
 
-interface NotificationPayload {
+export interface NotificationPayload {
   title: string;
   body: string;
   data?: Record<string, string>;
 }
 
+/** Preference a push is gated on (users/{uid}/prefs/main notifications.*) */
+export type NotificationPreference = "dailyBrief" | "breakingNews";
+
+/** A user with at least one registered push token */
+export interface UserWithTokens {
+  uid: string;
+  tokens: PushToken[];
+}
+
+/**
+ * Daily brief pushes are on unless turned off; breaking news is opt-in.
+ */
+function isOptedIn(
+  notifications: { dailyBrief?: boolean; breakingNews?: boolean } | undefined,
+  preference: NotificationPreference
+): boolean {
+  return preference === "dailyBrief"
+    ? notifications?.dailyBrief !== false
+    : notifications?.breakingNews === true;
+}
+
 /**
- * Get all push tokens for users who have daily brief notifications enabled
+ * Get all push tokens for users who have the given notification enabled
  */
-async function getOptedInTokens(): Promise<{ uid: string; tokens: PushToken[] }[]> {
-  const usersWithTokens: { uid: string; tokens: PushToken[] }[] = [];
+export async function getOptedInUsers(
+  preference: NotificationPreference = "dailyBrief"
+): Promise<UserWithTokens[]> {
+  const usersWithTokens: UserWithTokens[] = [];
 
-  // Get all users who have dailyBrief notifications enabled
   const usersSnap = await getDb().collectionGroup("prefs").get();
 
   for (const prefDoc of usersSnap.docs) {
     const prefs = prefDoc.data();
 
-    // Check if daily brief notifications are enabled (default is true)
-    const dailyBriefEnabled = prefs.notifications?.dailyBrief !== false;
-
-    if (!dailyBriefEnabled) {
+    if (!isOptedIn(prefs.notifications, preference)) {
       continue;
     }
 
@@ -79,15 +98,25 @@ async function getOptedInTokens(): Promise<{ uid: string; tokens: PushToken[] }[
 }
 
 /**
- * Send a notification to all opted-in users
- * Batches tokens for efficient sending and cleans up invalid tokens
+ * Send a notification to all users opted in to the given preference
+ * (the daily brief by default)
  */
 export async function sendNotificationToOptedInUsers(
-  payload: NotificationPayload
+  payload: NotificationPayload,
+  preference: NotificationPreference = "dailyBrief"
 ): Promise<{ sent: number; failed: number; cleaned: number }> {
-  console.log("[notifications] Starting notification send...");
+  console.log(`[notifications] Starting ${preference} notification send...`);
+  return sendNotificationToUsers(await getOptedInUsers(preference), payload);
+}
 
-  const usersWithTokens = await getOptedInTokens();
+/**
+ * Send a notification to the given users' devices
+ * Batches tokens for efficient sending and cleans up invalid tokens
+ */
+export async function sendNotificationToUsers(
+  usersWithTokens: UserWithTokens[],
+  payload: NotificationPayload
+): Promise<{ sent: number; failed: number; cleaned: number }> {
   const allTokens: { token: string; uid: string }[] = [];
 
   // Flatten all tokens with their user IDs
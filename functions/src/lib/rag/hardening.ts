@@ -9,13 +9,9 @@ import { createHash } from "crypto";
 import { getFirestore, Timestamp } from "firebase-admin/firestore";
 import * as logger from "firebase-functions/logger";
 import type { RagAnswerResponse } from "../ai/openai-client.js";
+import type { RagScope } from "./scope.js";
 
 // Local type definitions to avoid circular imports
-interface RagScope {
-  timeWindow: "today" | "7d" | "30d";
-  category: string;
-  sourceIds: string[] | null;
-}
 
 interface ArticleContext {
   id: string;
@@ -174,8 +170,13 @@ export function generateCacheKey(
     .digest("hex")
     .slice(0, 16);
 
-  // Hash the sources (or "all" if no filter)
-  const sourcesStr = scope.sourceIds?.sort().join(",") || "all";
+  // Hash the sources (or "all" if no filter), plus any entity filter
+  const entitiesStr = scope.entityKeys?.length ? `|${[...scope.entityKeys].sort().join(",")}` : "";
+  const geoStr = scope.geoKeys?.length ? `|geo:${[...scope.geoKeys].sort().join(",")}` : "";
+  const topicsStr = scope.topicTerms?.length ? `|terms:${[...scope.topicTerms].sort().join(",")}` : "";
+  const articlesStr = scope.articleIds ? `|articles:${[...scope.articleIds].sort().join(",")}` : "";
+  const sourcesStr =
+    (scope.sourceIds?.sort().join(",") || "all") + entitiesStr + geoStr + topicsStr + articlesStr;
   const sourcesHash = createHash("sha256")
     .update(sourcesStr)
     .digest("hex")
@@ -184,7 +185,10 @@ export function generateCacheKey(
   return {
     userId,
     queryHash,
-    scope: `${scope.timeWindow}_${scope.category}`,
+    scope:
+      scope.timeWindow === "custom"
+        ? `custom-${scope.dateFrom}-${scope.dateTo}_${scope.category}`
+        : `${scope.timeWindow}_${scope.category}`,
     sourcesHash,
     dateKey,
   };
@@ -323,6 +327,9 @@ export function validateRagResponse(response: unknown): {
       .filter((f): f is string => typeof f === "string")
       .slice(0, 5),
   };
+  if (typeof r.promptVersion === "string") {
+    sanitized.promptVersion = r.promptVersion;
+  }
 
   return { isValid: true, errors: [], sanitizedResponse: sanitized };
 }
@@ -436,6 +443,8 @@ export interface RagLogEntry {
   candidateCount: number;
   selectedCount: number;
   modelCalled: boolean;
+  /** Prompt version tag when the model was called */
+  promptVersion?: string;
   tokenEstimate?: number;
   latencyMs: number;
   success: boolean;
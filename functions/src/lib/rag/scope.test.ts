@@ -0,0 +1,155 @@
+/**
+ * Unit tests for RAG scopes
+ *
+ * Run: npx tsx --test functions/src/lib/rag/scope.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  articleInScope,
+  candidatePlan,
+  ragDateRange,
+  ragScopeError,
+  resolveScopeTopics,
+  startOfDayET,
+  type RagScope,
+} from "./scope.js";
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 15, 0, 0));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function scope(overrides: Partial<RagScope> = {}): RagScope {
+  return { timeWindow: "7d", category: "all", sourceIds: null, ...overrides };
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+describe("startOfDayET", () => {
+  it("follows daylight saving time", () => {
+    assert.equal(startOfDayET("2026-07-01").toISOString(), "2026-07-01T04:00:00.000Z");
+    assert.equal(startOfDayET("2026-01-15").toISOString(), "2026-01-15T05:00:00.000Z");
+  });
+});
+
+describe("ragDateRange", () => {
+  it("reaches back from now for preset windows", () => {
+    const range = ragDateRange(scope({ timeWindow: "90d" }), NOW);
+    assert.equal(NOW.getTime() - range.start.getTime(), 90 * DAY_MS);
+    assert.equal(range.end, null);
+    assert.equal(NOW.getTime() - ragDateRange(scope({ timeWindow: "today" }), NOW).start.getTime(), 1.5 * DAY_MS);
+  });
+
+  it("covers whole Eastern days for a custom range", () => {
+    const range = ragDateRange(scope({ timeWindow: "custom", dateFrom: "2026-03-01", dateTo: "2026-03-31" }), NOW);
+    assert.equal(range.start.toISOString(), "2026-03-01T05:00:00.000Z");
+    assert.equal(range.end?.toISOString(), "2026-04-01T04:00:00.000Z");
+  });
+});
+
+// ============================================================================
+// ragScopeError
+// ============================================================================
+
+describe("ragScopeError", () => {
+  it("accepts every preset window", () => {
+    for (const window of ["today", "7d", "30d", "90d", "1y"]) {
+      assert.equal(ragScopeError({ scope: window }, NOW), null);
+    }
+  });
+
+  it("rejects unknown windows", () => {
+    assert.match(ragScopeError({ scope: "2y" }, NOW) ?? "", /scope must be one of/);
+    assert.match(ragScopeError({}, NOW) ?? "", /scope must be one of/);
+  });
+
+  it("checks custom ranges", () => {
+    assert.equal(ragScopeError({ scope: "custom", dateFrom: "2026-01-01", dateTo: "2026-02-01" }, NOW), null);
+    assert.match(ragScopeError({ scope: "custom", dateFrom: "2026-01-01" }, NOW) ?? "", /dateFrom and dateTo/);
+    assert.match(ragScopeError({ scope: "custom", dateFrom: "2026-02-30", dateTo: "2026-03-01" }, NOW) ?? "", /yyyy-mm-dd/);
+    assert.match(ragScopeError({ scope: "custom", dateFrom: "2026-03-01", dateTo: "2026-02-01" }, NOW) ?? "", /on or before/);
+    assert.match(ragScopeError({ scope: "custom", dateFrom: "2026-11-01", dateTo: "2026-11-02" }, NOW) ?? "", /future/);
+    assert.match(ragScopeError({ scope: "custom", dateFrom: "2024-01-01", dateTo: "2026-01-01" }, NOW) ?? "", /at most 366 days/);
+  });
+
+  it("checks topics", () => {
+    assert.equal(ragScopeError({ scope: "7d", topics: ["workers comp"] }, NOW), null);
+    assert.match(ragScopeError({ scope: "7d", topics: "workers comp" }, NOW) ?? "", /topics must be/);
+    assert.match(ragScopeError({ scope: "7d", topics: [""] }, NOW) ?? "", /topics must be/);
+    assert.match(ragScopeError({ scope: "7d", topics: Array(11).fill("lloyds") }, NOW) ?? "", /topics must be/);
+  });
+});
+
+// ============================================================================
+// resolveScopeTopics
+// ============================================================================
+
+describe("resolveScopeTopics", () => {
+  it("maps topics to entities and keeps the rest as terms", () => {
+    const { entityKeys, terms } = resolveScopeTopics(["florida homeowners", "rate adequacy"]);
+    assert.deepEqual([...entityKeys].sort(), ["line:homeowners", "state:FL"]);
+    assert.deepEqual(terms, ["rate", "adequacy"]);
+  });
+});
+
+// ============================================================================
+// candidatePlan
+// ============================================================================
+
+describe("candidatePlan", () => {
+  it("reads bookmarks directly", () => {
+    assert.equal(candidatePlan(scope({ articleIds: [], entityKeys: ["company:lloyds"] }), ["flood"], NOW), "articles");
+  });
+
+  it("queries entity or geography tags when set", () => {
+    assert.equal(candidatePlan(scope({ timeWindow: "1y", geoKeys: ["state:FL"] }), ["flood"], NOW), "tagged");
+  });
+
+  it("adds a token search past a week", () => {
+    assert.equal(candidatePlan(scope({ timeWindow: "7d" }), ["flood"], NOW), "recent");
+    assert.equal(candidatePlan(scope({ timeWindow: "90d" }), ["flood"], NOW), "recent+tokens");
+    assert.equal(candidatePlan(scope({ timeWindow: "90d" }), [], NOW), "recent");
+    assert.equal(
+      candidatePlan(scope({ timeWindow: "custom", dateFrom: "2026-01-01", dateTo: "2026-03-31" }), ["flood"], NOW),
+      "recent+tokens"
+    );
+  });
+});
+
+// ============================================================================
+// articleInScope
+// ============================================================================
+
+describe("articleInScope", () => {
+  const article = {
+    sourceId: "insurance-journal",
+    categories: ["property_cat" as const],
+    entityKeys: ["company:lloyds"],
+    geoKeys: ["state:FL"],
+    publishedAt: Timestamp.fromDate(new Date(Date.UTC(2026, 2, 15))),
+  };
+  const march = scope({ timeWindow: "custom", dateFrom: "2026-03-01", dateTo: "2026-03-31" });
+  const range = ragDateRange(march, NOW);
+
+  it("matches when every filter passes", () => {
+    assert.equal(
+      articleInScope(
+        article,
+        { ...march, category: "property_cat", sourceIds: ["insurance-journal"], entityKeys: ["company:lloyds"], geoKeys: ["state:FL"] },
+        range
+      ),
+      true
+    );
+  });
+
+  it("rejects articles outside the range or filters", () => {
+    assert.equal(articleInScope({ ...article, publishedAt: Timestamp.fromDate(new Date(Date.UTC(2026, 3, 2))) }, march, range), false);
+    assert.equal(articleInScope(article, { ...march, category: "claims" }, range), false);
+    assert.equal(articleInScope(article, { ...march, sourceIds: ["artemis"] }, range), false);
+    assert.equal(articleInScope(article, { ...march, entityKeys: ["company:aig"] }, range), false);
+    assert.equal(articleInScope(article, { ...march, geoKeys: ["state:TX"] }, range), false);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * RAG Scopes
+ *
+ * What an Ask question searches: a time window (preset or a custom date
+ * range), category, sources, gazetteer entities (Pulse topics resolve to
+ * them), geography, and optionally only the user's bookmarks. Both answer
+ * endpoints validate with ragScopeError; fetchCandidateArticles reads the
+ * date range and retrieval plan from here.
+ */
+
+import { topicEntityKeys } from "../entities/index.js";
+import type { Article } from "../../types/firestore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RagTimeWindow = "today" | "7d" | "30d" | "90d" | "1y" | "custom";
+
+export const RAG_TIME_WINDOWS: readonly RagTimeWindow[] = ["today", "7d", "30d", "90d", "1y", "custom"];
+
+export interface RagScope {
+  timeWindow: RagTimeWindow;
+  /** First day of a "custom" window (yyyy-mm-dd, Eastern time) */
+  dateFrom?: string | null;
+  /** Last day of a "custom" window, inclusive (yyyy-mm-dd, Eastern time) */
+  dateTo?: string | null;
+  category: string;
+  sourceIds: string[] | null;
+  /** Gazetteer entity keys; an article matches if it mentions any of them (max 10) */
+  entityKeys?: string[] | null;
+  /** Geography keys ("state:FL", "region:europe"); an article matches if tagged with any (max 10) */
+  geoKeys?: string[] | null;
+  /** Only these articles (the user's bookmarks); the other filters still apply */
+  articleIds?: string[] | null;
+  /** Words from scoped topics that name no gazetteer entity (lexical boost only) */
+  topicTerms?: string[] | null;
+}
+
+/** How candidates are fetched for a scope */
+export type CandidatePlan =
+  /** The scope's articles by ID (bookmarks) */
+  | "articles"
+  /** Newest articles mentioning the scope's entities or geography */
+  | "tagged"
+  /** Newest articles in the window */
+  | "recent"
+  /** Newest articles plus articles anywhere in the window sharing a search token with the question */
+  | "recent+tokens";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Sources per question (queried 10 at a time) */
+export const MAX_SCOPE_SOURCES = 30;
+
+/** Pulse topics per question */
+export const MAX_SCOPE_TOPICS = 10;
+
+/** Longest custom range */
+export const MAX_CUSTOM_RANGE_DAYS = 366;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Preset windows in hours ("today" reaches back 36h to catch late-evening articles) */
+const WINDOW_HOURS: Record<Exclude<RagTimeWindow, "custom">, number> = {
+  "today": 36,
+  "7d": 7 * 24,
+  "30d": 30 * 24,
+  "90d": 90 * 24,
+  "1y": 365 * 24,
+};
+
+/**
+ * Past a week, the newest MAX_CANDIDATES articles no longer cover the
+ * window, so retrieval also searches the whole range by question token.
+ */
+const TOKEN_SEARCH_MIN_HOURS = 8 * 24;
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+function isDateKey(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_KEY_REGEX.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** Midnight Eastern time at the start of a yyyy-mm-dd day */
+export function startOfDayET(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  // Eastern is UTC-4 or UTC-5; read which from noon UTC that day
+  const noonUtc = new Date(Date.UTC(year, month - 1, day, 12));
+  const hourET = Number(
+    new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", hour: "numeric", hourCycle: "h23" }).format(noonUtc)
+  );
+  return new Date(Date.UTC(year, month - 1, day) + (12 - hourET) * HOUR_MS);
+}
+
+function nextDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Published-at range a scope covers: [start, end), with no end for preset
+ * windows (up to now).
+ */
+export function ragDateRange(
+  scope: Pick<RagScope, "timeWindow" | "dateFrom" | "dateTo">,
+  now: Date = new Date()
+): { start: Date; end: Date | null } {
+  if (scope.timeWindow === "custom" && scope.dateFrom && scope.dateTo) {
+    return { start: startOfDayET(scope.dateFrom), end: startOfDayET(nextDateKey(scope.dateTo)) };
+  }
+  const hours = scope.timeWindow === "custom" ? WINDOW_HOURS["30d"] : WINDOW_HOURS[scope.timeWindow];
+  return { start: new Date(now.getTime() - hours * HOUR_MS), end: null };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export function isRagTimeWindow(value: unknown): value is RagTimeWindow {
+  return typeof value === "string" && (RAG_TIME_WINDOWS as string[]).includes(value);
+}
+
+/**
+ * Validate the time window, custom range and topics of a request. Returns
+ * an error message, or null if valid.
+ */
+export function ragScopeError(
+  input: { scope?: unknown; dateFrom?: unknown; dateTo?: unknown; topics?: unknown },
+  now: Date = new Date()
+): string | null {
+  if (!isRagTimeWindow(input.scope)) {
+    return `scope must be one of: ${RAG_TIME_WINDOWS.join(", ")}.`;
+  }
+
+  if (input.scope === "custom") {
+    if (!isDateKey(input.dateFrom) || !isDateKey(input.dateTo)) {
+      return "A custom scope needs dateFrom and dateTo as yyyy-mm-dd.";
+    }
+    if (input.dateFrom > input.dateTo) {
+      return "dateFrom must be on or before dateTo.";
+    }
+    const { start, end } = ragDateRange({ timeWindow: "custom", dateFrom: input.dateFrom, dateTo: input.dateTo });
+    if (start.getTime() > now.getTime()) {
+      return "dateFrom must not be in the future.";
+    }
+    if ((end ?? now).getTime() - start.getTime() > (MAX_CUSTOM_RANGE_DAYS + 1) * 24 * HOUR_MS) {
+      return `A custom range can span at most ${MAX_CUSTOM_RANGE_DAYS} days.`;
+    }
+  }
+
+  if (input.topics !== undefined && input.topics !== null) {
+    if (
+      !Array.isArray(input.topics) ||
+      input.topics.length > MAX_SCOPE_TOPICS ||
+      input.topics.some((topic) => typeof topic !== "string" || topic.trim() === "" || topic.length > 100)
+    ) {
+      return `topics must be an array of at most ${MAX_SCOPE_TOPICS} topic keys.`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Topics
+// ============================================================================
+
+/**
+ * Resolve Pulse topic keys ("florida homeowners") to the gazetteer entities
+ * they name. Topics that name none contribute their words as lexical terms.
+ */
+export function resolveScopeTopics(topics: string[]): { entityKeys: string[]; terms: string[] } {
+  const entityKeys = new Set<string>();
+  const terms = new Set<string>();
+  for (const topic of topics) {
+    // Watchlist keys are lowercase; capitalize so state and company names match
+    const displayName = topic
+      .replace(/[_-]+/g, " ")
+      .trim()
+      .replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+    const keys = topicEntityKeys({ key: topic, displayName });
+    if (keys.length > 0) {
+      keys.forEach((key) => entityKeys.add(key));
+    } else {
+      displayName
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= 3)
+        .forEach((word) => terms.add(word));
+    }
+  }
+  return { entityKeys: [...entityKeys], terms: [...terms] };
+}
+
+// ============================================================================
+// Retrieval Plan
+// ============================================================================
+
+/**
+ * How fetchCandidateArticles gathers candidates. Bookmarks and entity or
+ * geography filters are selective on their own; other scopes longer than a
+ * week add a token search so older matching coverage is not cut off by
+ * recency.
+ */
+export function candidatePlan(scope: RagScope, queryTokens: string[], now: Date = new Date()): CandidatePlan {
+  if (scope.articleIds) return "articles";
+  if (scope.entityKeys?.length || scope.geoKeys?.length) return "tagged";
+  const { start, end } = ragDateRange(scope, now);
+  const hours = ((end ?? now).getTime() - start.getTime()) / HOUR_MS;
+  return hours >= TOKEN_SEARCH_MIN_HOURS && queryTokens.length > 0 ? "recent+tokens" : "recent";
+}
+
+/**
+ * Whether an article satisfies every filter of a scope. Candidate queries
+ * push one array filter down to Firestore; the rest are checked here.
+ */
+export function articleInScope(
+  article: Pick<Article, "sourceId" | "categories" | "entityKeys" | "geoKeys" | "publishedAt">,
+  scope: RagScope,
+  range: { start: Date; end: Date | null }
+): boolean {
+  const publishedMs = article.publishedAt?.toMillis?.() ?? 0;
+  if (publishedMs < range.start.getTime()) return false;
+  if (range.end && publishedMs >= range.end.getTime()) return false;
+  if (scope.sourceIds?.length && !scope.sourceIds.includes(article.sourceId)) return false;
+  if (scope.category && scope.category !== "all" && !article.categories?.some((c) => c === scope.category)) {
+    return false;
+  }
+  if (scope.entityKeys?.length && !article.entityKeys?.some((k) => scope.entityKeys?.includes(k))) return false;
+  if (scope.geoKeys?.length && !article.geoKeys?.some((k) => scope.geoKeys?.includes(k))) return false;
+  return true;
+}
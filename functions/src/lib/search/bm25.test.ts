@@ -0,0 +1,143 @@
+/**
+ * Unit tests for BM25 scoring
+ *
+ * Run: npx tsx --test functions/src/lib/search/bm25.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  indexDocuments,
+  parseSearchQuery,
+  rankPrefixExpansions,
+  scoreBm25,
+  searchMonthKey,
+  searchMonthsBetween,
+  tokenizeDocument,
+} from "./bm25.js";
+
+const DOCS = [
+  { id: "es", text: "Excess and surplus lines premiums grow as E&S carriers gain share", publishedAtMs: 3 },
+  { id: "apart", text: "Surplus notes issued; excess capacity in reinsurance markets", publishedAtMs: 2 },
+  { id: "cat", text: "Property catastrophe reinsurance pricing softens at January renewals", publishedAtMs: 1 },
+  { id: "citizens", text: "Citizens Property Insurance depopulation continues in Florida", publishedAtMs: 4 },
+];
+
+function search(query: string, options?: { prefixLast?: boolean }) {
+  const parsed = parseSearchQuery(query, options);
+  const corpus = indexDocuments(DOCS);
+  corpus.expansions = new Map(
+    parsed.terms
+      .filter((t) => t.prefix)
+      .map((t) => [t.text, [...corpus.postings.keys()].filter((term) => term.startsWith(t.text))])
+  );
+  return scoreBm25(parsed, corpus);
+}
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+describe("tokenizeDocument", () => {
+  it("keeps ampersand abbreviations and counts positions over indexed terms", () => {
+    const doc = tokenizeDocument("The E&S market: excess & surplus lines");
+    assert.deepEqual([...doc.terms.keys()], ["e&s", "market", "excess", "surplus", "lines"]);
+    assert.deepEqual(doc.terms.get("surplus"), [3]);
+    assert.equal(doc.length, 5);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("reads quoted phrases and starred prefixes", () => {
+    const query = parseSearchQuery("\"excess & surplus\" reinsur* Florida");
+    assert.deepEqual(query.phrases, [["excess", "surplus"]]);
+    assert.deepEqual(query.terms, [
+      { text: "excess", prefix: false },
+      { text: "surplus", prefix: false },
+      { text: "reinsur", prefix: true },
+      { text: "florida", prefix: false },
+    ]);
+  });
+
+  it("keeps domain words and drops function words", () => {
+    assert.deepEqual(parseSearchQuery("insurance").terms, [{ text: "insurance", prefix: false }]);
+    assert.deepEqual(parseSearchQuery("the of and").terms, []);
+  });
+
+  it("treats the last word as a prefix while typing", () => {
+    assert.deepEqual(parseSearchQuery("citizens prop", { prefixLast: true }).terms.at(-1), { text: "prop", prefix: true });
+    assert.deepEqual(parseSearchQuery("citizens prop ", { prefixLast: true }).terms.at(-1), { text: "prop", prefix: false });
+    assert.deepEqual(parseSearchQuery("citizens pr", { prefixLast: true }).terms.at(-1), { text: "pr", prefix: false });
+    assert.deepEqual(parseSearchQuery("citizens pro", { prefixLast: true }).terms.at(-1), { text: "pro", prefix: false });
+    assert.deepEqual(parseSearchQuery("citizens pro*", { prefixLast: true }).terms.at(-1), { text: "pro", prefix: true });
+  });
+});
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+describe("scoreBm25", () => {
+  it("ranks adjacent terms above the same terms apart", () => {
+    const hits = search("excess & surplus");
+    assert.deepEqual(hits.map((h) => h.id), ["es", "apart"]);
+  });
+
+  it("requires quoted phrases", () => {
+    assert.deepEqual(search("\"excess and surplus\"").map((h) => h.id), ["es"]);
+  });
+
+  it("matches prefixes below exact terms", () => {
+    const hits = search("reinsur*");
+    assert.deepEqual(hits.map((h) => h.id).sort(), ["apart", "cat"]);
+    assert.deepEqual(hits[0].matchedTerms, ["reinsurance"]);
+    const exact = search("reinsurance");
+    assert.ok(exact[0].score > hits[0].score);
+  });
+
+  it("weights rare terms above common ones", () => {
+    const hits = search("citizens property");
+    assert.equal(hits[0].id, "citizens");
+    assert.deepEqual(hits[0].matchedTerms, ["citizens", "property"]);
+  });
+
+  it("returns nothing when no term matches", () => {
+    assert.deepEqual(search("cyber"), []);
+  });
+});
+
+// ============================================================================
+// Prefix Expansion
+// ============================================================================
+
+describe("rankPrefixExpansions", () => {
+  const entries: Array<{ term: string; months: Record<string, number> }> = [
+    { term: "reinsurance", months: { "202609": 40, "202610": 12 } },
+    { term: "reinsurer", months: { "202610": 30 } },
+    { term: "reinstate", months: { "202501": 90 } },
+    { term: "reins", months: { "202610": 0 } },
+    { term: "reinsured", months: { "202610": 2 } },
+  ];
+
+  it("ranks by articles in the searched months and drops absent terms", () => {
+    assert.deepEqual(rankPrefixExpansions(entries, new Set(["202609", "202610"]), 5), ["reinsurance", "reinsurer", "reinsured"]);
+    assert.deepEqual(rankPrefixExpansions(entries, new Set(["202610"]), 2), ["reinsurer", "reinsurance"]);
+  });
+
+  it("looks past terms that only occur outside the window", () => {
+    const many = Array.from({ length: 50 }, (_, i) => ({ term: `reina${i}`, months: { "202001": 5 } }));
+    assert.deepEqual(rankPrefixExpansions([...many, ...entries], new Set(["202610"]), 1), ["reinsurer"]);
+  });
+});
+
+// ============================================================================
+// Months
+// ============================================================================
+
+describe("search months", () => {
+  it("buckets by UTC month and spans year ends", () => {
+    assert.equal(searchMonthKey(Date.UTC(2026, 9, 19)), "202610");
+    assert.deepEqual(searchMonthsBetween(Date.UTC(2025, 10, 30), Date.UTC(2026, 1, 1)), ["202511", "202512", "202601", "202602"]);
+    assert.deepEqual(searchMonthsBetween(Date.UTC(2026, 9, 1), Date.UTC(2026, 9, 19)), ["202610"]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * BM25 Scoring
+ *
+ * Tokenizes article text into terms with positions, parses search queries
+ * (quoted phrases, "term*" prefixes) and scores documents with Okapi BM25
+ * from postings. Adjacent query terms found side by side in a document earn
+ * a phrase bonus, so "excess & surplus" ranks "excess and surplus lines"
+ * above an article that mentions both words apart; quoted phrases must
+ * match. The same scorer ranks the persistent search index and in-memory
+ * candidate sets (indexDocuments); reading and writing the index in
+ * Firestore is left to store.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One document's occurrences of one term */
+export interface Posting {
+  /** Document length in terms */
+  length: number;
+  publishedAtMs: number;
+  /** Term positions (ascending) */
+  positions: number[];
+}
+
+/** Postings of one term, by document ID */
+export type TermPostings = Record<string, Posting>;
+
+export interface TokenizedDocument {
+  length: number;
+  /** Positions per term */
+  terms: Map<string, number[]>;
+}
+
+export interface QueryTerm {
+  text: string;
+  /** Also matches index terms that start with the text */
+  prefix: boolean;
+}
+
+export interface SearchQuery {
+  terms: QueryTerm[];
+  /** Quoted phrases; a document must contain each one */
+  phrases: string[][];
+}
+
+export interface Bm25Corpus {
+  /** Postings per index term (query terms and their prefix expansions) */
+  postings: Map<string, TermPostings>;
+  /** Index terms each prefix query term expanded to */
+  expansions?: Map<string, string[]>;
+  docCount: number;
+  totalLength: number;
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+  publishedAtMs: number;
+  /** Index terms that matched (for highlighting) */
+  matchedTerms: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Length normalization
+
+/** Weight of a prefix expansion relative to an exact match */
+const PREFIX_WEIGHT = 0.6;
+
+/** Share of two adjacent terms' scores added when they appear side by side */
+const PHRASE_BONUS = 0.5;
+
+/** Query terms considered */
+export const MAX_SEARCH_TERMS = 10;
+
+/** Prefixes shorter than this match exactly */
+const MIN_PREFIX_LENGTH = 3;
+
+/** Same, for the word being typed (short prefixes expand to many terms) */
+const MIN_TYPING_PREFIX_LENGTH = 4;
+
+/**
+ * Not indexed: function words, whose postings would be large and whose
+ * BM25 weight is near zero anyway. Domain words like "insurance" stay
+ * indexed, since readers search for them on their own.
+ */
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from",
+  "has", "have", "he", "in", "is", "it", "its", "of", "on", "or",
+  "that", "the", "to", "was", "were", "will", "with", "this", "their",
+  "they", "but", "not", "what", "who", "which", "when", "where", "how",
+  "all", "been", "being", "had", "her", "him", "his", "more", "new",
+  "our", "said", "says", "she", "than", "them", "then", "there", "these",
+  "we", "you", "your", "can", "could", "into", "may", "so", "would",
+  "about", "after", "also", "any", "do", "just", "most", "now", "only",
+  "other", "over", "such", "through",
+]);
+
+/**
+ * Words, numbers, and ampersand abbreviations kept whole ("e&s", "p&c").
+ * A lone "&" is dropped, so "excess & surplus" reads as two adjacent terms.
+ */
+const TOKEN_REGEX = /[a-z0-9]+(?:&[a-z0-9]+)*/g;
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+function tokens(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_REGEX) ?? []).filter(
+    (token) => (token.length >= 2 || token.includes("&")) && !STOPWORDS.has(token)
+  );
+}
+
+/** Text an article is indexed under */
+export function articleSearchText(article: { title: string; snippet: string }): string {
+  return `${article.title}\n${article.snippet}`;
+}
+
+/** Terms with positions; positions count indexed terms only */
+export function tokenizeDocument(text: string): TokenizedDocument {
+  const terms = new Map<string, number[]>();
+  const all = tokens(text);
+  all.forEach((term, position) => {
+    const positions = terms.get(term) ?? [];
+    positions.push(position);
+    terms.set(term, positions);
+  });
+  return { length: all.length, terms };
+}
+
+/**
+ * Parse a search box or question. Quoted text becomes a required phrase,
+ * "term*" a prefix; with prefixLast the final term is a prefix too (search
+ * as you type).
+ */
+export function parseSearchQuery(query: string, options: { prefixLast?: boolean } = {}): SearchQuery {
+  const phrases: string[][] = [];
+  const unquoted = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const phraseTokens = tokens(phrase);
+    if (phraseTokens.length > 1) phrases.push(phraseTokens);
+    return ` ${phrase} `;
+  });
+
+  const terms: QueryTerm[] = [];
+  const seen = new Set<string>();
+  const words = unquoted.split(/\s+/).filter(Boolean);
+  words.forEach((word, i) => {
+    const starred = word.endsWith("*");
+    const wordTokens = tokens(word);
+    wordTokens.forEach((text, j) => {
+      const last = j === wordTokens.length - 1;
+      const typing = options.prefixLast && i === words.length - 1 && !/[\s"]$/.test(query);
+      const prefix =
+        last &&
+        ((starred && text.length >= MIN_PREFIX_LENGTH) || (!!typing && text.length >= MIN_TYPING_PREFIX_LENGTH));
+      const key = `${text}${prefix ? "*" : ""}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        terms.push({ text, prefix });
+      }
+    });
+  });
+
+  return { terms: terms.slice(0, MAX_SEARCH_TERMS), phrases };
+}
+
+// ============================================================================
+// In-Memory Index
+// ============================================================================
+
+/**
+ * Postings and corpus statistics for a small document set (e.g. the
+ * candidates of one Ask question). Only terms in `keepTerms` are kept when
+ * given.
+ */
+export function indexDocuments(
+  docs: Array<{ id: string; text: string; publishedAtMs: number }>,
+  keepTerms?: (term: string) => boolean
+): Bm25Corpus {
+  const postings = new Map<string, TermPostings>();
+  let totalLength = 0;
+  for (const doc of docs) {
+    const tokenized = tokenizeDocument(doc.text);
+    totalLength += tokenized.length;
+    for (const [term, positions] of tokenized.terms) {
+      if (keepTerms && !keepTerms(term)) continue;
+      const termPostings = postings.get(term) ?? {};
+      termPostings[doc.id] = { length: tokenized.length, publishedAtMs: doc.publishedAtMs, positions };
+      postings.set(term, termPostings);
+    }
+  }
+  return { postings, docCount: docs.length, totalLength };
+}
+
+/** Whether an index term satisfies a query term */
+export function termMatches(queryTerm: QueryTerm, term: string): boolean {
+  return queryTerm.prefix ? term.startsWith(queryTerm.text) : term === queryTerm.text;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function idf(docCount: number, df: number): number {
+  const n = Math.max(docCount, df);
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+function hasSequence(positionLists: number[][]): boolean {
+  const [first, ...rest] = positionLists;
+  return first.some((start) => rest.every((positions, i) => positions.includes(start + i + 1)));
+}
+
+/**
+ * Rank documents for a query, best first (ties: newest first). A query
+ * term's score in a document is its best-scoring index term (the exact term
+ * or a prefix expansion).
+ */
+export function scoreBm25(query: SearchQuery, corpus: Bm25Corpus): Bm25Hit[] {
+  const avgLength = corpus.docCount > 0 ? corpus.totalLength / corpus.docCount : 1;
+
+  // Per query term: document → { score, positions of the best index term }
+  const perTerm = query.terms.map((queryTerm) => {
+    const indexTerms = queryTerm.prefix
+      ? [...new Set([queryTerm.text, ...(corpus.expansions?.get(queryTerm.text) ?? [])])]
+      : [queryTerm.text];
+    const best = new Map<string, { score: number; positions: number[]; term: string; posting: Posting }>();
+    for (const term of indexTerms) {
+      const termPostings = corpus.postings.get(term);
+      if (!termPostings || !termMatches(queryTerm, term)) continue;
+      const weight = (term === queryTerm.text ? 1 : PREFIX_WEIGHT) * idf(corpus.docCount, Object.keys(termPostings).length);
+      for (const [id, posting] of Object.entries(termPostings)) {
+        const tf = posting.positions.length;
+        const norm = 1 - BM25_B + BM25_B * (posting.length / avgLength);
+        const score = (weight * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+        const current = best.get(id);
+        if (!current || score > current.score) best.set(id, { score, positions: posting.positions, term, posting });
+      }
+    }
+    return best;
+  });
+
+  const scores = new Map<string, Bm25Hit>();
+  perTerm.forEach((best) => {
+    for (const [id, match] of best) {
+      const hit = scores.get(id) ?? { id, score: 0, publishedAtMs: match.posting.publishedAtMs, matchedTerms: [] };
+      hit.score += match.score;
+      if (!hit.matchedTerms.includes(match.term)) hit.matchedTerms.push(match.term);
+      scores.set(id, hit);
+    }
+  });
+
+  // Adjacent query terms side by side
+  for (let i = 0; i + 1 < perTerm.length; i++) {
+    for (const [id, a] of perTerm[i]) {
+      const b = perTerm[i + 1].get(id);
+      if (b && a.positions.some((p) => b.positions.includes(p + 1))) {
+        scores.get(id)!.score += PHRASE_BONUS * (a.score + b.score);
+      }
+    }
+  }
+
+  // Required phrases
+  const hits = [...scores.values()].filter((hit) =>
+    query.phrases.every((phrase) => {
+      const lists = phrase.map((term) => corpus.postings.get(term)?.[hit.id]?.positions);
+      return lists.every((l): l is number[] => !!l) && hasSequence(lists as number[][]);
+    })
+  );
+
+  return hits.sort((a, b) => b.score - a.score || b.publishedAtMs - a.publishedAtMs);
+}
+
+// ============================================================================
+// Prefix Expansion
+// ============================================================================
+
+/**
+ * Dictionary terms a prefix expands to: those with the most articles in
+ * the searched months (ties: shorter first)
+ */
+export function rankPrefixExpansions(
+  entries: Array<{ term: string; months: Record<string, number> }>,
+  months: Set<string>,
+  max: number
+): string[] {
+  return entries
+    .map((entry) => ({
+      term: entry.term,
+      count: Object.entries(entry.months ?? {})
+        .filter(([month]) => months.has(month))
+        .reduce((sum, [, count]) => sum + Math.max(0, count), 0),
+    }))
+    .filter((entry) => entry.count > 0)
+    .sort((a, b) => b.count - a.count || a.term.length - b.term.length)
+    .slice(0, max)
+    .map((entry) => entry.term);
+}
+
+// ============================================================================
+// Months
+// ============================================================================
+
+/** Index bucket for a publish time: "yyyymm" (UTC) */
+export function searchMonthKey(ms: number): string {
+  const date = new Date(ms);
+  return `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/** Month buckets covering [startMs, endMs], oldest first */
+export function searchMonthsBetween(startMs: number, endMs: number): string[] {
+  const months: string[] = [];
+  const cursor = new Date(startMs);
+  let year = cursor.getUTCFullYear();
+  let month = cursor.getUTCMonth();
+  const last = searchMonthKey(endMs);
+  for (;;) {
+    const key = `${year}${String(month + 1).padStart(2, "0")}`;
+    if (key > last) break;
+    months.push(key);
+    month++;
+    if (month === 12) {
+      month = 0;
+      year++;
+    }
+  }
+  return months;
+}
@@ -0,0 +1,23 @@
+/**
+ * Unit tests for rank fusion
+ *
+ * Run: npx tsx --test functions/src/lib/search/fusion.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { reciprocalRankFusion } from "./fusion.js";
+
+describe("reciprocalRankFusion", () => {
+  it("lifts items ranked well in both lists", () => {
+    const fused = reciprocalRankFusion([
+      ["a", "b", "c"],
+      ["b", "d", "a"],
+    ]);
+    assert.deepEqual(fused.map((f) => f.id), ["b", "a", "d", "c"]);
+  });
+
+  it("keeps first-appearance order on ties", () => {
+    assert.deepEqual(reciprocalRankFusion([["x"], ["y"]]).map((f) => f.id), ["x", "y"]);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Rank Fusion
+ *
+ * Combines rankings whose scores are not comparable (BM25 and cosine
+ * similarity) by reciprocal rank: each list contributes 1 / (k + rank) to
+ * an item, so items near the top of either list rise and items in both
+ * rise further.
+ */
+
+/** Damping constant from the original reciprocal rank fusion paper */
+export const RRF_K = 60;
+
+/**
+ * Fuse ranked ID lists, best first. Ties keep the order of first
+ * appearance (earlier lists first).
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
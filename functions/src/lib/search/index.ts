@@ -0,0 +1,49 @@
+/**
+ * Search Module Exports
+ */
+
+export {
+  MAX_SEARCH_TERMS,
+  articleSearchText,
+  tokenizeDocument,
+  parseSearchQuery,
+  indexDocuments,
+  termMatches,
+  scoreBm25,
+  rankPrefixExpansions,
+  searchMonthKey,
+  searchMonthsBetween,
+  type Posting,
+  type TermPostings,
+  type TokenizedDocument,
+  type QueryTerm,
+  type SearchQuery,
+  type Bm25Corpus,
+  type Bm25Hit,
+} from "./bm25.js";
+
+export { RRF_K, reciprocalRankFusion } from "./fusion.js";
+
+export {
+  blendRecency,
+  highlightText,
+  highlightFragment,
+  timeWindowStartMs,
+  matchesFacetFilters,
+  countSearchFacets,
+  type HighlightSegment,
+  type SearchTimeWindow,
+  type FacetItem,
+  type FacetFilters,
+  type SearchFacets,
+} from "./results.js";
+
+export {
+  indexArticle,
+  unindexArticle,
+  reindexArticle,
+  rebuildSearchIndex,
+  searchArticleIndex,
+  type SearchIndexOptions,
+  type SearchIndexResult,
+} from "./store.js";
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for search results (recency, highlighting, facets)
+ *
+ * Run: npx tsx --test functions/src/lib/search/results.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSearchQuery } from "./bm25.js";
+import {
+  blendRecency,
+  countSearchFacets,
+  highlightFragment,
+  highlightText,
+  type FacetItem,
+} from "./results.js";
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function marked(segments: Array<{ text: string; match: boolean }>): string {
+  return segments.map((s) => (s.match ? `[${s.text}]` : s.text)).join("");
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+describe("blendRecency", () => {
+  it("lets a fresh article pass a slightly better old match but not a much better one", () => {
+    const hits = [
+      { id: "old", score: 1.1, publishedAtMs: NOW - 365 * DAY_MS, matchedTerms: [] },
+      { id: "fresh", score: 1.0, publishedAtMs: NOW, matchedTerms: [] },
+    ];
+    assert.deepEqual(blendRecency(hits, NOW).map((h) => h.id), ["fresh", "old"]);
+    hits[0].score = 2;
+    assert.deepEqual(blendRecency(hits, NOW).map((h) => h.id), ["old", "fresh"]);
+  });
+});
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+describe("highlightText", () => {
+  it("marks exact and prefix matches case-insensitively, merging adjacent words", () => {
+    const terms = parseSearchQuery("excess & surplus reinsur*").terms;
+    assert.equal(
+      marked(highlightText("Excess & Surplus lines lean on Reinsurers", terms)),
+      "[Excess & Surplus] lines lean on [Reinsurers]"
+    );
+  });
+
+  it("keeps ampersand abbreviations whole", () => {
+    assert.equal(marked(highlightText("E&S rates vs. P&C", parseSearchQuery("e&s").terms)), "[E&S] rates vs. P&C");
+  });
+});
+
+describe("highlightFragment", () => {
+  it("returns short snippets whole", () => {
+    assert.equal(marked(highlightFragment("Citizens shrinks", parseSearchQuery("citizens").terms)), "[Citizens] shrinks");
+  });
+
+  it("cuts long snippets around the first match at word boundaries", () => {
+    const text = `${"filler words ".repeat(20)}Citizens depopulation continues ${"more words ".repeat(20)}`.trim();
+    const fragment = marked(highlightFragment(text, parseSearchQuery("citizens").terms, 80));
+    assert.ok(fragment.startsWith("…"));
+    assert.ok(fragment.endsWith("…"));
+    assert.ok(fragment.includes("[Citizens] depopulation"));
+    assert.ok(fragment.length <= 80 + "[]……".length);
+    assert.match(fragment, /^…(filler|words) /);
+    assert.match(fragment, / (more|words)…$/);
+  });
+});
+
+// ============================================================================
+// Facets
+// ============================================================================
+
+describe("countSearchFacets", () => {
+  const items: FacetItem[] = [
+    { sourceId: "ij", sourceName: "Insurance Journal", categories: ["property_cat"], publishedAtMs: NOW - 2 * 60 * 60 * 1000 },
+    { sourceId: "ij", sourceName: "Insurance Journal", categories: ["regulation"], publishedAtMs: NOW - 3 * DAY_MS },
+    { sourceId: "am", sourceName: "AM Best", categories: ["property_cat", "reinsurance"], publishedAtMs: NOW - 30 * DAY_MS },
+  ];
+
+  it("counts every value with no filters", () => {
+    const facets = countSearchFacets(items, { sourceIds: null, category: null, timeWindow: "all" }, NOW);
+    assert.deepEqual(facets.sources, [
+      { id: "ij", name: "Insurance Journal", count: 2 },
+      { id: "am", name: "AM Best", count: 1 },
+    ]);
+    assert.deepEqual(facets.categories, { property_cat: 2, regulation: 1, reinsurance: 1 });
+    assert.deepEqual(facets.timeWindows, { "24h": 1, "7d": 2, all: 3 });
+  });
+
+  it("applies the other facets' filters but not its own", () => {
+    const facets = countSearchFacets(items, { sourceIds: ["ij"], category: "property_cat", timeWindow: "7d" }, NOW);
+    // Sources: category + window
+    assert.deepEqual(facets.sources, [{ id: "ij", name: "Insurance Journal", count: 1 }]);
+    // Categories: source + window
+    assert.deepEqual(facets.categories, { property_cat: 1, regulation: 1 });
+    // Windows: source + category
+    assert.deepEqual(facets.timeWindows, { "24h": 1, "7d": 1, all: 1 });
+  });
+});
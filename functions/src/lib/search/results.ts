@@ -0,0 +1,212 @@
+/**
+ * Search Results
+ *
+ * Turns BM25 hits into Feed search results: blends relevance with recency,
+ * marks matched words in titles and snippets (a fragment around the first
+ * match for long snippets), and counts results per source, category and
+ * time window. Each facet is counted with the other facets' filters
+ * applied, so its counts say how many results picking that value would
+ * show.
+ */
+
+import { termMatches, type Bm25Hit, type QueryTerm } from "./bm25.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A run of text, marked when it matched the query */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export type SearchTimeWindow = "24h" | "7d" | "all";
+
+/** What facets are counted over */
+export interface FacetItem {
+  sourceId: string;
+  sourceName: string;
+  categories: string[];
+  publishedAtMs: number;
+}
+
+export interface FacetFilters {
+  /** null: any */
+  sourceIds: string[] | null;
+  category: string | null;
+  timeWindow: SearchTimeWindow;
+}
+
+export interface SearchFacets {
+  /** Most results first */
+  sources: Array<{ id: string; name: string; count: number }>;
+  categories: Record<string, number>;
+  /** Cumulative: "7d" includes "24h", "all" includes both */
+  timeWindows: Record<SearchTimeWindow, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Share of the score that decays with age */
+const RECENCY_WEIGHT = 0.3;
+
+/** Age at which the recency share halves */
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/** Snippets longer than this are cut to a fragment around the first match */
+const MAX_FRAGMENT_CHARS = 180;
+
+/** Same tokens as the index (case-insensitive, so offsets match the text) */
+const TOKEN_REGEX = /[a-z0-9]+(?:&[a-z0-9]+)*/gi;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Re-rank hits by relevance and recency: a fixed share of each score
+ * decays with age, so a fresh article outranks a slightly better match
+ * from last year but not a much better one.
+ */
+export function blendRecency(hits: Bm25Hit[], nowMs: number, halfLifeDays: number = RECENCY_HALF_LIFE_DAYS): Bm25Hit[] {
+  return hits
+    .map((hit) => {
+      const ageDays = Math.max(0, nowMs - hit.publishedAtMs) / DAY_MS;
+      const decay = Math.pow(0.5, ageDays / halfLifeDays);
+      return { ...hit, score: hit.score * (1 - RECENCY_WEIGHT + RECENCY_WEIGHT * decay) };
+    })
+    .sort((a, b) => b.score - a.score || b.publishedAtMs - a.publishedAtMs);
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+/** Character ranges of matched words, adjacent matches merged */
+function matchRanges(text: string, terms: QueryTerm[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const word = match[0].toLowerCase();
+    if (!terms.some((term) => termMatches(term, word))) continue;
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const last = ranges[ranges.length - 1];
+    if (last && /^[\s&]*$/.test(text.slice(last[1], start))) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Split text into segments, marking words that satisfy a query term.
+ * Matches separated only by spaces or "&" merge, so "excess & surplus"
+ * is one mark.
+ */
+export function highlightText(text: string, terms: QueryTerm[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of matchRanges(text, terms)) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+/**
+ * Highlighted fragment of a snippet: the whole snippet when short,
+ * otherwise about maxChars around the first match, cut at word boundaries
+ * with ellipses.
+ */
+export function highlightFragment(
+  text: string,
+  terms: QueryTerm[],
+  maxChars: number = MAX_FRAGMENT_CHARS
+): HighlightSegment[] {
+  if (text.length <= maxChars) return highlightText(text, terms);
+
+  const matchAt = matchRanges(text, terms)[0]?.[0] ?? 0;
+  let start = Math.max(0, Math.min(matchAt - Math.floor(maxChars / 3), text.length - maxChars));
+  let end = Math.min(text.length, start + maxChars);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < matchAt) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > matchAt) end = space;
+  }
+
+  const segments = highlightText(text.slice(start, end).trim(), terms);
+  if (start > 0) segments.unshift({ text: "\u2026", match: false });
+  if (end < text.length) segments.push({ text: "\u2026", match: false });
+  return segments;
+}
+
+// ============================================================================
+// Facets
+// ============================================================================
+
+/** Start of a time window, or null for "all" */
+export function timeWindowStartMs(timeWindow: SearchTimeWindow, nowMs: number): number | null {
+  if (timeWindow === "24h") return nowMs - DAY_MS;
+  if (timeWindow === "7d") return nowMs - 7 * DAY_MS;
+  return null;
+}
+
+function inTimeWindow(item: FacetItem, timeWindow: SearchTimeWindow, nowMs: number): boolean {
+  const startMs = timeWindowStartMs(timeWindow, nowMs);
+  return startMs === null || item.publishedAtMs >= startMs;
+}
+
+/** Whether an item passes every filter */
+export function matchesFacetFilters(item: FacetItem, filters: FacetFilters, nowMs: number): boolean {
+  return (
+    (!filters.sourceIds || filters.sourceIds.includes(item.sourceId)) &&
+    (!filters.category || item.categories.includes(filters.category)) &&
+    inTimeWindow(item, filters.timeWindow, nowMs)
+  );
+}
+
+/**
+ * Count results per facet value. Each facet ignores its own filter and
+ * applies the others.
+ */
+export function countSearchFacets(items: FacetItem[], filters: FacetFilters, nowMs: number): SearchFacets {
+  const sources = new Map<string, { id: string; name: string; count: number }>();
+  const categories: Record<string, number> = {};
+  const timeWindows: Record<SearchTimeWindow, number> = { "24h": 0, "7d": 0, all: 0 };
+
+  for (const item of items) {
+    if (matchesFacetFilters(item, { ...filters, sourceIds: null }, nowMs)) {
+      const source = sources.get(item.sourceId) ?? { id: item.sourceId, name: item.sourceName, count: 0 };
+      source.count++;
+      sources.set(item.sourceId, source);
+    }
+    if (matchesFacetFilters(item, { ...filters, category: null }, nowMs)) {
+      for (const category of item.categories) {
+        categories[category] = (categories[category] ?? 0) + 1;
+      }
+    }
+    if (matchesFacetFilters(item, { ...filters, timeWindow: "all" }, nowMs)) {
+      for (const window of ["24h", "7d", "all"] as const) {
+        if (inTimeWindow(item, window, nowMs)) timeWindows[window]++;
+      }
+    }
+  }
+
+  return {
+    sources: [...sources.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    categories,
+    timeWindows,
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Search Index Persistence
+ *
+ * - searchPostings/{term}_{yyyymm}: postings of one term among relevant
+ *   articles published that UTC month
+ * - searchStats/{yyyymm}: article count and total length that month
+ * - searchTerms/{term}: articles containing the term per month (the term
+ *   dictionary searches use to skip empty months and expand prefixes)
+ *
+ * Ingest indexes each new relevant article and re-indexes publisher edits;
+ * relevance feedback adds or removes articles. Month buckets keep each
+ * document small and let a search read only the months its window covers.
+ * rebuildSearchIndex recreates everything from the articles collection.
+ */
+
+import {
+  FieldPath,
+  FieldValue,
+  getFirestore,
+  Timestamp,
+  type QueryDocumentSnapshot,
+  type WriteBatch,
+} from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { Article, SearchPostingsDoc, SearchStatsDoc, SearchTermDoc } from "../../types/firestore.js";
+import {
+  articleSearchText,
+  parseSearchQuery,
+  rankPrefixExpansions,
+  scoreBm25,
+  searchMonthKey,
+  searchMonthsBetween,
+  tokenizeDocument,
+  type Bm25Hit,
+  type TermPostings,
+} from "./bm25.js";
+import { blendRecency } from "./results.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Writes per batch (Firestore allows 500) */
+const WRITE_BATCH_SIZE = 400;
+
+/** Articles read per page while rebuilding */
+const REBUILD_PAGE_SIZE = 1000;
+
+/** Index terms a prefix expands to (the ones in the most articles) */
+const MAX_PREFIX_EXPANSIONS = 5;
+
+/** Dictionary terms scanned per prefix (alphabetically) */
+const PREFIX_SCAN_LIMIT = 300;
+
+/** Posting buckets read per search; past this the oldest months are skipped */
+const MAX_BUCKET_READS = 150;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type IndexableArticle = Pick<Article, "id" | "title" | "snippet" | "publishedAt">;
+
+export interface SearchIndexOptions {
+  startMs: number;
+  /** Exclusive; defaults to now */
+  endMs?: number | null;
+  limit: number;
+  /** Treat the last query word as a prefix (search as you type) */
+  prefixLast?: boolean;
+  /** Rank by relevance and recency instead of relevance alone */
+  recency?: boolean;
+}
+
+export interface SearchIndexResult {
+  hits: Bm25Hit[];
+  /** Matching articles before the limit */
+  total: number;
+  bucketsRead: number;
+}
+
+// ============================================================================
+// Incremental Updates
+// ============================================================================
+
+function postingsRef(term: string, month: string) {
+  return getFirestore().collection("searchPostings").doc(`${term}_${month}`);
+}
+
+function termRef(term: string) {
+  return getFirestore().collection("searchTerms").doc(term);
+}
+
+async function commitInBatches(writes: Array<(batch: WriteBatch) => void>): Promise<void> {
+  const db = getFirestore();
+  for (let i = 0; i < writes.length; i += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + WRITE_BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+async function writeArticlePostings(article: IndexableArticle, direction: 1 | -1): Promise<void> {
+  const publishedAtMs = article.publishedAt.toMillis();
+  const month = searchMonthKey(publishedAtMs);
+  const doc = tokenizeDocument(articleSearchText(article));
+
+  const writes: Array<(batch: WriteBatch) => void> = [...doc.terms].flatMap(
+    ([term, positions]): Array<(batch: WriteBatch) => void> => [
+      (batch) =>
+        batch.set(
+          postingsRef(term, month),
+          {
+            term,
+            month,
+            postings: {
+              [article.id]: direction === 1 ? { length: doc.length, publishedAtMs, positions } : FieldValue.delete(),
+            },
+          },
+          { merge: true }
+        ),
+      (batch) =>
+        batch.set(termRef(term), { term, months: { [month]: FieldValue.increment(direction) } }, { merge: true }),
+    ]
+  );
+  writes.push((batch) =>
+    batch.set(
+      getFirestore().collection("searchStats").doc(month),
+      {
+        month,
+        docCount: FieldValue.increment(direction),
+        totalLength: FieldValue.increment(direction * doc.length),
+        updatedAt: Timestamp.now(),
+      },
+      { merge: true }
+    )
+  );
+  await commitInBatches(writes);
+}
+
+/**
+ * Add a relevant article to the index.
+ */
+export async function indexArticle(article: IndexableArticle): Promise<void> {
+  await writeArticlePostings(article, 1);
+}
+
+/**
+ * Remove an article (as last indexed) from the index.
+ */
+export async function unindexArticle(article: IndexableArticle): Promise<void> {
+  await writeArticlePostings(article, -1);
+}
+
+/**
+ * Re-index an article whose title, snippet or publish date changed.
+ */
+export async function reindexArticle(before: IndexableArticle, after: IndexableArticle): Promise<void> {
+  const unchanged =
+    articleSearchText(before) === articleSearchText(after) &&
+    before.publishedAt.toMillis() === after.publishedAt.toMillis();
+  if (unchanged) return;
+  await unindexArticle(before);
+  await indexArticle(after);
+}
+
+// ============================================================================
+// Rebuild
+// ============================================================================
+
+/**
+ * Recreate the index from every relevant article (backfill, or to repair
+ * drift). The old index is deleted first, so searches find little until
+ * the rebuild finishes.
+ */
+export async function rebuildSearchIndex(): Promise<{ articles: number; buckets: number; terms: number; months: number }> {
+  const db = getFirestore();
+  const buckets = new Map<string, SearchPostingsDoc>();
+  const terms = new Map<string, SearchTermDoc>();
+  const stats = new Map<string, { docCount: number; totalLength: number }>();
+
+  let articles = 0;
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    let query = db
+      .collection("articles")
+      .where("isRelevant", "==", true)
+      .orderBy("publishedAt", "desc")
+      .select("title", "snippet", "publishedAt")
+      .limit(REBUILD_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    for (const doc of snap.docs) {
+      const article = doc.data() as Pick<Article, "title" | "snippet" | "publishedAt">;
+      const publishedAtMs = article.publishedAt?.toMillis?.() ?? 0;
+      const month = searchMonthKey(publishedAtMs);
+      const tokenized = tokenizeDocument(articleSearchText(article));
+      for (const [term, positions] of tokenized.terms) {
+        const key = `${term}_${month}`;
+        const bucket = buckets.get(key) ?? { term, month, postings: {} };
+        bucket.postings[doc.id] = { length: tokenized.length, publishedAtMs, positions };
+        buckets.set(key, bucket);
+        const entry = terms.get(term) ?? { term, months: {} };
+        entry.months[month] = (entry.months[month] ?? 0) + 1;
+        terms.set(term, entry);
+      }
+      const monthStats = stats.get(month) ?? { docCount: 0, totalLength: 0 };
+      monthStats.docCount++;
+      monthStats.totalLength += tokenized.length;
+      stats.set(month, monthStats);
+      articles++;
+    }
+
+    if (snap.size < REBUILD_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  await db.recursiveDelete(db.collection("searchPostings"));
+  await db.recursiveDelete(db.collection("searchStats"));
+  await db.recursiveDelete(db.collection("searchTerms"));
+
+  const writer = db.bulkWriter();
+  for (const [key, bucket] of buckets) {
+    writer.set(db.collection("searchPostings").doc(key), bucket);
+  }
+  for (const [term, entry] of terms) {
+    writer.set(termRef(term), entry);
+  }
+  const now = Timestamp.now();
+  for (const [month, monthStats] of stats) {
+    const doc: SearchStatsDoc = { month, ...monthStats, updatedAt: now };
+    writer.set(db.collection("searchStats").doc(month), doc);
+  }
+  await writer.close();
+
+  const summary = { articles, buckets: buckets.size, terms: terms.size, months: stats.size };
+  logger.info("Search index rebuilt", summary);
+  return summary;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Dictionary entries of index terms starting with a prefix that occur in
+ * the given months, most common first
+ */
+async function expandPrefix(prefix: string, months: Set<string>): Promise<SearchTermDoc[]> {
+  const snap = await getFirestore()
+    .collection("searchTerms")
+    .where(FieldPath.documentId(), ">=", prefix)
+    .where(FieldPath.documentId(), "<", `${prefix}\uf8ff`)
+    .limit(PREFIX_SCAN_LIMIT)
+    .get();
+
+  const entries = snap.docs.map((doc) => doc.data() as SearchTermDoc);
+  const byTerm = new Map(entries.map((entry) => [entry.term, entry]));
+  return rankPrefixExpansions(entries, months, MAX_PREFIX_EXPANSIONS).flatMap((term) => byTerm.get(term) ?? []);
+}
+
+/**
+ * BM25 search over relevant articles published in [startMs, endMs).
+ * Reads the postings of each query term (and prefix expansion) for the
+ * months the window covers, skipping months the term dictionary says a
+ * term is absent from; past MAX_BUCKET_READS the oldest months are left
+ * out. Other filters are left to the caller.
+ */
+export async function searchArticleIndex(query: string, options: SearchIndexOptions): Promise<SearchIndexResult> {
+  const parsed = parseSearchQuery(query, { prefixLast: options.prefixLast });
+  if (parsed.terms.length === 0) return { hits: [], total: 0, bucketsRead: 0 };
+
+  const db = getFirestore();
+  const endMs = options.endMs ?? Date.now();
+  const months = searchMonthsBetween(options.startMs, endMs);
+  const monthSet = new Set(months);
+
+  // Months each index term occurs in: exact terms read from the dictionary,
+  // prefixes expanded against it
+  const termMonths = new Map<string, Record<string, number>>();
+  const exactTerms = [...new Set(parsed.terms.map((t) => t.text))];
+  for (const snap of await db.getAll(...exactTerms.map((term) => termRef(term)))) {
+    if (snap.exists) termMonths.set(snap.id, (snap.data() as SearchTermDoc).months ?? {});
+  }
+  const expansions = new Map<string, string[]>();
+  for (const term of parsed.terms.filter((t) => t.prefix)) {
+    const entries = await expandPrefix(term.text, monthSet);
+    expansions.set(term.text, entries.map((entry) => entry.term));
+    for (const entry of entries) termMonths.set(entry.term, entry.months ?? {});
+  }
+
+  // Newest months first, so the cap drops the oldest
+  const refs = [...months]
+    .reverse()
+    .flatMap((month) =>
+      [...termMonths]
+        .filter(([, counts]) => (counts[month] ?? 0) > 0)
+        .map(([term]) => postingsRef(term, month))
+    )
+    .slice(0, MAX_BUCKET_READS);
+  const chunks: Array<typeof refs> = [];
+  for (let i = 0; i < refs.length; i += 100) chunks.push(refs.slice(i, i + 100));
+  const [bucketSnaps, statSnaps] = await Promise.all([
+    Promise.all(chunks.map((chunk) => db.getAll(...chunk))),
+    db.getAll(...months.map((month) => db.collection("searchStats").doc(month))),
+  ]);
+
+  // Merge months per term, keeping the window
+  const postings = new Map<string, TermPostings>();
+  let bucketsRead = 0;
+  for (const snap of bucketSnaps.flat()) {
+    if (!snap.exists) continue;
+    bucketsRead++;
+    const bucket = snap.data() as SearchPostingsDoc;
+    const termPostings = postings.get(bucket.term) ?? {};
+    for (const [id, posting] of Object.entries(bucket.postings ?? {})) {
+      if (posting.publishedAtMs >= options.startMs && posting.publishedAtMs < endMs) termPostings[id] = posting;
+    }
+    postings.set(bucket.term, termPostings);
+  }
+
+  let docCount = 0;
+  let totalLength = 0;
+  for (const snap of statSnaps) {
+    const monthStats = snap.data() as SearchStatsDoc | undefined;
+    docCount += monthStats?.docCount ?? 0;
+    totalLength += monthStats?.totalLength ?? 0;
+  }
+
+  const scored = scoreBm25(parsed, { postings, expansions, docCount, totalLength });
+  const hits = options.recency ? blendRecency(scored, Date.now()) : scored;
+  return { hits: hits.slice(0, options.limit), total: hits.length, bucketsRead };
+}
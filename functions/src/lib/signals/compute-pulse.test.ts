@@ -271,6 +271,22 @@ describe("computePulseSnapshot", () => {
     assert.equal(typeMap.get("swiss re"), "reinsurer");
   });
 
+  it("tags topics with gazetteer entities", () => {
+    const briefs = makeBriefs([
+      { date: "2026-02-07", topics: ["Swiss Re", "Workers Compensation", "Florida Homeowners", "M&A"] },
+    ]);
+
+    const snapshot = computePulseSnapshot(briefs, "2026-02-10", 7);
+
+    const entityMap = new Map(
+      snapshot.rising.map((t) => [t.key, t.entityKeys])
+    );
+    assert.deepEqual(entityMap.get("swiss re"), ["company:swiss-re"]);
+    assert.deepEqual(entityMap.get("workers comp"), ["line:workers-comp"]);
+    assert.deepEqual(entityMap.get("florida homeowners"), ["state:FL", "line:homeowners"]);
+    assert.deepEqual(entityMap.get("m&a"), []);
+  });
+
   it("is idempotent (same input → same output)", () => {
     const briefs = makeBriefs([
       { date: "2026-02-05", topics: ["nuclear verdicts", "CAT Bonds"] },
@@ -11,6 +11,7 @@
 import { canonicalTopicKey, pickDisplayName } from "./topic-normalization.js";
 import { classifyTopic, type TopicType } from "./topic-classification.js";
 import { dateRange } from "./compute-signals.js";
+import { topicEntityKeys } from "../entities/extract.js";
 
 // ============================================================================
 // Types
@@ -46,6 +47,8 @@ export interface PulseTopic {
   uniqueSources: number;
   /** Array[windowDays] of daily mention counts (oldest first) */
   trendSeries: number[];
+  /** Gazetteer entity keys the topic refers to (e.g. "line:workers-comp") */
+  entityKeys: string[];
 }
 
 /** Complete pulse snapshot result */
@@ -138,9 +141,11 @@ export function computePulseSnapshot(
       recentDatesArr
     );
 
+    const displayName = pickDisplayName(key, rawNames);
+
     topics.push({
       key,
-      displayName: pickDisplayName(key, rawNames),
+      displayName,
       type: classifyTopic(key),
       mentions,
       baselineMentions,
@@ -148,6 +153,7 @@ export function computePulseSnapshot(
       daysPresent,
       uniqueSources,
       trendSeries,
+      entityKeys: topicEntityKeys({ key, displayName }),
     });
   }
 
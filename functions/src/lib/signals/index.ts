@@ -16,6 +16,7 @@ export {
 export {
   canonicalTopicKey,
   pickDisplayName,
+  topicSynonyms,
 } from "./topic-normalization.js";
 
 // Topic classification
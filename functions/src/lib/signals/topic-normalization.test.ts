@@ -9,6 +9,7 @@ import assert from "node:assert/strict";
 import {
   canonicalTopicKey,
   pickDisplayName,
+  topicSynonyms,
 } from "./topic-normalization.js";
 
 // ============================================================================
@@ -167,3 +168,21 @@ describe("pickDisplayName", () => {
     assert.equal(d1, d2); // Alphabetical tiebreak
   });
 });
+
+// ============================================================================
+// topicSynonyms
+// ============================================================================
+
+describe("topicSynonyms", () => {
+  it("lists every phrase that normalizes to the canonical form", () => {
+    const phrases = topicSynonyms("workers comp");
+    assert.deepEqual(phrases.sort(), ["workers comp claims", "workers compensation"]);
+    for (const phrase of phrases) {
+      assert.equal(canonicalTopicKey(phrase), "workers comp");
+    }
+  });
+
+  it("returns an empty list for unknown forms", () => {
+    assert.deepEqual(topicSynonyms("not a topic"), []);
+  });
+});
@@ -266,6 +266,18 @@ export function pickDisplayName(
   return matching[0];
 }
 
+/**
+ * All synonym phrases that normalize to a canonical form.
+ * Lets the entity gazetteer reuse these aliases instead of duplicating them.
+ */
+export function topicSynonyms(canonical: string): string[] {
+  const phrases: string[] = [];
+  for (const [phrase, target] of SYNONYM_MAP) {
+    if (target === canonical) phrases.push(phrase);
+  }
+  return phrases;
+}
+
 // ============================================================================
 // Exports for testing
 // ============================================================================
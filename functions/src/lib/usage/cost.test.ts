@@ -0,0 +1,83 @@
+/**
+ * Unit tests for AI usage costing and spend reports
+ *
+ * Run: npx tsx --test functions/src/lib/usage/cost.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AiUsageDaily, AiUsageTotals } from "../../types/firestore.js";
+import { estimateCostUsd, summarizeAiUsage } from "./cost.js";
+
+function totals(calls: number, costUsd: number): AiUsageTotals {
+  return { calls, inputTokens: calls * 1000, outputTokens: calls * 100, costUsd };
+}
+
+// ============================================================================
+// estimateCostUsd
+// ============================================================================
+
+describe("estimateCostUsd", () => {
+  it("prices input and output tokens per model", () => {
+    assert.equal(estimateCostUsd("gpt-4o", 10_000, 1_000), 0.035);
+    assert.equal(estimateCostUsd("gpt-4o-mini", 10_000, 1_000), 0.0021);
+    assert.equal(estimateCostUsd("text-embedding-3-small", 500, 0), 0.00001);
+  });
+
+  it("charges nothing for unpriced models", () => {
+    assert.equal(estimateCostUsd("mock-llm", 10_000, 1_000), 0);
+  });
+});
+
+// ============================================================================
+// summarizeAiUsage
+// ============================================================================
+
+describe("summarizeAiUsage", () => {
+  const days: Omit<AiUsageDaily, "updatedAt">[] = [
+    {
+      date: "2026-10-17",
+      ...totals(3, 0.3),
+      byFeature: { dailyBrief: totals(1, 0.2), ragAnswer: totals(2, 0.1) },
+      byModel: { "gpt-4o": totals(1, 0.2), "gpt-4o-mini": totals(2, 0.1) },
+      byUser: { alice: totals(2, 0.1) },
+    },
+    {
+      date: "2026-10-19",
+      ...totals(2, 0.15),
+      byFeature: { ragAnswer: totals(2, 0.15) },
+      byModel: { "gpt-4o-mini": totals(2, 0.15) },
+      byUser: { alice: totals(1, 0.05), bob: totals(1, 0.1) },
+    },
+  ];
+
+  it("rolls days up by feature, model and user, most expensive first", () => {
+    const report = summarizeAiUsage(["2026-10-17", "2026-10-18", "2026-10-19"], days, 10);
+
+    assert.deepEqual(report.totals, totals(5, 0.45));
+    assert.deepEqual(
+      report.byFeature.map((r) => [r.key, r.calls, r.costUsd]),
+      [["ragAnswer", 4, 0.25], ["dailyBrief", 1, 0.2]]
+    );
+    assert.deepEqual(
+      report.byModel.map((r) => [r.key, r.costUsd]),
+      [["gpt-4o-mini", 0.25], ["gpt-4o", 0.2]]
+    );
+    assert.deepEqual(
+      report.topUsers.map((r) => [r.key, r.calls, r.costUsd]),
+      [["alice", 3, 0.15], ["bob", 1, 0.1]]
+    );
+  });
+
+  it("fills missing days with zeros and caps top users", () => {
+    const report = summarizeAiUsage(["2026-10-17", "2026-10-18", "2026-10-19"], days, 1);
+
+    assert.deepEqual(
+      report.byDay.map((d) => [d.date, d.calls, d.costUsd]),
+      [["2026-10-17", 3, 0.3], ["2026-10-18", 0, 0], ["2026-10-19", 2, 0.15]]
+    );
+    assert.equal(report.startDate, "2026-10-17");
+    assert.equal(report.endDate, "2026-10-19");
+    assert.deepEqual(report.topUsers.map((r) => r.key), ["alice"]);
+  });
+});
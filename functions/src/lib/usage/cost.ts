@@ -0,0 +1,118 @@
+/**
+ * AI Usage Costing and Reporting
+ *
+ * Prices a model call from its token counts and rolls daily aggregates up
+ * into the admin spend report (by day, feature, model and top users).
+ */
+
+import { MODEL_PRICING } from "../../config/llm.js";
+import type { AiUsageDaily, AiUsageTotals } from "../../types/firestore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One row of a report breakdown */
+export interface AiUsageRow extends AiUsageTotals {
+  /** Feature, model or UID */
+  key: string;
+}
+
+export interface AiUsageReport {
+  /** First and last day covered (yyyy-mm-dd) */
+  startDate: string;
+  endDate: string;
+  totals: AiUsageTotals;
+  /** Oldest first; days without usage are included as zeros */
+  byDay: Array<AiUsageTotals & { date: string }>;
+  /** Most expensive first */
+  byFeature: AiUsageRow[];
+  byModel: AiUsageRow[];
+  topUsers: AiUsageRow[];
+}
+
+// ============================================================================
+// Cost
+// ============================================================================
+
+/** Round to a millionth of a dollar (avoids float noise in stored sums) */
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Estimated USD cost of a call. Unpriced models (the mock) cost nothing.
+ */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICING[model];
+  if (!price) return 0;
+  return roundUsd((inputTokens * price.input + outputTokens * price.output) / 1_000_000);
+}
+
+export function emptyUsageTotals(): AiUsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addTotals(into: AiUsageTotals, from: AiUsageTotals): void {
+  into.calls += from.calls;
+  into.inputTokens += from.inputTokens;
+  into.outputTokens += from.outputTokens;
+  into.costUsd = roundUsd(into.costUsd + from.costUsd);
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+function toRows(totals: Map<string, AiUsageTotals>, limit = Infinity): AiUsageRow[] {
+  return [...totals.entries()]
+    .map(([key, t]) => ({ key, ...t }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+/**
+ * Roll daily aggregates for `dates` (oldest first) into a spend report.
+ * Missing days count as zero.
+ */
+export function summarizeAiUsage(
+  dates: string[],
+  days: Omit<AiUsageDaily, "updatedAt">[],
+  topUserLimit: number
+): AiUsageReport {
+  const byDate = new Map(days.map((d) => [d.date, d]));
+  const totals = emptyUsageTotals();
+  const features = new Map<string, AiUsageTotals>();
+  const models = new Map<string, AiUsageTotals>();
+  const users = new Map<string, AiUsageTotals>();
+
+  const mergeInto = (target: Map<string, AiUsageTotals>, source: Record<string, AiUsageTotals> | undefined) => {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (!target.has(key)) target.set(key, emptyUsageTotals());
+      addTotals(target.get(key)!, value);
+    }
+  };
+
+  const byDay = dates.map((date) => {
+    const day = byDate.get(date);
+    const dayTotals = emptyUsageTotals();
+    if (day) {
+      addTotals(dayTotals, day);
+      mergeInto(features, day.byFeature);
+      mergeInto(models, day.byModel);
+      mergeInto(users, day.byUser);
+    }
+    addTotals(totals, dayTotals);
+    return { date, ...dayTotals };
+  });
+
+  return {
+    startDate: dates[0] ?? "",
+    endDate: dates[dates.length - 1] ?? "",
+    totals,
+    byDay,
+    byFeature: toRows(features),
+    byModel: toRows(models),
+    topUsers: toRows(users, topUserLimit),
+  };
+}
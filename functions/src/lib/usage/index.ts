@@ -0,0 +1,18 @@
+/**
+ * Usage module — AI usage ledger, spend reports and the daily budget guard
+ */
+
+export {
+  estimateCostUsd,
+  emptyUsageTotals,
+  summarizeAiUsage,
+  type AiUsageRow,
+  type AiUsageReport,
+} from "./cost.js";
+
+export {
+  usageDateKey,
+  recordAiUsage,
+  checkAiBudget,
+  getAiUsageReport,
+} from "./ledger.js";
@@ -0,0 +1,179 @@
+/**
+ * AI Usage Ledger
+ *
+ * Every model call is written to aiUsage/{recordId} and added to the
+ * day's running totals in aiUsageDaily/{yyyy-mm-dd}. The daily totals back
+ * the admin spend report and the daily budget guard.
+ */
+
+import { getFirestore, FieldValue, Timestamp } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  BUDGET_EXEMPT_TASKS,
+  dailyAiBudgetUsd,
+  type AiUsageFeature,
+} from "../../config/llm.js";
+import type { AiUsageDaily, AiUsageRecord, AiUsageTotals } from "../../types/firestore.js";
+import { estimateCostUsd, summarizeAiUsage, type AiUsageReport } from "./cost.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long per-call records are kept (enforced by a Firestore TTL policy on expiresAt) */
+const USAGE_RETENTION_DAYS = 30;
+
+/** How long a read of today's spend is reused by the budget guard */
+const SPEND_CACHE_MS = 60 * 1000;
+
+/** Last read of today's spend (kept current by this instance's own writes) */
+let spendCache: { date: string; spentUsd: number; readAt: number } | null = null;
+
+// ============================================================================
+// Write
+// ============================================================================
+
+/**
+ * Current date key in yyyy-mm-dd (America/New_York timezone).
+ */
+export function usageDateKey(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function increment(totals: AiUsageTotals) {
+  return {
+    calls: FieldValue.increment(totals.calls),
+    inputTokens: FieldValue.increment(totals.inputTokens),
+    outputTokens: FieldValue.increment(totals.outputTokens),
+    costUsd: FieldValue.increment(totals.costUsd),
+  };
+}
+
+/**
+ * Record one model call. Never throws: the ledger is bookkeeping and must
+ * not fail the call it describes.
+ */
+export async function recordAiUsage(entry: {
+  feature: AiUsageFeature;
+  model: string;
+  uid?: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}): Promise<void> {
+  try {
+    const db = getFirestore();
+    const now = new Date();
+    const date = usageDateKey(now);
+    const costUsd = estimateCostUsd(entry.model, entry.inputTokens, entry.outputTokens);
+    const uid = entry.uid ?? null;
+
+    const record: AiUsageRecord = {
+      feature: entry.feature,
+      model: entry.model,
+      uid,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      costUsd,
+      latencyMs: Math.round(entry.latencyMs),
+      date,
+      createdAt: Timestamp.fromDate(now),
+      expiresAt: Timestamp.fromMillis(now.getTime() + USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    };
+
+    const call: AiUsageTotals = {
+      calls: 1,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      costUsd,
+    };
+
+    const batch = db.batch();
+    batch.set(db.collection("aiUsage").doc(), record);
+    batch.set(
+      db.collection("aiUsageDaily").doc(date),
+      {
+        date,
+        ...increment(call),
+        byFeature: { [entry.feature]: increment(call) },
+        byModel: { [entry.model]: increment(call) },
+        ...(uid ? { byUser: { [uid]: increment(call) } } : {}),
+        updatedAt: Timestamp.fromDate(now),
+      },
+      { merge: true }
+    );
+    await batch.commit();
+
+    if (spendCache?.date === date) {
+      spendCache.spentUsd += costUsd;
+    }
+  } catch (error) {
+    logger.warn("Failed to record AI usage", {
+      feature: entry.feature,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+// ============================================================================
+// Budget Guard
+// ============================================================================
+
+/** Today's estimated spend, re-read at most once a minute per instance */
+async function getTodaySpendUsd(): Promise<number> {
+  const date = usageDateKey();
+  if (spendCache && spendCache.date === date && Date.now() - spendCache.readAt < SPEND_CACHE_MS) {
+    return spendCache.spentUsd;
+  }
+  const doc = await getFirestore().collection("aiUsageDaily").doc(date).get();
+  const spentUsd = doc.exists ? (doc.data() as AiUsageDaily).costUsd ?? 0 : 0;
+  spendCache = { date, spentUsd, readAt: Date.now() };
+  return spentUsd;
+}
+
+/**
+ * Check today's spend against the daily ceiling before a model call.
+ * Budget-exempt tasks (shared scheduled content) are always allowed; other
+ * callers should serve cached content, or explain the pause, when
+ * isAllowed is false. A failed read allows the call.
+ */
+export async function checkAiBudget(
+  feature: AiUsageFeature
+): Promise<{ isAllowed: boolean; spentUsd: number; budgetUsd: number }> {
+  const budgetUsd = dailyAiBudgetUsd();
+  let spentUsd = 0;
+  try {
+    spentUsd = await getTodaySpendUsd();
+  } catch (error) {
+    logger.warn("Failed to read AI spend", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { isAllowed: true, spentUsd, budgetUsd };
+  }
+
+  const isAllowed = BUDGET_EXEMPT_TASKS.has(feature) || spentUsd < budgetUsd;
+  if (!isAllowed) {
+    logger.warn("AI budget exceeded", { feature, spentUsd, budgetUsd });
+  }
+  return { isAllowed, spentUsd, budgetUsd };
+}
+
+// ============================================================================
+// Read
+// ============================================================================
+
+/**
+ * Spend report over `dates` (yyyy-mm-dd, oldest first).
+ */
+export async function getAiUsageReport(dates: string[], topUserLimit: number): Promise<AiUsageReport> {
+  const db = getFirestore();
+  const refs = dates.map((date) => db.collection("aiUsageDaily").doc(date));
+  const docs = refs.length > 0 ? await db.getAll(...refs) : [];
+  const days = docs.filter((d) => d.exists).map((d) => d.data() as AiUsageDaily);
+  return summarizeAiUsage(dates, days, topUserLimit);
+}
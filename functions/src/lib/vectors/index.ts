@@ -0,0 +1,28 @@
+/**
+ * Vector Index Module Exports
+ */
+
+export {
+  DEFAULT_NPROBE,
+  MAX_IVF_LISTS,
+  buildIvfIndex,
+  searchIvf,
+  ivfListCount,
+  type IndexedVector,
+  type IvfIndex,
+  type IvfFilter,
+  type IvfHit,
+  type IvfSearchOptions,
+  type IvfSearchResult,
+} from "./ivf.js";
+
+export {
+  vectorIndexVersion,
+  buildVectorIndex,
+  activateVectorIndex,
+  getVectorIndex,
+  clearVectorIndexCache,
+  searchVectorIndex,
+  type LoadedVectorIndex,
+  type VectorIndexBuildSummary,
+} from "./store.js";
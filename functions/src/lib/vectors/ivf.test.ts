@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the IVF vector index
+ *
+ * Run: npx tsx --test functions/src/lib/vectors/ivf.test.ts
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildIvfIndex,
+  categoryBitsFor,
+  decodeCentroids,
+  decodeIvfIndex,
+  encodeCentroids,
+  encodeIvfShards,
+  ivfListCount,
+  normalizeVector,
+  quantizeVector,
+  searchIvf,
+  type IndexedVector,
+} from "./ivf.js";
+
+const DIMS = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+/** Deterministic pseudo-random numbers in [-1, 1) */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return (state / 2147483648) * 2 - 1;
+  };
+}
+
+/** 400 vectors around 8 topics, one day apart, alternating sources and categories */
+function corpus(): IndexedVector[] {
+  const random = noise(7);
+  const topics = Array.from({ length: 8 }, () => Array.from({ length: DIMS }, () => random()));
+  return Array.from({ length: 400 }, (_, i) => ({
+    id: `a${i}`,
+    vector: topics[i % 8].map((x) => x + random() * 0.3),
+    publishedAtMs: T0 + i * DAY_MS,
+    sourceId: i % 2 === 0 ? "artemis" : "insurance-journal",
+    categories: i % 3 === 0 ? ["reinsurance"] : ["claims", "regulation"],
+  }));
+}
+
+function cosine(a: number[], b: number[]): number {
+  const ua = normalizeVector(a);
+  const ub = normalizeVector(b);
+  return ua.reduce((sum, x, i) => sum + x * ub[i], 0);
+}
+
+function exactTop(entries: IndexedVector[], query: number[], k: number): string[] {
+  return entries
+    .map((e) => ({ id: e.id, score: cosine(e.vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((h) => h.id);
+}
+
+// ============================================================================
+// Vectors
+// ============================================================================
+
+describe("quantizeVector", () => {
+  it("round-trips a unit vector within int8 precision", () => {
+    const unit = normalizeVector([3, -4, 0.5, 0]);
+    const { codes, scale } = quantizeVector(unit);
+    unit.forEach((x, i) => assert.ok(Math.abs(codes[i] * scale - x) <= scale / 2 + 1e-7));
+  });
+
+  it("keeps zero vectors at zero", () => {
+    const { codes, scale } = quantizeVector(normalizeVector([0, 0, 0]));
+    assert.equal(scale, 0);
+    assert.deepEqual([...codes], [0, 0, 0]);
+  });
+});
+
+describe("categoryBitsFor", () => {
+  it("sets one bit per known category", () => {
+    assert.equal(categoryBitsFor(["property_cat"]), 1);
+    assert.equal(categoryBitsFor(["claims", "insurtech", "unknown"]), 8 | 32);
+  });
+});
+
+describe("ivfListCount", () => {
+  it("grows with the square root and stays in bounds", () => {
+    assert.equal(ivfListCount(0), 1);
+    assert.equal(ivfListCount(10_000), 100);
+    assert.equal(ivfListCount(1_000_000), 256);
+  });
+});
+
+// ============================================================================
+// Search
+// ============================================================================
+
+describe("searchIvf", () => {
+  const entries = corpus();
+  const index = buildIvfIndex(entries, { listCount: 20 });
+
+  it("assigns every vector to a list", () => {
+    assert.equal(index.lists.reduce((n, list) => n + list.length, 0), entries.length);
+  });
+
+  it("finds the exact nearest neighbours when probing enough lists", () => {
+    const query = entries[42].vector;
+    const { hits } = searchIvf(index, query, { topK: 10, nprobe: 20 });
+    const found = new Set(hits.map((h) => h.id));
+    const overlap = exactTop(entries, query, 10).filter((id) => found.has(id)).length;
+    assert.ok(overlap >= 9, `overlap ${overlap}`);
+    assert.equal(hits[0].id, "a42");
+    assert.ok(Math.abs(hits[0].score - 1) < 0.02);
+  });
+
+  it("scans only some lists at a small nprobe", () => {
+    const { listsProbed, entriesScanned, hits } = searchIvf(index, entries[5].vector, { topK: 10, nprobe: 2 });
+    assert.equal(listsProbed, 2);
+    assert.ok(entriesScanned < entries.length);
+    assert.equal(hits.length, 10);
+  });
+
+  it("returns hits in descending score order", () => {
+    const { hits } = searchIvf(index, entries[3].vector, { topK: 15, nprobe: 4 });
+    for (let i = 1; i < hits.length; i++) assert.ok(hits[i - 1].score >= hits[i].score);
+  });
+
+  it("applies date, category and source filters", () => {
+    const filter = {
+      startMs: T0 + 100 * DAY_MS,
+      endMs: T0 + 200 * DAY_MS,
+      category: "reinsurance",
+      sourceIds: ["artemis"],
+    };
+    const { hits } = searchIvf(index, entries[150].vector, { topK: 10, nprobe: 2, filter });
+    assert.ok(hits.length > 0);
+    for (const hit of hits) {
+      const i = Number(hit.id.slice(1));
+      assert.ok(i >= 100 && i < 200);
+      assert.equal(i % 3, 0);
+      assert.equal(i % 2, 0);
+    }
+  });
+
+  it("probes further when the filter leaves too few hits", () => {
+    const filter = { startMs: T0 + 390 * DAY_MS };
+    const { hits, listsProbed } = searchIvf(index, entries[0].vector, { topK: 10, nprobe: 1, filter });
+    assert.equal(hits.length, 10);
+    assert.ok(listsProbed > 1);
+  });
+
+  it("returns nothing for a query of the wrong size", () => {
+    assert.deepEqual(searchIvf(index, [1, 2, 3], { topK: 5 }).hits, []);
+  });
+});
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+describe("encoding", () => {
+  it("round-trips centroids", () => {
+    const centroids = [normalizeVector([1, 2, 3]), normalizeVector([-1, 0, 1])];
+    const decoded = decodeCentroids(encodeCentroids(centroids), 3);
+    assert.deepEqual(decoded.map((c) => [...c]), centroids.map((c) => [...c]));
+  });
+
+  it("round-trips an index through shards", () => {
+    const entries = corpus();
+    const index = buildIvfIndex(entries, { listCount: 12 });
+    const shards = encodeIvfShards(index, 150);
+    assert.equal(shards.length, 3);
+
+    const decoded = decodeIvfIndex(DIMS, decodeCentroids(encodeCentroids(index.centroids), DIMS), shards);
+    assert.deepEqual(decoded.ids, index.ids);
+    assert.deepEqual([...decoded.codes], [...index.codes]);
+    assert.deepEqual(decoded.lists.map((l) => [...l]), index.lists.map((l) => [...l]));
+
+    const query = entries[77].vector;
+    assert.deepEqual(
+      searchIvf(decoded, query, { topK: 5, nprobe: 3 }).hits,
+      searchIvf(index, query, { topK: 5, nprobe: 3 }).hits
+    );
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * IVF Vector Index
+ *
+ * An inverted-file index over article embeddings: spherical k-means
+ * centroids split the vectors into lists, and a search scans only the lists
+ * whose centroids are nearest the query. Vectors are normalized and stored
+ * as int8 codes with one scale each, so a year of articles fits in memory
+ * and in a few dozen Firestore documents. Each entry carries its publish
+ * time, category bits and source, so filters are applied while scanning and
+ * a selective filter simply probes more lists.
+ */
+
+import type { SourceCategory } from "../../types/firestore.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An article embedding to index */
+export interface IndexedVector {
+  id: string;
+  vector: number[];
+  publishedAtMs: number;
+  sourceId: string;
+  categories: readonly string[];
+}
+
+/** In-memory index (entries are parallel arrays; codes hold dims per entry) */
+export interface IvfIndex {
+  dims: number;
+  /** Unit-length list centroids */
+  centroids: Float32Array[];
+  ids: string[];
+  publishedAtMs: Float64Array;
+  sourceIds: string[];
+  categoryBits: Uint8Array;
+  scales: Float32Array;
+  codes: Int8Array;
+  /** Entry positions per list */
+  lists: Uint32Array[];
+}
+
+/** One stored slice of the index entries */
+export interface IvfShard {
+  ids: string[];
+  /** List of each entry */
+  lists: number[];
+  publishedAtMs: number[];
+  sourceIds: string[];
+  categoryBits: number[];
+  scales: number[];
+  /** Base64 int8 codes, dims per entry */
+  codes: string;
+}
+
+export interface IvfFilter {
+  /** Published at or after (epoch ms) */
+  startMs?: number;
+  /** Published before (epoch ms) */
+  endMs?: number | null;
+  /** Only this category ("all" or omitted for any) */
+  category?: string | null;
+  sourceIds?: readonly string[] | null;
+}
+
+export interface IvfSearchOptions {
+  topK: number;
+  /** Lists scanned at least (more when the filter leaves fewer than topK hits) */
+  nprobe?: number;
+  filter?: IvfFilter;
+}
+
+export interface IvfHit {
+  id: string;
+  /** Approximate cosine similarity */
+  score: number;
+}
+
+export interface IvfSearchResult {
+  hits: IvfHit[];
+  listsProbed: number;
+  entriesScanned: number;
+}
+
+export interface IvfBuildOptions {
+  listCount?: number;
+  /** Vectors k-means trains on (all are assigned) */
+  sampleSize?: number;
+  iterations?: number;
+  seed?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Bit per category in IvfIndex.categoryBits */
+const CATEGORY_ORDER: readonly SourceCategory[] = [
+  "property_cat",
+  "casualty_liability",
+  "regulation",
+  "claims",
+  "reinsurance",
+  "insurtech",
+];
+
+/** Upper bound on lists (list IDs are stored as small integers) */
+export const MAX_IVF_LISTS = 256;
+
+/** Lists scanned per search before the filter is considered */
+export const DEFAULT_NPROBE = 12;
+
+const DEFAULT_SAMPLE_SIZE = 8000;
+const DEFAULT_ITERATIONS = 8;
+const DEFAULT_SEED = 20261019;
+
+// ============================================================================
+// Vectors
+// ============================================================================
+
+export function categoryBitsFor(categories: readonly string[]): number {
+  let bits = 0;
+  for (const category of categories) {
+    const index = CATEGORY_ORDER.indexOf(category as SourceCategory);
+    if (index >= 0) bits |= 1 << index;
+  }
+  return bits;
+}
+
+function categoryBit(category: string): number {
+  const index = CATEGORY_ORDER.indexOf(category as SourceCategory);
+  return index >= 0 ? 1 << index : 0;
+}
+
+/** Unit-length copy (zero vectors stay zero) */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  const out = new Float32Array(vector.length);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+/** int8 codes and the scale that restores them (value = code * scale) */
+export function quantizeVector(unit: Float32Array): { codes: Int8Array; scale: number } {
+  let maxAbs = 0;
+  for (let i = 0; i < unit.length; i++) maxAbs = Math.max(maxAbs, Math.abs(unit[i]));
+  const scale = maxAbs === 0 ? 0 : maxAbs / 127;
+  const codes = new Int8Array(unit.length);
+  if (scale === 0) return { codes, scale };
+  for (let i = 0; i < unit.length; i++) codes[i] = Math.round(unit[i] / scale);
+  return { codes, scale };
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function nearestCentroid(vector: Float32Array, centroids: Float32Array[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const score = dot(vector, centroids[c]);
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+  return best;
+}
+
+/** Deterministic PRNG so rebuilding from the same vectors gives the same index */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// Training
+// ============================================================================
+
+/** Lists for an index of n vectors: about sqrt(n), within [1, MAX_IVF_LISTS] */
+export function ivfListCount(n: number): number {
+  return Math.max(1, Math.min(MAX_IVF_LISTS, Math.round(Math.sqrt(n))));
+}
+
+/**
+ * Spherical k-means (cosine) with k-means++ seeding. Empty clusters keep
+ * their previous centroid.
+ */
+export function trainCentroids(
+  vectors: Float32Array[],
+  k: number,
+  options: { iterations?: number; seed?: number } = {}
+): Float32Array[] {
+  if (vectors.length === 0) return [];
+  const random = mulberry32(options.seed ?? DEFAULT_SEED);
+  const count = Math.min(k, vectors.length);
+
+  // k-means++: each next centroid is drawn in proportion to its distance
+  const centroids: Float32Array[] = [vectors[Math.floor(random() * vectors.length)]];
+  const distances = vectors.map((v) => 1 - dot(v, centroids[0]));
+  while (centroids.length < count) {
+    const total = distances.reduce((sum, d) => sum + Math.max(d, 0), 0);
+    let pick = 0;
+    if (total > 0) {
+      let target = random() * total;
+      for (pick = 0; pick < vectors.length - 1; pick++) {
+        target -= Math.max(distances[pick], 0);
+        if (target <= 0) break;
+      }
+    } else {
+      pick = Math.floor(random() * vectors.length);
+    }
+    const next = vectors[pick];
+    centroids.push(next);
+    for (let i = 0; i < vectors.length; i++) {
+      distances[i] = Math.min(distances[i], 1 - dot(vectors[i], next));
+    }
+  }
+
+  const dims = vectors[0].length;
+  let current: Float32Array[] = centroids.map((c) => Float32Array.from(c));
+  for (let iteration = 0; iteration < (options.iterations ?? DEFAULT_ITERATIONS); iteration++) {
+    const sums = current.map(() => new Float32Array(dims));
+    const sizes = new Array<number>(current.length).fill(0);
+    for (const vector of vectors) {
+      const c = nearestCentroid(vector, current);
+      sizes[c]++;
+      const sum = sums[c];
+      for (let i = 0; i < dims; i++) sum[i] += vector[i];
+    }
+    current = current.map((previous, c) => (sizes[c] > 0 ? normalizeVector(sums[c]) : previous));
+  }
+  return current;
+}
+
+/**
+ * Build an index. Vectors with a different length from the first are
+ * skipped (mixed embedding dimensions).
+ */
+export function buildIvfIndex(entries: IndexedVector[], options: IvfBuildOptions = {}): IvfIndex {
+  const dims = entries[0]?.vector.length ?? 0;
+  const kept = entries.filter((e) => e.vector.length === dims && dims > 0);
+  const units = kept.map((e) => normalizeVector(e.vector));
+
+  // Train on an evenly spread sample; assign everything
+  const sampleSize = Math.min(units.length, options.sampleSize ?? DEFAULT_SAMPLE_SIZE);
+  const stride = units.length / Math.max(sampleSize, 1);
+  const sample = Array.from({ length: sampleSize }, (_, i) => units[Math.floor(i * stride)]);
+  const centroids = trainCentroids(sample, options.listCount ?? ivfListCount(units.length), {
+    iterations: options.iterations,
+    seed: options.seed,
+  });
+
+  const codes = new Int8Array(kept.length * dims);
+  const scales = new Float32Array(kept.length);
+  const listOf = new Array<number>(kept.length);
+  units.forEach((unit, i) => {
+    const quantized = quantizeVector(unit);
+    codes.set(quantized.codes, i * dims);
+    scales[i] = quantized.scale;
+    listOf[i] = nearestCentroid(unit, centroids);
+  });
+
+  return {
+    dims,
+    centroids,
+    ids: kept.map((e) => e.id),
+    publishedAtMs: Float64Array.from(kept.map((e) => e.publishedAtMs)),
+    sourceIds: kept.map((e) => e.sourceId),
+    categoryBits: Uint8Array.from(kept.map((e) => categoryBitsFor(e.categories))),
+    scales,
+    codes,
+    lists: groupLists(listOf, centroids.length),
+  };
+}
+
+function groupLists(listOf: ArrayLike<number>, listCount: number): Uint32Array[] {
+  const members: number[][] = Array.from({ length: listCount }, () => []);
+  for (let i = 0; i < listOf.length; i++) members[listOf[i]]?.push(i);
+  return members.map((m) => Uint32Array.from(m));
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Approximate nearest neighbours by cosine. Lists are scanned nearest
+ * first: at least nprobe of them, and more until topK entries have passed
+ * the filter (or every list was scanned).
+ */
+export function searchIvf(index: IvfIndex, query: ArrayLike<number>, options: IvfSearchOptions): IvfSearchResult {
+  if (query.length !== index.dims || index.ids.length === 0 || options.topK <= 0) {
+    return { hits: [], listsProbed: 0, entriesScanned: 0 };
+  }
+  const unit = normalizeVector(query);
+  const filter = options.filter ?? {};
+  const startMs = filter.startMs ?? -Infinity;
+  const endMs = filter.endMs ?? Infinity;
+  const bit = filter.category && filter.category !== "all" ? categoryBit(filter.category) : 0;
+  const sources = filter.sourceIds?.length ? new Set(filter.sourceIds) : null;
+
+  const order = index.centroids
+    .map((centroid, list) => ({ list, score: dot(unit, centroid) }))
+    .sort((a, b) => b.score - a.score);
+  const nprobe = options.nprobe ?? DEFAULT_NPROBE;
+
+  // Best topK so far, highest score first
+  const hits: IvfHit[] = [];
+  let listsProbed = 0;
+  let entriesScanned = 0;
+  for (const { list } of order) {
+    if (listsProbed >= nprobe && hits.length >= options.topK) break;
+    listsProbed++;
+    for (const entry of index.lists[list]) {
+      const publishedAtMs = index.publishedAtMs[entry];
+      if (publishedAtMs < startMs || publishedAtMs >= endMs) continue;
+      if (bit && (index.categoryBits[entry] & bit) === 0) continue;
+      if (sources && !sources.has(index.sourceIds[entry])) continue;
+      entriesScanned++;
+
+      const offset = entry * index.dims;
+      let sum = 0;
+      for (let i = 0; i < index.dims; i++) sum += index.codes[offset + i] * unit[i];
+      const score = sum * index.scales[entry];
+
+      if (hits.length < options.topK || score > hits[hits.length - 1].score) {
+        let position = Math.min(hits.length, options.topK - 1);
+        while (position > 0 && hits[position - 1].score < score) position--;
+        hits.splice(position, 0, { id: index.ids[entry], score });
+        if (hits.length > options.topK) hits.pop();
+      }
+    }
+  }
+  return { hits, listsProbed, entriesScanned };
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+export function encodeCentroids(centroids: Float32Array[]): string {
+  const flat = new Float32Array(centroids.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const centroid of centroids) {
+    flat.set(centroid, offset);
+    offset += centroid.length;
+  }
+  return Buffer.from(flat.buffer).toString("base64");
+}
+
+export function decodeCentroids(encoded: string, dims: number): Float32Array[] {
+  const bytes = Buffer.from(encoded, "base64");
+  const flat = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+  const centroids: Float32Array[] = [];
+  for (let offset = 0; offset + dims <= flat.length; offset += dims) {
+    centroids.push(flat.slice(offset, offset + dims));
+  }
+  return centroids;
+}
+
+/** Split the entries into shards of at most shardSize */
+export function encodeIvfShards(index: IvfIndex, shardSize: number): IvfShard[] {
+  const listOf = new Array<number>(index.ids.length);
+  index.lists.forEach((members, list) => members.forEach((entry) => (listOf[entry] = list)));
+
+  const shards: IvfShard[] = [];
+  for (let start = 0; start < index.ids.length; start += shardSize) {
+    const end = Math.min(start + shardSize, index.ids.length);
+    const codes = index.codes.subarray(start * index.dims, end * index.dims);
+    shards.push({
+      ids: index.ids.slice(start, end),
+      lists: listOf.slice(start, end),
+      publishedAtMs: Array.from(index.publishedAtMs.subarray(start, end)),
+      sourceIds: index.sourceIds.slice(start, end),
+      categoryBits: Array.from(index.categoryBits.subarray(start, end)),
+      scales: Array.from(index.scales.subarray(start, end)),
+      codes: Buffer.from(codes.buffer, codes.byteOffset, codes.byteLength).toString("base64"),
+    });
+  }
+  return shards;
+}
+
+/** Reassemble an index from its centroids and shards (in order) */
+export function decodeIvfIndex(dims: number, centroids: Float32Array[], shards: IvfShard[]): IvfIndex {
+  const total = shards.reduce((n, s) => n + s.ids.length, 0);
+  const codes = new Int8Array(total * dims);
+  const listOf: number[] = [];
+  const index: IvfIndex = {
+    dims,
+    centroids,
+    ids: [],
+    publishedAtMs: new Float64Array(total),
+    sourceIds: [],
+    categoryBits: new Uint8Array(total),
+    scales: new Float32Array(total),
+    codes,
+    lists: [],
+  };
+
+  let offset = 0;
+  for (const shard of shards) {
+    const bytes = Buffer.from(shard.codes, "base64");
+    codes.set(new Int8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength), offset * dims);
+    index.publishedAtMs.set(shard.publishedAtMs, offset);
+    index.categoryBits.set(shard.categoryBits, offset);
+    index.scales.set(shard.scales, offset);
+    index.ids.push(...shard.ids);
+    index.sourceIds.push(...shard.sourceIds);
+    listOf.push(...shard.lists);
+    offset += shard.ids.length;
+  }
+  index.lists = groupLists(listOf, centroids.length);
+  return index;
+}
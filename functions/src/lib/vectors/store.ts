@@ -0,0 +1,293 @@
+/**
+ * Vector Index Persistence
+ *
+ * - vectorIndexes/{version}: index metadata and centroids; at most one has
+ *   status "active"
+ * - vectorIndexes/{version}/shards/{nnnn}: the quantized entries
+ *
+ * The scheduled build reads every relevant article embedding, trains a new
+ * index and activates it. Retrieval loads the active index once per cache
+ * window; load failures are logged and treated as "no index" so answers
+ * fall back to ranking the candidate query alone.
+ */
+
+import { getFirestore, Timestamp, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import * as logger from "firebase-functions/logger";
+import type { Article, VectorIndexDoc, VectorIndexShardDoc } from "../../types/firestore.js";
+import {
+  buildIvfIndex,
+  decodeCentroids,
+  decodeIvfIndex,
+  encodeCentroids,
+  encodeIvfShards,
+  searchIvf,
+  type IndexedVector,
+  type IvfIndex,
+  type IvfSearchOptions,
+  type IvfSearchResult,
+} from "./ivf.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long the active index is reused before re-reading Firestore */
+const INDEX_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Articles read per page while building */
+const BUILD_PAGE_SIZE = 1000;
+
+/** Entries per shard document (~650 KB at 256 dims) */
+const SHARD_SIZE = 1500;
+
+/** Indexes kept (the active one and the one before it, for rollback) */
+const KEEP_INDEXES = 2;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LoadedVectorIndex {
+  version: string;
+  model: string;
+  index: IvfIndex;
+  /** Newest indexed article (epoch ms), or null for an empty index */
+  newestPublishedAtMs: number | null;
+}
+
+export interface VectorIndexBuildSummary {
+  version: string;
+  model: string | null;
+  articleCount: number;
+  /** Embeddings left out (another model or dimension count) */
+  skipped: number;
+  listCount: number;
+  shardCount: number;
+  buildMs: number;
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+type IndexSource = Pick<Article, "embedding" | "publishedAt" | "sourceId" | "categories">;
+
+/**
+ * Index version from its build time, e.g. "ivf-20261019-0430" (UTC).
+ */
+export function vectorIndexVersion(date: Date = new Date()): string {
+  const iso = date.toISOString();
+  return `ivf-${iso.slice(0, 10).replace(/-/g, "")}-${iso.slice(11, 16).replace(":", "")}`;
+}
+
+/**
+ * Index every relevant article embedding and make the result the active
+ * index. Only the most common embedding model is indexed, since vectors
+ * from different models are not comparable; older indexes beyond the
+ * previous one are deleted. Nothing is written when there are no
+ * embeddings.
+ */
+export async function buildVectorIndex(): Promise<VectorIndexBuildSummary> {
+  const db = getFirestore();
+  const startedAt = Date.now();
+  const version = vectorIndexVersion(new Date(startedAt));
+
+  // Group by model and dimensions while paging (newest first)
+  const byModel = new Map<string, IndexedVector[]>();
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    let query = db
+      .collection("articles")
+      .where("isRelevant", "==", true)
+      .orderBy("publishedAt", "desc")
+      .select("embedding", "publishedAt", "sourceId", "categories")
+      .limit(BUILD_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    for (const doc of snap.docs) {
+      const article = doc.data() as IndexSource;
+      const vector = article.embedding?.vector;
+      if (!vector?.length) continue;
+      const key = `${article.embedding?.model}|${vector.length}`;
+      const entries = byModel.get(key) ?? [];
+      entries.push({
+        id: doc.id,
+        vector,
+        publishedAtMs: article.publishedAt?.toMillis?.() ?? 0,
+        sourceId: article.sourceId,
+        categories: article.categories ?? [],
+      });
+      byModel.set(key, entries);
+    }
+
+    if (snap.size < BUILD_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  const [modelKey, entries] = [...byModel.entries()].sort((a, b) => b[1].length - a[1].length)[0] ?? [null, []];
+  const model = modelKey ? modelKey.split("|")[0] : null;
+  const skipped = [...byModel.values()].reduce((n, e) => n + e.length, 0) - entries.length;
+
+  const index = buildIvfIndex(entries);
+  const shards = encodeIvfShards(index, SHARD_SIZE);
+  const newest = entries.reduce((max, e) => Math.max(max, e.publishedAtMs), 0);
+  const buildMs = Date.now() - startedAt;
+
+  const summary: VectorIndexBuildSummary = {
+    version,
+    model,
+    articleCount: index.ids.length,
+    skipped,
+    listCount: index.centroids.length,
+    shardCount: shards.length,
+    buildMs,
+  };
+  if (index.ids.length === 0) {
+    logger.warn("No article embeddings to index; keeping the active index", { ...summary });
+    return summary;
+  }
+
+  const indexRef = db.collection("vectorIndexes").doc(version);
+  for (let i = 0; i < shards.length; i++) {
+    const shard: VectorIndexShardDoc = shards[i];
+    await indexRef.collection("shards").doc(String(i).padStart(4, "0")).set(shard);
+  }
+  const doc: VectorIndexDoc = {
+    version,
+    status: "inactive",
+    model: model ?? "",
+    dims: index.dims,
+    listCount: index.centroids.length,
+    centroids: encodeCentroids(index.centroids),
+    articleCount: index.ids.length,
+    shardCount: shards.length,
+    newestPublishedAt: newest > 0 ? Timestamp.fromMillis(newest) : null,
+    buildMs,
+    builtAt: Timestamp.now(),
+  };
+  await indexRef.set(doc);
+  await activateVectorIndex(version);
+
+  logger.info("Vector index built", { ...summary });
+  return summary;
+}
+
+/**
+ * Make an index the only active one and delete all but the newest
+ * KEEP_INDEXES indexes (never the active one).
+ */
+export async function activateVectorIndex(version: string): Promise<void> {
+  const db = getFirestore();
+  const indexesRef = db.collection("vectorIndexes");
+
+  await db.runTransaction(async (tx) => {
+    const target = await tx.get(indexesRef.doc(version));
+    if (!target.exists) {
+      throw new Error(`Vector index "${version}" not found`);
+    }
+    const activeSnap = await tx.get(indexesRef.where("status", "==", "active"));
+    for (const doc of activeSnap.docs) {
+      if (doc.id !== version) tx.update(doc.ref, { status: "inactive" });
+    }
+    tx.update(target.ref, { status: "active" });
+  });
+
+  const all = await indexesRef.orderBy("builtAt", "desc").select().get();
+  const stale = all.docs.slice(KEEP_INDEXES).filter((doc) => doc.id !== version);
+  for (const doc of stale) {
+    await db.recursiveDelete(doc.ref);
+  }
+
+  clearVectorIndexCache();
+}
+
+// ============================================================================
+// Active Index Cache
+// ============================================================================
+
+let cachedIndex: { index: LoadedVectorIndex | null; loadedAt: number } | null = null;
+let pendingLoad: Promise<LoadedVectorIndex | null> | null = null;
+
+async function loadActiveVectorIndex(): Promise<LoadedVectorIndex | null> {
+  const db = getFirestore();
+  const snap = await db.collection("vectorIndexes").where("status", "==", "active").limit(1).get();
+  if (snap.empty) return null;
+
+  const doc = snap.docs[0].data() as VectorIndexDoc;
+  const shardsSnap = await snap.docs[0].ref.collection("shards").orderBy("__name__").get();
+  const shards = shardsSnap.docs.map((d) => d.data() as VectorIndexShardDoc);
+  if (shards.length !== doc.shardCount) {
+    throw new Error(`Vector index "${doc.version}" has ${shards.length} of ${doc.shardCount} shards`);
+  }
+
+  return {
+    version: doc.version,
+    model: doc.model,
+    index: decodeIvfIndex(doc.dims, decodeCentroids(doc.centroids, doc.dims), shards),
+    newestPublishedAtMs: doc.newestPublishedAt?.toMillis() ?? null,
+  };
+}
+
+/**
+ * Get the active index, or null when none is active or it failed to load.
+ * Concurrent callers share one load.
+ */
+export async function getVectorIndex(): Promise<LoadedVectorIndex | null> {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < INDEX_CACHE_TTL_MS) {
+    return cachedIndex.index;
+  }
+
+  if (!pendingLoad) {
+    const startedAt = Date.now();
+    pendingLoad = loadActiveVectorIndex()
+      .then((index) => {
+        if (index) {
+          logger.info("Vector index loaded", {
+            version: index.version,
+            articleCount: index.index.ids.length,
+            loadMs: Date.now() - startedAt,
+          });
+        }
+        return index;
+      })
+      .catch((error) => {
+        logger.warn("Failed to load vector index, ranking candidates only", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      })
+      .then((index) => {
+        cachedIndex = { index, loadedAt: Date.now() };
+        pendingLoad = null;
+        return index;
+      });
+  }
+  return pendingLoad;
+}
+
+/**
+ * Drop the cached index (after activation changes in this process).
+ */
+export function clearVectorIndexCache(): void {
+  cachedIndex = null;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Search the active index with a question embedding. Returns null when no
+ * index is active or it was built from a different embedding model.
+ */
+export async function searchVectorIndex(
+  query: { vector: number[]; model: string },
+  options: IvfSearchOptions
+): Promise<(IvfSearchResult & { version: string }) | null> {
+  const loaded = await getVectorIndex();
+  if (!loaded || loaded.model !== query.model || loaded.index.dims !== query.vector.length) {
+    return null;
+  }
+  return { ...searchIvf(loaded.index, query.vector, options), version: loaded.version };
+}
@@ -66,6 +66,8 @@ async function main(): Promise<void> {
   const ingestionSummary = await ingestAllEnabledSources({
     maxAgeDays: 7,
     forceRefresh: true,
+    trigger: "script",
+    triggeredBy: "backfill-and-brief",
   });
 
   console.log("\n=== Ingestion Summary ===");
@@ -28,7 +28,10 @@ import {
   truncateText,
   stripHtml,
 } from "../lib/ingestion/url-utils.js";
-import { calculateRelevance, classifyCategories } from "../lib/ingestion/relevance.js";
+import { classifyArticle } from "../lib/classifier/index.js";
+import { extractEntities } from "../lib/entities/index.js";
+import { inferGeography, geoKeysFor } from "../lib/geo/index.js";
+import { captureFullText } from "../lib/fulltext/index.js";
 import { generateSearchTokens } from "../lib/embeddings/index.js";
 import { extractImageUrl, fetchOgImage } from "../lib/ingestion/rss-fetcher.js";
 
@@ -173,8 +176,10 @@ async function ingestItem(
 
   const rawSnippet = item.contentSnippet || item.summary || item.content || "";
   const snippet = truncateText(stripHtml(rawSnippet), 200);
-  const relevance = calculateRelevance(item.title, snippet, source.tags);
-  const categories = classifyCategories(item.title, snippet, source.tags);
+  const relevance = await classifyArticle({ title: item.title, snippet, sourceTags: source.tags });
+  const categories = relevance.categories;
+  const entities = extractEntities(`${item.title}\n${snippet}`);
+  const geo = inferGeography({ title: item.title, snippet, entities, sourceRegion: source.region });
 
   // Extract image
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -197,7 +202,12 @@ async function ingestItem(
     ingestedAt: Timestamp.now(),
     relevanceScore: relevance.score,
     isRelevant: relevance.isRelevant,
+    relevanceModel: relevance.relevanceModel,
     ai: null,
+    entities,
+    entityKeys: entities.map((e) => e.key),
+    geo,
+    geoKeys: geoKeysFor(geo),
   };
 
   const searchTokens = relevance.isRelevant
@@ -210,6 +220,10 @@ async function ingestItem(
     searchTokens,
   });
 
+  if (relevance.isRelevant && source.allowFullText) {
+    await captureFullText(articleId, item.link);
+  }
+
   return "ingested";
 }
 
@@ -349,7 +363,12 @@ async function main(): Promise<void> {
   console.log("");
 
   const { ingestAllEnabledSources } = await import("../lib/ingestion/index.js");
-  const summary = await ingestAllEnabledSources({ maxAgeDays: 14, forceRefresh: true });
+  const summary = await ingestAllEnabledSources({
+    maxAgeDays: 14,
+    forceRefresh: true,
+    trigger: "script",
+    triggeredBy: "backfill-deep",
+  });
   totalIngested += summary.totalItemsIngested;
 
   for (const r of summary.results) {
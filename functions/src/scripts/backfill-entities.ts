@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+/**
+ * Backfill Entities Script
+ *
+ * Tags existing articles with gazetteer entities (companies, regulators,
+ * states, countries, perils, lines of business) and inferred geography
+ * (dateline, states, countries, regions). Re-run with --force after editing
+ * the gazetteer or dateline tables to re-tag articles that are already tagged.
+ *
+ * Run with: npm run backfill-entities
+ *
+ * Usage:
+ *   npm run backfill-entities                    # Untagged articles from the last 30 days
+ *   npm run backfill-entities -- --days=90
+ *   npm run backfill-entities -- --force         # Re-tag everything in the window
+ *   npm run backfill-entities -- --dry-run       # Report counts without writing
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore, Timestamp, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import type { Article } from "../types/firestore.js";
+import { extractEntities } from "../lib/entities/index.js";
+import { inferGeography, geoKeysFor } from "../lib/geo/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PAGE_SIZE = 400;
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let daysBack = 30;
+  let force = false;
+  let dryRun = false;
+
+  for (const arg of args) {
+    if (arg.startsWith("--days=")) {
+      daysBack = parseInt(arg.replace("--days=", ""), 10);
+    } else if (arg === "--force") {
+      force = true;
+    } else if (arg === "--dry-run") {
+      dryRun = true;
+    }
+  }
+
+  console.log("\n🏷️  Backfill Entities");
+  console.log(`   Days back: ${daysBack}`);
+  console.log(`   Mode: ${force ? "re-tag all" : "untagged only"}${dryRun ? " (dry run)" : ""}\n`);
+
+  // Source regions feed the geography fallback
+  const sourcesSnap = await db.collection("sources").select("region").get();
+  const sourceRegions = new Map(
+    sourcesSnap.docs.map((doc) => [doc.id, doc.get("region") as string | undefined])
+  );
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+
+  let scanned = 0;
+  let tagged = 0;
+  let unchanged = 0;
+  let withEntities = 0;
+  let cursor: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let query = db
+      .collection("articles")
+      .where("publishedAt", ">=", Timestamp.fromDate(cutoffDate))
+      .orderBy("publishedAt", "desc")
+      .select("sourceId", "title", "snippet", "entityKeys", "geoKeys")
+      .limit(PAGE_SIZE);
+    if (cursor) query = query.startAfter(cursor);
+
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let writes = 0;
+
+    for (const doc of snapshot.docs) {
+      scanned++;
+      const article = doc.data() as Pick<Article, "sourceId" | "title" | "snippet" | "entityKeys" | "geoKeys">;
+
+      if (!force && article.entityKeys !== undefined && article.geoKeys !== undefined) {
+        unchanged++;
+        continue;
+      }
+
+      const entities = extractEntities(`${article.title}\n${article.snippet}`);
+      const entityKeys = entities.map((e) => e.key);
+      if (entityKeys.length > 0) withEntities++;
+      const geo = inferGeography({
+        title: article.title,
+        snippet: article.snippet,
+        entities,
+        sourceRegion: sourceRegions.get(article.sourceId),
+      });
+      const geoKeys = geoKeysFor(geo);
+
+      if (
+        article.entityKeys && article.entityKeys.join("|") === entityKeys.join("|") &&
+        article.geoKeys && article.geoKeys.join("|") === geoKeys.join("|")
+      ) {
+        unchanged++;
+        continue;
+      }
+
+      batch.update(doc.ref, { entities, entityKeys, geo, geoKeys });
+      writes++;
+      tagged++;
+    }
+
+    if (writes > 0 && !dryRun) {
+      await batch.commit();
+    }
+
+    console.log(`   Progress: ${scanned} scanned, ${tagged} tagged`);
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < PAGE_SIZE) break;
+  }
+
+  console.log(`\n✅ Completed${dryRun ? " (dry run, nothing written)" : ""}!`);
+  console.log(`   Scanned: ${scanned}`);
+  console.log(`   Tagged: ${tagged} (${withEntities} with at least one entity)`);
+  console.log(`   Unchanged: ${unchanged}\n`);
+}
+
+main().catch(console.error);
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Backfill Full Text Script
+ *
+ * Extracts article bodies for recent relevant articles from sources with
+ * allowFullText into the private articles/{id}/private/fullText docs. Run
+ * after enabling allowFullText on a source. With --reset-ai, cached AI
+ * summaries and embeddings are cleared so they regenerate from the body.
+ *
+ * Run with: npm run backfill-fulltext
+ *
+ * Usage:
+ *   npm run backfill-fulltext                          # All allowFullText sources, last 7 days
+ *   npm run backfill-fulltext -- --days=30
+ *   npm run backfill-fulltext -- --source=insurance-journal
+ *   npm run backfill-fulltext -- --reset-ai            # Regenerate AI/embeddings from the body
+ *   npm run backfill-fulltext -- --dry-run             # Report counts without fetching
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore, Timestamp, FieldValue } from "firebase-admin/firestore";
+import type { Article } from "../types/firestore.js";
+import { captureFullText } from "../lib/fulltext/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Pause between page fetches to stay polite to publishers */
+const FETCH_DELAY_MS = 500;
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let daysBack = 7;
+  let sourceFilter: string | null = null;
+  let resetAi = false;
+  let dryRun = false;
+
+  for (const arg of args) {
+    if (arg.startsWith("--days=")) {
+      daysBack = parseInt(arg.replace("--days=", ""), 10);
+    } else if (arg.startsWith("--source=")) {
+      sourceFilter = arg.replace("--source=", "");
+    } else if (arg === "--reset-ai") {
+      resetAi = true;
+    } else if (arg === "--dry-run") {
+      dryRun = true;
+    }
+  }
+
+  const sourcesSnap = await db.collection("sources").where("allowFullText", "==", true).get();
+  const sourceIds = sourcesSnap.docs
+    .map((doc) => doc.id)
+    .filter((id) => !sourceFilter || id === sourceFilter);
+
+  console.log("\n📄 Backfill Full Text");
+  console.log(`   Days back: ${daysBack}`);
+  console.log(`   Sources: ${sourceIds.length > 0 ? sourceIds.join(", ") : "(none with allowFullText)"}`);
+  console.log(`   Mode: ${resetAi ? "extract + reset AI" : "extract"}${dryRun ? " (dry run)" : ""}\n`);
+
+  if (sourceFilter && sourceIds.length === 0) {
+    console.log(`⚠️  Source "${sourceFilter}" does not have allowFullText enabled.\n`);
+    return;
+  }
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - daysBack);
+
+  let scanned = 0;
+  let extracted = 0;
+  let failed = 0;
+  let alreadyHad = 0;
+
+  for (const sourceId of sourceIds) {
+    const snapshot = await db
+      .collection("articles")
+      .where("sourceId", "==", sourceId)
+      .where("publishedAt", ">=", Timestamp.fromDate(cutoffDate))
+      .orderBy("publishedAt", "desc")
+      .select("url", "isRelevant", "hasFullText")
+      .get();
+
+    for (const doc of snapshot.docs) {
+      const article = doc.data() as Pick<Article, "url" | "isRelevant" | "hasFullText">;
+      if (!article.isRelevant) continue;
+      scanned++;
+
+      if (article.hasFullText) {
+        alreadyHad++;
+        continue;
+      }
+      if (dryRun) continue;
+
+      const stored = await captureFullText(doc.id, article.url);
+      if (stored) {
+        extracted++;
+        if (resetAi) {
+          await doc.ref.update({ ai: null, embedding: FieldValue.delete() });
+        }
+      } else {
+        failed++;
+      }
+      await new Promise((resolve) => setTimeout(resolve, FETCH_DELAY_MS));
+    }
+
+    console.log(`   ${sourceId}: ${snapshot.size} articles checked`);
+  }
+
+  console.log(`\n✅ Completed${dryRun ? " (dry run, nothing fetched)" : ""}!`);
+  console.log(`   Relevant articles: ${scanned}`);
+  console.log(`   Extracted: ${extracted}`);
+  console.log(`   No readable body: ${failed}`);
+  console.log(`   Already extracted: ${alreadyHad}\n`);
+}
+
+main().catch(console.error);
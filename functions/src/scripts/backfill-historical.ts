@@ -172,6 +172,8 @@ async function main(): Promise<void> {
       const summary = await ingestAllEnabledSources({
         maxAgeDays: 14,
         forceRefresh: true,
+        trigger: "script",
+        triggeredBy: "backfill-historical",
       });
 
       console.log("");
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Build Vector Index Script
+ *
+ * Builds and activates a new vector index over every relevant article
+ * embedding, as the nightly buildVectorIndexNightly job does. Use after a
+ * large embeddings backfill, or to roll back to the previous index.
+ *
+ * Run with: npm run build-vector-index
+ *
+ * Usage:
+ *   npm run build-vector-index                                   # Build and activate
+ *   npm run build-vector-index -- --activate-version=ivf-20261018-0830
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import { activateVectorIndex, buildVectorIndex } from "../lib/vectors/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let activateVersion: string | null = null;
+
+  for (const arg of args) {
+    if (arg.startsWith("--activate-version=")) {
+      activateVersion = arg.replace("--activate-version=", "");
+    }
+  }
+
+  if (activateVersion) {
+    await activateVectorIndex(activateVersion);
+    console.log(`\n✅ Activated vector index ${activateVersion}\n`);
+    return;
+  }
+
+  console.log("\n🧭 Building vector index...\n");
+  const summary = await buildVectorIndex();
+
+  console.log(`   Version: ${summary.version}`);
+  console.log(`   Model: ${summary.model ?? "none"}`);
+  console.log(`   Articles: ${summary.articleCount} (${summary.skipped} skipped: other model or dimensions)`);
+  console.log(`   Lists: ${summary.listCount}`);
+  console.log(`   Shards: ${summary.shardCount}`);
+  console.log(`   Build time: ${summary.buildMs} ms`);
+
+  if (summary.articleCount === 0) {
+    console.log("\n⚠️  No embeddings found; nothing was saved (run npm run backfill-embeddings)\n");
+    return;
+  }
+  console.log("\n✅ Index built and activated\n");
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,270 @@
+#!/usr/bin/env node
+/**
+ * Prompt Eval Script
+ *
+ * Replays the golden set (npm run record-eval-set) through two versions of
+ * a prompt and scores each output on schema validity, citation coverage,
+ * length and banned phrases. Writes a side-by-side markdown report to
+ * <golden>/reports/ for review with the prompt change, and exits 1 when the
+ * candidate regresses on any metric.
+ *
+ * Calls go straight to the configured provider, bypassing the usage ledger
+ * and budget guard. With LLM_PROVIDER=mock the run is offline and
+ * deterministic (useful for checking the harness, not prompt quality).
+ *
+ * Run with: npm run eval-prompts
+ *
+ * Usage:
+ *   npm run eval-prompts -- --prompt=dailyBrief               # Previous vs active version
+ *   npm run eval-prompts -- --prompt=ragAnswer --base=v1 --candidate=v2
+ *   npm run eval-prompts -- --prompt=articleSummary --golden=fixtures/eval/october --limit=5
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { configuredLlmProvider } from "../config/llm.js";
+import {
+  ARTICLE_AI_SCHEMA,
+  DAILY_BRIEF_SCHEMA,
+  RAG_ANSWER_SCHEMA,
+  buildArticleSummarizePrompt,
+  buildDailyBriefPrompt,
+  findPromptVersion,
+  listPromptVersions,
+  promptTag,
+  type PromptVersion,
+} from "../lib/ai/index.js";
+import { mockLlmProvider, openAIProvider, type LlmProvider } from "../lib/llm/index.js";
+import { buildRagUserPrompt, type ArticleContext } from "../lib/rag/index.js";
+import {
+  EVAL_PROMPT_IDS,
+  buildEvalCases,
+  scoreEvalOutput,
+  compareEvalRuns,
+  formatEvalReport,
+  formatEvalSummary,
+  type EvalCase,
+  type EvalCaseResult,
+  type EvalGoldenSet,
+  type EvalPromptId,
+  type EvalRun,
+} from "../lib/eval/index.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_EVAL_DIR = "fixtures/eval/default";
+const GOLDEN_FILE = "golden.json";
+
+/** Response schema per prompt (streamed answers have none) */
+const SCHEMAS: Record<EvalPromptId, Record<string, unknown> | null> = {
+  articleSummary: ARTICLE_AI_SCHEMA,
+  dailyBrief: DAILY_BRIEF_SCHEMA,
+  ragAnswer: RAG_ANSWER_SCHEMA,
+  ragStreaming: null,
+};
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+function toContext(evalCase: EvalCase): ArticleContext[] {
+  return evalCase.articles.map((a) => ({
+    id: a.id,
+    title: a.title,
+    sourceName: a.sourceName,
+    url: a.url,
+    publishedAt: a.publishedAt,
+    snippet: a.snippet.slice(0, 500),
+    tldr: a.tldr,
+  }));
+}
+
+/** Run one case through one prompt version with the same settings as production */
+async function runCase(
+  provider: LlmProvider,
+  promptId: EvalPromptId,
+  prompt: PromptVersion,
+  evalCase: EvalCase
+): Promise<{ outputText: string; model: string }> {
+  switch (promptId) {
+    case "articleSummary": {
+      const article = evalCase.articles[0];
+      const response = await provider.completeJson({
+        task: "articleSummary",
+        system: prompt.system,
+        user: buildArticleSummarizePrompt({ ...article, fullText: null }),
+        schemaName: "article_ai",
+        schema: ARTICLE_AI_SCHEMA,
+        maxOutputTokens: 800,
+      });
+      return { outputText: response.outputText, model: response.model };
+    }
+    case "dailyBrief": {
+      const response = await provider.completeJson({
+        task: "dailyBrief",
+        system: prompt.system,
+        user: buildDailyBriefPrompt(evalCase.date ?? "", evalCase.articles),
+        schemaName: "daily_brief",
+        schema: DAILY_BRIEF_SCHEMA,
+        maxOutputTokens: 4000,
+      });
+      return { outputText: response.outputText, model: response.model };
+    }
+    case "ragAnswer": {
+      const response = await provider.completeJson({
+        task: "ragAnswer",
+        system: prompt.system,
+        user: buildRagUserPrompt(evalCase.question ?? "", toContext(evalCase)),
+        schemaName: "rag_answer",
+        schema: RAG_ANSWER_SCHEMA,
+        temperature: 0.3,
+        maxOutputTokens: 2000,
+      });
+      return { outputText: response.outputText, model: response.model };
+    }
+    case "ragStreaming": {
+      const stream = provider.streamText({
+        task: "ragAnswer",
+        system: prompt.system,
+        user: buildRagUserPrompt(evalCase.question ?? "", toContext(evalCase)),
+        temperature: 0.3,
+        maxOutputTokens: 2000,
+      });
+      let outputText = "";
+      let next = await stream.next();
+      while (!next.done) {
+        outputText += next.value;
+        next = await stream.next();
+      }
+      return { outputText, model: next.value.model };
+    }
+  }
+}
+
+async function scoreCase(
+  provider: LlmProvider,
+  promptId: EvalPromptId,
+  prompt: PromptVersion,
+  evalCase: EvalCase
+): Promise<{ run: EvalRun; model: string | null }> {
+  try {
+    const { outputText, model } = await runCase(provider, promptId, prompt, evalCase);
+    return { run: { outputText, score: scoreEvalOutput(promptId, outputText, evalCase, SCHEMAS[promptId]) }, model };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      run: { outputText: "", score: scoreEvalOutput(promptId, "", evalCase, SCHEMAS[promptId]), error: message },
+      model: null,
+    };
+  }
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main(): Promise<number> {
+  // Parse args
+  const args = process.argv.slice(2);
+  let goldenDir = DEFAULT_EVAL_DIR;
+  let promptArg: string | null = null;
+  let baseArg: string | null = null;
+  let candidateArg: string | null = null;
+  let limit = Infinity;
+
+  for (const arg of args) {
+    if (arg.startsWith("--golden=")) {
+      goldenDir = arg.replace("--golden=", "");
+    } else if (arg.startsWith("--prompt=")) {
+      promptArg = arg.replace("--prompt=", "");
+    } else if (arg.startsWith("--base=")) {
+      baseArg = arg.replace("--base=", "");
+    } else if (arg.startsWith("--candidate=")) {
+      candidateArg = arg.replace("--candidate=", "");
+    } else if (arg.startsWith("--limit=")) {
+      limit = parseInt(arg.replace("--limit=", ""), 10);
+    }
+  }
+
+  if (!promptArg || !(EVAL_PROMPT_IDS as string[]).includes(promptArg)) {
+    throw new Error(`--prompt must be one of: ${EVAL_PROMPT_IDS.join(", ")}`);
+  }
+  const promptId = promptArg as EvalPromptId;
+
+  // Default: the version before the active one vs the active one
+  const versions = listPromptVersions(promptId);
+  const candidate = candidateArg
+    ? findPromptVersion(promptId, candidateArg)
+    : versions[versions.length - 1];
+  const base = baseArg
+    ? findPromptVersion(promptId, baseArg)
+    : versions[Math.max(0, versions.length - 2)];
+  if (!base || !candidate) {
+    throw new Error(`Unknown version; ${promptId} has ${versions.map((v) => v.version).join(", ")}`);
+  }
+
+  const goldenPath = join(goldenDir, GOLDEN_FILE);
+  if (!existsSync(goldenPath)) {
+    throw new Error(`${goldenPath} not found (record one with npm run record-eval-set)`);
+  }
+  const golden = JSON.parse(readFileSync(goldenPath, "utf8")) as EvalGoldenSet;
+  const cases = buildEvalCases(promptId, golden).slice(0, limit);
+
+  const provider = configuredLlmProvider() === "mock" ? mockLlmProvider : openAIProvider;
+
+  console.log("\n🧪 Prompt Eval");
+  console.log(`   Golden set: ${goldenDir} (recorded ${golden.recordedAt})`);
+  console.log(`   Prompt: ${promptTag(base)} vs ${promptTag(candidate)}`);
+  console.log(`   Provider: ${provider.name}`);
+  console.log(`   Cases: ${cases.length}\n`);
+
+  if (base.version === candidate.version) {
+    console.log(`   ⚠️  ${promptId} has one version; comparing it with itself\n`);
+  }
+
+  const results: EvalCaseResult[] = [];
+  let model = "unknown";
+  for (const evalCase of cases) {
+    const baseResult = await scoreCase(provider, promptId, base, evalCase);
+    const candidateResult = await scoreCase(provider, promptId, candidate, evalCase);
+    model = baseResult.model ?? candidateResult.model ?? model;
+    results.push({ caseId: evalCase.id, base: baseResult.run, candidate: candidateResult.run });
+    console.log(`   ${evalCase.id}: done`);
+  }
+
+  const comparison = compareEvalRuns({
+    baseTag: promptTag(base),
+    candidateTag: promptTag(candidate),
+    model,
+    goldenRecordedAt: golden.recordedAt,
+    cases: results,
+  });
+
+  const reportDir = join(goldenDir, "reports");
+  mkdirSync(reportDir, { recursive: true });
+  const reportPath = join(reportDir, `${promptId}-${base.version}-vs-${candidate.version}.md`);
+  writeFileSync(reportPath, formatEvalReport(comparison));
+
+  console.log("\n" + formatEvalSummary(comparison));
+  console.log(`\n   Report: ${reportPath}`);
+
+  if (comparison.regressions.length === 0) {
+    console.log("\n✅ No regressions\n");
+    return 0;
+  }
+  console.log("\n❌ Regressions:");
+  for (const regression of comparison.regressions) {
+    console.log(`   - ${regression}`);
+  }
+  console.log("");
+  return 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error("❌ Error:", e);
+    process.exit(1);
+  });
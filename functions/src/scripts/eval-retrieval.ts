@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+/**
+ * Retrieval Eval Script
+ *
+ * Measures Ask retrieval with and without the vector index on the golden
+ * questions (npm run record-eval-set), in several time windows. The ground
+ * truth is the exact top k by cosine similarity over every in-scope article
+ * embedding; each path is scored on recall@k, mean similarity of what it
+ * returns, and latency. Writes a markdown report to <golden>/reports/.
+ *
+ * Both paths run the production retrieval steps (candidate query, lexical
+ * narrowing, index search) but rank by plain cosine without source
+ * diversity and without computing missing embeddings, so nothing is
+ * written. Latency is measured from this machine, so compare the paths
+ * with each other rather than with production logs.
+ *
+ * Run with: npm run eval-retrieval
+ *
+ * Usage:
+ *   npm run eval-retrieval                                    # 7d, 90d and 1y
+ *   npm run eval-retrieval -- --scopes=30d,1y --k=5
+ *   npm run eval-retrieval -- --golden=fixtures/eval/october
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore, Timestamp, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import type { Article } from "../types/firestore.js";
+import { DEFAULT_EMBEDDING_DIMS, embedTextWithModel } from "../lib/embeddings/index.js";
+import {
+  RAG_TIME_WINDOWS,
+  extractQueryTokens,
+  fetchCandidateArticles,
+  fetchIndexedArticles,
+  ragDateRange,
+  selectForSemantic,
+  type RagScope,
+  type RagTimeWindow,
+} from "../lib/rag/index.js";
+import { getVectorIndex } from "../lib/vectors/index.js";
+import {
+  compareRetrievalRuns,
+  cosine,
+  exactTopK,
+  formatRetrievalReport,
+  formatRetrievalSummary,
+  type EvalGoldenSet,
+  type RetrievalCase,
+  type RetrievalRun,
+} from "../lib/eval/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_EVAL_DIR = "fixtures/eval/default";
+const GOLDEN_FILE = "golden.json";
+/** Windows with a fixed length (custom needs dates) */
+type PresetWindow = Exclude<RagTimeWindow, "custom">;
+
+const PRESET_WINDOWS = RAG_TIME_WINDOWS.filter((w): w is PresetWindow => w !== "custom");
+
+const DEFAULT_SCOPES: PresetWindow[] = ["7d", "90d", "1y"];
+
+/** Matches the rerank's output size */
+const DEFAULT_K = 10;
+
+const PAGE_SIZE = 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface CorpusEntry {
+  id: string;
+  vector: number[];
+  publishedAtMs: number;
+}
+
+/** Every relevant article embedding of one model published since `since` */
+async function loadCorpus(model: string, since: Date): Promise<CorpusEntry[]> {
+  const entries: CorpusEntry[] = [];
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    let query = db
+      .collection("articles")
+      .where("isRelevant", "==", true)
+      .where("publishedAt", ">=", Timestamp.fromDate(since))
+      .orderBy("publishedAt", "desc")
+      .select("embedding", "publishedAt")
+      .limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+    for (const doc of snap.docs) {
+      const article = doc.data() as Pick<Article, "embedding" | "publishedAt">;
+      if (article.embedding?.model === model && article.embedding.vector?.length) {
+        entries.push({ id: doc.id, vector: article.embedding.vector, publishedAtMs: article.publishedAt.toMillis() });
+      }
+    }
+    if (snap.size < PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+  return entries;
+}
+
+/** Plain cosine top k over a pool (articles without a same-model embedding are skipped) */
+function rankPool(pool: Article[], question: { vector: number[]; model: string }, k: number): string[] {
+  const embedded = pool
+    .filter((a) => a.embedding?.model === question.model && a.embedding.vector?.length)
+    .map((a) => ({ id: a.id, vector: a.embedding!.vector }));
+  return exactTopK(question.vector, embedded, k).map((h) => h.id);
+}
+
+async function timed(run: () => Promise<string[]>): Promise<RetrievalRun> {
+  const startedAt = performance.now();
+  const ids = await run();
+  return { ids, latencyMs: performance.now() - startedAt };
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main(): Promise<number> {
+  // Parse args
+  const args = process.argv.slice(2);
+  let goldenDir = DEFAULT_EVAL_DIR;
+  let scopeArg: string[] | null = null;
+  let k = DEFAULT_K;
+
+  for (const arg of args) {
+    if (arg.startsWith("--golden=")) {
+      goldenDir = arg.replace("--golden=", "");
+    } else if (arg.startsWith("--scopes=")) {
+      scopeArg = arg.replace("--scopes=", "").split(",");
+    } else if (arg.startsWith("--k=")) {
+      k = parseInt(arg.replace("--k=", ""), 10);
+    }
+  }
+
+  const isPreset = (w: string): w is PresetWindow => (PRESET_WINDOWS as string[]).includes(w);
+  if (scopeArg && !scopeArg.every(isPreset)) {
+    throw new Error(`--scopes must be a comma-separated list of: ${PRESET_WINDOWS.join(", ")}`);
+  }
+  const scopes = scopeArg ? scopeArg.filter(isPreset) : DEFAULT_SCOPES;
+
+  const goldenPath = join(goldenDir, GOLDEN_FILE);
+  if (!existsSync(goldenPath)) {
+    throw new Error(`${goldenPath} not found (record one with npm run record-eval-set)`);
+  }
+  const golden = JSON.parse(readFileSync(goldenPath, "utf8")) as EvalGoldenSet;
+
+  const loadStartedAt = performance.now();
+  const loaded = await getVectorIndex();
+  const loadMs = performance.now() - loadStartedAt;
+  if (!loaded) {
+    throw new Error("No active vector index (build one with npm run build-vector-index)");
+  }
+
+  const now = new Date();
+  const earliest = scopes
+    .map((timeWindow) => ragDateRange({ timeWindow }, now).start)
+    .reduce((a, b) => (a < b ? a : b));
+  const corpus = await loadCorpus(loaded.model, earliest);
+  const vectors = new Map(corpus.map((e) => [e.id, e.vector]));
+
+  console.log("\n🧪 Retrieval Eval");
+  console.log(`   Golden set: ${goldenDir} (recorded ${golden.recordedAt})`);
+  console.log(`   Index: ${loaded.version} (${loaded.index.ids.length} articles, loaded in ${Math.round(loadMs)} ms)`);
+  console.log(`   Corpus: ${corpus.length} embeddings (${loaded.model})`);
+  console.log(`   Questions: ${golden.questions.length} × scopes ${scopes.join(", ")}\n`);
+
+  const cases: RetrievalCase[] = [];
+  const questionVectors = new Map<RetrievalCase, number[]>();
+  for (const { question } of golden.questions) {
+    const embedding = await embedTextWithModel(question, DEFAULT_EMBEDDING_DIMS);
+    if (embedding.model !== loaded.model) {
+      throw new Error(`Questions embed with ${embedding.model} but the index holds ${loaded.model}`);
+    }
+    const queryTokens = extractQueryTokens(question);
+
+    for (const timeWindow of scopes) {
+      const scope: RagScope = { timeWindow, category: "all", sourceIds: null };
+      const range = ragDateRange(scope, now);
+      const inScope = corpus.filter((e) => e.publishedAtMs >= range.start.getTime());
+
+      const base = await timed(async () => {
+        const candidates = await fetchCandidateArticles(scope, queryTokens);
+        return rankPool(selectForSemantic(candidates, queryTokens), embedding, k);
+      });
+      const candidate = await timed(async () => {
+        const candidates = await fetchCandidateArticles(scope, queryTokens);
+        const indexed = await fetchIndexedArticles(scope, embedding, candidates);
+        const selected = selectForSemantic(candidates, queryTokens);
+        const selectedIds = new Set(selected.map((a) => a.id));
+        return rankPool([...selected, ...indexed.filter((a) => !selectedIds.has(a.id))], embedding, k);
+      });
+
+      const evalCase: RetrievalCase = {
+        question,
+        scope: timeWindow,
+        searchSpace: inScope.length,
+        exact: exactTopK(embedding.vector, inScope, k),
+        base,
+        candidate,
+      };
+      cases.push(evalCase);
+      questionVectors.set(evalCase, embedding.vector);
+      console.log(`   ${timeWindow.padEnd(5)} ${question}: done`);
+    }
+  }
+
+  const comparison = compareRetrievalRuns({
+    baseLabel: "candidates",
+    candidateLabel: "candidates+index",
+    k,
+    goldenRecordedAt: golden.recordedAt,
+    model: loaded.model,
+    indexNote: `${loaded.version}, ${loaded.index.ids.length} articles, loaded in ${Math.round(loadMs)} ms`,
+    cases,
+    similarityOf: (c, id) => {
+      const vector = vectors.get(id);
+      const question = questionVectors.get(c);
+      return vector && question ? cosine(question, vector) : 0;
+    },
+  });
+
+  const reportDir = join(goldenDir, "reports");
+  mkdirSync(reportDir, { recursive: true });
+  const reportPath = join(reportDir, `retrieval-${loaded.version}.md`);
+  writeFileSync(reportPath, formatRetrievalReport(comparison));
+
+  console.log("\n" + formatRetrievalSummary(comparison));
+  console.log(`\n   Report: ${reportPath}\n`);
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error("❌ Error:", e);
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Rebuild Search Index Script
+ *
+ * Recreates the BM25 search index (searchPostings, searchStats) from every
+ * relevant article. Ingest keeps the index current; run this after a
+ * backfill (backfill-deep writes articles without indexing them), after
+ * changing the tokenizer or stopwords, or to repair drift.
+ *
+ * Run with: npm run rebuild-search-index
+ *
+ * Usage:
+ *   npm run rebuild-search-index                                  # Rebuild
+ *   npm run rebuild-search-index -- --query="excess & surplus"    # Try a search (last 365 days)
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import { rebuildSearchIndex, searchArticleIndex } from "../lib/search/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let query: string | null = null;
+
+  for (const arg of args) {
+    if (arg.startsWith("--query=")) {
+      query = arg.replace("--query=", "");
+    }
+  }
+
+  if (query) {
+    console.log(`\n🔎 Searching "${query}"...\n`);
+    const result = await searchArticleIndex(query, {
+      startMs: Date.now() - 365 * 24 * 60 * 60 * 1000,
+      limit: 10,
+    });
+    for (const hit of result.hits) {
+      const date = new Date(hit.publishedAtMs).toISOString().slice(0, 10);
+      console.log(`   ${hit.score.toFixed(2)}  ${date}  ${hit.id}  [${hit.matchedTerms.join(", ")}]`);
+    }
+    console.log(`\n   ${result.total} matches, ${result.bucketsRead} buckets read\n`);
+    return;
+  }
+
+  console.log("\n🗂️  Rebuilding search index...\n");
+  const summary = await rebuildSearchIndex();
+
+  console.log(`   Articles: ${summary.articles}`);
+  console.log(`   Posting buckets: ${summary.buckets}`);
+  console.log(`   Terms: ${summary.terms}`);
+  console.log(`   Months: ${summary.months}`);
+  console.log("\n✅ Search index rebuilt\n");
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
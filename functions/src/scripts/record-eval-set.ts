@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Record Eval Golden Set Script
+ *
+ * Snapshots the inputs npm run eval-prompts replays: the articles behind
+ * the latest shared daily briefs (brief cases), their top-story articles
+ * (article summary cases), and a fixed list of Ask questions with context
+ * picked by lexical ranking over those articles (Ask cases). Nothing is
+ * written to Firestore.
+ *
+ * Re-record only when the golden set should change; keeping it fixed is
+ * what makes eval runs comparable across prompt edits.
+ *
+ * Run with: npm run record-eval-set
+ *
+ * Usage:
+ *   npm run record-eval-set                                   # Latest 5 briefs
+ *   npm run record-eval-set -- --out=fixtures/eval/october
+ *   npm run record-eval-set -- --briefs=10 --summaries=20
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import type { Article, Brief } from "../types/firestore.js";
+import type { EvalArticle, EvalGoldenSet } from "../lib/eval/index.js";
+import { extractQueryTokens, rankByLexicalScore } from "../lib/rag/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_EVAL_DIR = "fixtures/eval/default";
+const GOLDEN_FILE = "golden.json";
+
+/** Context articles per Ask question (matches the rerank's output size) */
+const QUESTION_CONTEXT_SIZE = 8;
+
+/** Representative Ask questions across lines and functions */
+const EVAL_QUESTIONS = [
+  "What is driving commercial auto rate increases?",
+  "How are reinsurers pricing property catastrophe capacity?",
+  "What are the latest social inflation and nuclear verdict developments?",
+  "Which carriers reported reserve actions recently?",
+  "What regulatory actions are state insurance departments taking?",
+  "How is the E&S market growing and who is gaining share?",
+  "What are the latest wildfire and convective storm loss estimates?",
+  "How are carriers adopting AI in underwriting and claims?",
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toEvalArticle(article: Article): EvalArticle {
+  return {
+    id: article.id,
+    title: article.title,
+    sourceName: article.sourceName,
+    url: article.url,
+    publishedAt: article.publishedAt.toDate().toISOString().split("T")[0],
+    snippet: article.snippet,
+    tldr: article.ai?.tldr ?? null,
+  };
+}
+
+async function loadArticles(ids: string[]): Promise<Article[]> {
+  const articles: Article[] = [];
+  for (let i = 0; i < ids.length; i += 100) {
+    const refs = ids.slice(i, i + 100).map((id) => db.collection("articles").doc(id));
+    const docs = await db.getAll(...refs);
+    for (const doc of docs) {
+      if (doc.exists) articles.push({ ...doc.data(), id: doc.id } as Article);
+    }
+  }
+  return articles;
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let outDir = DEFAULT_EVAL_DIR;
+  let briefCount = 5;
+  let summaryCount = 10;
+
+  for (const arg of args) {
+    if (arg.startsWith("--out=")) {
+      outDir = arg.replace("--out=", "");
+    } else if (arg.startsWith("--briefs=")) {
+      briefCount = parseInt(arg.replace("--briefs=", ""), 10);
+    } else if (arg.startsWith("--summaries=")) {
+      summaryCount = parseInt(arg.replace("--summaries=", ""), 10);
+    }
+  }
+
+  console.log("\n📼 Record Eval Golden Set");
+  console.log(`   Output: ${outDir}`);
+  console.log(`   Briefs: ${briefCount}, article summaries: ${summaryCount}, questions: ${EVAL_QUESTIONS.length}\n`);
+
+  const briefsSnap = await db.collection("briefs").orderBy("date", "desc").limit(briefCount).get();
+  const briefs = briefsSnap.docs.map((doc) => doc.data() as Brief);
+  if (briefs.length === 0) {
+    console.log("⚠️  No briefs to record.\n");
+    return;
+  }
+
+  const articleIds = [...new Set(briefs.flatMap((b) => b.sourceArticleIds))];
+  const articles = await loadArticles(articleIds);
+  const loaded = new Set(articles.map((a) => a.id));
+
+  const summaryArticleIds = [
+    ...new Set(briefs.flatMap((b) => b.topStories.map((s) => s.articleId))),
+  ]
+    .filter((id) => loaded.has(id))
+    .slice(0, summaryCount);
+
+  const questions = EVAL_QUESTIONS.map((question) => {
+    const ranked = rankByLexicalScore(articles, extractQueryTokens(question))
+      .filter((r) => r.lexicalScore > 0)
+      .slice(0, QUESTION_CONTEXT_SIZE);
+    console.log(`   "${question}": ${ranked.length} context articles`);
+    return { question, articleIds: ranked.map((r) => r.article.id) };
+  });
+
+  const golden: EvalGoldenSet = {
+    recordedAt: new Date().toISOString(),
+    articles: articles.map(toEvalArticle),
+    summaryArticleIds,
+    briefs: briefs
+      .map((b) => ({ date: b.date, articleIds: b.sourceArticleIds.filter((id) => loaded.has(id)) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    questions: questions.filter((q) => q.articleIds.length > 0),
+  };
+
+  mkdirSync(outDir, { recursive: true });
+  const goldenPath = join(outDir, GOLDEN_FILE);
+  writeFileSync(goldenPath, JSON.stringify(golden, null, 2) + "\n");
+
+  console.log("\n✅ Recorded!");
+  console.log(`   Articles: ${golden.articles.length}`);
+  console.log(`   Cases: ${golden.summaryArticleIds.length} summaries, ${golden.briefs.length} briefs, ${golden.questions.length} questions`);
+  console.log(`   Next: npm run eval-prompts -- --golden=${outDir} --prompt=dailyBrief\n`);
+}
+
+main().catch(console.error);
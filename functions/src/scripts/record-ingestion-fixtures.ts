@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+/**
+ * Record Ingestion Fixtures Script
+ *
+ * Snapshots what ingestion downloads for each enabled source (raw feed
+ * bodies and the article pages fetchOgImage reads) into a fixture directory
+ * that npm run replay-ingestion can re-run offline. Nothing is written to
+ * Firestore.
+ *
+ * Run with: npm run record-fixtures
+ *
+ * Usage:
+ *   npm run record-fixtures                                   # All enabled sources
+ *   npm run record-fixtures -- --out=fixtures/ingestion/carriers
+ *   npm run record-fixtures -- --source=insurance-journal
+ *   npm run record-fixtures -- --max-og=5                     # og:image pages per feed
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import type { Source } from "../types/firestore.js";
+import {
+  fetchFeed,
+  fetchOgImage,
+  extractImageUrl,
+  resolveFeedAdapterConfig,
+  prepareRssItem,
+  createRecordingTransport,
+  setHttpTransport,
+} from "../lib/ingestion/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_FIXTURE_DIR = "fixtures/ingestion/default";
+
+/** Same lookback as scheduled ingestion */
+const MAX_ARTICLE_AGE_DAYS = 7;
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let outDir = DEFAULT_FIXTURE_DIR;
+  let sourceFilter: string | null = null;
+  let maxOgPerFeed = 20;
+
+  for (const arg of args) {
+    if (arg.startsWith("--out=")) {
+      outDir = arg.replace("--out=", "");
+    } else if (arg.startsWith("--source=")) {
+      sourceFilter = arg.replace("--source=", "");
+    } else if (arg.startsWith("--max-og=")) {
+      maxOgPerFeed = parseInt(arg.replace("--max-og=", ""), 10);
+    }
+  }
+
+  const sourcesSnap = await db.collection("sources").where("enabled", "==", true).get();
+  const sources = sourcesSnap.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as Source)
+    .filter((source) => !sourceFilter || source.id === sourceFilter);
+
+  console.log("\n📼 Record Ingestion Fixtures");
+  console.log(`   Output: ${outDir}`);
+  console.log(`   Sources: ${sources.length}`);
+  console.log(`   og:image pages per feed: ${maxOgPerFeed}\n`);
+
+  if (sources.length === 0) {
+    console.log("⚠️  No matching enabled sources.\n");
+    return;
+  }
+
+  const recorder = createRecordingTransport(outDir, sources);
+  setHttpTransport(recorder.fetch);
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - MAX_ARTICLE_AGE_DAYS);
+
+  for (const source of sources) {
+    const rssUrls = source.rssUrls?.length ? source.rssUrls : [source.rssUrl];
+    let items = 0;
+    let ogPages = 0;
+
+    for (const rssUrl of rssUrls) {
+      const result = await fetchFeed(rssUrl, source.fetchState, {
+        skipCache: true,
+        adapter: resolveFeedAdapterConfig(source, rssUrl),
+      });
+      if (!result.success) {
+        console.log(`   ⚠️  ${source.id}: ${rssUrl} failed (${result.error})`);
+        continue;
+      }
+      items += result.items.length;
+
+      // Items without a feed image make ingestion read the page's og:image
+      let ogForFeed = 0;
+      for (const item of result.items) {
+        if (ogForFeed >= maxOgPerFeed) break;
+        if (!prepareRssItem(item, cutoffDate) || extractImageUrl(item)) continue;
+        await fetchOgImage(item.link);
+        ogForFeed++;
+      }
+      ogPages += ogForFeed;
+    }
+
+    console.log(`   ${source.id}: ${rssUrls.length} feed(s), ${items} items, ${ogPages} og:image pages`);
+  }
+
+  setHttpTransport(null);
+  const manifest = recorder.save();
+
+  console.log("\n✅ Recorded!");
+  console.log(`   Responses: ${Object.keys(manifest.responses).length}`);
+  console.log(`   Recorded at: ${manifest.recordedAt}`);
+  console.log(`   Next: npm run replay-ingestion -- --fixtures=${outDir} --update-golden\n`);
+}
+
+main().catch(console.error);
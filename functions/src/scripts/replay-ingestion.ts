@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+/**
+ * Replay Ingestion Script
+ *
+ * Re-runs ingestion over recorded fixtures (npm run record-fixtures) with no
+ * network access and diffs the resulting articles against the fixture's
+ * golden.json. Use it to see which articles flip relevance, change
+ * categories or get new IDs after editing relevance.ts, url-utils.ts or a
+ * feed adapter. Exits 1 when the output differs from the golden file.
+ *
+ * Stores:
+ *   memory    (default) Pure in-process replay with the keyword heuristic
+ *   emulator  Full ingestSource path against the Firestore emulator
+ *             (clustering, revisions, active relevance model). Requires
+ *             FIRESTORE_EMULATOR_HOST; clears articles, storyClusters and
+ *             sources there first.
+ *
+ * Run with: npm run replay-ingestion
+ *
+ * Usage:
+ *   npm run replay-ingestion                                  # Diff against golden.json
+ *   npm run replay-ingestion -- --fixtures=fixtures/ingestion/carriers
+ *   npm run replay-ingestion -- --source=insurance-journal
+ *   npm run replay-ingestion -- --update-golden               # Accept current output
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run replay-ingestion -- --store=emulator
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { initializeApp, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import type { Article, Source } from "../types/firestore.js";
+import {
+  ingestSource,
+  readFixtureManifest,
+  fromFixtureSource,
+  createReplayTransport,
+  setHttpTransport,
+  replayIngestionInMemory,
+  toGoldenArticle,
+  diffGolden,
+  formatGoldenDiff,
+  isEmptyGoldenDiff,
+  MAX_ARTICLE_AGE_DAYS,
+  type GoldenArticle,
+} from "../lib/ingestion/index.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_FIXTURE_DIR = "fixtures/ingestion/default";
+const GOLDEN_FILE = "golden.json";
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+async function replayInEmulator(sources: Source[], cutoffDate: Date): Promise<Article[]> {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error("--store=emulator requires FIRESTORE_EMULATOR_HOST (start it with firebase emulators:start --only firestore)");
+  }
+  if (getApps().length === 0) {
+    initializeApp({ projectId: process.env.GCLOUD_PROJECT ?? "demo-replay" });
+  }
+  const db = getFirestore();
+
+  // Start from an empty store so the output depends only on the fixtures
+  for (const collection of ["articles", "storyClusters", "sources"]) {
+    await db.recursiveDelete(db.collection(collection));
+  }
+  for (const source of sources) {
+    await db.collection("sources").doc(source.id).set(source);
+  }
+
+  for (const source of sources) {
+    const result = await ingestSource(source, { cutoffDate, ignoreBackoff: true });
+    console.log(
+      `   ${source.id}: ${result.itemsFetched} fetched, ${result.itemsIngested} ingested, ` +
+        `${result.itemsSkipped} skipped, ${result.itemsDuplicate} duplicate` +
+        (result.error ? ` (${result.error})` : "")
+    );
+  }
+
+  const snapshot = await db.collection("articles").get();
+  return snapshot.docs.map((doc) => doc.data() as Article);
+}
+
+async function replayInMemory(sources: Source[], cutoffDate: Date): Promise<Article[]> {
+  const { articles, sources: results } = await replayIngestionInMemory(sources, { cutoffDate });
+  for (const result of results) {
+    console.log(
+      `   ${result.sourceId}: ${result.itemsFetched} fetched, ${result.itemsIngested} ingested, ` +
+        `${result.itemsSkipped} skipped, ${result.itemsDuplicate} duplicate` +
+        (result.errors.length > 0 ? ` (${result.errors.join("; ")})` : "")
+    );
+  }
+  return articles;
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main(): Promise<number> {
+  // Parse args
+  const args = process.argv.slice(2);
+  let fixtureDir = DEFAULT_FIXTURE_DIR;
+  let store: "memory" | "emulator" = "memory";
+  let sourceFilter: string | null = null;
+  let updateGolden = false;
+
+  for (const arg of args) {
+    if (arg.startsWith("--fixtures=")) {
+      fixtureDir = arg.replace("--fixtures=", "");
+    } else if (arg === "--store=emulator") {
+      store = "emulator";
+    } else if (arg === "--store=memory") {
+      store = "memory";
+    } else if (arg.startsWith("--source=")) {
+      sourceFilter = arg.replace("--source=", "");
+    } else if (arg === "--update-golden") {
+      updateGolden = true;
+    }
+  }
+
+  const manifest = readFixtureManifest(fixtureDir);
+  const sources = manifest.sources
+    .filter((source) => !sourceFilter || source.id === sourceFilter)
+    .map(fromFixtureSource);
+
+  // Scheduled ingestion's lookback, measured from the recording time
+  const cutoffDate = new Date(manifest.recordedAt);
+  cutoffDate.setDate(cutoffDate.getDate() - MAX_ARTICLE_AGE_DAYS);
+
+  console.log("\n🔁 Replay Ingestion");
+  console.log(`   Fixtures: ${fixtureDir} (recorded ${manifest.recordedAt})`);
+  console.log(`   Store: ${store}`);
+  console.log(`   Sources: ${sources.length}\n`);
+
+  const replay = createReplayTransport(fixtureDir, manifest);
+  setHttpTransport(replay.fetch);
+  const articles =
+    store === "emulator"
+      ? await replayInEmulator(sources, cutoffDate)
+      : await replayInMemory(sources, cutoffDate);
+  setHttpTransport(null);
+
+  if (replay.misses.length > 0) {
+    console.log(`\n   ${replay.misses.length} request(s) not in the fixture (answered 404)`);
+  }
+
+  const actual = articles.map(toGoldenArticle).sort((a, b) => a.id.localeCompare(b.id));
+  const relevant = actual.filter((a) => a.isRelevant).length;
+  console.log(`\n   Articles: ${actual.length} (${relevant} relevant)`);
+
+  const goldenPath = join(fixtureDir, GOLDEN_FILE);
+  if (updateGolden || !existsSync(goldenPath)) {
+    writeFileSync(goldenPath, JSON.stringify(actual, null, 2) + "\n");
+    console.log(`\n✅ Wrote ${goldenPath}\n`);
+    return 0;
+  }
+
+  let expected = JSON.parse(readFileSync(goldenPath, "utf8")) as GoldenArticle[];
+  if (sourceFilter) {
+    expected = expected.filter((a) => a.sourceId === sourceFilter);
+  }
+
+  const diff = diffGolden(expected, actual);
+  console.log("\n" + formatGoldenDiff(diff));
+
+  if (isEmptyGoldenDiff(diff)) {
+    console.log("\n✅ Matches golden output\n");
+    return 0;
+  }
+  console.log("\n❌ Differs from golden output (accept with --update-golden)\n");
+  return 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error("❌ Error:", e);
+    process.exit(1);
+  });
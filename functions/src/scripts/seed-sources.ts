@@ -11,7 +11,7 @@
 
 import { initializeApp, getApps } from "firebase-admin/app";
 import { getFirestore, Timestamp } from "firebase-admin/firestore";
-import type { SourceCategory } from "../types/firestore.js";
+import type { SourceCategory, FeedAdapterConfig } from "../types/firestore.js";
 
 // Initialize Firebase Admin if not already initialized
 if (getApps().length === 0) {
@@ -32,10 +32,14 @@ interface SourceSeed {
   siteUrl: string;
   rssUrl: string;
   rssUrls?: string[];
+  /** Non-RSS feeds (JSON Feed, news sitemap, HTML listing) */
+  feedAdapters?: FeedAdapterConfig[];
   enabled: boolean;
   enabledByDefault: boolean;
   tags: SourceCategory[];
   region?: string;
+  /** Only set after confirming the publisher's terms permit full-text extraction */
+  allowFullText?: boolean;
 }
 
 const REPUTABLE_SOURCES: SourceSeed[] = [
@@ -191,9 +195,15 @@ async function seedSources(): Promise<void> {
     if (seed.rssUrls) {
       sourceData.rssUrls = seed.rssUrls;
     }
+    if (seed.feedAdapters) {
+      sourceData.feedAdapters = seed.feedAdapters;
+    }
     if (seed.region) {
       sourceData.region = seed.region;
     }
+    if (seed.allowFullText !== undefined) {
+      sourceData.allowFullText = seed.allowFullText;
+    }
     if (fetchStates) {
       sourceData.fetchStates = fetchStates;
     }
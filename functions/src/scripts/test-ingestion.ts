@@ -16,7 +16,11 @@ if (getApps().length === 0) {
 async function testIngestion(): Promise<void> {
   console.log("🚀 Testing ingestion with 7-day lookback...\n");
 
-  const summary = await ingestAllEnabledSources({ maxAgeDays: 7 });
+  const summary = await ingestAllEnabledSources({
+    maxAgeDays: 7,
+    trigger: "script",
+    triggeredBy: "test-ingestion",
+  });
 
   console.log("\n=== Ingestion Summary ===");
   console.log("Duration:", summary.durationMs, "ms");
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * Train Relevance Model Script
+ *
+ * Retrains the P&C relevance classifier from editor labels
+ * (relevanceLabels/{articleId}) and reports precision/recall on held-out
+ * labels against the keyword heuristic.
+ *
+ * Run with: npm run train-relevance
+ *
+ * Usage:
+ *   npm run train-relevance                          # Train + report only (nothing saved)
+ *   npm run train-relevance -- --save                # Save as an inactive model
+ *   npm run train-relevance -- --save --activate     # Save and start using it at ingest
+ *   npm run train-relevance -- --embeddings          # Add article embeddings as features (compare only;
+ *                                                    # ingest has no embeddings, so it can't be activated)
+ *   npm run train-relevance -- --activate-version=lr-20261019-1405
+ *   npm run train-relevance -- --deactivate          # Fall back to the heuristic
+ */
+
+import { initializeApp, getApps } from "firebase-admin/app";
+import type { ClassifierMetrics } from "../types/firestore.js";
+import {
+  generateModelVersion,
+  trainRelevanceModel,
+  saveRelevanceModel,
+  activateRelevanceModel,
+  loadTrainingExamples,
+} from "../lib/classifier/index.js";
+
+// Initialize Firebase Admin if not already initialized
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatMetricsRow(label: string, m: ClassifierMetrics): string {
+  return (
+    `   ${label.padEnd(10)}` +
+    `${m.precision.toFixed(3).padStart(10)}` +
+    `${m.recall.toFixed(3).padStart(10)}` +
+    `${m.f1.toFixed(3).padStart(10)}` +
+    `${m.accuracy.toFixed(3).padStart(10)}` +
+    `   TP=${m.truePositives} FP=${m.falsePositives} TN=${m.trueNegatives} FN=${m.falseNegatives}`
+  );
+}
+
+// ============================================================================
+// Main Script
+// ============================================================================
+
+async function main() {
+  // Parse args
+  const args = process.argv.slice(2);
+  let save = false;
+  let activate = false;
+  let useEmbeddings = false;
+  let activateVersion: string | null = null;
+  let deactivate = false;
+
+  for (const arg of args) {
+    if (arg === "--save") save = true;
+    else if (arg === "--activate") activate = true;
+    else if (arg === "--embeddings") useEmbeddings = true;
+    else if (arg === "--deactivate") deactivate = true;
+    else if (arg.startsWith("--activate-version=")) {
+      activateVersion = arg.replace("--activate-version=", "");
+    }
+  }
+
+  if (useEmbeddings && activate) {
+    throw new Error("--embeddings models can't be activated: ingest scores articles before they are embedded");
+  }
+
+  // Model management without training
+  if (deactivate) {
+    await activateRelevanceModel(null);
+    console.log("✅ All relevance models deactivated; ingestion uses the keyword heuristic.");
+    return;
+  }
+  if (activateVersion) {
+    await activateRelevanceModel(activateVersion);
+    console.log(`✅ Activated relevance model ${activateVersion}.`);
+    return;
+  }
+
+  console.log("\n🧠 Train Relevance Model");
+  console.log(`   Embedding features: ${useEmbeddings ? "on" : "off"}`);
+  console.log(`   Save: ${save ? (activate ? "yes (activate)" : "yes (inactive)") : "no (dry run)"}\n`);
+
+  console.log("📋 Loading labels...");
+  const examples = await loadTrainingExamples({ withEmbeddings: useEmbeddings });
+  const relevant = examples.filter((e) => e.isRelevant).length;
+  const categorized = examples.filter((e) => e.categories !== null).length;
+  console.log(`   ${examples.length} labels (${relevant} relevant, ${categorized} with categories)`);
+  if (useEmbeddings) {
+    const withVectors = examples.filter((e) => e.vector).length;
+    console.log(`   ${withVectors} labels have embeddings`);
+  }
+
+  const version = generateModelVersion(new Date());
+  const model = trainRelevanceModel(examples, { version, useEmbeddings });
+
+  console.log(`\n📊 Held-out evaluation (${model.evalExamples} labels, trained on ${model.trainingExamples})\n`);
+  console.log(`   ${"".padEnd(10)}${"precision".padStart(10)}${"recall".padStart(10)}${"f1".padStart(10)}${"accuracy".padStart(10)}`);
+  console.log(formatMetricsRow("model", model.metrics.model));
+  console.log(formatMetricsRow("heuristic", model.metrics.heuristic));
+
+  const heads = Object.keys(model.categories);
+  console.log(`\n   Category heads: ${heads.length > 0 ? heads.join(", ") : "none (too few category labels)"}`);
+
+  if (model.metrics.model.f1 < model.metrics.heuristic.f1) {
+    console.log("\n⚠️  Model F1 is below the heuristic; consider labeling more articles before activating.");
+  }
+
+  if (!save) {
+    console.log("\nℹ️  Dry run: pass --save (and optionally --activate) to store this model.\n");
+    return;
+  }
+
+  await saveRelevanceModel(model, { activate });
+  console.log(`\n✅ Saved relevance model ${version}${activate ? " (active)" : ""}.\n`);
+}
+
+main().catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -4,10 +4,29 @@
  * Collections:
  * - sources/{sourceId}
  * - articles/{articleId}
+ * - storyClusters/{clusterId}
+ * - breakingAlerts/{clusterId}
+ * - ingestionRuns/{runId}
+ * - relevanceLabels/{articleId}
+ * - relevanceModels/{version}
+ * - vectorIndexes/{version}
+ *   - shards/{shardId}
+ * - searchPostings/{term}_{yyyymm}
+ * - searchStats/{yyyymm}
+ * - searchTerms/{term}
  * - briefs/{yyyy-mm-dd}
+ * - briefVariants/{yyyy-mm-dd}_{profileKey}
+ * - digests/{period}_{periodKey}
+ * - aiUsage/{recordId}
+ * - aiUsageDaily/{yyyy-mm-dd}
  * - users/{uid}
  *   - bookmarks/{articleId}
  *   - prefs/main
+ *   - briefs/{yyyy-mm-dd}
+ *   - notificationState/breakingNews
+ *   - notificationState/email
+ *   - chatThreads/{threadId}
+ *     - messages/{messageId}
  */
 
 import type { Timestamp } from "firebase-admin/firestore";
@@ -39,6 +58,79 @@ export interface SourceFetchState {
   lastError: string | null;
 }
 
+/** How a feed URL is fetched and parsed */
+export type FeedAdapterType = "rss" | "jsonfeed" | "sitemap" | "html";
+
+/**
+ * CSS-selector rules for scraping an HTML listing page.
+ * Field selectors are evaluated inside each matched item element.
+ */
+export interface HtmlListingRules {
+  /** Selects one element per article (e.g. "ul.news-list > li") */
+  item: string;
+  /** Headline element (default: the link element) */
+  title?: string;
+  /** Link element; its href is used (default: first "a[href]" in the item) */
+  link?: string;
+  /** Date element; datetime/content attribute or text is parsed (default: "time") */
+  date?: string;
+  /** Summary element */
+  summary?: string;
+  /** Image element; its src is used */
+  image?: string;
+  /** Use the fetch time for items without a parseable date (default: skip them) */
+  useFetchTimeWhenUndated?: boolean;
+}
+
+/** Adapter choice for one feed URL of a source */
+export interface FeedAdapterConfig {
+  /** Feed URL (must match rssUrl or an entry of rssUrls) */
+  url: string;
+  type: FeedAdapterType;
+  /** Required when type is "html" */
+  html?: HtmlListingRules;
+}
+
+/** Coarse classification of feed fetch failures */
+export type SourceErrorClass =
+  | "not_found"
+  | "http_client"
+  | "http_server"
+  | "timeout"
+  | "network"
+  | "parse"
+  | "unknown";
+
+/** Rolling health record for a single feed URL */
+export interface SourceFeedHealth {
+  /** Feed URL this record describes */
+  url: string;
+  /** Failures since the last successful fetch */
+  consecutiveFailures: number;
+  /** Total fetch attempts recorded */
+  totalRuns: number;
+  /** Fetches that returned a feed body (excludes 304 Not Modified) */
+  sampledRuns: number;
+  /** Mean items per fetch over sampled runs */
+  avgItemsPerRun: number;
+  /** Last successful fetch (including 304 Not Modified) */
+  lastSuccessAt: Timestamp | null;
+  /** Last failed fetch */
+  lastFailureAt: Timestamp | null;
+  /** Last fetch error message (null after a success) */
+  lastError: string | null;
+  /** Class of the last fetch error (null after a success) */
+  lastErrorClass: SourceErrorClass | null;
+  /** Lifetime failure counts by class */
+  errorCounts: Partial<Record<SourceErrorClass, number>>;
+  /** Earliest time the feed should be retried (null = no backoff) */
+  nextAttemptAt: Timestamp | null;
+  /** Whether the feed is quarantined (skipped until an admin releases it) */
+  quarantined: boolean;
+  /** When the feed was quarantined */
+  quarantinedAt: Timestamp | null;
+}
+
 export interface Source {
   /** Unique identifier (slug-style, e.g., "insurance-journal") */
   id: string;
@@ -68,6 +160,70 @@ export interface Source {
   fetchState: SourceFetchState;
   /** Fetch states per RSS URL (for multi-feed sources) */
   fetchStates?: Record<string, SourceFetchState>;
+  /** Health per feed, keyed like fetchStates (applies to single-feed sources too) */
+  feedHealth?: Record<string, SourceFeedHealth>;
+  /** Adapter per feed URL; feeds not listed are parsed as RSS/Atom */
+  feedAdapters?: FeedAdapterConfig[];
+  /**
+   * Whether the publisher's terms allow fetching the full article body for
+   * private AI use. The body is never shown to users (see ArticleFullText).
+   */
+  allowFullText?: boolean;
+}
+
+// ============================================================================
+// Ingestion Runs Collection: ingestionRuns/{runId}
+// ============================================================================
+
+/** What started an ingestion run */
+export type IngestionTrigger = "scheduled" | "manual" | "backfill" | "script";
+
+/** Per-source outcome within an ingestion run */
+export interface IngestionRunSourceResult {
+  sourceId: string;
+  sourceName: string;
+  success: boolean;
+  notModified: boolean;
+  /** Every feed was skipped (backoff/quarantine) */
+  skipped: boolean;
+  itemsFetched: number;
+  itemsIngested: number;
+  itemsSkipped: number;
+  itemsDuplicate: number;
+  itemsClustered: number;
+  /** Duplicates that carried a publisher update (absent on runs before revision tracking) */
+  itemsUpdated?: number;
+  feedsProcessed: number;
+  feedsSkipped: number;
+  cached: boolean;
+  durationMs: number | null;
+  error: string | null;
+}
+
+/** Stored record of one ingestAllEnabledSources() run */
+export interface IngestionRunDoc {
+  /** Run ID (same as document ID) */
+  id: string;
+  /** What started the run */
+  trigger: IngestionTrigger;
+  /** Admin email or caller label (null for scheduled runs) */
+  triggeredBy: string | null;
+  startedAt: Timestamp;
+  completedAt: Timestamp;
+  durationMs: number;
+  /** Options the run was started with */
+  maxAgeDays: number;
+  forceRefresh: boolean;
+  sourcesProcessed: number;
+  successCount: number;
+  failureCount: number;
+  totalItemsFetched: number;
+  totalItemsIngested: number;
+  totalItemsSkipped: number;
+  totalItemsDuplicate: number;
+  results: IngestionRunSourceResult[];
+  /** Deletion time for the Firestore TTL policy */
+  expiresAt: Timestamp;
 }
 
 // ============================================================================
@@ -99,16 +255,130 @@ export interface Article {
   publishedAt: Timestamp;
   /** When we ingested this article */
   ingestedAt: Timestamp;
-  /** P&C relevance score (0-1) from heuristic filter */
+  /** P&C relevance score (0-1) */
   relevanceScore: number;
   /** Whether article passes P&C relevance filter */
   isRelevant: boolean;
+  /**
+   * What produced relevanceScore/isRelevant/categories: "heuristic-v1",
+   * a trained model version (e.g. "lr-20261019-1200"), or "editor".
+   * Absent on articles ingested before model versioning.
+   */
+  relevanceModel?: string;
   /** AI-generated content (cached, generated on first request) */
   ai: ArticleAI | null;
   /** Vector embedding for semantic search (optional, computed on-demand) */
   embedding?: ArticleEmbedding;
   /** Search tokens for lexical narrowing (optional, computed at ingest) */
   searchTokens?: string[];
+  /** Story cluster this article belongs to (null/absent if unclustered) */
+  clusterId?: string | null;
+  /** Named entities found in title/snippet (absent on articles ingested before tagging) */
+  entities?: ArticleEntity[];
+  /** Entity keys for array-contains filtering, e.g. ["company:travelers", "state:FL"] */
+  entityKeys?: string[];
+  /** Inferred geography (absent on articles ingested before geo tagging) */
+  geo?: ArticleGeo;
+  /** Geography keys for filtering, e.g. ["state:FL", "country:US", "region:north-america"] */
+  geoKeys?: string[];
+  /** Whether articles/{id}/private/fullText holds an extracted body (allowFullText sources only) */
+  hasFullText?: boolean;
+  /** Publisher updates recorded in articles/{id}/revisions (absent when never revised) */
+  revisionCount?: number;
+  /** When the latest revision was detected */
+  lastRevisedAt?: Timestamp;
+  /** `ai` predates the latest content revision; regenerated on next request */
+  aiStale?: boolean;
+}
+
+/** Kind of named entity tagged on an article */
+export type EntityType = "company" | "regulator" | "state" | "country" | "peril" | "line";
+
+/** Market role of a company entity */
+export type CompanyRole = "carrier" | "broker" | "reinsurer";
+
+/**
+ * Normalized entity tagged on an article (from the gazetteer in lib/entities)
+ */
+export interface ArticleEntity {
+  /** Stable key "{type}:{id}", e.g. "company:travelers", "state:FL", "line:workers-comp" */
+  key: string;
+  type: EntityType;
+  /** Display name, e.g. "Travelers", "Florida", "Workers' Compensation" */
+  name: string;
+  /** Companies only */
+  role?: CompanyRole;
+  /** Exchange ticker for listed companies */
+  ticker?: string;
+  /** SEC Central Index Key for US filers */
+  cik?: string;
+}
+
+/** Broad geographic region an article is tagged with */
+export type GeoRegion =
+  | "north-america"
+  | "latin-america"
+  | "europe"
+  | "asia-pacific"
+  | "middle-east-africa";
+
+/** Where an article is about, inferred from its dateline and text */
+export interface ArticleGeo {
+  /** USPS codes, dateline first, e.g. ["FL", "GA"] */
+  states: string[];
+  /** ISO 3166-1 alpha-2 codes, e.g. ["US"] or ["GB", "FR"] */
+  countries: string[];
+  regions: GeoRegion[];
+  /** Dateline place as written, e.g. "TALLAHASSEE, Fla." (null when none) */
+  dateline: string | null;
+}
+
+// ============================================================================
+// Article Revisions: articles/{articleId}/revisions/{revisionId}
+// ============================================================================
+
+/** Article field a publisher update can change */
+export type ArticleRevisionField = "title" | "snippet" | "publishedAt";
+
+/** Title, snippet and date of an article at one point in time */
+export interface ArticleRevisionSnapshot {
+  title: string;
+  snippet: string;
+  publishedAt: Timestamp;
+}
+
+/**
+ * One detected publisher update to an article
+ */
+export interface ArticleRevision {
+  /** Revision ID (same as document ID) */
+  id: string;
+  detectedAt: Timestamp;
+  changedFields: ArticleRevisionField[];
+  /** The article before this update */
+  previous: ArticleRevisionSnapshot;
+  /** The article after this update */
+  current: ArticleRevisionSnapshot;
+}
+
+// ============================================================================
+// Article Full Text: articles/{articleId}/private/fullText (server only)
+// ============================================================================
+
+/**
+ * Extracted article body for sources with allowFullText.
+ * Feeds article AI, embeddings and Ask context; never returned to clients,
+ * which only ever see the ≤200 char snippet.
+ */
+export interface ArticleFullText {
+  /** Readable body text, paragraphs separated by blank lines */
+  text: string;
+  wordCount: number;
+  /** Page the text was extracted from */
+  url: string;
+  /** Extractor version, e.g. "readability-v1" */
+  extractor: string;
+  extractedAt: Timestamp;
 }
 
 /**
@@ -141,6 +411,239 @@ export interface ArticleAI {
   generatedAt: Timestamp;
   /** Model used for generation */
   model: string;
+  /** Prompt version tag, e.g. "articleSummary@v1" (absent before prompt versioning) */
+  promptVersion?: string;
+}
+
+// ============================================================================
+// Relevance Labels Collection: relevanceLabels/{articleId}
+// ============================================================================
+
+/** Editor judgement on an article, used as classifier training data */
+export interface RelevanceLabel {
+  articleId: string;
+  /** Whether the article is P&C relevant */
+  isRelevant: boolean;
+  /** Corrected categories (null if the editor did not recategorize) */
+  categories: SourceCategory[] | null;
+  /** Training inputs, snapshotted so labels survive article edits */
+  title: string;
+  snippet: string;
+  sourceId: string;
+  sourceTags: SourceCategory[];
+  /** What the article had before the label was applied */
+  previous: {
+    isRelevant: boolean;
+    relevanceScore: number;
+    relevanceModel: string | null;
+    categories: SourceCategory[];
+  };
+  labeledBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// ============================================================================
+// Relevance Models Collection: relevanceModels/{version}
+// ============================================================================
+
+/** One logistic regression head (dense weights over the feature space) */
+export interface LogisticHead {
+  weights: number[];
+  bias: number;
+}
+
+/** Precision/recall of a binary classifier on held-out labels */
+export interface ClassifierMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+/** A trained relevance/category classifier */
+export interface RelevanceModelDoc {
+  /** Version string, also the document ID (e.g. "lr-20261019-1200") */
+  version: string;
+  /** Only one model is active at a time; none active means heuristic */
+  status: "active" | "inactive";
+  /** Size of the hashed token feature space */
+  hashDims: number;
+  /** Embedding dimensions appended to the token features (0 = tokens only) */
+  embeddingDims: number;
+  /** Probability at or above which an article is relevant */
+  threshold: number;
+  relevance: LogisticHead;
+  /** One-vs-rest heads; categories with too few labels are omitted */
+  categories: Partial<Record<SourceCategory, LogisticHead>>;
+  trainingExamples: number;
+  evalExamples: number;
+  /** Held-out metrics for this model and the keyword heuristic */
+  metrics: {
+    model: ClassifierMetrics;
+    heuristic: ClassifierMetrics;
+  };
+  createdAt: Timestamp;
+  activatedAt: Timestamp | null;
+}
+
+// ============================================================================
+// Vector Indexes Collection: vectorIndexes/{version}
+// ============================================================================
+
+/** An IVF index over article embeddings, rebuilt nightly */
+export interface VectorIndexDoc {
+  /** Version string, also the document ID (e.g. "ivf-20261019-0430") */
+  version: string;
+  /** Only one index is active at a time; none active means in-request ranking only */
+  status: "active" | "inactive";
+  /** Embedding model of every indexed vector (questions must use the same) */
+  model: string;
+  dims: number;
+  listCount: number;
+  /** Base64 float32 centroids, dims per list */
+  centroids: string;
+  articleCount: number;
+  shardCount: number;
+  /** Newest indexed article; later articles are found by the candidate query */
+  newestPublishedAt: Timestamp | null;
+  buildMs: number;
+  builtAt: Timestamp;
+}
+
+/** A slice of an index's entries: vectorIndexes/{version}/shards/{nnnn} */
+export interface VectorIndexShardDoc {
+  ids: string[];
+  /** List of each entry */
+  lists: number[];
+  publishedAtMs: number[];
+  sourceIds: string[];
+  /** Category bitmask per entry */
+  categoryBits: number[];
+  /** int8 dequantization scale per entry */
+  scales: number[];
+  /** Base64 int8 codes, dims per entry */
+  codes: string;
+}
+
+// ============================================================================
+// Search Index Collections: searchPostings/{term}_{yyyymm}, searchStats/{yyyymm},
+// searchTerms/{term}
+// ============================================================================
+
+/** One article's occurrences of a term */
+export interface SearchPosting {
+  /** Article length in indexed terms */
+  length: number;
+  publishedAtMs: number;
+  /** Term positions in the title and snippet */
+  positions: number[];
+}
+
+/** Relevant articles containing one term, published in one UTC month */
+export interface SearchPostingsDoc {
+  term: string;
+  /** "yyyymm" */
+  month: string;
+  /** Keyed by article ID; document frequency is the key count */
+  postings: Record<string, SearchPosting>;
+}
+
+/** Term dictionary entry, for expanding search prefixes */
+export interface SearchTermDoc {
+  term: string;
+  /** Articles containing the term, by "yyyymm" (0 once all are removed) */
+  months: Record<string, number>;
+}
+
+/** Corpus statistics for BM25, per UTC month */
+export interface SearchStatsDoc {
+  month: string;
+  docCount: number;
+  /** Sum of article lengths (average length = totalLength / docCount) */
+  totalLength: number;
+  updatedAt: Timestamp;
+}
+
+// ============================================================================
+// Story Clusters Collection: storyClusters/{clusterId}
+// ============================================================================
+
+/** A single article within a story cluster (denormalized for display) */
+export interface StoryClusterMember {
+  /** Article ID reference */
+  articleId: string;
+  /** Source ID reference */
+  sourceId: string;
+  /** Source display name */
+  sourceName: string;
+  /** Article headline */
+  title: string;
+  /** Original article URL */
+  url: string;
+  /** Publication timestamp */
+  publishedAt: Timestamp;
+  /** P&C relevance score (0-1) */
+  relevanceScore: number;
+}
+
+/** Group of articles from different sources covering the same event */
+export interface StoryCluster {
+  /** Cluster ID (same as document ID) */
+  id: string;
+  /** Representative article for the story */
+  leadArticleId: string;
+  /** All member articles, including the lead */
+  members: StoryClusterMember[];
+  /** Article IDs of all members (for array-contains lookups) */
+  memberArticleIds: string[];
+  /** Unique source IDs covering this story */
+  sourceIds: string[];
+  /** Number of unique sources covering this story */
+  sourceCount: number;
+  /** Earliest member publication timestamp */
+  firstPublishedAt: Timestamp;
+  /** Latest member publication timestamp */
+  lastPublishedAt: Timestamp;
+  /** When this cluster was created */
+  createdAt: Timestamp;
+  /** When this cluster was last updated */
+  updatedAt: Timestamp;
+}
+
+// ============================================================================
+// Breaking Alerts Collection: breakingAlerts/{clusterId}
+// ============================================================================
+
+/** Why a story was flagged as breaking */
+export type BreakingReason = "velocity" | "high_relevance" | "catastrophe" | "regulatory";
+
+/** A story pushed as breaking news (one per cluster, ever) */
+export interface BreakingAlert {
+  /** Story cluster ID (same as document ID) */
+  id: string;
+  /** Lead article the push opens */
+  leadArticleId: string;
+  /** Lead article headline */
+  title: string;
+  /** Sources covering the story when it was flagged */
+  sourceNames: string[];
+  /** Detector score (0-1) */
+  score: number;
+  reasons: BreakingReason[];
+  /** Catastrophe/regulatory keywords that matched */
+  matchedKeywords: string[];
+  detectedAt: Timestamp;
+  /** Users who received the push (after opt-in and daily cap) */
+  recipients: number;
+  /** Users skipped because they hit the daily cap */
+  cappedUsers: number;
+  sent: number;
+  failed: number;
 }
 
 // ============================================================================
@@ -170,6 +673,46 @@ export interface BriefSourceUsed {
   name: string;
 }
 
+/** Why a brief claim failed verification */
+export type BriefVerificationIssueType =
+  | "unknown_article" // Cited an article ID that wasn't in the input
+  | "unsupported_number" // Number not found in the cited articles
+  | "unsupported_entity"; // Company, regulator, state or country not in the cited articles
+
+/** One verification finding and what was done about it */
+export interface BriefVerificationIssue {
+  type: BriefVerificationIssueType;
+  /** "executiveSummary", "topStories" or a section key, e.g. "propertyCat" */
+  part: string;
+  /** Bullet or top-story index within the part */
+  index: number;
+  /** Offending article ID, number or entity name */
+  value: string;
+  /**
+   * removed_reference: bad article ID stripped;
+   * regenerated: part rewritten by the repair pass;
+   * dropped: bullet or top story removed;
+   * kept: left in place (removing it would empty the part)
+   */
+  resolution: "removed_reference" | "regenerated" | "dropped" | "kept";
+}
+
+/** Post-generation grounding audit stored on the brief */
+export interface BriefVerification {
+  checkedAt: Timestamp;
+  /** True when the model's output needed no changes */
+  passed: boolean;
+  /** Articles claims were checked against */
+  articlesChecked: number;
+  issues: BriefVerificationIssue[];
+  /** Parts rewritten by the repair pass */
+  regeneratedParts: string[];
+  /** Repair prompt version tag, set when the repair pass ran */
+  repairPromptVersion?: string;
+  /** Issues still present in the saved brief */
+  unresolved: number;
+}
+
 export interface Brief {
   /** Date in yyyy-mm-dd format */
   date: string;
@@ -197,6 +740,119 @@ export interface Brief {
   sourceArticleIds: string[];
   /** Model used for generation */
   model: string;
+  /** Prompt version tag, e.g. "dailyBrief@v1" (absent before prompt versioning) */
+  promptVersion?: string;
+  /** Preference profile a personal brief was built for (absent on the shared brief) */
+  profileKey?: string;
+  /** Grounding audit (absent on briefs generated before verification) */
+  verification?: BriefVerification;
+}
+
+// ============================================================================
+// Digests Collection: digests/{period}_{periodKey}
+// ============================================================================
+
+/** Roll-up length: weekly (Mon-Sun) or monthly (calendar month) */
+export type DigestPeriod = "weekly" | "monthly";
+
+/** A topic whose brief mentions moved versus the prior equivalent period */
+export interface DigestMomentumTopic {
+  /** Canonical topic key (same as pulse) */
+  key: string;
+  /** Human-readable display name */
+  displayName: string;
+  /** Mentions across the period's daily briefs */
+  mentions: number;
+  /** Mentions across the prior equivalent period */
+  baselineMentions: number;
+  /** mentions - baselineMentions */
+  momentum: number;
+}
+
+/**
+ * Weekly or monthly roll-up synthesized from the period's daily briefs.
+ * Document ID: `${period}_${periodKey}`, e.g. weekly_2026-10-12, monthly_2026-09
+ */
+export interface Digest {
+  /** Document ID */
+  id: string;
+  period: DigestPeriod;
+  /** Week start (Monday, yyyy-mm-dd) or month (yyyy-mm) */
+  periodKey: string;
+  /** First day covered (yyyy-mm-dd) */
+  startDate: string;
+  /** Last day covered (yyyy-mm-dd, inclusive) */
+  endDate: string;
+  /** When this digest was created */
+  createdAt: Timestamp;
+  /** Narrative summary bullets for the period */
+  executiveSummary: string[];
+  /** The period's top stories */
+  topStories: BriefTopStory[];
+  /** What changed versus the prior period (narrative bullets) */
+  whatChanged: string[];
+  /** Topics gaining mentions versus the prior period (pulse momentum) */
+  rising: DigestMomentumTopic[];
+  /** Topics losing mentions versus the prior period */
+  falling: DigestMomentumTopic[];
+  /** Category sections (same shape as the daily brief) */
+  sections: Brief["sections"];
+  /** Key topics of the period */
+  topics: string[];
+  /** Daily briefs the digest was synthesized from */
+  briefDates: string[];
+  /** Sources behind the daily briefs */
+  sourcesUsed: BriefSourceUsed[];
+  /** Article IDs given to the model (for grounded chat) */
+  sourceArticleIds: string[];
+  /** Model used for generation */
+  model: string;
+  /** Prompt version tag, e.g. "digest@v1" (absent before prompt versioning) */
+  promptVersion?: string;
+}
+
+// ============================================================================
+// AI Usage Ledger: aiUsage/{recordId}, aiUsageDaily/{yyyy-mm-dd}
+// ============================================================================
+
+/** Token, cost and call counts for one slice of AI usage */
+export interface AiUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from the model price table in config/llm.ts */
+  costUsd: number;
+}
+
+/** One model call (embeddings included), kept 30 days */
+export interface AiUsageRecord {
+  /** LLM task (e.g. "dailyBrief", "ragAnswer") or "embeddings" */
+  feature: string;
+  model: string;
+  /** Caller's UID (guest_<ip> for guest Ask), null for scheduled work */
+  uid: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  /** Day the call counts toward (yyyy-mm-dd, America/New_York) */
+  date: string;
+  createdAt: Timestamp;
+  /** Deletion time for the Firestore TTL policy */
+  expiresAt: Timestamp;
+}
+
+/**
+ * Running totals for one day (America/New_York), incremented on every call.
+ * Document ID: yyyy-mm-dd
+ */
+export interface AiUsageDaily extends AiUsageTotals {
+  date: string;
+  byFeature: Record<string, AiUsageTotals>;
+  byModel: Record<string, AiUsageTotals>;
+  /** Calls made on behalf of a user (scheduled work is not attributed) */
+  byUser: Record<string, AiUsageTotals>;
+  updatedAt: Timestamp;
 }
 
 // ============================================================================
@@ -246,13 +902,44 @@ export interface UserPreferences {
   notifications: {
     dailyBrief: boolean;
     breakingNews: boolean;
+    /** Email the daily brief (opt-in) */
+    dailyBriefEmail?: boolean;
+    /** Email the weekly digest (opt-in) */
+    weeklyDigestEmail?: boolean;
   };
   /** Watchlist topics (canonical form) for Industry Pulse */
   watchlistTopics?: string[];
+  /** USPS codes of the user's territory; feed and brief lean toward these (max 10) */
+  myStates?: string[];
+  /** Build a "My Brief" from enabled sources, categories and watchlist topics */
+  personalBrief?: boolean;
   /** Last updated timestamp */
   updatedAt: Timestamp;
 }
 
+// ============================================================================
+// Notification State Subcollection: users/{uid}/notificationState/breakingNews
+// ============================================================================
+
+/** Per-user breaking-news push count for the daily cap (server-only) */
+export interface BreakingNewsNotificationState {
+  /** yyyy-mm-dd (America/New_York) the count applies to */
+  dateKey: string;
+  count: number;
+  lastSentAt: Timestamp;
+}
+
+// ============================================================================
+// Notification State Subcollection: users/{uid}/notificationState/email
+// ============================================================================
+
+/** Per-user email unsubscribe token, created on first send (server-only) */
+export interface EmailNotificationState {
+  /** "<uid>.<secret>", carried in every email's unsubscribe link */
+  unsubscribeToken: string;
+  createdAt: Timestamp;
+}
+
 // ============================================================================
 // Signals Cache Collection: signals/{dateKey_wWindowDays}
 // (Legacy — retained for backward compatibility with cached responses)
@@ -321,6 +1008,8 @@ export interface PulseTopicDoc {
   uniqueSources: number;
   /** Array[windowDays] of daily mention counts (oldest first) */
   trendSeries: number[];
+  /** Gazetteer entities the topic refers to (absent on older snapshots) */
+  entityKeys?: string[];
 }
 
 /** A driver reference cited in the pulse narrative */
@@ -347,6 +1036,8 @@ export interface PulseNarrativeDoc {
   drivers: PulseNarrativeDriverDoc[];
   /** Count of unique sources referenced */
   sourcesUsed: number;
+  /** Prompt version tag, e.g. "pulseNarrative@v1" (absent before prompt versioning) */
+  promptVersion?: string;
 }
 
 /** Pulse snapshot document stored at pulseSnapshots/{windowDays} */
@@ -389,14 +1080,17 @@ export interface WatchlistTopicDoc {
 // Chat Threads Subcollection: users/{uid}/chatThreads/{threadId}
 // ============================================================================
 
-/** Time scope for chat queries */
-export type ChatTimeScope = "today" | "7d" | "30d";
+/** Time scope for chat queries ("custom" uses the thread's dateFrom/dateTo) */
+export type ChatTimeScope = "today" | "7d" | "30d" | "90d" | "1y" | "custom";
 
-/** Source filter mode */
-export type ChatSourceFilter = "all" | "selected";
+/** Source filter mode ("selected" = the user's enabled sources, "custom" = the thread's sourceIds) */
+export type ChatSourceFilter = "all" | "selected" | "custom";
 
 /** Category filter for chat */
-export type ChatCategory = "all" | "property" | "casualty" | "regulation" | "claims" | "reinsurance";
+export type ChatCategory = "all" | SourceCategory;
+
+/** Lifecycle of an assistant message written by the answer stream */
+export type ChatMessageStatus = "streaming" | "complete" | "error";
 
 /** Citation reference in a chat message */
 export interface ChatCitation {
@@ -428,6 +1122,18 @@ export interface ChatThread {
   sourceFilter: ChatSourceFilter;
   /** Category filter */
   category: ChatCategory;
+  /** First day of a custom scope (yyyy-mm-dd, ET) */
+  dateFrom?: string;
+  /** Last day of a custom scope, inclusive (yyyy-mm-dd, ET) */
+  dateTo?: string;
+  /** Sources searched when sourceFilter is "custom" (max 30) */
+  sourceIds?: string[];
+  /** Pulse topic keys the answers are scoped to (max 10) */
+  topics?: string[];
+  /** Only search the user's bookmarks */
+  bookmarksOnly?: boolean;
+  /** Messages in the thread (user and assistant) */
+  messageCount?: number;
 }
 
 /** Chat message document */
@@ -442,5 +1148,14 @@ export interface ChatMessage {
   createdAt: Timestamp;
   /** Citations (only for assistant messages) */
   citations?: ChatCitation[];
+  /** Key takeaways (only for assistant messages) */
+  takeaways?: string[];
+  /**
+   * Assistant messages written by the server: "streaming" while the answer
+   * is still being generated (content holds the partial answer so far)
+   */
+  status?: ChatMessageStatus;
+  /** Last partial or final write (assistant messages written by the server) */
+  updatedAt?: Timestamp;
 }
 
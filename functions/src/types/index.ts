@@ -8,15 +8,66 @@ export type {
   SourceCategory,
   SourceTier,
   SourceFetchState,
+  SourceFeedHealth,
+  FeedAdapterType,
+  HtmlListingRules,
+  FeedAdapterConfig,
+  SourceErrorClass,
+  // Ingestion run types
+  IngestionTrigger,
+  IngestionRunSourceResult,
+  IngestionRunDoc,
   // Article types
   Article,
   ArticleAI,
   ArticleEmbedding,
+  ArticleEntity,
+  ArticleGeo,
+  ArticleFullText,
+  ArticleRevision,
+  ArticleRevisionField,
+  ArticleRevisionSnapshot,
+  GeoRegion,
+  EntityType,
+  CompanyRole,
+  // Relevance classifier types
+  RelevanceLabel,
+  LogisticHead,
+  ClassifierMetrics,
+  RelevanceModelDoc,
+  // Vector index types
+  VectorIndexDoc,
+  VectorIndexShardDoc,
+  // Search index types
+  SearchPosting,
+  SearchPostingsDoc,
+  SearchStatsDoc,
+  SearchTermDoc,
+  // Story cluster types
+  StoryCluster,
+  StoryClusterMember,
+  // Breaking news types
+  BreakingReason,
+  BreakingAlert,
+  BreakingNewsNotificationState,
+  // Email types
+  EmailNotificationState,
   // Brief types
   Brief,
   BriefTopStory,
   BriefSection,
   BriefSourceUsed,
+  BriefVerificationIssueType,
+  BriefVerificationIssue,
+  BriefVerification,
+  // Digest types
+  DigestPeriod,
+  DigestMomentumTopic,
+  Digest,
+  // AI usage types
+  AiUsageTotals,
+  AiUsageRecord,
+  AiUsageDaily,
   // User types
   UserProfile,
   Bookmark,
@@ -25,6 +76,7 @@ export type {
   ChatTimeScope,
   ChatSourceFilter,
   ChatCategory,
+  ChatMessageStatus,
   ChatCitation,
   ChatThread,
   ChatMessage,
@@ -66,8 +66,11 @@ self.addEventListener('notificationclick', (event) => {
   // Determine the URL to open based on notification data
   let urlToOpen = '/';
   
-  if (event.notification.data?.type === 'daily_brief') {
-    urlToOpen = '/'; // Daily brief is on the home page
+  const data = event.notification.data || {};
+  if (data.type === 'daily_brief' && /^\d{4}-\d{2}-\d{2}$/.test(data.date || '')) {
+    urlToOpen = '/brief/' + data.date; // That day's brief in the archive
+  } else if (data.type === 'breaking_news' && data.articleId) {
+    urlToOpen = '/feed?article=' + encodeURIComponent(data.articleId); // Lead article over the Feed
   }
 
   // Focus existing window or open new one
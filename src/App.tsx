@@ -1,10 +1,12 @@
 import { useEffect } from "react"
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom"
+import { BrowserRouter, Routes, Route, Navigate, useNavigate } from "react-router-dom"
 import { QueryClientProvider } from "@tanstack/react-query"
 import { Capacitor } from "@capacitor/core"
 import { StatusBar, Style } from "@capacitor/status-bar"
 import { queryClient } from "@/lib/query-client"
 import { AuthProvider, useAuth } from "@/lib/auth-context"
+import { onNotificationOpened } from "@/lib/push-notifications"
+import { useLocalChatMigration } from "@/lib/hooks"
 import { MainLayout } from "@/layouts/MainLayout"
 import { Toaster } from "@/components/ui/sonner"
 import {
@@ -12,12 +14,15 @@ import {
   FeedPage,
   PulsePage,
   SettingsPage,
+  BookmarksPage,
   AskPage,
   TermsPage,
   PrivacyPage,
   AuthPage,
   EarningsPage,
   EarningsDetailPage,
+  BriefArchivePage,
+  ArchivedBriefPage,
 } from "@/pages"
 
 /**
@@ -67,6 +72,14 @@ function AuthRoute({ children }: { children: React.ReactNode }) {
 }
 
 function AppRoutes() {
+  const navigate = useNavigate()
+
+  // Open the notification's target (e.g. that day's brief) when a native push is tapped
+  useEffect(() => onNotificationOpened((path) => navigate(path)), [navigate])
+
+  // Move Ask conversations kept on this device to the user's synced threads
+  useLocalChatMigration()
+
   // Configure iOS status bar on app load
   useEffect(() => {
     if (Capacitor.isNativePlatform()) {
@@ -98,11 +111,14 @@ function AppRoutes() {
         }
       >
         <Route path="/" element={<TodayPage />} />
+        <Route path="/brief" element={<BriefArchivePage />} />
+        <Route path="/brief/:date" element={<ArchivedBriefPage />} />
         <Route path="/feed" element={<FeedPage />} />
         <Route path="/pulse" element={<PulsePage />} />
         <Route path="/ask" element={<AskPage />} />
         <Route path="/earnings" element={<EarningsPage />} />
         <Route path="/earnings/:ticker" element={<EarningsDetailPage />} />
+        <Route path="/bookmarks" element={<BookmarksPage />} />
         <Route path="/settings" element={<SettingsPage />} />
       </Route>
 
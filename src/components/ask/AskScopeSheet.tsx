@@ -0,0 +1,355 @@
+/**
+ * Scope sheet for Ask - what a thread's questions search
+ *
+ * Time window (presets or a custom date range), category, sources, pinned
+ * Pulse topics and "only my bookmarks". Edits apply when the sheet closes,
+ * so a half-entered date range never reaches the thread.
+ */
+
+import { useState } from "react"
+import { Check, ChevronDown, SlidersHorizontal } from "lucide-react"
+import { Chip } from "@/components/ui/chip"
+import { Switch } from "@/components/ui/switch"
+import { SegmentedControl, type SegmentOption } from "@/components/ui/segmented-control"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { CategoryChips } from "@/components/feed"
+import type { ChatThreadScope } from "@/lib/hooks"
+import type { ChatSourceFilter, ChatTimeScope } from "@/types/firestore"
+import { cn } from "@/lib/utils"
+
+/** Sources per question (answerQuestionRag queries them 10 at a time) */
+const MAX_ASK_SOURCES = 30
+
+/** Pinned topics per question */
+const MAX_ASK_TOPICS = 10
+
+/** Longest custom range the server accepts */
+const MAX_RANGE_DAYS = 366
+
+const TIME_OPTIONS: SegmentOption<ChatTimeScope>[] = [
+  { value: "today", label: "Today" },
+  { value: "7d", label: "7d" },
+  { value: "30d", label: "30d" },
+  { value: "90d", label: "90d" },
+  { value: "1y", label: "1y" },
+  { value: "custom", label: "Dates" },
+]
+
+const SOURCE_OPTIONS: SegmentOption<ChatSourceFilter>[] = [
+  { value: "selected", label: "My sources" },
+  { value: "all", label: "All" },
+  { value: "custom", label: "Choose" },
+]
+
+const TIME_LABELS: Record<Exclude<ChatTimeScope, "custom">, string> = {
+  "today": "Today",
+  "7d": "Past 7 days",
+  "30d": "Past 30 days",
+  "90d": "Past 90 days",
+  "1y": "Past year",
+}
+
+function todayKey(): string {
+  return new Date().toLocaleDateString("en-CA")
+}
+
+function daysAgoKey(days: number): string {
+  return new Date(Date.now() - days * 86400000).toLocaleDateString("en-CA")
+}
+
+function formatDateKey(dateKey: string): string {
+  const date = new Date(dateKey + "T12:00:00")
+  if (isNaN(date.getTime())) return dateKey
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+}
+
+/** Watchlist keys are lowercase canonical names */
+function topicLabel(topic: string): string {
+  return topic.replace(/\b[a-z]/g, (letter) => letter.toUpperCase())
+}
+
+/** Why a custom range can't be used yet, or null */
+function rangeError(scope: ChatThreadScope): string | null {
+  if (scope.scope !== "custom") return null
+  if (!scope.dateFrom || !scope.dateTo) return "Pick a start and end date"
+  if (scope.dateFrom > scope.dateTo) return "The start date is after the end date"
+  const days = (Date.parse(scope.dateTo) - Date.parse(scope.dateFrom)) / 86400000 + 1
+  if (days > MAX_RANGE_DAYS) return `Pick at most ${MAX_RANGE_DAYS} days`
+  return null
+}
+
+/** Short description of a scope for the trigger button */
+function scopeSummary(scope: ChatThreadScope): string {
+  const time =
+    scope.scope === "custom" && scope.dateFrom && scope.dateTo
+      ? `${formatDateKey(scope.dateFrom)} \u2013 ${formatDateKey(scope.dateTo)}`
+      : TIME_LABELS[scope.scope === "custom" ? "30d" : scope.scope]
+  const filters =
+    (scope.category !== "all" ? 1 : 0) +
+    (scope.sourceFilter === "custom" ? 1 : 0) +
+    (scope.topics?.length ? 1 : 0) +
+    (scope.bookmarksOnly ? 1 : 0)
+  if (scope.bookmarksOnly && filters === 1) return `${time} \u00b7 Bookmarks`
+  return filters > 0 ? `${time} \u00b7 ${filters} ${filters === 1 ? "filter" : "filters"}` : time
+}
+
+interface AskScopeSheetProps {
+  value: ChatThreadScope
+  onChange: (value: ChatThreadScope) => void
+  sources: { id: string; name: string }[]
+  /** Pinned Pulse topics (canonical keys) */
+  topics: string[]
+  /** Bookmarks need a signed-in user */
+  canSearchBookmarks: boolean
+  disabled?: boolean
+}
+
+export function AskScopeSheet({
+  value,
+  onChange,
+  sources,
+  topics,
+  canSearchBookmarks,
+  disabled,
+}: AskScopeSheetProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<ChatThreadScope>(value)
+
+  const update = (changes: Partial<ChatThreadScope>) => setDraft((prev) => ({ ...prev, ...changes }))
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value)
+    } else if (!rangeError(draft) && JSON.stringify(draft) !== JSON.stringify(value)) {
+      onChange(draft)
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleTimeChange = (scope: ChatTimeScope) => {
+    if (scope === "custom" && !draft.dateFrom) {
+      update({ scope, dateFrom: daysAgoKey(29), dateTo: todayKey() })
+    } else {
+      update({ scope })
+    }
+  }
+
+  const selectedSourceIds = draft.sourceIds ?? []
+  const sourcesAtLimit = selectedSourceIds.length >= MAX_ASK_SOURCES
+  const toggleSource = (id: string) => {
+    if (selectedSourceIds.includes(id)) {
+      update({ sourceIds: selectedSourceIds.filter((s) => s !== id) })
+    } else if (!sourcesAtLimit) {
+      update({ sourceIds: [...selectedSourceIds, id] })
+    }
+  }
+
+  const selectedTopics = draft.topics ?? []
+  const toggleTopic = (topic: string) => {
+    if (selectedTopics.includes(topic)) {
+      update({ topics: selectedTopics.filter((t) => t !== topic) })
+    } else if (selectedTopics.length < MAX_ASK_TOPICS) {
+      update({ topics: [...selectedTopics, topic] })
+    }
+  }
+
+  const dateError = rangeError(draft)
+  const label = scopeSummary(value)
+  const isDefault =
+    value.scope === "7d" &&
+    value.sourceFilter === "selected" &&
+    value.category === "all" &&
+    !value.topics?.length &&
+    !value.bookmarksOnly
+
+  const sectionTitle = "px-[16px] pb-[6px] text-[13px] font-normal uppercase tracking-[-0.08px] text-[var(--color-text-tertiary)]"
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <button
+          disabled={disabled}
+          aria-label={`Search scope: ${label}`}
+          className={cn(
+            "flex min-w-0 items-center gap-[5px] h-[32px] px-[10px] rounded-[8px]",
+            "text-[13px] font-medium tracking-[-0.08px]",
+            "transition-all duration-150",
+            "-webkit-tap-highlight-color-transparent",
+            "active:bg-[var(--color-fill-tertiary)] active:scale-[0.97]",
+            "disabled:opacity-40",
+            isDefault ? "text-[var(--color-text-tertiary)]" : "text-[var(--color-accent)]"
+          )}
+        >
+          <SlidersHorizontal className="h-[13px] w-[13px] shrink-0" strokeWidth={1.8} />
+          <span className="truncate">{label}</span>
+          <ChevronDown className="h-[9px] w-[9px] shrink-0 opacity-40" strokeWidth={2.5} />
+        </button>
+      </SheetTrigger>
+      <SheetContent
+        side="bottom"
+        className="h-[80vh] rounded-t-[var(--radius-3xl)] bg-[var(--color-bg-grouped)] p-0"
+      >
+        <div className="drag-indicator" />
+
+        <SheetHeader className="flex-row items-center justify-between px-[18px] pb-[12px] pt-[14px]">
+          <div>
+            <SheetTitle className="text-[17px] font-semibold tracking-[-0.32px]">Search scope</SheetTitle>
+            <SheetDescription className="text-[12px] tracking-[-0.04px] text-[var(--color-text-tertiary)]">
+              Applies to this conversation{"\u2019"}s next questions
+            </SheetDescription>
+          </div>
+          <button
+            onClick={() => handleOpenChange(false)}
+            disabled={!!dateError}
+            className="text-[15px] font-semibold text-[var(--color-accent)] disabled:opacity-40"
+          >
+            Done
+          </button>
+        </SheetHeader>
+
+        <div className="max-h-[calc(80vh-90px)] overflow-y-auto px-[16px] pb-[calc(var(--safe-area-inset-bottom)+16px)] space-y-[20px]">
+          {/* Time window */}
+          <div>
+            <p className={sectionTitle}>Time</p>
+            <SegmentedControl options={TIME_OPTIONS} value={draft.scope} onChange={handleTimeChange} fullWidth compact />
+            {draft.scope === "custom" && (
+              <div className="mt-[10px] overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+                <label className="flex min-h-[48px] items-center justify-between px-[16px]">
+                  <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">From</span>
+                  <input
+                    type="date"
+                    value={draft.dateFrom ?? ""}
+                    max={draft.dateTo ?? todayKey()}
+                    onChange={(e) => update({ dateFrom: e.target.value })}
+                    className="bg-transparent text-[15px] text-[var(--color-text-secondary)] outline-none"
+                  />
+                </label>
+                <div className="ml-[16px] h-[0.5px] bg-[var(--color-separator)]" />
+                <label className="flex min-h-[48px] items-center justify-between px-[16px]">
+                  <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">To</span>
+                  <input
+                    type="date"
+                    value={draft.dateTo ?? ""}
+                    min={draft.dateFrom}
+                    max={todayKey()}
+                    onChange={(e) => update({ dateTo: e.target.value })}
+                    className="bg-transparent text-[15px] text-[var(--color-text-secondary)] outline-none"
+                  />
+                </label>
+              </div>
+            )}
+            {dateError && (
+              <p className="mt-[6px] px-[16px] text-[12px] text-[var(--color-warning)]">{dateError}</p>
+            )}
+          </div>
+
+          {/* Category */}
+          <div>
+            <p className={sectionTitle}>Category</p>
+            <CategoryChips value={draft.category} onChange={(category) => update({ category })} />
+          </div>
+
+          {/* Sources */}
+          <div>
+            <p className={sectionTitle}>Sources</p>
+            <SegmentedControl
+              options={SOURCE_OPTIONS}
+              value={draft.sourceFilter}
+              onChange={(sourceFilter) => update({ sourceFilter })}
+              fullWidth
+              compact
+            />
+            {draft.sourceFilter === "custom" && (
+              <>
+                <p className="mt-[6px] px-[16px] text-[12px] text-[var(--color-text-tertiary)]">
+                  {selectedSourceIds.length === 0
+                    ? "No sources chosen \u2014 all sources are searched"
+                    : sourcesAtLimit
+                      ? `Max ${MAX_ASK_SOURCES} selected`
+                      : `${selectedSourceIds.length} selected`}
+                </p>
+                <div className="mt-[6px] overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+                  {sources.map((source, index) => {
+                    const isSelected = selectedSourceIds.includes(source.id)
+                    const isDisabled = sourcesAtLimit && !isSelected
+                    return (
+                      <div key={source.id}>
+                        <button
+                          onClick={() => toggleSource(source.id)}
+                          disabled={isDisabled}
+                          className={cn(
+                            "flex w-full min-h-[48px] items-center justify-between px-[16px] py-[12px] text-left transition-colors duration-[var(--duration-instant)]",
+                            isDisabled ? "opacity-40 cursor-not-allowed" : "active:bg-[var(--color-fill-quaternary)]"
+                          )}
+                        >
+                          <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
+                            {source.name}
+                          </span>
+                          {isSelected && (
+                            <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
+                          )}
+                        </button>
+                        {index < sources.length - 1 && (
+                          <div className="ml-[16px] h-[0.5px] bg-[var(--color-separator)]" />
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Topics */}
+          <div>
+            <p className={sectionTitle}>Topics</p>
+            {topics.length === 0 ? (
+              <p className="px-[16px] text-[13px] text-[var(--color-text-tertiary)]">
+                Pin topics in Pulse to focus answers on them.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-[7px]">
+                {topics.map((topic) => (
+                  <Chip
+                    key={topic}
+                    onClick={() => toggleTopic(topic)}
+                    active={selectedTopics.includes(topic)}
+                    aria-pressed={selectedTopics.includes(topic)}
+                  >
+                    {topicLabel(topic)}
+                  </Chip>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Bookmarks */}
+          <div className="overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+            <label className="flex min-h-[48px] items-center justify-between gap-[12px] px-[16px] py-[10px]">
+              <span>
+                <span className="block text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
+                  Only my bookmarks
+                </span>
+                {!canSearchBookmarks && (
+                  <span className="block text-[12px] text-[var(--color-text-tertiary)]">Sign in to search bookmarks</span>
+                )}
+              </span>
+              <Switch
+                checked={!!draft.bookmarksOnly}
+                onCheckedChange={(bookmarksOnly) => update({ bookmarksOnly })}
+                disabled={!canSearchBookmarks}
+              />
+            </label>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,5 @@
+/**
+ * Ask components exports
+ */
+
+export { AskScopeSheet } from "./AskScopeSheet"
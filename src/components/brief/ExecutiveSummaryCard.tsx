@@ -0,0 +1,87 @@
+/**
+ * Executive summary card — the hero module of a brief or digest
+ * AI badge + timestamp header over structured, scannable bullets
+ */
+
+import { Sparkles } from "lucide-react"
+import { Card } from "@/components/ui"
+
+/**
+ * Strip citation brackets from bullet text.
+ * The AI includes article IDs like [f7fd4c2019240531] which we don't want to display.
+ */
+function stripCitations(text: string): string {
+  return text.replace(/\s*\[[a-f0-9]{10,}\]/gi, "").trim()
+}
+
+/**
+ * Split an executive summary bullet into headline + detail.
+ * Expects format: "Headline — Detail sentence."
+ * Falls back to the full text if no em-dash is found.
+ */
+function parseBullet(raw: string): { headline: string; detail: string } {
+  const cleaned = stripCitations(raw)
+  // Try em-dash first, then en-dash
+  const sep = cleaned.includes(" \u2014 ") ? " \u2014 " : cleaned.includes(" \u2013 ") ? " \u2013 " : null
+  if (sep) {
+    const idx = cleaned.indexOf(sep)
+    return {
+      headline: cleaned.slice(0, idx).trim(),
+      detail: cleaned.slice(idx + sep.length).trim(),
+    }
+  }
+  return { headline: "", detail: cleaned }
+}
+
+interface ExecutiveSummaryCardProps {
+  badge: string
+  updatedLabel: string
+  bullets: string[]
+}
+
+export function ExecutiveSummaryCard({ badge, updatedLabel, bullets }: ExecutiveSummaryCardProps) {
+  return (
+    <Card>
+      {/* Card header: AI badge + timestamp */}
+      <div className="flex items-center justify-between px-[16px] py-[10px]">
+        <div className="flex items-center gap-[5px]">
+          <Sparkles className="h-[12px] w-[12px] text-[var(--color-accent)]" strokeWidth={2.25} />
+          <span className="text-[12px] font-semibold tracking-[-0.08px] text-[var(--color-accent)]">
+            {badge}
+          </span>
+        </div>
+        <span className="text-[12px] font-normal tracking-[-0.08px] text-[var(--color-text-quaternary)]">
+          {updatedLabel}
+        </span>
+      </div>
+
+      {/* Hairline separator */}
+      <div className="mx-[16px] h-[0.5px] bg-[var(--color-separator)]" />
+
+      {/* Executive summary bullets */}
+      <div className="px-[16px] py-[14px]">
+        <ul className="space-y-[14px]">
+          {bullets.map((bullet, index) => {
+            const { headline, detail } = parseBullet(bullet)
+            return (
+              <li key={index} className="flex gap-[10px]" style={{ maxWidth: "540px" }}>
+                <span className="mt-[7px] h-[5px] w-[5px] shrink-0 rounded-full bg-[var(--color-accent)]" />
+                <span className="text-[15px] leading-[1.47] tracking-[-0.2px] text-[var(--color-text-primary)]">
+                  {headline ? (
+                    <>
+                      <span className="font-semibold">{headline}</span>
+                      {" \u2014 "}
+                      <span className="font-normal text-[var(--color-text-secondary)]">{detail}</span>
+                    </>
+                  ) : (
+                    detail
+                  )}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </Card>
+  )
+}
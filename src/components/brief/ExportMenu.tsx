@@ -0,0 +1,74 @@
+/**
+ * Share menu for exporting a brief or saved articles
+ * Markdown / HTML / PDF, rendered server-side and handed to the share sheet
+ */
+
+import { Share, FileText, FileCode, FileDown } from "lucide-react"
+import { toast } from "sonner"
+import { useExportContent, EXPORT_FORMAT_LABELS, type ExportFormat } from "@/lib/hooks/use-export"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui"
+
+const FORMAT_ICONS = {
+  markdown: FileText,
+  html: FileCode,
+  pdf: FileDown,
+} as const
+
+const FORMATS: ExportFormat[] = ["pdf", "markdown", "html"]
+
+type ExportTarget = { source: "brief"; date?: string; personal?: boolean } | { source: "bookmarks" }
+
+interface ExportMenuProps {
+  target: ExportTarget
+  /** Accessible name for the trigger */
+  label?: string
+}
+
+export function ExportMenu({ target, label = "Share or export" }: ExportMenuProps) {
+  const exportContent = useExportContent()
+
+  const handleExport = (format: ExportFormat) => {
+    exportContent.mutate(
+      { ...target, format },
+      {
+        onError: () => {
+          toast.error("Couldn\u2019t export", {
+            description: "Please try again in a moment.",
+          })
+        },
+      }
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          aria-label={label}
+          disabled={exportContent.isPending}
+          className="flex h-[32px] w-[32px] items-center justify-center rounded-full text-[var(--color-text-tertiary)] transition-all duration-[var(--duration-fast)] ease-[var(--ease-ios)] -webkit-tap-highlight-color-transparent active:scale-[0.94] active:bg-[var(--color-fill-tertiary)] disabled:opacity-40"
+        >
+          <Share className="h-[16px] w-[16px]" strokeWidth={1.8} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {FORMATS.map((format) => {
+          const Icon = FORMAT_ICONS[format]
+          return (
+            <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+              <Icon strokeWidth={1.75} />
+              {EXPORT_FORMAT_LABELS[format]}
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
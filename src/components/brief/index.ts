@@ -3,8 +3,10 @@
  */
 
 export { TodayScreenSkeleton, TopStoriesCarouselSkeleton, SectionSkeleton, ExecutiveSummarySkeleton } from "./BriefSkeleton"
+export { ExecutiveSummaryCard } from "./ExecutiveSummaryCard"
 export { TopStoriesCarousel } from "./TopStoriesCarousel"
 export { BriefSections } from "./BriefSections"
 export { ArticleSheet } from "./ArticleSheet"
 export { PulseCard } from "./PulseCard"
+export { ExportMenu } from "./ExportMenu"
 
@@ -7,7 +7,7 @@
 import { memo, useState, useCallback } from "react"
 import { Sparkles, Newspaper } from "lucide-react"
 import { cn } from "@/lib/utils"
-import type { ArticleFromApi } from "@/lib/hooks"
+import type { ArticleFromApi, HighlightSegment, SearchResultFromApi } from "@/lib/hooks"
 import type { Timestamp } from "firebase/firestore"
 
 /** Consistent card surface: hairline border + subtle drop shadow (token-aligned) */
@@ -80,9 +80,30 @@ function ArticleImage({ src, alt = "" }: ArticleImageProps) {
   )
 }
 
+/**
+ * Text with search matches marked
+ */
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-[3px] bg-[var(--color-accent-soft)] px-[1px] text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
 interface ArticleCardProps {
   article: ArticleFromApi
   onSelect: (article: ArticleFromApi) => void
+  /** Search matches to mark (search results show the matched snippet instead of the AI summary) */
+  highlights?: SearchResultFromApi["highlights"]
 }
 
 function formatRelativeTime(timestamp: Timestamp | string | null): string {
@@ -111,13 +132,14 @@ function formatRelativeTime(timestamp: Timestamp | string | null): string {
   }
 }
 
-export const ArticleCard = memo(function ArticleCard({ article, onSelect }: ArticleCardProps) {
+export const ArticleCard = memo(function ArticleCard({ article, onSelect, highlights }: ArticleCardProps) {
   const handleClick = () => {
     onSelect(article)
   }
 
   const hasAI = Boolean(article.ai?.tldr)
   const hasImage = Boolean(article.imageUrl)
+  const alsoCoveredBy = article.alsoCoveredBy ?? []
 
   return (
     <article
@@ -177,13 +199,23 @@ export const ArticleCard = memo(function ArticleCard({ article, onSelect }: Arti
 
         {/* Headline - strong visual hierarchy, tuned for iOS readability */}
         <h3 className="headline-text line-clamp-2 text-[16.5px] font-semibold leading-[1.3] tracking-[-0.35px] text-[var(--color-text-primary)]">
-          {article.title}
+          {highlights ? <HighlightedText segments={highlights.title} /> : article.title}
         </h3>
 
-        {/* Snippet - use AI summary if available, otherwise snippet */}
+        {/* Snippet - matched fragment when searching, else AI summary if available, otherwise snippet */}
         <p className="mt-[6px] line-clamp-2 text-[14px] leading-[1.4] tracking-[-0.15px] text-[var(--color-text-tertiary)]">
-          {article.ai?.tldr ?? article.snippet}
+          {highlights ? <HighlightedText segments={highlights.snippet} /> : article.ai?.tldr ?? article.snippet}
         </p>
+
+        {/* Cross-source coverage */}
+        {alsoCoveredBy.length > 0 && (
+          <p
+            className="mt-[8px] text-[12px] font-medium tracking-[-0.08px] text-[var(--color-text-tertiary)]"
+            title={alsoCoveredBy.join(", ")}
+          >
+            Also covered by {alsoCoveredBy.length} {alsoCoveredBy.length === 1 ? "source" : "sources"}
+          </p>
+        )}
       </div>
     </article>
   )
@@ -6,10 +6,13 @@
  * - Hero image (when available)
  * - AI Analysis card: TL;DR, Why it matters for P&C, Key implications
  * - Auto-generates AI analysis when sheet opens (low-cost, cached)
+ * - Entity chips: tap to filter the feed to that company, state, peril, etc.
+ * - "Updated" indicator with the publisher's change history
  * - Actions: Read Article (Capacitor Browser on iOS)
  */
 
 import { useState, useEffect, useRef, useMemo } from "react"
+import { useNavigate } from "react-router-dom"
 import { Sheet, SheetContent, SheetDescription, SheetTitle } from "@/components/ui/sheet"
 import {
   SHEET_TOKENS,
@@ -19,16 +22,26 @@ import {
   SheetAICard,
   SheetAICardSkeleton,
 } from "@/components/ui/sheet-primitives"
-import { Sparkles, AlertCircle } from "lucide-react"
+import { Chip } from "@/components/ui/chip"
+import { Sparkles, AlertCircle, History, ChevronDown } from "lucide-react"
 import { toast } from "sonner"
-import { useArticleAI } from "@/lib/hooks"
+import { useArticleAI, useArticleRevisions } from "@/lib/hooks"
 import { useAuth } from "@/lib/auth-context"
-import type { Article, ArticleAI } from "@/types/firestore"
-import type { ArticleFromApi } from "@/lib/hooks"
+import type { Article, ArticleAI, ArticleRevisionField } from "@/types/firestore"
+import type { ArticleFromApi, ArticleRevisionFromApi } from "@/lib/hooks"
 import type { Timestamp } from "firebase/firestore"
 import { openUrl } from "@/lib/browser"
 import { cn } from "@/lib/utils"
 
+/** Entity chips shown in the sheet (articles store up to 25) */
+const MAX_ENTITY_CHIPS = 8
+
+const REVISION_FIELD_LABELS: Record<ArticleRevisionField, string> = {
+  title: "Headline",
+  snippet: "Summary",
+  publishedAt: "Date",
+}
+
 // Accept either Firestore Article (from direct queries) or API Article (from Cloud Functions)
 type ArticleType = Article | ArticleFromApi
 
@@ -57,6 +70,51 @@ function formatDate(timestamp: Timestamp | string | null | undefined): string {
   }
 }
 
+function RevisionHistory({
+  revisions,
+  isLoading,
+}: {
+  revisions: ArticleRevisionFromApi[] | undefined
+  isLoading: boolean
+}) {
+  if (isLoading) {
+    return (
+      <p className="text-[13px] text-[var(--color-text-tertiary)]">Loading changes…</p>
+    )
+  }
+  if (!revisions || revisions.length === 0) {
+    return (
+      <p className="text-[13px] text-[var(--color-text-tertiary)]">No change history available</p>
+    )
+  }
+
+  return (
+    <ol className="space-y-[12px] border-l border-[var(--color-separator)] pl-[12px]">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="text-[13px] leading-[1.4]">
+          <p className="font-medium text-[var(--color-text-secondary)]">
+            {formatDate(revision.detectedAt)}
+            <span className="text-[var(--color-text-tertiary)]">
+              {" · "}
+              {revision.changedFields.map((f) => REVISION_FIELD_LABELS[f]).join(", ")} updated
+            </span>
+          </p>
+          {revision.changedFields.includes("title") && (
+            <p className="mt-[2px] text-[var(--color-text-tertiary)]">
+              Was: “{revision.previous.title}”
+            </p>
+          )}
+          {revision.changedFields.includes("snippet") && (
+            <p className="mt-[2px] line-clamp-3 text-[var(--color-text-tertiary)]">
+              Previous summary: {revision.previous.snippet}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
 export function ArticleDetailSheet({
   article,
   open,
@@ -64,6 +122,7 @@ export function ArticleDetailSheet({
 }: ArticleDetailSheetProps) {
   const { isAuthenticated, isAnonymous } = useAuth()
   const generateAI = useArticleAI()
+  const navigate = useNavigate()
 
   // Generated AI content (from API call), keyed by article ID
   const [generatedAI, setGeneratedAI] = useState<{ id: string; ai: ArticleAI } | null>(null)
@@ -73,21 +132,27 @@ export function ArticleDetailSheet({
   // Track which article we've already auto-triggered for (prevent re-firing)
   const autoTriggeredRef = useRef<string | null>(null)
 
-  // Derive AI content: prefer article's cached AI, fall back to freshly generated
+  // Change history is expanded per article (collapses when another article opens)
+  const [historyOpenFor, setHistoryOpenFor] = useState<string | null>(null)
+  const historyOpen = !!article && historyOpenFor === article.id
+  const revisionsQuery = useArticleRevisions(article?.id, historyOpen)
+
+  // Derive AI content: prefer freshly generated (replaces stale AI), fall back to article's cached AI
   const aiContent = useMemo<ArticleAI | null>(() => {
-    if (article?.ai) return article.ai
     if (generatedAI && article && generatedAI.id === article.id) return generatedAI.ai
+    if (article?.ai) return article.ai
     return null
   }, [article?.id, article?.ai, generatedAI]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-trigger AI generation when sheet opens for an article without AI
+  // (or whose AI predates a publisher update)
   // This is the key innovation: AI analysis appears automatically as the user reads
   // Uses gpt-4o-mini (very low cost) and results are cached permanently in Firestore
   useEffect(() => {
     if (
       open &&
       article &&
-      !article.ai &&
+      (!article.ai || article.aiStale) &&
       isAuthenticated &&
       !isAnonymous &&
       !generateAI.isPending &&
@@ -159,6 +224,14 @@ export function ArticleDetailSheet({
 
   const hasAI = !!aiContent
   const isGenerating = generateAI.isPending
+  const alsoCoveredBy = "alsoCoveredBy" in article ? article.alsoCoveredBy ?? [] : []
+  const entities = (article.entities ?? []).slice(0, MAX_ENTITY_CHIPS)
+  const revisionCount = article.revisionCount ?? 0
+
+  const handleEntityTap = (key: string) => {
+    onOpenChange(false)
+    navigate(`/feed?entity=${encodeURIComponent(key)}`)
+  }
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -183,6 +256,42 @@ export function ArticleDetailSheet({
           title={article.title}
         />
 
+        {/* Publisher updates */}
+        {revisionCount > 0 && (
+          <div className={SHEET_TOKENS.sectionMargin}>
+            <button
+              onClick={() => setHistoryOpenFor(historyOpen ? null : article.id)}
+              aria-expanded={historyOpen}
+              className={cn(
+                "flex items-center gap-[5px]",
+                "text-[13px] font-medium text-[var(--color-text-tertiary)]",
+                "transition-opacity duration-[var(--duration-fast)] active:opacity-60",
+              )}
+            >
+              <History className="h-[13px] w-[13px]" strokeWidth={2} />
+              <span>
+                Updated {formatDate(article.lastRevisedAt)}
+                {revisionCount > 1 && ` · ${revisionCount} changes`}
+              </span>
+              <ChevronDown
+                className={cn(
+                  "h-[13px] w-[13px] transition-transform duration-[var(--duration-fast)]",
+                  historyOpen && "rotate-180",
+                )}
+                strokeWidth={2}
+              />
+            </button>
+            {historyOpen && (
+              <div className="mt-[10px]">
+                <RevisionHistory
+                  revisions={revisionsQuery.data}
+                  isLoading={revisionsQuery.isLoading}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Hero Image */}
         {article.imageUrl && (
           <div className={SHEET_TOKENS.imageClass}>
@@ -243,6 +352,29 @@ export function ArticleDetailSheet({
           <SheetSnippet>{article.snippet}</SheetSnippet>
         )}
 
+        {/* Cross-source coverage */}
+        {alsoCoveredBy.length > 0 && (
+          <p className={cn(SHEET_TOKENS.sectionMargin, "text-[13px] leading-[1.4] text-[var(--color-text-tertiary)]")}>
+            Also covered by {alsoCoveredBy.join(", ")}
+          </p>
+        )}
+
+        {/* Tagged entities */}
+        {entities.length > 0 && (
+          <div className={cn(SHEET_TOKENS.sectionMargin, "flex flex-wrap gap-[6px]")}>
+            {entities.map((entity) => (
+              <Chip
+                key={entity.key}
+                variant="action"
+                size="sm"
+                onClick={() => handleEntityTap(entity.key)}
+              >
+                {entity.name}
+              </Chip>
+            ))}
+          </div>
+        )}
+
         {/* Primary Action */}
         <SheetActions
           onReadArticle={handleOpenArticle}
@@ -4,7 +4,7 @@
  */
 
 import { useState } from "react"
-import { ChevronDown, Check, Newspaper, AlertCircle } from "lucide-react"
+import { ChevronDown, Check, Newspaper, AlertCircle, MapPin } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Chip } from "@/components/ui/chip"
 import { SegmentedControl, type SegmentOption } from "@/components/ui/segmented-control"
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/sheet"
 import type { SourceCategory } from "@/types/firestore"
 import { cn } from "@/lib/utils"
+import { GEO_REGIONS, MAX_GEO_SELECTION, US_STATES, geoKeyLabel } from "@/lib/geography"
 
 // Maximum sources allowed due to Firestore 'in' query limitation
 export const MAX_SOURCE_FILTER = 10
@@ -43,9 +44,11 @@ const TIME_WINDOW_OPTIONS: SegmentOption<"24h" | "7d" | "all">[] = [
 interface CategoryChipsProps {
   value: SourceCategory | "all"
   onChange: (value: SourceCategory | "all") => void
+  /** Result counts per category (search facets) */
+  counts?: Partial<Record<SourceCategory, number>>
 }
 
-export function CategoryChips({ value, onChange }: CategoryChipsProps) {
+export function CategoryChips({ value, onChange, counts }: CategoryChipsProps) {
   const handleChange = (newValue: SourceCategory | "all") => {
     onChange(newValue)
   }
@@ -70,6 +73,9 @@ export function CategoryChips({ value, onChange }: CategoryChipsProps) {
               className="shrink-0"
             >
               {cat.label}
+              {counts && cat.value !== "all" && (
+                <span className="opacity-50 tabular-nums">{counts[cat.value] ?? 0}</span>
+              )}
             </Chip>
           )
         })}
@@ -83,15 +89,21 @@ export function CategoryChips({ value, onChange }: CategoryChipsProps) {
 interface TimeWindowToggleProps {
   value: "24h" | "7d" | "all"
   onChange: (value: "24h" | "7d" | "all") => void
+  /** Result counts per window (search facets) */
+  counts?: Record<"24h" | "7d" | "all", number>
 }
 
 /**
  * iOS-style segmented control for time window selection
  */
-export function TimeWindowToggle({ value, onChange }: TimeWindowToggleProps) {
+export function TimeWindowToggle({ value, onChange, counts }: TimeWindowToggleProps) {
+  const options = counts
+    ? TIME_WINDOW_OPTIONS.map((option) => ({ ...option, label: `${option.label} ${counts[option.value]}` }))
+    : TIME_WINDOW_OPTIONS
+
   return (
     <SegmentedControl
-      options={TIME_WINDOW_OPTIONS}
+      options={options}
       value={value}
       onChange={onChange}
       compact
@@ -103,9 +115,11 @@ interface SourceFilterProps {
   sources: { id: string; name: string }[]
   selectedIds: string[]
   onChange: (ids: string[]) => void
+  /** Result counts per source ID (search facets) */
+  counts?: Record<string, number>
 }
 
-export function SourceFilter({ sources, selectedIds, onChange }: SourceFilterProps) {
+export function SourceFilter({ sources, selectedIds, onChange, counts }: SourceFilterProps) {
   const [open, setOpen] = useState(false)
 
   const atLimit = selectedIds.length >= MAX_SOURCE_FILTER
@@ -202,9 +216,16 @@ export function SourceFilter({ sources, selectedIds, onChange }: SourceFilterPro
                     <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
                       {source.name}
                     </span>
-                    {isSelected && (
-                      <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
-                    )}
+                    <span className="flex items-center gap-[8px]">
+                      {counts && (
+                        <span className="text-[13px] tabular-nums text-[var(--color-text-tertiary)]">
+                          {counts[source.id] ?? 0}
+                        </span>
+                      )}
+                      {isSelected && (
+                        <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
+                      )}
+                    </span>
                   </button>
                   {index < sources.length - 1 && (
                     <div className="ml-[16px] h-[0.5px] bg-[var(--color-separator)]" />
@@ -219,3 +240,157 @@ export function SourceFilter({ sources, selectedIds, onChange }: SourceFilterPro
   )
 }
 
+interface GeographyFilterProps {
+  selectedKeys: string[]
+  onChange: (keys: string[]) => void
+  /** User's saved states (USPS codes) for the "My states" shortcut */
+  myStates?: string[]
+}
+
+const GEO_GROUPS: { title: string; options: { key: string; label: string }[] }[] = [
+  {
+    title: "Regions",
+    options: GEO_REGIONS.map((r) => ({ key: `region:${r.value}`, label: r.label })),
+  },
+  {
+    title: "States",
+    options: US_STATES.map((s) => ({ key: `state:${s.code}`, label: s.name })),
+  },
+]
+
+/**
+ * Geography filter - regions and states, with a "My states" shortcut.
+ * Limited to MAX_GEO_SELECTION keys (Firestore array-contains-any).
+ */
+export function GeographyFilter({ selectedKeys, onChange, myStates = [] }: GeographyFilterProps) {
+  const [open, setOpen] = useState(false)
+
+  const atLimit = selectedKeys.length >= MAX_GEO_SELECTION
+  const myStateKeys = myStates.map((code) => `state:${code}`)
+  const isMyStates =
+    myStateKeys.length > 0 &&
+    myStateKeys.length === selectedKeys.length &&
+    myStateKeys.every((k) => selectedKeys.includes(k))
+
+  const toggleKey = (key: string) => {
+    if (selectedKeys.includes(key)) {
+      onChange(selectedKeys.filter((k) => k !== key))
+    } else if (!atLimit) {
+      onChange([...selectedKeys, key])
+    }
+  }
+
+  const toggleMyStates = () => {
+    onChange(isMyStates ? [] : myStateKeys.slice(0, MAX_GEO_SELECTION))
+  }
+
+  const label = selectedKeys.length === 0
+    ? "Anywhere"
+    : isMyStates
+      ? "My states"
+      : selectedKeys.length === 1
+        ? geoKeyLabel(selectedKeys[0])
+        : `${selectedKeys.length} places`
+
+  const rowClass = (isDisabled: boolean) => cn(
+    "flex w-full min-h-[48px] items-center justify-between px-[16px] py-[12px] text-left transition-colors duration-[var(--duration-instant)]",
+    isDisabled
+      ? "opacity-40 cursor-not-allowed"
+      : "active:bg-[var(--color-fill-quaternary)]"
+  )
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <button
+          className={cn(
+            "flex min-h-[44px] min-w-[44px] items-center gap-[5px] rounded-[var(--radius-sm)] px-[8px] py-[6px] text-[13px] font-medium tracking-[-0.08px] transition-colors active:bg-[var(--color-fill-quaternary)]",
+            selectedKeys.length > 0
+              ? "text-[var(--color-accent)]"
+              : "text-[var(--color-text-secondary)]"
+          )}
+          aria-label={`Filter geography: ${label}`}
+        >
+          <MapPin className="h-[13px] w-[13px] shrink-0 opacity-50" strokeWidth={1.8} />
+          <span className="whitespace-nowrap">{label}</span>
+          <ChevronDown className="h-[9px] w-[9px] shrink-0 opacity-30" strokeWidth={2.5} />
+        </button>
+      </SheetTrigger>
+      <SheetContent
+        side="bottom"
+        className="h-[70vh] rounded-t-[var(--radius-3xl)] bg-[var(--color-bg-grouped)] p-0"
+      >
+        <div className="drag-indicator" />
+
+        <SheetHeader className="flex-row items-center justify-between px-[18px] pb-[12px] pt-[14px]">
+          <div>
+            <SheetTitle className="text-[17px] font-semibold tracking-[-0.32px]">Geography</SheetTitle>
+            <SheetDescription className="sr-only">Select regions or states to filter articles</SheetDescription>
+            {atLimit && (
+              <p className="mt-[2px] flex items-center gap-[4px] text-[12px] tracking-[-0.04px] text-[var(--color-warning)]">
+                <AlertCircle className="h-[11px] w-[11px]" />
+                Max {MAX_GEO_SELECTION} selected
+              </p>
+            )}
+          </div>
+          {selectedKeys.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange([])} className="text-[var(--color-accent)] font-medium text-[14px]">
+              Clear
+            </Button>
+          )}
+        </SheetHeader>
+
+        <div className="max-h-[calc(70vh-90px)] overflow-y-auto px-[16px] pb-[calc(var(--safe-area-inset-bottom)+16px)] space-y-[16px]">
+          {myStateKeys.length > 0 && (
+            <div className="overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+              <button onClick={toggleMyStates} className={rowClass(false)}>
+                <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
+                  My states
+                  <span className="ml-[6px] text-[13px] font-normal text-[var(--color-text-tertiary)]">
+                    {myStates.join(", ")}
+                  </span>
+                </span>
+                {isMyStates && (
+                  <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
+                )}
+              </button>
+            </div>
+          )}
+
+          {GEO_GROUPS.map((group) => (
+            <div key={group.title}>
+              <p className="px-[16px] pb-[6px] text-[13px] font-normal uppercase tracking-[-0.08px] text-[var(--color-text-tertiary)]">
+                {group.title}
+              </p>
+              <div className="overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+                {group.options.map((option, index) => {
+                  const isSelected = selectedKeys.includes(option.key)
+                  const isDisabled = atLimit && !isSelected
+                  return (
+                    <div key={option.key}>
+                      <button
+                        onClick={() => toggleKey(option.key)}
+                        disabled={isDisabled}
+                        className={rowClass(isDisabled)}
+                      >
+                        <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
+                          {option.label}
+                        </span>
+                        {isSelected && (
+                          <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
+                        )}
+                      </button>
+                      {index < group.options.length - 1 && (
+                        <div className="ml-[16px] h-[0.5px] bg-[var(--color-separator)]" />
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
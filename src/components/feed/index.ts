@@ -2,7 +2,7 @@
  * Feed components exports
  */
 
-export { CategoryChips, TimeWindowToggle, SourceFilter } from "./FeedFilters"
+export { CategoryChips, TimeWindowToggle, SourceFilter, GeographyFilter } from "./FeedFilters"
 export { SearchBar } from "./SearchBar"
 export { ArticleRow, ArticleRowSkeleton } from "./ArticleRow"
 export { ArticleCard, ArticleCardSkeleton } from "./ArticleCard"
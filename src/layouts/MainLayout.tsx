@@ -1,5 +1,5 @@
 import { Outlet, useLocation, useNavigate } from "react-router-dom"
-import { Newspaper, LayoutList, Settings, ChevronRight, Sparkles, BarChart3, TrendingUp, type LucideIcon } from "lucide-react"
+import { Newspaper, LayoutList, Settings, Bookmark, ChevronRight, Sparkles, BarChart3, TrendingUp, type LucideIcon } from "lucide-react"
 import { AppLogo } from "@/components/ui/app-logo"
 import {
   Sheet,
@@ -33,6 +33,7 @@ const primaryNavItems: NavItem[] = [
 ]
 
 const secondaryNavItems: NavItem[] = [
+  { path: "/bookmarks", label: "Bookmarks", icon: Bookmark, description: "Saved articles", secondary: true },
   { path: "/settings", label: "Settings", icon: Settings, description: "Preferences", secondary: true },
 ]
 
@@ -40,6 +41,7 @@ const allNavItems = [...primaryNavItems, ...secondaryNavItems]
 
 function getPageTitle(pathname: string): string {
   if (pathname.startsWith("/earnings/")) return "Earnings"
+  if (pathname === "/brief" || pathname.startsWith("/brief/")) return "Past Briefs"
   const item = allNavItems.find((nav) => nav.path === pathname)
   return item?.label ?? "Today"
 }
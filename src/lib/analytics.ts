@@ -10,6 +10,7 @@ export type AskAnalyticsEvent =
   | "ask_sent"
   | "ask_answered"
   | "ask_no_coverage"
+  | "ask_scope_changed"
   | "citation_opened"
   | "chat_new"
   | "chat_history_opened"
@@ -0,0 +1,60 @@
+/**
+ * Geography options for feed filters and "my states"
+ *
+ * Keys match the `geoKeys` tagged on articles server-side
+ * (functions/src/lib/geo): "state:FL", "country:GB", "region:europe".
+ */
+
+import type { GeoRegion } from "@/types/firestore"
+
+// Firestore array-contains-any limit (also the "my states" cap)
+export const MAX_GEO_SELECTION = 10
+
+export const US_STATES: { code: string; name: string }[] = [
+  { code: "AL", name: "Alabama" }, { code: "AK", name: "Alaska" },
+  { code: "AZ", name: "Arizona" }, { code: "AR", name: "Arkansas" },
+  { code: "CA", name: "California" }, { code: "CO", name: "Colorado" },
+  { code: "CT", name: "Connecticut" }, { code: "DE", name: "Delaware" },
+  { code: "DC", name: "District of Columbia" }, { code: "FL", name: "Florida" },
+  { code: "GA", name: "Georgia" }, { code: "HI", name: "Hawaii" },
+  { code: "ID", name: "Idaho" }, { code: "IL", name: "Illinois" },
+  { code: "IN", name: "Indiana" }, { code: "IA", name: "Iowa" },
+  { code: "KS", name: "Kansas" }, { code: "KY", name: "Kentucky" },
+  { code: "LA", name: "Louisiana" }, { code: "ME", name: "Maine" },
+  { code: "MD", name: "Maryland" }, { code: "MA", name: "Massachusetts" },
+  { code: "MI", name: "Michigan" }, { code: "MN", name: "Minnesota" },
+  { code: "MS", name: "Mississippi" }, { code: "MO", name: "Missouri" },
+  { code: "MT", name: "Montana" }, { code: "NE", name: "Nebraska" },
+  { code: "NV", name: "Nevada" }, { code: "NH", name: "New Hampshire" },
+  { code: "NJ", name: "New Jersey" }, { code: "NM", name: "New Mexico" },
+  { code: "NY", name: "New York" }, { code: "NC", name: "North Carolina" },
+  { code: "ND", name: "North Dakota" }, { code: "OH", name: "Ohio" },
+  { code: "OK", name: "Oklahoma" }, { code: "OR", name: "Oregon" },
+  { code: "PA", name: "Pennsylvania" }, { code: "PR", name: "Puerto Rico" },
+  { code: "RI", name: "Rhode Island" }, { code: "SC", name: "South Carolina" },
+  { code: "SD", name: "South Dakota" }, { code: "TN", name: "Tennessee" },
+  { code: "TX", name: "Texas" }, { code: "UT", name: "Utah" },
+  { code: "VT", name: "Vermont" }, { code: "VA", name: "Virginia" },
+  { code: "WA", name: "Washington" }, { code: "WV", name: "West Virginia" },
+  { code: "WI", name: "Wisconsin" }, { code: "WY", name: "Wyoming" },
+]
+
+export const GEO_REGIONS: { value: GeoRegion; label: string }[] = [
+  { value: "north-america", label: "North America" },
+  { value: "latin-america", label: "Latin America & Caribbean" },
+  { value: "europe", label: "Europe" },
+  { value: "asia-pacific", label: "Asia-Pacific" },
+  { value: "middle-east-africa", label: "Middle East & Africa" },
+]
+
+const STATE_NAMES = new Map(US_STATES.map((s) => [s.code, s.name]))
+const REGION_LABELS = new Map<string, string>(GEO_REGIONS.map((r) => [r.value, r.label]))
+
+/** Display label for a geography key, e.g. "state:FL" → "Florida" */
+export function geoKeyLabel(key: string): string {
+  const [kind, value] = key.split(":")
+  if (kind === "state") return STATE_NAMES.get(value) ?? value
+  if (kind === "region") return REGION_LABELS.get(value) ?? value
+  if (kind === "country") return value === "US" ? "United States" : value
+  return key
+}
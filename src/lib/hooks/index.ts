@@ -3,14 +3,43 @@
  */
 
 export { useTodayBrief, type TodayBriefResponse, type TopStoryWithArticle } from "./use-today-brief"
-export { useArticles, useSources, type ArticleFilters, type ArticleFromApi } from "./use-articles"
+export { useDigest, type DigestResponse } from "./use-digest"
+export {
+  useBriefArchive,
+  useArchivedBrief,
+  type BriefArchiveEntry,
+  type BriefArchivePage,
+  type ArchivedBriefResponse,
+} from "./use-brief-archive"
+export {
+  useArticles,
+  useSources,
+  useArticleRevisions,
+  useArticleSearch,
+  useArticle,
+  type ArticleFilters,
+  type ArticleFromApi,
+  type ArticleRevisionFromApi,
+  type HighlightSegment,
+  type SearchFacets,
+  type SearchResultFromApi,
+} from "./use-articles"
+export {
+  useExportContent,
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+  type ExportRequest,
+} from "./use-export"
 export {
   useArticleAI,
   useCachedArticleAI,
+  useBookmarks,
 } from "./use-bookmarks"
 export {
   useUserPreferences,
   useToggleNotifications,
+  useSetMyStates,
+  useSetPersonalBrief,
 } from "./use-user-preferences"
 export { usePushNotifications } from "./use-push-notifications"
 export { useLargeTitle, useLargeTitleWithScroll } from "./use-large-title"
@@ -19,8 +48,13 @@ export {
   useCreateThread,
   useAppendMessage,
   useChatMessages,
+  useUpdateThreadScope,
   useDeleteThread,
+  useLocalChatMigration,
+  isAnswerStreaming,
+  type ChatThreadScope,
   type CreateThreadInput,
+  type UpdateThreadScopeInput,
   type AppendMessageInput,
 } from "./use-chat-threads"
 export { useSignals } from "./use-signals"
@@ -12,8 +12,8 @@ import {
   where,
   getDocs,
 } from "firebase/firestore"
-import { db } from "@/lib/firebase"
-import type { Article, SourceCategory } from "@/types/firestore"
+import { auth, db } from "@/lib/firebase"
+import type { Article, ArticleEntity, ArticleGeo, ArticleRevisionField, SourceCategory } from "@/types/firestore"
 
 const ARTICLES_PER_PAGE = 20
 
@@ -25,6 +25,12 @@ export interface ArticleFilters {
   sourceIds?: string[]
   timeWindow?: "24h" | "7d" | "all"
   searchQuery?: string
+  /** Show one article per cross-source story */
+  collapseClusters?: boolean
+  /** Entity key (e.g. "company:travelers"); mutually exclusive with category */
+  entity?: string
+  /** Geography keys (e.g. ["state:FL"]); mutually exclusive with category and entity */
+  geo?: string[]
 }
 
 interface FetchArticlesParams {
@@ -50,11 +56,26 @@ export interface ArticleFromApi {
   relevanceScore: number
   isRelevant: boolean
   ai: Article["ai"] | null
+  clusterId?: string | null
+  /** Other sources covering the same story */
+  alsoCoveredBy?: string[]
+  /** Gazetteer entities mentioned in the article */
+  entities?: ArticleEntity[]
+  /** Inferred geography (null on untagged articles) */
+  geo?: ArticleGeo | null
+  /** Publisher updates detected since first ingest */
+  revisionCount?: number
+  /** ISO string of the latest update */
+  lastRevisedAt?: string | null
+  /** `ai` predates the latest update and will be regenerated */
+  aiStale?: boolean
 }
 
 interface GetArticlesResponse {
   articles: ArticleFromApi[]
   hasMore: boolean
+  /** Cursor for the next page (may differ from the last article when clusters are collapsed) */
+  nextCursor?: string | null
 }
 
 interface FetchArticlesResult {
@@ -72,6 +93,9 @@ async function fetchArticlesHttp(params: {
   sourceIds?: string[]
   limit?: number
   startAfterPublishedAt?: string
+  collapseClusters?: boolean
+  entity?: string
+  geo?: string[]
 }): Promise<GetArticlesResponse> {
   const response = await fetch(`${FUNCTIONS_BASE_URL}/getArticles`, {
     method: "POST",
@@ -99,12 +123,17 @@ async function fetchArticles({ filters, pageParam }: FetchArticlesParams): Promi
     sourceIds: filters.sourceIds,
     limit: ARTICLES_PER_PAGE,
     startAfterPublishedAt: pageParam || undefined,
+    collapseClusters: filters.collapseClusters,
+    entity: filters.entity,
+    geo: filters.geo,
   })
 
-  // Get the last article's publishedAt for pagination
-  const lastPublishedAt = result.articles.length > 0
-    ? result.articles[result.articles.length - 1].publishedAt
-    : null
+  // Prefer the server cursor; fall back to the last article's publishedAt
+  const lastPublishedAt = result.nextCursor !== undefined
+    ? result.nextCursor
+    : result.articles.length > 0
+      ? result.articles[result.articles.length - 1].publishedAt
+      : null
 
   return {
     articles: result.articles,
@@ -127,6 +156,167 @@ export function useArticles(filters: ArticleFilters = {}) {
   })
 }
 
+// ============================================================================
+// Article Search
+// ============================================================================
+
+/** A run of text, marked when it matched the query */
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchResultFromApi extends ArticleFromApi {
+  highlights: {
+    title: HighlightSegment[]
+    /** Whole snippet, or a fragment around the first match */
+    snippet: HighlightSegment[]
+  }
+}
+
+/** Result counts per filter value, each with the other filters applied */
+export interface SearchFacets {
+  sources: { id: string; name: string; count: number }[]
+  categories: Partial<Record<SourceCategory, number>>
+  /** Cumulative ("7d" includes "24h") */
+  timeWindows: Record<"24h" | "7d" | "all", number>
+}
+
+interface SearchArticlesResponse {
+  articles: SearchResultFromApi[]
+  total: number
+  facets: SearchFacets
+  hasMore: boolean
+  nextOffset: number | null
+  /** Only the best-ranked matches were filtered and counted (total and facets are partial) */
+  truncated: boolean
+  /** The query had only words too common to index ("the", "of") */
+  tooCommon: boolean
+}
+
+async function fetchSearchPage(
+  searchQuery: string,
+  filters: ArticleFilters,
+  offset: number
+): Promise<SearchArticlesResponse> {
+  // Signed-in searches count against the user's daily limit, not the IP's
+  const token = await auth.currentUser?.getIdToken()
+  const response = await fetch(`${FUNCTIONS_BASE_URL}/searchArticles`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify({
+      data: {
+        query: searchQuery,
+        category: filters.category,
+        timeWindow: filters.timeWindow,
+        sourceIds: filters.sourceIds,
+        entity: filters.entity,
+        geo: filters.geo,
+        limit: ARTICLES_PER_PAGE,
+        offset,
+      },
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`)
+  }
+
+  const json = await response.json()
+  return json.result || json
+}
+
+/**
+ * Hook for server-side article search (ranked by relevance and recency,
+ * with highlights and facet counts), paged for infinite scroll.
+ * Disabled while the query is blank.
+ */
+export function useArticleSearch(searchQuery: string, filters: ArticleFilters = {}) {
+  const trimmed = searchQuery.trim()
+  return useInfiniteQuery({
+    queryKey: ["articleSearch", trimmed, filters],
+    queryFn: ({ pageParam }) => fetchSearchPage(trimmed, filters, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    enabled: trimmed.length > 0,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  })
+}
+
+// ============================================================================
+// Article Revisions
+// ============================================================================
+
+export interface ArticleRevisionFromApi {
+  id: string
+  detectedAt: string | null
+  changedFields: ArticleRevisionField[]
+  previous: { title: string; snippet: string; publishedAt: string | null }
+  current: { title: string; snippet: string; publishedAt: string | null }
+}
+
+/**
+ * Hook for an article's publisher revisions (newest first).
+ * Only fetches when `enabled` (e.g. the history is expanded).
+ */
+export function useArticleRevisions(articleId: string | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: ["articleRevisions", articleId],
+    queryFn: async (): Promise<ArticleRevisionFromApi[]> => {
+      const response = await fetch(`${FUNCTIONS_BASE_URL}/getArticleRevisions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ data: { articleId } }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`)
+      }
+
+      const json = await response.json()
+      const result = json.result || json
+      return result.revisions ?? []
+    },
+    enabled: !!articleId && enabled,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+/**
+ * Hook for a single article by ID (e.g. one a notification links to).
+ * Resolves to null when the article doesn't exist.
+ */
+export function useArticle(articleId: string | undefined) {
+  return useQuery({
+    queryKey: ["articleById", articleId],
+    queryFn: async (): Promise<ArticleFromApi | null> => {
+      const response = await fetch(`${FUNCTIONS_BASE_URL}/getArticle`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ data: { articleId } }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`)
+      }
+
+      const json = await response.json()
+      const result = json.result || json
+      return result.article ?? null
+    },
+    enabled: !!articleId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
 // Maximum sources to fetch (prevents runaway reads if sources grow)
 const MAX_SOURCES = 50
 
@@ -1,12 +1,40 @@
 /**
- * Hooks for article AI management
+ * Hooks for article AI management and the user's bookmarks
  */
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { httpsCallable } from "firebase/functions"
-import { functions } from "@/lib/firebase"
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore"
+import { db, functions } from "@/lib/firebase"
 import { useAuth } from "@/lib/auth-context"
-import type { ArticleAI } from "@/types/firestore"
+import type { ArticleAI, Bookmark } from "@/types/firestore"
+
+/** Most recent bookmarks listed (the export includes up to 500) */
+const MAX_BOOKMARKS = 200
+
+// ============================================================================
+// Bookmarks Hook
+// ============================================================================
+
+/**
+ * The signed-in user's bookmarks, newest first. Empty when signed out.
+ */
+export function useBookmarks() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ["bookmarks", user?.uid],
+    queryFn: async (): Promise<Bookmark[]> => {
+      if (!user) return []
+      const bookmarksRef = collection(db, "users", user.uid, "bookmarks")
+      const q = query(bookmarksRef, orderBy("bookmarkedAt", "desc"), limit(MAX_BOOKMARKS))
+      const snapshot = await getDocs(q)
+      return snapshot.docs.map((doc) => doc.data() as Bookmark)
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  })
+}
 
 // ============================================================================
 // Article AI Hook
@@ -0,0 +1,117 @@
+/**
+ * Hooks for the brief archive (past daily briefs by date)
+ *
+ * Features:
+ * - Paged list of brief dates with a headline preview
+ * - Any past brief with the nearest earlier/later brief dates for prev/next
+ * - HTTP-first fetch with callable fallback (same as the Today brief)
+ */
+
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query"
+import { httpsCallable } from "firebase/functions"
+import { functions } from "@/lib/firebase"
+import type { TodayBriefResponse } from "./use-today-brief"
+
+export interface BriefArchiveEntry {
+  /** yyyy-mm-dd */
+  date: string
+  /** Lead of the first executive summary bullet (or first top story) */
+  headline: string
+  topStoryCount: number
+}
+
+export interface BriefArchivePage {
+  briefs: BriefArchiveEntry[]
+  /** Pass as `before` for the next (older) page; null when done */
+  nextBefore: string | null
+}
+
+export interface ArchivedBriefResponse extends TodayBriefResponse {
+  /** Nearest earlier brief date (null for the oldest) */
+  prevDate: string | null
+  /** Nearest later brief date (null for the newest) */
+  nextDate: string | null
+}
+
+type GetBriefArchiveRequest =
+  | { action: "list"; before?: string; limit?: number }
+  | { action: "get"; date: string }
+
+// Cloud Functions endpoint URL
+const FUNCTIONS_BASE_URL = "https://us-central1-insurance-news-ai.cloudfunctions.net"
+
+const ARCHIVE_PAGE_SIZE = 30
+
+// Callable function reference (for web)
+const getBriefArchiveCallable = httpsCallable<GetBriefArchiveRequest, BriefArchivePage | ArchivedBriefResponse>(
+  functions,
+  "getBriefArchive"
+)
+
+/**
+ * Call getBriefArchive using direct HTTP (works in Capacitor WebView),
+ * falling back to the callable (for web/emulator)
+ */
+async function callBriefArchive<T extends BriefArchivePage | ArchivedBriefResponse>(
+  request: GetBriefArchiveRequest
+): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error("Request timed out")), 10000)
+  })
+
+  try {
+    const response = await Promise.race([
+      fetch(`${FUNCTIONS_BASE_URL}/getBriefArchive`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ data: request }),
+      }),
+      timeoutPromise,
+    ])
+    if (!response.ok) {
+      throw new Error(`HTTP error: ${response.status}`)
+    }
+    const json = await response.json()
+    // Firebase callable functions wrap response in { result: ... }
+    return (json.result || json) as T
+  } catch {
+    const result = await Promise.race([getBriefArchiveCallable(request), timeoutPromise])
+    return result.data as T
+  }
+}
+
+/**
+ * Hook for the list of available brief dates, newest first (paged)
+ */
+export function useBriefArchive() {
+  return useInfiniteQuery({
+    queryKey: ["briefArchive"],
+    queryFn: ({ pageParam }) =>
+      callBriefArchive<BriefArchivePage>({
+        action: "list",
+        before: pageParam ?? undefined,
+        limit: ARCHIVE_PAGE_SIZE,
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextBefore ?? undefined,
+    staleTime: 1000 * 60 * 30, // 30 minutes (one new brief a day)
+    gcTime: 1000 * 60 * 60, // 1 hour
+  })
+}
+
+/**
+ * Hook for one date's brief with prev/next brief dates
+ *
+ * @param date - yyyy-mm-dd
+ */
+export function useArchivedBrief(date: string | undefined) {
+  return useQuery({
+    queryKey: ["briefArchive", "brief", date],
+    queryFn: () => callBriefArchive<ArchivedBriefResponse>({ action: "get", date: date! }),
+    enabled: !!date,
+    staleTime: 1000 * 60 * 30, // 30 minutes (nextDate changes when today's brief lands)
+    gcTime: 1000 * 60 * 60, // 1 hour
+  })
+}
@@ -1,10 +1,16 @@
 /**
- * Hooks for chat thread persistence (optional)
- * 
+ * Hooks for chat thread persistence
+ *
  * Chat threads are stored in users/{uid}/chatThreads/{threadId}
  * Messages are stored in users/{uid}/chatThreads/{threadId}/messages/{messageId}
+ *
+ * Threads are the source of truth for Ask on every device. The client
+ * creates a thread (with its scope and filters); the answer endpoints write
+ * the question and the assistant's answer, including partial text while an
+ * answer is still streaming.
  */
 
+import { useEffect } from "react"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import {
   collection,
@@ -13,35 +19,48 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   orderBy,
   query,
   limit,
+  writeBatch,
   Timestamp,
   serverTimestamp,
 } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import { useAuth } from "@/lib/auth-context"
-import type {
-  ChatThread,
-  ChatMessage,
-  ChatTimeScope,
-  ChatSourceFilter,
-  ChatCategory,
-  ChatCitation,
-} from "@/types/firestore"
+import { hasLocalChatSessions, migrateLocalChatSessions } from "@/lib/local-chat-sessions"
+import type { ChatThread, ChatMessage, ChatCitation } from "@/types/firestore"
 
 // Maximum threads to fetch
-const MAX_THREADS = 20
+const MAX_THREADS = 30
+
+// Poll interval while an answer is still streaming into a thread
+const STREAMING_POLL_MS = 2000
+
+// A "streaming" message this old was abandoned (answerQuestionRagStream times out at 120s)
+const STREAMING_STALE_MS = 1000 * 130
+
+// Firestore batch write limit
+const BATCH_LIMIT = 500
 
 // ============================================================================
 // Types for hook inputs
 // ============================================================================
 
-export interface CreateThreadInput {
+/** What a thread's questions search (see AskScopeSheet) */
+export type ChatThreadScope = Pick<
+  ChatThread,
+  "scope" | "sourceFilter" | "category" | "dateFrom" | "dateTo" | "sourceIds" | "topics" | "bookmarksOnly"
+>
+
+export interface CreateThreadInput extends ChatThreadScope {
   title: string
-  scope: ChatTimeScope
-  sourceFilter: ChatSourceFilter
-  category: ChatCategory
+}
+
+export interface UpdateThreadScopeInput {
+  threadId: string
+  scope: ChatThreadScope
 }
 
 export interface AppendMessageInput {
@@ -51,6 +70,45 @@ export interface AppendMessageInput {
   citations?: ChatCitation[]
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether the server is still writing this answer. A message left
+ * "streaming" by a function that died is treated as finished.
+ */
+export function isAnswerStreaming(message: ChatMessage): boolean {
+  if (message.status !== "streaming") return false
+  const lastWrite = message.updatedAt ?? message.createdAt
+  return Date.now() - lastWrite.toMillis() < STREAMING_STALE_MS
+}
+
+/**
+ * Thread fields for a scope. Optional filters that are off are left out;
+ * `unset` supplies the value that removes them on update.
+ */
+function scopeFields(scope: ChatThreadScope, unset?: () => unknown): Record<string, unknown> {
+  const custom = scope.scope === "custom"
+  const optional: Record<string, unknown> = {
+    dateFrom: custom ? scope.dateFrom : undefined,
+    dateTo: custom ? scope.dateTo : undefined,
+    sourceIds: scope.sourceFilter === "custom" ? scope.sourceIds : undefined,
+    topics: scope.topics?.length ? scope.topics : undefined,
+    bookmarksOnly: scope.bookmarksOnly || undefined,
+  }
+  const fields: Record<string, unknown> = {
+    scope: scope.scope,
+    sourceFilter: scope.sourceFilter,
+    category: scope.category,
+  }
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined) fields[key] = value
+    else if (unset) fields[key] = unset()
+  }
+  return fields
+}
+
 // ============================================================================
 // Hooks
 // ============================================================================
@@ -98,9 +156,7 @@ export function useCreateThread() {
         title: input.title,
         createdAt: now,
         updatedAt: now,
-        scope: input.scope,
-        sourceFilter: input.sourceFilter,
-        category: input.category,
+        ...scopeFields(input),
       })
 
       return docRef.id
@@ -111,6 +167,29 @@ export function useCreateThread() {
   })
 }
 
+/**
+ * Change what a thread's next questions search
+ */
+export function useUpdateThreadScope() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: UpdateThreadScopeInput): Promise<void> => {
+      if (!user) throw new Error("Must be authenticated to update thread")
+
+      // updatedAt is left alone so the thread keeps its place in history
+      await updateDoc(
+        doc(db, "users", user.uid, "chatThreads", input.threadId),
+        scopeFields(input.scope, deleteField)
+      )
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chatThreads", user?.uid] })
+    },
+  })
+}
+
 /**
  * Append a message to a chat thread
  */
@@ -183,6 +262,10 @@ export function useChatMessages(threadId: string | null) {
     },
     enabled: !!user && !!threadId,
     staleTime: 1000 * 60, // 1 minute
+    // An answer that kept generating after this device stopped listening
+    // (backgrounded app, other device) fills in as the server writes it
+    refetchInterval: (query) =>
+      query.state.data?.some(isAnswerStreaming) ? STREAMING_POLL_MS : false,
   })
 }
 
@@ -197,15 +280,44 @@ export function useDeleteThread() {
     mutationFn: async (threadId: string): Promise<void> => {
       if (!user) throw new Error("Must be authenticated to delete thread")
 
-      // Note: In production, you might want to use a Cloud Function
-      // to delete subcollections atomically. For now, we just delete the thread doc.
-      // Firestore will orphan the messages subcollection, but they won't be accessible.
+      // Messages first, so a failed delete leaves the thread listed and retryable
       const threadRef = doc(db, "users", user.uid, "chatThreads", threadId)
+      const messages = await getDocs(collection(threadRef, "messages"))
+      for (let i = 0; i < messages.docs.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db)
+        messages.docs.slice(i, i + BATCH_LIMIT).forEach((message) => batch.delete(message.ref))
+        await batch.commit()
+      }
       await deleteDoc(threadRef)
     },
-    onSuccess: () => {
+    onSuccess: (_, threadId) => {
       queryClient.invalidateQueries({ queryKey: ["chatThreads", user?.uid] })
+      queryClient.removeQueries({ queryKey: ["chatMessages", threadId] })
     },
   })
 }
 
+/**
+ * Move conversations this device kept in localStorage (before threads) to
+ * the signed-in user's threads, once
+ */
+export function useLocalChatMigration() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!user || !hasLocalChatSessions()) return
+
+    migrateLocalChatSessions(user.uid)
+      .then((moved) => {
+        if (moved > 0) {
+          queryClient.invalidateQueries({ queryKey: ["chatThreads", user.uid] })
+        }
+      })
+      .catch((error) => {
+        // Sessions stay on the device and are retried on the next sign-in
+        console.warn("Chat history migration failed:", error instanceof Error ? error.message : error)
+      })
+  }, [user, queryClient])
+}
+
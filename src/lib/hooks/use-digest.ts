@@ -0,0 +1,103 @@
+/**
+ * Hook for fetching weekly/monthly roll-up digests from Cloud Functions
+ *
+ * Features:
+ * - localStorage caching with 6h TTL (digests change once a week/month)
+ * - Falls back to cache while fresh data loads
+ */
+
+import { useQuery } from "@tanstack/react-query"
+import { httpsCallable } from "firebase/functions"
+import { functions } from "@/lib/firebase"
+import { getCached, setCache } from "@/lib/cache"
+import type { Digest, DigestPeriod } from "@/types/firestore"
+import type { TopStoryWithArticle } from "./use-today-brief"
+
+export interface DigestResponse {
+  found: boolean
+  period: DigestPeriod
+  /** Week start (Monday, yyyy-mm-dd) or month (yyyy-mm) */
+  periodKey: string
+  digest: Digest | null
+  topStoriesWithArticles: TopStoryWithArticle[]
+}
+
+const DIGEST_CACHE_TTL = 6 * 60 * 60 * 1000 // 6 hours
+
+function digestCacheKey(period: DigestPeriod): string {
+  return `digest_${period}`
+}
+
+// Cloud Functions endpoint URL
+const FUNCTIONS_BASE_URL = "https://us-central1-insurance-news-ai.cloudfunctions.net"
+
+// Callable function reference (for web)
+const getDigestCallable = httpsCallable<{ period: DigestPeriod; periodKey?: string }, DigestResponse>(
+  functions,
+  "getDigest"
+)
+
+/**
+ * Fetch a digest using direct HTTP (works in Capacitor WebView)
+ */
+async function fetchDigestHttp(period: DigestPeriod): Promise<DigestResponse> {
+  const response = await fetch(`${FUNCTIONS_BASE_URL}/getDigest`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ data: { period } }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status}`)
+  }
+
+  const json = await response.json()
+  // Firebase callable functions wrap response in { result: ... }
+  return json.result || json
+}
+
+/**
+ * Fetch the latest digest for a period
+ * Uses direct HTTP fetch with timeout, falls back to callable
+ * Updates localStorage cache on success
+ */
+async function fetchDigest(period: DigestPeriod): Promise<DigestResponse> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error("Request timed out")), 10000)
+  })
+
+  let data: DigestResponse
+  try {
+    data = await Promise.race([fetchDigestHttp(period), timeoutPromise])
+  } catch {
+    // Fallback to callable (for web/emulator)
+    const result = await Promise.race([getDigestCallable({ period }), timeoutPromise])
+    data = result.data
+  }
+
+  if (data.found) {
+    setCache(digestCacheKey(period), data, DIGEST_CACHE_TTL)
+  }
+  return data
+}
+
+/**
+ * Hook to fetch the latest weekly or monthly digest with TanStack Query
+ *
+ * @param period - "weekly" or "monthly"
+ * @param enabled - Only fetch while the digest is on screen
+ */
+export function useDigest(period: DigestPeriod, enabled = true) {
+  const cachedData = getCached<DigestResponse>(digestCacheKey(period))
+
+  return useQuery({
+    queryKey: ["digest", period],
+    queryFn: () => fetchDigest(period),
+    enabled,
+    staleTime: 1000 * 60 * 30, // 30 minutes
+    gcTime: 1000 * 60 * 60, // 1 hour
+    placeholderData: cachedData ?? undefined,
+  })
+}
@@ -0,0 +1,81 @@
+/**
+ * Hook for exporting the brief or saved articles
+ *
+ * Files are rendered server-side (exportContent) so Markdown, HTML and PDF
+ * come out the same on iOS and web, then handed to the share sheet (iOS,
+ * mobile browsers) or downloaded (desktop).
+ */
+
+import { useMutation } from "@tanstack/react-query"
+import { httpsCallable } from "firebase/functions"
+import { functions } from "@/lib/firebase"
+import { useAuth } from "@/lib/auth-context"
+
+export type ExportFormat = "markdown" | "html" | "pdf"
+
+export type ExportRequest =
+  | { source: "brief"; format: ExportFormat; date?: string; personal?: boolean }
+  | { source: "bookmarks"; format: ExportFormat }
+
+interface ExportFileResponse {
+  filename: string
+  mimeType: string
+  /** File body, base64 */
+  data: string
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  html: "HTML",
+  pdf: "PDF",
+}
+
+const exportContentCallable = httpsCallable<ExportRequest, ExportFileResponse>(
+  functions,
+  "exportContent",
+  { timeout: 60000 }
+)
+
+/**
+ * Share the file where the platform supports sharing files (the iOS share
+ * sheet covers Mail, Notes and Files), otherwise download it.
+ */
+async function saveExportFile({ filename, mimeType, data }: ExportFileResponse): Promise<void> {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+  const file = new File([bytes], filename, { type: mimeType })
+
+  if (typeof navigator.canShare === "function" && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: filename })
+      return
+    } catch (error) {
+      // User closed the share sheet
+      if (error instanceof DOMException && error.name === "AbortError") return
+    }
+  }
+
+  const url = URL.createObjectURL(file)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Export the daily brief (by date) or the user's bookmarks
+ */
+export function useExportContent() {
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (request: ExportRequest) => {
+      if (!user) throw new Error("Must be authenticated to export")
+      const result = await exportContentCallable(request)
+      await saveExportFile(result.data)
+      return result.data.filename
+    },
+  })
+}
@@ -4,6 +4,8 @@
  * Features:
  * - localStorage caching with 30min TTL for instant display
  * - Falls back to cache while fresh data loads
+ * - Optional "my states" for territory stories alongside the shared brief
+ * - Optional "My Brief" (signed-in, per-user brief via getMyBrief)
  */
 
 import { useQuery } from "@tanstack/react-query"
@@ -38,31 +40,51 @@ export interface TodayBriefResponse {
   date: string
   brief: Brief | null
   topStoriesWithArticles: TopStoryWithArticle[]
+  /** Stories tagged with the requested states (absent when none requested) */
+  territoryStories?: TopStoryWithArticle[]
+  /** True when this is the user's "My Brief" rather than the shared brief (getMyBrief only) */
+  personalized?: boolean
 }
 
 // Cache key for today's brief
 const BRIEF_CACHE_KEY = "today_brief"
+const MY_BRIEF_CACHE_KEY = "my_brief"
 const BRIEF_CACHE_TTL = 30 * 60 * 1000 // 30 minutes
 
+// Territory stories differ per state selection, so cache them separately
+function briefCacheKey(states?: string[], personal?: boolean): string {
+  const base = personal ? MY_BRIEF_CACHE_KEY : BRIEF_CACHE_KEY
+  return states && states.length > 0
+    ? `${base}_${[...states].sort().join("_")}`
+    : base
+}
+
 // Cloud Functions endpoint URL
 const FUNCTIONS_BASE_URL = "https://us-central1-insurance-news-ai.cloudfunctions.net"
 
 // Callable function reference (for web)
-const getTodayBriefCallable = httpsCallable<{ date?: string }, TodayBriefResponse>(
+const getTodayBriefCallable = httpsCallable<{ date?: string; states?: string[] }, TodayBriefResponse>(
   functions,
   "getTodayBrief"
 )
 
+// "My Brief" needs the signed-in user, so it always goes through the callable
+const getMyBriefCallable = httpsCallable<{ date?: string; states?: string[] }, TodayBriefResponse>(
+  functions,
+  "getMyBrief",
+  { timeout: 120000 } // First open of the day may build the brief
+)
+
 /**
  * Fetch today's brief using direct HTTP (works in Capacitor WebView)
  */
-async function fetchTodayBriefHttp(date?: string): Promise<TodayBriefResponse> {
+async function fetchTodayBriefHttp(date?: string, states?: string[]): Promise<TodayBriefResponse> {
   const response = await fetch(`${FUNCTIONS_BASE_URL}/getTodayBrief`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ data: { date } }),
+    body: JSON.stringify({ data: { date, states } }),
   })
 
   if (!response.ok) {
@@ -79,7 +101,9 @@ async function fetchTodayBriefHttp(date?: string): Promise<TodayBriefResponse> {
  * Uses direct HTTP fetch with timeout, falls back to callable
  * Updates localStorage cache on success
  */
-async function fetchTodayBrief(date?: string): Promise<TodayBriefResponse> {
+async function fetchTodayBrief(date?: string, states?: string[]): Promise<TodayBriefResponse> {
+  const cacheKey = briefCacheKey(states)
+
   // Create timeout promise (10 seconds)
   const timeoutPromise = new Promise<never>((_, reject) => {
     setTimeout(() => reject(new Error("Request timed out")), 10000)
@@ -88,46 +112,63 @@ async function fetchTodayBrief(date?: string): Promise<TodayBriefResponse> {
   try {
     // Try direct HTTP fetch first (works better in Capacitor)
     const data = await Promise.race([
-      fetchTodayBriefHttp(date),
+      fetchTodayBriefHttp(date, states),
       timeoutPromise
     ])
 
     // Cache the response (only for "today" queries)
     if (!date && data.found) {
-      setCache(BRIEF_CACHE_KEY, data, BRIEF_CACHE_TTL)
+      setCache(cacheKey, data, BRIEF_CACHE_TTL)
     }
 
     return data
   } catch {
     // Fallback to callable (for web/emulator)
     const result = await Promise.race([
-      getTodayBriefCallable({ date }),
+      getTodayBriefCallable({ date, states }),
       timeoutPromise
     ])
     const data = result.data
 
     if (!date && data.found) {
-      setCache(BRIEF_CACHE_KEY, data, BRIEF_CACHE_TTL)
+      setCache(cacheKey, data, BRIEF_CACHE_TTL)
     }
 
     return data
   }
 }
 
+/**
+ * Fetch the signed-in user's "My Brief" (falls back to the shared brief server-side)
+ * Updates localStorage cache on success
+ */
+async function fetchMyBrief(date?: string, states?: string[]): Promise<TodayBriefResponse> {
+  const result = await getMyBriefCallable({ date, states })
+  const data = result.data
+
+  if (!date && data.found) {
+    setCache(briefCacheKey(states, true), data, BRIEF_CACHE_TTL)
+  }
+
+  return data
+}
+
 /**
  * Hook to fetch today's brief with TanStack Query
  *
  * Uses localStorage cache for instant initial display, then fetches fresh data.
  *
  * @param date - Optional date in yyyy-mm-dd format (defaults to today ET)
+ * @param states - Optional "my states" (USPS codes) for territory stories
+ * @param personal - Fetch the signed-in user's "My Brief" instead of the shared brief
  */
-export function useTodayBrief(date?: string) {
+export function useTodayBrief(date?: string, states?: string[], personal = false) {
   // Get cached data for initial display (only for "today")
-  const cachedData = !date ? getCached<TodayBriefResponse>(BRIEF_CACHE_KEY) : null
+  const cachedData = !date ? getCached<TodayBriefResponse>(briefCacheKey(states, personal)) : null
 
   return useQuery({
-    queryKey: ["brief", date ?? "today"],
-    queryFn: () => fetchTodayBrief(date),
+    queryKey: ["brief", date ?? "today", states ?? [], personal],
+    queryFn: () => (personal ? fetchMyBrief(date, states) : fetchTodayBrief(date, states)),
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 30, // 30 minutes
     // Use cached data as placeholder while fetching
@@ -1,5 +1,5 @@
 /**
- * Hook for managing user preferences (source toggles, etc.)
+ * Hook for managing user preferences (source toggles, "my states", etc.)
  */
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
@@ -60,34 +60,33 @@ export function useUserPreferences() {
 }
 
 /**
- * Hook to toggle notification preferences
+ * Hook to toggle notification preferences (daily brief and/or breaking news)
  */
 export function useToggleNotifications() {
   const { user } = useAuth()
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({
-      dailyBrief,
-    }: {
-      dailyBrief: boolean
-    }) => {
+    mutationFn: async (
+      changes: Partial<UserPreferences["notifications"]>
+    ) => {
       if (!user) throw new Error("Not authenticated")
 
       const prefsRef = doc(db, "users", user.uid, "prefs", "main")
       const prefsDoc = await getDoc(prefsRef)
 
       if (prefsDoc.exists()) {
-        await updateDoc(prefsRef, {
-          "notifications.dailyBrief": dailyBrief,
-          updatedAt: serverTimestamp(),
-        })
+        const updates: Record<string, unknown> = { updatedAt: serverTimestamp() }
+        for (const [key, value] of Object.entries(changes)) {
+          updates[`notifications.${key}`] = value
+        }
+        await updateDoc(prefsRef, updates)
       } else {
         await setDoc(prefsRef, {
           ...DEFAULT_PREFERENCES,
           notifications: {
             ...DEFAULT_PREFERENCES.notifications,
-            dailyBrief,
+            ...changes,
           },
           updatedAt: serverTimestamp(),
         })
@@ -99,3 +98,70 @@ export function useToggleNotifications() {
   })
 }
 
+/**
+ * Hook to save the user's "my states" (USPS codes, max 10)
+ */
+export function useSetMyStates() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (myStates: string[]) => {
+      if (!user) throw new Error("Not authenticated")
+
+      const prefsRef = doc(db, "users", user.uid, "prefs", "main")
+      const prefsDoc = await getDoc(prefsRef)
+
+      if (prefsDoc.exists()) {
+        await updateDoc(prefsRef, {
+          myStates,
+          updatedAt: serverTimestamp(),
+        })
+      } else {
+        await setDoc(prefsRef, {
+          ...DEFAULT_PREFERENCES,
+          myStates,
+          updatedAt: serverTimestamp(),
+        })
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["userPreferences", user?.uid] })
+    },
+  })
+}
+
+/**
+ * Hook to opt in or out of "My Brief" (daily brief built from the user's
+ * enabled sources, categories and watchlist topics)
+ */
+export function useSetPersonalBrief() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (personalBrief: boolean) => {
+      if (!user) throw new Error("Not authenticated")
+
+      const prefsRef = doc(db, "users", user.uid, "prefs", "main")
+      const prefsDoc = await getDoc(prefsRef)
+
+      if (prefsDoc.exists()) {
+        await updateDoc(prefsRef, {
+          personalBrief,
+          updatedAt: serverTimestamp(),
+        })
+      } else {
+        await setDoc(prefsRef, {
+          ...DEFAULT_PREFERENCES,
+          personalBrief,
+          updatedAt: serverTimestamp(),
+        })
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["userPreferences", user?.uid] })
+      queryClient.invalidateQueries({ queryKey: ["brief"] })
+    },
+  })
+}
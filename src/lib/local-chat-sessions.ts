@@ -0,0 +1,164 @@
+/**
+ * Local chat sessions (legacy)
+ *
+ * Before conversations moved to users/{uid}/chatThreads, Ask kept them in
+ * localStorage: a session index, one key per session's messages, and before
+ * that a single cached conversation. On sign-in each stored session is
+ * copied once into a thread and then removed from the device.
+ */
+
+import { doc, getDoc, writeBatch, Timestamp } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import type { ChatCitation } from "@/types/firestore"
+
+/** localStorage key for the session index (list of session metadata) */
+const SESSIONS_INDEX_KEY = "pcbrief_chat_sessions"
+/** localStorage key prefix for individual session messages */
+const SESSION_PREFIX = "pcbrief_chat_"
+/** localStorage key of the single conversation kept before sessions */
+const LEGACY_CACHE_KEY = "pcbrief_ask_cache"
+
+/** Limits from firestore.rules (chatThreads create, messages create) */
+const MAX_TITLE_LENGTH = 500
+const MAX_CONTENT_LENGTH = 50000
+
+interface LocalSession {
+  id: string
+  title: string
+  createdAt: number  // epoch ms
+  updatedAt: number  // epoch ms
+  messageCount: number
+}
+
+interface LocalMessage {
+  id: string
+  role: "user" | "assistant"
+  content: string
+  citations?: ChatCitation[]
+  takeaways?: string[]
+  error?: boolean
+}
+
+function readArray<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key)
+    if (!raw) return []
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function removeKey(key: string) {
+  try {
+    localStorage.removeItem(key)
+  } catch {
+    // ignore
+  }
+}
+
+/** Derive a title from the first user message */
+function deriveTitle(messages: LocalMessage[]): string {
+  const firstUserMsg = messages.find((m) => m.role === "user")
+  if (!firstUserMsg) return "New conversation"
+  const text = firstUserMsg.content.trim()
+  return text.length > 60 ? text.slice(0, 57) + "..." : text
+}
+
+/** Whether this device still has conversations to move */
+export function hasLocalChatSessions(): boolean {
+  try {
+    return localStorage.getItem(SESSIONS_INDEX_KEY) !== null || localStorage.getItem(LEGACY_CACHE_KEY) !== null
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Copy one session into users/{uid}/chatThreads/local-{sessionId} in a
+ * single batch. Failed answers are left behind; the rest keep their order.
+ * A session whose thread already exists was moved by a run that stopped
+ * before clearing it from the device, so it is skipped (the rules don't
+ * allow rewriting its messages).
+ */
+async function migrateSession(uid: string, session: LocalSession, messages: LocalMessage[]) {
+  const kept = messages.filter((m) => !m.error && m.content.trim())
+  if (kept.length === 0) return
+
+  const threadId = `local-${session.id}`
+  const threadRef = doc(db, "users", uid, "chatThreads", threadId)
+  if ((await getDoc(threadRef)).exists()) return
+
+  const batch = writeBatch(db)
+  batch.set(threadRef, {
+    title: (session.title || deriveTitle(kept)).slice(0, MAX_TITLE_LENGTH),
+    createdAt: Timestamp.fromMillis(session.createdAt),
+    updatedAt: Timestamp.fromMillis(session.updatedAt),
+    // The only scope and filters Ask offered while sessions were local
+    scope: "7d",
+    sourceFilter: "selected",
+    category: "all",
+    messageCount: kept.length,
+  })
+  kept.forEach((message, index) => {
+    batch.set(doc(db, "users", uid, "chatThreads", threadId, "messages", String(index).padStart(3, "0")), {
+      role: message.role,
+      content: message.content.slice(0, MAX_CONTENT_LENGTH),
+      createdAt: Timestamp.fromMillis(session.createdAt + index),
+      ...(message.citations && { citations: message.citations }),
+      ...(message.takeaways && { takeaways: message.takeaways }),
+      ...(message.role === "assistant" && { status: "complete" }),
+    })
+  })
+  await batch.commit()
+}
+
+let migration: Promise<number> | null = null
+
+/**
+ * Move every locally stored conversation to the user's threads. Each
+ * session is removed from the device as soon as its batch commits (or its
+ * thread turns out to exist already), so an interrupted run resumes with
+ * the sessions that are left.
+ * Resolves to the number of sessions moved.
+ */
+export function migrateLocalChatSessions(uid: string): Promise<number> {
+  if (!migration) {
+    migration = runMigration(uid).finally(() => {
+      migration = null
+    })
+  }
+  return migration
+}
+
+async function runMigration(uid: string): Promise<number> {
+  // The pre-session cache becomes one more session (fixed ID, so a re-run
+  // finds the thread it already wrote)
+  const legacy = readArray<LocalMessage>(LEGACY_CACHE_KEY)
+  if (legacy.length > 0) {
+    const now = Date.now()
+    await migrateSession(
+      uid,
+      { id: "legacy", title: deriveTitle(legacy), createdAt: now, updatedAt: now, messageCount: legacy.length },
+      legacy
+    )
+  }
+  removeKey(LEGACY_CACHE_KEY)
+
+  let sessions = readArray<LocalSession>(SESSIONS_INDEX_KEY)
+  let moved = legacy.length > 0 ? 1 : 0
+  for (const session of [...sessions]) {
+    await migrateSession(uid, session, readArray<LocalMessage>(SESSION_PREFIX + session.id))
+    removeKey(SESSION_PREFIX + session.id)
+    sessions = sessions.filter((s) => s.id !== session.id)
+    try {
+      localStorage.setItem(SESSIONS_INDEX_KEY, JSON.stringify(sessions))
+    } catch {
+      // ignore quota errors
+    }
+    moved++
+  }
+  removeKey(SESSIONS_INDEX_KEY)
+  return moved
+}
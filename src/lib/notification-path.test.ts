@@ -0,0 +1,31 @@
+/// <reference types="node" />
+/**
+ * Unit tests for notification routes
+ *
+ * Run: npx tsx --test src/lib/notification-path.test.ts
+ */
+
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { notificationPath } from "./notification-path"
+
+describe("notificationPath", () => {
+  it("opens the daily brief for its date", () => {
+    assert.equal(notificationPath({ type: "daily_brief", date: "2026-10-19" }), "/brief/2026-10-19")
+    assert.equal(notificationPath({ type: "daily_brief", date: "today" }), "/")
+  })
+
+  it("opens a breaking news alert's article over the Feed", () => {
+    assert.equal(
+      notificationPath({ type: "breaking_news", articleId: "abc123", clusterId: "cluster-1" }),
+      "/feed?article=abc123"
+    )
+    assert.equal(notificationPath({ type: "breaking_news", articleId: "a/b" }), "/feed?article=a%2Fb")
+    assert.equal(notificationPath({ type: "breaking_news" }), "/")
+  })
+
+  it("falls back to Today", () => {
+    assert.equal(notificationPath(null), "/")
+    assert.equal(notificationPath({ type: "unknown" }), "/")
+  })
+})
@@ -0,0 +1,23 @@
+/**
+ * Notification routes
+ *
+ * Maps a push notification's data payload to the in-app route a tap opens.
+ * Web taps get the same routes from public/firebase-messaging-sw.js.
+ */
+
+/**
+ * In-app route for a notification's data payload.
+ * Daily brief notifications carry the brief date and open that date's brief;
+ * breaking news alerts carry the lead article and open it over the Feed.
+ */
+export function notificationPath(data: Record<string, unknown> | null | undefined): string {
+  const date = data?.date
+  if (data?.type === "daily_brief" && typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return `/brief/${date}`
+  }
+  const articleId = data?.articleId
+  if (data?.type === "breaking_news" && typeof articleId === "string" && articleId !== "") {
+    return `/feed?article=${encodeURIComponent(articleId)}`
+  }
+  return "/"
+}
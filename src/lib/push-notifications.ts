@@ -3,13 +3,15 @@
  *
  * Handles FCM registration for both web (Firebase Messaging) and iOS (Capacitor Push Notifications).
  * Stores device tokens under users/{uid}/pushTokens/{token}
+ * Maps notification taps to in-app routes (see notification-path.ts)
  */
 
 import { Capacitor } from "@capacitor/core"
-import { PushNotifications, type Token } from "@capacitor/push-notifications"
+import { PushNotifications, type ActionPerformed, type Token } from "@capacitor/push-notifications"
 import { getMessaging, getToken, onMessage, isSupported } from "firebase/messaging"
 import { doc, setDoc, deleteDoc, serverTimestamp, Timestamp } from "firebase/firestore"
 import { app, db } from "@/lib/firebase"
+import { notificationPath } from "@/lib/notification-path"
 
 // VAPID key for web push (you need to generate this in Firebase Console > Cloud Messaging)
 const VAPID_KEY = import.meta.env.VITE_FIREBASE_VAPID_KEY || ""
@@ -183,3 +185,24 @@ export async function unregisterPush(): Promise<void> {
   }
 }
 
+
+/**
+ * Listen for taps on native notifications (web taps are handled by the service worker).
+ * Returns a cleanup function.
+ */
+export function onNotificationOpened(handler: (path: string) => void): () => void {
+  if (!Capacitor.isNativePlatform()) {
+    return () => {}
+  }
+  const listener = PushNotifications.addListener(
+    "pushNotificationActionPerformed",
+    (action: ActionPerformed) => {
+      handler(notificationPath(action.notification.data))
+    }
+  )
+  return () => {
+    listener.then((handle) => handle.remove()).catch(() => {
+      // Listener may already be gone after unregisterPush
+    })
+  }
+}
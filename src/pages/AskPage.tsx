@@ -4,9 +4,10 @@
  * Wired to answerQuestionRag backend endpoint with streaming support
  *
  * Features:
- * - Multi-session chat management (new chat, history, delete)
- * - localStorage persistence per session
- * - Streaming-first with non-streaming fallback
+ * - Multi-thread chat management (new chat, history, delete)
+ * - Threads synced through users/{uid}/chatThreads, each with its own scope and filters
+ * - Streaming-first with non-streaming fallback; the server saves answers to
+ *   the thread as they stream, so an answer interrupted here finishes in history
  */
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react"
@@ -24,17 +25,29 @@ import {
   ShieldCheck,
 } from "lucide-react"
 import { toast } from "sonner"
-import { useMutation, useQuery } from "@tanstack/react-query"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { doc, getDoc } from "firebase/firestore"
 import { signInAnonymously } from "firebase/auth"
 import { db, auth } from "@/lib/firebase"
 import { cn } from "@/lib/utils"
 import { useAuth } from "@/lib/auth-context"
-import { useUserPreferences } from "@/lib/hooks"
+import {
+  useUserPreferences,
+  useSources,
+  useWatchlist,
+  useChatThreads,
+  useChatMessages,
+  useCreateThread,
+  useUpdateThreadScope,
+  useDeleteThread,
+  isAnswerStreaming,
+  type ChatThreadScope,
+} from "@/lib/hooks"
 import { ArticleDetailSheet } from "@/components/feed"
+import { AskScopeSheet } from "@/components/ask"
 import { AppLogo } from "@/components/ui/app-logo"
 import { trackEvent } from "@/lib/analytics"
-import type { Article } from "@/types/firestore"
+import type { Article, ChatThread, ChatMessage as ThreadMessage } from "@/types/firestore"
 
 /**
  * Ensures we have a valid Firebase auth token.
@@ -67,7 +80,7 @@ async function ensureAuthToken(): Promise<string | null> {
 }
 
 // ============================================================================
-// Session Storage
+// AI Data Consent
 // ============================================================================
 
 /** localStorage key for AI data consent */
@@ -91,126 +104,6 @@ function acceptAiConsent() {
   }
 }
 
-/** localStorage key for the session index (list of session metadata) */
-const SESSIONS_INDEX_KEY = "pcbrief_chat_sessions"
-/** localStorage key prefix for individual session messages */
-const SESSION_PREFIX = "pcbrief_chat_"
-/** Max sessions to keep in history */
-const MAX_SESSIONS = 30
-/** Max messages per session (kept in memory/storage) */
-const MAX_MESSAGES_PER_SESSION = 40
-
-interface ChatSession {
-  id: string
-  title: string
-  createdAt: number  // epoch ms
-  updatedAt: number  // epoch ms
-  messageCount: number
-}
-
-/** Read the session index from localStorage */
-function loadSessionIndex(): ChatSession[] {
-  try {
-    const raw = localStorage.getItem(SESSIONS_INDEX_KEY)
-    if (!raw) return []
-    const parsed = JSON.parse(raw)
-    return Array.isArray(parsed) ? parsed : []
-  } catch {
-    return []
-  }
-}
-
-/** Persist the session index */
-function saveSessionIndex(sessions: ChatSession[]) {
-  try {
-    localStorage.setItem(SESSIONS_INDEX_KEY, JSON.stringify(sessions.slice(0, MAX_SESSIONS)))
-  } catch {
-    // ignore quota errors
-  }
-}
-
-/** Load messages for a specific session */
-function loadSessionMessages(sessionId: string): Message[] {
-  try {
-    const raw = localStorage.getItem(SESSION_PREFIX + sessionId)
-    if (!raw) return []
-    const parsed = JSON.parse(raw)
-    return Array.isArray(parsed) ? parsed : []
-  } catch {
-    return []
-  }
-}
-
-/** Save messages for a specific session */
-function saveSessionMessages(sessionId: string, messages: Message[]) {
-  try {
-    const toSave = messages.slice(-MAX_MESSAGES_PER_SESSION)
-    localStorage.setItem(SESSION_PREFIX + sessionId, JSON.stringify(toSave))
-  } catch {
-    // ignore quota errors
-  }
-}
-
-/** Delete a session's messages from storage */
-function deleteSessionStorage(sessionId: string) {
-  try {
-    localStorage.removeItem(SESSION_PREFIX + sessionId)
-  } catch {
-    // ignore
-  }
-}
-
-/** Generate a unique session ID */
-function generateSessionId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
-}
-
-/** Derive a title from the first user message */
-function deriveTitle(messages: Message[]): string {
-  const firstUserMsg = messages.find((m) => m.role === "user")
-  if (!firstUserMsg) return "New conversation"
-  const text = firstUserMsg.content.trim()
-  return text.length > 60 ? text.slice(0, 57) + "..." : text
-}
-
-// ============================================================================
-// Migrate legacy single-conversation cache to session system
-// ============================================================================
-
-const LEGACY_CACHE_KEY = "pcbrief_ask_cache"
-
-function migrateLegacyCache(): string | null {
-  try {
-    const legacy = localStorage.getItem(LEGACY_CACHE_KEY)
-    if (!legacy) return null
-
-    const messages = JSON.parse(legacy) as Message[]
-    if (!Array.isArray(messages) || messages.length === 0) {
-      localStorage.removeItem(LEGACY_CACHE_KEY)
-      return null
-    }
-
-    // Create a session from legacy messages
-    const sessionId = generateSessionId()
-    const now = Date.now()
-    const session: ChatSession = {
-      id: sessionId,
-      title: deriveTitle(messages),
-      createdAt: now,
-      updatedAt: now,
-      messageCount: messages.length,
-    }
-
-    saveSessionMessages(sessionId, messages)
-    saveSessionIndex([session])
-    localStorage.removeItem(LEGACY_CACHE_KEY)
-    return sessionId
-  } catch {
-    localStorage.removeItem(LEGACY_CACHE_KEY)
-    return null
-  }
-}
-
 // Cloud Functions base URL
 const FUNCTIONS_BASE_URL =
   import.meta.env.DEV && import.meta.env.VITE_FIREBASE_USE_EMULATOR === "true"
@@ -224,8 +117,6 @@ const STREAMING_ENDPOINT = `${FUNCTIONS_BASE_URL}/answerQuestionRagStream`
 const RAG_ENDPOINT = `${FUNCTIONS_BASE_URL}/answerQuestionRag`
 
 // Types matching backend RAG response
-type RagScope = "today" | "7d" | "30d"
-
 interface RagCitation {
   articleId: string
   title: string
@@ -249,38 +140,122 @@ interface Message {
   citations?: RagCitation[]
   takeaways?: string[]
   error?: boolean
+  /** Answer the server is still writing to the thread */
+  streaming?: boolean
+}
+
+/** New threads: last 7 days, my sources, all categories */
+const DEFAULT_THREAD_FILTERS: ChatThreadScope = {
+  scope: "7d",
+  sourceFilter: "selected",
+  category: "all",
+}
+
+/** A thread's scope and filters */
+function threadScope(thread: ChatThread): ChatThreadScope {
+  return {
+    scope: thread.scope,
+    sourceFilter: thread.sourceFilter,
+    category: thread.category,
+    dateFrom: thread.dateFrom,
+    dateTo: thread.dateTo,
+    sourceIds: thread.sourceIds,
+    topics: thread.topics,
+    bookmarksOnly: thread.bookmarksOnly,
+  }
+}
+
+/** Thread message as shown in the transcript */
+function toMessage(message: ThreadMessage): Message {
+  const streaming = isAnswerStreaming(message)
+  const unfinished = message.status === "error" || (message.status === "streaming" && !streaming)
+  const failed = unfinished && !message.content
+  return {
+    id: message.id,
+    role: message.role,
+    content: failed ? "I couldn\u2019t finish this answer. Please ask again." : message.content,
+    citations: message.citations,
+    takeaways: message.takeaways,
+    error: failed,
+    streaming,
+  }
 }
 
-type SourceFilterMode = "my-sources" | "all-sources"
+/** Thread title from its first question */
+function threadTitle(question: string): string {
+  return question.length > 60 ? question.slice(0, 57) + "..." : question
+}
 
 // ============================================================================
 // Main Component
 // ============================================================================
 
 export function AskPage() {
-  const { isAuthenticated } = useAuth()
+  const { user, isAuthenticated } = useAuth()
   const { data: userPrefs } = useUserPreferences()
+  const { data: sources = [] } = useSources()
+  const { watchlistTopics } = useWatchlist()
+  const queryClient = useQueryClient()
 
   // AI data consent
   const [showConsentDialog, setShowConsentDialog] = useState(false)
   const [consentAccepted, setConsentAccepted] = useState(() => hasAiConsent())
 
-  // Session management
-  const [sessions, setSessions] = useState<ChatSession[]>([])
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  // Thread management
+  const { data: threads = [], isSuccess: threadsLoaded } = useChatThreads()
+  const createThread = useCreateThread()
+  const updateThreadScope = useUpdateThreadScope()
+  const deleteThread = useDeleteThread()
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
   const [historyOpen, setHistoryOpen] = useState(false)
   const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null)
-
-  // Chat state
-  const [messages, setMessages] = useState<Message[]>([])
+  const restoredThreadRef = useRef(false)
+  const activeThreadIdRef = useRef(activeThreadId)
+
+  // Chat state: the thread's saved messages, up to `savedCount` of them while
+  // an exchange is in flight, followed by messages not (yet) in the thread
+  const { data: threadMessages } = useChatMessages(activeThreadId)
+  const [localMessages, setLocalMessages] = useState<Message[]>([])
+  const [savedCount, setSavedCount] = useState<number | null>(null)
   const [inputValue, setInputValue] = useState("")
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
-  // Scope & source filter state (defaults: 7 days, my sources)
-  const [scope] = useState<RagScope>("7d")
-  const [sourceFilterMode] = useState<SourceFilterMode>("my-sources")
+  const savedMessages = useMemo(() => (threadMessages ?? []).map(toMessage), [threadMessages])
+  const messages = useMemo(
+    () => [...(savedCount === null ? savedMessages : savedMessages.slice(0, savedCount)), ...localMessages],
+    [savedMessages, savedCount, localMessages]
+  )
+
+  // Scope & source filters of the active thread (new threads use the defaults)
+  const [threadFilters, setThreadFilters] = useState<ChatThreadScope>(DEFAULT_THREAD_FILTERS)
+  const { scope } = threadFilters
+  const sourceFilterMode =
+    threadFilters.sourceFilter === "selected"
+      ? "my-sources"
+      : threadFilters.sourceFilter === "custom"
+        ? "custom-sources"
+        : "all-sources"
+
+  // Scope fields sent with each question
+  const scopeRequest = useMemo(() => {
+    const sourceIds =
+      threadFilters.sourceFilter === "selected"
+        ? userPrefs?.enabledSourceIds ?? []
+        : threadFilters.sourceFilter === "custom"
+          ? threadFilters.sourceIds ?? []
+          : []
+    return {
+      scope,
+      dateFrom: scope === "custom" ? threadFilters.dateFrom ?? null : null,
+      dateTo: scope === "custom" ? threadFilters.dateTo ?? null : null,
+      category: threadFilters.category,
+      sourceIds: sourceIds.length > 0 ? sourceIds : null,
+      topics: threadFilters.topics?.length ? threadFilters.topics : null,
+      bookmarksOnly: !!threadFilters.bookmarksOnly,
+    }
+  }, [scope, threadFilters, userPrefs?.enabledSourceIds])
 
   // Article detail sheet state
   const [selectedArticleId, setSelectedArticleId] = useState<string | null>(null)
@@ -293,108 +268,94 @@ export function AskPage() {
   const [isStreaming, setIsStreaming] = useState(false)
   const abortControllerRef = useRef<AbortController | null>(null)
 
-  // ── Initialize: migrate legacy cache + load sessions ──
-  useEffect(() => {
-    const migratedId = migrateLegacyCache()
-    const loadedSessions = loadSessionIndex()
-    setSessions(loadedSessions)
-
-    if (migratedId) {
-      // Open the migrated session
-      setActiveSessionId(migratedId)
-      setMessages(loadSessionMessages(migratedId))
-    } else if (loadedSessions.length > 0) {
-      // Open the most recent session
-      const mostRecent = loadedSessions[0]
-      setActiveSessionId(mostRecent.id)
-      setMessages(loadSessionMessages(mostRecent.id))
-    }
-    // If no sessions, stay in empty/new chat state
-  }, [])
-
-  // ── Persist messages to session storage when they change ──
   useEffect(() => {
-    if (!activeSessionId || messages.length === 0) return
-
-    saveSessionMessages(activeSessionId, messages)
-
-    // Update session index (title, updatedAt, messageCount)
-    setSessions((prev) => {
-      const updated = prev.map((s) =>
-        s.id === activeSessionId
-          ? {
-              ...s,
-              title: deriveTitle(messages),
-              updatedAt: Date.now(),
-              messageCount: messages.length,
-            }
-          : s
-      )
-      saveSessionIndex(updated)
-      return updated
-    })
-  }, [messages, activeSessionId])
-
-  // ── New Chat ──
-  const handleNewChat = useCallback(() => {
-    // If current session is empty, just stay
-    if (messages.length === 0 && activeSessionId) return
+    activeThreadIdRef.current = activeThreadId
+  }, [activeThreadId])
 
-    // Abort any in-flight stream
+  /** Show a thread (null for a new chat) with nothing in flight */
+  const showThread = useCallback((thread: ChatThread | null) => {
+    // Abort any in-flight stream (the server keeps writing it to its thread)
     abortControllerRef.current?.abort()
     abortControllerRef.current = null
     setIsStreaming(false)
 
-    setMessages([])
-    setActiveSessionId(null)
+    setActiveThreadId(thread?.id ?? null)
+    setThreadFilters(thread ? threadScope(thread) : DEFAULT_THREAD_FILTERS)
+    setLocalMessages([])
+    setSavedCount(null)
     setInputValue("")
     setPendingRetry(null)
     setConfirmingDelete(null)
+  }, [])
+
+  // ── Initialize: open the most recent thread ──
+  useEffect(() => {
+    if (!threadsLoaded || restoredThreadRef.current) return
+    restoredThreadRef.current = true
+    if (threads.length > 0 && !activeThreadId) {
+      showThread(threads[0])
+    }
+    // If no threads, stay in empty/new chat state
+  }, [threadsLoaded, threads, activeThreadId, showThread])
+
+  // ── New Chat ──
+  const handleNewChat = useCallback(() => {
+    // If current chat is empty, just stay
+    if (messages.length === 0 && !activeThreadId) return
+
+    showThread(null)
 
     // Focus the input
     setTimeout(() => inputRef.current?.focus(), 100)
 
     trackEvent("chat_new")
-  }, [messages.length, activeSessionId])
-
-  // ── Open a session from history ──
-  const handleOpenSession = useCallback((sessionId: string) => {
-    // Abort any in-flight stream
-    abortControllerRef.current?.abort()
-    abortControllerRef.current = null
-    setIsStreaming(false)
+  }, [messages.length, activeThreadId, showThread])
 
-    const sessionMessages = loadSessionMessages(sessionId)
-    setActiveSessionId(sessionId)
-    setMessages(sessionMessages)
-    setInputValue("")
-    setPendingRetry(null)
+  // ── Open a thread from history ──
+  const handleOpenThread = useCallback((thread: ChatThread) => {
+    showThread(thread)
     setHistoryOpen(false)
-    setConfirmingDelete(null)
 
     trackEvent("chat_history_opened")
-  }, [])
+  }, [showThread])
+
+  // ── Change the scope (saved on the active thread) ──
+  const handleScopeChange = useCallback((next: ChatThreadScope) => {
+    setThreadFilters(next)
+    if (activeThreadId && user) {
+      updateThreadScope.mutate(
+        { threadId: activeThreadId, scope: next },
+        {
+          onError: () => {
+            toast.error("Couldn\u2019t save search scope", {
+              description: "It applies to this session only.",
+            })
+          },
+        }
+      )
+    }
 
-  // ── Delete a session ──
-  const handleDeleteSession = useCallback((sessionId: string) => {
-    deleteSessionStorage(sessionId)
-    setSessions((prev) => {
-      const updated = prev.filter((s) => s.id !== sessionId)
-      saveSessionIndex(updated)
-      return updated
+    trackEvent("ask_scope_changed", { scope: next.scope, source_filter: next.sourceFilter })
+  }, [activeThreadId, user, updateThreadScope])
+
+  // ── Delete a thread ──
+  const handleDeleteThread = useCallback((threadId: string) => {
+    deleteThread.mutate(threadId, {
+      onError: () => {
+        toast.error("Couldn\u2019t delete conversation", {
+          description: "Please try again in a moment.",
+        })
+      },
     })
 
-    // If the deleted session is the active one, reset to empty
-    if (sessionId === activeSessionId) {
-      setMessages([])
-      setActiveSessionId(null)
-      setInputValue("")
-      setPendingRetry(null)
+    // If the deleted thread is the active one, reset to empty
+    if (threadId === activeThreadId) {
+      showThread(null)
     }
 
     setConfirmingDelete(null)
     trackEvent("chat_deleted")
-  }, [activeSessionId])
+  }, [activeThreadId, deleteThread, showThread])
 
   // Fetch article for detail sheet
   const { data: selectedArticle } = useQuery({
@@ -413,21 +374,15 @@ export function AskPage() {
     mutationFn: async ({
       question,
       history,
+      threadId,
     }: {
       question: string
       history: { role: "user" | "assistant"; content: string }[]
+      threadId: string | null
     }): Promise<RagAnswerResponse> => {
       // Get auth token (will attempt anonymous sign-in if needed)
       const token = await ensureAuthToken()
 
-      // Determine source IDs
-      const sourceIds =
-        sourceFilterMode === "my-sources" &&
-        userPrefs?.enabledSourceIds &&
-        userPrefs.enabledSourceIds.length > 0
-          ? userPrefs.enabledSourceIds
-          : null
-
       // Build headers - only include Authorization if we have a token
       const headers: Record<string, string> = {
         "Content-Type": "application/json",
@@ -442,10 +397,9 @@ export function AskPage() {
         body: JSON.stringify({
           data: {
             question,
-            scope,
-            category: "all",
-            sourceIds,
+            ...scopeRequest,
             history,
+            threadId,
           },
         }),
       })
@@ -479,19 +433,12 @@ export function AskPage() {
     async (
       question: string,
       history: { role: "user" | "assistant"; content: string }[],
-      assistantMessageId: string
+      assistantMessageId: string,
+      threadId: string | null
     ): Promise<boolean> => {
       // Get auth token (will attempt anonymous sign-in if needed)
       const token = await ensureAuthToken()
 
-      // Determine source IDs
-      const sourceIds =
-        sourceFilterMode === "my-sources" &&
-        userPrefs?.enabledSourceIds &&
-        userPrefs.enabledSourceIds.length > 0
-          ? userPrefs.enabledSourceIds
-          : null
-
       // Create abort controller for cleanup
       const abortController = new AbortController()
       abortControllerRef.current = abortController
@@ -509,10 +456,9 @@ export function AskPage() {
         headers,
         body: JSON.stringify({
           question,
-          scope,
-          category: "all",
-          sourceIds,
+          ...scopeRequest,
           history,
+          threadId,
         }),
         signal: abortController.signal,
       })
@@ -531,7 +477,16 @@ export function AskPage() {
       let buffer = ""
 
       for (;;) {
-        const { done, value } = await reader.read()
+        let chunk: ReadableStreamReadResult<Uint8Array>
+        try {
+          chunk = await reader.read()
+        } catch (readError) {
+          // Connection dropped mid-answer (e.g. app backgrounded). A thread
+          // keeps receiving the answer server-side, so don't ask again.
+          if (threadId) return false
+          throw readError
+        }
+        const { done, value } = chunk
         if (done) break
 
         buffer += decoder.decode(value, { stream: true })
@@ -553,7 +508,7 @@ export function AskPage() {
               // Check if this is the done event payload
               if (data.citations !== undefined) {
                 // Final done event with metadata
-                setMessages((prev) =>
+                setLocalMessages((prev) =>
                   prev.map((msg) =>
                     msg.id === assistantMessageId
                       ? {
@@ -567,7 +522,7 @@ export function AskPage() {
                 )
               } else if (data.text !== undefined) {
                 // Streaming text chunk
-                setMessages((prev) =>
+                setLocalMessages((prev) =>
                   prev.map((msg) =>
                     msg.id === assistantMessageId
                       ? { ...msg, content: msg.content + data.text }
@@ -584,7 +539,7 @@ export function AskPage() {
 
       return true
     },
-    [scope, sourceFilterMode, userPrefs]
+    [scopeRequest]
   )
 
   // Fallback to non-streaming mutation
@@ -592,11 +547,12 @@ export function AskPage() {
     async (
       question: string,
       history: { role: "user" | "assistant"; content: string }[],
-      assistantMessageId: string
+      assistantMessageId: string,
+      threadId: string | null
     ) => {
-      const response = await ragMutation.mutateAsync({ question, history })
+      const response = await ragMutation.mutateAsync({ question, history, threadId })
 
-      setMessages((prev) =>
+      setLocalMessages((prev) =>
         prev.map((msg) =>
           msg.id === assistantMessageId
             ? {
@@ -617,6 +573,7 @@ export function AskPage() {
     async (overrideQuestion?: string) => {
       const question = overrideQuestion ?? inputValue.trim()
       if (!question || isStreaming || ragMutation.isPending) return
+      if (messages.some((m) => m.streaming)) return
 
       if (!isAuthenticated) {
         toast.error("Sign in to ask questions")
@@ -629,26 +586,6 @@ export function AskPage() {
         return
       }
 
-      // ── Ensure we have an active session ──
-      let currentSessionId = activeSessionId
-      if (!currentSessionId) {
-        currentSessionId = generateSessionId()
-        const now = Date.now()
-        const newSession: ChatSession = {
-          id: currentSessionId,
-          title: question.length > 60 ? question.slice(0, 57) + "..." : question,
-          createdAt: now,
-          updatedAt: now,
-          messageCount: 0,
-        }
-        setActiveSessionId(currentSessionId)
-        setSessions((prev) => {
-          const updated = [newSession, ...prev].slice(0, MAX_SESSIONS)
-          saveSessionIndex(updated)
-          return updated
-        })
-      }
-
       // Create user message
       const userMessage: Message = {
         id: Date.now().toString(),
@@ -664,7 +601,15 @@ export function AskPage() {
         content: "",
       }
 
-      setMessages((prev) => [...prev, userMessage, assistantMessage])
+      // Build history from last 8 messages
+      const history = messages
+        .slice(-8)
+        .map((m) => ({ role: m.role, content: m.content }))
+
+      // Hold the transcript at what the thread has saved so far; the server
+      // writes this exchange to the thread while we show it locally
+      setSavedCount((prev) => prev ?? savedMessages.length)
+      setLocalMessages((prev) => [...prev, userMessage, assistantMessage])
       if (!overrideQuestion) setInputValue("")
       setPendingRetry(null)
       setIsStreaming(true)
@@ -673,19 +618,39 @@ export function AskPage() {
       const startTime = Date.now()
       trackEvent("ask_sent", { scope, source_filter: sourceFilterMode })
 
-      // Build history from last 8 messages
-      const history = messages
-        .slice(-8)
-        .map((m) => ({ role: m.role, content: m.content }))
+      // ── Ensure we have a thread (signed-in users; local guests chat unsaved) ──
+      let threadId = activeThreadId
+      if (!threadId && user) {
+        try {
+          threadId = await createThread.mutateAsync({ title: threadTitle(question), ...threadFilters })
+          setActiveThreadId(threadId)
+          setSavedCount(0)
+        } catch (error) {
+          console.warn("Couldn't create chat thread:", error instanceof Error ? error.message : error)
+        }
+      }
+
+      // Once the thread has the exchange, show the saved copy
+      const showSavedExchange = async () => {
+        if (!threadId) return
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ["chatMessages", threadId] }),
+          queryClient.invalidateQueries({ queryKey: ["chatThreads", user?.uid] }),
+        ])
+        // Unless the user has since moved to another chat
+        if (activeThreadIdRef.current !== threadId) return
+        setLocalMessages([])
+        setSavedCount(null)
+      }
 
       try {
         // Try streaming first
-        const success = await streamResponse(question, history, assistantMessageId)
+        const success = await streamResponse(question, history, assistantMessageId, threadId)
 
         // Track ask_answered on success
         if (success) {
           // Get the final message to check citations
-          setMessages((prev) => {
+          setLocalMessages((prev) => {
             const finalMsg = prev.find((m) => m.id === assistantMessageId)
             const citationCount = finalMsg?.citations?.length || 0
             trackEvent("ask_answered", {
@@ -702,25 +667,30 @@ export function AskPage() {
             return prev
           })
         }
+        await showSavedExchange()
       } catch (streamError) {
+        // Switched chats before the answer started; nothing to show
+        if (streamError instanceof DOMException && streamError.name === "AbortError") return
+
         const streamErrMsg = streamError instanceof Error ? streamError.message : String(streamError)
         console.warn("Streaming failed, falling back to non-streaming:", streamErrMsg)
 
         // Reset the assistant message for fallback
-        setMessages((prev) =>
+        setLocalMessages((prev) =>
           prev.map((msg) =>
             msg.id === assistantMessageId ? { ...msg, content: "" } : msg
           )
         )
 
         try {
-          await fallbackToNonStreaming(question, history, assistantMessageId)
+          await fallbackToNonStreaming(question, history, assistantMessageId, threadId)
+          await showSavedExchange()
         } catch (fallbackError) {
           const fallbackErrMsg = fallbackError instanceof Error ? fallbackError.message : String(fallbackError)
           console.error("RAG error:", fallbackErrMsg)
 
           // Update the assistant message to show error
-          setMessages((prev) =>
+          setLocalMessages((prev) =>
             prev.map((msg) =>
               msg.id === assistantMessageId
                 ? {
@@ -744,10 +714,15 @@ export function AskPage() {
     [
       inputValue,
       messages,
+      savedMessages.length,
       ragMutation,
       isAuthenticated,
       isStreaming,
-      activeSessionId,
+      user,
+      activeThreadId,
+      threadFilters,
+      createThread,
+      queryClient,
       streamResponse,
       fallbackToNonStreaming,
       scope,
@@ -766,8 +741,8 @@ export function AskPage() {
   // Handle retry
   const handleRetry = useCallback(() => {
     if (pendingRetry) {
-      // Remove the error message
-      setMessages((prev) => prev.slice(0, -1))
+      // Remove the failed exchange; handleSend asks again
+      setLocalMessages((prev) => prev.slice(0, -2))
       handleSend(pendingRetry)
     }
   }, [pendingRetry, handleSend])
@@ -799,12 +774,14 @@ export function AskPage() {
   }
 
   const isEmpty = messages.length === 0
-  const isLoading = ragMutation.isPending || isStreaming
-
-  // Sessions excluding the currently active one (for history list)
-  const historySessions = useMemo(
-    () => sessions.filter((s) => s.id !== activeSessionId || messages.length === 0),
-    [sessions, activeSessionId, messages.length]
+  // A saved answer still being written (e.g. after the app was backgrounded)
+  // holds the composer so the next question sees the full answer
+  const isLoading = ragMutation.isPending || isStreaming || messages.some((m) => m.streaming)
+
+  // Threads excluding the currently active one (for history list)
+  const historyThreads = useMemo(
+    () => threads.filter((t) => t.id !== activeThreadId || messages.length === 0),
+    [threads, activeThreadId, messages.length]
   )
 
   return (
@@ -830,6 +807,15 @@ export function AskPage() {
           <span>History</span>
         </button>
 
+        <AskScopeSheet
+          value={threadFilters}
+          onChange={handleScopeChange}
+          sources={sources}
+          topics={watchlistTopics}
+          canSearchBookmarks={!!user}
+          disabled={isLoading}
+        />
+
         <button
           onClick={handleNewChat}
           aria-label="New chat"
@@ -850,7 +836,7 @@ export function AskPage() {
       {historyOpen && (
         <div className="shrink-0 border-b border-[var(--color-separator-light)] bg-[var(--color-surface-secondary)] overflow-hidden">
           <div className="max-h-[300px] overflow-y-auto overscroll-contain">
-            {historySessions.length === 0 ? (
+            {historyThreads.length === 0 ? (
               <div className="px-[20px] py-[24px] text-center">
                 <p className="text-[13px] text-[var(--color-text-quaternary)]">
                   No past conversations
@@ -858,36 +844,40 @@ export function AskPage() {
               </div>
             ) : (
               <div className="py-[4px]">
-                {historySessions.map((session, idx) => (
-                  <div key={session.id} className="relative group">
+                {historyThreads.map((thread, idx) => (
+                  <div key={thread.id} className="relative group">
                     <button
-                      onClick={() => handleOpenSession(session.id)}
+                      onClick={() => handleOpenThread(thread)}
                       className={cn(
                         "w-full text-left px-[16px] py-[11px] pr-[48px] flex items-center",
                         "transition-colors duration-100",
                         "-webkit-tap-highlight-color-transparent",
-                        session.id === activeSessionId
+                        thread.id === activeThreadId
                           ? "bg-[var(--color-fill-quaternary)]"
                           : "active:bg-[var(--color-fill-quaternary)]",
                       )}
                     >
                       <div className="flex-1 min-w-0">
                         <p className="text-[14px] font-medium text-[var(--color-text-primary)] leading-[1.3] truncate tracking-[-0.1px]">
-                          {session.title}
+                          {thread.title}
                         </p>
                         <p className="text-[12px] text-[var(--color-text-quaternary)] mt-[3px] tracking-[-0.02em]">
-                          {formatRelativeDate(session.updatedAt)}
-                          <span className="mx-[4px] opacity-40">&middot;</span>
-                          {Math.ceil(session.messageCount / 2)} {Math.ceil(session.messageCount / 2) === 1 ? "exchange" : "exchanges"}
+                          {formatRelativeDate(thread.updatedAt.toMillis())}
+                          {thread.messageCount !== undefined && (
+                            <>
+                              <span className="mx-[4px] opacity-40">&middot;</span>
+                              {Math.ceil(thread.messageCount / 2)} {Math.ceil(thread.messageCount / 2) === 1 ? "exchange" : "exchanges"}
+                            </>
+                          )}
                         </p>
                       </div>
                     </button>
 
                     {/* Delete */}
-                    {confirmingDelete === session.id ? (
+                    {confirmingDelete === thread.id ? (
                       <div className="absolute right-[10px] top-1/2 -translate-y-1/2 flex items-center gap-[4px]">
                         <button
-                          onClick={() => handleDeleteSession(session.id)}
+                          onClick={() => handleDeleteThread(thread.id)}
                           aria-label="Confirm delete"
                           className="h-[28px] px-[10px] rounded-[7px] bg-[var(--color-destructive)] text-white text-[12px] font-medium transition-all active:scale-[0.95]"
                         >
@@ -905,9 +895,9 @@ export function AskPage() {
                       <button
                         onClick={(e) => {
                           e.stopPropagation()
-                          setConfirmingDelete(session.id)
+                          setConfirmingDelete(thread.id)
                         }}
-                        aria-label={`Delete conversation: ${session.title}`}
+                        aria-label={`Delete conversation: ${thread.title}`}
                         className={cn(
                           "absolute right-[10px] top-1/2 -translate-y-1/2",
                           "flex items-center justify-center h-[36px] w-[36px] rounded-[8px]",
@@ -923,7 +913,7 @@ export function AskPage() {
                     )}
 
                     {/* Inset separator */}
-                    {idx < historySessions.length - 1 && (
+                    {idx < historyThreads.length - 1 && (
                       <div className="absolute bottom-0 left-[16px] right-[16px] h-[0.5px] bg-[var(--color-separator-light)]" />
                     )}
                   </div>
@@ -953,12 +943,12 @@ export function AskPage() {
                   message={message}
                   onCitationClick={handleCitationClick}
                   onRetry={message.error ? handleRetry : undefined}
-                  isStreaming={isStreamingMessage}
+                  isStreaming={isStreamingMessage || message.streaming}
                 />
               )
             })}
             {/* Typing indicator for non-streaming loading (fallback mode) */}
-            {isLoading && !isStreaming && <TypingIndicator />}
+            {ragMutation.isPending && !isStreaming && <TypingIndicator />}
             <div ref={messagesEndRef} className="h-[1px]" />
           </div>
         )}
@@ -0,0 +1,109 @@
+/**
+ * Bookmarks - the user's saved articles, newest first
+ *
+ * Tapping a row opens the article; the share menu exports the whole list
+ * as Markdown, HTML or PDF.
+ */
+
+import { Bookmark as BookmarkIcon } from "lucide-react"
+import { useBookmarks } from "@/lib/hooks"
+import { useAuth } from "@/lib/auth-context"
+import { openUrl } from "@/lib/browser"
+import { ExportMenu } from "@/components/brief"
+import {
+  Card,
+  EmptyState,
+  ErrorState,
+  ListRow,
+  ListRowContent,
+  ListRowDescription,
+  ListRowLabel,
+  Separator,
+  Skeleton,
+} from "@/components/ui"
+import type { Bookmark } from "@/types/firestore"
+
+function formatSavedDate(bookmark: Bookmark): string {
+  const date = bookmark.bookmarkedAt?.toDate?.()
+  return date ? date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : ""
+}
+
+/** Loading placeholder for the list */
+function BookmarkListSkeleton() {
+  return (
+    <Card variant="grouped">
+      {Array.from({ length: 5 }).map((_, index) => (
+        <div key={index} className="space-y-[6px] px-[16px] py-[12px]">
+          <Skeleton className="h-[17px] w-[85%]" />
+          <Skeleton className="h-[14px] w-[40%]" />
+        </div>
+      ))}
+    </Card>
+  )
+}
+
+export function BookmarksPage() {
+  const { user } = useAuth()
+  const bookmarks = useBookmarks()
+  const items = bookmarks.data ?? []
+
+  if (!user) {
+    return (
+      <EmptyState
+        icon={BookmarkIcon}
+        title="Sign in to see bookmarks"
+        description="Bookmarks are saved to your account."
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-[16px]">
+      <header className="-mt-[4px] flex items-center justify-between gap-[12px]">
+        <p className="min-w-0 truncate text-[15px] font-normal tracking-[-0.2px] text-[var(--color-text-secondary)]">
+          {items.length === 1 ? "1 saved article" : `${items.length} saved articles`}
+        </p>
+        {items.length > 0 && <ExportMenu target={{ source: "bookmarks" }} label="Export bookmarks" />}
+      </header>
+
+      {bookmarks.isLoading ? (
+        <BookmarkListSkeleton />
+      ) : bookmarks.error ? (
+        <ErrorState
+          title="Unable to load bookmarks"
+          description={"We couldn\u2019t fetch your bookmarks. Please try again."}
+          onRetry={() => bookmarks.refetch()}
+        />
+      ) : items.length === 0 ? (
+        <EmptyState
+          icon={BookmarkIcon}
+          title="No bookmarks yet"
+          description={"Articles you bookmark appear here."}
+        />
+      ) : (
+        <Card variant="grouped">
+          {items.map((bookmark, index) => (
+            <div key={bookmark.articleId}>
+              {index > 0 && <Separator variant="inset" />}
+              <ListRow
+                interactive
+                onClick={() => openUrl(bookmark.url)}
+                aria-label={`${bookmark.title}, from ${bookmark.sourceName}`}
+              >
+                <ListRowContent>
+                  <ListRowLabel className="line-clamp-2 text-[15px] font-semibold tracking-[-0.2px]">
+                    {bookmark.title}
+                  </ListRowLabel>
+                  <ListRowDescription>
+                    {bookmark.sourceName}
+                    {formatSavedDate(bookmark) && ` \u00b7 Saved ${formatSavedDate(bookmark)}`}
+                  </ListRowDescription>
+                </ListRowContent>
+              </ListRow>
+            </div>
+          ))}
+        </Card>
+      )}
+    </div>
+  )
+}
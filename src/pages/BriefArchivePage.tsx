@@ -0,0 +1,348 @@
+/**
+ * Brief Archive - past daily briefs by date
+ *
+ * /brief       List of brief dates (grouped by month) with a headline
+ *              preview, plus a date picker to jump to any day
+ * /brief/:date One day's brief with previous/next brief navigation and
+ *              the export menu. Notification taps and brief emails
+ *              deep-link here.
+ */
+
+import { useState } from "react"
+import { useNavigate, useParams } from "react-router-dom"
+import { CalendarDays, ChevronLeft, ChevronRight, Newspaper } from "lucide-react"
+import { useBriefArchive, useArchivedBrief, type BriefArchiveEntry } from "@/lib/hooks/use-brief-archive"
+import type { TopStoryWithArticle } from "@/lib/hooks/use-today-brief"
+import {
+  TodayScreenSkeleton,
+  ExecutiveSummaryCard,
+  ExportMenu,
+  TopStoriesCarousel,
+  BriefSections,
+  ArticleSheet,
+} from "@/components/brief"
+import {
+  Button,
+  Card,
+  EmptyState,
+  ErrorState,
+  ListRow,
+  ListRowContent,
+  ListRowDescription,
+  ListRowLabel,
+  SectionLabel,
+  Separator,
+  Skeleton,
+} from "@/components/ui"
+
+function parseDateKey(dateKey: string): Date | null {
+  const date = new Date(dateKey + "T12:00:00")
+  return isNaN(date.getTime()) ? null : date
+}
+
+function formatLongDate(dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  if (!date) return dateKey
+  return date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" })
+}
+
+function formatShortDate(dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  if (!date) return dateKey
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" })
+}
+
+function formatListDate(dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  if (!date) return dateKey
+  return date.toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })
+}
+
+function formatMonth(dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  if (!date) return dateKey.slice(0, 7)
+  return date.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+}
+
+/** Today as yyyy-mm-dd in the device's timezone (date picker upper bound) */
+function todayKey(): string {
+  return new Date().toLocaleDateString("en-CA")
+}
+
+/** Consecutive entries grouped by calendar month (entries are newest first) */
+function groupByMonth(entries: BriefArchiveEntry[]): { month: string; entries: BriefArchiveEntry[] }[] {
+  const groups: { month: string; entries: BriefArchiveEntry[] }[] = []
+  for (const entry of entries) {
+    const month = formatMonth(entry.date)
+    const last = groups[groups.length - 1]
+    if (last && last.month === month) {
+      last.entries.push(entry)
+    } else {
+      groups.push({ month, entries: [entry] })
+    }
+  }
+  return groups
+}
+
+/** Loading placeholder for the date list */
+function ArchiveListSkeleton() {
+  return (
+    <Card variant="grouped">
+      {Array.from({ length: 6 }).map((_, index) => (
+        <div key={index} className="space-y-[6px] px-[16px] py-[12px]">
+          <Skeleton className="h-[17px] w-[40%]" />
+          <Skeleton className="h-[14px] w-[85%]" />
+        </div>
+      ))}
+    </Card>
+  )
+}
+
+export function BriefArchivePage() {
+  const navigate = useNavigate()
+  const archive = useBriefArchive()
+  const [pickedDate, setPickedDate] = useState("")
+
+  const entries = archive.data?.pages.flatMap((page) => page.briefs) ?? []
+  const groups = groupByMonth(entries)
+
+  const handlePickDate = (value: string) => {
+    setPickedDate(value)
+    if (value) navigate(`/brief/${value}`)
+  }
+
+  return (
+    <div className="space-y-[24px]">
+      {/* Jump to a date */}
+      <header className="-mt-[4px] flex items-center justify-between gap-[12px]">
+        <p className="min-w-0 truncate text-[15px] font-normal tracking-[-0.2px] text-[var(--color-text-secondary)]">
+          Every daily brief, by date
+        </p>
+        <label className="flex shrink-0 items-center gap-[6px] rounded-full bg-[var(--color-fill-quaternary)] px-[11px] py-[5px] text-[13px] font-medium tracking-[-0.08px] text-[var(--color-text-secondary)]">
+          <CalendarDays className="h-[14px] w-[14px]" strokeWidth={1.8} />
+          <input
+            type="date"
+            value={pickedDate}
+            max={todayKey()}
+            onChange={(e) => handlePickDate(e.target.value)}
+            aria-label="Go to date"
+            className="bg-transparent text-[13px] text-[var(--color-text-secondary)] outline-none"
+          />
+        </label>
+      </header>
+
+      {archive.isLoading ? (
+        <ArchiveListSkeleton />
+      ) : archive.error ? (
+        <ErrorState
+          title="Unable to load past briefs"
+          description={"We couldn\u2019t fetch the brief archive. Please try again."}
+          onRetry={() => archive.refetch()}
+        />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon={Newspaper}
+          title="No past briefs yet"
+          description={"Daily briefs appear here once they\u2019re published."}
+        />
+      ) : (
+        <>
+          {groups.map((group) => (
+            <section key={group.month} className="space-y-[7px]">
+              <SectionLabel inset>{group.month}</SectionLabel>
+              <Card variant="grouped">
+                {group.entries.map((entry, index) => (
+                  <div key={entry.date}>
+                    {index > 0 && <Separator variant="inset" />}
+                    <ListRow
+                      interactive
+                      hasChevron
+                      onClick={() => navigate(`/brief/${entry.date}`)}
+                      aria-label={`Open brief for ${formatLongDate(entry.date)}`}
+                    >
+                      <ListRowContent>
+                        <ListRowLabel className="text-[15px] font-semibold tracking-[-0.2px]">
+                          {formatListDate(entry.date)}
+                        </ListRowLabel>
+                        {entry.headline && (
+                          <ListRowDescription className="line-clamp-2">{entry.headline}</ListRowDescription>
+                        )}
+                      </ListRowContent>
+                    </ListRow>
+                  </div>
+                ))}
+              </Card>
+            </section>
+          ))}
+
+          {archive.hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => archive.fetchNextPage()}
+                disabled={archive.isFetchingNextPage}
+              >
+                {archive.isFetchingNextPage ? "Loading\u2026" : "Load older briefs"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export function ArchivedBriefPage() {
+  const navigate = useNavigate()
+  const { date } = useParams<{ date: string }>()
+  const briefQuery = useArchivedBrief(date)
+  const [selectedStory, setSelectedStory] = useState<TopStoryWithArticle | null>(null)
+  const [sheetOpen, setSheetOpen] = useState(false)
+
+  const handleSelectStory = (story: TopStoryWithArticle) => {
+    setSelectedStory(story)
+    setSheetOpen(true)
+  }
+
+  const handleTopicClick = (topic: string) => {
+    navigate(`/feed?q=${encodeURIComponent(topic)}`)
+  }
+
+  const data = briefQuery.data
+  const prevDate = data?.prevDate ?? null
+  const nextDate = data?.nextDate ?? null
+
+  // Prev / next bar (also shown when the date has no brief, so readers can step off it)
+  const dateNav = (
+    <nav className="flex items-center justify-between gap-[8px]" aria-label="Brief dates">
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!prevDate}
+        onClick={() => prevDate && navigate(`/brief/${prevDate}`)}
+        aria-label={prevDate ? `Previous brief: ${formatLongDate(prevDate)}` : "No earlier brief"}
+      >
+        <ChevronLeft strokeWidth={2.25} />
+        {prevDate ? formatShortDate(prevDate) : "Earlier"}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => navigate("/brief")}>
+        <CalendarDays strokeWidth={1.8} />
+        All dates
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!nextDate}
+        onClick={() => nextDate && navigate(`/brief/${nextDate}`)}
+        aria-label={nextDate ? `Next brief: ${formatLongDate(nextDate)}` : "No later brief"}
+      >
+        {nextDate ? formatShortDate(nextDate) : "Later"}
+        <ChevronRight strokeWidth={2.25} />
+      </Button>
+    </nav>
+  )
+
+  if (briefQuery.isLoading && !data) {
+    return <TodayScreenSkeleton />
+  }
+
+  if (briefQuery.error) {
+    return (
+      <ErrorState
+        title="Unable to load brief"
+        description={"We couldn\u2019t fetch this briefing. Please try again."}
+        onRetry={() => briefQuery.refetch()}
+      />
+    )
+  }
+
+  if (!data?.found || !data.brief) {
+    return (
+      <div className="space-y-[24px]">
+        {dateNav}
+        <EmptyState
+          icon={Newspaper}
+          title="No brief for this date"
+          description={date ? `There\u2019s no daily brief for ${formatLongDate(date)}.` : undefined}
+        />
+      </div>
+    )
+  }
+
+  const { brief, topStoriesWithArticles } = data
+  const sourcesUsed = brief.sourcesUsed ?? []
+
+  return (
+    <>
+      <div className="space-y-[24px]">
+        <header className="-mt-[4px] flex items-center justify-between gap-[12px]">
+          <p className="min-w-0 truncate text-[15px] font-normal tracking-[-0.2px] text-[var(--color-text-secondary)]">
+            {formatLongDate(brief.date)}
+          </p>
+          <ExportMenu target={{ source: "brief", date: brief.date }} label="Share brief" />
+        </header>
+
+        {dateNav}
+
+        <ExecutiveSummaryCard
+          badge="AI Daily Brief"
+          updatedLabel={formatShortDate(brief.date)}
+          bullets={brief.executiveSummary}
+        />
+
+        {topStoriesWithArticles.length > 0 && (
+          <section className="space-y-[10px]">
+            <SectionLabel>Top Stories</SectionLabel>
+            <TopStoriesCarousel
+              stories={topStoriesWithArticles}
+              onSelectStory={handleSelectStory}
+            />
+          </section>
+        )}
+
+        <section className="space-y-[10px]">
+          <SectionLabel>By Category</SectionLabel>
+          <BriefSections sections={brief.sections} />
+        </section>
+
+        {brief.topics.length > 0 && (
+          <section className="space-y-[10px]">
+            <SectionLabel>Topics Covered</SectionLabel>
+            <div className="flex flex-wrap gap-[6px]">
+              {brief.topics.map((topic, index) => (
+                <button
+                  key={index}
+                  onClick={() => handleTopicClick(topic)}
+                  className="rounded-full bg-[var(--color-fill-quaternary)] px-[11px] py-[5px] text-[13px] font-medium tracking-[-0.08px] text-[var(--color-text-secondary)] transition-all duration-[var(--duration-fast)] ease-[var(--ease-ios)] active:scale-[0.97] active:bg-[var(--color-fill-tertiary)]"
+                >
+                  {topic}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <footer className="pt-[4px] pb-[4px]">
+          <div className="h-[0.5px] bg-[var(--color-separator)] mb-[14px]" />
+          <div className="py-[4px]">
+            <p className="text-[13px] font-medium tracking-[-0.08px] text-[var(--color-text-secondary)]">
+              Compiled from {sourcesUsed.length} sources
+            </p>
+            <p className="mt-[2px] truncate text-[12px] tracking-[-0.04px] text-[var(--color-text-tertiary)]">
+              {sourcesUsed.map((s) => s.name).join(" \u00b7 ")}
+            </p>
+          </div>
+        </footer>
+
+        {dateNav}
+      </div>
+
+      <ArticleSheet
+        story={selectedStory}
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+      />
+    </>
+  )
+}
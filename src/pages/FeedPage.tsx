@@ -3,31 +3,68 @@
  *
  * Supports URL query params:
  * - ?q=<search> - Pre-fill search query (e.g., from topic links on Today page)
+ * - ?entity=<key> - Filter to one tagged entity (e.g., from entity chips in the article sheet)
+ * - ?article=<id> - Open one article in the sheet (e.g., from a breaking news notification)
+ *
+ * With a query, results come from the server search index (last 3 years,
+ * ranked by relevance and recency, matches highlighted) instead of the
+ * loaded feed, and the filters show result counts when every match was
+ * counted.
  *
  * Firestore limitations handled:
  * - Source filter limited to 10 sources (UI constraint in SourceFilter)
+ * - Category, entity and geography filters are mutually exclusive (one array
+ *   filter per query); picking one clears the others
  * - Multi-query merge for >10 sources handled in useArticles hook
+ *
+ * Users with saved "my states" start the (unsearched) feed filtered to
+ * those states; picking a geography or a category replaces the default.
  */
 
-import { useState, useMemo, useRef, useCallback } from "react"
+import { useState, useMemo, useRef, useCallback, useEffect } from "react"
 import { useSearchParams } from "react-router-dom"
-import { Inbox, Search } from "lucide-react"
-import { useArticles, useSources, type ArticleFilters, type ArticleFromApi } from "@/lib/hooks"
+import { Inbox, Search, X } from "lucide-react"
+import {
+  useArticle,
+  useArticles,
+  useArticleSearch,
+  useSources,
+  useUserPreferences,
+  type ArticleFilters,
+  type ArticleFromApi,
+  type SearchResultFromApi,
+} from "@/lib/hooks"
 import {
   CategoryChips,
   TimeWindowToggle,
   SourceFilter,
+  GeographyFilter,
   SearchBar,
   ArticleCard,
   ArticleCardSkeleton,
   ArticleDetailSheet,
 } from "@/components/feed"
-import { EmptyState, ErrorState } from "@/components/ui"
+import { Chip, EmptyState, ErrorState } from "@/components/ui"
+import { MAX_GEO_SELECTION } from "@/lib/geography"
 import type { SourceCategory } from "@/types/firestore"
 
 /** Prefetch articles when trigger is within this distance from viewport */
 const INFINITE_SCROLL_ROOT_MARGIN = 300
 
+/** Pause after typing before searching */
+const SEARCH_DEBOUNCE_MS = 300
+
+function useDebouncedValue(value: string, delayMs: number) {
+  const [debounced, setDebounced] = useState(value)
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+  return debounced
+}
+
+type FeedItem = ArticleFromApi & Partial<Pick<SearchResultFromApi, "highlights">>
+
 export function FeedPage() {
   const [searchParams, setSearchParams] = useSearchParams()
 
@@ -35,6 +72,9 @@ export function FeedPage() {
   const [category, setCategory] = useState<SourceCategory | "all">("all")
   const [timeWindow, setTimeWindow] = useState<"24h" | "7d" | "all">("7d")
   const [selectedSourceIds, setSelectedSourceIds] = useState<string[]>([])
+  // null until the user picks a geography (then the default below applies)
+  const [geoSelection, setGeoSelection] = useState<string[] | null>(null)
+  const { data: prefs } = useUserPreferences()
   // Search query — URL param is source of truth for external navigation,
   // local state provides fast typing feedback
   const urlQueryParam = searchParams.get("q") || ""
@@ -59,50 +99,115 @@ export function FeedPage() {
     }
   }, [searchParams, setSearchParams])
 
+  // Entity filter lives in the URL so sheet chips and shared links can set it.
+  // Server-side it is mutually exclusive with category.
+  const entityParam = searchParams.get("entity") || undefined
+
+  const clearEntity = useCallback(() => {
+    if (searchParams.has("entity")) {
+      searchParams.delete("entity")
+      setSearchParams(searchParams, { replace: true })
+    }
+  }, [searchParams, setSearchParams])
+
+  const handleCategoryChange = useCallback((value: SourceCategory | "all") => {
+    setCategory(value)
+    setGeoSelection([])
+    clearEntity()
+  }, [clearEntity])
+
+  const handleGeoChange = useCallback((keys: string[]) => {
+    setGeoSelection(keys)
+    if (keys.length > 0) {
+      setCategory("all")
+      clearEntity()
+    }
+  }, [clearEntity])
+
   // Article detail sheet state
   const [selectedArticle, setSelectedArticle] = useState<ArticleFromApi | null>(null)
   const [sheetOpen, setSheetOpen] = useState(false)
 
+  // An article linked by ID (notification tap) shows in the sheet until closed
+  const articleParam = searchParams.get("article") || undefined
+  const { data: linkedArticle } = useArticle(articleParam)
+
+  const handleSheetOpenChange = useCallback((open: boolean) => {
+    setSheetOpen(open)
+    if (!open && searchParams.has("article")) {
+      searchParams.delete("article")
+      setSearchParams(searchParams, { replace: true })
+    }
+  }, [searchParams, setSearchParams])
+
+  // Server-side search while a query is present
+  const debouncedQuery = useDebouncedValue(searchQuery, SEARCH_DEBOUNCE_MS)
+  const isSearching = debouncedQuery.trim().length > 0
+
+  // Browsing defaults to the user's saved states; search covers everywhere
+  // unless a geography was picked
+  const myStateKeys = useMemo(
+    () => (prefs?.myStates ?? []).slice(0, MAX_GEO_SELECTION).map((code) => `state:${code}`),
+    [prefs?.myStates]
+  )
+  const geoKeys = useMemo(
+    () => geoSelection ?? (isSearching ? [] : myStateKeys),
+    [geoSelection, isSearching, myStateKeys]
+  )
+
   // Build filters object
   const filters: ArticleFilters = useMemo(
     () => ({
-      category,
+      category: entityParam ? "all" : category,
       timeWindow,
       sourceIds: selectedSourceIds.length > 0 ? selectedSourceIds : undefined,
+      collapseClusters: true,
+      entity: entityParam,
+      geo: geoKeys.length > 0 && !entityParam ? geoKeys : undefined,
     }),
-    [category, timeWindow, selectedSourceIds]
+    [category, timeWindow, selectedSourceIds, entityParam, geoKeys]
   )
 
   // Fetch articles with infinite scroll
-  const {
-    data,
-    isLoading,
-    isFetchingNextPage,
-    hasNextPage,
-    fetchNextPage,
-    error,
-  } = useArticles(filters)
+  const feed = useArticles(filters)
+
+  const search = useArticleSearch(debouncedQuery, filters)
+
+  const { data, isLoading, isFetchingNextPage, hasNextPage, fetchNextPage, error } = isSearching ? search : feed
 
   // Fetch sources for filter
   const { data: sources = [] } = useSources()
 
-  // Flatten pages into single array
-  const articles = useMemo(() => {
+  // Flatten pages into single array (a story cluster keeps its first slot across pages)
+  const articles = useMemo((): FeedItem[] => {
     if (!data?.pages) return []
-    return data.pages.flatMap((page) => page.articles)
+    const seenClusters = new Set<string>()
+    return data.pages.flatMap((page): FeedItem[] => page.articles).filter((article) => {
+      if (!article.clusterId) return true
+      if (seenClusters.has(article.clusterId)) return false
+      seenClusters.add(article.clusterId)
+      return true
+    })
   }, [data])
 
-  // Client-side search filter
-  const filteredArticles = useMemo(() => {
-    if (!searchQuery.trim()) return articles
-    const query = searchQuery.toLowerCase()
-    return articles.filter(
-      (article) =>
-        article.title.toLowerCase().includes(query) ||
-        article.snippet.toLowerCase().includes(query) ||
-        article.sourceName.toLowerCase().includes(query)
-    )
-  }, [articles, searchQuery])
+  // Label the entity chip from any loaded article that carries it
+  const entityLabel = useMemo(() => {
+    if (!entityParam) return null
+    for (const article of articles) {
+      const match = article.entities?.find((e) => e.key === entityParam)
+      if (match) return match.name
+    }
+    return entityParam
+  }, [articles, entityParam])
+
+  // Search result counts (facets) from the first page; only exact when
+  // every match was counted, so hidden for truncated searches
+  const searchSummary = isSearching ? search.data?.pages[0] : undefined
+  const facets = searchSummary && !searchSummary.truncated ? searchSummary.facets : undefined
+  const sourceCounts = useMemo(
+    () => (facets ? Object.fromEntries(facets.sources.map((s) => [s.id, s.count])) : undefined),
+    [facets]
+  )
 
   // Infinite scroll observer - triggers before element comes into view
   // Generous margin ensures smooth continuous scrolling without visible loading
@@ -142,19 +247,39 @@ export function FeedPage() {
           <SearchBar value={searchQuery} onChange={handleSearchChange} />
         </div>
 
+        {/* Active entity filter - tap to clear */}
+        {entityLabel && (
+          <div className="mb-[8px] h-[30px] flex items-center">
+            <Chip variant="filterActive" onClick={clearEntity} aria-label={`Clear ${entityLabel} filter`}>
+              {entityLabel}
+              <X className="h-[12px] w-[12px]" strokeWidth={2.5} />
+            </Chip>
+          </div>
+        )}
+
         {/* Category chips - horizontally scrollable, stable height */}
         <div className="h-[30px]">
-          <CategoryChips value={category} onChange={setCategory} />
+          <CategoryChips
+            value={entityParam ? "all" : category}
+            onChange={handleCategoryChange}
+            counts={facets?.categories}
+          />
         </div>
 
         {/* Time + Sources row - stable height with iOS segmented control */}
         <div className="mt-[8px] flex items-center gap-[4px] h-[30px]">
-          <TimeWindowToggle value={timeWindow} onChange={setTimeWindow} />
+          <TimeWindowToggle value={timeWindow} onChange={setTimeWindow} counts={facets?.timeWindows} />
           <div className="h-[14px] w-[0.5px] bg-[var(--color-separator-opaque)] mx-[4px]" />
           <SourceFilter
             sources={sources}
             selectedIds={selectedSourceIds}
             onChange={setSelectedSourceIds}
+            counts={sourceCounts}
+          />
+          <GeographyFilter
+            selectedKeys={entityParam ? [] : geoKeys}
+            onChange={handleGeoChange}
+            myStates={prefs?.myStates}
           />
         </div>
       </header>
@@ -171,7 +296,7 @@ export function FeedPage() {
         )}
 
         {/* Error state - vertically centered */}
-        {error && !filteredArticles.length && (
+        {error && !articles.length && (
           <div className="flex min-h-[50vh] items-center justify-center">
             <ErrorState
               title="Unable to load articles"
@@ -182,35 +307,47 @@ export function FeedPage() {
         )}
 
         {/* Empty state - vertically centered */}
-        {!isLoading && !error && filteredArticles.length === 0 && (
+        {!isLoading && !error && articles.length === 0 && (
           <div className="flex min-h-[50vh] items-center justify-center">
             <EmptyState
-              icon={searchQuery ? Search : Inbox}
-              title={searchQuery ? "No results" : "No articles"}
+              icon={isSearching ? Search : Inbox}
+              title={isSearching ? "No results" : "No articles"}
               description={
-                searchQuery
-                  ? "Try a different search term."
-                  : "Adjust filters or check back later."
+                searchSummary?.tooCommon
+                  ? "Those words are too common to search. Try something more specific."
+                  : isSearching
+                    ? "Try a different search term."
+                    : "Adjust filters or check back later."
               }
             />
           </div>
         )}
 
+        {/* Search result count */}
+        {!isLoading && searchSummary && searchSummary.total > 0 && (
+          <p className="mb-[10px] text-[13px] tracking-[-0.08px] text-[var(--color-text-tertiary)]">
+            {searchSummary.truncated
+              ? "Best matches"
+              : `${searchSummary.total} ${searchSummary.total === 1 ? "result" : "results"}`}
+          </p>
+        )}
+
         {/* Article cards */}
-        {!isLoading && filteredArticles.length > 0 && (
+        {!isLoading && articles.length > 0 && (
           <div className="space-y-[14px]">
-            {filteredArticles.map((article) => (
+            {articles.map((article) => (
               <ArticleCard
                 key={article.id}
                 article={article}
                 onSelect={handleSelectArticle}
+                highlights={article.highlights}
               />
             ))}
           </div>
         )}
 
         {/* Load more trigger - positioned well ahead of viewport edge */}
-        {hasNextPage && !searchQuery && (
+        {hasNextPage && (
           <div ref={loadMoreRef} className="py-[20px]">
             {isFetchingNextPage && (
               <div className="flex justify-center">
@@ -221,7 +358,7 @@ export function FeedPage() {
         )}
 
         {/* End of list indicator */}
-        {!hasNextPage && filteredArticles.length > 0 && !searchQuery && (
+        {!hasNextPage && articles.length > 0 && !isSearching && (
           <p className="py-[28px] text-center text-[12px] font-medium tracking-[-0.04px] text-[var(--color-text-quaternary)]">
             You're all caught up
           </p>
@@ -230,9 +367,9 @@ export function FeedPage() {
 
       {/* Article detail sheet */}
       <ArticleDetailSheet
-        article={selectedArticle}
-        open={sheetOpen}
-        onOpenChange={setSheetOpen}
+        article={articleParam ? linkedArticle ?? null : selectedArticle}
+        open={articleParam ? !!linkedArticle : sheetOpen}
+        onOpenChange={handleSheetOpenChange}
       />
     </div>
   )
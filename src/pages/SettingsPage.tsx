@@ -24,12 +24,16 @@ import {
   SheetTitle,
   SheetDescription,
 } from "@/components/ui/sheet"
-import { Bell, Tag, TextCursor, Info, FileText, Shield, Trash2, Loader2 } from "lucide-react"
+import { Bell, Zap, Tag, TextCursor, Info, FileText, Shield, Trash2, Loader2, MapPin, Check, Sparkles, Mail, CalendarDays } from "lucide-react"
 import {
   useUserPreferences,
   useToggleNotifications,
   usePushNotifications,
+  useSetMyStates,
+  useSetPersonalBrief,
 } from "@/lib/hooks"
+import { MAX_GEO_SELECTION, US_STATES } from "@/lib/geography"
+import { cn } from "@/lib/utils"
 import { useAuth } from "@/lib/auth-context"
 import { httpsCallable } from "firebase/functions"
 import { functions } from "@/lib/firebase"
@@ -38,6 +42,8 @@ import { toast } from "sonner"
 // iOS system colors for icon chips
 const ICON_COLORS = {
   red: "#FF3B30",
+  orange: "#FF9500",
+  green: "#34C759",
   blue: "#007AFF",
   indigo: "#5856D6",
   gray: undefined, // uses ListRowIcon default (fill-secondary)
@@ -56,9 +62,15 @@ export function SettingsPage() {
   const [isSigningOut, setIsSigningOut] = useState(false)
   const [showDeleteSheet, setShowDeleteSheet] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [showStatesSheet, setShowStatesSheet] = useState(false)
+  const [draftStates, setDraftStates] = useState<string[]>([])
 
   const { data: prefs, isLoading: prefsLoading } = useUserPreferences()
   const toggleNotifications = useToggleNotifications()
+  const setMyStates = useSetMyStates()
+  const myStates = prefs?.myStates ?? []
+  const setPersonalBrief = useSetPersonalBrief()
+  const personalBriefEnabled = prefs?.personalBrief ?? false
   const {
     isSupported: pushSupported,
     isLoading: pushLoading,
@@ -67,14 +79,80 @@ export function SettingsPage() {
   } = usePushNotifications()
 
   const notificationsEnabled = prefs?.notifications?.dailyBrief ?? true
+  const breakingNewsEnabled = prefs?.notifications?.breakingNews ?? false
   const canEnableNotifications = pushSupported && permissionStatus !== "denied"
+  const notificationToggleDisabled =
+    prefsLoading ||
+    pushLoading ||
+    toggleNotifications.isPending ||
+    !canEnableNotifications
 
-  const handleNotificationToggle = async (checked: boolean) => {
+  const handleNotificationToggle = async (
+    key: "dailyBrief" | "breakingNews",
+    checked: boolean
+  ) => {
     if (checked && permissionStatus !== "granted") {
       const success = await enableNotifications()
       if (!success) return
     }
-    toggleNotifications.mutate({ dailyBrief: checked })
+    toggleNotifications.mutate({ [key]: checked })
+  }
+
+  // Email (no push permission needed; sent to the sign-in account's address)
+  const emailAddress = isAnonymous ? null : user?.email ?? null
+  const dailyBriefEmailEnabled = prefs?.notifications?.dailyBriefEmail ?? false
+  const weeklyDigestEmailEnabled = prefs?.notifications?.weeklyDigestEmail ?? false
+  const emailToggleDisabled = prefsLoading || toggleNotifications.isPending || !emailAddress
+
+  const handleEmailToggle = (
+    key: "dailyBriefEmail" | "weeklyDigestEmail",
+    checked: boolean
+  ) => {
+    toggleNotifications.mutate({ [key]: checked })
+  }
+
+  // My States
+  const handleStatesClick = () => {
+    if (!user) {
+      toast("Sign in to save your states")
+      return
+    }
+    setDraftStates(myStates)
+    setShowStatesSheet(true)
+  }
+
+  const toggleDraftState = (code: string) => {
+    setDraftStates((prev) =>
+      prev.includes(code)
+        ? prev.filter((c) => c !== code)
+        : prev.length < MAX_GEO_SELECTION ? [...prev, code] : prev
+    )
+  }
+
+  const handleStatesSave = () => {
+    setMyStates.mutate(draftStates, {
+      onSuccess: () => setShowStatesSheet(false),
+      onError: () => {
+        toast.error("Couldn\u2019t save your states", {
+          description: "Please try again.",
+        })
+      },
+    })
+  }
+
+  // My Brief
+  const handlePersonalBriefToggle = (checked: boolean) => {
+    if (!user) {
+      toast("Sign in to get your own brief")
+      return
+    }
+    setPersonalBrief.mutate(checked, {
+      onError: () => {
+        toast.error("Couldn\u2019t update My Brief", {
+          description: "Please try again.",
+        })
+      },
+    })
   }
 
   const handleSignOutClick = () => {
@@ -168,23 +246,77 @@ export function SettingsPage() {
             </ListRowContent>
             <Switch
               checked={notificationsEnabled}
-              onCheckedChange={handleNotificationToggle}
-              disabled={
-                prefsLoading ||
-                pushLoading ||
-                toggleNotifications.isPending ||
-                !canEnableNotifications
-              }
+              onCheckedChange={(checked) => handleNotificationToggle("dailyBrief", checked)}
+              disabled={notificationToggleDisabled}
               aria-label="Toggle daily brief notifications"
             />
           </ListRow>
+          <Separator variant="inset-icon" />
+          <ListRow variant="compact">
+            <ListRowIcon color={ICON_COLORS.orange}>
+              <Zap strokeWidth={1.75} />
+            </ListRowIcon>
+            <ListRowContent>
+              <ListRowLabel>Breaking News</ListRowLabel>
+            </ListRowContent>
+            <Switch
+              checked={breakingNewsEnabled}
+              onCheckedChange={(checked) => handleNotificationToggle("breakingNews", checked)}
+              disabled={notificationToggleDisabled}
+              aria-label="Toggle breaking news notifications"
+            />
+          </ListRow>
         </Card>
         <SectionFooter inset>
           {permissionStatus === "denied"
             ? <>Notifications are blocked for this app. Open <span className="font-medium text-[var(--color-text-secondary)]">Settings → The Brief</span> on your device to allow them.</>
             : !pushSupported && !pushLoading
               ? "Push notifications aren\u2019t available on this device."
-              : "Receive a notification each morning when your daily brief is ready."
+              : "Daily Brief arrives each morning. Breaking News alerts you when several outlets report a major catastrophe or regulatory action, at most three times a day."
+          }
+        </SectionFooter>
+      </section>
+
+      {/* ============================================================ */}
+      {/* Email                                                         */}
+      {/* ============================================================ */}
+      <section className="space-y-[7px]">
+        <SectionLabel inset>Email</SectionLabel>
+        <Card variant="grouped">
+          <ListRow variant="compact">
+            <ListRowIcon color={ICON_COLORS.blue}>
+              <Mail strokeWidth={1.75} />
+            </ListRowIcon>
+            <ListRowContent>
+              <ListRowLabel>Daily Brief</ListRowLabel>
+            </ListRowContent>
+            <Switch
+              checked={dailyBriefEmailEnabled}
+              onCheckedChange={(checked) => handleEmailToggle("dailyBriefEmail", checked)}
+              disabled={emailToggleDisabled}
+              aria-label="Toggle daily brief emails"
+            />
+          </ListRow>
+          <Separator variant="inset-icon" />
+          <ListRow variant="compact">
+            <ListRowIcon color={ICON_COLORS.indigo}>
+              <CalendarDays strokeWidth={1.75} />
+            </ListRowIcon>
+            <ListRowContent>
+              <ListRowLabel>Weekly Digest</ListRowLabel>
+            </ListRowContent>
+            <Switch
+              checked={weeklyDigestEmailEnabled}
+              onCheckedChange={(checked) => handleEmailToggle("weeklyDigestEmail", checked)}
+              disabled={emailToggleDisabled}
+              aria-label="Toggle weekly digest emails"
+            />
+          </ListRow>
+        </Card>
+        <SectionFooter inset>
+          {emailAddress
+            ? <>Sent to <span className="font-medium text-[var(--color-text-secondary)]">{emailAddress}</span>. The Weekly Digest arrives Monday mornings. Every email has an unsubscribe link.</>
+            : "Sign in with Google or Apple to get the brief by email."
           }
         </SectionFooter>
       </section>
@@ -195,6 +327,41 @@ export function SettingsPage() {
       <section className="space-y-[7px]">
         <SectionLabel inset>Preferences</SectionLabel>
         <Card variant="grouped">
+          {/* My States - default Feed geography and "In Your States" on Today */}
+          <ListRow
+            variant="compact"
+            interactive
+            hasChevron
+            onClick={handleStatesClick}
+            aria-label="My States"
+          >
+            <ListRowIcon color={ICON_COLORS.green}>
+              <MapPin strokeWidth={1.75} />
+            </ListRowIcon>
+            <ListRowContent>
+              <ListRowLabel>My States</ListRowLabel>
+            </ListRowContent>
+            <ListRowValue>
+              {myStates.length === 0 ? "None" : myStates.length <= 3 ? myStates.join(", ") : `${myStates.length} states`}
+            </ListRowValue>
+          </ListRow>
+          <Separator variant="inset-icon" />
+          {/* My Brief - Today brief built from the user's sources, categories and watchlist */}
+          <ListRow variant="compact">
+            <ListRowIcon color={ICON_COLORS.indigo}>
+              <Sparkles strokeWidth={1.75} />
+            </ListRowIcon>
+            <ListRowContent>
+              <ListRowLabel>My Brief</ListRowLabel>
+            </ListRowContent>
+            <Switch
+              checked={personalBriefEnabled}
+              onCheckedChange={handlePersonalBriefToggle}
+              disabled={prefsLoading || setPersonalBrief.isPending}
+              aria-label="Toggle My Brief"
+            />
+          </ListRow>
+          <Separator variant="inset-icon" />
           {/* Topics - coming soon */}
           <ListRow variant="compact">
             <ListRowIcon color={ICON_COLORS.indigo} disabled>
@@ -222,7 +389,7 @@ export function SettingsPage() {
           </ListRow>
         </Card>
         <SectionFooter inset>
-          More customization options are on the way.
+          Your states add an “In Your States” section to Today and are the Feed’s default geography filter. My Brief builds Today’s brief from your enabled sources and categories, with your watchlist topics given priority.
         </SectionFooter>
       </section>
 
@@ -332,6 +499,70 @@ export function SettingsPage() {
         </p>
       </footer>
 
+      {/* ============================================================ */}
+      {/* My States Sheet                                               */}
+      {/* ============================================================ */}
+      <Sheet open={showStatesSheet} onOpenChange={setShowStatesSheet}>
+        <SheetContent
+          side="bottom"
+          hideCloseButton
+          className="h-[70vh] rounded-t-[var(--radius-3xl)] bg-[var(--color-bg-grouped)] p-0"
+        >
+          <div className="drag-indicator" />
+
+          <div className="flex items-center justify-between px-[18px] pb-[12px] pt-[14px]">
+            <div>
+              <SheetTitle className="text-[17px] font-semibold tracking-[-0.32px]">My States</SheetTitle>
+              <SheetDescription className="mt-[2px] text-[12px] tracking-[-0.04px] text-[var(--color-text-tertiary)]">
+                {draftStates.length >= MAX_GEO_SELECTION
+                  ? `Max ${MAX_GEO_SELECTION} selected`
+                  : `Choose up to ${MAX_GEO_SELECTION} states`}
+              </SheetDescription>
+            </div>
+            <button
+              onClick={handleStatesSave}
+              disabled={setMyStates.isPending}
+              className="text-[17px] font-semibold tracking-[-0.4px] text-[var(--color-accent)] disabled:opacity-50"
+            >
+              {setMyStates.isPending ? "Saving\u2026" : "Done"}
+            </button>
+          </div>
+
+          <div className="mx-[16px] mb-[calc(var(--safe-area-inset-bottom)+16px)] overflow-hidden rounded-[var(--radius-xl)] bg-[var(--color-surface)]">
+            <div className="max-h-[calc(70vh-100px)] overflow-y-auto">
+              {US_STATES.map((state, index) => {
+                const isSelected = draftStates.includes(state.code)
+                const isDisabled = !isSelected && draftStates.length >= MAX_GEO_SELECTION
+                return (
+                  <div key={state.code}>
+                    <button
+                      onClick={() => toggleDraftState(state.code)}
+                      disabled={isDisabled}
+                      className={cn(
+                        "flex w-full min-h-[48px] items-center justify-between px-[16px] py-[12px] text-left transition-colors duration-[var(--duration-instant)]",
+                        isDisabled
+                          ? "opacity-40 cursor-not-allowed"
+                          : "active:bg-[var(--color-fill-quaternary)]"
+                      )}
+                    >
+                      <span className="text-[15px] font-medium tracking-[-0.18px] text-[var(--color-text-primary)]">
+                        {state.name}
+                      </span>
+                      {isSelected && (
+                        <Check className="h-[18px] w-[18px] text-[var(--color-accent)]" strokeWidth={2.5} />
+                      )}
+                    </button>
+                    {index < US_STATES.length - 1 && (
+                      <div className="ml-[16px] h-[0.5px] bg-[var(--color-separator)]" />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </SheetContent>
+      </Sheet>
+
       {/* ============================================================ */}
       {/* Sign Out Confirmation Sheet                                   */}
       {/* ============================================================ */}
@@ -5,22 +5,71 @@
  * - Clear header with AI badge and timestamp
  * - Executive summary with structured, scannable bullets
  * - Top stories carousel with proper image fallbacks
+ * - "In Your States" carousel when the user has saved their states
  * - Category sections with subtle icons (2-4 bullets)
  * - Tappable topics that filter Feed
  * - Source attribution footer
+ * - Daily / Weekly / Monthly toggle (roll-up digests add "What Changed")
+ * - Calendar button into the brief archive (/brief)
+ * - Share menu exporting the brief as PDF, Markdown or HTML
  */
 
 import { useState } from "react"
 import { useNavigate } from "react-router-dom"
-import { Newspaper, Sparkles } from "lucide-react"
+import { CalendarDays, Newspaper, TrendingDown, TrendingUp } from "lucide-react"
 import { useTodayBrief, type TopStoryWithArticle } from "@/lib/hooks/use-today-brief"
+import { useDigest } from "@/lib/hooks/use-digest"
+import { useUserPreferences } from "@/lib/hooks/use-user-preferences"
 import {
   TodayScreenSkeleton,
+  ExecutiveSummaryCard,
+  ExportMenu,
   TopStoriesCarousel,
   BriefSections,
   ArticleSheet,
 } from "@/components/brief"
-import { EmptyState, ErrorState, SectionLabel, Card } from "@/components/ui"
+import { EmptyState, ErrorState, SectionLabel, Card, SegmentedControl } from "@/components/ui"
+import type { Brief, BriefSourceUsed, DigestMomentumTopic } from "@/types/firestore"
+
+type BriefView = "daily" | "weekly" | "monthly"
+
+const VIEW_OPTIONS: { value: BriefView; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+]
+
+const EMPTY_COPY: Record<BriefView, { title: string; description: string }> = {
+  daily: {
+    title: "No brief available yet",
+    description: "Check back soon for today\u2019s industry briefing.",
+  },
+  weekly: {
+    title: "No weekly digest yet",
+    description: "The weekly digest arrives Monday mornings.",
+  },
+  monthly: {
+    title: "No monthly digest yet",
+    description: "The monthly digest arrives on the 1st of each month.",
+  },
+}
+
+/** What the screen renders, whether from the daily brief or a digest */
+interface BriefContent {
+  dateLabel: string
+  badge: string
+  updatedLabel: string
+  executiveSummary: string[]
+  topStories: TopStoryWithArticle[]
+  territoryStories: TopStoryWithArticle[]
+  /** Digest only: changes versus the prior period */
+  whatChanged: string[]
+  rising: DigestMomentumTopic[]
+  falling: DigestMomentumTopic[]
+  sections: Brief["sections"]
+  topics: string[]
+  sourcesUsed: BriefSourceUsed[]
+}
 
 function formatDate(dateString: string): string {
   try {
@@ -36,6 +85,20 @@ function formatDate(dateString: string): string {
   }
 }
 
+function formatDigestRange(startDate: string, endDate: string, period: "weekly" | "monthly"): string {
+  const start = new Date(startDate + "T12:00:00")
+  const end = new Date(endDate + "T12:00:00")
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return `${startDate} \u2013 ${endDate}`
+  if (period === "monthly") {
+    return start.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+  }
+  const startLabel = start.toLocaleDateString("en-US", { month: "long", day: "numeric" })
+  const endLabel = end.getMonth() === start.getMonth()
+    ? end.toLocaleDateString("en-US", { day: "numeric" })
+    : end.toLocaleDateString("en-US", { month: "long", day: "numeric" })
+  return `Week of ${startLabel} \u2013 ${endLabel}`
+}
+
 function formatUpdateTime(createdAt: { toDate?: () => Date } | null): string {
   if (!createdAt || !createdAt.toDate) {
     return "Updated this morning"
@@ -61,28 +124,13 @@ function stripCitations(text: string): string {
   return text.replace(/\s*\[[a-f0-9]{10,}\]/gi, "").trim()
 }
 
-/**
- * Split an executive summary bullet into headline + detail.
- * Expects format: "Headline — Detail sentence."
- * Falls back to the full text if no em-dash is found.
- */
-function parseBullet(raw: string): { headline: string; detail: string } {
-  const cleaned = stripCitations(raw)
-  // Try em-dash first, then en-dash
-  const sep = cleaned.includes(" \u2014 ") ? " \u2014 " : cleaned.includes(" \u2013 ") ? " \u2013 " : null
-  if (sep) {
-    const idx = cleaned.indexOf(sep)
-    return {
-      headline: cleaned.slice(0, idx).trim(),
-      detail: cleaned.slice(idx + sep.length).trim(),
-    }
-  }
-  return { headline: "", detail: cleaned }
-}
-
 export function TodayPage() {
   const navigate = useNavigate()
-  const { data, isLoading, error, refetch } = useTodayBrief()
+  const [view, setView] = useState<BriefView>("daily")
+  const { data: prefs } = useUserPreferences()
+  const myStates = prefs?.myStates?.length ? prefs.myStates : undefined
+  const briefQuery = useTodayBrief(undefined, myStates, prefs?.personalBrief === true)
+  const digestQuery = useDigest(view === "monthly" ? "monthly" : "weekly", view !== "daily")
   const [selectedStory, setSelectedStory] = useState<TopStoryWithArticle | null>(null)
   const [sheetOpen, setSheetOpen] = useState(false)
 
@@ -95,120 +143,213 @@ export function TodayPage() {
     navigate(`/feed?q=${encodeURIComponent(topic)}`)
   }
 
-  // Loading state (only show skeleton if no cached data)
-  if (isLoading && !data) {
+  // Loading state for the daily brief (only show skeleton if no cached data)
+  if (view === "daily" && briefQuery.isLoading && !briefQuery.data) {
     return <TodayScreenSkeleton />
   }
 
-  // Error state
-  if (error && !data) {
-    return (
-      <ErrorState
-        title="Unable to load brief"
-        description="We couldn\u2019t fetch today\u2019s briefing. Please try again."
-        onRetry={() => refetch()}
-      />
-    )
+  let content: BriefContent | null = null
+  if (view === "daily") {
+    const data = briefQuery.data
+    if (data?.found && data.brief) {
+      content = {
+        dateLabel: formatDate(data.brief.date),
+        badge: data.personalized ? "My Daily Brief" : "AI Daily Brief",
+        updatedLabel: formatUpdateTime(data.brief.createdAt),
+        executiveSummary: data.brief.executiveSummary,
+        topStories: data.topStoriesWithArticles,
+        territoryStories: data.territoryStories ?? [],
+        whatChanged: [],
+        rising: [],
+        falling: [],
+        sections: data.brief.sections,
+        topics: data.brief.topics,
+        sourcesUsed: data.brief.sourcesUsed ?? [],
+      }
+    }
+  } else {
+    const digest = digestQuery.data?.found ? digestQuery.data.digest : null
+    if (digest) {
+      content = {
+        dateLabel: formatDigestRange(digest.startDate, digest.endDate, digest.period),
+        badge: digest.period === "weekly" ? "Weekly Digest" : "Monthly Digest",
+        updatedLabel: `${digest.briefDates.length} daily briefs`,
+        executiveSummary: digest.executiveSummary,
+        topStories: digestQuery.data?.topStoriesWithArticles ?? [],
+        territoryStories: [],
+        whatChanged: digest.whatChanged,
+        rising: digest.rising,
+        falling: digest.falling,
+        sections: digest.sections,
+        topics: digest.topics,
+        sourcesUsed: digest.sourcesUsed ?? [],
+      }
+    }
   }
 
-  // No brief found
-  if (!data?.found || !data.brief) {
-    return (
-      <EmptyState
-        icon={Newspaper}
-        title="No brief available yet"
-        description="Check back soon for today\u2019s industry briefing."
+  const viewToggle = (
+    <div className="flex shrink-0 items-center gap-[6px]">
+      {view === "daily" && briefQuery.data?.found && (
+        <ExportMenu
+          target={{ source: "brief", date: briefQuery.data.date, personal: briefQuery.data.personalized }}
+          label="Share brief"
+        />
+      )}
+      {view === "daily" && (
+        <button
+          onClick={() => navigate("/brief")}
+          aria-label="Past briefs"
+          className="flex h-[32px] w-[32px] items-center justify-center rounded-full text-[var(--color-text-tertiary)] transition-all duration-[var(--duration-fast)] ease-[var(--ease-ios)] -webkit-tap-highlight-color-transparent active:scale-[0.94] active:bg-[var(--color-fill-tertiary)]"
+        >
+          <CalendarDays className="h-[16px] w-[16px]" strokeWidth={1.8} />
+        </button>
+      )}
+      <SegmentedControl
+        options={VIEW_OPTIONS}
+        value={view}
+        onChange={setView}
+        compact
       />
+    </div>
+  )
+
+  // Loading, error or nothing published yet (keep the toggle so other views stay reachable)
+  if (!content) {
+    const active = view === "daily" ? briefQuery : digestQuery
+    return (
+      <div className="space-y-[24px]">
+        <header className="-mt-[4px] flex justify-end">{viewToggle}</header>
+        {active.isLoading ? (
+          <TodayScreenSkeleton />
+        ) : active.error ? (
+          <ErrorState
+            title={view === "daily" ? "Unable to load brief" : "Unable to load digest"}
+            description={
+              view === "daily"
+                ? "We couldn\u2019t fetch today\u2019s briefing. Please try again."
+                : `We couldn\u2019t fetch the ${view} digest. Please try again.`
+            }
+            onRetry={() => active.refetch()}
+          />
+        ) : (
+          <EmptyState
+            icon={Newspaper}
+            title={EMPTY_COPY[view].title}
+            description={EMPTY_COPY[view].description}
+          />
+        )}
+      </div>
     )
   }
 
-  const { brief, topStoriesWithArticles } = data
+  const { topStories, territoryStories } = content
 
   return (
     <>
       <div className="space-y-[24px]">
-        {/* Date subheader */}
-        <header className="-mt-[4px]">
-          <p className="text-[15px] font-normal tracking-[-0.2px] text-[var(--color-text-secondary)]">
-            {formatDate(brief.date)}
+        {/* Date subheader + Daily / Weekly / Monthly */}
+        <header className="-mt-[4px] flex items-center justify-between gap-[12px]">
+          <p className="min-w-0 truncate text-[15px] font-normal tracking-[-0.2px] text-[var(--color-text-secondary)]">
+            {content.dateLabel}
           </p>
+          {viewToggle}
         </header>
 
         {/* ============================================================ */}
         {/* Executive Summary Card — the hero module                      */}
         {/* ============================================================ */}
-        <Card>
-          {/* Card header: AI badge + timestamp */}
-          <div className="flex items-center justify-between px-[16px] py-[10px]">
-            <div className="flex items-center gap-[5px]">
-              <Sparkles className="h-[12px] w-[12px] text-[var(--color-accent)]" strokeWidth={2.25} />
-              <span className="text-[12px] font-semibold tracking-[-0.08px] text-[var(--color-accent)]">
-                AI Daily Brief
-              </span>
-            </div>
-            <span className="text-[12px] font-normal tracking-[-0.08px] text-[var(--color-text-quaternary)]">
-              {formatUpdateTime(brief.createdAt)}
-            </span>
-          </div>
-
-          {/* Hairline separator */}
-          <div className="mx-[16px] h-[0.5px] bg-[var(--color-separator)]" />
-
-          {/* Executive summary bullets */}
-          <div className="px-[16px] py-[14px]">
-            <ul className="space-y-[14px]">
-              {brief.executiveSummary.map((bullet, index) => {
-                const { headline, detail } = parseBullet(bullet)
-                return (
-                  <li key={index} className="flex gap-[10px]" style={{ maxWidth: "540px" }}>
-                    <span className="mt-[7px] h-[5px] w-[5px] shrink-0 rounded-full bg-[var(--color-accent)]" />
-                    <span className="text-[15px] leading-[1.47] tracking-[-0.2px] text-[var(--color-text-primary)]">
-                      {headline ? (
-                        <>
-                          <span className="font-semibold">{headline}</span>
-                          {" \u2014 "}
-                          <span className="font-normal text-[var(--color-text-secondary)]">{detail}</span>
-                        </>
-                      ) : (
-                        detail
-                      )}
-                    </span>
-                  </li>
-                )
-              })}
-            </ul>
-          </div>
-        </Card>
+        <ExecutiveSummaryCard
+          badge={content.badge}
+          updatedLabel={content.updatedLabel}
+          bullets={content.executiveSummary}
+        />
 
         {/* ============================================================ */}
         {/* Top Stories Carousel                                          */}
         {/* ============================================================ */}
-        {topStoriesWithArticles.length > 0 && (
+        {topStories.length > 0 && (
           <section className="space-y-[10px]">
             <SectionLabel>Top Stories</SectionLabel>
             <TopStoriesCarousel
-              stories={topStoriesWithArticles}
+              stories={topStories}
               onSelectStory={handleSelectStory}
             />
           </section>
         )}
 
+        {/* ============================================================ */}
+        {/* In Your States                                                */}
+        {/* ============================================================ */}
+        {territoryStories.length > 0 && (
+          <section className="space-y-[10px]">
+            <SectionLabel>In Your States</SectionLabel>
+            <TopStoriesCarousel
+              stories={territoryStories}
+              onSelectStory={handleSelectStory}
+            />
+          </section>
+        )}
+
+        {/* ============================================================ */}
+        {/* What Changed (digests only)                                   */}
+        {/* ============================================================ */}
+        {content.whatChanged.length > 0 && (
+          <section className="space-y-[10px]">
+            <SectionLabel>What Changed</SectionLabel>
+            <Card>
+              <div className="px-[16px] py-[14px] space-y-[14px]">
+                <ul className="space-y-[10px]">
+                  {content.whatChanged.map((bullet, index) => (
+                    <li key={index} className="flex gap-[10px]" style={{ maxWidth: "540px" }}>
+                      <span className="mt-[7px] h-[5px] w-[5px] shrink-0 rounded-full bg-[var(--color-text-tertiary)]" />
+                      <span className="text-[15px] leading-[1.47] tracking-[-0.2px] text-[var(--color-text-primary)]">
+                        {stripCitations(bullet)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {(content.rising.length > 0 || content.falling.length > 0) && (
+                  <div className="flex flex-wrap gap-[6px]">
+                    {[...content.rising, ...content.falling].map((topic) => (
+                      <button
+                        key={topic.key}
+                        onClick={() => handleTopicClick(topic.displayName)}
+                        className="inline-flex items-center gap-[4px] rounded-full bg-[var(--color-fill-quaternary)] px-[11px] py-[5px] text-[13px] font-medium tracking-[-0.08px] text-[var(--color-text-secondary)] transition-all duration-[var(--duration-fast)] ease-[var(--ease-ios)] active:scale-[0.97] active:bg-[var(--color-fill-tertiary)]"
+                      >
+                        {topic.momentum > 0 ? (
+                          <TrendingUp className="h-[12px] w-[12px] text-[var(--color-success)]" strokeWidth={2.25} />
+                        ) : (
+                          <TrendingDown className="h-[12px] w-[12px] text-[var(--color-destructive)]" strokeWidth={2.25} />
+                        )}
+                        {topic.displayName}
+                        <span className="tabular-nums text-[var(--color-text-tertiary)]">
+                          {topic.momentum > 0 ? `+${topic.momentum}` : topic.momentum}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Card>
+          </section>
+        )}
+
         {/* ============================================================ */}
         {/* Category Sections                                             */}
         {/* ============================================================ */}
         <section className="space-y-[10px]">
           <SectionLabel>By Category</SectionLabel>
-          <BriefSections sections={brief.sections} />
+          <BriefSections sections={content.sections} />
         </section>
 
         {/* ============================================================ */}
         {/* Topics Covered                                                */}
         {/* ============================================================ */}
-        {brief.topics.length > 0 && (
+        {content.topics.length > 0 && (
           <section className="space-y-[10px]">
             <SectionLabel>Topics Covered</SectionLabel>
             <div className="flex flex-wrap gap-[6px]">
-              {brief.topics.map((topic, index) => (
+              {content.topics.map((topic, index) => (
                 <button
                   key={index}
                   onClick={() => handleTopicClick(topic)}
@@ -228,10 +369,10 @@ export function TodayPage() {
           <div className="h-[0.5px] bg-[var(--color-separator)] mb-[14px]" />
           <div className="py-[4px]">
             <p className="text-[13px] font-medium tracking-[-0.08px] text-[var(--color-text-secondary)]">
-              Compiled from {brief.sourcesUsed?.length ?? 0} sources
+              Compiled from {content.sourcesUsed.length} sources
             </p>
             <p className="mt-[2px] truncate text-[12px] tracking-[-0.04px] text-[var(--color-text-tertiary)]">
-              {brief.sourcesUsed?.map((s) => s.name).join(" \u00b7 ") ?? ""}
+              {content.sourcesUsed.map((s) => s.name).join(" \u00b7 ")}
             </p>
           </div>
         </footer>
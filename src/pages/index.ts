@@ -1,7 +1,9 @@
 export { TodayPage } from "./TodayPage"
+export { BriefArchivePage, ArchivedBriefPage } from "./BriefArchivePage"
 export { FeedPage } from "./FeedPage"
 export { PulsePage } from "./PulsePage"
 export { SettingsPage } from "./SettingsPage"
+export { BookmarksPage } from "./BookmarksPage"
 export { AskPage } from "./AskPage"
 export { TermsPage } from "./TermsPage"
 export { PrivacyPage } from "./PrivacyPage"
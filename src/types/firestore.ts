@@ -4,7 +4,9 @@
  * Collections:
  * - sources/{sourceId}
  * - articles/{articleId}
+ * - storyClusters/{clusterId}
  * - briefs/{yyyy-mm-dd}
+ * - digests/{period}_{periodKey}
  * - users/{uid}
  *   - bookmarks/{articleId}
  *   - prefs/main
@@ -39,6 +41,79 @@ export interface SourceFetchState {
   lastError: string | null;
 }
 
+/** How a feed URL is fetched and parsed */
+export type FeedAdapterType = "rss" | "jsonfeed" | "sitemap" | "html";
+
+/**
+ * CSS-selector rules for scraping an HTML listing page.
+ * Field selectors are evaluated inside each matched item element.
+ */
+export interface HtmlListingRules {
+  /** Selects one element per article (e.g. "ul.news-list > li") */
+  item: string;
+  /** Headline element (default: the link element) */
+  title?: string;
+  /** Link element; its href is used (default: first "a[href]" in the item) */
+  link?: string;
+  /** Date element; datetime/content attribute or text is parsed (default: "time") */
+  date?: string;
+  /** Summary element */
+  summary?: string;
+  /** Image element; its src is used */
+  image?: string;
+  /** Use the fetch time for items without a parseable date (default: skip them) */
+  useFetchTimeWhenUndated?: boolean;
+}
+
+/** Adapter choice for one feed URL of a source */
+export interface FeedAdapterConfig {
+  /** Feed URL (must match rssUrl or an entry of rssUrls) */
+  url: string;
+  type: FeedAdapterType;
+  /** Required when type is "html" */
+  html?: HtmlListingRules;
+}
+
+/** Coarse classification of feed fetch failures */
+export type SourceErrorClass =
+  | "not_found"
+  | "http_client"
+  | "http_server"
+  | "timeout"
+  | "network"
+  | "parse"
+  | "unknown";
+
+/** Rolling health record for a single feed URL */
+export interface SourceFeedHealth {
+  /** Feed URL this record describes */
+  url: string;
+  /** Failures since the last successful fetch */
+  consecutiveFailures: number;
+  /** Total fetch attempts recorded */
+  totalRuns: number;
+  /** Fetches that returned a feed body (excludes 304 Not Modified) */
+  sampledRuns: number;
+  /** Mean items per fetch over sampled runs */
+  avgItemsPerRun: number;
+  /** Last successful fetch (including 304 Not Modified) */
+  lastSuccessAt: Timestamp | null;
+  /** Last failed fetch */
+  lastFailureAt: Timestamp | null;
+  /** Last fetch error message (null after a success) */
+  lastError: string | null;
+  /** Class of the last fetch error (null after a success) */
+  lastErrorClass: SourceErrorClass | null;
+  /** Lifetime failure counts by class */
+  errorCounts: Partial<Record<SourceErrorClass, number>>;
+  /** Earliest time the feed should be retried (null = no backoff) */
+  nextAttemptAt: Timestamp | null;
+  /** Whether the feed is quarantined (skipped until an admin releases it) */
+  quarantined: boolean;
+  /** When the feed was quarantined */
+  quarantinedAt: Timestamp | null;
+}
+
 export interface Source {
   /** Unique identifier (slug-style, e.g., "insurance-journal") */
   id: string;
@@ -68,6 +143,15 @@ export interface Source {
   fetchState: SourceFetchState;
   /** Fetch states per RSS URL (for multi-feed sources) */
   fetchStates?: Record<string, SourceFetchState>;
+  /** Health per feed, keyed like fetchStates (applies to single-feed sources too) */
+  feedHealth?: Record<string, SourceFeedHealth>;
+  /** Adapter per feed URL; feeds not listed are parsed as RSS/Atom */
+  feedAdapters?: FeedAdapterConfig[];
+  /**
+   * Whether the publisher's terms allow fetching the full article body for
+   * private AI use. The body is never shown to users (see ArticleFullText).
+   */
+  allowFullText?: boolean;
 }
 
 // ============================================================================
@@ -99,18 +183,87 @@ export interface Article {
   publishedAt: Timestamp;
   /** When we ingested this article */
   ingestedAt: Timestamp;
-  /** P&C relevance score (0-1) from heuristic filter */
+  /** P&C relevance score (0-1) */
   relevanceScore: number;
   /** Whether article passes P&C relevance filter */
   isRelevant: boolean;
+  /**
+   * What produced relevanceScore/isRelevant/categories: "heuristic-v1",
+   * a trained model version (e.g. "lr-20261019-1200"), or "editor".
+   * Absent on articles ingested before model versioning.
+   */
+  relevanceModel?: string;
   /** AI-generated content (cached, generated on first request) */
   ai: ArticleAI | null;
   /** Vector embedding for semantic search (optional, computed on-demand) */
   embedding?: ArticleEmbedding;
   /** Search tokens for lexical narrowing (optional, computed at ingest) */
   searchTokens?: string[];
+  /** Story cluster this article belongs to (null/absent if unclustered) */
+  clusterId?: string | null;
+  /** Named entities found in title/snippet (absent on articles ingested before tagging) */
+  entities?: ArticleEntity[];
+  /** Entity keys for array-contains filtering, e.g. ["company:travelers", "state:FL"] */
+  entityKeys?: string[];
+  /** Inferred geography (absent on articles ingested before geo tagging) */
+  geo?: ArticleGeo;
+  /** Geography keys for filtering, e.g. ["state:FL", "country:US", "region:north-america"] */
+  geoKeys?: string[];
+  /** Whether articles/{id}/private/fullText holds an extracted body (allowFullText sources only) */
+  hasFullText?: boolean;
+  /** Publisher updates recorded in articles/{id}/revisions (absent when never revised) */
+  revisionCount?: number;
+  /** When the latest revision was detected */
+  lastRevisedAt?: Timestamp;
+  /** `ai` predates the latest content revision; regenerated on next request */
+  aiStale?: boolean;
 }
 
+/** Kind of named entity tagged on an article */
+export type EntityType = "company" | "regulator" | "state" | "country" | "peril" | "line";
+
+/** Market role of a company entity */
+export type CompanyRole = "carrier" | "broker" | "reinsurer";
+
+/**
+ * Normalized entity tagged on an article
+ */
+export interface ArticleEntity {
+  /** Stable key "{type}:{id}", e.g. "company:travelers", "state:FL", "line:workers-comp" */
+  key: string;
+  type: EntityType;
+  /** Display name, e.g. "Travelers", "Florida", "Workers' Compensation" */
+  name: string;
+  /** Companies only */
+  role?: CompanyRole;
+  /** Exchange ticker for listed companies */
+  ticker?: string;
+  /** SEC Central Index Key for US filers */
+  cik?: string;
+}
+
+/** Broad geographic region an article is tagged with */
+export type GeoRegion =
+  | "north-america"
+  | "latin-america"
+  | "europe"
+  | "asia-pacific"
+  | "middle-east-africa";
+
+/** Where an article is about, inferred from its dateline and text */
+export interface ArticleGeo {
+  /** USPS codes, dateline first, e.g. ["FL", "GA"] */
+  states: string[];
+  /** ISO 3166-1 alpha-2 codes, e.g. ["US"] or ["GB", "FR"] */
+  countries: string[];
+  regions: GeoRegion[];
+  /** Dateline place as written, e.g. "TALLAHASSEE, Fla." (null when none) */
+  dateline: string | null;
+}
+
+/** Article field a publisher update can change */
+export type ArticleRevisionField = "title" | "snippet" | "publishedAt";
+
 /**
  * Vector embedding for an article
  */
@@ -143,6 +296,52 @@ export interface ArticleAI {
   model: string;
 }
 
+// ============================================================================
+// Story Clusters Collection: storyClusters/{clusterId}
+// ============================================================================
+
+/** A single article within a story cluster (denormalized for display) */
+export interface StoryClusterMember {
+  /** Article ID reference */
+  articleId: string;
+  /** Source ID reference */
+  sourceId: string;
+  /** Source display name */
+  sourceName: string;
+  /** Article headline */
+  title: string;
+  /** Original article URL */
+  url: string;
+  /** Publication timestamp */
+  publishedAt: Timestamp;
+  /** P&C relevance score (0-1) */
+  relevanceScore: number;
+}
+
+/** Group of articles from different sources covering the same event */
+export interface StoryCluster {
+  /** Cluster ID (same as document ID) */
+  id: string;
+  /** Representative article for the story */
+  leadArticleId: string;
+  /** All member articles, including the lead */
+  members: StoryClusterMember[];
+  /** Article IDs of all members (for array-contains lookups) */
+  memberArticleIds: string[];
+  /** Unique source IDs covering this story */
+  sourceIds: string[];
+  /** Number of unique sources covering this story */
+  sourceCount: number;
+  /** Earliest member publication timestamp */
+  firstPublishedAt: Timestamp;
+  /** Latest member publication timestamp */
+  lastPublishedAt: Timestamp;
+  /** When this cluster was created */
+  createdAt: Timestamp;
+  /** When this cluster was last updated */
+  updatedAt: Timestamp;
+}
+
 // ============================================================================
 // Briefs Collection: briefs/{yyyy-mm-dd}
 // ============================================================================
@@ -170,6 +369,44 @@ export interface BriefSourceUsed {
   name: string;
 }
 
+/** Why a brief claim failed verification */
+export type BriefVerificationIssueType =
+  | "unknown_article" // Cited an article ID that wasn't in the input
+  | "unsupported_number" // Number not found in the cited articles
+  | "unsupported_entity"; // Company, regulator, state or country not in the cited articles
+
+/** One verification finding and what was done about it */
+export interface BriefVerificationIssue {
+  type: BriefVerificationIssueType;
+  /** "executiveSummary", "topStories" or a section key, e.g. "propertyCat" */
+  part: string;
+  /** Bullet or top-story index within the part */
+  index: number;
+  /** Offending article ID, number or entity name */
+  value: string;
+  /**
+   * removed_reference: bad article ID stripped;
+   * regenerated: part rewritten by the repair pass;
+   * dropped: bullet or top story removed;
+   * kept: left in place (removing it would empty the part)
+   */
+  resolution: "removed_reference" | "regenerated" | "dropped" | "kept";
+}
+
+/** Post-generation grounding audit stored on the brief */
+export interface BriefVerification {
+  checkedAt: Timestamp;
+  /** True when the model's output needed no changes */
+  passed: boolean;
+  /** Articles claims were checked against */
+  articlesChecked: number;
+  issues: BriefVerificationIssue[];
+  /** Parts rewritten by the repair pass */
+  regeneratedParts: string[];
+  /** Issues still present in the saved brief */
+  unresolved: number;
+}
+
 export interface Brief {
   /** Date in yyyy-mm-dd format */
   date: string;
@@ -197,6 +434,71 @@ export interface Brief {
   sourceArticleIds: string[];
   /** Model used for generation */
   model: string;
+  /** Preference profile a personal brief was built for (absent on the shared brief) */
+  profileKey?: string;
+  /** Grounding audit (absent on briefs generated before verification) */
+  verification?: BriefVerification;
+}
+
+// ============================================================================
+// Digests Collection: digests/{period}_{periodKey}
+// ============================================================================
+
+/** Roll-up length: weekly (Mon-Sun) or monthly (calendar month) */
+export type DigestPeriod = "weekly" | "monthly";
+
+/** A topic whose brief mentions moved versus the prior equivalent period */
+export interface DigestMomentumTopic {
+  /** Canonical topic key (same as pulse) */
+  key: string;
+  /** Human-readable display name */
+  displayName: string;
+  /** Mentions across the period's daily briefs */
+  mentions: number;
+  /** Mentions across the prior equivalent period */
+  baselineMentions: number;
+  /** mentions - baselineMentions */
+  momentum: number;
+}
+
+/**
+ * Weekly or monthly roll-up synthesized from the period's daily briefs.
+ * Document ID: `${period}_${periodKey}`, e.g. weekly_2026-10-12, monthly_2026-09
+ */
+export interface Digest {
+  /** Document ID */
+  id: string;
+  period: DigestPeriod;
+  /** Week start (Monday, yyyy-mm-dd) or month (yyyy-mm) */
+  periodKey: string;
+  /** First day covered (yyyy-mm-dd) */
+  startDate: string;
+  /** Last day covered (yyyy-mm-dd, inclusive) */
+  endDate: string;
+  /** When this digest was created */
+  createdAt: Timestamp;
+  /** Narrative summary bullets for the period */
+  executiveSummary: string[];
+  /** The period's top stories */
+  topStories: BriefTopStory[];
+  /** What changed versus the prior period (narrative bullets) */
+  whatChanged: string[];
+  /** Topics gaining mentions versus the prior period (pulse momentum) */
+  rising: DigestMomentumTopic[];
+  /** Topics losing mentions versus the prior period */
+  falling: DigestMomentumTopic[];
+  /** Category sections (same shape as the daily brief) */
+  sections: Brief["sections"];
+  /** Key topics of the period */
+  topics: string[];
+  /** Daily briefs the digest was synthesized from */
+  briefDates: string[];
+  /** Sources behind the daily briefs */
+  sourcesUsed: BriefSourceUsed[];
+  /** Article IDs given to the model (for grounded chat) */
+  sourceArticleIds: string[];
+  /** Model used for generation */
+  model: string;
 }
 
 // ============================================================================
@@ -246,9 +548,17 @@ export interface UserPreferences {
   notifications: {
     dailyBrief: boolean;
     breakingNews: boolean;
+    /** Email the daily brief (opt-in) */
+    dailyBriefEmail?: boolean;
+    /** Email the weekly digest (opt-in) */
+    weeklyDigestEmail?: boolean;
   };
   /** Watchlist topics (canonical form) for Industry Pulse */
   watchlistTopics?: string[];
+  /** USPS codes of the user's territory; feed and brief lean toward these (max 10) */
+  myStates?: string[];
+  /** Build a "My Brief" from enabled sources, categories and watchlist topics */
+  personalBrief?: boolean;
   /** Last updated timestamp */
   updatedAt: Timestamp;
 }
@@ -328,6 +638,8 @@ export interface PulseTopic {
   uniqueSources: number;
   /** Array[windowDays] of daily mention counts (oldest first) */
   trendSeries: number[];
+  /** Gazetteer entities the topic refers to (absent on older snapshots) */
+  entityKeys?: string[];
 }
 
 /** A driver reference cited in the pulse narrative */
@@ -466,14 +778,17 @@ export interface GetWatchlistTopicsResponse {
 // Chat Threads Subcollection: users/{uid}/chatThreads/{threadId}
 // ============================================================================
 
-/** Time scope for chat queries */
-export type ChatTimeScope = "today" | "7d" | "30d";
+/** Time scope for chat queries ("custom" uses the thread's dateFrom/dateTo) */
+export type ChatTimeScope = "today" | "7d" | "30d" | "90d" | "1y" | "custom";
 
-/** Source filter mode */
-export type ChatSourceFilter = "all" | "selected";
+/** Source filter mode ("selected" = the user's enabled sources, "custom" = the thread's sourceIds) */
+export type ChatSourceFilter = "all" | "selected" | "custom";
 
 /** Category filter for chat */
-export type ChatCategory = "all" | "property" | "casualty" | "regulation" | "claims" | "reinsurance";
+export type ChatCategory = "all" | SourceCategory;
+
+/** Lifecycle of an assistant message written by the answer stream */
+export type ChatMessageStatus = "streaming" | "complete" | "error";
 
 /** Citation reference in a chat message */
 export interface ChatCitation {
@@ -505,6 +820,18 @@ export interface ChatThread {
   sourceFilter: ChatSourceFilter;
   /** Category filter */
   category: ChatCategory;
+  /** First day of a custom scope (yyyy-mm-dd, ET) */
+  dateFrom?: string;
+  /** Last day of a custom scope, inclusive (yyyy-mm-dd, ET) */
+  dateTo?: string;
+  /** Sources searched when sourceFilter is "custom" (max 30) */
+  sourceIds?: string[];
+  /** Pulse topic keys the answers are scoped to (max 10) */
+  topics?: string[];
+  /** Only search the user's bookmarks */
+  bookmarksOnly?: boolean;
+  /** Messages in the thread (user and assistant) */
+  messageCount?: number;
 }
 
 /** Chat message document */
@@ -519,5 +846,14 @@ export interface ChatMessage {
   createdAt: Timestamp;
   /** Citations (only for assistant messages) */
   citations?: ChatCitation[];
+  /** Key takeaways (only for assistant messages) */
+  takeaways?: string[];
+  /**
+   * Assistant messages written by the server: "streaming" while the answer
+   * is still being generated (content holds the partial answer so far)
+   */
+  status?: ChatMessageStatus;
+  /** Last partial or final write (assistant messages written by the server) */
+  updatedAt?: Timestamp;
 }
 
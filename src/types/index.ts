@@ -8,10 +8,21 @@ export type {
   SourceCategory,
   SourceTier,
   SourceFetchState,
+  SourceFeedHealth,
+  FeedAdapterType,
+  HtmlListingRules,
+  FeedAdapterConfig,
+  SourceErrorClass,
   // Article types
   Article,
   ArticleAI,
   ArticleEmbedding,
+  ArticleEntity,
+  ArticleGeo,
+  ArticleRevisionField,
+  GeoRegion,
+  EntityType,
+  CompanyRole,
   // Brief types
   Brief,
   BriefTopStory,
@@ -25,6 +36,7 @@ export type {
   ChatTimeScope,
   ChatSourceFilter,
   ChatCategory,
+  ChatMessageStatus,
   ChatCitation,
   ChatThread,
   ChatMessage,